@@ -0,0 +1,33 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+// Field arithmetic on radix-2²⁶ limbs (FieldElement) against the same operations on JSBI,
+// which is how field elements were handled before. Run `yarn build` first.
+const { run, mark } = require('micro-bmark')
+let edMod = require('../../lib')
+let JSBI = require('jsbi')
+let sha512 = require('js-sha512')
+let ed = edMod.makeED(JSBI, sha512.sha512)
+const { FieldElement } = edMod
+
+run(async () => {
+  const { math, CURVE } = ed
+  const a = math.mod(JSBI.BigInt('0x' + '5a'.repeat(32)))
+  const b = math.mod(JSBI.BigInt('0x' + 'c3'.repeat(32)))
+  const fa = math.toFieldElement(a)
+  const fb = math.toFieldElement(b)
+
+  await mark('JSBI multiply', 100000, () => math.mod(JSBI.multiply(a, b)))
+  await mark('FieldElement multiply', 100000, () => fa.multiply(fb))
+  await mark('JSBI square', 100000, () => math.mod(JSBI.multiply(a, a)))
+  await mark('FieldElement square', 100000, () => fa.square())
+  // math.invert only takes the egcd path for moduli other than p, so time it mod ℓ
+  await mark('JSBI egcd invert mod ℓ', 200, () => math.invert(a, CURVE.n))
+  await mark('FieldElement invert', 200, () => fa.invert())
+
+  const priv = ed.utils.randomPrivateKey()
+  await mark('getPublicKey', 1000, async () => {
+    await ed.getPublicKey(priv)
+  })
+  await mark('ExtendedPoint.BASE.multiplyUnsafe', 200, () => {
+    ed.ExtendedPoint.BASE.multiplyUnsafe(b)
+  })
+})
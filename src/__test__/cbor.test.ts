@@ -0,0 +1,66 @@
+import { cborDecode, cborEncode, CborTag, CborValue } from '../cbor'
+import { bytesToHex, hexToBytes } from '../serialization'
+
+describe('CBOR', () => {
+    // https://www.rfc-editor.org/rfc/rfc8949#appendix-A
+    test('RFC 8949 examples', () => {
+        const examples: [CborValue, string][] = [
+            [0, '00'],
+            [23, '17'],
+            [24, '1818'],
+            [1000, '1903e8'],
+            [1000000, '1a000f4240'],
+            [1000000000000, '1b000000e8d4a51000'],
+            [Number.MAX_SAFE_INTEGER, '1b001fffffffffffff'],
+            [-1, '20'],
+            [-1000, '3903e7'],
+            [false, 'f4'],
+            [true, 'f5'],
+            [null, 'f6'],
+            [undefined, 'f7'],
+            [new Uint8Array(0), '40'],
+            [hexToBytes('01020304'), '4401020304'],
+            ['', '60'],
+            ['ü', '62c3bc'],
+            ['𐅑', '64f0908591'],
+            [[1, [2, 3], [4, 5]], '8301820203820405'],
+            [new CborTag(1, 1363896240), 'c11a514b67b0'],
+            [
+                new Map<CborValue, CborValue>([
+                    ['a', 1],
+                    ['b', [2, 3]],
+                ]),
+                'a26161016162820203',
+            ],
+        ]
+        for (const [value, encoded] of examples) {
+            expect(bytesToHex(cborEncode(value))).toBe(encoded)
+            expect(cborDecode(hexToBytes(encoded))).toEqual(value)
+        }
+    })
+
+    test('sorts map keys by their encoding', () => {
+        const map = new Map<CborValue, CborValue>([
+            [-2, 'x'],
+            ['a', 0],
+            [3, -8],
+            [1, 1],
+            [-1, 6],
+        ])
+        expect(bytesToHex(cborEncode(map))).toBe('a5010103272006216178616100')
+        expect(() => cborDecode(hexToBytes('a2030101010'.padEnd(12, '1')))).toThrow(
+            'map keys must be unique and sorted'
+        )
+    })
+
+    test('rejects what deterministic encoding excludes', () => {
+        expect(() => cborDecode(hexToBytes('1817'))).toThrow('non-minimal integer')
+        expect(() => cborDecode(hexToBytes('190017'))).toThrow('non-minimal integer')
+        expect(() => cborDecode(hexToBytes('5f42010243030405ff'))).toThrow('indefinite lengths')
+        expect(() => cborDecode(hexToBytes('f93c00'))).toThrow('float')
+        expect(() => cborDecode(hexToBytes('0000'))).toThrow('trailing data')
+        expect(() => cborDecode(hexToBytes('43010203'.slice(0, -2)))).toThrow('unexpected end of input')
+        expect(() => cborEncode(1.5)).toThrow('floats are not supported')
+        expect(() => cborEncode(Number.MAX_SAFE_INTEGER + 1)).toThrow('safe integer')
+    })
+})
@@ -0,0 +1,131 @@
+import { makeED } from '..'
+import JSBI from 'jsbi'
+import { sha512 } from 'js-sha512'
+import { cborDecode, cborEncode, CborTag, CborValue } from '../cbor'
+import { bytesToHex, hexToBytes, utf8ToBytes } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+
+// RFC 8032 7.1 TEST 1
+const SEED = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60'
+const PUBLIC_KEY = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a'
+const PAYLOAD = utf8ToBytes('This is the content.')
+// Checked against cbor-x and @noble/curves
+const SIGN1 =
+    'd28443a10127a10442313154546869732069732074686520636f6e74656e742e5840' +
+    '6354488f9f290e36cd80e23762e664a5cb03e4267c66a8cffaef7c66d89a40bf2cbb8222432a08e5ee410d8b540c6931d26fb6af673f7e2100655d8bae765c04'
+
+describe('COSE_Sign1', () => {
+    test('signs and verifies', async () => {
+        const unprotectedHeader = new Map<CborValue, CborValue>([[4, utf8ToBytes('11')]])
+        const message = await ed.cose.sign1(PAYLOAD, SEED, { unprotectedHeader })
+        expect(bytesToHex(message)).toBe(SIGN1)
+        const { protectedHeader, payload } = await ed.cose.verify1(message, PUBLIC_KEY)
+        expect(protectedHeader).toEqual(new Map([[1, -8]]))
+        expect(payload).toEqual(PAYLOAD)
+        await expect(ed.cose.verify1(message, await ed.getPublicKey('01'.repeat(32)))).rejects.toThrow(
+            'cose.verify1: invalid signature'
+        )
+    })
+
+    test('external data, detached payloads and untagged messages', async () => {
+        const externalAad = utf8ToBytes('device-42')
+        const message = await ed.cose.sign1(PAYLOAD, SEED, { externalAad, detached: true, tagged: false })
+        const [, , payload] = cborDecode(message) as CborValue[]
+        expect(payload).toBeNull()
+        expect((await ed.cose.verify1(message, PUBLIC_KEY, { externalAad, payload: PAYLOAD })).payload).toEqual(PAYLOAD)
+        await expect(ed.cose.verify1(message, PUBLIC_KEY, { payload: PAYLOAD })).rejects.toThrow('invalid signature')
+        await expect(ed.cose.verify1(message, PUBLIC_KEY, { externalAad })).rejects.toThrow('detached payload missing')
+    })
+
+    test('rejects algorithm confusion', async () => {
+        const withAlg = (protectedHeader: Map<CborValue, CborValue>, unprotectedHeader = new Map()) => {
+            const [, , payload, signature] = (cborDecode(hexToBytes(SIGN1)) as CborTag).value as CborValue[]
+            return cborEncode(new CborTag(18, [cborEncode(protectedHeader), unprotectedHeader, payload, signature]))
+        }
+        await expect(ed.cose.verify1(withAlg(new Map([[1, -7]])), PUBLIC_KEY)).rejects.toThrow('expected alg EdDSA')
+        await expect(ed.cose.verify1(withAlg(new Map()), PUBLIC_KEY)).rejects.toThrow('expected alg EdDSA')
+        await expect(ed.cose.verify1(withAlg(new Map([[1, -8]]), new Map([[1, -8]])), PUBLIC_KEY)).rejects.toThrow(
+            'alg must be protected'
+        )
+        const crit = new Map<CborValue, CborValue>([
+            [1, -8],
+            [2, [99]],
+        ])
+        await expect(ed.cose.verify1(withAlg(crit), PUBLIC_KEY)).rejects.toThrow('critical')
+        await expect(ed.cose.sign1(PAYLOAD, SEED, { protectedHeader: new Map([[1, -7]]) })).rejects.toThrow(
+            'alg must be EdDSA'
+        )
+        await expect(ed.cose.verify1(cborEncode(new CborTag(17, [])), PUBLIC_KEY)).rejects.toThrow('expected tag 18')
+    })
+})
+
+describe('COSE_Key', () => {
+    test('encodes and decodes OKP keys', () => {
+        const encoded = ed.coseKey.encode({ publicKey: ed.Point.fromHex(PUBLIC_KEY) })
+        expect(bytesToHex(encoded)).toBe('a401010327200621' + '5820' + PUBLIC_KEY)
+        expect(ed.coseKey.decode(encoded)).toEqual({ crv: 'Ed25519', publicKey: hexToBytes(PUBLIC_KEY) })
+
+        const kid = utf8ToBytes('key-1')
+        const withPrivate = ed.coseKey.decode(ed.coseKey.encode({ publicKey: PUBLIC_KEY, privateKey: SEED, kid }))
+        expect(withPrivate).toEqual({
+            crv: 'Ed25519',
+            publicKey: hexToBytes(PUBLIC_KEY),
+            privateKey: hexToBytes(SEED),
+            kid,
+        })
+
+        const x25519 = ed.x25519.getPublicKey(hexToBytes(SEED))
+        expect(ed.coseKey.decode(ed.coseKey.encode({ publicKey: x25519 }, 'X25519'))).toEqual({
+            crv: 'X25519',
+            publicKey: x25519,
+        })
+        // A point is written as its u-coordinate
+        const point = ed.Point.fromHex(PUBLIC_KEY)
+        expect(ed.coseKey.decode(ed.coseKey.encode({ publicKey: point }, 'X25519')).publicKey).toEqual(
+            point.toX25519Bytes()
+        )
+    })
+
+    test('rejects other keys', () => {
+        const key = (entries: [CborValue, CborValue][]) => cborEncode(new Map(entries))
+        const x = hexToBytes(PUBLIC_KEY)
+        expect(() =>
+            ed.coseKey.decode(
+                key([
+                    [1, 2],
+                    [-1, 1],
+                    [-2, x],
+                ])
+            )
+        ).toThrow('expected an OKP key')
+        expect(() =>
+            ed.coseKey.decode(
+                key([
+                    [1, 1],
+                    [-1, 7],
+                    [-2, x],
+                ])
+            )
+        ).toThrow('unsupported curve')
+        expect(() =>
+            ed.coseKey.decode(
+                key([
+                    [1, 1],
+                    [-1, 6],
+                    [3, -7],
+                    [-2, x],
+                ])
+            )
+        ).toThrow('unexpected alg')
+        expect(() =>
+            ed.coseKey.decode(
+                key([
+                    [1, 1],
+                    [-1, 6],
+                    [-2, x.slice(1)],
+                ])
+            )
+        ).toThrow('expected 32 bytes')
+    })
+})
@@ -1,5 +1,5 @@
 import * as fc from 'fast-check'
-import { makeED, NativeBigInt } from '..'
+import { InvalidArgumentError, makeED, NativeBigInt } from '..'
 import sha512 from 'js-sha512'
 import { readFileSync } from 'fs'
 import { join } from 'path'
@@ -106,6 +106,89 @@ describe('ed25519 native', () => {
             expect(await ed.verify(signature, WRONG_MESSAGE, publicKey)).toBe(false)
         })
     })
+    describe('verifyBatch()', () => {
+        it('should agree with verify on every item', async () => {
+            const privateKeys = [PRIVATE_KEY, toBytes('01'), toBytes('02'), toBytes('03')]
+            const items = await Promise.all(
+                privateKeys.map(async (privateKey) => ({
+                    signature: await ed.sign(MESSAGE, privateKey),
+                    message: MESSAGE,
+                    publicKey: await ed.getPublicKey(privateKey),
+                }))
+            )
+            expect(await ed.verifyBatch([])).toEqual([])
+            expect(await ed.verifyBatch(items)).toEqual([true, true, true, true])
+
+            items[2] = { ...items[2], message: WRONG_MESSAGE }
+            expect(await ed.verifyBatch(items)).toEqual([true, true, false, true])
+
+            items[0] = { ...items[0], publicKey: new Uint8Array(32).fill(0xff) }
+            expect(await ed.verifyBatch(items)).toEqual([false, true, false, true])
+        })
+    })
+    describe('sync API', () => {
+        it('should match the async API', async () => {
+            const publicKey = await ed.getPublicKey(PRIVATE_KEY)
+            expect(ed.getPublicKeySync(PRIVATE_KEY)).toEqual(publicKey)
+            expect(ed.Point.fromPrivateKeySync(PRIVATE_KEY).toRawBytes()).toEqual(publicKey)
+            const signature = ed.signSync(MESSAGE, PRIVATE_KEY)
+            expect(signature).toEqual(await ed.sign(MESSAGE, PRIVATE_KEY))
+            expect(ed.verifySync(signature, MESSAGE, publicKey)).toBe(true)
+            expect(ed.verifySync(signature, WRONG_MESSAGE, publicKey)).toBe(false)
+            expect(ed.verifySync(signature, MESSAGE, publicKey, { mode: 'rfc8032-strict' })).toBe(true)
+        })
+        it('should throw without a synchronous hash', () => {
+            const edAsync = makeED(Ints)
+            expect(() => edAsync.signSync(MESSAGE, PRIVATE_KEY)).toThrow('sha512Sync')
+            expect(() => edAsync.getPublicKeySync(PRIVATE_KEY)).toThrow('sha512Sync')
+        })
+    })
+    describe('verify() modes', () => {
+        const modes = ['rfc8032-strict', 'cofactored', 'cofactorless', 'zip215'] as const
+        const verifyAll = (signature: string, message: string, publicKey: string) =>
+            Promise.all(modes.map((mode) => ed.verify(signature, message, publicKey, { mode })))
+        const IDENTITY = '01'.padEnd(64, '0')
+
+        it('should accept valid signatures in every mode', async () => {
+            const message = '6d657373616765'
+            const privateKey = '01'.repeat(32)
+            const signature = await ed.sign(message, privateKey)
+            const publicKey = await ed.getPublicKey(privateKey)
+            expect(await verifyAll(signature, message, publicKey)).toEqual([true, true, true, true])
+            expect(await verifyAll(signature, '00', publicKey)).toEqual([false, false, false, false])
+        })
+        it('should reject small order A and R only in rfc8032-strict', async () => {
+            const signature = IDENTITY + '00'.repeat(32)
+            expect(await verifyAll(signature, '', IDENTITY)).toEqual([false, true, true, true])
+        })
+        it('should pick the cofactored equation for a mixed order R', async () => {
+            // R = [r]B + T with T of order 8, and S = r + kA
+            const publicKey = 'c4c1227d7fff941a976049ecefad7b663fa5121d769cbbd79a53d344e4773e98'
+            const signature =
+                '22804c3184f9850814cc39365b3984a4d1da26272d65ba64503fb8c7c68cbec1' +
+                'ad98f0f8ed89db851edddd73c9b3207ed5734ff1573973cc4f1677579818260f'
+            expect(await verifyAll(signature, '6d69786564206f72646572', publicKey)).toEqual([false, true, false, true])
+        })
+        it('should accept non-canonical encodings only in zip215', async () => {
+            // The identity with y = p + 1, and with x = 0 but the sign bit set.
+            const nonCanonical = ['ee'.padEnd(62, 'f') + '7f', '01'.padEnd(62, '0') + '80']
+            for (const encoding of nonCanonical) {
+                const signature = encoding + '00'.repeat(32)
+                for (const mode of ['rfc8032-strict', 'cofactored', 'cofactorless'] as const) {
+                    await expect(ed.verify(signature, '', IDENTITY, { mode })).rejects.toThrow()
+                    await expect(ed.verify(IDENTITY + '00'.repeat(32), '', encoding, { mode })).rejects.toThrow()
+                }
+                expect(await ed.verify(signature, '', IDENTITY, { mode: 'zip215' })).toBe(true)
+                expect(await ed.verify(IDENTITY + '00'.repeat(32), '', encoding, { mode: 'zip215' })).toBe(true)
+            }
+        })
+        it('should require S < L in every mode', async () => {
+            const L = 'edd3f55c1a631258d69cf7a2def9de1400000000000000000000000000000010'
+            for (const mode of modes) {
+                await expect(ed.verify(IDENTITY + L, '', IDENTITY, { mode })).rejects.toThrow('S < CURVE.n')
+            }
+        })
+    })
     describe('BASE_POINT.multiply()', () => {
         // https://xmr.llcoins.net/addresstests.html
         it('should create right publicKey without SHA-512 hashing TEST 1', () => {
@@ -174,6 +257,37 @@ describe('ed25519 native', () => {
             const point = ed.Point.fromHex(publicKey)
             expect(point.toX25519().toString(16)).toBe(montgomery)
         })
+
+        it('should convert montgomery back to ed25519', async () => {
+            const pub = '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c'
+            const point = ed.Point.fromHex(pub)
+            const signBit = point.toRawBytes()[31] >> 7
+            expect(ed.Point.fromX25519(point.toX25519(), signBit).toHex()).toBe(pub)
+            expect(ed.Point.fromX25519(point.toX25519Bytes(), 1 - signBit).equals(point.negate())).toBe(true)
+            expect(ed.Point.fromX25519('09'.padEnd(64, '0')).equals(ed.Point.BASE)).toBe(true)
+            expect(() => ed.Point.fromX25519('ec'.padEnd(62, 'f') + '7f')).toThrow(
+                'Point.fromX25519: u = -1 has no ed25519 point'
+            )
+        })
+
+        it('should compute both montgomery coordinates', async () => {
+            const { u, v } = ed.Point.BASE.toMontgomery()
+            expect(u.toString()).toBe('9')
+            expect(v.toString()).toBe('14781619447589544791020593568409986887264606134616475288964881837755586237401')
+        })
+
+        it('should convert private keys like libsodium', async () => {
+            const priv = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60'
+            const xPriv = await ed.keyUtils.toX25519PrivateKey(priv)
+            expect(Buffer.from(xPriv).toString('hex')).toBe(
+                '307c83864f2833cb427a2ef1c00a013cfdff2768d980c0a3a520f006904de94f'
+            )
+            const xPub = (await ed.Point.fromPrivateKey(priv)).toX25519Bytes()
+            expect(Buffer.from(xPub).toString('hex')).toBe(
+                'd85e07ec22b0ad881537c2f44d662d1a143cf830c57aca4305d85c7a90f6b62e'
+            )
+            expect(ed.x25519.getPublicKey(xPriv)).toEqual(xPub)
+        })
     })
 })
 
@@ -254,6 +368,80 @@ describe('rfc8032 vectors', () => {
     })
 })
 
+// https://tools.ietf.org/html/rfc8032#section-7.2
+// https://tools.ietf.org/html/rfc8032#section-7.3
+describe('rfc8032 ctx and ph vectors', () => {
+    const ctxVectors = [
+        {
+            privateKey: '0305334e381af78f141cb666f6199f57bc3495335a256a95bd2a55bf546663f6',
+            publicKey: 'dfc9425e4f968f7f0c29f0259cf5f9aed6851c2bb4ad8bfb860cfee0ab248292',
+            message: 'f726936d19c800494e3fdaff20b276a8',
+            context: '666f6f',
+            signature:
+                '55a4cc2f70a54e04288c5f4cd1e45a7bb520b36292911876cada7323198dd87a8b36950b95130022907a7fb7c4e9b2d5f6cca685a587b4b21f4b888e4e7edb0d',
+        },
+        {
+            privateKey: '0305334e381af78f141cb666f6199f57bc3495335a256a95bd2a55bf546663f6',
+            publicKey: 'dfc9425e4f968f7f0c29f0259cf5f9aed6851c2bb4ad8bfb860cfee0ab248292',
+            message: 'f726936d19c800494e3fdaff20b276a8',
+            context: '626172',
+            signature:
+                'fc60d5872fc46b3aa69f8b5b4351d5808f92bcc044606db097abab6dbcb1aee3216c48e8b3b66431b5b186d1d28f8ee15a5ca2df6668346291c2043d4eb3e90d',
+        },
+        {
+            privateKey: '0305334e381af78f141cb666f6199f57bc3495335a256a95bd2a55bf546663f6',
+            publicKey: 'dfc9425e4f968f7f0c29f0259cf5f9aed6851c2bb4ad8bfb860cfee0ab248292',
+            message: '508e9e6882b979fea900f62adceaca35',
+            context: '666f6f',
+            signature:
+                '8b70c1cc8310e1de20ac53ce28ae6e7207f33c3295e03bb5c0732a1d20dc64908922a8b052cf99b7c4fe107a5abb5b2c4085ae75890d02df26269d8945f84b0b',
+        },
+        {
+            privateKey: 'ab9c2853ce297ddab85c993b3ae14bcad39b2c682beabc27d6d4eb20711d6560',
+            publicKey: '0f1d1274943b91415889152e893d80e93275a1fc0b65fd71b4b0dda10ad7d772',
+            message: 'f726936d19c800494e3fdaff20b276a8',
+            context: '666f6f',
+            signature:
+                '21655b5f1aa965996b3f97b3c849eafba922a0a62992f73b3d1b73106a84ad85e9b86a7b6005ea868337ff2d20a7f5fbd4cd10b0be49a68da2b2e0dc0ad8960f',
+        },
+    ]
+    it('should match Ed25519ctx vectors', async () => {
+        for (const { privateKey, publicKey, message, context, signature } of ctxVectors) {
+            expect(await ed.getPublicKey(privateKey)).toBe(publicKey)
+            expect(await ed.signCtx(message, privateKey, context)).toBe(signature)
+            expect(await ed.verifyCtx(signature, message, publicKey, context)).toBe(true)
+        }
+    })
+    it('should separate Ed25519ctx domains', async () => {
+        const { privateKey, publicKey, message, context, signature } = ctxVectors[0]
+        expect(await ed.verifyCtx(signature, message, publicKey, '626172')).toBe(false)
+        expect(await ed.verify(signature, message, publicKey)).toBe(false)
+        expect(await ed.verifyPh(signature, message, publicKey, context)).toBe(false)
+        await expect(ed.signCtx(message, privateKey, '00'.repeat(256))).rejects.toThrow(
+            'dom2: context must be at most 255 bytes'
+        )
+        await expect(ed.signCtx(message, privateKey, '')).rejects.toThrow(InvalidArgumentError)
+        await expect(ed.verifyCtx(signature, message, publicKey, new Uint8Array())).rejects.toThrow(
+            'dom2: Ed25519ctx context must not be empty'
+        )
+        // Ed25519ph keeps the empty context, which is its default
+        const phSignature = await ed.signPh(message, privateKey, '')
+        expect(await ed.verifyPh(phSignature, message, publicKey)).toBe(true)
+    })
+    it('should match Ed25519ph vector', async () => {
+        const privateKey = '833fe62409237b9d62ec77587520911e9a759cec1d19755b7da901b96dca3d42'
+        const publicKey = 'ec172b93ad5e563bf4932c70e1245034c35467ef2efd4d64ebf819683467e2bf'
+        const message = '616263'
+        const signature =
+            '98a70222f0b8121aa9d30f813d683f809e462b469c7ff87639499bb94e6dae4131f85042463c2a355a2003d062adf5aaa10b8c61e636062aaad11c2a26083406'
+        expect(await ed.getPublicKey(privateKey)).toBe(publicKey)
+        expect(await ed.signPh(message, privateKey)).toBe(signature)
+        expect(await ed.verifyPh(signature, message, publicKey)).toBe(true)
+        expect(await ed.verifyPh(signature, '616264', publicKey)).toBe(false)
+        expect(await ed.verify(signature, message, publicKey)).toBe(false)
+    })
+})
+
 describe('ristretto255', () => {
     const { ExtendedPoint } = ed
     async function sha512(message: Uint8Array) {
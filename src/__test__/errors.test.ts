@@ -0,0 +1,67 @@
+import { makeED } from '..'
+import JSBI from 'jsbi'
+import { sha512 } from 'js-sha512'
+import {
+    Ed25519Error,
+    InvalidHexError,
+    InvalidKeyLengthError,
+    InvalidPointEncodingError,
+    InvalidScalarError,
+    InvalidSignatureError,
+    NonCanonicalScalarError,
+    NotInvertibleError,
+} from '../errors'
+
+const ed = makeED(JSBI, sha512)
+
+// The error thrown by fn, to check its class and code
+function thrown(fn: () => unknown): Ed25519Error {
+    try {
+        fn()
+    } catch (e) {
+        return e as Ed25519Error
+    }
+    throw new Error('expected an error')
+}
+
+describe('Typed errors', () => {
+    test('classes, codes and names', () => {
+        const e = new InvalidHexError('hexToBytes: expected hex characters only')
+        expect(e).toBeInstanceOf(Ed25519Error)
+        expect(e).toBeInstanceOf(Error)
+        expect(e.code).toBe('INVALID_HEX')
+        expect(e.name).toBe('InvalidHexError')
+        expect(e.message).toBe('hexToBytes: expected hex characters only')
+    })
+
+    test('input validation throws them', async () => {
+        const privateKey = ed.utils.randomPrivateKey()
+        const publicKey = await ed.getPublicKey(privateKey)
+        const signature = await ed.sign(Uint8Array.from([1, 2, 3]), privateKey)
+
+        const cases: [() => unknown, typeof Ed25519Error, string][] = [
+            [() => ed.Point.fromHex('zz'.repeat(32)), InvalidHexError, 'INVALID_HEX'],
+            [() => ed.Point.fromHex('ff'.repeat(32)), InvalidPointEncodingError, 'INVALID_POINT_ENCODING'],
+            [() => ed.Point.fromHex('aa'), InvalidPointEncodingError, 'INVALID_POINT_ENCODING'],
+            [() => ed.Signature.fromHex(signature.slice(1)), InvalidSignatureError, 'INVALID_SIGNATURE'],
+            [() => ed.keyUtils.normalizePrivateKey(new Uint8Array(31)), InvalidKeyLengthError, 'INVALID_KEY_LENGTH'],
+            [() => ed.Point.BASE.multiply(-1), InvalidScalarError, 'INVALID_SCALAR'],
+            [() => ed.math.invert(JSBI.BigInt(0)), NotInvertibleError, 'NOT_INVERTIBLE'],
+            [
+                () => ed.scalars.fromCanonicalBytes(new Uint8Array(32).fill(255)),
+                NonCanonicalScalarError,
+                'NON_CANONICAL_SCALAR',
+            ],
+        ]
+        for (const [fn, cls, code] of cases) {
+            const e = thrown(fn)
+            expect(e).toBeInstanceOf(cls)
+            expect(e.code).toBe(code)
+        }
+
+        const malleable = Uint8Array.from(signature)
+        malleable.set(ed.scalars.serializeNumber(JSBI.add(ed.CURVE.n, JSBI.BigInt(1))).slice(0, 32), 32)
+        const e = await ed.verify(malleable, Uint8Array.from([1, 2, 3]), publicKey).catch((e) => e)
+        expect(e).toBeInstanceOf(NonCanonicalScalarError)
+    })
+})
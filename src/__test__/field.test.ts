@@ -0,0 +1,123 @@
+import { FieldElement } from '..'
+
+const P = 2n ** 255n - 19n
+
+function toBytes(n: bigint): Uint8Array {
+    const bytes = new Uint8Array(32)
+    for (let i = 0; i < 32; i++) bytes[i] = Number((n >> BigInt(8 * i)) & 0xffn)
+    return bytes
+}
+
+function toNumber(fe: FieldElement): bigint {
+    return fe.toBytes().reduceRight((acc, b) => (acc << 8n) | BigInt(b), 0n)
+}
+
+function mod(n: bigint): bigint {
+    const r = n % P
+    return r < 0n ? r + P : r
+}
+
+function power(base: bigint, exp: bigint): bigint {
+    let res = 1n
+    for (base = mod(base); exp > 0n; exp >>= 1n) {
+        if (exp & 1n) res = mod(res * base)
+        base = mod(base * base)
+    }
+    return res
+}
+
+// Deterministic pseudo random values below 2^256, so that unreduced inputs are covered too
+function randomValues(count: number): bigint[] {
+    const values: bigint[] = []
+    let state = 0x1234567n
+    for (let i = 0; i < count; i++) {
+        let n = 0n
+        for (let j = 0; j < 4; j++) {
+            state = (state * 6364136223846793005n + 1442695040888963407n) & (2n ** 64n - 1n)
+            n = (n << 64n) | state
+        }
+        values.push(n)
+    }
+    return values
+}
+
+const EDGES = [0n, 1n, 2n, P - 1n, P, P + 1n, 2n ** 255n - 1n, 2n ** 255n, 2n ** 256n - 1n, 2n ** 26n - 1n]
+const VALUES = EDGES.concat(randomValues(40))
+
+describe('FieldElement', () => {
+    it('should encode canonically', () => {
+        for (const n of VALUES) expect(FieldElement.fromBytes(toBytes(n)).toBytes()).toEqual(toBytes(mod(n)))
+        expect(toNumber(FieldElement.fromNumber(2 ** 53 - 1))).toBe(2n ** 53n - 1n)
+        expect(() => FieldElement.fromBytes(new Uint8Array(31))).toThrow()
+    })
+
+    it('should add, subtract, multiply and square like BigInt', () => {
+        for (let i = 0; i < VALUES.length; i++) {
+            const a = VALUES[i]
+            const b = VALUES[(i * 7 + 3) % VALUES.length]
+            const fa = FieldElement.fromBytes(toBytes(a))
+            const fb = FieldElement.fromBytes(toBytes(b))
+            expect(toNumber(fa.add(fb))).toBe(mod(a + b))
+            expect(toNumber(fa.subtract(fb))).toBe(mod(a - b))
+            expect(toNumber(fa.negate())).toBe(mod(-a))
+            expect(toNumber(fa.multiply(fb))).toBe(mod(a * b))
+            expect(toNumber(fa.square())).toBe(mod(a * a))
+            expect(fa.isZero()).toBe(mod(a) === 0n)
+            expect(fa.isNegative()).toBe((mod(a) & 1n) === 1n)
+            expect(fa.equals(FieldElement.fromBytes(toBytes(mod(a))))).toBe(true)
+        }
+    })
+
+    it('should stay exact through long chains of operations', () => {
+        const values = randomValues(8).map((n) => FieldElement.fromBytes(toBytes(n)))
+        let fe = values[0]
+        let n = toNumber(fe)
+        for (let i = 0; i < 500; i++) {
+            const other = values[i % values.length]
+            const m = toNumber(other)
+            if (i % 4 === 0) [fe, n] = [fe.add(other).add(other), mod(n + 2n * m)]
+            else if (i % 4 === 1) [fe, n] = [fe.subtract(other), mod(n - m)]
+            else if (i % 4 === 2) [fe, n] = [fe.multiply(other), mod(n * m)]
+            else [fe, n] = [fe.square(), mod(n * n)]
+        }
+        expect(toNumber(fe)).toBe(n)
+    })
+
+    it('should invert, with zero mapping to zero', () => {
+        for (const n of VALUES) {
+            expect(toNumber(FieldElement.fromBytes(toBytes(n)).invert())).toBe(power(n, P - 2n))
+        }
+        const batch = VALUES.map((n) => FieldElement.fromBytes(toBytes(n)))
+        expect(FieldElement.invertBatch(batch).map(toNumber)).toEqual(VALUES.map((n) => power(n, P - 2n)))
+    })
+
+    it('should compute x^(2^252-3) and square roots', () => {
+        for (const n of VALUES) {
+            const fe = FieldElement.fromBytes(toBytes(n))
+            expect(toNumber(fe.pow_2_252_3())).toBe(power(n, 2n ** 252n - 3n))
+            const isSquare = power(n, (P - 1n) / 2n) !== P - 1n
+            const { isValid, value } = fe.sqrt()
+            expect(isValid).toBe(isSquare)
+            expect(value.isNegative()).toBe(false)
+            if (isValid) expect(toNumber(value.square())).toBe(mod(n))
+        }
+    })
+
+    it('should compute uvRatio as in RFC8032 5.1.3', () => {
+        const sqrtM1 = power(2n, (P - 1n) / 4n)
+        for (let i = 1; i < VALUES.length; i++) {
+            const u = mod(VALUES[i])
+            const v = mod(VALUES[i - 1]) || 1n
+            const { isValid, value } = FieldElement.uvRatio(
+                FieldElement.fromBytes(toBytes(u)),
+                FieldElement.fromBytes(toBytes(v))
+            )
+            const x = toNumber(value)
+            const ratio = mod(u * power(v, P - 2n))
+            expect(x & 1n).toBe(0n)
+            if (isValid) expect(mod(x * x)).toBe(ratio)
+            else expect(mod(x * x)).toBe(mod(sqrtM1 * ratio))
+        }
+        expect(FieldElement.uvRatio(FieldElement.ZERO, FieldElement.ONE).isValid).toBe(true)
+    })
+})
@@ -0,0 +1,140 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { BigIntType, Ed25519Type, makeED, NativeBigInt } from '..'
+import { InvalidArgumentError, InvalidPointError } from '../errors'
+import { bytesToHex, hexToBytes } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+const edNative = makeED(new NativeBigInt(), sha512)
+
+// https://www.rfc-editor.org/rfc/rfc9591#appendix-E.1
+const VECTOR = {
+    groupSecretKey: '7b1c33d3f5291d85de664833beb1ad469f7fb6025a0ec78b3a790c6e13a98304',
+    groupPublicKey: '15d21ccd7ee42959562fc8aa63224c8851fb3ec85a3faf66040d380fb9738673',
+    message: hexToBytes('74657374'),
+    coefficient: '178199860edd8c62f5212ee91eff1295d0d670ab4ed4506866bae57e7030b204',
+    shares: [
+        '929dcc590407aae7d388761cddb0c0db6f5627aea8e217f4a033f2ec83d93509',
+        'a91e66e012e4364ac9aaa405fcafd370402d9859f7b6685c07eed76bf409e80d',
+        'd3cb090a075eb154e82fdb4b3cb507f110040905468bb9c46da8bdea643a9a02',
+    ],
+    // Participants 1 and 3 sign
+    signers: [
+        {
+            hidingRandomness: '0fd2e39e111cdc266f6c0f4d0fd45c947761f1f5d3cb583dfcb9bbaf8d4c9fec',
+            bindingRandomness: '69cd85f631d5f7f2721ed5e40519b1366f340a87c2f6856363dbdcda348a7501',
+            hiding: 'b5aa8ab305882a6fc69cbee9327e5a45e54c08af61ae77cb8207be3d2ce13de3',
+            binding: '67e98ab55aa310c3120418e5050c9cf76cf387cb20ac9e4b6fdb6f82a469f932',
+            share: '001719ab5a53ee1a12095cd088fd149702c0720ce5fd2f29dbecf24b7281b603',
+        },
+        {
+            hidingRandomness: '86d64a260059e495d0fb4fcc17ea3da7452391baa494d4b00321098ed2a0062f',
+            bindingRandomness: '13e6b25afb2eba51716a9a7d44130c0dbae0004a9ef8d7b5550c8a0e07c61775',
+            hiding: 'cfbdb165bd8aad6eb79deb8d287bcc0ab6658ae57fdcc98ed12c0669e90aec91',
+            binding: '7487bc41a6e712eea2f2af24681b58b1cf1da278ea11fe4e8b78398965f13552',
+            share: 'bd86125de990acc5e1f13781d8e32c03a9bbd4c53539bbc106058bfd14326007',
+        },
+    ],
+    signature:
+        '36282629c383bb820a88b71cae937d41f2f2adfcc3d02e55507e2fb9e2dd3cbe' +
+        'bd9d2b0844e49ae0f3fa935161e1419aab7b47d21a37ebeae1f17d4987b3160b',
+}
+
+async function rfcVector<BIT extends BigIntType>(edX: Ed25519Type<BIT>) {
+    const { frost } = edX
+    const { shares, groupPublicKey, vssCommitment } = frost.trustedDealerKeygen(2, 3, VECTOR.groupSecretKey, [
+        VECTOR.coefficient,
+    ])
+    expect(bytesToHex(groupPublicKey)).toBe(VECTOR.groupPublicKey)
+    expect(shares.map((s) => bytesToHex(s.secretShare))).toEqual(VECTOR.shares)
+    expect(shares.every((s) => frost.vssVerify(s, vssCommitment))).toBe(true)
+
+    const signers = [shares[0], shares[2]]
+    const nonces = await Promise.all(
+        signers.map((share, i) =>
+            frost.commit(share, {
+                hiding: hexToBytes(VECTOR.signers[i].hidingRandomness),
+                binding: hexToBytes(VECTOR.signers[i].bindingRandomness),
+            })
+        )
+    )
+    nonces.forEach(({ commitment }, i) => {
+        expect(bytesToHex(commitment.hiding)).toBe(VECTOR.signers[i].hiding)
+        expect(bytesToHex(commitment.binding)).toBe(VECTOR.signers[i].binding)
+    })
+    const commitments = nonces.map((n) => n.commitment)
+    const signatureShares = await Promise.all(
+        signers.map((share, i) => frost.sign(share, nonces[i], VECTOR.message, commitments))
+    )
+    expect(signatureShares.map((s) => bytesToHex(s.share))).toEqual(VECTOR.signers.map((s) => s.share))
+
+    const { publicKeyShares } = frost.deriveGroupInfo(2, 3, vssCommitment)
+    for (const s of signatureShares) {
+        const pk = publicKeyShares[s.identifier - 1]
+        expect(await frost.verifySignatureShare(s, pk, commitments, groupPublicKey, VECTOR.message)).toBe(true)
+    }
+    const signature = await frost.aggregate(commitments, VECTOR.message, groupPublicKey, signatureShares)
+    expect(bytesToHex(signature)).toBe(VECTOR.signature)
+    expect(await edX.verify(signature, VECTOR.message, groupPublicKey, { mode: 'rfc8032-strict' })).toBe(true)
+}
+
+describe('FROST(Ed25519, SHA-512)', () => {
+    test('RFC9591 vector', async () => {
+        await rfcVector(ed)
+        await rfcVector(edNative)
+    })
+
+    test('any 3 of 5 sign for the group', async () => {
+        const { frost } = ed
+        const { shares, groupPublicKey } = frost.trustedDealerKeygen(3, 5)
+        const message = new TextEncoder().encode('transfer 10 to bob')
+        for (const signers of [
+            [shares[0], shares[1], shares[2]],
+            [shares[4], shares[1], shares[3]],
+        ]) {
+            const nonces = await Promise.all(signers.map((share) => frost.commit(share)))
+            const commitments = nonces.map((n) => n.commitment)
+            const signatureShares = await Promise.all(
+                signers.map((share, i) => frost.sign(share, nonces[i], message, commitments))
+            )
+            const signature = await frost.aggregate(commitments, message, groupPublicKey, signatureShares)
+            expect(await ed.verify(signature, message, groupPublicKey)).toBe(true)
+            const [sigHex, messageHex, keyHex] = [signature, message, groupPublicKey].map(bytesToHex)
+            expect(await edNative.verify(sigHex, messageHex, keyHex)).toBe(true)
+        }
+    })
+
+    test('rejects misuse and bad shares', async () => {
+        const { frost } = ed
+        const { shares, groupPublicKey, vssCommitment } = frost.trustedDealerKeygen(2, 3)
+        const message = hexToBytes('74657374')
+        const [n1, n2] = await Promise.all([frost.commit(shares[0]), frost.commit(shares[1])])
+        const commitments = [n2.commitment, n1.commitment]
+        const s1 = await frost.sign(shares[0], n1, message, commitments)
+
+        // Nonces sign once, and only with their own commitment
+        await expect(frost.sign(shares[0], n1, message, commitments)).rejects.toThrow(InvalidArgumentError)
+        await expect(frost.sign(shares[1], n2, message, [n1.commitment])).rejects.toThrow(InvalidArgumentError)
+        const swapped = { ...n2.commitment, hiding: n2.commitment.binding, binding: n2.commitment.hiding }
+        await expect(frost.sign(shares[1], n2, message, [n1.commitment, swapped])).rejects.toThrow(InvalidArgumentError)
+
+        // A share for another message is caught before aggregation
+        const { publicKeyShares } = frost.deriveGroupInfo(2, 3, vssCommitment)
+        const s2 = await frost.sign(shares[1], n2, hexToBytes('00'), commitments)
+        const verifyShare = (share: typeof s1, i: number) =>
+            frost.verifySignatureShare(share, publicKeyShares[i], commitments, groupPublicKey, message)
+        expect(await verifyShare(s1, 0)).toBe(true)
+        expect(await verifyShare(s2, 1)).toBe(false)
+        const signature = await frost.aggregate(commitments, message, groupPublicKey, [s1, s2])
+        expect(await ed.verify(signature, message, groupPublicKey)).toBe(false)
+        await expect(frost.aggregate(commitments, message, groupPublicKey, [s1])).rejects.toThrow(InvalidArgumentError)
+
+        // Shares off the committed polynomial
+        expect(frost.vssVerify({ ...shares[0], identifier: 2 }, vssCommitment)).toBe(false)
+        expect(() => frost.trustedDealerKeygen(1, 3)).toThrow(InvalidArgumentError)
+        expect(() => frost.trustedDealerKeygen(4, 3)).toThrow(InvalidArgumentError)
+        // Elements of small order
+        const smallOrder = ed.utils.TORSION_SUBGROUP[1]
+        expect(() => frost.vssVerify(shares[0], [smallOrder, vssCommitment[1]])).toThrow(InvalidPointError)
+    })
+})
@@ -0,0 +1,73 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { makeED } from '..'
+import { expandMessageXmd } from '../hash'
+import { bytesToHex } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+
+// https://www.rfc-editor.org/rfc/rfc9380#appendix-K.3
+describe('expandMessageXmd', () => {
+    const DST = 'QUUX-V01-CS02-with-expander-SHA512-256'
+    test('SHA-512 vectors', async () => {
+        expect(bytesToHex(await expandMessageXmd('', DST, 0x20, sha512))).toBe(
+            '6b9a7312411d92f921c6f68ca0b6380730a1a4d982c507211a90964c394179ba'
+        )
+        expect(bytesToHex(await expandMessageXmd('abc', DST, 0x20, sha512))).toBe(
+            '0da749f12fbe5483eb066a5f595055679b976e93abe9be6f0f6318bce7aca8dc'
+        )
+        expect(bytesToHex(await expandMessageXmd('abc', DST, 0x80, sha512))).toBe(
+            '7f1dddd13c08b543f2e2037b14cefb255b44c83cc397c1786d975653e36a6b11bdd7732d8b38adb4a0edc26a0cef4bb45217135456e58fbca1703cd6032cb1347ee720b87972d63fbf232587043ed2901bce7f22610c0419751c065922b488431851041310ad659e4b23520e1772ab29dcdeb2002222a363f0c2b1c972b3efe1'
+        )
+    })
+    test('oversized DST', async () => {
+        expect(bytesToHex(await expandMessageXmd('abc', DST.repeat(8), 0x20, sha512))).toBe(
+            'e446ebf002644ed69fa25d6f71316a68109f334c4f67c91b9631b8a458589abe'
+        )
+        await expect(expandMessageXmd('abc', DST, 256 * 64, sha512)).rejects.toThrow(
+            'expandMessageXmd: requested length is too large'
+        )
+    })
+})
+
+// https://www.rfc-editor.org/rfc/rfc9380#appendix-J.5
+describe('hash to edwards25519', () => {
+    const expectAffine = (point: { toAffine(): { x: JSBI; y: JSBI } }, x: string, y: string) => {
+        const affine = point.toAffine()
+        expect(affine.x.toString(16)).toBe(x)
+        expect(affine.y.toString(16)).toBe(y)
+    }
+
+    test('edwards25519_XMD:SHA-512_ELL2_RO_', async () => {
+        const DST = 'QUUX-V01-CS02-with-edwards25519_XMD:SHA-512_ELL2_RO_'
+        expectAffine(
+            await ed.hashToCurve('', DST),
+            '3c3da6925a3c3c268448dcabb47ccde5439559d9599646a8260e47b1e4822fc6',
+            '9a6c8561a0b22bef63124c588ce4c62ea83a3c899763af26d795302e115dc21'
+        )
+        expectAffine(
+            await ed.hashToCurve('abc', DST),
+            '608040b42285cc0d72cbb3985c6b04c935370c7361f4b7fbdb1ae7f8c1a8ecad',
+            '1a8395b88338f22e435bbd301183e7f20a5f9de643f11882fb237f88268a5531'
+        )
+        expectAffine(
+            await ed.hashToCurve('abcdef0123456789', DST),
+            '6d7fabf47a2dc03fe7d47f7dddd21082c5fb8f86743cd020f3fb147d57161472',
+            '53060a3d140e7fbcda641ed3cf42c88a75411e648a1add71217f70ea8ec561a6'
+        )
+    })
+
+    test('edwards25519_XMD:SHA-512_ELL2_NU_', async () => {
+        const DST = 'QUUX-V01-CS02-with-edwards25519_XMD:SHA-512_ELL2_NU_'
+        expectAffine(
+            await ed.encodeToCurve('', DST),
+            '1ff2b70ecf862799e11b7ae744e3489aa058ce805dd323a936375a84695e76da',
+            '222e314d04a4d5725e9f2aff9fb2a6b69ef375a1214eb19021ceab2d687f0f9b'
+        )
+        expectAffine(
+            await ed.encodeToCurve(Uint8Array.from([0x61, 0x62, 0x63]), DST),
+            '5f13cc69c891d86927eb37bd4afc6672360007c63f68a33ab423a3aa040fd2a8',
+            '67732d50f9a26f73111dd1ed5dba225614e538599db58ba30aaea1f5c827fa42'
+        )
+    })
+})
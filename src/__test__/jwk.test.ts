@@ -0,0 +1,84 @@
+import { Jwk, makeED } from '..'
+import JSBI from 'jsbi'
+import { sha512 } from 'js-sha512'
+import { createHash, generateKeyPairSync } from 'crypto'
+import { Hash, Message } from '../hash'
+import { bytesToBase64Url, bytesToHex } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+
+const sha256: Hash = {
+    hex: (message: Message) =>
+        createHash('sha256')
+            .update(Buffer.from(message as Uint8Array))
+            .digest('hex'),
+    arrayBuffer: (message: Message) => Uint8Array.from(sha256.digest(message)).buffer,
+    digest: (message: Message) =>
+        Array.from(
+            createHash('sha256')
+                .update(Buffer.from(message as Uint8Array))
+                .digest()
+        ),
+}
+
+// https://www.rfc-editor.org/rfc/rfc8037#appendix-A
+const PRIVATE_JWK = {
+    kty: 'OKP' as const,
+    crv: 'Ed25519' as const,
+    d: 'nWGxne_9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A',
+    x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo',
+}
+const SEED = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60'
+const PUBLIC_KEY = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a'
+
+describe('JWK', () => {
+    test('RFC 8037 examples', async () => {
+        expect(ed.jwk.toJwk({ publicKey: PUBLIC_KEY, privateKey: SEED })).toEqual(PRIVATE_JWK)
+        expect(ed.jwk.toJwk({ publicKey: ed.Point.fromHex(PUBLIC_KEY) })).toEqual({
+            kty: 'OKP',
+            crv: 'Ed25519',
+            x: PRIVATE_JWK.x,
+        })
+        const { crv, publicKey, privateKey } = ed.jwk.fromJwk(PRIVATE_JWK)
+        expect(crv).toBe('Ed25519')
+        expect(bytesToHex(publicKey)).toBe(PUBLIC_KEY)
+        expect(bytesToHex(privateKey as Uint8Array)).toBe(SEED)
+        expect(await ed.jwk.thumbprint(PRIVATE_JWK)).toBe('kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k')
+        expect(await ed.jwk.thumbprint(PRIVATE_JWK, sha256)).toBe('kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k')
+        expect(await ed.jwk.thumbprint(PRIVATE_JWK, sha512)).toBe(
+            bytesToBase64Url(Uint8Array.from(sha512.digest(`{"crv":"Ed25519","kty":"OKP","x":"${PRIVATE_JWK.x}"}`)))
+        )
+    })
+
+    test('interoperates with node crypto', () => {
+        for (const type of ['ed25519', 'x25519'] as const) {
+            const { privateKey } = generateKeyPairSync(type as 'ed25519')
+            // The installed node typings predate JWK export
+            const jwk = (privateKey as unknown as { export(options: { format: 'jwk' }): Jwk }).export({ format: 'jwk' })
+            const decoded = ed.jwk.fromJwk(jwk)
+            expect(decoded.crv).toBe(jwk.crv)
+            const publicKey =
+                type === 'x25519' ? ed.x25519.getPublicKey(decoded.privateKey as Uint8Array) : decoded.publicKey
+            expect(ed.jwk.toJwk({ publicKey, privateKey: decoded.privateKey }, decoded.crv)).toEqual(jwk)
+        }
+    })
+
+    test('writes the u-coordinate of a point for X25519', async () => {
+        const point = ed.Point.fromHex(PUBLIC_KEY)
+        const x25519 = ed.x25519.getPublicKey(await ed.keyUtils.toX25519PrivateKey(SEED))
+        const jwk = ed.jwk.toJwk({ publicKey: point }, 'X25519')
+        expect(jwk).toEqual(ed.jwk.toJwk({ publicKey: x25519 }, 'X25519'))
+        expect(ed.jwk.fromJwk(jwk).publicKey).toEqual(x25519)
+    })
+
+    test('rejects invalid keys', () => {
+        expect(() => ed.jwk.fromJwk({ ...PRIVATE_JWK, kty: 'EC' as 'OKP' })).toThrow('fromJwk: expected kty OKP')
+        expect(() => ed.jwk.fromJwk({ ...PRIVATE_JWK, crv: 'Ed448' as 'Ed25519' })).toThrow('unsupported curve')
+        expect(() => ed.jwk.fromJwk({ ...PRIVATE_JWK, x: PRIVATE_JWK.x.slice(1) })).toThrow()
+        expect(() => ed.jwk.fromJwk({ ...PRIVATE_JWK, d: PRIVATE_JWK.d + 'AAAA' })).toThrow(
+            'Expected 32 bytes of private key'
+        )
+        // y = 2 is not on the curve
+        expect(() => ed.jwk.fromJwk({ kty: 'OKP', crv: 'Ed25519', x: 'Ag' + 'A'.repeat(41) })).toThrow('Point.fromHex')
+    })
+})
@@ -0,0 +1,59 @@
+import { makeED } from '..'
+import JSBI from 'jsbi'
+import { sha512 } from 'js-sha512'
+import { bytesToBase64Url, bytesToUtf8, utf8ToBytes } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+
+// https://www.rfc-editor.org/rfc/rfc8037#appendix-A.4
+const SEED = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60'
+const PUBLIC_KEY = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a'
+const TOKEN =
+    'eyJhbGciOiJFZERTQSJ9.RXhhbXBsZSBvZiBFZDI1NTE5IHNpZ25pbmc.' +
+    'hgyY0il_MGCjP0JzlnLWG1PPOt7-09PGcvMg3AIbQR6dWbhijcNR4ki4iylGjg5BhVsPt9g7sVvpAr_MuM0KAg'
+
+const encodeSegment = (json: unknown) => bytesToBase64Url(utf8ToBytes(JSON.stringify(json)))
+
+describe('JWS', () => {
+    test('RFC 8037 example', async () => {
+        expect(await ed.jws.sign('Example of Ed25519 signing', SEED)).toBe(TOKEN)
+        const { header, payload } = await ed.jws.verify(TOKEN, PUBLIC_KEY)
+        expect(header).toEqual({ alg: 'EdDSA' })
+        expect(bytesToUtf8(payload)).toBe('Example of Ed25519 signing')
+    })
+
+    test('JWT round trip', async () => {
+        const claims = { sub: 'service-a', aud: 'service-b', exp: 1700000000 }
+        const token = await ed.jws.sign(JSON.stringify(claims), SEED, { typ: 'JWT', kid: 'key-1' })
+        const { header, payload } = await ed.jws.verify(token, ed.Point.fromHex(PUBLIC_KEY), { mode: 'rfc8032-strict' })
+        expect(header).toEqual({ typ: 'JWT', kid: 'key-1', alg: 'EdDSA' })
+        expect(JSON.parse(bytesToUtf8(payload))).toEqual(claims)
+        await expect(ed.jws.sign('', SEED, { alg: 'none' })).rejects.toThrow('jws.sign: alg must be EdDSA')
+    })
+
+    test('rejects tampered and malformed tokens', async () => {
+        const [header, payload, signature] = TOKEN.split('.')
+        const reject = (token: string, message: string) =>
+            expect(ed.jws.verify(token, PUBLIC_KEY)).rejects.toThrow(message)
+
+        await reject(
+            `${header}.${bytesToBase64Url(utf8ToBytes('Example of Ed25519 signinG'))}.${signature}`,
+            'invalid signature'
+        )
+        await reject(`${encodeSegment({ alg: 'none' })}.${payload}.`, 'expected alg EdDSA')
+        await reject(`${encodeSegment({ alg: 'HS256' })}.${payload}.${signature}`, 'expected alg EdDSA')
+        await reject(
+            `${encodeSegment({ alg: 'EdDSA', crit: ['b64'], b64: false })}.${payload}.${signature}`,
+            'critical'
+        )
+        await reject(`${header}.${payload}`, 'expected three segments')
+        await reject(`${header}.${payload}.${signature}.`, 'expected three segments')
+        await reject(`${encodeSegment(['EdDSA'])}.${payload}.${signature}`, 'malformed header')
+        await reject(`e30=.${payload}.${signature}`, 'malformed header')
+        await reject(`${header}.${payload}.${signature.slice(0, -2)}`, 'expected 64 bytes of signature')
+        await reject(`${header}.${payload}+.${signature}`, 'invalid character')
+        // 'h' decodes to the same bytes as the final 'g' but sets a padding bit, so the token isn't canonical
+        expect(signature.endsWith('g')).toBe(true)
+        await reject(`${header}.${payload}.${signature.slice(0, -1)}h`, 'non-zero padding bits')
+    })
+})
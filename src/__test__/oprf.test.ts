@@ -0,0 +1,155 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { BigIntType, Ed25519Type, makeED, NativeBigInt } from '..'
+import { InvalidPointEncodingError, InvalidProofError, NonCanonicalScalarError } from '../errors'
+import { bytesToHex, hexToBytes, utf8ToBytes } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+const edNative = makeED(new NativeBigInt(), sha512)
+
+// https://www.rfc-editor.org/rfc/rfc9497#appendix-A.1
+const SEED = hexToBytes('a3'.repeat(32))
+const KEY_INFO = utf8ToBytes('test key')
+const INFO = utf8ToBytes('test info')
+const INPUTS = [hexToBytes('00'), hexToBytes('5a'.repeat(17))]
+
+const OPRF = {
+    skSm: '5ebcea5ee37023ccb9fc2d2019f9d7737be85591ae8652ffa9ef0f4d37063b0e',
+    blindedElements: [
+        '609a0ae68c15a3cf6903766461307e5c8bb2f95e7e6550e1ffa2dc99e412803c',
+        'da27ef466870f5f15296299850aa088629945a17d1f5b7f5ff043f76b3c06418',
+    ],
+    evaluationElements: [
+        '7ec6578ae5120958eb2db1745758ff379e77cb64fe77b0b2d8cc917ea0869c7e',
+        'b4cbf5a4f1eeda5a63ce7b77c7d23f461db3fcab0dd28e4e17cecb5c90d02c25',
+    ],
+    outputs: [
+        '527759c3d9366f277d8c6020418d96bb393ba2afb20ff90df23fb7708264e2f3' +
+            'ab9135e3bd69955851de4b1f9fe8a0973396719b7912ba9ee8aa7d0b5e24bcf6',
+        'f4a74c9c592497375e796aa837e907b1a045d34306a749db9f34221f7e750cb4' +
+            'f2a6413a6bf6fa5e19ba6348eb673934a722a7ede2e7621306d18951e7cf2c73',
+    ],
+}
+
+const VOPRF = {
+    skSm: 'e6f73f344b79b379f1a0dd37e07ff62e38d9f71345ce62ae3a9bc60b04ccd909',
+    pkSm: 'c803e2cc6b05fc15064549b5920659ca4a77b2cca6f04f6b357009335476ad4e',
+    blindedElement: '863f330cc1a1259ed5a5998a23acfd37fb4351a793a5b3c090b642ddc439b945',
+    evaluationElement: 'aa8fa048764d5623868679402ff6108d2521884fa138cd7f9c7669a9a014267e',
+    proof:
+        'ddef93772692e535d1a53903db24367355cc2cc78de93b3be5a8ffcc6985dd06' +
+        '6d4346421d17bf5117a2a1ff0fcb2a759f58a539dfbe857a40bce4cf49ec600d',
+    proofRandomScalar: '222a5e897cf59db8145db8d16e597e8facb80ae7d4e26d9881aa6f61d645fc0e',
+    output:
+        'b58cfbe118e0cb94d79b5fd6a6dafb98764dff49c14e1770b566e42402da1a7d' +
+        'a4d8527693914139caee5bd03903af43a491351d23b430948dd50cde10d32b3c',
+}
+
+const POPRF = {
+    skSm: '145c79c108538421ac164ecbe131942136d5570b16d8bf41a24d4337da981e07',
+    pkSm: 'c647bef38497bc6ec077c22af65b696efa43bff3b4a1975a3e8e0a1c5a79d631',
+    output:
+        'ca688351e88afb1d841fde4401c79efebb2eb75e7998fa9737bd5a82a152406d' +
+        '38bd29f680504e54fd4587eddcf2f37a2617ac2fbd2993f7bdf45442ace7d221',
+}
+
+async function rfcVectors<BIT extends BigIntType>(edX: Ed25519Type<BIT>) {
+    const { oprf } = edX
+    expect(bytesToHex((await oprf.deriveKeyPair('OPRF', SEED, KEY_INFO)).secretKey)).toBe(OPRF.skSm)
+    const voprfKeys = await oprf.deriveKeyPair('VOPRF', SEED, KEY_INFO)
+    expect(bytesToHex(voprfKeys.secretKey)).toBe(VOPRF.skSm)
+    expect(bytesToHex(voprfKeys.publicKey)).toBe(VOPRF.pkSm)
+    const poprfKeys = await oprf.deriveKeyPair('POPRF', SEED, KEY_INFO)
+    expect(bytesToHex(poprfKeys.secretKey)).toBe(POPRF.skSm)
+    expect(bytesToHex(poprfKeys.publicKey)).toBe(POPRF.pkSm)
+
+    const server = oprf.oprfServer(OPRF.skSm)
+    for (let i = 0; i < INPUTS.length; i++) {
+        expect(bytesToHex(await server.blindEvaluate(OPRF.blindedElements[i]))).toBe(OPRF.evaluationElements[i])
+        expect(bytesToHex(await server.evaluate(INPUTS[i]))).toBe(OPRF.outputs[i])
+    }
+
+    const r = edX.scalars.fromCanonicalBytes(hexToBytes(VOPRF.proofRandomScalar))
+    const { evaluatedElement, proof } = await oprf.voprfServer(VOPRF.skSm).blindEvaluate(VOPRF.blindedElement, r)
+    expect(bytesToHex(evaluatedElement)).toBe(VOPRF.evaluationElement)
+    expect(bytesToHex(proof)).toBe(VOPRF.proof)
+    expect(bytesToHex(await oprf.voprfServer(VOPRF.skSm).evaluate(INPUTS[0]))).toBe(VOPRF.output)
+
+    expect(bytesToHex(await oprf.poprfServer(POPRF.skSm).evaluate(INPUTS[0], INFO))).toBe(POPRF.output)
+}
+
+// The client's output, through blinding, matches the server's own evaluation.
+async function roundTrips<BIT extends BigIntType>(edX: Ed25519Type<BIT>) {
+    const { oprf } = edX
+
+    const oprfClient = oprf.oprfClient()
+    const { blind, blindedElement } = await oprfClient.blind(INPUTS[0])
+    const evaluated = await oprf.oprfServer(OPRF.skSm).blindEvaluate(blindedElement)
+    expect(bytesToHex(await oprfClient.finalize(INPUTS[0], blind, evaluated))).toBe(OPRF.outputs[0])
+
+    const voprfClient = oprf.voprfClient(VOPRF.pkSm)
+    const voprfServer = oprf.voprfServer(VOPRF.skSm)
+    const blinded = await Promise.all(INPUTS.map((input) => voprfClient.blind(input)))
+    const batch = await voprfServer.blindEvaluateBatch(blinded.map((b) => b.blindedElement))
+    const outputs = await voprfClient.finalizeBatch(
+        INPUTS,
+        blinded.map((b) => b.blind),
+        batch.evaluatedElements,
+        blinded.map((b) => b.blindedElement),
+        batch.proof
+    )
+    expect(outputs.map(bytesToHex)).toEqual(
+        await Promise.all(INPUTS.map(async (input) => bytesToHex(await voprfServer.evaluate(input))))
+    )
+
+    const poprfClient = oprf.poprfClient(POPRF.pkSm)
+    const poprfServer = oprf.poprfServer(POPRF.skSm)
+    const p = await poprfClient.blind(INPUTS[0], INFO)
+    const e = await poprfServer.blindEvaluate(p.blindedElement, INFO)
+    const output = await poprfClient.finalize(
+        INPUTS[0],
+        p.blind,
+        e.evaluatedElement,
+        p.blindedElement,
+        e.proof,
+        INFO,
+        p.tweakedKey
+    )
+    expect(bytesToHex(output)).toBe(POPRF.output)
+}
+
+describe('OPRF ristretto255-SHA512', () => {
+    test('RFC9497 vectors', async () => {
+        await rfcVectors(ed)
+        await rfcVectors(edNative)
+    })
+
+    test('clients get the server outputs', async () => {
+        await roundTrips(ed)
+        await roundTrips(edNative)
+    })
+
+    test('rejects bad proofs and elements', async () => {
+        const { oprf } = ed
+        const client = oprf.voprfClient(VOPRF.pkSm)
+        const { blind, blindedElement } = await client.blind(INPUTS[0])
+        const { evaluatedElement, proof } = await oprf.voprfServer(VOPRF.skSm).blindEvaluate(blindedElement)
+        const finalize = (evaluated: Uint8Array, proof: Uint8Array) =>
+            client.finalize(INPUTS[0], blind, evaluated, blindedElement, proof)
+        expect(await finalize(evaluatedElement, proof)).toHaveLength(64)
+
+        // Evaluated with another key
+        const other = await oprf.voprfServer(oprf.generateKeyPair().secretKey).blindEvaluate(blindedElement)
+        await expect(finalize(other.evaluatedElement, other.proof)).rejects.toThrow(InvalidProofError)
+        await expect(finalize(evaluatedElement, other.proof)).rejects.toThrow(InvalidProofError)
+        await expect(finalize(evaluatedElement, proof.slice(1))).rejects.toThrow(InvalidProofError)
+        const nonCanonical = proof.slice()
+        nonCanonical.fill(0xff, 32)
+        await expect(finalize(evaluatedElement, nonCanonical)).rejects.toThrow(NonCanonicalScalarError)
+
+        // The identity is not an element
+        const identity = new Uint8Array(32)
+        await expect(oprf.oprfServer(OPRF.skSm).blindEvaluate(identity)).rejects.toThrow(InvalidPointEncodingError)
+        expect(() => oprf.voprfClient(identity)).toThrow(InvalidPointEncodingError)
+    })
+})
@@ -0,0 +1,82 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { makeED, NativeBigInt } from '..'
+import { InvalidArgumentError, InvalidPointEncodingError, InvalidProofError } from '../errors'
+import { bytesToHex } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+const edNative = makeED(new NativeBigInt(), sha512)
+const { pedersen, scalars } = ed
+
+describe('Pedersen commitments', () => {
+    test('commit, verify and open', async () => {
+        const value = scalars.create(1000)
+        const blinding = scalars.random()
+        const commitment = await pedersen.commit(value, blinding)
+        expect(commitment).toHaveLength(32)
+        expect(await pedersen.verify(commitment, value, blinding)).toBe(true)
+        expect(await pedersen.verify(bytesToHex(commitment), value, blinding)).toBe(true)
+        expect(await pedersen.verify(commitment, scalars.create(1001), blinding)).toBe(false)
+        expect(await pedersen.verify(commitment, value, scalars.add(blinding, scalars.ONE))).toBe(false)
+        expect(scalars.equals(await pedersen.open(commitment, { value, blinding }), value)).toBe(true)
+        await expect(pedersen.open(commitment, { value: scalars.ONE, blinding })).rejects.toThrow(InvalidProofError)
+        // The same value with another blinding gives an unrelated commitment
+        expect(bytesToHex(await pedersen.commit(value, scalars.random()))).not.toBe(bytesToHex(commitment))
+        expect(() => pedersen.add(commitment.slice(1), commitment)).toThrow(InvalidPointEncodingError)
+    })
+
+    test('adds, subtracts and scales homomorphically', async () => {
+        // A ledger: balance 500, receive 250, pay 100
+        const [r1, r2, r3] = [scalars.random(), scalars.random(), scalars.random()]
+        const balance = await pedersen.commit(scalars.create(500), r1)
+        const received = await pedersen.commit(scalars.create(250), r2)
+        const paid = await pedersen.commit(scalars.create(100), r3)
+        const updated = pedersen.sub(pedersen.add(balance, received), paid)
+        const blinding = scalars.sub(scalars.add(r1, r2), r3)
+        expect(await pedersen.verify(updated, scalars.create(650), blinding)).toBe(true)
+        expect(bytesToHex(updated)).toBe(bytesToHex(await pedersen.commit(scalars.create(650), blinding)))
+
+        const tripled = pedersen.scale(received, scalars.create(3))
+        expect(await pedersen.verify(tripled, scalars.create(750), scalars.mul(r2, scalars.create(3)))).toBe(true)
+        // Negative amounts wrap around mod ℓ
+        const overdrawn = pedersen.sub(paid, balance)
+        expect(await pedersen.verify(overdrawn, scalars.create(-400), scalars.sub(r3, r1))).toBe(true)
+    })
+
+    test('vector commitments', async () => {
+        const values = [5, 0, 7, 11].map((v) => scalars.create(v))
+        const blinding = scalars.random()
+        const commitment = await pedersen.commitVector(values, blinding)
+        expect(await pedersen.verifyVector(commitment, values, blinding)).toBe(true)
+        const swapped = [values[2], values[1], values[0], values[3]]
+        expect(await pedersen.verifyVector(commitment, swapped, blinding)).toBe(false)
+        expect(await pedersen.verifyVector(commitment, values.slice(0, 3), blinding)).toBe(false)
+
+        const other = [1, 2, 3, 4].map((v) => scalars.create(v))
+        const sum = values.map((v, i) => scalars.add(v, other[i]))
+        const r = scalars.random()
+        const added = pedersen.add(commitment, await pedersen.commitVector(other, r))
+        expect(await pedersen.verifyVector(added, sum, scalars.add(blinding, r))).toBe(true)
+    })
+
+    test('generators are fixed, distinct and labelled', async () => {
+        const encode = (points: { toRistrettoBytes(): Uint8Array }[]) =>
+            points.map((p) => bytesToHex(p.toRistrettoBytes()))
+        const G = encode([...(await pedersen.generators(4)), await pedersen.blindingGenerator()])
+        expect(new Set([...G, encode([ed.ExtendedPoint.BASE])[0]]).size).toBe(6)
+        expect(encode(await pedersen.generators(2))).toEqual(G.slice(0, 2))
+        expect(
+            encode([...(await edNative.pedersen.generators(4)), await edNative.pedersen.blindingGenerator()])
+        ).toEqual(G)
+
+        const labelled = pedersen.withLabel('my ledger')
+        const H = encode([await labelled.blindingGenerator()])[0]
+        expect(G).not.toContain(H)
+        const value = scalars.create(42)
+        const blinding = scalars.random()
+        const commitment = await labelled.commit(value, blinding)
+        expect(await labelled.verify(commitment, value, blinding)).toBe(true)
+        expect(await pedersen.verify(commitment, value, blinding)).toBe(false)
+        expect(() => pedersen.withLabel('x'.repeat(256))).toThrow(InvalidArgumentError)
+    })
+})
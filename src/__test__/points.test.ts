@@ -1,7 +1,11 @@
-import { makeED } from '..'
+import { makeED, NativeBigInt } from '..'
 import JSBI from 'jsbi'
 import { sha512 } from 'js-sha512'
-import { ExtendedPointData } from '../points'
+import { ExtendedPointData, ExtendedPointStatic, PointStatic } from '../points'
+import { BigIntType } from '../integers'
+import { UtilsType } from '../utils'
+import { BASE_PRECOMPUTES } from '../base-precomputes'
+import { base64ToBytes } from '../serialization'
 
 const ed = makeED(JSBI, sha512)
 
@@ -42,6 +46,37 @@ describe('Test Point and ExtendedPoint functions', () => {
         expect(badWindow).toThrow('Point#wNAF: Invalid precomputation window, must be power of 2')
     })
 
+    test('precompute tables as bytes', () => {
+        // The shipped BASE table is the one precomputeWindow gives
+        const computed = ed.ExtendedPoint.encodePrecomputes(8, ed.ExtendedPoint.BASE.precomputeWindow(8))
+        expect(computed).toEqual(base64ToBytes(BASE_PRECOMPUTES))
+        expect(ed.Point.exportPrecomputes()).toEqual(computed)
+        expect(ed.RistrettoPoint.exportPrecomputes()).toEqual(computed)
+
+        const sevenB = ed.Point.BASE.multiply(7)
+        const table = ed.Point.exportPrecomputes(ed.Point.precompute(4, sevenB))
+        expect(table.length).toBe(2 + 32 + 65 * 8 * 64)
+        const loaded = ed.Point.loadPrecomputes(table, ed.Point.fromHex(sevenB.toRawBytes()))
+        expect(loaded._WINDOW_SIZE).toBe(4)
+        expect(loaded.multiply(11)).toEqual(ed.Point.BASE.multiply(77))
+
+        expect(() => ed.Point.exportPrecomputes(sevenB)).toThrow('Point.exportPrecomputes: point has no precomputes')
+        expect(() => ed.Point.loadPrecomputes(table)).toThrow('table is for another point')
+        expect(() => ed.Point.loadPrecomputes(table.slice(0, -1), sevenB)).toThrow('wrong table length')
+        const version = table.slice()
+        version[0] = 2
+        expect(() => ed.Point.loadPrecomputes(version, sevenB)).toThrow('unsupported table')
+        // The second window starts at 2⁴·7B
+        const tampered = table.slice()
+        tampered[2 + 32 + 8 * 64] ^= 1
+        expect(() => ed.Point.loadPrecomputes(tampered, sevenB)).toThrow('windows do not chain up')
+
+        const R = ed.RistrettoPoint.BASE.multiply(5)
+        const ristrettoTable = ed.RistrettoPoint.exportPrecomputes(ed.RistrettoPoint.precompute(2, R))
+        const loadedR = ed.RistrettoPoint.loadPrecomputes(ristrettoTable, R)
+        expect(loadedR.multiply(3).equals(ed.RistrettoPoint.BASE.multiply(15))).toBe(true)
+    })
+
     test('Point arithmetic', () => {
         const twoB = ed.Point.BASE.multiply(2)
         const threeB = ed.Point.BASE.multiply(3)
@@ -73,4 +108,98 @@ describe('Test Point and ExtendedPoint functions', () => {
 
         expect(arbitraryBigInput).toThrow('Point.fromHex: invalid y coordinate')
     })
+
+    test('multiScalarMul', () => {
+        const points = [2, 3, 5].map((k) => ed.ExtendedPoint.BASE.multiply(k))
+        const scalars = [JSBI.BigInt(7), JSBI.BigInt(0), ed.CURVE.n, JSBI.BigInt('123456789123456789123456789')]
+        // 7·2B + 0·3B + n·5B = 14B
+        const expected = ed.ExtendedPoint.BASE.multiply(14)
+        expect(ed.ExtendedPoint.multiScalarMul(scalars.slice(0, 3), points).toAffine()).toEqual(expected.toAffine())
+        expect(ed.ExtendedPoint.multiScalarMulConstantTime(scalars.slice(0, 3), points).toAffine()).toEqual(
+            expected.toAffine()
+        )
+
+        const big = [scalars[3], JSBI.subtract(ed.CURVE.n, JSBI.BigInt(1)), 9]
+        const sum = points
+            .map((p, i) => p.multiplyUnsafe(typeof big[i] === 'number' ? JSBI.BigInt(big[i]) : (big[i] as JSBI)))
+            .reduce((a, b) => a.add(b))
+        expect(ed.ExtendedPoint.multiScalarMul(big, points).toAffine()).toEqual(sum.toAffine())
+        expect(ed.ExtendedPoint.multiScalarMulConstantTime(big, points).toAffine()).toEqual(sum.toAffine())
+        expect(ed.ExtendedPoint.multiScalarMul([], []).toAffine()).toEqual(ed.ExtendedPoint.ZERO.toAffine())
+
+        // Equal points, opposite points and points of small order, where add has to branch
+        const P = points[0]
+        const T = ed.ExtendedPoint.fromAffine(ed.Point.fromHex(ed.utils.TORSION_SUBGROUP[1]))
+        const tricky = [P, P, P.negate(), T, T.add(P)]
+        const small = [1, 1, 3, 5, 16].map((k) => JSBI.BigInt(k))
+        expect(ed.ExtendedPoint.multiScalarMulConstantTime(small, tricky).toAffine()).toEqual(
+            ed.ExtendedPoint.multiScalarMul(small, tricky).toAffine()
+        )
+
+        expect(() => ed.ExtendedPoint.multiScalarMul([1], points)).toThrow(
+            'ExtendedPoint.multiScalarMul: expected as many scalars as points'
+        )
+        expect(() => ed.ExtendedPoint.multiScalarMulConstantTime([-1], [points[0]])).toThrow(
+            'ExtendedPoint.multiScalarMulConstantTime: expected non-negative number or bigint'
+        )
+    })
+
+    test('multiScalarMul with many points', () => {
+        const Ints = new NativeBigInt()
+        const edNative = makeED(Ints, sha512)
+        const count = 200
+        const points = [edNative.ExtendedPoint.BASE]
+        for (let i = 1; i < count; i++) points.push(points[i - 1].add(edNative.ExtendedPoint.BASE))
+        const scalars = points.map((_, i) =>
+            Ints.multiply(Ints.BigInt(i + 1), Ints.BigInt('0xfedcba9876543210fedcba98'))
+        )
+        // Σ sᵢ·(i+1)·B
+        let expected = Ints.BigInt(0)
+        for (let i = 0; i < count; i++) expected = Ints.add(expected, Ints.multiply(scalars[i], Ints.BigInt(i + 1)))
+        const msm = edNative.ExtendedPoint.multiScalarMul(scalars, points)
+        expect(msm.toAffine()).toEqual(edNative.ExtendedPoint.BASE.multiplyUnsafe(expected).toAffine())
+    })
+
+    test('torsion checks', () => {
+        torsionChecks(ed)
+        torsionChecks(makeED(new NativeBigInt(), sha512))
+        const offCurve = new ed.Point(ed.Point.BASE.x, JSBI.add(ed.Point.BASE.y, JSBI.BigInt(1)))
+        expect(offCurve.isOnCurve()).toBe(false)
+        expect(ed.ExtendedPoint.fromAffine(offCurve).isOnCurve()).toBe(false)
+        const base = ed.ExtendedPoint.BASE
+        expect(new ed.ExtendedPoint(base.x, base.y, base.z, JSBI.BigInt(1)).isOnCurve()).toBe(false)
+        expect(new ed.ExtendedPoint(base.x, base.y, JSBI.BigInt(0), base.t).isOnCurve()).toBe(false)
+    })
 })
+
+// A + T for every T of the torsion subgroup, under either Integers backend
+function torsionChecks<BIT extends BigIntType>(edX: {
+    Point: PointStatic<BIT>
+    ExtendedPoint: ExtendedPointStatic<BIT>
+    utils: UtilsType
+}) {
+    const torsion = edX.utils.TORSION_SUBGROUP.map((hex) => edX.Point.fromHex(hex))
+    const A = edX.Point.BASE.multiply(12345)
+    expect(A.isOnCurve()).toBe(true)
+    expect(A.isTorsionFree()).toBe(true)
+    expect(A.isSmallOrder()).toBe(false)
+    expect(A.torsionComponent()).toEqual(edX.Point.ZERO)
+    torsion.forEach((T, i) => {
+        expect(T.isOnCurve()).toBe(true)
+        expect(T.isSmallOrder()).toBe(true)
+        expect(T.isTorsionFree()).toBe(i === 0)
+        expect(T.clearCofactor()).toEqual(edX.Point.ZERO)
+
+        const P = A.add(T)
+        expect(P.isSmallOrder()).toBe(false)
+        expect(P.isTorsionFree()).toBe(i === 0)
+        expect(P.torsionComponent()).toEqual(T)
+        expect(P.clearCofactor()).toEqual(A.multiply(8))
+
+        const E = edX.ExtendedPoint.fromAffine(P)
+        expect(E.isOnCurve()).toBe(true)
+        expect(E.isTorsionFree()).toBe(i === 0)
+        expect(E.torsionComponent().toAffine()).toEqual({ x: T.x, y: T.y })
+        expect(E.subtract(E.torsionComponent()).isTorsionFree()).toBe(true)
+    })
+}
@@ -0,0 +1,88 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { makeED } from '..'
+
+const ed = makeED(JSBI, sha512)
+const { RistrettoPoint } = ed
+
+describe('RistrettoPoint', () => {
+    test('encodings of small multiples', () => {
+        const encodings = [
+            '0000000000000000000000000000000000000000000000000000000000000000',
+            'e2f2ae0a6abc4e71a884a961c500515f58e30b6aa582dd8db6a65945e08d2d76',
+            '6a493210f7499cd17fecb510ae0cea23a110e8d5b901f8acadd3095c73a3b919',
+            '94741f5d5d52755ece4f23f044ee27d5d1ea1e2bd196b462166b16152a9d0259',
+            'da80862773358b466ffadfe0b3293ab3d9fd53c5ea6c955358f568322daf6a57',
+        ]
+        let P = RistrettoPoint.ZERO
+        for (let i = 0; i < encodings.length; i++) {
+            expect(P.toHex()).toBe(encodings[i])
+            expect(RistrettoPoint.fromHex(encodings[i]).equals(P)).toBe(true)
+            if (i > 0) expect(RistrettoPoint.BASE.multiply(i).toHex()).toBe(encodings[i])
+            P = P.add(RistrettoPoint.BASE)
+        }
+        expect(P.subtract(RistrettoPoint.BASE).toHex()).toBe(encodings[4])
+        expect(RistrettoPoint.BASE.negate().add(RistrettoPoint.BASE).equals(RistrettoPoint.ZERO)).toBe(true)
+        expect(() => RistrettoPoint.fromHex('00')).toThrow('RistrettoPoint.fromHex: expected 32 bytes')
+    })
+
+    test('hashToGroup', () => {
+        // Hash of 'Ristretto is traditionally a short shot of espresso coffee'
+        const hash =
+            '5d1be09e3d0c82fc538112490e35701979d99e06ca3e2b5b54bffe8b4dc772c14d98b696a1bbfb5ca32c436cc61c16563790306c79eaca7705668b47dffe5bb6'
+        expect(RistrettoPoint.hashToGroup(hash).toHex()).toBe(
+            '3066f82a1a747d45120d1740f14358531a8f04bbffe6a819f86dfe50f44a0a46'
+        )
+        expect(() => RistrettoPoint.hashToGroup(hash.slice(2))).toThrow('RistrettoPoint.hashToGroup: expected 64 bytes')
+    })
+
+    test('equals ignores the torsion component', () => {
+        const T4 = ed.ExtendedPoint.fromAffine(ed.Point.fromHex(ed.utils.TORSION_SUBGROUP[2]))
+        const P = ed.ExtendedPoint.BASE.multiply(5)
+        const PT = P.add(T4)
+        expect(PT.equals(P)).toBe(false)
+        const R = RistrettoPoint.fromHex(P.toRistrettoBytes())
+        const RT = RistrettoPoint.fromHex(PT.toRistrettoBytes())
+        expect(RT.equals(R)).toBe(true)
+        expect(RT.equals(RistrettoPoint.BASE)).toBe(false)
+    })
+
+    test('precomputes and multiScalarMul', () => {
+        const P = RistrettoPoint.BASE.multiply(7)
+        const cached = RistrettoPoint.precompute(4, P)
+        expect(cached._WINDOW_SIZE).toBe(4)
+        expect(RistrettoPoint.pointPrecomputes.has(cached)).toBe(true)
+        expect(cached.multiply(6).equals(RistrettoPoint.BASE.multiply(42))).toBe(true)
+        expect(P.multiplyUnsafe(JSBI.BigInt(6)).equals(RistrettoPoint.BASE.multiply(42))).toBe(true)
+        const sum = RistrettoPoint.multiScalarMul([2, 3], [P, RistrettoPoint.BASE])
+        expect(sum.equals(RistrettoPoint.BASE.multiply(17))).toBe(true)
+        expect('toX25519' in RistrettoPoint.BASE).toBe(false)
+        expect(() => RistrettoPoint.precompute(7, P)).toThrow(
+            'RistrettoPoint#multiply: Invalid precomputation window, must be power of 2'
+        )
+    })
+})
+
+describe('ristretto255 hashing with DSTs', () => {
+    test('hashToGroup', async () => {
+        const DST = 'HashToGroup-OPRFV1-\x00-ristretto255-SHA512'
+        expect((await ed.ristretto255.hashToGroup('', DST)).toHex()).toBe(
+            '4eefc7922afd159a8c6bb2765bd8ccd2859ac4cbd938d7379a0e73c185725745'
+        )
+        expect((await ed.ristretto255.hashToGroup('abc', DST)).toHex()).toBe(
+            'aaa53bab7be4b969982cb985a12dd1c3c08a3c305386a1f0d611dec90426957a'
+        )
+        const other = await ed.ristretto255.hashToGroup('abc', 'HashToGroup-OPRFV1-\x01-ristretto255-SHA512')
+        expect(other.toHex()).not.toBe('aaa53bab7be4b969982cb985a12dd1c3c08a3c305386a1f0d611dec90426957a')
+    })
+
+    test('deriveScalar', async () => {
+        const DST = 'HashToScalar-OPRFV1-\x00-ristretto255-SHA512'
+        expect((await ed.ristretto255.deriveScalar('', DST)).toString(16)).toBe(
+            'a87707908faccbb1ceccbf74bd6eb2cff5bbcf602482d9cc3876d958f6d610e'
+        )
+        expect((await ed.ristretto255.deriveScalar('abc', DST)).toString(16)).toBe(
+            '91d0f55f5dc152c5bc56a608303e7b7d60d4c54d0d8c5274326b683b275bece'
+        )
+    })
+})
@@ -26,3 +26,57 @@ describe('test scalar operations', () => {
         expect(deserializedScalar2.toString()).toEqual('0')
     })
 })
+
+describe('scalar arithmetic', () => {
+    const { scalars } = ed
+    const L = 2n ** 252n + 27742317777372353535851937790883648493n
+    const big = (s: { value: JSBI }) => BigInt(s.value.toString())
+    const scalar = (n: bigint) => scalars.create(JSBI.BigInt(n.toString()))
+    const values = [1n, 2n, 12345678901234567890n, L - 1n, L + 5n, 2n ** 255n, -7n]
+
+    test('add, sub, mul and negate', () => {
+        for (const a of values) {
+            for (const b of values) {
+                const mod = (n: bigint) => ((n % L) + L) % L
+                expect(big(scalars.add(scalar(a), scalar(b)))).toBe(mod(a + b))
+                expect(big(scalars.sub(scalar(a), scalar(b)))).toBe(mod(a - b))
+                expect(big(scalars.mul(scalar(a), scalar(b)))).toBe(mod(a * b))
+            }
+            expect(scalars.isZero(scalars.add(scalar(a), scalars.negate(scalar(a))))).toBe(true)
+        }
+    })
+
+    test('invert and batchInvert', () => {
+        const inputs = values.map(scalar)
+        const inverses = scalars.batchInvert(inputs)
+        inputs.forEach((s, i) => {
+            expect(scalars.equals(scalars.mul(s, scalars.invert(s)), scalars.ONE)).toBe(true)
+            expect(scalars.equals(inverses[i], scalars.invert(s))).toBe(true)
+        })
+        expect(scalars.batchInvert([])).toEqual([])
+        expect(() => scalars.invert(scalars.ZERO)).toThrow()
+        expect(() => scalars.batchInvert([scalars.ONE, scalar(L)])).toThrow()
+    })
+
+    test('canonical and wide encodings', () => {
+        const encoded = scalars.toBytes(scalar(L - 1n))
+        expect(scalars.isCanonical(encoded)).toBe(true)
+        expect(big(scalars.fromCanonicalBytes(encoded))).toBe(L - 1n)
+        const order = ed.scalars.serializeNumber(JSBI.BigInt(L.toString()))
+        expect(scalars.isCanonical(order)).toBe(false)
+        expect(() => scalars.fromCanonicalBytes(order)).toThrow()
+        expect(() => scalars.fromCanonicalBytes(new Uint8Array(31))).toThrow()
+        // 2^512 - 1 mod ℓ
+        const wide = scalars.fromWideBytes(new Uint8Array(64).fill(0xff))
+        expect(big(wide)).toBe((2n ** 512n - 1n) % L)
+        expect(() => scalars.fromWideBytes(new Uint8Array(32))).toThrow()
+    })
+
+    test('random', () => {
+        const a = scalars.random()
+        const b = scalars.random()
+        expect(scalars.equals(a, b)).toBe(false)
+        expect(big(a) < L).toBe(true)
+        expect(scalars.isZero(a)).toBe(false)
+    })
+})
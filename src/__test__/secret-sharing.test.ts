@@ -0,0 +1,117 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { BigIntType, Ed25519Type, makeED, NativeBigInt } from '..'
+import { InvalidArgumentError, InvalidProofError } from '../errors'
+
+const ed = makeED(JSBI, sha512)
+const edNative = makeED(new NativeBigInt(), sha512)
+
+async function splitAndCombine<BIT extends BigIntType>(edX: Ed25519Type<BIT>) {
+    const { scalars, secretSharing } = edX
+    const secret = scalars.random()
+    const shares = secretSharing.split(secret, 3, 5)
+    expect(shares.map((s) => s.identifier)).toEqual([1, 2, 3, 4, 5])
+    for (const subset of [[shares[0], shares[1], shares[2]], [shares[4], shares[0], shares[3]], shares]) {
+        expect(scalars.equals(secretSharing.combine(subset), secret)).toBe(true)
+    }
+    expect(scalars.equals(secretSharing.combine([shares[0], shares[1]]), secret)).toBe(false)
+    expect(() => secretSharing.combine([shares[0], shares[0], shares[1]])).toThrow(InvalidArgumentError)
+    expect(() => secretSharing.split(secret, 6, 5)).toThrow(InvalidArgumentError)
+    expect(() => secretSharing.split(secret, 0, 5)).toThrow(InvalidArgumentError)
+}
+
+describe('secret sharing', () => {
+    test('any threshold of shares give the secret back', async () => {
+        await splitAndCombine(ed)
+        await splitAndCombine(edNative)
+    })
+
+    test('Feldman VSS', () => {
+        const { scalars, secretSharing, ExtendedPoint } = ed
+        const secret = scalars.random()
+        const { shares, commitments } = secretSharing.feldman.deal(secret, 2, 3)
+        const { x, y } = commitments[0].toAffine()
+        expect(new ed.Point(x, y).equals(ed.Point.BASE.multiply(secret.value))).toBe(true)
+        expect(shares.every((s) => secretSharing.feldman.verifyShare(s, commitments))).toBe(true)
+        const tampered = { ...shares[1], value: scalars.add(shares[1].value, scalars.ONE) }
+        expect(secretSharing.feldman.verifyShare(tampered, commitments)).toBe(false)
+        expect(secretSharing.feldman.verifyShare(shares[1], [commitments[0], ExtendedPoint.BASE])).toBe(false)
+    })
+
+    test('Pedersen VSS', async () => {
+        const { scalars, secretSharing } = ed
+        const { pedersen } = secretSharing
+        const H = await pedersen.generator()
+        expect(H.isTorsionFree() && !H.isSmallOrder()).toBe(true)
+        expect(await pedersen.generator()).toBe(H)
+
+        const secret = scalars.random()
+        const { shares, blindingShares, commitments } = await pedersen.deal(secret, 3, 4)
+        for (let i = 0; i < shares.length; i++) {
+            expect(await pedersen.verifyShare(shares[i], blindingShares[i], commitments)).toBe(true)
+        }
+        const wrongBlinding = { ...blindingShares[0], value: scalars.ONE }
+        expect(await pedersen.verifyShare(shares[0], wrongBlinding, commitments)).toBe(false)
+        const otherBlinding = blindingShares[1]
+        await expect(pedersen.verifyShare(shares[0], otherBlinding, commitments)).rejects.toThrow(InvalidArgumentError)
+        expect(scalars.equals(secretSharing.combine(shares.slice(1)), secret)).toBe(true)
+    })
+})
+
+describe('distributed key generation', () => {
+    test('3 of 4 participants make a key that FROST signs with', async () => {
+        const { dkg } = ed.secretSharing
+        const rounds = await Promise.all([1, 2, 3, 4].map((i) => dkg.round1(i, 3, 4)))
+        const broadcasts = rounds.map((r) => r.broadcast)
+        const shares = rounds.flatMap((r) => r.shares)
+        const results = await Promise.all(rounds.map((r) => dkg.round2(r.secretPackage, broadcasts, shares)))
+
+        const { groupPublicKey } = results[0]
+        expect(results.every((r) => r.groupPublicKey.equals(groupPublicKey))).toBe(true)
+        for (const { secretShare, publicKeyShare } of results) {
+            expect(ed.Point.BASE.multiply(secretShare.value.value).equals(publicKeyShare)).toBe(true)
+            expect(ed.secretSharing.feldman.verifyShare(secretShare, results[0].commitments)).toBe(true)
+        }
+        // Only here, to check: nobody holds the group secret
+        const secret = ed.secretSharing.combine(results.slice(1).map((r) => r.secretShare))
+        expect(ed.Point.BASE.multiply(secret.value).equals(groupPublicKey)).toBe(true)
+
+        const keyShares = results.map(({ secretShare }) => ({
+            identifier: secretShare.identifier,
+            secretShare: ed.scalars.toBytes(secretShare.value),
+            groupPublicKey: groupPublicKey.toRawBytes(),
+        }))
+        const signers = [keyShares[3], keyShares[0], keyShares[2]]
+        const message = new TextEncoder().encode('rotate the backup key')
+        const nonces = await Promise.all(signers.map((share) => ed.frost.commit(share)))
+        const commitments = nonces.map((n) => n.commitment)
+        const signatureShares = await Promise.all(
+            signers.map((share, i) => ed.frost.sign(share, nonces[i], message, commitments))
+        )
+        const signature = await ed.frost.aggregate(commitments, message, groupPublicKey.toRawBytes(), signatureShares)
+        expect(await ed.verify(signature, message, groupPublicKey)).toBe(true)
+    })
+
+    test('names the participant who cheats', async () => {
+        const { scalars, secretSharing } = ed
+        const { dkg } = secretSharing
+        const rounds = await Promise.all([1, 2, 3].map((i) => dkg.round1(i, 2, 3)))
+        const broadcasts = rounds.map((r) => r.broadcast)
+        const shares = rounds.flatMap((r) => r.shares)
+
+        const badShares = shares.map((s) =>
+            s.sender === 2 && s.receiver === 1 ? { ...s, value: scalars.add(s.value, scalars.ONE) } : s
+        )
+        await expect(dkg.round2(rounds[0].secretPackage, broadcasts, badShares)).rejects.toThrow(/participant 2/)
+        // The other participants got good shares from 2
+        await expect(dkg.round2(rounds[2].secretPackage, broadcasts, badShares)).resolves.toBeDefined()
+
+        // Participant 3 copies the commitments of 1 without knowing the secret behind them
+        const copied = { ...broadcasts[2], commitments: broadcasts[0].commitments }
+        const { secretPackage } = rounds[1]
+        await expect(dkg.round2(secretPackage, [broadcasts[0], broadcasts[1], copied], shares)).rejects.toThrow(
+            InvalidProofError
+        )
+        await expect(dkg.round2(secretPackage, broadcasts.slice(1), shares)).rejects.toThrow(InvalidArgumentError)
+    })
+})
@@ -1,4 +1,5 @@
-import { concatBytes, hexToBytes } from '../serialization'
+import { base64ToBytes, bytesToBase64, bytesToUtf8, concatBytes, hexToBytes, utf8ToBytes } from '../serialization'
+import { InvalidHexError } from '../errors'
 import JSBI from 'jsbi'
 
 describe('Test serialization functions', () => {
@@ -24,5 +25,35 @@ describe('Test serialization functions', () => {
             hexToBytes(n as string)
         }
         expect(() => sloppyJSInput(1)).toThrow('hexToBytes: expected string, got number')
+
+        for (const hex of ['0g', 'g0', 'zz', '+1', ' 1', '0x12']) {
+            expect(() => hexToBytes(hex)).toThrow(InvalidHexError)
+        }
+        expect(hexToBytes('0aFf')).toEqual(Uint8Array.from([10, 255]))
+    })
+
+    test('base64', () => {
+        for (let length = 0; length < 8; length++) {
+            const bytes = Uint8Array.from({ length }, (_, i) => 0xf9 - 37 * i)
+            const encoded = Buffer.from(bytes).toString('base64')
+            expect(bytesToBase64(bytes)).toBe(encoded)
+            expect(base64ToBytes(encoded)).toEqual(bytes)
+        }
+        expect(() => base64ToBytes('abc')).toThrow('base64ToBytes: invalid padding')
+        expect(() => base64ToBytes('ab-_')).toThrow('base64ToBytes: invalid character')
+        expect(base64ToBytes('YQ==')).toEqual(Uint8Array.from([0x61]))
+        expect(() => base64ToBytes('YR==')).toThrow('base64ToBytes: non-zero padding bits')
+        expect(() => base64ToBytes('YWJ=')).toThrow('base64ToBytes: non-zero padding bits')
+    })
+
+    test('utf8ToBytes', () => {
+        for (const text of ['', 'abc', 'hyvä hyvä', 'ristretto ☕', '𝔽p']) {
+            expect(utf8ToBytes(text)).toEqual(Uint8Array.from(Buffer.from(text, 'utf8')))
+            expect(bytesToUtf8(utf8ToBytes(text))).toBe(text)
+        }
+        // Truncated, overlong and surrogate encodings
+        for (const bad of ['c3', 'c0af', 'e08080', 'eda080', 'f4908080', 'ff']) {
+            expect(() => bytesToUtf8(hexToBytes(bad))).toThrow('bytesToUtf8: invalid UTF-8')
+        }
     })
 })
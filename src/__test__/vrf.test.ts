@@ -0,0 +1,115 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { makeED, NativeBigInt } from '..'
+import { InvalidSignatureError, NonCanonicalScalarError } from '../errors'
+import { bytesToHex, hexToBytes } from '../serialization'
+
+const ed = makeED(JSBI, sha512)
+const edNative = makeED(new NativeBigInt(), sha512)
+
+// https://www.rfc-editor.org/rfc/rfc9381#appendix-B.3 and B.4
+const VECTORS: { suite: 'tai' | 'ell2'; sk: string; pk: string; alpha: string; pi: string; beta: string }[] = [
+    {
+        suite: 'tai',
+        sk: '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+        pk: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+        alpha: '',
+        pi:
+            '8657106690b5526245a92b003bb079ccd1a92130477671f6fc01ad16f26f723f26f8a57ccaed74ee1b190bed1f479d97' +
+            '27d2d0f9b005a6e456a35d4fb0daab1268a1b0db10836d9826a528ca76567805',
+        beta:
+            '90cf1df3b703cce59e2a35b925d411164068269d7b2d29f3301c03dd757876ff' +
+            '66b71dda49d2de59d03450451af026798e8f81cd2e333de5cdf4f3e140fdd8ae',
+    },
+    {
+        suite: 'tai',
+        sk: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+        pk: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+        alpha: '72',
+        pi:
+            'f3141cd382dc42909d19ec5110469e4feae18300e94f304590abdced48aed5933bf0864a62558b3ed7f2fea45c92a465' +
+            '301b3bbf5e3e54ddf2d935be3b67926da3ef39226bbc355bdc9850112c8f4b02',
+        beta:
+            'eb4440665d3891d668e7e0fcaf587f1b4bd7fbfe99d0eb2211ccec90496310eb' +
+            '5e33821bc613efb94db5e5b54c70a848a0bef4553a41befc57663b56373a5031',
+    },
+    {
+        suite: 'ell2',
+        sk: '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+        pk: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+        alpha: '',
+        pi:
+            '7d9c633ffeee27349264cf5c667579fc583b4bda63ab71d001f89c10003ab46f14adf9a3cd8b8412d9038531e865c341' +
+            'cafa73589b023d14311c331a9ad15ff2fb37831e00f0acaa6d73bc9997b06501',
+        beta:
+            '9d574bf9b8302ec0fc1e21c3ec5368269527b87b462ce36dab2d14ccf80c53cc' +
+            'cf6758f058c5b1c856b116388152bbe509ee3b9ecfe63d93c3b4346c1fbc6c54',
+    },
+    {
+        suite: 'ell2',
+        sk: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+        pk: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+        alpha: '72',
+        pi:
+            '47b327393ff2dd81336f8a2ef10339112401253b3c714eeda879f12c509072ef055b48372bb82efbdce8e10c8cb9a2f9' +
+            'd60e93908f93df1623ad78a86a028d6bc064dbfc75a6a57379ef855dc6733801',
+        beta:
+            '38561d6b77b71d30eb97a062168ae12b667ce5c28caccdf76bc88e093e463598' +
+            '7cd96814ce55b4689b3dd2947f80e59aac7b7675f8083865b46c89b2ce9cc735',
+    },
+    {
+        suite: 'ell2',
+        sk: 'c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7',
+        pk: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+        alpha: 'af82',
+        pi:
+            '926e895d308f5e328e7aa159c06eddbe56d06846abf5d98c2512235eaa57fdce35b46edfc655bc828d44ad09d1150f31' +
+            '374e7ef73027e14760d42e77341fe05467bb286cc2c9d7fde29120a0b2320d04',
+        beta:
+            '121b7f9b9aaaa29099fc04a94ba52784d44eac976dd1a3cca458733be5cd090a' +
+            '7b5fbd148444f17f8daf1fb55cb04b1ae85a626e30a54b4b0f8abf4a43314a58',
+    },
+]
+
+describe('ECVRF-EDWARDS25519-SHA512', () => {
+    test('RFC9381 vectors', async () => {
+        for (const edX of [ed, edNative]) {
+            for (const { suite, sk, pk, alpha, pi, beta } of VECTORS) {
+                const vrf = edX.vrf[suite]
+                expect(await edX.getPublicKey(sk)).toBe(pk)
+                expect(bytesToHex(await vrf.prove(sk, alpha))).toBe(pi)
+                expect(bytesToHex(await vrf.proofToHash(pi))).toBe(beta)
+                expect(await vrf.verify(pk, alpha, pi)).toBe(true)
+            }
+        }
+        const { pk, alpha, pi } = VECTORS[2]
+        expect(await ed.vrf.ell2.verify(ed.Point.fromHex(pk), hexToBytes(alpha), hexToBytes(pi))).toBe(true)
+    })
+
+    test('rejects other inputs', async () => {
+        const { sk, pk, alpha, pi } = VECTORS[1]
+        const vrf = ed.vrf.tai
+        expect(await vrf.verify(pk, alpha + '00', pi)).toBe(false)
+        expect(await vrf.verify(VECTORS[4].pk, alpha, pi)).toBe(false)
+        // The proof of one suite doesn't verify in the other
+        expect(await ed.vrf.ell2.verify(pk, alpha, pi)).toBe(false)
+        const tampered = hexToBytes(pi)
+        tampered[40] ^= 1
+        expect(await vrf.verify(pk, alpha, tampered)).toBe(false)
+
+        // s + ℓ is the same scalar, but not canonical
+        const proof = hexToBytes(pi)
+        const s = JSBI.add(ed.scalars.deserializeNumber(proof.slice(48)), ed.CURVE.n)
+        proof.set(ed.scalars.serializeNumber(s), 48)
+        await expect(vrf.verify(pk, alpha, proof)).rejects.toThrow(NonCanonicalScalarError)
+        await expect(vrf.verify(pk, alpha, pi.slice(2))).rejects.toThrow(InvalidSignatureError)
+        await expect(vrf.proofToHash(pi + '00')).rejects.toThrow(InvalidSignatureError)
+
+        // Small order keys are rejected before the proof is looked at
+        const smallOrder = ed.utils.TORSION_SUBGROUP[1]
+        expect(await vrf.verify(smallOrder, alpha, pi)).toBe(false)
+        expect(await vrf.verify(smallOrder, alpha, pi + '00')).toBe(false)
+        expect(await vrf.verify(pk, alpha, pi, { validateKey: false })).toBe(true)
+        expect(bytesToHex(await vrf.prove(hexToBytes(sk), hexToBytes(alpha)))).toBe(pi)
+    })
+})
@@ -0,0 +1,65 @@
+import { sha512 } from 'js-sha512'
+import JSBI from 'jsbi'
+import { BigIntType, Ed25519Type, makeED, NativeBigInt } from '..'
+
+// https://tools.ietf.org/html/rfc7748#section-5.2
+// https://tools.ietf.org/html/rfc7748#section-6.1
+function x25519Tests<BIT extends BigIntType>(name: string, ed: Ed25519Type<BIT>) {
+    describe(`x25519 ${name}`, () => {
+        it('should match scalar multiplication vectors', () => {
+            expect(
+                ed.x25519.scalarMult(
+                    'a546e36bf0527c9d3b16154b82465edd62144c0ac1fc5a18506a2244ba449ac4',
+                    'e6db6867583030db3594c1a424b15f7c726624ec26b3353b10a903a6d0ab1c4c'
+                )
+            ).toBe('c3da55379de9c6908e94ea4df28d084f32eccf03491c71f754b4075577a28552')
+            expect(
+                ed.x25519.scalarMult(
+                    '4b66e9d4d1b4673c5ad22691957d6af5c11b6421e0ea01d42ca4169e7918ba0d',
+                    'e5210f12786811d3f4b7959d0538ae2c31dbe7106fc03c3efc4cd549c715a493'
+                )
+            ).toBe('95cbde9476e8907d7aade45cb4b873f88b595a68799fa152e6f8f7647aac7957')
+        })
+        it('should match iterated vectors', () => {
+            let k = new Uint8Array(32)
+            k[0] = 9
+            let u = k.slice()
+            for (let i = 1; i <= 1000; i++) {
+                const result = ed.x25519.scalarMult(k, u)
+                u = k
+                k = result
+                if (i === 1) {
+                    expect(Buffer.from(k).toString('hex')).toBe(
+                        '422c8e7a6227d7bca1350b3e2bb7279f7897b87bb6854b783c60e80311ae3079'
+                    )
+                }
+            }
+            expect(Buffer.from(k).toString('hex')).toBe(
+                '684cf59ba83309552800ef566f2f4d3c1c3887c49360e3875f2eb94d99532c51'
+            )
+        })
+        it('should agree on a shared secret', () => {
+            const alicePriv = '77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a'
+            const bobPriv = '5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb'
+            const alicePub = ed.x25519.getPublicKey(alicePriv)
+            const bobPub = ed.x25519.scalarMultBase(bobPriv)
+            expect(alicePub).toBe('8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a')
+            expect(bobPub).toBe('de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f')
+            const shared = '4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742'
+            expect(ed.x25519.getSharedSecret(alicePriv, bobPub)).toBe(shared)
+            expect(ed.x25519.getSharedSecret(bobPriv, alicePub)).toBe(shared)
+        })
+        it('should reject all-zero shared secrets', () => {
+            const priv = ed.utils.randomPrivateKey()
+            expect(() => ed.x25519.getSharedSecret(priv, new Uint8Array(32))).toThrow(
+                'x25519: shared secret is all zero'
+            )
+            expect(() => ed.x25519.scalarMult(priv.slice(1), new Uint8Array(32))).toThrow(
+                'x25519: expected 32 bytes of scalar'
+            )
+        })
+    })
+}
+
+x25519Tests('JSBI', makeED(JSBI, sha512))
+x25519Tests('native', makeED(new NativeBigInt(), sha512))
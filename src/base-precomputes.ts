@@ -0,0 +1,4 @@
+// Generated with bytesToBase64(ed.Point.exportPrecomputes()): the window size 8 table of the base point, which
+// ExtendedPoint.windowPrecomputes decodes. points.test.ts checks that it matches a freshly computed table.
+// prettier-ignore
+export const BASE_PRECOMPUTES = 'AQhYZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZhrVJY9gLVbJsqcllWDHLGlc3Nb9MeKkwP5Tbs3TNmkhWGZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmZmYOzkMoTqHFg1+k1xVFjg0IrOczGH07BD1sBFqfTDirNsmj+GquRl8OVlE4ZFEPOZdWH6LJ6F6iHcIpIwnzzWAiXOL4019IYqyGSGKBGZhDYzrI2j50rvQfSY+SIkqcrmfUtPV4SGjDAgQDJGcX7Baf954mYI6hJqGrae530bFnEnD4ycRXpjpJRxXOk8Gecxr5IDV6uNQlg0bxz1bbqD0gLxEyymGrON/wDy/qMijyTGxx1YCFuA5H4ZUVyyfo0Ecz8i4ywJxAkaXhGz75GShc3qUt0fd87/x7WOOtPqf9Se3IdtaDH9IQXQtDicouKDFmRpKJFG4s4G+u/piyJUhfPfLLfRp0OngnRHtsgpnlob4pCt3ArK5iHGBFerqXl0z0fkn50HrSwWBrTZQGfEH5d31P/acJtx2h2IYo/ONNBQdBDvUamFVYlc7xu/MJ6IMHgR1LGe7j6U699PyFhlYUuGJAn7XExBI98qv3RiuI8EGtNt1oZM6HL9VHK+NjxTHIhKUIvP2HO5mLaYB7xjrrk89O+FwthkK2cdeXX+FCZ7S5N/ypWy8ek+QeYvw8eIGP84pmCW+tbnlz5ckABtMhXHGFUQYj4NOUAk4uXA7YhrgilG/gNvMbZXEAyHDJfDXA8SJVhEROxzBEbiMTkHgf/dLyVun8vrL0Dd3CwiM9f0/5d0giH5VEFPg22E6OfiB3hrzSDrZwRHVtyjB+eSxgLHvoarB0iLpD6OA9haZ2Jc+/mMhUTeTIdyQbeqr8f2PL83wgwdIv/1LVk8WypYHTOCRx1o0Hz7YX5EsVsSjlFBM3A2rDLY8w1FicPBxZWBLOD/9A43xvWperIT8xgpAtLZDweGb+Yq5CO8GFI7+VMttJogzgcM9eNV1uAX7hGUf55C0u3IHSM2eWc1K0fkhWuCV4Y05sHecigM6LYM5wQO1fwLdz4IA3uLcijejjQ4hPMC0o8K0z28xm89XgJ3QQgB9A6q7h74cjJ5ooss9AN7iJ2tIiYEZ4dItT7Q2w2xK5FYW1U3OOoyqDOT7Y5t7YFbvKXIl6jASvSoj1QjtfIDkonImY/WmDXCa2GeiYSKe/ArfLetG6FYHLxFBvJVBOwY2hZj5/YZDLiQF3dBNj2Z5BIF35xlrcNcQu7OotFk/fXC6txExtlKGamqEYr+WsMZPSZAH3YlH1Iv8ELfvLEvj5KGxtWbJZdCO/5zONVwmRnCQIFSviuO465ScGhqQj6ydnwTeretgnnAeO/xFqsHhurTouD5ifcsN/gvKWlnBq33aoU3hZxU0LooVbmJSNkXL9oh50ULjpFrh9Wi3FfQS+l+yb/mzNAfk0O3KIsRe3n5HMRcJK8vk+AGDKK21vlguxS6ZEtpcSALh2eJhYkYYOK7yTA5yvKilnSH+HaBNKsHXgkD5ONbCW1NZODoG8pcOWiuro6H2Y2At+hCYRLnJEqQQ6GnlP55ZGMKWB4rDBuWPXQMHoInBcpFtK94EduVUdaQJh/oMwX0M/gjAYLvRc1t22W3wiR0Na2ZNaGD+v+Uyrc+JYoDUhSs0OFYVpnjr3fXW9W0+5mNbtymU8ZzhaPG/aezHduWCpFr7Pcb7wNcVxMT5qXp0KJras62wTFlc2+X4+XsQ8Bz3eHctS8u1BddT5iIWVhw65Xo7HCm+eKG0zUWDG/26l2MfF1QauNcz49N3lI/PlWpe3FtEoZnov7CosYnfAyOd9+ppqNx7ValE4cz3HsARfkYyTmwIeJF+XuERqWqjlzl1TZmXOzbPS4FI/wEp8QpbeLEfJvwaVTeHSsphXqyzMt9kFH/nKGzkqIgVekSVW22c8QqyIIe7AMyt4eT1mq2mTpB97JwQF5Ub8I5r2TZq3V5xVDCQjgWuI6B7Hd5YOoalS4NgOYZ55LZWcjZbgBkBdhyhfmHDxeXvtT0Sy5wgNwggS0p/fzZMgis8zym2JuXfIkxtOYFU0NTYsNhlrwC2Cyy5VmMoPebgMN0s4CbDO2R5HQUJ50NwR02i8YiORePODCprXkp2P7hiNLncHcsrfPMAY6XHp1HghiKrVFr7HAtZ/GWe2aZQs1uAFmVHS03OFZS+YBwwa+qGv6d8RsD7Wt4CTcMnl1pFNoICh6cnPsOro52ZseYB/Wo8dYSnn1KEKNrSIOqm7ByEFXDyiXfwtwoDBOxY5GVB3hknhuk04APjaIMo49lQKana5lIFF94O6pgcRY5GCdEm19c2LsVXXGKvbW8ijgVLtd4pBfscew2j8J3gEu/B4IPACEBnQwtjc/LzhbIYCD+kaFDGT6rP3zjPsJHNdeg/btWO2neepo2FLspA42uOsuAM5fuugHevzMCqjOZHEZ11xA9JtEyNYNK8WPIDcRQABoJyvocnxwV1nVExN5OGBeBvX6zfIQeNZD0A2E0Sd0X0zPyDLoGq9rVbmQH7k89IHdFUUpCCeckL49j+tfDgbHJse7e96xCwd/0AnNOnA+o5l5OBY+R/xJZk1TXgVFVnnzD/DWR+D4qCRUwg4KuYZSpQxzFUZ2Z5mYEbiMBvC+rdK4zRWm/QpqAGAkUImT36X9kDdT/xSePmQMQPmfVY5Cx1WgoX5GkIXaWzPOWnSBjpPOS35OECMTOcFErR4i/jA7JPeemvOLOEOqTREoTJat+5TEekZ95GltFUkT0MXBkiavbv7XxPWSbBzNV5xKImFGuJmZX2z2Qxpwrwz/KDBgznVBRHaiccgVGa8VIao4E2d20WinOn50+juCWluD9nkwdSdUSoJrT+vFLNDkzMzYi2p79vj29s5MSyY2nmbLR8bp/Qllvp6pPna6wrr9nCCsuV01MgLM7nD9dKs81ejgL1GDtxfwIJbsmjQftO3IWrbsZc7HGg6lH/fcB1VYqRXZdQEp8yM2oehg9oBfF6c9Xb22wsrMPlaQBoPRRDBBIm/AF7ArphM4iG8fipm58TG1tihbrWlg59IIaGckhYmkmCRodUxR7AKcd6Ee6MKSqHGUTngrRW1FH9AhFRMqwplchsRhmZvUedwM8oFA2lMgxE2GgHmzpHgrnu/BGm4ZF4Pf26Wd1K5N8V/QG/NItyu5qG25VwYDoKvCSrchlLB0sCl6J1U9S2798XUe9dj6VuZB9UhEwjNtyuvvhFrDBrl4VbXQ0hufUIsOw0Kw7laCR8hGHzoBpPBM6uz2LU8tdK4ecrb1ruYthKzTGKj2Asg5dCVk2Fr6rvQ9iliOySiuckac5PHlx51sjYzW0fCb76qti5yXr4G61KUcIi+CnOAwtnxUoUIHWXe8hxMlLNny+u+nyLK84EoR3CmASuSEZw4GKM2hnLGzbVjC0L5tVGgMRqxIYFNcDwpfpRet/x89OS3NBuQ4o9gzm7fHU6pLhFSK9VEmC5tJKhHoZZPs88p0pZSzkmnSJqOxS1eaYAxF2BEUkuRJpEQX1o4AMrklVj9A/VW8Bn+zMNsvl3OGjKZToNcGT4r8zkJ9ENzriz5Td7w/ZIgNcSDZwY3QgHhwEhfYo3gFhPYq9niGJS8HpQcu48wYMDPYT1POGs5RNZ6fhBhAn6DqGSKy2DMGGaqp3PCumJJohxttvflI3L37b2nwL67dDKZpjex/vFoCc6yc8ezyBLfNCtSM1ScHhJLP1Otq3QisESamtdfaWV9uC2+D1iaa1ihyR2SRMYcUL0Pief/bGnJ23BxgZypd47eDazkdY2zfycQNMo9zFPhu+zsI33jQApK9gjK9UWYoVpdjUbe9Gl8Teb8qqOSJT4tYAJM94q5BcVOvFv7msM94rSctJmHUE8qMmV3VuIa/WcVcUykQmAQ98bIcC0LJDN9ibAYlqA4FBeRTSDopA1oE8yJyH+7UMU91FZBkIbYRc3/zerTKXvXrvUA5l9wNB6w49tY4ULPSt0AYkeaoy9kPplSk47M+w+VqEHBU5Epedeke28PLc9YD70nrkGKLlMEdxOTihSf0MfeJqUEYk0R3waie+pFh6NEK4iHc+aLGtIfFOKEl6ikqjJtcjBDZRhGULg2w8kYgR8GC4pPoTCjK3mxls4fmRsYidBbJWlZpNe0u3UVomydirFKflRV00cR+xc1GSuhwpOuoF+ACmieJS9/BaG5a1CEVKzosuLlNNaLWSuyM4jw79ZP+MuHFrG/CeKkg9JJlau17fGXEfv+lptIWiSZgrx3pYWO6aYUy46RWWxFkppJ/bFjIXUCebNIQtpL8S1FPY2AqH/V0SfDCf8depwArtjZqrjtH9OIOfZPC0+Qgp7e18X0wPFCClqDNZcB0uggLKxpOAVmnQ3jKpC84nGeR/Mf0f4dZU0H3E2n7EKyr7SkgEWdXe1ecUAakbVYSXIjMGGpmQGbtGOKmz1wrYcpqKrI6sOuF7qphOW8Vc/Z7UQhz/39S9ERCG43BoO2RkcMRyBZQeCirVbqlVRM0nfs8A3u80YNp75Ci/s7+3ZHkdFRm80DQI+9UwtcP8u5nhqvB+V5BHN+YEpX1oksK221snQNwHu2j14VR2brtMR2XvMAu+Pz24L1Jkp6Ul2QPTAF3eU4nBHFAG3mqFTxlwJl8LA8hht2kOBNqLpyl3sF9oymPOaJAdfj+99+fp7gMIoZzmFTEP0O715d/sJ6NvXr4DQM4xOShomxXdQ5ezz8/gf6FvmdGmlbPERJtIyJTcKQ6VbBjPUlRIaZ1nla1qr2v+XmlfqetTVXF0j8tL92Pg9X7Qp045rc8w5+q+tW4K5qVUXOWHhRRR2ZxsXU8EQ46AXrBIYTwRtu7KOYd/deCkywzLfoj51aC0mk9COsrZOzrxap0pLHa6gJriajz9UQDnGsBmwzKidpspsSaipafELXFuAWMzWRX1hWbPSOk9Y0tvuk0LX2cBL86g5LMjkecOM8fz1rbBBy1LGeQe71Hq4K8xeRvu2FQr29BK4+F8ftfbiN7Q+qDAu1IkxPyGAKLM8raEoQpjpQEQFb6PpoxGMkQ5prxmyphYGYaDhvpUmKaRFXYcMN8060isqFV+8+BORuOFpHkraEKJtERqwYAgH25kiBaGGHTNaHhh81gBzqA5cb2QjQVvq8K7WbvbaxOZC3+e/LMPg+yOSO3FN1LJkj1u5AkupLc/kuFeyednSoFtLb2PWfNGIyCIhAi06x+/GIf99gxQ67tuOQxkt1At3BWLLc9uDsYZV3TzV4ilIj2zVsGFk9HFxxC1GUUMSpBYOmAanT0McJGiyCMJj6oupIRv3iA34QNJGS2J6TJrXMYDtNbW6ZmmSc7u2s0UyWyFxH0jbQYKiuwTVSXs4aKkld6S+UGzFIFgukPLAPelHxeNbZav1G6LioeR2H+ZDynBMp+AsgZPoFJgnaF6+V1vtqGQ1uXhLxmUyqqG95hvRyKAAm+eqeGT1WnT/niyyiS1NAJyK4tOZfT6dYXQfMHg0FDXeXbVmVOtePyTQaFlxAO/iXp+CTaROsa95hdEr6MKgXM8DcDKgVkLZR9Pu3sMVc6vU73FdjOavdJm7JiFu+xId5VR8nex7xuBBKTVZD5jtQ3WKAruZX/xW4UgofaoUSq731bxepBOFst8sx2Jn0s/3Z8GuIr8XujUEJUmiTygOJyOE/XSYtPAshhArmsl8wWrEiZpUfakqvGbUShpQgojo9ZrBvNwg64i+q8XaYaNUg2p1PPhQUs81Ss435/Xq3gXIUotLzORIw8uYc8nlCpEkcroBV2XkHLCbCJlY1kQwq1lKK7dYohZO7utUOYQrrterLCMhaGOrimGvl8wNYssbYmFSxLGQ+6+qrObL0Pdnhpv9jmZBsoT4ZFe4LTDOi5akgUMq1IT5yHTkBiOHWdz8rYluKnL6SN4XUua663quUWkn9b6876LKFxNAGJneL5GMWRFNnsLevWW6tynSyLSwwKnVxoxbvm+fGaA8itqsDqa0rfpbTRdQQ1sYZKoLQzfYfMHblOMDqYOueOPjENvqZFvNussEJkTSk3RcoLZUkGuOJ5o9FaMDDdgTfpccqgtPQSen5d5fwE796cljxlmAf0iSpAGThjA5ZYLiJ0Zyi2MQswNovaF6LWVaJPPiFqN7gIRZcWduAF2R4JmXWyMp4Oh7swRV/CnkIzTMi76ARUNd47Cs36Di1vXrJfrbvjKgqVtN2hAwM6gYgLD7tEob08nzk6TKjNRQBaNtMTBtwv9HlBbK8RUUo+a2Xqo0MAUtR8VhafyK+EvzEFhuakHhUeMyDo+7ALNUPwAviljRUrmjSBys9dxxN7Kk8asz0MbGeGfu5v2fdFQpO4/5atj7Mq2p1oxquWZGkA769Pe6WgHWE1m3CY3w0Fw74mrRu3RqDJz4zQlS/Co399CtAjDs0GHXZXfXta+CLA7qVNOX+pxGJtbYjDchJiH7onPANYzEx3X0NI94UVqibLOTu3Qr/7kOU1T7FfVPAWpdP3efl0u6kka77rb6GAuI2SgxZ03l9RBbbOKpt+RT3oPBOf4Uq30WYc/F9ulsWcepi6CzBDtauzEgc8efUyodBflYo0Ir6K72QBBoaoAWAu4+NW7VU9Z7no2WELHYQVs0XNGXJBMI01gmDd8MfKTe41w02Qq+ep9XaJbcvIXOydn6uGPJqfayn2VHpmGqcYa4L+d793UyYeGsXUli4fXc/FGFYHOxnZ1PYqhIi4asnoeJm80N0p+2TW3sRU0L21+jfPKFSkQIVxhIZGm6l5SHdTlETDgK8xTy0eLlN+9IMjRh+rNYnb5K8H6BGViEPlmKHL26zZC54ijV19rCL0+nTUkCOnhD4dI2lLlW8xijleolzvae090sVLQSQ/HEKEt6Cof/YpexFMtx+yiC6cDSe7vf5eeIjE4PRQqwIr3q050yl5V4AdbYCuba4O1ZbcXZryQbdTGWVk7I3sD7ZNdHeW7p/UVdLn9iCOQgxFv+GfuhWKumQxIdXliMI4VTBkGQRdePWUJVKh/VLQwQSsCa2hwaNaihP3SiNH7iLqT3EqVWbsEaUEwkWxsKbnyNF/VcX9AZ+NmAjLugcdGNobn8HgC4SS1GyauvP4CCUlYvM7zhndwoUvDmlZmy2nQw6rNBwETUD1lMoHSg58NSSVHZkhQj5CdU49L/TOuXlSOJiY0Bub1Ti2YccC+WJwgj1azXomm4HFcAUuT5hU3O5IOlJyWsVB4iiTMrwLhogfRNUshiq9B7E2Pyq2z5grARurXQgRa00mOBZJ7grcwTKeUIVOYlyRjyybkCqRYF+1U756qFQVN0I/1rpel9U17drT5DUxgIqTL/VkU1DqQPLk+H4z0YSiQSL1Kh3HQp5/15AOj5LCzHwa4JDvyfq8hR1A2dMTXv6CtvWaViqOix4/Zyv6Ps00sGcdE2iFocQ8JIDyV2sxaz9sjoctlwZtGnlwkdYGrwts2gByzdak8GGC1aE046fiaauS+4cDuGNQ4masrW+/aI/kdK3k2vCdaZXT3H3jejZ/4NAkr0drvW1w9m9F9Tqe210WWqadiXaxV4zSAe13ysfQtCI9pphRd/DfbsKWRy0ss9nEtwi8+HW7ndnq0vMa60Gp0+4u9EjcDwOlQFqrBtUOs/n7maZVhL44bpzL/KFzzIs8YDsBDKfBlw0SpGwGyY8F8dIJ00ix1ix8L9j3+lIWHYvlNuciKJBXdIZQhkkzE/uNFd5tWkGEPd2e03qhITgg+TwehdKYweZ59I5fRJxXKsgZHVf9V2MagiYkOOT6cQ2ZvEtDlBOmTPYfNqppipaA9DZL5Ep6o5w262MS1cpng5VNWGeH229jtl5vNWIwLUpZN8rRs/7rpZojpVGP5DS/Vn8mRqXQIIdkbWuxcp/XvwSTWTcFlIXcrWMzAlS/Kg/4S6t7Xpvpf4kgS4XQM2feFA0F5vsOahj29z0/m1K+R/HyryIbnFRPw+2XXqDua73aeFdakneQ+FTxROHmaOH/NdzlhuEuZbpcac2Su/jRGmgGwAQEWz9eQYh9WtRh9YueulQzB+tyPVR89TouRfvZ6fsXZajiolnnVlSySeeHHLlfDDzFqCdmImAcAD3EtoHIt9NFhRbwU9t9cwy5rf9VwucFfA4vx6iLd3LuUwNLmpcOwAePST8up9EkxPIG+Tave1qc4TZaJdjSBN8taxGaADZG0gonZ1oSp2lLUeoCwXHn9CsfMmT70upN9CFMcsky20pew8Gi93h05bZW5dXntB8ycq8WvEot/ozOPespIXcFwtBCM9Vz9l7/3hLgZo76wZf4MoC3C0Mt7iZ8I2yezX6BTfgxGYd1zMKPbb7WhJMN//moCeZmVmw73bRm0C7P1M0P7nxbBoc5v0Vz3vbAhC7ahT8DbQl4viU/n3n8ho/ikDI4VQJzPtoiwgUpgTf3FHJLo4ET5LH53moFUyFOOwBT0f9RsNq73YIaeiPwwo3UeQtMcLPeLgWERF7RUcRergExYH9oo7HaUwlKzdsdVuiKImadggxizFgqb0U1M2gXkAHv/v6uJBPYh46mQoORHwHSSzFXnwKPkjJzXBJI9nSB5UiP3AfUUxWGoPnboZjovuv526fI7kHPq4QwjAAGcJqQi5P/FNBhtopzBUT94Zwy2dhwxhCiuwxoLpAmjhUzniLNsVcZAYkrPU2wo9mPGLqov6muT84+Pv2Jm8U+Po2GXMoRVg92ZWXaDGpj4YR395Afoi2uZmoCjKCIABT1YIptknDDZhuorJdJ+4lRJHKTtqqRb+mDq1MYnh5RMoWXiEI1XKkYkUEa8ZBDU7tiiqrOU549jYXTHy0OBEbvqdIVscYNrwNXyhDaDDhU3LIz/nh+Am5pmSE9VAVEBUGem9vGi2059Coqj1a6z40Gv4Rx+VpZSe2lShtE560XFFJhh1s+7cbbML2yz/8pa80X7XzGhHcbDHDnj46NI+X8uIhW+6Uh30ubr0AxO8P56N1t7RUZaVwnDs2FcolE2vfT+MgeaXoN7Axah1AKyitL//l5/i4iyIsAl57VVVh5j9vHxKXSnLuIzohZwq1AdX96sU3/d/LvU3A25yTR3FgTd9gVNi8mhvXFtycyzmXmXMCA7MLuDSxStOHJLXMY0IAx99pfVNA695K7f+pp1XRmaOFI2g1UOnEaRPKLgIfoWIPh1YzNxioHG/YM6KuRnY3TqbtzIYWIXjGkeUDmD+/iSIXTrslgVmGVBfo90QrTdzZXq++OtJ6aaAVykKfr/B2NGIkhyYEjJuEKZO67LIiXKHdd6/zP9PmzU0ZMZ4toqHk62qhYM9236JZNeRAcX7ljWa9BZNnYM0d3aHY4NJNNYV6OHPhuenWVV5MaFakT9BsPoTMuSZ6fG+w8jVx2Jk1bOB9ONUdZWreoC3JB7weaBEpS/kXOyWsexEThIr9K6AH5WSkA6ocLatf6V6EfVCgSAJZNq77EravEKE9RivXksk6Uer4SD4LOOPXo88e2fIke4Y202ePM6t93Lmc1qec1ks45abA3rYkMXBBCArzn5y6vsqqvLixFmqkNNdSk9dRExIOv1SmlPju+p5oELhzBLzdzKMGu6UiCiPua08yEb3zR76SxIVCDgYYVsfnMPIuLh6p6hSN/I1gMr+G+D+b2wV+4KgpE5e1G7mMktLxC6PpU9ray+4MFt4ISFRhycaNRjqwfaox+7jGD71x/oV0jxNtTQ2GsCFXJwAggKQwBsBwUA9eXOWzh/3klag5p2Mp1IWDFi3qFWBlLdBFcDpwIm1KbXdhz8zYaKibEfvepXqoN7al/xYf5ZgXRdDexqjXWExDEDtxZwJ1UD3f4MidokxtHrOACOPKFUuRIDIS5oUWfA/nli43nOFaEikI/LQh/bEF6XVTEj46Z9JyGh9udhovtY42uoPyeupMsFlM+JEDqXKBWWSJeddEcglIpXCvIj5oKZpRtrWS4tuDwmyjWUvdgb27nxHFl6HeuCPafIudaD/Ueeu6bAAFn5FFllfdhu31SaYvseP71hfWhdVdAxJM2x3SqdGwRJXyVyaGkqAD2zDGhaXGrD8+7eUr9mOLOg8QWga8AqMxdGP/MS0ZQPy4ixt8hvAvOntVnS2kLLqmYR1yY5tXJSuFyNMbKiFVAi6rjArPJVqRol6En6f1BdhjRuLZHSTZ3pJhwnShKIfVbDbL7re6cjp9w4uZSuxny1A7FGXl8Soc4JCiCL2LI7Wu/JmWeDqis6V76C1QoHEHCBS0jB5iyE6IhaGbazSMFtLP73jEkV8wiG5VSK7uY9kDg+HnwZ567Ks+Y8gk75kgjdTZD9IZl2OMrUSpOchct3R5Bz24jli1Y0QimZt+mt3KZNuTMFVamaVdK9MVAy5cByyef8WnS7OaNuLLuKKmYkMNYxQYhlrNJTdelrnvd65P6Yqlk2stFfLnF9v+UZlZoAneiDwQi8VEey8g4GnaBA/EuADIcBD5RoMD3uqHZQPohr/eGQDp6Eb9TDzQnBy8H5+0yuG/+6aomHuaxktWOS+2kTP/J9ZRl/K1GJSFSSdiAAUBeZG8DN+2GM/S4YJQulcw90H/Dm86WjCMPLt5J2v+nBpnvIymsgnoZjeDkAG+MzuREf9qZsbQPjWI5Jl4ecwJiUtCzoX5WyaJZoRca+h5YQ4H92DmP0uolP8zCtddAn1LTNcj7056WpbUKzwuMbyR8VTghxahOtEHQiyMIArgM69Tg1C70bumXHzk+Q3fsha/GXHbrHO3kCdWcGDgM91893mD5muAOSQkqtugStz/tz6DV31ODlEGJoe7ZFtzLM4rGryH0nfX9x3xCsEw7KWchRBZtvw2JLqnPO6qSjiH3c/wW0miXUB6IyakeoOKt4vSGr/qAiQIX3upsb6dN/yGSwju56D9IUUJNMFhMiP8m1VIU5n3Y9CZzgHgn+soVqXCDN28uCBtV2G1+3i11ElUkCbBy+nmv+wdTu0Hfl7H9mxWMSAUDqjZJ8GaPRt9DibTgarr9Wt5AvFRXHVVDwo0zYI8MwlU0mE5MJv97yEm1HD67vkxM3OE0LOBv+wu6JOLAGT3nLh04OZJSE1NSLYZoUC32TJBfII3oS3c0lS7k8wU885mRblRPaUq3epXvo3NeRh7qqUovmN0FCWycAKcjbGSc55bChbZTQA0eRSaYE35J2dgwgH0L9PegEkkaCtKW9XHUZEd4SpLxEfxvHqzy8i2fKyQBf3z+VI6EWs9wSfzWUOVkMWWefX0lWUpBpxRBRjauC55fmlZcQHrGtJbqenm/cIZh0LmP+h+BR5ZQJA53RFqrXnBu3p1dRtmvgl7KuSXfUmuEtvWV5UM0Qd8gE8vAs7wErvUteEa2gUVBkm2ijzqLzQgFMOq1q8sPr1lIOJNSzvrn0rDraQ7YLxY5sCVKiqBmnrz0ga+SLwMxUbgatSsD9nMgjQsr9sfmR05CzFAnTaTFizRW6jW6zDj+TqvFR5dpNPyS2SOcT35ADai9TuOqIByH3/HKpBfkqgiOhGIIi8U9KO7XQUNMvcXE737vNLsRbMVMemvgoQ9KMb8EfVBtYvTEnZS5xo8TjYRB6IVIFHEKsNii15/pg/5RYVsEYa3fuXX+cORHAWUpmc6gv+RUtR+I9yRnVyb7lIZNlaqrS6tWTzpF6/9GssvISsK544+L/eULq/LeZYBbBMdx9trwZ1rWVPX6vY2xh/5o6ItYi448W5Q4tBgoqJuFf2NNxu0DHdffD3mAlaV30MWe1q5h/7/uxPeR1vcg/1+CuFNXu1zJSBL96nrCkLE0KYjeVN6EXt1Q1GrW3/CILKJveWhu+JBoMyUTPQedvE0HDCiIFMJ7Qftle+k3Vl4A9GpfD/wW8Oeha9Qq0dq1c2uxCNZK/UzuNOxcyYlkXYClpXzgwvV2l0BIxMZQTknjHylhOmm+Zcr0A3JZngR3EaSfuE4Ivb386HAeUgIuTT9DCp+S/yZhJPcL/bskLzfvgXXjSkkVzbDEx777BlFvhcp+uGls4mILZuQippelpQsf1DcAXrkYmZgpPVUG4C00ixQ1ffDyx2eLjUL68VzdEON5KS+7O28uLpIkbM+JmWMRFAdDtEJWB9UiKL3XSdwxIyI8xsjIcvrciAy4SPcjYGEyCxaUR4XZMUFBc2l9K5thDSuvuf/jNKllKvrI8KCKWxC8MvgqjkB8BAbfV/ObABtfG8+cjYvX5Vin0wR6tbeKToAuQJZyybEupmxly+OAJImT1LrRxuJiyTAE33VIFuApoAglcPpn46Hnh6eesfMdWyl8ZEaqAEsq3apWcQnp2WwQYPdQ1YfcPiQawrnqFC5e9JXjgUvqSAiR3FMyhVZ/CEe7vYyXLbubQaF1riZ/4yoFjM9sO+ZtoGsMkjDJfT618/AURAb2KMDBSLJNLB/uRRQb9gZfwPrjAQpd0PFfsrx+SoyfW5mIyd4mXO48x9FqUM9SlqR6/WnG8xtR2MFUNvOSZzM+LKn5V2JvJgOHMCbtpS/+GZVxiDm2gJWDmLbgzolfl0qdztNos3RXuuCIDtm/d4Y9Y+rz7nOXHJxvvfuEWBFyeTSxaA/udTtN2OXyeI0BwXMCIA5B2sfxrecDjDJYKRejhZsSc7PB6nXzDBSdaJqbkNiulLAFVjHEQFlTIJp2xoOPbc21Htwqa4Y8HUss5kBaMHN+NW5dBepMqohPMDM7BPu7p90cTWpTjg0DzJpRL3BJ6Htu2VFV3XT6q/ruO+q5s63N6QPhKpOp7N9YGP0ggzaLSefaUDbg7LehcRkEP+FBlalQagPhpQvAQbrIxE6uiAMxYGLNJ/U1Ik7youY0DzNnvsjMqSH2/uObFkemPOcmMYX2at8QiyxPWjSpSjNBpSGqFIeVR8oMuEEwZQxkSRXb28ZZGmGN6KYrD2byQtR4nGE3H3rPS0v6gZlZ1mywXOFt6T3OkMHde8hTg9mjLNbUp2FmYIJuA3VzrkdkVMsqJt/ahMhhmyYg9119HTmYo8jEkInzkHsPXk11pCge3x89TGFVmKhBj/mHNpMTfytjRZYZu9A0xQHKVPZSKZR0kpFGtQ+GdX2PDqGBP4sGW1PI0JoONd4UdACHxk1w0D3Wz5ROpE1269I3/VnM405/jwCTAxnhI2kUtltLGq9sf0sRQqCjQ3juW/FqBBy2FT0QR0RSVQ8vIodsSoEs+LSIisvwUfiap2xzz7T7rzohRoOSC2NbjmGP2Ry5jFgwig/9Bhn5SBlw1HRitSpSPXt/fgKSCo0cQSb6o0qEF5rJuP4fJbFLiFwKdRk0NGO1L6BeyR/gZBz/5P2XJb8mPIBr0+jNRTVAKQgtcoOl0zC8vBFLEFhfY/oldmNeb0xOu5Xb547F2t0FGde9DYE9fAtH6UBBc/xpaopL6J/vMaqga9u6JGeZXy4aNQAN+IQZQcU42vYRXcgN7WC+93TdM4WO4RJK9hcIlsaVJ4UZn+u6AvivN47m1/X/3/ykpxWDy9nUwXV0Idi8MjDW2HKP+VjDLQrl/KCgnR5YBzcYIesQ9EkNwUp2GU40LYRJ9fTczbaYKDm1FXY6YXIcsUZ0s5oreAmTk68Ad7JsTEQFqo1FGrUtTSCcdJKXZofUyY85Y6NM3//qdUXia/2pGTVEOAdre9EvdqDrHqo8BwH+cNDbD+304ciAnOXrvJmRwE4HiW2LGQUVfxYFNh7NYtUeOPw/uET0zTqGDyVJqO5+PguiifuKxd+pT/KSqZ2lxGb7qjzW+wX0agPW3QhBq2sf4Bq+uSgofoSi+BNv2cp5tfAi33qq9hR0y9VsN01HmDSwOulO8MJcHj2j0fdz+zaB1StXNScp1aGIcNUCHnA4wvrrn0FkvPsgJ24XEushVmP4dEQWudmy5Nb+L2pHtfB247hRqlPoVnsdm9Tj29gQwnAY9DN80QbnSmk2ZDa97qzWLpW1EC/5v5yPrbNq7dK9D5NrgPhOGT7d1lSk45JvX0VIxMLnhRDOSNH9NO4NBFZHrWxcjAtQVQ3Z6y0q30EVljbk8yRKycSyal4Uo9ygX1Sxxq4oXPMSnoQdk1yB8q+H2U1d3nh1w7kK2N3jbAP5zZLjgTh+e1hReriPvuMZ26TsNkX0emwXBHP+KhiVOIdnZ2A4zfQytAp/poi/dqLplD3hilE0Wh1eqlmYRdjmgu1kAy2lKvu6SYbtsSH8vsrQ2I4gDeHH9N3wgu5uvykrPeOhS5Ibib2ZgmwBdeDPWtPQxUmv3gs/afdAtbpDh6zNdxA4gWsAwl7IPRWz7VETRirk4z0Ok4KOr+rCLbU4G0gFjbnpOsPoUc9GkHDLJNMc6jSSbOYwLT0QHromkWaKHn0HE3PXyUALGv1SaoGArv1svglka9RLfdRkBPzjz6OxqFa7VCioJEoZ209OwOyjpbQZjvsAXSUKLpL3DpiOsOYOCrJojPa4gQiLo34iJIj6Or3SfaKZuN+LdOzGqC4lxYf63G6seIqF3FS8GfcSqtdUSfotrb42keWCyhyUjAHWREN47xnLIhVgqT4weFiXPqJhd1Cse2b3piiq7VD4EbqMM6jScrnrldV7y0OZ/HAjwNmA5gMj43CuwVEWvBCJwRiRIagL4S6dBIbFpgo931ps9PvhFW9lJPEKbClDovHAm1I/Gr5EoBKruOeIWF1XKAa5sw78+t+eATmdtMeheY/CVh5xsB2BHSc2Z5pWC77Qm1VajES4H1hPT4VU2YgAyeYOXEvDKxaIY3D5aNeHLUbAymOKkvkTBlvqLEEuSaRNB/ZSohIZQFIuh0y5sVtmrOyAbtpZ5+YFDnNvH/gaAxXKlyJjjnZrxVOTm30ZaGpsTSFrFF1E1iXMyVZycZ7fQB3TyrX5RG/HZSi1eB3Ts93T8s3oPyfrrPUevRf1XU4J1liOCLg/qpXfrZ+HIDyeKhB6hVfA9roB28yHerXgeojFFAa+VO0b1ZkHUkTL3HsaYfQQu4T7OPtVnu/vYwvfXudKOyOdi9vCCL1X00V7/xOVwM2ifDrW5HW4soBpe5S7KA8jzOQWpRy77eoNrXC5fm7vGUmLjTMiao73tkGnsKEfnvqUIRIAVkiIzuJ9DKqXrjuJGpxW4dp2CrefRYQlEEGwHFOUk0lRb3iG8HAXf/5/DnnnkyBa0mQZ1v3l6X79dYqlJGnxx8CwNyDl6TWHQoNy7+1BukT5I7bGRJPEqTwAYgMmavrfy5c0EWd90lSDUisv9JvFS5gGzoUvzvbaj3afj/s/mUHSQ3UssVZd5BfqqzpUT+xTNs96hoZknrxlZ7tA2x0XaQGZxi4In8RbEzutel+hTgVjfFa3xS4HXoEo0HgQlNQPQOVeVObTVwWBt+a+XtV6PW0Nd4CW0lQylCFQZ1wvCDFEp8daT71e5RTdA8uUxuWl3RihrGdMm7V0BH/IFTPuux6hdGlTxzSAJSWaOEoNBJs65z3qnz7AgmpTzfrizu9zljgLVxaUdFMw5j2c8zSByV3kiiIm3YZMprt081amfGfcLSbobHkvXvk5O9NF+GFGOtCAqA6F3aE/h2w4sJDEsMdyi8gx+J5EBUvkOvQzwpOd8SVWLf7jAciqNopVRhjcWUcyRa3MdLN8nlbaqAcMVbCfy0gI2NQREGtF1OKqNGUNPXkH0yyNyYjEex7jpnNl5FjTfOLIgx7QMGmFVxhs3JqhLxUDfwKDPh0HX90iC93KLvFayla9OLJBHzoiXY7/g9moFbInA/vC8mKkJwKw+DMEc/0kyd1VLuN6ZwrkIbTay/8sccKNTqmsIu2Of9EztqP0aEvPYTxZI3wcrHWq0AWXLtx3rJ+KIZxInT/A/T2oYiO/ZLX89JYteL5KBPPrk+Zg5b6mlB2MI39u8pF2xDkS6PBm2pSVJkdE0nEdDFiO3BWFIKpC85oBJiJApW5bDwTjbRRh9btQJi/v5IBVPskLHPIziKRtVaQYpVrSWJ38cL5sXJi26mDVHYaQYHBSSNjaFbmsu/2ZOaqW0PkBsgIJFFkJP388/AdQ0UGSYqjLIkNJQksRPsra7+mJioCi04LsthM3EiMs2Vu0YTo3LRrDomwrRW3yoqRHEUa/g97uElK5Iw0vZT5D+OWZH2dsiqp/lYc0hVr6UEyr3qFAe9qHIvTFJwlPpavP+s1RKFpIeBxOqYV27/W0avfKnmTKXPIyCKEHRoEZJUkObF7Q79e9WMs9Cv9NvUaZ3lTolNJGhQm5S5lsg7Qj5cdIMn0dDBUH4s8Qt23TP+w0ZLfp8eqBqiUYzZYo8fXfORGnbNgT+/n1+0oBebRzdVjbbuHOu2178pGRzW6Dg24/x1RJ7JZikvnOLzawrCF4Ur+LUSEyyBrLb8RnNe+0z5fv2i8qAcBiSgianiqKQPIdJUDPty9BxOooiAtsxhwQv16xNdJcjpONkKJUae4vtqnUSyYKxJxDkHzLAO/bKyxHTmt2OYuMw/TLaGRbLGRPM8aPuw/WKGUYCYa7Vnk5yKbLFY2xjAyzyrEsZ7+amktflW8KOsSA0Y2SwRhMJMxicnF3J3VDUOCz9MW+tuiP0BpHxdRwBKbGlZuQv1ZSuv5Tm06vHZH4p2ESZxjLb/BttcuGMm/UA1nCc6htxkYbtF33N51PiZFUmw+u2K0s9la7vmMZFXyp1aBgKpSs/OnMjjqUeQtDLWeEycfoIbxeiwCLsmHv80syKgoQi4TeqP6RVKE1FIl1EGbAdiMj8VnbkimisDKE7CbTsOrDl7RKRK3TYeXlydjfTEnrnuZGoEKTJ4aG+m30NEiW0w7xUN1g+KrOQirSaXL51qKPsvH0uiFcgy5nVUmhatsysit3k0PvOMXiaYol/IiEwf84fqGjSfbTKu9aEn9p1Sn5QP6gUYnjJZ5y3LwH7jVHyB+89U9kPZHh4EVIwaMgENZ/ECYPeBZZOWbNk8688RH8xRp/q/JQ/fIp9BcbWBYyuAUyAProJjfAdx9yG93cZE07pjW9WvVakOj/n4Q9ZHAmGEMd2RCiOK5Y2ORWalE9IlDjkJGbspqV5+KsOe6FLjR5onk/jRTSqOoHZFySmkrp+wFEDVkn8bSdmQ9WIG+YcbMv3b8Zx1JIYVt1yBVzaheCzmjXHCeBHq8XVCQ/fFgU4oYwLSuEUTO+VGpd0oEYo7UlbBDu7YKzyvhl0mLQM0GFy2D9kQRbhDWW1bENCrRb4mH3IYavW3q0elHFxcuZVdgmAiNWJhoG6o4O3Fn/ZU/Eenr6cH3t/4wFHsf6fBd09liuHEwHzKNYASAxfQTXJ52wVL+d3IrUUUU/7xFHt6GymYafucyL5I9NqEKGw6PbXEnXB14eZPk1Oz5AfH2p/yh4wBtLQN4O3JT8+/bBz12/fJnDnfRX2KqpTNw1CoxnJvhIYXN5XubOSyTnvH+2rkrlUhz1ZlXhRCPOlB5b0+8JHIyNK/nOh7DeqfHfwG/x4/Lz9L2ppiLgUeQ+SBNWMHMmBfbzA4lSyd/ErxstCPfrHeuRyzn6pPvPaUOkAophaMvxQl8Llt+L3BrKgo2owoGsYBF8Pjq+Tkob97yZnHgFXqOy80wqSwKFPOLjcLWFxiJR2hzMN8b1zVvrxuJGjwZvS84qrfyhEURo18lKyWT38urKnUyXlo9zBTtUVEkTS2FwP7WU59DEXqogD4bJaA2F5y2P1biDk3cXUcELZB/QT54nhohM90WFcMr2Xe4fp0/4oxETmUlv8Aic0jtusUZCYVsendtBCZAwZfaHjwlatpPmAlBs4QPUc2oLLoa03p0G2wT2bERx1ksYCmtO1s/hEB2/InJEh/Lcbv1D+PeUJGrPS2T1dg1WZAUJ8bYML+tfnkziCrgQsppMYbvgEzk+thz1zIiPMkVitUTKEv3fbML7skY38cLjFNJtI7ain5iL6NDrMjJEC6AVjUtk9dfH/LyA44ZVLF5PncQBHR8fS3w8llfVTs8ahfENsZm4nSBeGlNvcwDfXbY/uIia5Dt79T8vC2tu4phONv0IHAmnBxT8bbyFF0+BYX2/5/ri4esdpAbPRV/nVWyw4+W+HsuvN2dj9OZDKvA0wth57Ika/8FIG+ywzWKL2rVqFm8JTWr6X52ERF7Ixk6/JtczGc+FQ+4vmiYV7MzClHaPjsuR+img1J5/qUW/kHAgzWWRU1WfW2GQVo3Cxa5KBNuyJ/24awD+K7oDZPrtPST3cyLTIy2luTYFYVJJORnj2GCXZM7lf4HrcQ/X9ZqRgVL85p2GQoaaSRGfwAKZdhPghoVO2hdZB8HUuGIbZBwQRP3X2GHzpfVi45mPC+JB7vUFoUojf5v/UnkI6wbAcZL5fRkCgz5f9+OQLcxRDdboo2xZVhFvjXenPSYN6kH3KbOb8gd3UNe1vL+6sJGH0+1tXWzUOZI8rlmAmR5KHrg6Ka+lgSngeIBZo4x2yi94BeGnKECqXGuwHDKmho9grqGhvvxH44oi6LcNmWnRsWioP4T/vwHrSrni1ZjYAeoQJ/nqEFnDVNNwdvZOqwlfdDCcG5EfqXhe6LiudrCnHowalAlwUZ7xQcDqXdZVkTMAT4Vp944y3lTPyShi5JkE/5Y7BBJhaG+sZxqEM1yDOoC8jbvKnIefCITYKIz2J5UuwRfEr2+yCao4OAp8CcubHQmQGC8rc3tfHmTZkXOX4Ob0u0gxLMEzMXsWT2hkUkmJ/6lIMG3+0qoXFOsuANeA4o+UdAt0MtIdPjJ4UDYNdbbJl+ZDmQYkhcmjOa8GemWA5hT8xLEYpHCrfD+SpsQL6w77Y0E99IPk0VJAzBuzMGAPEjao/tBSCyjN6ZR/mUtRDFS7+PIdXFZvqogG/P7BC9PErKW14ra/enBwNpLRhWzNrBDS5tnCCO4Xld+g/yUct+fE6ETcMQ8t39Jz9Q+JS1sDRnvRZk/LR4Syz93kNLmaErKn4T3FL2li9Z4uwO1OsUc+jeZHQSUG9vVBJin58DHnOZtKsW0bM+48Kk5AhiF08e8PNtCW425SgCYEgPJGqBkZvVGTLqI+hM/Kn8PNCetYF78XyIhfohgkJOfKVkC11C3ztY/upaeg60E9j1Nw9IW+54r7n+lFeFqmey480pG5Xztd/E9c4hfw8j0NJa9B54PrqPoYNoaF9ukW8mwUinJ7GSIEzwUbz3NiXtnb+Hiut1U+wsEPWsuQo+Uv4sz3OhrrcvO3xXP4+I/txmsEQApq/rapkGgOswrTMq+3fAHJLMgoqxpwmPeUbk6fJS/w8ECRCMlYGrtTI7mYki6KnHzJfTenq3fsZMjW3Inw04xqTIYov8/PcB181JT10J1Rjkbi88JoMgj7JZUIGsMOQ4YWQd/9jZs0t1lObti2wzuVsIIOtBd48Rajd/gO0zBp+r5xRfA97fH3dd1Xr87GOwOVJjpcuUtPdvRv+4puDzoVr9vV4NEmIqmpxy0xqbtULlIfCHWVB0s41GpRxaQHIbwXoa+isP4WSoKg529SxluOmBTcG6WDgyHHWUPI7h0QxBZ+Cdvxj8G30o5vLq8mWQzRse31UgvDgxUGtUOgXYFU2Sx3119h2nq9ooGgdlrLz+LStPqpu2s+BctxkDgO3tXu51dRRv8NeKKXQA9v5xLWHUJIUhzOPOp6gA2Y7OdhS1GTTTRMnSLK58fIY6y9J0WIynOiPnT/J69R9VbUExyIzdUNUDARIi8fmKM6e+O6xuMA7YdxmwGPJgkrWAKg8KEQzTvYszb6cE86WLRJS78dc2Q7VpllhPTOFojGNWKtR3MZoaaAkL6116GMaUnSICfQbw9457ledotgxVfVV9zGCy7koVMxuOq6b7oAoLSickhzBSMQhhQHSo7jlLz+usOphpvP+Tk4Yl0ruyPkEPf4eidtQOy6wb4orT9BYeAGp2Z0jByZgHXHaUYPqFbvi8amMagLo8meqImzktbccV+tRN+E0vmARBzobYJAyB5LxI/4yT0HKkudGfecTogi+WIiOnL5OfGa/1ClElAhIN8P1nqp1YTXHEYSIVzY/+T3tjHxBbnCeUklEKtLXdvN6Ir+H8uSdk4IJqkut9xq4TawXKISxYqNn4MykpmvpopG4Tf6DttM0rnFFSGfUgyH6c2V9bORre8K0dbK6LKYoliHozcjiKdhaQs+EwSBMGngaL56tZjEncv4iIAffdmlXrqolQQlT66SRickZ8tkJCVh2k1wNTJUt0uDynmDWWsvEIiEDqV5QfF4NWPd0s30HPnAyuwsr7pF4o+UR5G/lSt5j28/iVMiiBrWD0DE47KifxhGW43g+6yLlVZ2rYjLQrHaqZvjC2vFpLYCocXjz9idDXPgF5olk0/vuVVIDPUrzMdG/AQ9s/Lhz1h2n6TwYvt/1IHDodl9+XQZ+TDMihkDFk6ztqEEHRuR22oL/f8HhAeBfUzy8sVdEG3BD0ZDPJxaLhnwQyDmfOlD/wX+ff+zHStE/eXocrKCygikAsWizgDf3yVUlZOcifkrkO8Fo3xRHLLlOpgPxjtv5hwYDnhdBoa57O3n6jrRqZWQ4/RDLS0UJTRrC1EzHKhio6mvkSQpovA02yQrS0JNDkO5J/m6IXO3erJocG7mdj12u25K1ihx9XZbz8wSEm88AHce6YtciwhdWzSI9sO8QpxlVpkbPn1kD2GmHFYvX7JTylVLf2X+DH9U9gQrjSWt34rejyzn6TuMRBqfniXq5oZNXfwvYglsoP/tWNbbJgiEY3UeaJPqsJaUcqhIrD4yjC/RoPH3dtJ65BKQqytX2v7Mr/kZ6AEHMml6KoqfnawVHUEhF635Up5bRUFoj81mCPGz0ke3uRXZ8icyLagnSFpXOlkEUtItt9seP8ugWEX8Mbxqut/LFEDQmJgnfBM6wZc30Rq9pPncJsjZqJtOTp6dRPvcx245VeJD3GPZ4QlVZC3AuawpIBFyo0ndEFIFIRJSbxY3ulJcYZE1PSLdyk0QYRrCkLC4lYdbgsBiinR8sg7H7+ZBr9YuG4H1/TEMSOBllUM4rjqWHyIkivWpPkKcCHnWCebVALfUnIq4R2sJ8qagHXBRKEvOqzl4vHfBoSlNKsco0o5lRLlFTrBZOdPBiZuOG6aSfK6yicZO7rSJYTek1fJukMJmDMDgny8iU3UzMmmM/GXT7nBsZeusDqcUY2p1YC2yJjImya0PBkxWhNs3vtPvr/QDxlJxhH1w1OTczbtgbcLKElg9alHJ49VNwd1pzK6LwuxGmZV75dY2b41zPyu9mGDouoX34RICmvx3BwPvHthrszeBh7nL4ZWHvKJEqCssBGtJQm7T8D7eKIiywCNPds+QLFgTJLX7oyT5Ked6UoGJhA+TgRBoD1+66zRwpio50SiF+3MSzJeF7ONVQEvGjc28Mq6+6V9a10P+ZwsGbyfOHjFg1yRRckEzcpOzNfXSB2PROWHMCTpI9JQohnwjSS4tzn6JAJ8FzK4QENUOl+yd3wFIuJuIdgOetIo6hLV+9+HvmWMX4atNYvM0mL0VJZx5VCpML741CKs6TaOU/L4as28HSkWK1gHhW0MJ0bKYvP+vqwIFs9mdObfodt8yOdMTUtF18g8piTCpKq4j4pQ5EzjUV8H4YYBxKZjiX0PO9QG3QxGjbQmoUVMS8UllJ4UYlbhalsBd2qxNylKmgqfiUkO0+X0U6b2P0v9y9T864BbiQa2iVg+Z5VxolBWtj4Y8DU5gmXsmx6tofuZYwIaGyxVGTvsu99PcUkoTWH5EJk5J6FCbx4oOcwkjJ1LzpmlWg/QbV3W/FzfN4RYIN8NPG2nM+2US/F2IfjSRdfMjaibRCrHC/EOfwL/Mitck1Qy6FdUGoszYGXTZ6TBJsSkNB+bp6n02U9bRo2wM1QmW2jfu8Xswvk8WjfBjidHqkla+PtoBCPR60BlpRGEimedntFEaHo04Z+jVM0HynkfVC8TcE7uovrnXTbsVPjO5IXf9m8dkAi86MCSLUNrkqmOqwouHB5kI58sJ0/QcrERFCcVlEiBfnTYMtXREShgYzYyN7UTHKA343TxJU4RlmfmHMKyU+Lahe6yn1nzur36z2752qSzAo9kCJDC15BDTtlN6543SX7gFIgcyP9voaeXofJyqEjHeM5zyrIMCjrhfZSUqbs/PWWuznDgYPnLYzn+xi4GBuZywTM0lPJkVEc3B0CKILpKVdc/R7olIxSwLOhVqKbvUb1vanHWFnayBup59cTDUn5h0eGtcHgdFhH4fCv8VZ9S+PUWqAwyjypTRTTKO8z6TUp2xbJ01xG77kv3X0vQUl+QXUW1qOYPR2B0ZVQowKasm+8eO5HHsHsivGkrx18dJ789A5pDIMo9ZGTyqumRBJ5UBldnq22QGl9wf3NxNl4qf05YgRN8VE7++CKWXfbADjJHM4S46cDb8zIS6N8wKpgnUy7Oj94lx1duZqapvWrtL84RXQjix9g5yODUiy/1GdaDd01cDGDEzwWwOIINEBqsU0T96+mZPRJCg/4J1gE3w4d7NJaa9sXgFAMkDkytnppwI5ay8S6dwzKbVKVz3oixPiT24kwfW7KvgqXPgRAE79uizCSyfgt66wHYUvRRiSl5N/g96/92yfZwy/javHDBThncORJrRFvF23z+2+X6ISxZp3jP3L8pkAeyBQMXogS+4M6duPQEpX6dO44AAcdXXmmqtV+YAnOLYwVdo7fs99JKI9vhA0hF0malVEYeJx6JJl60HP8nPGT0c0PHv9zLyExkZrI2n58HFtC5nmQFX59JFaJIWzmPNfix+GaCRncsaQAMZduy+5xQDgijnwmlRW+nkb6GfFJzs+0OSEBuOo6g10wjRU+eDuiI8tGycJ/SUnTeEvNot2bD7mjcgbVVmavZKGNti0BpdWzNXCp+MnspAswidE0ZB8DatXZRKqqmCl8m1LyvSIh/Arzy4c/p3RUReY3bn7v5HbUWdNflPzu+0LRoxSmHau7F/RXkvyu2LCg6T90Y6AIZ0cBQSz9La2UuIYBnPHo1+cQqtMbxxbkdgsw+v3eYuuBkHPF4UrRDmE7a1idTQ4AjC0Oe5R+BZGyD3SxG59tw9+hEyCEiy/BlJnqT4Ko7AU5+3N/SdJUOSoGm3XDVrBaMGaaH+43S+nNrrWmDadlQ35QG2gQ1J6RbaLFWsSte9yVy/gh9wM6B53yM5YTucKrAjcmSr9vn2HvttZqMmt0n9H9H2VKnzWWlMSLtpmNbgEqtTe2/7kmzBvhki2CQ6d5Ed7kHNjLCUPVl30hMN6poq5ofPv+JkqAHMV0ObmPbErpG5dHLUlKpMFmDL2Zof3PkkUepo5KtB1hEXz9K8jjx+3yCDQD0LEYVb1g4VJ8Q2DsuRR9MaZNTLJLAbpYCqly4p9MLoAM0WynJfFGw9gy87870/HgC7OQzaJDTtIVbocn/mWfhIAP/RzwUZvETuPyDkkfEkqA432mdJYcmBMg/B+EGIep6QScsPE1J6D+R8A+KV1Yur4v7OWitmdDswpMqWYJBfSuk7wZD7aFrTt0zBjHw2V4w//I1eOpF1wblR34pPzf/4F/P6BpPU07PVs4eJhDIi4YDeFZiOhgPGj6xFCMBhIltEr4NBWIoh11CdobkOAlArfQSBpMDho1si+LbmENlWrqWGg9mmZ8GppiYZaKgPkPqlOYU+sia7IACUoQkQI1hFfqFPZ7Mut9YpwYrm1FAK+TKmmBHp3grUxFp3pB4yVyNPeF+DYqakeia+xtQFCX067HMDUI9NFJ1n1Fqps6ByWaHFja1HkZCeyHB2JPDJ23Zx1NWYPqniLTo4551FWT/2UNNohKfmmbuHGVvbWusWcg0fjxRzi0q11gIxxNwe2dLF9uvUA8mM2pQepy41AEVSA/wVhaahFj3ygFG/1StrjC5iuTC4WbLLU8+nglXCdcdWCNL7w/cOaz6A/dYffNVwnKGSBYGaDIq2u6z++4eRZb6PXGPCXY5r6jXezcQseNT6ase7dqyOnEnk97i6NSwWWU1BT/prTPzd+zj2Frg2JVXBXKeppuUZwbBdiU2h4Y5wJdE5xUNNywyh2s8QzyPYhMqi0WfW6/VrC9ScpI8sbVC/2ThPQJFx5hzp05Zn7W6eAIG8PeKJz7sbB2yqEoQoJKLHkNz+9Ie5RjFA1nzT+KkL3WaFlOeYMw8ZN+rTaB8F8gOaE1d5LjVvCpev8hMof3V0D6cBCsaVQAnGlQORZPDamqYwYBHWUen2hlm4sciUbb3X8mdZyp7v3JPZlgq47ysRk4WXaAs0jS/kSgw4K3Z/MAZynhR6bIIx8+qUt/hSCcmUGTo44zzyg93CvTECzoO8ikjlYoJnkHyA0AkRJrqMS4CDvHtlWVh17KNJvO86S8Kdt1QCG0cMqfgdoiMM4P+U9Pxic+SyBKUbR7WutyeDvFykP8LiIB3z14fQPUYH0ZZC/6cz2QZ5tNh41DgB7a/t4qBo500AY+XJrqEUcysknL8JeKpCPWb5cCrZRaMlcEs+i7Dw1DnNQMh8luoFRYIcBBnrpOKSs3rjRKLB94dbjBVFuwjpWa8rSumlKbComgDfU+cGcBKMez5quuyFpyjZl/R1O24khyr2urZV99MKkhLsE5uETtRvWr95CWlXxE/mJJRFMZfPAuo98KBQ96Rc/Zj8yZwWCRB3ll7oV84Yhxd+J+K+lQFxwrHezidjZo6osFBjX5yVPlLuE+pjYxNwycOXA31P9QsHUoxP+8jogDKFGE1Js1pFPdzcXStjMfRR4JQnwdyxvRybUgVdGKxCNr+FvdPr6t7Oy4s53OR39E+gmT73w28Hp9LYBvlbCx5s5aTefG6SgMsPXIiwHqDGJcaiH5h3w6I5dYLBIKjwXahjvRmIvK78JRYUWAOn3qfMKkvGN61f5JKmWT0lQC+XYnqhegbcgPf50FyfDSuLT9QZi4Mdy3czlyaZaSc9hkqWpfNoQZRwTMeXAczPyyegrIp+9E4/xlnM1XDuIUsCT51fmHbdC+2BfmrN9oHpRCd8Do91yvaB7KZQIWcix3HRg1rorvm8Tw3PPI3ElQaujU4fcu45/RoLhAojGsXpkUoCCfO69t2J4PdUjwlk/ZJaXd19Kzi0kHTAM7KxqaeMGe+u2lVtDi4eDP3wZzKzGg/Fc8AN125rfW1t0plvbP9IZXEbtsq/TUiweNiIOMBw2tumcrc8Zu34P0xQ8TTlOYA5tR1w6ZrVdTVjcjMIBr6a2jYTugFdfJZaKptVgab7zHENHZ7RRKkBeYcTGBckScf60H4ShFhSpmBtRNV2hl/DdTUi3jbP0eB+ELSTUIvXPthFXzK9+tkpQXRQIy2HH4XJ6vLAUfzStG9Ytocu2YSRE6bg6mGRkXDHVL+/2NDvQ5Yc0N5h37g9CeU84/w3U+WO57QcL93k+kiu5f2KmmVYFI8IMP3AVm055FTj0TYYOozEb9xwVaC0dpIHN9h34wqW3DpCbSuPVqXJnbczsebPV4kENM5G2UbZDkqDUAIZ25kfTiWRh1vqhqoz4Q3kTAi5VOTOpsh+sn9NPTJq+LcJy5XNtZM3fXhA1k1gm+8U+tJTk7QRsnr3lOukJZ/S0EAayDG/CqF3ttPlmjRx7nzHppbnXnKpnZYfEdyL1vUAAZf05n8T3WV3Yl7DdV2HQ6/WECMpmaQeT+JpcLIxXvbZ+VPBXEZxo7+i0dcX13dk8qQtW6K96vAsFdswHexwDAbLxRLnY8qAHw+CUQJpnBiWMcBIQYvnFAYzIOKHsVwXwGUDgRV/uKrnL4wGBU4YGTl0e/pyt+eNHio4W5h38c2NPhfVVEqqh6L8o9ZUVmEZaSWuFeh18AK3pCHTGCXp8QMTgwWmc74RWHHYNb3ARLNo7C/hAVfmZGpcM5b5ZVA1A0A1+POtAziIas6KemDnOWJpXNbTt45dbxpE7zzlJgdK6eFHnW/Za6A6gvoJLGp4XDagQHxGw6FEyWCc1fPuRAwQdpo4mPMF7qkvxPRO0vzaEY0Kkd3dml6tx0G9dEwtSAdpjCfpjsbgTXUC+MnlczkdihMcv9QK3vcyTXChIqUAJdknKyi92GQEEJ2vhI5/Gz/XDhQ5O3xp0y8ciEwYrFhmrVfH/GEzW7AgJnLMSv7G0IlRo08BXRJa/kmVVgB7AdmDxdeVM+RawDRhdnm8kWLooeNt2msJXpR5wg2GEMEPkqQ/QfCbVzD1lNEHUf170l8Y9slVBWJ5jBriXjxtfcdIlJnP90r7f3nhN4RhflPrGcLw9iCYOWdlUpYrm99eEXjxbKEZWyS/SdxdsnRTUC1VEjThr+Ye3UVVpyLW9YFSllMWU2Vp3lNxygrii6t4oE5DRqKMmeYrLeTU2lvZ0dAxdkb0BthcQcpS4IDE/sLkb8/GoFZ3fO6igrG46VNzAWVEHHMATYyivh9K3JUsLU0mgw1Ompg07xnPVY1GOVoZSHKnHR6qJ633veJxFwMTaKtYhsEwglOOY5ctpMo9SJ/5nP8GDwF5BS4UtQ2dpqdLabtKi8t94gFJjzjbsyhdU53JlZ72E3dPRKq3Hx2o2HsqVTIbOrtwcVQXKIu4zFRTC+2Eb+qpYro1za6YvUtwI9W5IeWdYIcNlU3TMLeb8l3iUZuC4q2x1o/jjgodVk6BzSNo+E8bqpPWcygGfVDe3Uzfc4ahsdgJ0OvlhQwD7tcBjr5ceMG9bNoiJJgrzWBUGziUtXiixnNA16gqPzLe8P65m7TR6LLtkJ5xSgw5e5iKoi19CIlfLbXrKtH4U9Gs/X8AprhLGXfRRNkYTm8BDnX/FIgVRNaFKoxKqr3UOHLQfHLZeuehIk4zq0dsfRoRz+FjWzDTuqQM+Iyo6AtD3kFQlHDbSdTysSJiqJWlm4KZ10Wx+pu4KWOhNcAIK3IoV8EsnD5QQ9n8pG7PTslGzl8x0wbjvWhGIrZ/wepy3+Fo4i8W96sj5FBBfaN4sRkY7N7zYxhqDrVjaMFxkbLqCwot7dkra3QMG75s5syyEJb6O2O4jIFuYeAJhzCyrj7ykonZRaF5USyoS5+EoD/Bhtnm4Klxk8ZQTzNr92vvhS1qwFezZj+LqJ34/O4QxbbXHPIx4aZ6qTJ+OpHPTcKVQx6YdYS82PHb7NIiC6rUGlSoB54DGA4CjpZqe7XiNc34hlahFe4+wjzT94SGPRCAg8hahkCz/tkfJW9oK3yNQR1fhxnERxGdVq7/FcOfBRzFOSlsG1JmDzIA2TKt6RKhG3QGEU1uNbkZMrADeqhS6lRaCRGd1QSA41wRUxyqqDi/7AsBkRWSmsy8EPU29YkUnA8j58zKh9DM49o/x89c2u/aMx9E2wkS8xNJA3+3oatO3lRgQHcc1PgbpvqaD9cFIRTjUvAn5+JK4y6hvryzeMtuXA5XqV86uJXj27iUOMjQDNN2j4gkA+5aFSTfmMm5lrmHBGYz/axeQ+/vMCfH7mTu7EUWQKUs2qE8nue683FGlhjI+N9Hy8ezERbZCFbD3tRAfc0AORYfUqkY2YTKmoCEcpv7WKqAb73aIxuWrNGa5rm97819dNw/PwGTpjzNgkLUJIwiGb619IH27WFLgkU3UE0alvg20e6xwZKZzElLYNrdLZDjjcWlWdlChzgndhv0GKuim1Q7slkrY6TSANXynT+3awPJG26HB/bVgzn9QPkeZ4p34mnomvUh5jpVzoTCDHZNdU+UvHoBvUj/hn8/XKe1sBE+chF/pX9KB/EAQnj3TuoMPG18p4RFygutsjI4uCCMJE2CRqTHOasqYEpLR+0NZdKGlUMW0X/0ZP6JbG3QAspP7JohX/+zJ3QSgMbiQD68I/4c3cMQ34Hx/pl+PWeKE8kmue0KOwLz6VFABZHqhdF7qKKO/91VP96wqdQ4eHGaQyVJ8aiSAzISAlCcNKZS1VsE1ET0evf3Q0TyQPewX8y9vDJQ7zGgeLeXRm78Yh1QluJSPVAnJYQPUI8XwWLRMAGjrboGZeJoFZNHht6hM4iy+NEGbaFtBY6q+v8xZNfCPZ8oE1VWOoUJc8PDhBmYVtN/R7B6JSU2BGVU2HK9B17s4JLBVV4xCt5qgUOlaK0ELUXVt6MPzpPPGjfuy+LQXgMs1saSUg+X5u6RnrsqDgm0oOQOmL9OIfTDLWN9Pvu4FOdYBm8oO8rdBVIbzg4/N1lxhV0E4XkXLI1JDcoJ4G1EzfiaYIESNcfVXPMuWjVhHdfG/lqEONIPl08t71YNkiSiew2JfepkqlVX0HNzMEAmhhKDnH9BakTwp0CA1zuneJ7C0Sw6lfrGfQvm+7NNWJzQAFKTxytEjGm7O4hXxWB4nMn+NCyEexyrnxUm5pbiJ9i7W4sD6Ckk5RWcv5e3NztRD5kx/kNpwT/FCeRDMmb/Ocmg8zD8imaw1Rkir498JaJ9vCe9uhuHzcxzPpBBj9WYRrSvplzEr5clJ8mmygMaf7sj7jntRmStm1/eNqjO0icCPYiff82fLE/bifzIYwKFPZBYC0MBSjNSLW1LFh86TeTxasrShukhD3arXBJJO4q28pln5alBIE8QlfYChUdukbe2Py5rwk4UHB17ENBki9xQrJ/eUmh6RmXYzpInl7Dsd2T+TnHCsykW3rDG5xwtnA1mfIDTpJoO3C0Cu/A8QruztvTOgQWCNehe6624zqD5tPHe2Txaoh4CLJmyMzSmsVT0ZKDQ0qjyqJ+It0gT/JI4ULlvKbICFwrjNwrxiCdqcSZw5tdb3ZDv1evQmloHdlrhpzmsXkhWuoEGww24Asr6B5OZzTYd0qKivTjv19xbLdJjIBuudYtuDTE+q6zQ/KJD+rXY7tIYX52RqHHncczSR7ejAOrUU/hsM/AuinlhtEHjR6kwzmFvmvbqHQIwgh7DrXC5hTzG4lktMwN95EkL6Syw0wWV85Qm/Qsra06XZtx2AFICTNn3bNvBDpRQ7/qsEBEQAGPgouGIvLtNKzdFPWhtzfdZRfSoHobP2RoHu5chWC7qomviQOHzsp/+W21iTda1pDfQQva17uvvD3+JCP8GBN09203nhJHicNEmhg95GodIhAUsA+VMG9dGVP30Mcdy3H6b/moduhz9Xc9BAYHkARCNSCt/eOekIvYOjbpDE8v4Wd8irgUXsa8/rh73+CtVjuMCFsjgsoW7eb3kP+8HZIyuM8sl2dC1L8qy/QozCa+uZIScxzzRYn6HsXx1j13sCServ3UCiZkCYazJ9neD1X/kgzWSfYs0pivq+PNQuAOZKAI0W+fqVPTFN1fqISR4rUAKPTRSFIFHyJYBNu+gHGj8lO2xox7PRj5J+ILoHWxhqwxuUg7MtNERhf5c2O5MCTHNBXC2o0wC1MwiqodQD8VEU8qHrLo77X34aPMEFTbUNKFcLSbt+ulmUUnVB6/k59GVUIeToc7KNga54SZmZBRIejuasmn2sVkcZhKp6JcozJWd0NxIC9JSMp5APCSz8O7X/g/OMxV9vWmK7xbv+RXjQljxlzYYyUeG5cpEkfgocw9So/wfTphRXcIrQLZVyFpMLuZOokZhRTg/OV7PNcmoQqnvpmpw3pkl77af7lcGOJ5GEApEKyo2c7M9x8/6n8v8hOAQFxevrzZbRL6pXsOgmym2j5Xn/ZVyyxxls8tYOQnLqcZq1VkmlA4ZAWYaRvnbwagCRXNU5rWBjnWjt2VLbQbx7PKI/8GSTaxB6/p8vULjJZanrAf1B1pLK8w6skr28d6vrO8YB5KmC5i86OE8xjhap+KxN6/lMdcf8TgByBHPtZboD24aaz6PFPdli87Xo4xj/pbvoY6cXqQ13tJqWiFTmDdSFLmxxg1sTtTrsElCPh84KvGNnjnYPSo7isDBOkf1PN2y/gXfmlknexdNx7bUZxC3FGnj2kMB7suHbiNHUveS54jtmEO/vZ+n9PEXwxEGbEaFbQsVhXzrg/Zt+2LgDouyL+LPXuDsV2aiFtJk3OzIUvAkhVqetBPcuyNd3WYFU+Ql6cEUHR4cdv9a3P7iLViOgQMqoxYdJft4ZAVC9R+Vvnz2gg+CHFHORAoTQb5KVrbPYRSq8xrYJ23Sg42Y5GtoJWwl4lOz3085XwoLmmY/ca9zMrfmkR+ncqJbb8nwvjNRgArtVhOt4kJ6S3b4kCi9WLuW5jOdojJ5MxCMvrUU2yT//azzVyl1bAbRDVj/OkolJtQvOMe1OVUWn1Uh3PWm70nfcn0gIXFyv9u8jgV6rs6P90q4+KW73sPufnKtJAFXOTDAhxxxKj3jH6efnkOo+mhxMy0627MAT2/nAeb2rk283og90LGZ/43e32r+VVteiCdrX2MzbukK5ldCp2l+ELTF7owLrLfQfpLcuyx8K8r8i/CFQLtYuJ8fqkr5a0hMesam7b0Qujy0wvY8tEX4xQq4M9eghitIk3jA//fRRAMRls8YIjj7DeFDt3DtsRuUtwKnPCpyuQDTIe7wF1Iy85uoU5rhwEXNf92g8Kp++zQX5lADkUR/kQtaQBjlHVsRoj3YlShl4TNjyene+fML7LngM1HqBpkh2rJ3si46VdgrbLjqoJ+L82Ucll7wLiEVFRFvRneq2qCTIZqkm6yB+Qz1xyXMlfFl29ST00y4TGMSPEULW0ZXtAAY/wO09DpIuEgxoNhXjrJgmqV+GE2MKWc2BLMPfUATlNXyuRYj1G4tv+cNtTA2gMjaF4BvKrmylpoNf/BtxraUo9gwFlU61OOczpRv19QRYJhrW265lYphvU442sDfPN2CoYwscqUR6iWA/5s0t37DXZsAfaSV8p4hdmFo3JIXBsP6Xsj/inQTmMEsOmRBjRRaJt0EEgx11SlVz4MO5YxTI4G1vHjUoJ4iibt070U1+h0Dynl01Z8x3EHUpgzLS2oX/U91wtWOskmMfuhaIrnvSqPnSicEAK+DkVyLsieS3WqxPJjIOKZE0ZrmzbHDgfeQ9VeLfd+pyUiZYozIgPXfxKfXMMc4guvyNVkdjla83RwpYkOf0p0d7zXjxHJnNAZFAjsxxRYFYzFeAYfNEmemQc41qP4grqBCRMc8a4Hzkf2dskL6Wa+MK29L6YR8ismG1VxqZJeHGjc/37AfbHZ8EeLyPu/r2cVNGyW5JtydtQp3D63Wem9j8rtUg+vBK+Ljg/y7fljOEvPtaq7uHSS2EaAn6IvywbYEcdQ+2TibB7VvvrHQL4dpCXAzFETfKA/epSXcqF0VLTCnY973eP1VKCvhQcUWbTkB1EZpHWw2Mc6qGcTCTkVKcV/NEe4KljJ7LYbK5StMERu3jzqL4buVgPTFtxvh/jCb5NrdnhDczfHYo+1WOIOuk7s/ZT1ArlicOHAoqv5HhsWyCesvfCU6lG2sYSVn722Sp+BS/3Udp1+El8ONbSoUiLNaW5huCsvPEARjAGkxfF9umLx6ucjmieMvx4rjTqXZUpjBRDRodqg/bPptCDFzs6pMkspZDGDZ+pynuu3bjW63aA8MdnDsqNkqbthkfL0ii76FSVi+xViwBnPj9/o43iqwwp1Eu5GtkErDQmNjJvhUL1sLxkesAtT3UZ4efCq8ps5MJod8IrdLef8Cg3Zv3zuMdI7X8q0R3G7M1d+NWZIWxtuRM5loZH2PEpqyBaz8Tg0J8EUFZ0NBtHweZUs2/CdGT7cOybupMy6GHEhO+X4HBDqE5n/ISDFIGzPl5uND6CtDBZ95bPF4EiBNhaOPU4cVK40wPqGBsLrHJ9ZSh/C2OHBZ88kiahD5aEDkd+49wPXa1+5b4lXG+6i33lTrkepuUPoOFg+8+J5IhJYwiaa41VhiZ0DcB1WAzpawkXq/QMuXoDUc1AgcXLCDkIaNGHljvAwiY5iCFV9o3g27nIbJri1PEh9DpefuXEopaKhVhYyUOv9Z4tqd3iW9WPUrk+lrvaFMgjA6KtjUblazMT2KGnwWItbPntfhjgCD0H1JO8+HMI12uNPITSBAAcw/IT3QaTGQVwiKhNK5qTu7rABPbLJRuLjN6WrMVKczCrmYjSVtEznyt1TOys6fxeOdxzO6ALg6tjBwagOu6d98Gu6sXW3bTtt1XO5HhDv2977FZFuQaTAsObYMIMeSxP+9D8jitXCoN2dd1KEJwWGjQWj6+xbIXKJ1IttVZtqML8yMIHf/jZtX6ZMGrivYgcIJNxXeXESsN4R27eZkn4Mh1LvZnvN5HU81kJiyAbwwqCquOF0XqYed13Zk3tYbXer9Z4Emdkqj/AVM/GEnfe9QHmJf2JK9pkBwUiRpezrGYjkzCPY75HzFHtJTybT0UV0CNnWseyD2ETyhPZ8XP9V2VtZ9dY35HqXcAnbfcjrn4GMxEhfcJGvEngEA3rAKIe/RSv3s2uXCdjnWCteMIbeT28sTTh6CsWau8XKt18SVHU4j6HENbKdl7AUoL7rUcD7v8XuSZTBq2TDWHhr1tLiMD1FfBaqkHQK4G9JHUTWNESseDsHLSWscW2vqzlhRjkhTYcIBL6jBuyFQGhiCOPsvCg7u1ixnzIl8j7BPQgMQFqeVF4pdsFiNo5bY/RoiIOf/S9NbfSBPAsS5EbjTEMg4pKl7CvQbOKauA9/TdhAMPp2coId031VJlfEl6unQJ3i+2YSURd+XZv3Dwgp+4P1a4BzRsgVBPFIAVHMSIuraldllY+GfxFdNIh817ukxPLlQ+I+tLd9x/OKL5/y5iC7tNXTA3HPYb2e9Tu9J5xfJ3n8SiYyD5jtvG5aF4YBvFfWkNf4NF15DfmlEGQf0YFvI26aUVbxj4vqfDOKoIvfq/UR3LpzCiJrFzwaVL51ywWwVLfnJoZK/BnPJ0bUIpZaEejVG+1xxV3Ir0VAe3dXSZ6AOSPugQsiz9t6LxS4V4+hOR53/Aumv4oMbHc61Ngnz+ihcp3K3Q2W2nntVkIVYMccayYw9mqVZ/MKxQikKy+9MYEqprbkAJHaPbKwls6K0o1ws9M0AZCNECEzDee6Twffjep9oMXWsbDlVxtb9UUTFGRa61z8VAF2KwIMwq+WNv5K4lQgauuyn2LXzqI/IBE0N+BC7W/5Gsh92LkR6DY/QsHK3NPxyCM9T1F7nY3Y5KCq8wTWEZPINUVhNtYIkL+nepdsD4TVMy03yWqAkD0KoqrhuIS6YTbdaWvbW5zGkrwjr8W4dfhC+ta2hJRjmJNIeDjNuxg0w9tnlvM6CVawb3xRHhs5SOrJDCWiesrnkvxZMKOJhd9vQzgREN3rs0mqo73YG3pJeRNi18/FiTP2vG4Mq7klgbbwadZpNtxHemvUM1LFY9caTkT+LeP7xMrskEYXKJyhiSoN6/gSUfpfnRhn6h8DVY3K31OPn8DSbIzQLNRFOZpy2TSxeWJMQM+zDTdg52QzVQF8cGjhUO5UYbRO0gO9Be/vZUxOb8kDBONYihDml4eI8En0Z8hpqGIng4ICPW0AZBsn2de9UN9FgDKr7O0DeS7vU7AD2DkQj2T8wgGcCzFGB255hEQZvelUxMBuKqiom0PVcSJf3AH637O4R0sKpUTqKQWQUK9jX52e4Z04lx9srDBGsmoZ0Uvbu4zaLqvIWndsJcGc9d01CpS4CA8aD2li4OAK8jVP2hercsNo0YFlh2Hvt9DDUSiRX/7eSeab2e99cVWfA+1J2W3+scBjZ92BIL8VOZsscOh+I16JHE7uKn2ckhupN3uWe1U76z8Qo10LZSn8Ii+uvJIJo9whPwMIfKribKcaAMPzv/w81838/Eap1SWiUuIhFiEZWq3sLirQ3Kv9b5JRMyum2H+GYRtiOk4leWWZAjxg/m4a6jCFzCR+9nPfSHj/uyBSVjZ2o1JibCWZ9gn4JtHyKlWgmnmH3U8BKM4UVtg39Q3Mrg6sIWDrr+hXnGrn8g3YWHY2wUaL8M+ehk5CWtUEdgRil6vpTZGwTpgvsXSwd1iniRna22O1qrWzabPGKFQcYqnNoJJGZPz4vwFGr80mNApyW4Y+hoXlFsJ2WM8HNCO2cEwLlWjBXQ+44Yx9r6fDPPgijWaadLxvkVG5JeMCXh/y9g0HH3zbqkIq32VSGrARldV4pQGAPp+Iwf/hy7iQhme2RwkOFmFPy6hTtq9WJ4qGZCCmI0GZVQ8amRbDVg/GLW9bEzrW5zwxrmb4VivIhspt9YbqsnRuhLmDXtAu09xztlKjNCu+r6FtLwuxj+PgOM0LQRtKFQfzb9y46d6yo0ABpkUedgrajSwHP4l9BK1DUG7SR8uK5oUaJPPSYP3fc6QNcw4slXydEuX4sAP6k8UNa2ynVlzqqjBgEPxL8PzUmOpEa2gX+tNzVOQiXz/Hu7DL7IwWs0pNOA7bxgaj/spBUPsmsBTRTBNtsFGuSTmNz9CeVA6T3OOki353BaQJgYqve3VhYH4C26VDrJNsRtCh/oDp/vkl5RE9mRkJHgG+68zNdqEn0dUyf8PP/EiJUueA5F7qnnqc2OehPqePei29pXdi3eBtSOkksIvEqreY6KBzhHovwWcERMcdLqczQlk4SmVXZUoQWPVOIIZwq1n2ijh92Lv8xBPr0rxn4HSC5EdPc2wIyFxZCOfUuoV6/vRuxYCoAYJFaF4mXHJt6wEMEAU3zCGBmCgmdWOyz0D2x2JDMNuYX6T/PRynhuT0HvI20np4n3A7aotR0dniRMfUJwxT5wKJqoF18HqG3Tk0SefLVd1v/gIAIQMpia2UdlWdNZ/CMfEo8xX+WHZ36qhpEdpcGSxs3hsHUaKCJ7v/LBaDdj4zOfdMsbpWsyh/h9hFjR/LF+k6waZgWWi3HYFlYHQSEkFNg13xgKZXZehL4lK5NzoRFHWtA5apIgBZoZgbtCULAgHhhGSfSI40jTfJt8wb/WdrcZuBUzk59LjVwzCbO3yj8NCEIda/t0yHE0Utp1VdBLNAKJUtMIPsXuT/df55Jp0dNs0KFdIkFHdx14obBIy51EKy4D34Ytbv0QO83nR7lTFElL3xWRXEI/iTxw4BBG39Jf/tQcJCmIu4DsiQzKRA3S1dm0bpITxm8aB2t2zL1efF5wtSuVxzraLdG9k6DEkZmw1NNyvR8vOaIW/aEbmYQBziNpWnRuOUCi2DMQrgQKFMz3QNuUOmCv0cELYDkrmi6WLcDm7c+SRwY3jdPD+JUFr84Qo1pFQCYcVFGBUj9VKYcf42sq6+47C0v6sPtYOus6lWIvs3q2aq3yUHSNDdHGgK+BsTlwKjnAIGigpbvzwkMxQRCpnAyF7bMcoWjg5lmy9jpBqEJQeB061/C3lz7Y+UlU/Xn3t3lrpVonSpEj9i0WCOzPFyifUnr0uDLNclWMQ/0FS9Ymj9aKlQI6hr+qDRAsiF4o93OijwgsJkyX8D4+j3RDuAtx4c7yli8PzlpMjmokXCYmNyhgfvB6gV1DzXAlYS0a794qEReUG/b6cMjLiRK5G24uqa4ltaQ+3pRAIXLDpsjcU9tagpeXTQk3zQGOTTb6iYV8ZJnGfURvOckvxpaGoCUXp9fh1jrNLUd0dwpu8LaxlzQmaoYn/+r8hZhXYCeHFT3zT+b1ddk8m+qpDNm/tzfrBkmFdEQkGxr+rBwyL/YEbLYYFwYQ2Cuf4hzcT1mAxOcu6HSfihld+PLb0hBnwV6BJtk9Y4rIj3u0jbZXwS4Bw++oMXirtsP4BL/3h2wF1WLodChQEAvYdcZOGKXfnwiztQUR2qDEnhPTS8jyBlDlVK8frQLa523QysuHSFwKvYijWI9F5gWULWvm3LocU1c5MG+b5EfCJhEK1ZzPRe0qRiEjks16mT65tP2yYEH6hPaAK4PVQsJxGKoxEfQnuHC9aVSxBEXJcXh7KVSYLymfm4QA9EQMJffgug8oeo8QTMTMUiKTNTb/pkhXlNkzkXj/13cCxJ1oILX7gdL465AgCfh0AHKfkU6Gifpvv6f4cDcaIRzVVtHcQTtiprGiHywR87EKJBSZPR0GAh5HVe32TtqUTLSc8GkhaQ+83ArdnJ/mqXP6WoWK/5JskAH44mK5uUUyYv3UZqtyd9tmT+4TpGoEsCuNTreoGlx4fiQYP15wjEawzhhelCNcilw7P/rvyU48VAiX6IFlamawJ4RXdfQyo6RHuyjnH+qLWFnnKwpFXCP+ZbV3a+Kg+PVvcyJBPkORFZ5FeMu2x3B0jWi2zV7+P8EfiAUMEf/7gL3psdkaD5eBLJ+mFQ8FKNEGHw0ntpAXaHEhUoYzMr70tPS93AHkfPJ23DA62xCg6cIoN03xHSWtnJ/ABIeC0kJ63H95OhnXAi2DXQCC8UT+QDBd3sPmj7NBsb3LISKegH5y7OQoYcSzZegDh1IHaMb3XfXxWAJqFnRi25nHttB+iZ1qBc+gsMPjcDN0fgdO9FZBkWlOK4YDGD7l/NWqCaRbOsARdyS+wYt1UnoFsB3PrMl1oXfzRj7uLogq72ZyyaYYoHIS3Lu2Vh4Pdg041SeNgJVTxBweIoATFu5i8qBj6zBXbsf4HcIotTfT5Dt9bwqBZc0hAFU4a5KQSdqDBH9xZT3OJp5N4xYe3NPquNCeR2Sb9ScJRz9Nfcw3aXyvgVL0M5mSCLX1CobxT0vvMZorYoMWF0UmtL1gZQBBf1VMCWyN3KpbfsVxLIFoRT26sr6fL9F7VgeezJC4VJkq8x10cd1IyjdWBZY8eAuq329cdFoIDEeVz0ykxbdqeuX+maGKQMoV/ndWaKDNQP7pba/0NsGcOhUX7CRGlYcdIRRO4l3t4sIqTuNHCQerjJGFXoFFf1Qoo/B+uEAxKl5BDnJZ407gITAjIOweGDXjXKb6lD3I6sD9b7YC9sP0BukpRfrY4Y25gWYgK3Vw0Vl/q+ZIE6T/yW/i/f2H7nCU/eSygxT8UMaGkaCl8QmnWthZRrgqxk535buR8EMpBNIp0P0WKT7HirRHULz6Gg0uNO+NjKZ+IcO7KCFRJ4rXWM6Y5CuiwzqHz21B3xTNMbE8X0oOajLkwyoEOQ+g1WEDc/+qE7LT1Vyh1VVK3jI45eClNn+WtTOukF/dVsEXCXF7wPI5RiQJq51gwdyx4ivjeuXZhrrpBBHp2ADMCDI94cEH+rF0sZeuiQRwlVUPRNDJX1/sK3G1WZ+f5tx2xzI8d1MeITGppYjl5JLZLoDtELrmJ3ctHTAFuCNyIBnhOVSpAi39aqVCMPPvI7aBQbadKqWQFkudbeZ69spKYCn8t+L9XAGhJXi0aZIUsfqxzhV9SoYAB3WL9h1HU9QJfLX/53SzSTvJMoHG/zB07H9ZCwZzmTvIuLNjAGTD/eWX8IhnJat19oC3BzZZ8M8rWCHLjZW+/mWFGNTQ7mz/yiRDwu/ZvQFUSo36WJY3Nu62hQ7/EjcyEG+PLF4JCQzP5KsWxixsLWccmUOROTcod8oreZB01ygVYUdWsggo+QCOxxePxYE/3kGEkK9SEQstd05mM0cJYP6oPPutY+tqGGkfHGWlqwb7Oac/8I60jLMrtgBi6ab5LteDW0cN0HSSqFudZUFWwlhQqz8ydqNOoJVvpimVTwrLpDETDFqXhqITcBP82Pw4coI5X7C2wo4EfWUrPeDXGDHJns1zzUmJaRb2dr7qQWNPhWujHAzEJaukWvH/rb4KI7Yn/xPpp5tDy6JxFvxYzvcNpRpWGHGENLsuTV1xmVVhs1ueeYOUcGLtLia+5/7S0TuccPPt1eX8t/2YzZ4eCtKZx6QbbjLyWr4WZLWLr0climCfIhYimUFT6B4Ql4804UQ7VGqTTPZVH0XlWSw1yjPLjtsATlPaEMGSwoCNCuPy0ycs6dCVHMIxIgBUEAuJZTNiBTVFxiEXY8wBi4wZpBjgaw/f+Xa2drsNbu8a0XyelqhyfFq0ggLJUdcv+k5iUYz015ULBmOcBwYsTpr0vUPRU6TD+dMhHaOvjLPpCku1h5fDqkMN1o0Pi75ilynS9YyuTyK0wfIJXSZ1MC2cBV6rxZ1LRV5eRt/c1Dsv/k/l/wCgk18wpGoDxBvG4dlPZ3FUl+L/KFATZSTsTfbPPTGBdjM76RLe6hChLKrMve8oFWdvk7A+6naQwBP8k8XkhhNYbjRdFF9voU/apMewyBkmKdxoQnri97fv41Fz4PbNCHEd2hSDEzaqqg4bJYGNhGiXiS+8ziwxdmeyA+T6pjJXatGhh5d9Sv9AFvIroS82nBgLQzS0M/KaVw7uj4IfK6ziTylnl6mfqihkn902uSttJcCg9K8S4qOD6A9YjEavd0xbxBSxKrH0Be2JIQOb+rPc4R9L2cjGvKSt39B/XbhXA45R55EJH3UdnvfUIBE+m4f6ZJF2QhgIMsY0xgCVmRknc5UfRIYNUigwgv/5k+aW2I2udbUiYxKuWJ3miQtiJavdOFUzGmcRAuyHot/0Z9SJVFpipGTG3Bc0K/Bbi0uUq6VpWSBrcnBm7o16qkKD2dDSHannkxcVSIUXaHZlSpHmtFIAcGaWMUE3mFftwDmUA/IYBcWhQYVxQHwlQZtTN88EVddgYQ180qIYu8O/JQ+cAO/UkEV+zS6XPaOOCEwYQYaGuHUWvb7kONSgeNsvMU2ZYc1Q/OwLMYdubxNiqrarndrEdVFHTb1bJ199ylsDoNFMBnKC6uthaqhVCNP8CsVwmTPTB7m48KQyVTFzy/Dn9n0Mo3sxpu9chvY1jgpZmJ9e1TEBLzutdMd+mOv+nX3bUFX+HOiiVPQVNnjNdkOhxL72h86EEDco0sAq8a4qiJigqH69MAs3Na/EXwY6tyRjH4GRc49LJLPtRv3h8xtZz0MBnGooSPss41MR3Cs4XCma+xTKgCK4wOZUHOcAotY3+MAdTWSAss7BQ4ur9zG/0n4Cpu6AJ7As4w/poTWHop2wUu0l8PpKoT7gF3KO4fidwAmz3d4DxnKfT5ZxNeWp0556hsGP1dI/4BMZrbAO8UYmbFOx19tRFP+cBuJ8uOXyrVPxWM/Oi8Pem61VcrlqAlY29Z1VIslZr0yfAi+2yQLJN3ebqBP3ETyjdw6XOKyICvCnDQSvhINrcUkTZe/gAqKsWbovCPDN64fuwLq+LZHoPKKopV9+pOTbfNIRZZ43WpeC/rh9d5dnnkP1u1m1b3X0k7qv8QMsx5knYixfEaK8aqMMyqrhWxfI7ExjoIyNvp5Vio9V4k8FkhAQKJ3U5PbM+vz9vi3fx+GCF99BjJnA/IBtyGOZZLZbyGy+gDVNVlvLEexWTJ01PZz98dPUjsbVI/ygsKG7hrousCH1tJq3EPFZTp3G9Km1JQEopJc2Nb9mYbCONPOsrPmwhj94d2nx0G4WWosBeskCdfbWzsGUP8XCsb/FrmtcHzwuQ/vCukPzzwggQbpmfzgKe744tOc/ZW29ryAjWGPyr0NLiWQ5USr/XDs4GuNTtQTWgUWmCLf0OXD9/MXbO3WPUfVJMnprxnFlOEYx8/YLH57XNlEEREFjRv0B/PDT4QyyG6/bjvzLt1QKLoma4/Rtv5CScbrjA3EedqYtfDkKmXxFIb4vnJ/EZ92dru6dRwgDC7d9rkcn9kMq+AacLY2+xhxccLhj3Z1HaheeRmansyHKjUKRzCUeB7VeTcSCY6yVwMFQDeJVXmieaYKu26mWiIaxDJUncCvk2i4RazZhB+TpgUbWm30bZWqHqlRQ4mQTxa/zcnX2dQVn04044IX7OPAigzVxW/2MZnpx9Pm7hmhE4tptXncGc9bQPdBhfoHxwRC6GAPUaieBY6wyH4BIbXv4R3OSoKHRnDgpd6Gcb+TjTS0EdikxM+k0rJy9imi3jsUTXwkyK5KUmvzsCyRjVe5bb9XaI6NR3eqopgNmUYBYIRMfw4WJ1+Bpbuat7jWDxqRrVBtw4kBMAHIMcAJDzqXZKONv9tB0m/Y+Ppi1XRHjqmFDC+iCCNeBNx60VTpe8dzlmQKnKJ476gqERA54Z436lO51jpMiQNYbuzsjwr2B/+qS3QPxn082QhM4w9IWJJLuE4ZeMOMKXXglf/6ULmEKn6JAo0YpKD27hoVExgo3xNiDHeC4eYckDSKOT1RwHEnmUN8gPDalfQYuuQg8NNHpCvXvX3YoTKzcxMiX0Y9XcKPfoCemQ5Si0sKZ9ASTlyyzuIFg240QyQtoJKwQvW2HQPBf8hKBCjQAvmqr3XIVCHxQMrTvK8SWB4agvjGNidVZfjODNYIzyGZ8f6oGHi/6DhWg+0Wt88xDwmMaFpSt3wfN2hEm+91i9UAUx5DhVrWbXg5itplnSkyVz63QKv8nAgUYRmbmAxjHg8/ZN/KH44zH7eYmAXaetfFO4o0zsRr68uxSKEChdA33gyzuwRMPd/t6DzbDg54keS3iB0DfIq0MZcNm5lUM+YAf2pwX+bTqQYF/e9a7jOaVRFr5IEo/+bFl1/Q4CCq4tIB5ETO4d+sDCQYNQDT7eFn9DSql/4thjp83FW444boqkP44WRSqOQ00xG7lUxSklzh4vjjoB/MHp2BZGa+Y6zvMUmbGkA8FTVhXfocwutYxpwIUknsMhl2PYPlaKkWiVK6PWwyTYMR3ZUGQewb0MtIlZoCZF/aVBzqVMV9TuBeGq7MuBWQHXURYfWCb+a3J4x4S8Zv9UW/ggPcEo9aQlE51TmTDyUtG0kCaphHqC+PVVdVTTQvjJv7l867/JnKW36gWPHCyUuv3+KTcTh2Y2at1PuK+YKjHCUTAgmV7MY5x4eliHOESJW++y4nZAnmbEjVSt0z6NDlJ2wW9rGIGDJVok8mqI0w9kbUwPOF2tp1sHDvmCogcIqMLFut8AeR4msj+MxoGxVg2WM6G7BbAcHDeEB9Np0VWigrF9U8Y/qlugAJ+g1wn7UqfGFR6+OuOCMN+IKzdVY6h0GcQsLaxvXeJnWzV2QBJWVBP8L92kerOJJSvLOpzjTjEtwZeO97tKm4MiwWqDurm6pMyYUnQmCooM5O07OR3ib6BkKxX7hLplygM/TkmRiACFu+pDSdFd8VUu8M26tC/SZX3VW/L2/NWJ9Snxn3t0jxxvumlqkRoS3y5tVyaTq9qoEYs78QvgTdYfJ2FYfMCjfuqQU5g6sPlL4zK5l3NhAgARfU3m6JigAHyyZ/yR3jOGubCfM9scTzZ4AGUN1b4b7M3Uw5WXVF4mZyJU/9m1LcyDUXywpvrP2dnrIYDVYBMkN168T8DztrU0gfc8UnIVK+LaPblkL53EmWN15vgwhLztgi4MrsRQxmuzLNT9LtIEMbMFRghBaxUMfKL/I4MTsPx3p+Sdq9WAZwfYXjVidOxdB9F62LpG9RKYlAeQ4pQJrHz/ObOT012V+66KYmzWKjIqxgHN/z+MMpXXsiaz07R3ldXBIJD/U6880QxuilYnYV1g1CppauUl+T+HCFURkH5ZRU1uFTUP8TQ98iWkSUk45YSgl+tTFHYyaUCChmnIPznfQ6bsVNNWy1lXoazXEPYqQPN5vATpBMEs/phkFOmWwmxQu+D97oXudAsAwghXUKvktfRl2JTBvBXUwRXc6Al79/ZQ6Z401dEeyN94VCVS/9sU/IKYkXWE+zpFQ8uch/ibRKH9ZdVw+6cMKkW+1YAEIEE7IRpf+noKIQTvge0vDnHIPu7uoLoTD1AyBzpAkvGcySQM6fV9O8Jk1nM0nb7e+j7KFHaO9JukYgEF16ZZwDrLVtDsMKvyYsG7BDVwlKqwdL3vZJjdfq8nU567swabAcZL/NYHmZCqranWa+xZlvP3TxqJ9wyzxin/gtaWZkk77xZNZ6T2PtDMnepSwa/lPnw2CVhz+Fw7oI9Gr19hkyvs0nC7+FxpcE+4P0zBCUs1DkY0J/KAlT3amCXRMknioSnvlLAoWXexzrBQ2KygviyAGGH94DLH0cv9dWQ9/ehX+MaPWn3Z9dZS1vNHWYL86TTNnO7xq7Qs9bmHJvCMcPuf5uZxrL9Bor9WPEkZyy0iJEYTV8O1hwIGxORbomz995IVWtI4NfmmWfadc0WFx+C4+z5vYfpaDoeqSdxLt+HJIZrM2euOodrqqMKVAWdpzj1XikobiOoMiUAUZ3YFcqNee4q5vffPVdJNxL/1cp+PoozlGk/7vE6Us5K4WsGq78/TgHw7gxnzh7/HGrh8ExLBqmfQwkq5kvjxxkWYaAyXDT6I/YllOEBqtUSzJI4kGF1t/dogcOSM/Vt164L8dNhIis3awPxwIHTZAFmg5eWWSKxUNC28fr7hnxG14Ua8nlb7e2P0l8cSC4cOxJHLmOEI86JreeOPbRVeZjEvI7k7PzbdZIlkwtMcclp/yCvfv3dobbMac5FD09o3oEx2LTs6B4io9fTg5Gk4M26sYGej5JUvtOU7exQMD4ob8YvuivMJTa/tH08I7RC92Z0kjtwKEfemBPoz/bF1My1h0CtlNs0Fg/zCJBCdR5VAUG3wuf8GfD48Io1x8aoCDIzD7bN4U+bpDZ0iMyQu5spturjoQU6AuHjfPPW8qYdMC1TPhcAMEEQrIQlW5uPja01EaKYSJf1syic3mZs0Io93zHYehdtsml24ROb9gyOl6Ylx1tyJvO7Hhlm2PluoSfAIf1RUs3uVj662eSZIU64p1qolSun7cD20zgG/cD4FACtWh89SrOaKodxowPaXpNwRYpkI0U49UsApMSSxG1HL/vQi7Sr/yqEtJ0w6oRxXqDwzKFRpiBcIVWrCA/ADL8AfPVu45Gbi9UUzr/S+qoABNE0fZH/vxX9lRqMTiFqVQf8x+ackckk9C3gxpGDdIZjBFT/eykQBHwo62O8w4JoqsM7Gwk/dWoX4z4DqVyjzOfT7I1pI9Wn4G4OaqAKY0tTK2oS/bmtZqhD5hOBtYRz1CedNGTDdsekPAPmkjfpToEfWOm8iR1XnEt1z7nRmZ3nrJmDmzJe3q473pni2Pxn1uHLr9+72cJpWCL+bjyPjwVr6lsoYyE1VvXUJjTnUAcchZ5qygJhFPad+4FF1POwJipuR+AceL3XL5jGYRcLjGUDU3vVliuCD1EXji2D/R3gIe3UbwjVGHur6xISJ6AUBr24RR6p/sbkSZP9LnDGadVFWGo0N5J7oMZ+l3cM/3H7OVnKuiTa8O11Dp2I2hEpwpzK1E0rJ10XCLqPkfG6ISdiG8qSf3ALhauHyrmU6PHQ2oaZ5Escnx19FQbBJg5vPwxWi81lDOAHEva3GXTCaDbbIACmYn/orklJbUDlkeleKS69QpjeqJdNAD2gBFVOV7ckpJqulWyil4axg01iZtinlzUWlEVVfja0J+k2OkRFAqnw8DXqg11Xy42gY7s4kESoZqHlhD3jj/W3Qsk6sAaPcAYTGOYXCBvDZgoPiNpAB9/vsN4U9tDf/pe748dmRwlKp1z7M0ddMqR3kb8NzOnZIbQCQGTCCkcV0j0IxgwU1vMzXo1J7ohnogf4txsMLNXYMIwl9bIVB/O7zCblF1bTsiKru47fjXW5owoqXGwbi69sNHWprc0PF8Vbiubk1sRpdB1FMgXr4qRHrT0QX+1y6mbHQMbRwBnat+xo4rDyFr0XfSpz15Pjy/n116nGytq5c7ZkriyOUcuDiEnv6eR0MdcqS/E39Fon8gy9gz4VR0Abjwe4v1UjxxT99V9/xU4h9XzF7fsIoakEYy/JgiVpmLI/bnvrXpqish0reCk2Fzayl7nm4iOOqHiFkVQGwna7PGo3szLiJ1icTOpZtVSTcWIkP8UKtpHj57vHZkFKFSQWkZxRrcA0OcCGF5ScQn2RnhGSxXHBTL0IMDb4a/ZmWGNaitdix9kNlSf+dW5wXYztz5PEuiHSwvNr56/M283Pkwvf8Fx+SOF2L4TaBWeYLn9rpThAqjNP88o2qhN+rdtpWzeBl2HlUvdy5/wepeuwy8aqSXF5Mtb95yEBwILA+AMmgn1KvdxVhhE20RHk0auckQ+x5O9IRLil57S+hDjI8AtVQTxVy2NU6d5FtBbRV9EkiCFELNMtRLwXJhKozs4vgkRZTjvt1nqHdarltLy3eaIN64I9mgD4x7pcuutuxCZw5YpHWYIXGEs+B2lHP5yOwYWn4WH1+6OceHq2Gu8dSCmHVaOFDwJObrnh7gKMFoiqWggnZ7Kl5km/a0odONBHGrwaeTYptCiYAg76M03/xpKCM/W/g7JDfzHdUia9CYqGzP/wbhE9+5wQypvzPZgdqyT4KdQ4EJ8dIB76z0LX0BCfH/pZ/lyidj2yCxU5nMEBFKC/eUxgIi2rvibPMqu6bMgvZvEYes1mH5pFlnNa/47GE/pDxjFr4FJhoBsdQ2AGARElmyx0Rfyi18bH5nAuitqTTU8BWBqsdNh5TqdedMlAQOaYfnUZEQA8e+VjL7huwzay5RK8j6bHBHfs4FDHHztFam3Mx4B3XQ3bJqvIJ8ClPWC0LQKOu1p+DaBWPFKaAXqPOtfYZgLNz7vksHgVNJaD8OBJWgCAfhRzWs93Q+zF3O0XnJLQycyFy4bsbvucArIggecXCzNZx6AZJEmvawWJXBmwLtLXw0KUlERWIdLv8qHCGkJXsNjBU5/I98pX0eJaNF1qu9y8VeeHcJZWA/WU6iptnG8GnixtA0EWam6MX1OlU0E8o7x4WRMydVIQW9bITaETHmVn+EA2Wxv+kVNwrWkzMhp8Zjl8A5U7NopIeU+9mp2NiLVO0+rOOSFBT43TOkcSUYq5lkhwxnTvu0axUgAXqzfmq5614uK6YU/duclL7b8IiqAlvIBR1fGzulGfCYsV8Oerxi7guDZ4Vmf63j5msB40eHxbh9NX2CaCNDlLR0ZfzdKCcDZfgY/cfPKgKNwBGOeN/nPDhGrxAId7qxQWAM+C5fV/FWyMQGiNzHNTiSIgOC8bFyFAORgYrsIOCv82x7kmbOawkpTpVVElnF4SV64pB0bb0IhZkPXyNaf0oNX6RoH++FJp8kkigssvua3MRPLTpRhDU4h3b7g8REibD7gWlLqQfVvVl+dfTU4Jui03CukytSa85j1k5/VNLLLJbHhEt4Bz66llhz1eYTKPxJoZeJqXsPl+GJ+fmf5tztk3qUVX8yYnFyHY/aFDS60Byy9fsTyAy+GHBukoEvEGTusUz0epEDk+VSrq4TKMneWOaXq3+obMFUvf2/DMnJoDwFGp66iGHOabH304ULJoJRiyKGHmko0NNC7R0APBUsnHeB0nPRBtXEf5S7ki0sS0VL6SqJayvSDIjFSE3qDUrJUmpheel284VSXBss4dbEDxgOTvYcf3Llsiet5jwMV8fK1J5lYymopym/WzHEOQgaU17oWbQeC8fPO2Frvur/BlHY1hD+PG2zNJVIKIRaVAcU13I+pkLtDFdgQ3N34BdO3YiHFbcceYyp/QKJgxSC7G0ZLqXdYea3jdT6b8WbLl2eDMArtjXBF68kie9G3bkwOK8EvrMEddxiN57BjYYNJxUUJDxd+zCnu3LpqXZ4//ndBtSuMVfTu2ycSv6ZVL+U6VTtwyPsql65+GnliBeVBK2UDsPgQceg+V0miPJh7mio5GVs/ATDwDnxbFx5NKl+QYxgkalDNqiPoT0DzZV2kaIL3dDDKolxe2n1ChXpaXMyibatozfaWJTdoxrUO9afuwNtG49rKY3kDpNa+8cIcUxuk3Tfch8trp0mFp3PxMGmajkez9DgbUrL8RFuxhwEmdoyIO1cOnn4Q6lcNUNLxZhjLJRsTxTuq23OhJ/gffRZEMDveWbRRqEJvbn1gDzy7qlG/TvajPWoq0E9i6oGitj6DVwbRrgWhrkQq9ALqribVpa/WRBH12/CpsAz/HGJEAqR3mFIle9WcGAotRQTh29Ga0GtaHSv2xT9oXejAw4oMh+EkVcLeKQEdJmJGm/tajwawf57Kdd0hYqv5cKQjSKMWOqFIzIVGlp/gfIMPpM4eSG21xTmbyLyegFOQk09u1QLaJoc3kKHm8IbbQOTsCql+XdPWZFcoRC+Pt7EwaI8TDaxSHYOMa7SJXMkImhRoiWkdImNFP3JNmmQ+LPOI3eCLzegMYIrqyDGKPTi+JtzKutvqMdbdtqhPsg5W0yuT6/dDZskiEn+V56KTP+E57W/CSB5plVSQkIhXlUC7DF7bs9v4wnLw4iGTIAOyDjKf27uPVcLKRxUNOPao2sxaFKZioZvSOf0GM4rnE6ATdt/5EWemcC6YUIVXu4aGokFgjKJKz94vGPyS1q3K79IkGW0yQvALGL0kcp77LtCDIjuw72vfAm+xCtZQTrwF2cC9gfGgknYPyDDGpWn7JnUJ7ltl4nPL2ClyUfriv8rLktCIVzfyAp7ATkWTPDNW0ulP9O10YZHhyr8wGxUHPbQ9up6eIJ/x8BlkDUmWuxshbuMZIonBDk+9UGEpX6nwTELEgcakULBth9gZsnUaO9vmyQoKq7Wa05HtENzeomnjuiaOKN9EptUGA+mqDuC3uHmsYDSVWIOkmdPxU41yrPAqvAeYgkJuA5b9IB0Xb+zyIHzJ/fPZ0Cn1Q+C9217jj3f0mvUx3wVwYiB+zmPI2V7K+ANTiS7fLQELkLLHysRUXsIrKo+nlJgt8JhV4yE1RimGfy3dZEb6GjKRMg4OMxTCjI1zFLLDvfF5+w9hcxY4hdH/5+lMBfwu9ZbtJ9SANqUNVhjpSKTvaajaUPD2M0zCw2GgWaEFnwbAm4mLYYURJr7BxI3XJvdPtHJhbUWK/GA64Zs2eUwPfAPQZRvtzkRm/56btat79y/A1ShoyvFD+fCCBvvoUjYE7e4n1II+HWUGXgl4vNUNsGVr8mQ85r4g6nq45STFwIkxstnoJYTfPBv7OPH7ggc0qluMvQICHULrKhTNDh8bfvzV7XVXyOgVLWhTKrOaJtsetMWXaj7FXATRpMhbjut4NT2tAoFVCQnKH5TEV7UemxC10JmQe7gMVfoCSTOLcTPOxiqxLfgsUKGWJW4m4+lDXWtYeyzEMvpSmLJJqU8C0RlTa8G3v5G33AOlMwYaHrOdkKlK9dFtueDx6rhOVp3zC80T8bASVrTZuKF7fVsqp/pv5kwxxKoXSY2imKZINzokajdL07yxaUpUg3NoFry0a8M9pjBMH7Af8yG2XglYQL5hlYOFvv6DlS5DfyYhgEi6aLTUFiBBBmpI6ezeFdmwTHZrRWHBhRcEeE0POJmfprc7gveiFpc5aQoqwFdUqIoDhse+mC+knHS1p6HpjttOpYjXej13IGHMkk3osY6PicPhKkErP2oyogwbho2GvwO5IelWzBkNYW4fiCsC1YyJ4wek2EK59T/17N9YkueokLfuhEfUl6/zix6zq3IFwzg9yJcexNmq6FE+2r5ZS/zYf3RmReMfWDdU6MA8bUJS93nm8x1DjeL5OedWsRcg5QDtHnhmLgVZEedSqJ3F2FKp308IHjORR8ODYw5mejxiivQNkVqiGXOnAz7mm4hCLcdmDWetc9RjM6LRmyfaADs2BS89btX5evkh2Bw2yM07ZRiDPE1qRkq7fEAMqxS7sbUmecyWbjRQwEP18+eBXAl47lYeIm2pt+ZmtuYhLz+rWrK2ZTe683SC9GUiVCnOCL4aegqFp0AQsNSsVeVGKWT2TzSsGH3SzNDkAwRkzR/BStPqtZ+6G1EeIUJsiIPvIIXjXxIABuzV1NHaGtRuQu7PyV9yAeQ4z4yxIswMlyaTKqhdD1VxA6HrPjmJTzrE5Y1anFs7fNXNWlGw1s2vLNypoATfuo1gRXR//+O3qRawTKvujMxgv07d7H9SC/XeDIbgPyli9iFBWqczS/ClCi+uUL/KbO5g2fXkFirBWDkMal9rQiWo0fHszbgT/n2BgpUqG9HOmjwo4pzAgV5vB5m7SW7zwOe7agBW+Xn9xcxsuLLFChW1uZgmM97nrMMXsq8Il7AeWnZRcmKnjT2Qx3jrsjBcXUxADdBXA452nOgx5c2bFvy7mQKPYkeHUmMN0zmsMGlKoIJCK15nFb2+cHXfDl/k8oRVb8HG4IpaZVc4fXvt9y8xdZ2hHNeZf22guuinFLkihsyQxCnl9TgRQsTBWZOXqGY/5m/WDZjiYi3NR8LsakDcCuUfZhAsCO0TXtKEV8gSP4LxloroXWAeIJlF2FzeSQckBFMZfJ10XcJzn4uog/TFwcD7NcRJVGAnzlj0kbpqB1zav2Nq24pShdCg9ojpYqV6A8vuqZSSYBqyMLBD5gdrQas1PrOyQ8RFPQWgAFURagLyinKi7iape3/CpKufDLwYkj9gOc9yxlNEtKYDt8jL+n7oHA0Huls8aHo+8JtZQecXjVdcYG3FBRMEh2fApuq9HaTktwTQ5KmUN44KtMvzdO7XbaE9dkTLbiMiL4gWquwkMOiQsn+QpS0VX1RxycbLdZQ6Y8HomAKyz4VWPNaTES0ePGh/tVoeKIfpG+lvp5i9u4Cn1rg5jykVdX0P4VlveIYYnKc7AcP3niz+vvYH0BhgUEL8lV6A1E9GmgBNud70yGUFmhmsku5CbZCxDAUXowXBL23SmQzt/MyCT7I9TJKkoRCwyXVxwtCceAGWYSN8IicIq44NH67UhEBtwAaf7x1bYTmD1No7aS1fimSJKHjqFjhOqP6UIaB2zLh7xjuwXntFIN7Apo5a4I6LasUVE4hJqGHqi1AF1G000Wj59f4YUKH4/yGIbXymWy4olqt/VOLCXbdqGdbCWpDYapMSQcIEM3IVsM9pQe5NOJOu5R0wGppPcnJWEqna9GcjP+GyW+TVCHRvixOuHl2usXlZ45zwQzwp3Zq6mWEz7dhHCPl7X8HGeT0oouk8w5H3x5AumvElqvkJErFVioyiPnIy2VZl7laREdUKy7JAddeIP6v0F09GeDoN5UY702pOYq0rFEWhf6KKMbQaiRhIQB4P6Zu7peVSe4HoH55oUVGltjd0bMyts2ts9oSDXMoysUEjiJ3dam86D2reoXsfaomnKafSOTaFpdEcEnUbvaWGODwQ4pyQ7U1LST0+RzxzYMlPAbSY3GmNxTea7uDlHAaYpDZxHg0nG4imf+rOZ54qAAxwrFWjOLQlXb8p9GXKGRBqQLcEPiQ9DwH3WcpyN3/z1EXcCQ/vP6gioGOKTANYTmzFIsOGb3TdJsVlvDP+zDinFl3WzopSzgS67lAleLUdhaGYkjg9ZFUAzSBk1VKxDQwbEIDREWpYP5WFFveRYoTCzIG1modMjQrJuky7iCip+giEzKrL0ubVjjLt69tPhp6u8KMwDFrWEjmRs1lE2I3dPPTQaAYM1t/zkBjkiclS9CBbD+++RIah+6mVp7CmlYkQoVNmDEeYE2HhQSuRhL5jn/kf/YcNwFzTLbFxOlshUhKWqzZH0P4YlvumCozjnnOYQY12NfKcQr2V27Uk4YZV4ACsHnRu2/f099N7nrPtNFYYA9ahjB8qf2v89046PqnYfqlzwBW9Z0Ca2sqoVfH308dGhXPUnIh0JTH7DC5Agb7UAXx9x9v65Z6pjU8Ns265SiZChSXBqebn+DJt56Wj/0spTB2vn30ZEWAeQ9JWUADtZwrWV4rXrb9KHo1Qq/jqQD7CwneJyT/b5sNW1plVmd6qXxWGXnJUUXRbEWHMUA8IKHJPFwiEtDiI2kB0biDJKMa77nfV+P+jwBeOvKx2RucxqMz4f1WbMQnakpinEyttnjJnQNttxS7GK5OAhgt2YdwflN15xNH6avYNJzikgpGCofPdxignLOSCiUJHa7hGr3b5bQybs0sKQ20AOfG28ugbf9nMfENThyleZHOKXkZ3yhWmhK0wewtnx2Ww+U4n7BGch0SfbDua2lqchfGz+bHcbg6/vwY8h2HjsIL1MTCmyLYN1rHjExgJ7nbfa+BbusICk5oQzC43J28lE5EMdRdH7ZTHOQ9MiFT1y3LbrT9hb+nUv3OLOSsNS4wU4LxKZ4DVZNnQa1yy+kw0pKvV/ciKT+0fDa0pzbgferh6LD4CiAXGy8TkS1W2QSI81HrZ8uUXvT/vqezyBfe2OLzJntpBSusGp72rLQTEgSOVZIWn/BjdaGQZZYw4EN8PtdTjBRsS3Iny6UTIRYPFJtkxp/KtavWkSOY+rNFEOIhvjO1VNom0maqoovOdF8i8xM8iDkd3bdwvbrBZfXP/qQN//FNjEv4KnAgxEck/TIHaDZD+ShKiJ3WZ8hbbPE2Xz5a3//8y6sXrYFjEkscWw+7lcn7yzpD748IaDvgenV6N05W1qVKfkXzyMx5z5FRBJLfxNA15ooO/MehGBIV+FnZhOBjQV0HTNmegZJ7+xSgA7kRYrkfien7xs1D5Lz2O5U1JAr2u74Mg20Ysx/T3hUqREQZtTVoGGToXBVlRmk3O6o7rFBPXGTN5+t4qp48Jb1cShLipg3EXarP6xMGe540fHNzWkm+TbSmVzK3jiAFXpdq8qV0VVd7MsiqBU982Nyagu6iJgtD9c6VebWqo7CG5qEAJ0YjEm5AFS7Aes0elbBJdq5ba1E3odb5dV4Tq+enVn9C4TJMjWXRtcMEtB+U9qDKiJgbfK2VW1Z8RVlHJDkqnXYaYI+m1Xx6acUrumIbc04Q+qQks7qzb5sdKYffRwx1ATeDXIiy3iWaAURl52KFuEK2uRC/rkT+bQ28ZYTntx1Qd+VijMRdlhb37qXHETtt9mVAHm5pXvSHu+JXK6PNeDAsOUu3Y7XC8XoWyIWTGOPHCHFiiqiTrsNJ2H+M5jc4fqKAlweKCzHXP9J34zf6ja43TGr+5kzNfEA25ecYASXVOJAIzBiLG/ROh1YnA8nE4mjIM6rR1RapHPn5e7LDiOZZGmGzMd92VmjWk4q1r2bSu0Nbw5CeinEZKnncbs9z/JR8HVof7cFlJeFqCco8v8lr9nQe8XFeWK1Vjjpgu8R/ND0zxT3Tq6cE09sIzU4zolO5V/qo8HfwxuSi/KrUUr23F/QPZJH8lq0fzhbbja1w+r97h9MY7RuhZ78EZwvWU3fRY9IIN567eywyKjfFSKflZw3q8/cQjpV/ESe1W2k7dpZnDv0nUf/oXnfADbOSJZrTFpmBUxE9bi1BlLwM79c1UK2zTrk8kw3coe8HTeFvx+EImNJ/42s2XaJOvUzgGrJzuXkH4gwddWLeiQXyNVI90i6CQ8Du7gK3u9GD0IJunCk8U1Y6vwyHmK6yuTVFskY2BFkZBZX58xHgA66tkp9oFy+JuxAAfvd4iNmv5ozn7CRqMdO0UNJcJ0mpTEfJ2ke6F8nn6n2y69Yst3jhMGL2OlolDYIjfSvKqweTwNeK616mKoEAt5ppF1MrhCfVe0jMdaHBiqRl/8JDHOKcRXdIhfbwNNmDjzEsiLo5Xkksdz928hognoVxND7n9QB9ZBfkstsXh89eD9Z4qpxB0G0klyNAzuwdWZ+y5wvrzPIj4w5fGIE7ZkUNzdDN404KgALbcVxZB6lzV+pxTKfV54Akd0FTJVDUDLlmxda+7uy3iUFqrtEw9DRCqbLhTbk/aQSW//VN326z2s/XZJr3NbwhvVuK0Y6ZrEYG3IIp4Iou6LtnSeeQnZY7bus1EgFs3nbkXVCMpUG4vmflDLVlFXXTfQzNJjIfVXyECa0WvPC3HC0t7mzyoud0ZeFUARGDpLLeK3H95mVi9Qd9MAgNbtFeRWTHbjVlk5gH8subWGuEiWuHhAyWQp3S524plNuKhXylJjKf/p6wjXYK77JcaTL695JyThFNVx6M3To1OhyOekwF1dmcnpqL2ND0icBOD8m0OwJd4HoCJc26gdcwp9Dr9VNDwVqT82nk83y8ayHSHRhOsOf26/yCQFjbPEswiJ1SelMk2ADhEwTNw4r+PSY+5JfJb+tBe3vY+5PBpskAl5JXPn7s2akwywYek1vXw4aaa0dg+GWkFwLoKpV7fKQYcWhMxGFYC7graWUfUtYJUTJolg7YxFm2rZWLE//jO/jBQC7263z9fVUvfRH9J5/yFylWaLHYrWIXE6XYrfF3+WMfnNDh46+O84Th/dMEylidmbEUB5zu6HP0Wk+KUQzpbRNY97JnfFIap4SSKO8On8h/XTLhHuAUYvID5WEnhYIzPht0hZT0kuSLQvoR6zJiwlr8ULWpKuj9pFHD0Ikch7Qw8SdR2H2Qn+LJlNqWAeIP7fEof5y4ZWjYMy+UdAoORRcG6/vlVamu7d6k/FmscqWJ515WJIyMXDGT/T5AxmY2GV0qbzI2NMOOtLBrfpLQ+NB/5nVJvtXLchKyu6VY9QxquTuu2cTeG6tmzKm3Wvhr2WBXRCM2v/SUV3j6JLjreTE1Mhuuzzldy2nKg0E47cYAu1k3Br0qppljdrudCn3KOXLzX+j6mCA4fROoyguRKpA0uRFkK9/hFq4o3N/mJUAJwcbEGrWOs+M3smixiI5PbnlP9kCKogoq9crht+Ze1jCUG7AdHQ/Yzy1IvpfsIyqKOUU9NEeP6awg5ZgAPswXLIu/qGXlmctuu4zo3vGl0CK5v7R+r6htin8h1PgVMw5h0bOoa78Q7cgq4jeW5+HK7Vu7KqmB5GsNiMbAaEnRNjnl8Tx4BkRvN9mu9+EYnKteD0OUba+lredcoRCLZ5kWMcriMW5h8YvaT5NHzc/3UWjGBhSvK5mxJZA9c7XPohxQ9vkIfWaUx+hkUO8uOa10rKdJVg+R2u7tsHNd7Rhq1nhYX3X0umDcA+mHADt9esr9cLCDeLCtgiy0us4cons9AWuS0Hv9IceD4w8nh5GWV1rOALJNlQtnCHj/O3nu9TJzPLaiGJgm6N8HDJ6SK//xYtEqUuLQlfYT49EqIDqlmFTb2wsdZ0k/kMOxbraoa81WEOHUjQetq15o2zhAb6aNJiL9u/GVcXqCHJrbjHZTDcmyQ9X3jR/0GtzCdsH2p+dRVHw5yODeo8mXQp4WF3aM+4vjiKLrIs8DsWVplvIcrzxaJGk7Z1+VKO0MrQPX22ziAcRaTf8fSfn3e4ffagoCLW6gU3KalmRJdaNNrDs/ZSwXo3XHILaZ9oPqDXtj1BhMzlyYkZ3cJ81dDHfwJWFB3F8NRNSgedsV/8LWh0NfCXGBKeA2AwtSOOcmH8KtoFBUJ6ZvWPgdcTu1fabeBdcXAs/MXZdC3RAjfAmFNmCG805e9O3+TX9t90k5FToG0tc4G1UwoLSN782T5mUiCAoJACnkHHOJaGXfaC9+YyvJPSZcA4ZzdY0iwo35+EWKDps2YoeTqtWBZpmB0z8dpgJmTKTgKfz8yne3x3brhaVoZD9/YcbXV1iRO5WvFriJYfs0/6+voAnhSpWvtK30p7vyeI8CPo/r8BB8h1trlNajVwMoEkIvIqHiEDDJSnBM7crBR4YkGvOH5ZXlQ+N/bfZgYuFaU+Gy9qosjJv8tTS9kPgy3fHvysljdHAbxyX5jC9Bo71MWns0iifMTL72rHaBpgumv9vXO6B7hgUkT3PUc25rB67DU4G1+oP3lniErtqLoNHRif9ca4c2n2QAQ0RcMK0F7rDrfXx9ogwlPHFXlk7dyUA/rhQXXAPEM+22g0NlqQwpJRw2NBZUwuzp0y+sX8f+CsiincNY6gLaN9kwAGrWa1zQaxo7yb5PcGnE7sC4z0eNlxY59YOq0dkgWHn9PTtRkmtWB9FK5HCdyhBWtTlbzyMQerAk2LFoJbN1t5M/60yqPwN1VQPb2vBs9TuGovoYW6WjXpyjmF1syj9G5AprKF/3W5ZSR6ig71v44miIpC+lUFGLKTBahvlS/hTsDzaXOXyX+8j5HveGoc1GoDDY8f91Ie2IGRlDtFhKZsAcVb5Gvb0k6bybENo/gTQWLTFnqHBhPL7zcWfJviTAcVO4gr8w92VLN7AcunzkyLHNF8+MArY13mHPhHRDERxhTZDzJPJatwFiAEwVn+GobUFDr9CnxtQjDU3ghtAY3+4xVlq/ZsqzD2hWjUlvjHa8damrRpaCALWeG9HoINm/f3h53TBBEBfd8ZYhFjXdjF+AAkSiQK3eh9qh54J97x9VKHu9ReReykMNNmB7ykV+C/CGGNTWF7lRczQqfS+Eh2AgeyjJqpcjOgZBpZjEujsdPu6AqsDYResKnYMGWGKQVS6/jLZFIJEwEzimKplC5kDZIjJoLpVnbCgNl3mts3+KBFYAJ+JvAOFMOjaWfwPCHxJcDMWITb4ksZTyjFf/LHYIx3VPzPSNtpCqh2bdQtZYi0DyLkgPK0bHnvjTNPcBuBDuirWfMr82Ars0vnbj6nzcPtRhhVrXuvQj4XCCgxKmd/LRjYKr65hOZBVpT6Y2cyxWzSN8lII8d8kTXZytNlwZIqEwcq/uRgfTM151DCJKT8DTZnc9olQKt9AV0HmGgCS41AEc6Caa+z6FOWjxCiro7ar2cIrfEHnRQu+cAi5+fEKsVy58rkVswewz/7/J8SPgeBNqFi4E1LiJOXDz/hRXqfWpuTUoyh0G1vPbYNdgK8gGAIVm+MoN1S5WZfxGYQPfkWDhlL3ehHjQtO/g4Kacmj14hHdJ3/WbI1NOfDskBYmZNan6gRryORVqbCvp0rqXxp6mHBLHhE59mNb7OPkyMtNhru8cIF/zwaDjWxc4W/+D20iTdcnLVLvXFDGdTwvMQe1Q3Lx2lbtvOVMuZptInG2QpBSqytYpGAx7GmOuQxtEQ/ZS+qezIcJM4LX1SeSAvo5si1ReM2H5oG9pMvZz7CW26khl8B7XdpTTZTfj1+uIanj412yXydbZJGvsSzwJMUAKpV8m3gpEy5tNcSlKdF6Q6dp9rjG5aXc0vEdgPnLTrqbKj83MeI4ZTafSJ+mkPBZbhID50MxqHsoeZ71je24q0odI/6HK6RWF3NssORKRqSCqTyn0FXrS9TLMYATlEEc7+pD8MLXqb1aP+w6nO8iy/wJ6M5STKgPgljpsD1pjZ+GbR3ifOHmsl2YdXlHuJELoWEuKA3WGN4bil049QLSr5q2fRmlKs46q6pyKIBZdjBO99h3FJL2QKhzHEztU3BYNGL41ZGFSAoCvBfemQtOPLnkmqLuyF0iyegqJFCtkHf31IDPf7XQYw5RhzI/QiVGzaJVmf3j934/L/IN5VWhDaiJj2burtZpX5Z7hPUhQuq4dVycpzMyw8bjNDzwgqIjjkcBuu4onglGDsiipg+umqU0XWSJUAFBFy0hLGDN85ya6TTL+U/T6g+OleWZz74AjaMJg3akz3AN64OA+E8FZuGQjhk2PrPwplVb/w1KHobEORo/Y8Y805nq8F109omVX7fHPhRdPUaWwAwVEbxme1a0JMxb2gmbwwajaU852Y2WtR4f0o8u0U4ogwoQZaXMaDg58VMlGtYo24YYt8pRD8ClEwTtDdx+eGpUUgkj45aGQmFWWu7AQY2E4JQvRaZemaUOI5Bpbz5JGqqpAiZvl8IPGCHVVkULoWzhgUr12pGlKFmRyTp6KP6YQOe6oMRAjEOxzBB1TizwcT4k9NFwT+8DjeCtUWCKbdoF/k5wlPNLpliEmCPXtlRGuBFq56MUSlx+D/j6UmdQt+VJZXIKm8HV+6OzMrBghCWdmZ10Z7Wi7GROG7S0GZD2ZZIL21en47T1o57Eaj5PUQLMCGvgfE1jPnZRYW1ZjlxUx28+dmxAx7o5PqsF33pfnomYNBnTW5d65Xxe06NJf69ih/V8n7cAP07ISTQUb392EVBHHwZsDO8QSKpvflXmbUS1NlYk4biOFhP6uMJ96D0ormUs+ZUC+z7m3YRnDDTxQ5NzdhltN7R4j6zaRBtMwgyiHYYjwIlfl3ypXzEDpkKQYhvhJ4TVOK1aEzR1hxIs5MrNAKdHLGwienLdTuTtxCJUSGlivfoJSQ08ROfSTGiYFbkSj+WSv52193x6sBOo7X5voJJ0O5S4+36n31FBx8Hj+76vH5QeT3bLfnP8ENSaCWKm6Kbzf2Qj/0w6CQ5T8ZryabmNKTAE59MqDvh2IXbsN2fR9DyBgMWds0YTZItooiNpktDmtMElkz/EmSHeK5Dg/6UvFhTY9XwFqdSkZSAiEHFzcpUdAKKAGsYuojVX9VK/OWoOMlsB1bhxe6wT0eKC509mGF32olLjNn82KY5vB/3w+dcaSpCufFwoVHjw3uoECiyIRveztXlIRvI9ldtAWMMbpGktfx+88MstWnWE+qDjCV1ZCmrHi+EWqEUhfF8RUJ9xdqt1BvN+BuVPuUsPxp22zX5JvzJG4lQXfPGRXOWFRrYw4e8jeADS+obB+PJi/WePKXeSPkmlhdLUFX0Uw7/otZ8ccjiZ9IRrTfVkGuYx3y0AkQ/6olUxUx2bsIix02tJGKMw3eQhdNEnwRuXIoJgV7TyOr//F+gSHkj6EjqwXenO3IS3EtpLXe1ZoxcX+uAVoeO30/3uh290Y9z1l8xnvIYwGzdLURGzW20xVsQsLDnqaJido9fK7w2nXZ8y33EIuAqi3qFb7GyVTIv3dvjd/3gJQZx0lXfUbRB3NOUOKmsd4jqlA/hZ1vlxquqikJMtN6xpw7RRal0KAh4zVqm6xUrYunfwsTiuNTQAto6d4UwRd+ljip4dqwEDoaZYMuOc/aXGR76hQ57lBBI6v0dW9nRPmz+CEQY50ys3sQ7AyxjP7QtPpGg03bq9dcZ35H6NTjSOobs3W0dafX1PrRoGJghCe1cJlGg4xqi3n9tn2Gh5qkhYkUNGSSWrrwzLKFIjxND//ztx9+nnmNXxLyF6L8RbITlhBZ78eGel9DCnHUhAl+xmXElnsl5knORKnFDraBOkYkZo28kLgtk/3Mk63bEjXowSf85kpRi2bqgJd4v2D2OvFqYdQv6dwFUZc63hWsoiOU/wCla2xKE0570S8z8EISWntHM++9KSDKYkT0HWmb5IUy1s6OlFiurGgIHdGF8dSiMITg6ZVVPnyyFTxiAnBA88YFrRDvHdmtFuWNBFRTKGpzEt6cVYx7Pnu1PmegbrfDI/R9ft6SetgUf46ROcmLy5sAZizDtyedxQUixz2mEF/cYqqHP0WdSrD6dOw+N7c//Kl0NKqPSv4Pt0+GoJw7Iwn6u5exXERa8BELWequL2aNzOZkbLyNkMORfhvY5D4QPd0PtR+XQM4G1DGLPwJIRJe2zt68+vwhLnrufaIZaT6+08CvtcryoooQgCLm33VeiSjdWIlMmzJMlChyp24KtTrNtj+DES3+CkePKGqoBieVn2lcuRRcRgKDBbZWcfxNPO8xn0gco7Piha3ircIfHLq4HEv+SqEnJcnx+X8UAFrV4G6ZDdgJheVjTRpA3VSmfU0iVAGUoD8wlL1hV/Gi0BrZyLigkG/be13UGd2u1008pDb+gYMOeiJbIjEcwPhd1O+J6F0amer3Xwn0PKtnfN+WFojIa970sZ4teOlaxoPXSupwJ5/o6nAOORMOPc1tMvGmCXJllsU22PbQyiJfoB0fEyfSTnPw2w1gJQeXGzT1/z3kzmku3T95mYT4Gxt+uWrMom9Bau9ot9yFZi6i3av1R0Gr+9SwP2R+sz7dc3MeZkr8oFYJSQdimcg7kLrOO0Li81GnV5rHiSdEgUazAVOkjjhH1BO7hyR5hG9jlUaGHVmr017D65thcqCWCGcGODt7CKAL+XFGHNCzP74JyneFVrjbZu/vMk0zWMg2qH+40CRVSdU68w2eGBCMjgDPlCqtS9I+PiZni5edc68nZ6cY/fG+Gcb9jtvLbAQVy1HaTgjaAT9391/SU/xMw6ttpcMMQJ5ETCoOlBdttpSiTYcjcui7uG/3x82aEqbMaizaAw0RkBUEZJ0Ch0Nq3D5SZDsAaA5Mj0J14Z4NJyYKPiIkcfcezQ+aG1TJnFmL3M0WHxNr2jLXaEVj07aJ+OsrMdYzgUjC19WORdiLBXWMyoDF1gIpHKTc9dYLtJtUS4jaJ4WeNAnD9+FHbtVcG+ctebqDgQlJ4MYcfsP36Tmb73BTCfbOh//tHfKLbHlibUARM1if8cTaVoKTPZH+itiDGCHTmmlM+W3qX7JaxvZajSFqm5PSsuZhg6hSLH3WHirZS6AzscBQDp0bmcowOzd2NRQiJt9cQOyUWyGvnj1M822jFt8YUY8/CiZ0sx+1sQJhTHx7h3IC7JBphLcM9cIPwmAcuNoQqFJfR76H6ZpNY+MJH6HAPQOWBlHqMbZ/3QFZ9YNS19EUyBtV8drjoBdxekeCWSyslkXUFZZTiVdfqSyTjnLkiyH3KUjCRId617iPKWsAm3qU5kRwouJmFq36P7MufcjC8SFliFEmgRg5cnXqaAhc3ZlFKGvPwLtmGy3Ce0DiM8K8mSxchRi7Q/SSgRCoTXQD0b6a3dHo4CXKMxQ6TdeVny59//dAZPrFMsh43D9O0ykzn2mmL+Kc7O3AGPyt+Wle2TuAXyrFiC/AoKb00m9/GsdiemwIsMBJXFdw/kwukoDLLSIHczJxzHUtYqbV0ZMBFDAA0o1oP0GEwcZE4O1eCBwuc+Og+/4vfjypYRhCReL4pB6CzQ+nqJ26Qam0VRgWPTh0TL81mbwdqap9hbWnBqNqaQquTHsFCTJF4FFZ+liEMOS7ZIZvBB28GkWKIxrO6NLXtrAWMyGSC5j3RWbnWovkjWPFZw3z37OouT4Cudtg16HnYtPQ79MjVGdGrbQagMBMV8rR7EtTX7BLPmZTEFLJXXIb5UQ/MjXD6OSKwVjx2XrWp14xK1MDrB7fgTxq86VXS0+CH5sJZIGGgubOH+BI1ErsuC7CSmiOXqQFf8pWz8VQS04N5MfYUdFuoGrRKprKAKIN4kwEDQAyyNU33kWizUc/agGxwmnddvYP5pS8h/rbwGJ2ahlQz9SCsI35zaWB3xQnND+mtElWrHM1hjxz8/K99yfswdV2tI+lDRWJfPS2/8aUo3vx8E9JNySA53d84HzE1btRqS0NVheHpFDSvj5IqWKuPpsp9b3BFAFQGNZIG+qrgLZL57OOPvnKPH3q2i+uTnJ9Pl6y+AkaEcNQcpc6+q5V6hnXj2/NQiEldGiAx6nyx8hxFBkE0eGCRWXDgLAVOepDxP5eGcR+ewcQ1wbEoZcKUDsGNUuK9QCnkExJMy1l5P7lHeGjH6RzGEdQWeN3P8PBantsMjIX17An5+cHfnKeqfOlhTiAE7a0j/kTaU0foYlVA2nTkwxclPAUyaxF3zssDRfsx0ag61aBXlK6EE1KFbJ/PXhookOjU6qKbPNJD2Q3UxzcnbQ1ysmiuIttqfXx0lcjADq+hZvL/117TVTnvSKHTed5JUM7tkx/G2T1UegPHw46MIpW2pMOsoVS2+Ag4SR2LoOMK6v43BNFCBlTMqDQcaI4R0zQ4kopEWW5Nob+C9VY9em+RRMpFCW0nlsS1+fEzrKmnQWF3HoQsB8BdY89aVS4v4NIaawnLsd2jjDvQFOYV86Xa2mgCA6CrqSMTU+F+qX5OlypFoIW4nN9frSeh+zgbQl4h/5Ur9wzk7/sn/pmiSpDTzeaO8vP0gSU2KW0TKZX3rsCumeRLY6AynJ3Uv6YG5EnonSrLd/R/We9u2u+dsSDLhg70ZKIVAIuQOUsZlsxBLll++CmJ9k87g+f2/HvBNAVxPTWJ35bLbTPCtBAJhsJcQX7sVGRRw9XeQblniRPg2VEF7M+KDbpEDscWj3FwUHJnrNF1GMScJky+Jh/TywYL4Yxhu0CUH3WeoXftJs4oWck82vA3u0kU3+0dMJXMgjNHUm+atsJtcbr/xwvFkSYOs5PC5sufUqbP9bNq637AcuPm9iUjgAq44OESX9v2UEQ0ePZ17DpsIkvy5HmdszGYtZ1kbWPQ3XgSgk2oEH3QQjPrAlffFi6Xc99x9pKBE23Oc30CBzLRnhqgW97C0riZtvoOViVN1HmzLVz/EFVCSoEFNgZy8W/AZcDIuVxBen34qI2qkM9Z030FKl2c5xKun2sYW2UUhtYKJH+s6yXeWlp2Gmp2ky82/OqGzSGRNJYM+m2KOCEKC+/iarS5lMEBYQtHpjZGi4cqpp/TCx3S9jmQJP9lcuUo1IvhqsXaUeuUhWDPtBVPNdUvDavSyHMtcETTobagYB0gytQcMeKxDSS4odHxRPFVrBEP+rHdh7BzuS6J+n6kSC+556N06VIV67fdjxFw+ULI427AmV71e9WHh0UYQL2tfKLwzXt+O+7+waA/8VDijcz8va30EJTWLQG+66bBa1ZC66mQS6aQZ5fjZuMnWQK+ViXPmSfaw6d7YChfOYVpxKXQLm6a2bj06ykfGUmxbwJ+hfMrtKNyZoOwo5HWoVV/zwY1TbOdvoXGT/oAlPO7cyYJmU/ZSCLST2WkTxVSzb6nyEfAGs4/3JJ8Faud5PWpDdxmeqb4o67x61yl0xPW8QDo9DIm129hUr2h2Durguz67TL2IaXkrxwU+Pr9ZyTPS6kMi5VU3Nn10ef+ELTYuwXPn6+9DsH/pQjfjuHi5j4oKsnLcMUkOnq1JQ1GqAotcBLMzI938IechBzllipaHkNva2f3Su0NPURduZCEEc05O062tZBHJNihkL0tqvo3SCej/nbfIIJx75V59WSCs8+X4mehR8GocB5f8nk4V+zumlOo5WSXPFOiPxfJgEhifDJT93kJkZY/Goj/jmfQpqwEPMHaGGDYN4QNO8LJbvTOdvVTGrHmjGQtRF7GZ/yXJL3CWMYO+1nd0a6sOpiQpr6mOgWRGZSse3jk8aMZp2Kt/dBxFjrHpuuqEBZLp7naHYVrt04OcaVvRgB7aa0vn+XFwjMcadSSn0Dh/l4GEmO0VlqOhwsSN9ZGutPrtQaw7Ffsz5fzc6r3nlh2xZMj1tKYUpJ1GYXkldDlYrT0GLk8b+eTi580H7N1sS/wiAZjoxvPiHQYIWUmEiVFCmOhAKIRFwGJ6W4SeT1K2pon0BxH9htbVlXBG0IK3jrK5KEZ28HkdCkJMpcZex9nEnzv6EHCj5T9tKbkAw6Jtgqrzgs+7hHw6Xug9rraNSPmxlUnDT6nGo6JwhNczgutX+XivEmp1gsqR36NHMpsb+8Rg3DO2TNwMlLnrxzp9l3E+jlTuNNwVHCPzP0bhFAgRn4fkXc/W4ErBdRJCX2vjwnBAWLzFG5Lxs3a76/xAZV3eBdKKV4b3grXNMOOuQfcd6hYdxPBHWqSU/0e8NsGa+YhrZmTHu61Nryi+unWidNeLX1LkaBY9p01gnvj8GqWKJkRB5XTwx0ja2H9cwomvF4lsjU9tCdadB4woCKDPmBvMme+qqd0iXglNKF6pkl309Sjj9xvM/JMltQJMyK2VuVp8edY+HWYrtYxtAX/LG83DQqLXjo1Vw9ic2HupOggYKqxjsDNpgrtjvGptg7aIXP9swBEy1VSDOdU2KlFkUeLozCq8yM8E5lJAbh1MOIn5o7j3gs/CxqPO98Mo1KeBmltgHX/fyh+jnb3M9JzSQgTYrnlhseYo6b4i7hDLus3Y8LE+y9fu5lg05G4ieY0ThKyeJI1n0wXZ/pG+fxm3NHkOsUelBshn7M4dlWbvI8Mn6JN0I4q7nuvNG5CHDsd3bXH0TCXZnnrZBxmCa09enrUGp6wOzHKKBl8OKSpOB8/G5ML8SsRLylPxCH0+S8nKDk30NLDLpS6myzLpf2SfgZcYCLw70mBIkWCQE/aerk7d3hz9bKpKxFG5OOzr2j4nyFjcrp/LkpAt3Y30WxFKkqXnJ63zaUaXDTrSlMSnGwk7aeefp+UMrvQROVEyBmhXMUPmoeqA6bfW07eV9C2qF1UVwvESUw1Ru3xEZ1oKinwqb+Lo67gtT7LlXpMMKpMAMQk1LIlkJJitXZw8p4aqxJrH6TFv6J6ZdWOzS3tH1XUVbATBZiOw7bXKdOzGMtwhw5AcMfRH8wBvOTJqNTw13+UfNFf951snxxVIfUTZLN451xXh38uCzrbB5IMFwlZpAJ+NzWx7kUie8zh1q0KBw4tygJ8anjK+F2Ep6/M4CDrq1mbrfZArv1UPtX0bxdgOovXUn+lf4DMofEAqBZeU6nBF5p7iLdDBBjjwFe0OPFrdEZYvqZzZgyPB+HmUYDV/B0p5IXTFnw5kmGA5uL0YcOYuNnAM8Q0+wb51G8PifJyy9OovhpIeeHI4ifRAc4lFCrqe77XETyWI1p9YMMxSky0xJwyJmSu3uU9YJiifXU40DopGaZDrG3DPyFkOOgGsz7Yv6ZdKkhKSeg0XehusP//Enx8JbbNy4kdUtGH3fK2ACLUxxEDk/KwZuaHjQGyYyD4baX8U8dNW3K+AUYPeDiX6ywwBOVhAHInosjcrpPQ9fGo48+WzpR0wUdtru92RJoG5OzQBiRGvJcWd5unpTXtAtS2wdqT6WjNx9A58qqOlYU9qAKE5r+2GiB3eK3YDX+JrRk7GjAUxCjNgMDr3vG8fz87gfPgelGbslKYTxCGL1HD0gJwuO4JeOPmlFEQ9TNJGO5+a6Eu9v3npAdfQBXFMLKkvYkef77QWAh3szfjmj/T6zUz0vcBEkN87u43TmE98MgQPOnRtRTUM6QQrpYAsd0fwJIjAGi2c6ZldC7fvsfgz/46XEcPA6UY9etVp9OdehAq24ATZ6Mluk28iy+DHA8PovmVGwtU2xU+LCBXgYF7BNLcHPv4ATMHzJxC7ybqsFcLc+J8FNMxNGOswnUVnDruPT0gZteblz51wW4xtCvU1S8y50dGWMN+bKJiv//7FMXVE0itUwp3+kQosNurq+jGWpEd0bwe9vFfNyLqBWiENnPZv8wKWoFZUkLBFyHLSigZdthEO/25VWswoaXcvf4m8HK94GhgQowK/wVvEbazQeZ1kJpqIMJdg+DKm5r/eFShRdHj+pIFFmI6W6gWZYHsXDmeLGk2OySRofCygrBQy2H2zrg7VdAmSfyYaHyaYcDST6MRV9SfqXLUfYnHw/ovunkMbBDfhmY+9ooYLxbWLxpyaS7yyV6vkfQ899cKH8iht5YYx961eGHw9BJ1K0pUpnOFkzkxzsnku+ZVrdnl/Z4bW5xg+ffHhSh8mXY7HdVF/B+PEGpqijiILUy6YZ3dERhwgXTDcqoQzzCEPZJB6Dp9+Ryr1pR40b4rlOteF2sxyTA85fs1qJcbkCbIw2Onx/q0I6qSQcbHnYGUO+hSDxIDY2X+UCMYavmoHnWm1FLXxR7FAdA1F6q1zftrhy2ZdS5QnWHsRBSLjI60+GWGgE2n7ZLDoNmnNWYNMYEQyhvKg/NikGD0qWtpug4fP/Gc1RtT7OGkvTFF03n4AGFhNZ4AOosJ4qOeeidNv4nATKY12TDLgNjaMlbhGaIs8hwc6HDOP4UAIBtuBmSi1Jo3VrTZcZ22L2MRH4rMcONZZ6muUW2R9Uyk+ST3+zAXZL6fZeFQCH96eMQbbXZS7p805WvgXsGfQVfgQYDyIBJG1pFB/4vCoLGlI1kCamVELBoPWWglj9lXEnsa0FlpB4okv2QFLEGra6TnlQod37vGCxrqSqGD0MrScQpvp7+BsZma4jO69Y4QPqLSdDVpjlTA2yaCMTC3IKPhpCqhexXbCA5G1Z21fm8GcN0UBnIPAkDuI4dgZtStsH0512v29L50QgFG5to9KWt14PIkmj+o6w1QwsCwaM5E+99y5secn/wvWzJjrcr7BPMJ0oWStkyYFQGz9DZpSmAZOazdMm4wpBfkSL5r4/gEvN8sjVQHWNLm08WFVc54d16acMmpTrfY16ldUNZGELowRHlTf8/7Tu8/y6yJvUCSHtKS0NFM//N+SAhCMwWAl8Y6+5NJcUVzkQXibHAQQUeuQ6rkaZyu/+6RJlQCizWKtV/lRq34lOLhrcsWTqvGdu+rOrSEvYm9XdtjnWPyn/snYuvZ1iRX/rcFsM81zlR01jKfA+duWiF+q1YJQiPahucwAuIuBqpbT6OHOikIZ1HeYzL6JR+D5v78MnQDoktJEk9+RfeF4zvT7jY3q1+xgb9NpP042VAyAahylbltOtk0cHlBvNq0WY41v6bAkgSD8Z1IeCknWy+bTNHRzZ4/k3aYVOgw0v5Pg6DAFn08pPE4s4KZ/6QubVjwf8/uvccyFm0wcBsGAyjT62LTndSzQAYalWOm3qN5WgIQ+ckMmjeaWNGY3SuvTW22kHFzQ+MTgV0uJ7L+XA2TEcs8++6+dp0osB9GmCSjlVWmVdPKntViGwUG0R29/XgpBBim/1uTeBgMTPZ8R23IT4rNF2Q7AMtNk9bWnsn2oe4qC6hgk7j+/P9Ji+zpbkz+/odBddmxHv9OQXBrFq1Q4WNcvv0mAlw6seXBRO7PEgbwbch6eWS9Ko9TYTjCm8pYin/DXTNj5SUzRaOjL7BkzEEILAXk5stnsgy0oHb7xh8F9zpBquk2k8zA/3JgBaow4c8AdfUG8CXhDMhRwNxyc8ilByWK6aPZ+k1N/WmYHHvqGRikvqPcqMyL3l4UnKeeqmkd87CUwRTKBk+YzaO+dE0ORrKHk08C4VRhq5l5tmK7g0GNOUMHW7qqH1xLi7EclJZW6o5nhipZSn8pV7ZRYien+zO7aYnXx+1TAYZ2jRYijPOVJALfiZfc5mNBb+ePJvw6Ie7Z7UHAX0WUGy8ijS3oBuRBxf6Xl4XYip+4yDm6yWl/81ww3fZ++ETWgLvNrPDxQH5SrVt9JObHxvc8r8j3RLwc9SiT8/37lGl3ifNxQui6KvfErNaouOLKBWkzfuX6iieI6jPYXOTuQWCUhNXsiM9L5pzhhHDbMoPSpptkQDrFrBh6+1bOm24giPH8zl8/B6SE5Ox4wkeGnOfEPemXnUck8143xSct/NaE3HeVyh7fJ7KQ94rCI8Hxxstat3u8LNshsKQUpmZROZg2y2tVZhjq9xaV0YNh1nxDXOotnOKS3+qoNt1tVCR7LN0Nl7FYaMFjJCrM//IK7mO2e5RcAXDhjbNVhgrjGcI3PUWU2J9RVnGtMux8slcTrU8FuhtOUjLqSBxXUOS66WqWg+0ky9mYEl72fl7/n6vLd+UPbefvQF0YQjM8vrWkGs7di44CXGY2XeoF5yEwvm9zQXN0ahYuhRiWJZxxqKFn/RxzhALxpMHA/4dU+IVwhiwAND7uR9Cl8Rn72f/12RoyfhMKLUyqN3ZCrYc+3zyNptVcImLU13RDPr70dMqSWQLGUraR2nZhRdO38gtRT/5Gydc6bZ4K4vDv6U/BuGJQWMZ4TWA7bxXxIDejuiFxeUni2eoYbTzsabEPeUhvp1pX5jpvLFJ3Nie+D1TAyEWxuquw4tREo23WSJ6T5oRzIG3kqkH8nTIDALUfA/N4oRgUq95wnU3YK2FqCNJtXlsznvBpv76Fkzbm07PfhD5Ql38KlxtmK4QdGigmdT4NDi+C/zOPg1V/lOzZ+b/TNqbKT9Y91MC4JMQvLu0RoZ5D7RSnBpTzPE8w1qupgmGqMIaPmCKkFJvWe516a2PyuXx7liDz3palfmNYKx9fuJYJFNQ9iygMAvCFtCDBTD4xELlJ0cQtFDBet+t40p2c23+wRDn5zBVSZdYH5skmaammuTqlK22zkhkDVPsI4vQGvj2NkatOVWpfXBO448lDM0m4DVx4P551xRVx41KO9cSRCHvgPu1r4WsdvuuZZ2DvMUDp/IQzPiPzZDTydmkuhShOs9Itr72NHfU0G7WJ1PsaI6XTJdmbpwuidAuInek0zT8y8L2xkK99IuMLSgFRFybTxLVfznR6GRFainxtVQrShtVKHf9j+GcJfZfm0cr9+Dhygcy6E2PCFnHdrkYQNQqYtoGO+yHIQ7okSVowQ71pkAr3ZCZwJ9hVbOcg4phLJ90kW+Vwbtf8/tze8Z1rwVeWTSGOMgZzpUC1L9BMX7mefo+4zhQgPvndmeTfeAzy7Mm0XJe3q8N6hSlhFBikeR/rbaelRj0RQ1BYaMqTY/8oVUTpLYhQFG1lBTzfOGQOY5QpXWy0UaIMhFSzJpBLGvIEbHayNbae4wP3CDR8DbVQioexht9QRaIAxKjGCurg9kVVUu1R1TMUJByvyIa5Z4CouD3LyvQLaNf++00T/MonTJwpJVAKvbv0+THAYtZmUCpJcY/QDnqwPszsG/N/gTU6XlDDqoVbn/aOTmbTB9MDXCeIf5/Gtaw7dl2C7HpQzG3BKq1k/FOLwO4jx2hjjyeywWeI31pBXa2yaFoFbdHeOz/UDv8tmhswSspkFyZIUxqRemAP0Og+oHS644V7Yr1Io0699AsFPAFMDT7tCc6yj0R/58x49beaiIzFlnnNLnlzdXYLyRcMd+i/2ZDSRDb/7rYX36RK6h0wM2q9ct/aXCR+Co++26GGVGSvCktHSepwVD8xyRZh3TVIcyfGX7+xGiY5k4dY84B1N907V7xxXTsmqEYExqffjuLyIxw/giTlkX2aF+MK14LRp5EuJV4EFTF72Ol4/EoL1HQAPMv9J/UGKxbHsHG2DbSQ7mWBB6Utq1fTdqPqF4zsccJCPbffuMjdwwZ2l1O6nqbRYWYPRghxlEjEqLPvsWAABUpp6f78/Z0kx0MdA0MG05wXK8/6FpBHg1DodZ0f5xhiXLmcN4EZeII80nWxdtwJfN/jueD2J7mJ8fNyH/U3AVR90JhWr75RMnvJUKBg3Ipgjcz+o/zTa5rkc8Y4GOdIv2KBbquFPEpGPdwTRyYCedz1/obmxavZN5NA0jMTyYz0Hin3Z9fvlmIYezyTEn5S7iK643Ys+FgpMDnhiRP4UYtOz6IVQ3kelZLnCpB7HyWtNSTiBNsvEtjsLW7gfbotXMzgv9VKiIHzE4icYmdTNSXtICMDv2bDrEZEommJk64LKO9RSVm8yjn+mXIFgMPDPFMdKvMr9K94707tq28DFNt46eu9oo2sCMvrABTO0SE00TT3H2465ctLimB9zb+fsN6sdv67OrcebdqAo+7JLYbtpqW5hwb/UIycUrUaw5iQU2itjnqrS5BYoam17mLVzIJefV7JoZf5o+STL8oBEN9Qk+f0XUx7evUgmiMhiTrq3cwM+tveXjFMY1sDj6Cnk4w6KjvX9EdBIteI4QyJ8X+lXNBg7yFYMBE0dmZBP9ZjxTNYrGn2ebJuEnWi6KzKk5TP+lNXVCI3rryzSyXCYrE9TYqLnUyUUbr752faTrBKSMj3EnlYVdVUuxJibIrmp9oiHKzjirD9DVK2sA5WcM8Tqa6gk579EwvDO6sWrFJwh/VIA9q/YVesJAc3JyzO+75hmTuteWBC1ik1fOyPTj7ID+hQ4mogO7StCOF2+pBlcOm/YW1v2eH+ZaclMA/CWQ2Hq7qWRpmCJMif8oSgpxnxDs5PXZ9xz4o21MNOWxE8suvCZomReRdSN+/0ATpOf3VU3S+dmVYongbQWdNitop4h2oO7iuB9sjqKqBj/rENklHzO9Cbw2i4arzSj1L6G5x9zzZvBqZZ08qawTaEq9JfRFLtSYM85Ms2bQ98vxOWX9oue8NKrELY+2nnxXrocdy185UdcDNCY/6yBzrEOZ2B/3Vr40gH9wtUp6UchtqV+lFGO7heYhuM7K+gxEqH7BomkSatZB/xBTk9hNxrxl5jfDbLZhkqGW4lvYIwShK4n26pWLPzqA1cc1fQ0wUsf61X1b4W5dZN3SgOQ93alKMG0Zu9YjKsu0B2BDINKlePYCHgUhfzNqCYwjrfTeYC8kpsCDl8Ph7sTI2eI/XZW31qWotpLI6uPuWC8VyaxujJWjGDV5xh/NlsB/iGlZ7dPi2n87h+V4o6zZ9Pb0qaRr4no77XUHkWT+SrG2Sjq1JR2rUZ/4zfXCLcVE7SLCU/e4zbEHtmicsm8ntcU9hFaCthJwf/fwvVup1cVfWb9/s1UiAslEVYePlphkbRWwi6oe7Meljx+SBMYF9t+hzB+B9Q6cV9zjuwaHHv4jbNYSap057gDkO/y/TieWJ2W7PeBEQFRkSqPIjGE9rg0d9i2AkKU1kZiNxNdfo7XCK1yTaLG9uIm+z05xGXrHU3NQ7OkOEWBzzAferRnKMvMxc3dv5Ku1u0aqLgY83z91OUyn4SZpCzYfyUTl+n6VLD5f3a4AzSzwLEh9UVIgiMdW7uIH0tjPn57BLJJm3vM46DqLNt3drikLpA3Js1Gu9GILIe23XgKcSsMLeIbO39RGoWuyZ3OP5hnE9gI4n4kdTOXKeyOxky4E3SNTKr+inq7F8eAeX0f3FbuWG028ZAse09wsfcFWSpl46bmIQV+aoFmJerYO5bUxi8ffhSocYEaAHd03HpN4dUbi7JVt+UHcvXLXznqohFw1EaHTf0SLIpO4MtQVcJC1xzZzfTqW3zWSBflpfaF4iwN2xEWnYcsds8C49T4R03xr7akwXM7RWjxA9ak4gBiREH4vw0D4sFd8Ke/wobz5HAVwXo9MIB2Q+e7MSgIGIUjIUCAboDk6Y6vUqrS7gPiOZTmGlJsYKPZ8WLY0nA1ZosI5Rx6wxa9QTyhRR4zvrnubp+afCvR077XBcH6vr8/tkQa2DGkNpzbYK1sW6iDx02iPrlvQqRoZqDb7K1eIfZDVpvPcOIlOH8wZ2ps7Q0ghLiNNPa74jPzdpnQ3ZcruGhmOn2RvDIta/+mB69ErMieV0FvAbW84Ept76R1P63/NrnhPZY2HRgLFQnLFbolbt4fTiSk+qUnJzV1N4MkYNd3xRVq9zw64c2KiA9WgK/aa0KGifff6BvSfz1hDyRQi5YNKKpNfPglr4gggRJWhXSTb+1EIHlRXMLdo2GUQweeh671lApHemxLuZy/dshC96NifHmPdVU6Rzh9aTFh5hNZSQngquiEUVmAYztYxpf6pLVtjcWTkquInH3hqORAJQV19qw82eNxNvcVi9IfJ4BVGgneA0zujCOqnCmC8B+z7GUAbecOu/WfZSx6rLjPU6hTIVJNnU4pKuyQiUUBkHe4IC+22jNyzWs1M6R+T1sDTWcQX9+pjsjT10bTqXidIM6HLzYLLoIEi7uMK9ATvm4YRX348kI2vKLhGF6IqRJHkshpx7zfVw3yBFUKBS0SluFL/gLck3KsIR/1xcdKPY7hKu2pVK7tXefGiYfQmLFyulWK6U3hax5bf/sGU3+BzPriB4qkcn1MEQNOLM02HUKTgrtbpHg6jClmBG/WZ8J41CoNndQ+TSEERMib3SZuEmRYqEu1VZFJuKELzLFxLG8+0TKJAPxcKfaJbsrKzAsY5OtQIfTc+awZQo7XI9gAWB0x9eJ1KnxY9uAJi2GsFYICvD6K4c3sfagAH/Jl2v5Mscj9M/Mx0ED62/3/WMrdy6Ricg+vvI8fIJehi4vlm7d7UU3wmXGo5CSyRA3TAJXnI3lKyie2Z0IOoK73R+R5VL1v1KgZ3bIYctM8tZKP6poqMwEIH9sxrvFBZkTW3oUvoUPdmTXoyjAftxiJD+QTvQTSHIFtRL5rGrD5L58UzqC6EDuvL0K7QZAeVQ9EJd9PIMnCW9DdWoSGIm5bLxgZ3MWDdJ4e+6nF7ULig2+SQpaPbuiILVM8VKk/AA6ca1YwCVFX52GTIQCTugvN8sRFkXrJ95e6CqwzCdK4eqjolzSgfwPFuIZ/yTPAvPcCBPHL/CgjgzZV5GbS6zL7KAI0K5b6ViAF9chQ4vpjxFd8I68K4TC78kb4OVOAg43z8m9tfVl1QcQZdND705e9MHXvxPOtG8QVkwG4ZCYzh6HoHlHQ7qDYJE/iUYdaReYtbnglC0IpCKuo/Z9eWGF5K5dvaDcB+dcwpA8JsyIo8ZTk+QCAAqbW7yXo2HD9HrX7mUMVi9PXmNEcNXnxnmqzLdIhnReP4Deqcd2t7M5GAeASePcNYQViaTT2QVSxBj35KfUh/iPKj/95hQnquFCyw/D56+210efHFrNY7JjHe0FeHr3+gOZGeVrQcL2jv2jRlu8siAqLi8l/3LDqSFmBEoE9StWu8EXb9soyIu6WCEFEtY+6HSDCOYaw1FB/oYYSQzdQgspQPm6xPxtHZWMi/r3Z9Xe0WDiiaDOkiUwEwxXBlU6NJENRj6OmsWCpYgRRiDZbzngzJLhELiA1aqG+xBUYoNSshnhzW6/hxlwQdiuFQ9jSDqvRge0buT6rUP8iYOd795KDV2eWyoP0N7Zrc0Fw0tAy0kQ0IRpYIAf4dqdeEP9kdr7se4Lh+8gGX/4J5qO3Xh4+KjvLmlTlhMig5NDyHlQASf8Ltzby8TItC3HBd5oTWcbw9kaEVBUDsVu64XYpxzDc79B5hSDN+GGYwfSlGY9I9xlymFl8u7LCDp9QbkBrxZ7Bt1W9FQIHT2yBuR6YSniWmWiQtuhuSXwIUQOAvZZjZbPfSkbTLJX4vhJ7WedONoz8uISlaJCn5V5FMJ8D+GsRcEqhEdb6a51bHvxopZA6NmKVwtnUYo7ex/Cx/J5nMpCNx3G4m94fxFhYXaKmm1CCV7F1KaUolwrTyeyZW5hptzFA61mBO9GUXyjztUD0g65e+OQxGTxBA3+w8YgtEPYj/SA4BJ4GDU+puMDfdcVP6PHTN9vwMyLBscKLangkWL4e/5ig2qIkXBN13Eet+CoQBIapeUlreJkUiO24sxLamaFX3V3WX020eRzJLLtDoQm6qIeuNaHTUhdskwWCwaA046ABrsgQgHDljSY9hSLMyxgZYXHlTgdtNokhpQYDu5DyoKEGcUR5xOr2CfCf2Eccmd53DMEdHco1eYPIatK6vTlFUNyW0eW4kcqlC+1XCID0V5U5cJ4BT+bvXgiy/GjAj/m7XfzMu+kHG1KlpRWqaeV6LFNZW532mCk4B4SDTiX937je8Mfi+oug9oL772bI5gcE2fyRCFybo/sk05DaSJiFQTibrzYlogD8TnDKSQqHBTFfpBiwnOTHaIxd1b6ZZlxzNxY/yd6gDBtUWJeaH29mvl5plMuv4IDV1bufuzQL3GBYrWKCsjq/1jXBs7njkyrvx5Sb/96Bo1L5RL2/T2B/enPIVsx9FNrqeyaFLsZiWgjluObShinorQaJWQGC5wRxiqnOPZutKzwHbu5wbAw+BLoZ+21GCW/v47/m35J6K7BlTumTq5YBM1D0pVdDfxEbPjThGppBzYPvAMv0mh3Te1gPqE9uKtin1DNW4f/08AxUzNDmc7c6GSDX7YjMa0RH7wmnQbKNuKM2nqX88OgTznHN5KifWJZIlZB4GMZW9lgtSsd56/TMdivjzb+4QZIXHEWXR+ykdI1tizX12A8orIG75E0UeC3Fs5NBxCiuhzf2rdCW5wvByuBUWzI08byXt9EYuDGAP4oQ0VYlZNBv1jf4I+KuTvES6G3VLSW/QVC5jurXq7TIUyZTYxc70EGjgOCcB5rMv6rXyhzvBgnX2R2FdkG3c2/aeQ1i4Iydb47g/ZjD7Qz9td18ERtsujn0ix9WyPgu5ZVRrE/VQ5JVDoUUpEIGsNsWkV82O10Mf/Vsxw5Cpr6Vjvjnqz9Fz/n6HAQaFYO+90Feuich/WP/rSwvSFwSXjJi41W87j+yIQ9USF6xZzwVRnGT+XP6y0ArvEaxgFzrrIdZGZlCTOTx1yKpy/GBGm39sNCCwkv2ZwX8SokaM5K6e0a50lxILxChUkHRsaNE26PBMao9d9ULMUoLqWrguKZSwDVb+hP11P4LWc7gBbaNUIDyP8sO876qVRspE3qWStWuS3fPojBARlBMg//DYNGA7hNRX3s5OwwLQxWlLBMVrtJJ4z+046+ecWxMdaoceOZ5Rdp4VUQF9pLualHngdDb1+UyouA+g3KBgKPyN7VcOPdtUnlKAI6on5Cu6zF8mJLVxvVNQzVZUMo0pBlhxx5gK9RZwioCX6dPBNbyr9vj1PTdBaylGC2LstgUMNKKfP6VBFx9jJKPbOxQOvMoMXKyqQIqHKl0+B+2oWNG5DP0aDdwdfTEv5ji/HsXz0MbeeXzKUzXz1dmmyhNUYqeb0lei7a7GdFh8D30kyqD/fx/VNyR2vIjQ5d5nfhE1GJl9hCR7Fq2+Uy7xAbgm1lB7Q3j6XBem31SLjDwoOWDQf60Lbr/lyOrTH/IL6JypfttQJvsoc2GCdQbdDRVDWdbMd1EAKfO5YUjrOrOdH63G/voSTX4gR18mIqoSIlMCUedh0IjlscZtcccMkSb70kIpWIr8QzNhFPCmq+1dEe2QRJ1s6lyYk5coYwmTHkUXJnJIwIWO8nkq7D68Kko9lKpkIqy2dhz7R3E+ovwaxt71mG8BSuq0Prb9TqE57nH77e7cGPidtRFtbjyoc5NHftCtp2xTJH99sKEBZmemc2BNJJQj4tlY9DUOlm7mPjQogU1EgNmYbAgJ6aqJenpMRQPz3EKehKrewm64gfE//cXSzHFrTl7YLp8LNOrmi2djpknzyRdeMD0XfloG4mkQc1Axst3wzdKxcPzJWxwfdwtEoq0HVsNYRjdcL1YNz9D6bWqMcL9vjeeEyZKYMqlIvpDXJIDqP9EMr42lIMzj1lT6VEc+Scp0cFYyKyuz1xyS449ysCgiC0VMDsoT160eUkNosz3HlpNHouG7tfrxZGUpRD3ZCq/wiie/t6C0HjcgqPXQJy+lmZBPcepJlXVnHdj+c3wTUm0e6Qr/XvIla/g8DulF4z6/nSVfqcrq9BntKjL09fdupqyh9giDXbtvPWIyLMv4Fj6jU83dCybNJsPS+pDNMxbzXkvgUBLRBb09YChv9OniMvZajJsFZm4o+aT2KpVgJF7BepNdkSaSbofyADU1/wkyBze5qREDd2aqQk9OL7hXoMLFNXXk0AGdYRurmM1XzsuKb92A43znTTPWUzqaMGr2QKE3e2jd2vqENygbFQ6seOnwr1XrChsG+XwvfpMDXlSdQFKmKyySktwwBl1DI8estRjA+8rR1Bppr1HENzU/Zqbu0Rfs8X/ymKohKRfYgOZIJybWCARTb0UYM2RjEd71qIn/GgnENag4ycpaJ21Dkd0/nh7v7khz6jOqOc0cMIS4suSTDQC7vCAVTfcPD1OEhZXPx0Ecuzt2d8TtN29lSi2G0kvRsnRW/NBGa/UGuEck2CWhuM7iYHLZ1MjdxJguBQNwX+4aHnhc9thnsCgfXeFLQZHtYkpT8kSbfGJyZjEkJ3pOyDe7hvXScpFVpvcvhyX4lrRO2ysnPXhlXYiBJdgruKyrsE4y1odsVQwa1I8HTgCwSOmyOg25WkuVcUU9gN4iqFdBxEvobV0KmiM3JlxJfyxvtX1DMT9pyjGqoA7Y6HkWTik8p/CYP/qMN1FS+LVEECmSJnoLXC6iOdUXrGg/Tk3Vh8N7RtnD3B4PK7wzR/XuP6iVROKrlmDhKNiQmhxp3PUY8mmwTU+sEcrZViOKEzR7Mksz+IpYCIs1Pp5VVxe8V+BhmD62Q83SU5lAoyxzbkouuBReJP9VjKTjU4sUPYKiDacnahPxSVpbPF+zgC/1G4pHLe+0sluAG8a549LQA+fpyLO85xxgQBvkSyHuy7J9ordUQks94VEKG0f/DJZCWfgrpOR5jxwpLMUXItS8KI+gFBad0Kqm1gZK8cLT4hlnmQ2Ka1YtepqUvl02UEdqe7KMW4ERqILmd+sM2SsLdFPWZoJw21npihpM6l7N96hDP4AqTITMpHQ0A6i47bKvgQl3/pSCfr6gIeiQ31YnFpJ41RDYQxWfj4+PQO1cTHVWsmOzVtcuBZ5ILcZaYZRmIgu6CWddzWDCq9C0rKwqhWcLagv/tVRJeHIGXbLbGa9bXuNY6MLKcmHYz1FVcskuXBcEPr1wWx7XVE7TLkB9UCnuYHyR7iCbZ32b2gfNP6NrWLgj9aIYg1Nol2K7OQIP2x9FeO7ZyhYpKdUgJ8BBySxQYxXvjQhXGjf5JUuZlYVh3IFfLcy5jnG+aXVd4Yu1bGX+yNyCRULTUny66yiMdPKN7mRoTlWRiMp73G4I+fDFouZ51B45CZlskr1sZQ07mImbfZBt/5WFanBrmw2FMkldFf6o5eUIkd5Ja7HmFIOFnTcNITBbt1SNDIFMhoUOMOHGZCfBbOpSPbHYByV0C8OjUymdzXdDd69gFly6IClnosFm/gnIfMrOPlcjCChtGVFMfTslwP+pKBaYttfic+U1VrbXe9DVWlwhXL+JTXeCl45GUYwEfCAHJ0Xwb7j+9Kk7+2ZoFJOqBc2vb8IdLRl/eEeu+vSrQyptewzaPtt+O1f+Rdjd9gt42A8Tu3ZIKVJbL4ZLtuXYlE0DdwS4tDRfDsAR4PI+fu/iG2HtHrL1N9UQw4Q2VFwxi3UA0glx/oCUESJKApoJ11Qh3bZLhaydFCmL47Sd2CU3qMoDbLUTfwn/Czpl0CZjN3dCK8WrPNwAYGhSf+pDs3GDnz0zvO1KCFdiFHbQeHzdqvyfONxACCRzBq7zHkF3yvKNjYF2JwKWqIM9z6eRFC40XlUOMeL9VFCju8Hx9GqTHSbQyoCG6sbU2hNNk6Jt06MbVaXfgyfJfFog0+xlZcdc2E6WCzhp6OBIVhKMOckwmklTBHm2TKB3/09VS3mQ9dsDKQt8ahY3KLpOqFaAGCCo0kX0s06sezOBmR9YSIpVDFx21zOOjMGxhaObAK2yxog2Etm53JCSNampMjx7cPxGA9kU1YqIHfrG+BlzuDiby18mhylNWERgozYOZUYPESvGMtN+g9+ngMBSTGyA3iPCzvwFTweAzQ/cGMuPlJOJ9E0dzQQqIwk4pA1lWEMNqahhecJNHvVKTi8X2FhpucU8MPg1fizjLgOg34cvdp9P0X8WLgjvLcJYqzQ15YxBknoxdj1ojJz+m1cxKS1ExFZikmk+Rpmr83Bg+VDLQlLLwTRFNiW8Pt9kR+8xpZjNw3qQ9QnE75OedspgkpynX6joLWnLOgwXYFUoxbWW62pYcz0S3EJZ+xYcPdYGuniIx3ZkMs/ZsuyZ6pyoWpKIoVVcqiFJ7Ih2YF3XJrhYR5ql97MKr9rMb43ERsw/PNWfCK/NJHOrPcXRTMun+uEnonVch/18tCoAI28YQCUzAj3GogdAQ/FNPh5YpnX0CATpH14xhLlcEfjj+8uYesf7wk22+Mn4mnMC/FLVeDP8GZwovFc+eyVsBbSAk6kVbd01tQZRQIrTXz/iJTVXHq99Z0K1sXj6U/StdhmWuC05iss+STcGShhs6FNxuK+LHofbx81E1ANntjTdot06Z5h35Sd1RYBwv4GQfGad4FlRskGNudSUXay8icJBztsUNlli4vGFA9GpK6mDceZCyJoSvX5SG4a5zG9VcXvf9gR13RVov20FmFBTxahwswszRenr3N5tBHZZCXHweg6GwQYlvtW9MvaPH5d6TwhILsAxDoVwBhW3mr3LeQ62mLUUc3mGRCPpNfuBmDL0FPrgblPtKVezzn4xf0Pyrbp/j4ui9k2LowgwiAdz79w7kdRJhxgIWyyCo9dIXfisi5jN5vchc6gtyedoWo9HSmd1zWQpRZmegJy0iC2Uvy+Wc2hmSB7CNiGuVWa7/znbaSFfp2QK86qmX0euMAB/E7ivi+UfxBp6w+/Q612boqUvrDhCwIkJ+BfX3e1Fs9RVYa2DNGy+OW+NedUpJWIjIBf27RY820XQAvYt5TmtIIngNvEz0cnKdDVX+ulAHxNHIZ5zAtIzfHQ3wwYjAnPAJ383OMHm22++FkrL8Mjv4edBGkmC4PPpdqY87greN09fDmH86ZA1kQHCqQMQKvtZOBWGgNRnlLe1UsnVa9rmMXtSfkovSjXpk7E8Xmt0HTHFOxMjGTVrG/xvuW32oHFDMSjFCZxDhopdddQw/tPQDi1GtYn8UmMzoYa5RXizEjuLsHlRINfLchVsa06Smak8Rifq3M5gxtXcSSnmtdXSy0vo4dKA45pAOLLtaM/TwmgbHPtOxSgX+IDgoB66EW1pELvMUnSPcLTz59ZgF2BavhA8h5CBYbYMh1ScYyHZXo+XpfqFRykdAnvpUu9gWGZua11V9tWKhngpQHeACcDokgcL0FP+nF1j/hIMfjgbh1VgXtAin3Mph+A5fRowLUdmjfjBliRBefu/xqSrr6OxrYFjrHoC4cOoDWnjxqgtbg7B0JRu/PJR5VeYoskjUdMYG2H3yuT7YS8Vjf4xCUnk3v37By8xNrcEIgS1RSJZ9cRfXNpfRZy2gAFq47EnqAGmeNxZJ073q+Vffe5mIy77iLosrPU5P3vPj3JN2/Bai5HWbeD638sI4tKjWIRok8QXWg5sUS5qTkQPm9LUchJUAsKMtBMh7ZfnLq/5OkMJr4YNfyq2oPoznFKKFSxxS3nsaCa1QHS7+vDVcc0rtFWrZSEh7QijJvdUwaDdsn26s6KJTQw5nvTPzcRcNsGbNChlvl0sktRhj5B676m5RA9ZaL9/3tn4xP6OpcyARnjFR4zNAIEbTTjE33gT2CmM1969iK5MM+31HL4NNMWbos29UqNP4BEhadyh0804ADMmYAJ3XFh3IxDRpqohuUlh905t2CvVVE3KHh+dFUMwdGuBHuqM8WVE0ku47WMJjsk16GtrfOtKKdvBhnGoM+Ec9LxxybO9ckNvR5flD/D1ZD3RYzsz/RIQxpFJOwJF2K5C7ypxO5bzDUPDwUpMRQR/eBFmtk5RR3FQLMVNlmKhCBm/NjwAz2lGTnFvXwe9PB3NTNCzQBS2i14gm5DXtNfv6AlyATq2/bt5csSiT5KLeRbJxhhIvyZdN9u/RxVsUhXGW6RtCHUBY9MOUQmlSTaySgrzHG10HBSb1GRhcVq2ITNP9466pUiax/qa8LRirfJezAMkGvV2/eSvuQNZzmPSOx/NIQytRKWXrIARApsM5YvN+3l35A30ve4xEO3LEoat1C+QNzLDC3Psl4WkARx2Nf513XERpIifPlNpOxvg97qbrU6BX7Vcrr5nhjc0jgcyRUpnOZBwWCADHmeyyJtYxbHrLUregozy0hS4cGFOc9YLaw0wgfxVXL+nxL3i8EuP6X2Z+tOrvMeDKwR/DBlDAz0HykAyUpA27bczRDfDPxHngzWUv6SbKM80Stho3QFWqVnrDIVaYWErWJP5oPglsHf5pMlPXQXnzCZEeO1Mw+FtG3ga+ci+jBaBOZb2F1jIMFj7wgNF0lJ24GomKFyIWWpaVEIHtS4sZxWb+4NpHg/a1imxYOCyumminr294By9zQZkcPJvR6hozx4sNh3lhvn5+Y+OWmYF9pkno4cStIphoPtgL10kgFBkj7imubjOvIT1J5Ezba4pemOE/q+NlwTl/lBB+ozhiY8nyCWPb19V+N6VbS91FitORP2GbulwOXaXfhdiaxShfNB5btiKpW2Mk9I/7ESNbpEBjI/uAY/AtIUOuEx2JQsqPSswba9dO7rNmGavR8b01gls+/lyLypiCAL1aRFTupwcnoqR4QFy5BP8nUX73G132KoEHaPoIHFGFAI6cEHkEVcjrOb8VH7N1yLLdp8gzqBzdlE7pPjjYhJsfwCcJg1vSH86Ae3FlrAfT6gCYieKUI2ai1IPHs9BOBmvHHrrc+kZnNoe4JENhmhhUgebF1zJzX3ApwfcRx7lPpLEDYoN4LXnXH+Vh4Hpi7THHBivox/bueixMoG1GNl0nUJV7n99PEqEz109Ul4KGG5GMgAWI0x/vuX5C7p3mCLFzjUsn+cu3iynxFpIyigxLrJzYl2Ar22ERXPVHt9EZ1v6HnsvVYipk4WvSf8noRBuToBPGMusTO11W1Cuwx9yvCEIQhjzYW67hnvcmul2gNEiAZQ3C0R9rU98rXHV/UzNImvBkRXPXhhYDMqdkvi39I/mzbt0dVG2vip9rQbSaggjbTjcykzae3nEIlttstsEUPoSSv+VggJK5Zq5HMUivpTV0RZgl7Z8aedujCF++Sz7/ZYy74SQeKHUZDe0F1FtAjnfIyBxntTm9qkKawFhQLtt8lufbgwOYLEDu2WRAM+LRNKI/PR/Z3CFvRmrGphad+6CGtebWWC+zWRLS/wTrnRFjEXFlCYNqhLIZz8BB+CqoTkUNz2ptC7ROYQXURGytRl+9DG1hOIWZQwY9q/rg2Ce+Z1r7wp58h/3vlETK97D+NbjI7vLHBagxcQM3Mu4MzimOXnyiZuY6FkPnbMn9WzULw9pD4c/YWUeNTSFugIwrCU94mLxzOkbwu9qQlc0Hy6s0ccEUjJmsjNzITRU93HtBrD/pllvik77ArBFa7ftoKAYVZ5Tz25lZxBHPzlZC9NG8Cgz5iZShyfhj6VDZmfkcsmFbLRc445Lfv4p0tFGclUbW3veoF6bxdwlDCq71NCInuTZVrEbFLE/WVkefI4YXw8g+fOt8lHI4MwUXxaVC5DVe+97PywHHZTnnNgFXs7Qfbq2uAdS/DkmBMEsoBJ6IZfvCBVFW458td23S4F9ZVLnr+yXABmSvOkG7UZPJsJ5OBUQew08xdpwBJdI/sC35fk10Xsh7tC9gIEgCBMOKrSrHIUu/jBamCgakSR4uAVJplafZdOf1TUrEjwZJArUSXWfcQTakhyrRyoAlJvfYErQrCTgbW98r8aJh3JZxQuNekwgj2vG21mYd5ZrmyCGw6Dlh6OuPWZEKWD6VpfD1sUv9UHu32bxCkPvaniB0+D8zLNlZoY3+HKhwUo583AUoRmOPKPybNGmpZW6ac9mD5WQ4dpZ9metKVhXhDzoNH9t/5qdn8LPnNPhJjenSjgVU6pf+y7m7BOlS8wlPhkx31pFmmDgoQTbKEE2Yvvnqo5u1J52gczhgFV7I0hnVdJ94gXkYrVMmOBMO4i4fWiWvlhqfymDnu+eg0abvlh5QmwDRjIZKSRxWG5Yh+xuLOJY9C8coLyhblkWB+MjRXMW2u2PEAuVnowDrUR6+2iVrgzaczZzUUgWRGChRhQ9jpYsdHXgIbBpzjldFWHxpiOxmKSE4KaArmfm9G0q2wukM1T9luag6p+RRj81p5oQiyINTEfoJM0x7xrRj7NEQ0zhLpTdMfyuh+csOohORJrb6S9wUsQwQBYxr6DMv/Zf/pzCkRo3E2Sp3J3424H5kck6iOc14+RxbB+Ke/iThRajY+1+MNyhhYS7Cuuy1Mb7idlmYJEwublH5a6+UY2eD/8seJ+S8Z4DdvpRqvUTdDUQyWOdVbUn/K4kyAHctp0ksgkR4ENTaPdot1yDPCkrNycxf+mszXXryj61rJ+s3Au6oaVxIUt9qAxSwH0QWqaC262A670iMLFEY+OgvrsscseW6A8m2i/JsLF2rYyleEL9U7N+fKOsDthkv0zO1wFW8FFqQyh/OCkSOEQqthNS7jVzvxEvS3y9gFab338/bTozsOMC54gmB1fF3j8y8YLZFlfDmKpazB2+C7Gr3g1iYmdCb+9FsyGw34P+eaIADh6rG0BaJzBeqaqcK3gXJCtKb3/oaqqXigfXKEeetZ3Np12ZKKCoEQ5Pz9h63g/KPj0BQC0mjKfn0sAexSY7aqszoqDMOkIcleUL7qQQ+SW3IvVICwPFIn2ACFP+MrGhinRvvT+F9M/1YK9Bfj5Go1ogqjWHRGNml/huVQwEPjVQv5Np0osFVZm+4lNh7OgICzLrtPf9t5A31EcG5jj7WCFy+UN0lc/Lz8ITAqBME4XIcbQakI8FansAWqKlTvJoPRgjgedwSbwWPx04fgz2YF0u4DJ6Vd5573Jit9FKbRfkf6Bn2seotVCAoqzHaKsZY3lBIrIa59KBUiKxRo66C3m3yBYLsvi3lecDKSX6AWjocYCFNKU6bvahIRDs3i8lAmajUvLyK6IE250CRGbG29gVqKNAtDDAMBN4YkA6OmcuX7B3Z43Raqbx8tIBE3EKgX6Z7d67cIOIZRZ9nMomUfA3CpT3iYNHc10Ysy56vIAnPjosRJDYjz7tGW9k1pnCqM9hCjkVgSgegEVyovkfDFZKLpm0uv1eBS2htOP7XmjkjUy9sybL517tSdiClGSOFDxg+O+Mop7GBrosVRb2I3O3TxEGStZ5ab82EalFaWZEQF/JPlzphH2F4oQH1IOJ72zPwi+QPBc48KVsZXS/eiRfWfCIuzUQfB+RLYcees4OodKVOKpeDOWYbpjmIjzZszOVcg/QmMijloWj+Dmw17Qv2Qwpw9q0CPLHmDBFuZ/JDOytUENqFwg5GM1KxMBsz86zQaRWE8uJrM4WfYhQHc0hS//srLnm4qQAwHEYcIjzT6kSFC5uoT1W2dqSOxOX+CijNoEkG6l7MCPq3M+8U6r0B85l6suTUGbqsYtX4TbTcAuc/SS0cROSkca0NLDigRLnYyFHdE3WutLFPUJ29612GZ1lWL/Yggvzux3xD+QE8Fst/fGpNvunkXgYOm8WsxyU7Caj1bwlaUeREyHdpH4YUNELuSItT40JdNGA009/QYHx958Mh+YwzIYUbmkIwVd8/pgTZvVCXLBCIQzNapBrMvUsyU6/WVPXqVOZQARyQyqOJz80wb5eVvnAayvpSHwgfsRY1wfTYSReOzuWwEaXoMaicdpEs1ClrXd8M2sNXWH/cWANysRbNCr5CyQogm7885mqzUKkQr7XXUH6HZZyLK5jO8a19A9FhnlqzZ3Dx4gXI2uDvYIPFzMG2CR0d1ManE3VMem6Xin8LPjXPjM2YJD8oQqhKg6X0kmrWyq/WWXCwoFxrU1gH+kbDLOAUOllY3mMEpkzc3/+UrUVlnt22DB/dLBxWW8St7xJpIucP4ulueJLcDk5LgoYN9f99notlCX3geb8DKWtNoxKiIk0EZ0eqplpQ1D8HLUfCTKQJOwEUZvoFhmP2yK6ZDDzXmPEmRPm9IHEsql6Cwk1AmNqrIX7ZkZHZm8rcvBAB8NB1TJfs/UOFJHXvj0tsDfQm1WzEEUCaVkul9lk+NslgNzE1WI87WWRrdFXgZSqoSn8aN21fataIUFTuxd5DdGoDAwgiAnphOglEWd6ixrkXeFd8fOngizlDm4D6qKzL6N5IVR5zWBzPAlAqa+gEC68qUZti+QCIfSyGrBxZhCk05z/xDFaTl2zAhjwN29vSrhSA7laWyVuk37xezxvzqPHIuWqQISpuAXgfJdWIbxY31k04tPTp2LKfTjg9zu2KiBRw60782jF0dhk551dSGXAMA6aCJ1HujdjHHDt9zKRbwh/AT8nudpWF9XIoPIUcrs/FLWu6/BojNA/wAKF7cVDO6/wxPwJRFN0V+Xi40Zu4/heneMj/ykS0ZxBaJWjdZP4lTzWMkKyJz9TvO8DiUKG/3otBmw6JlTfUpL/UgLhsg+fb/Qyf/A549s0g072fg6hOTOgT0/Qg84uuYLmEJmk0hMo/p0gtKQ/ZaZ+QFeLQTghHKL9TUmFguL2oOqinhAA0mBjE+6DQ7dL6LageofLBwXRZBR0REPFXBXSHHR/Y81VM5PlT24/Wn3iCmFFNLzIWspcuu8jpk1AUs+0Sp+/p1aQTAmtH+kuaphV9bLR2WdGa+r+ClQn/25subL2fOesf4HbCmOWIGind389ivXfq3B9llBhnJk4VhrJJ8xyxIdwHodEbAZKuLmg4NH7u65KXhvLH3rw4vlEQSMBw8z/I61v9troETSQuYbSUCZMPd5UwZs1u4Ifjoru9YtNI3nBNXL7j3h+MII07T52A8hKk0VfYj4KWuLYV8vsxFrGGgbyMmDZ7yGi0+SPunVYcOLgUptWcKUaspneoNvbbbIzmrdInOdPFRjApFftWKScHg8rOTQ2OUhWeFwtlDG69RmwYa12CuLXvhao/0FHg+5AYBYac5rEm7az1EyoGx12Yv+uOiyf1Ux88C7X9Vuvqn40MB8dazv4oIPM443ML3C2ENhX1s1HJJbtd48FQPB9sY5RLN/EVrQJUsXiGTllnaO+laBAzfGqv4kEzWT0qhckDjKy3unvGfGtP+N2lxwyHWwhmO3D6aKMUwONb3nAAgyjVCx7jTsVbaw5GJpSBfudzNtTsbTgHVsG9/2AARXYaWxp4bmMUwr6dxtYuk4pDMH+KoYpr8xBYTN8/5DnrUoDwXDLsOhRjhiyj5RfY56JWmmNdZZ6uf2iqaiXt1Gt3n9JBeXCBCAJVQ4LKU/+cL3BkXdRpagcuOaGXNRYFiLee4wuc9oVIYixhpKfmzfXVBaLhRB50tWgUjJLyOij4vqsySYN6EXVTHI88dyYxEqnllP2WzfqgJ9haWX9I2ZHRqH/QNC9MfVNngnoqAUzIonsbEPLaHEWnwDEKwM6z7iPD88mN+r+ZTsl6OHCxQKkvpgKK2HBm+LVkuaefR/KQ4iLLFngtQAdKm+veYYvplqT0f6uOu7bfGG+fAH5/lLc2FKjQutGd6MdLx3GOns0FnVcRPSFqMV16Mw8WPBd+nbTlwB+LmxgbllPoyYIoxndty5gsp44BxB41j1+x1mrZK2Wv2KxMlJlf4dhEnphNTvHWjvXWcPCiQuxcS5R+xgUrXAGa9+EuOf8CaSppMGFXjQwNeWhIJ9FqrZwVFMJ4zlOnDlEonYn5er2aaQesUsq0m93junTkWO7ec2io6z/sgDTm2T05xAKAohCfp8xupsmBUz4iizxtjH/UMH7ESIUtAjZSrNL0Qtm3hd/k5NauDmW4aY2Jeoj77kHZgFyNW+7FRkVqktxoWcrpOu2eL3pZ1xKf7r0LZKNaiN+8Z8yZE2cjFLtj7XIh28w8qHOmX9eL3FxU2lGgNMIxeZIbg0Mc79JfhwRIoVdLb78Ycss4KF+8L7BtC8Miv0GDj5Xur6vxgh67qoH1muqNJP19yA0JV3PlhpZ6IlptewyQ9nTpRODrDwnuIm0hpy0oSYEaAQSvEV8ci8cSsJ3BpcBC7HBvKOOOH+v2Negk0jEr19ZNMfTYg46XGZg9PcmZaD/KGhCgrMf0Q6V+XCkPoTNVJFJBWM7ekekzsoebM+zcK3qXNNvwXJNLLrDqJEbp+LtiCNfYFziwu/9ws8PzVUNoSQnrBGvXFylbYSROqH0rvaaSkRVAGQOJkPIb8YPkF8+OIkSVvlwLoS4uSqIJ8/v41u3cGxnAeK4E8rUJ+hAAsP/XyyJT1NpOfiBfjXKkymAqU+lfSuK+DK70k3M4cDjp6XwdhjsU94nFiRaT0sscwgznMJ7MMBLJ96zeJQMlTwzPqMv+bE5GdlV7YDtR0CxzlOmdV74k+q11vv03zUFuCq0kfruyy5WbTW/Yi1ZLM+1XtpoxPLszak4OFHcacW8zpS0WbrbUwAHjfWP7Ep25ZBI2NqArInTjz1+E6y4B8epc8yRvh18E4oq/HiXb16WowGvyory2j159MlVR/+bBWfqKjJzEmoArSbmDTXq33nsXUnsHEOlecMzbgRv4Oj1bMu4yCtcM9fAbvCV4F5Z7mcLZ/GNaMt3xcJFDXsKG09moMMTscBW82XbVbCuwe+9E2F9etyBVbrLiXF91cNMyDIBFgPJdk+iLA9kstowfu7PRerOOoIAIOMw+5IvRPSK6CWvzwhkcyr0QrY8O/F+vWcKn816lLljZSHhXkkm4FiEnG7T6MIuKLjlxWqEdaos8Et+xv5SMKLJ6n/+gNixKfMddZgyXAPbvS6FYc/uIYa6o/V+lULMAWbhpqH+E0xFa/DEAGl3JiCiuJqoGRNmmLlllXym2bgWC/LgwbjKEcRBLQYJo3FR42AP8VmlbaliFbPkNnDUsYzLOvaFMX3L5ve/7n+SIhBKOKZu4cXJxL6qgulVzJ4HpfsjnlDR7OCnsr5ak7oEW4w5LSF13SUsZY1vbWsZAJd4cI97jNmBH36oZ5D3QZ8V8zlGerHfdkb4zvqOqMR7Fx1gJgJyTQ17EGDFGBUQhSmIcP29M3iB0jafpl7u0whx4mQSIre9kLkvsrIO+psaAwqqasRNW2n0CzhYPMlhaYcPVDfUE1NvhVEmIbaylddIYzCVwBou9kaEhadX/6OfHKBc5k3Ce2F2DsQLaT0l63PqK1ekhXQ2KwSr6MbivmzW3to5bo67b0PtOj9asMlbOdPNIRZx7vn97CzfsXpe+W/yygFLGK1Kji/uuuqS4N4Hi895EuK5e77qLIZtqZ6/W9MX3UVVGo7SP/IvGFHqB2cOEqQGbDjQ2iAYCRkSa4u0xaOmd4Q+fGtqeOBhdv64NaZnom4gonKCj+FzPkwendr1Y+wdUMt9p5LbIQW/epo7DMwaVJPV3aLrYAOUCarqOzX4lksuoPCQrm6UoQObCxw3YTqa4N9YlGQRxRp2ILpNBwReZHZ/OtSzS6Zeq3dTRsgX0JVpZnLoQ4c9PYFZ0Rt0nxiip1KFVNB1N/BpzjMeBZXBkC48CFe0fDf3N3Xw8CaDM+AjzOCWdt3knb1tvVgn6bkVYZA/xEQ8SwXAe8wwmQMTC0NJmXMnxckPTHSIRO+iD7jaDVUeFBZq4UOf3/CwM8abfiCPQJhPSseKF7Elxwt/yNsJJLK9ap69WI1Va4nYTqiHdSdWmwfJTEgG1VApnmt2k87DAKPRmFavsmkcJ/FLCRPfwGlBxdPw9kxWIQi2wXhtxH4stazCyzeh94z/60Vas0wCTyRt5TPGohlb+0VFX5zkGJQ1IVyQt+SfmPFP5O840MzbNuOrDB0gSSd4h+bKHZuiVOBu0wVkMq4meLwhEev/tkDhwdbX+36cTkf8oJRrn9Bsill1grkSL4uwjfxxGuxh+ydvrIB/4s17uBgKtbsSz3knkchm4cPwiN7GcSM0XCYUspqO/7IhPg+QJ+dpsOj/Mw5nPs5VKy1uk/YtvqzB5LcUFlGfoR9QbvqDce4d7/wGLa0l3ED2HC7bWQXRJ2FmhKJuZKmLkzxUTQfQjubuXl1QCcERKNpLK2MKsDPpPjTNHOr6SEtFLiErEMp5L1Nrr+wjg2XAl5xxJbd3WxNGG8UmLyvymQH7QT7HqEM24sS5ojB0jsFO31R8sctp3jaN9mpjhQaxrxcFOU5N48R1UjvPRy1PY3+4GrkzJHxdygY7NtHa3Pkh+woDIbBHGPDevpRTV0RQjHsmgH3HH+kZFkX+94EQ/dKMVNa/T+h2G3z+JPx6+r/HJkREpKCS072x5WurWlBOZs4L83mjS2DtsHsbG2Akrd1irvXCmx67ixfBBiEiyXLiA1l1b+cCtXeJ6oTiPoaNjHqt6nzwoGa1qjtP/yx1yNhPHJGcQJVFwS+RdHpDKyGPZR1GZtXBhY9ZvWUnZUWcht5kLVN8KuP/qVNQ1HBk1YIc72lip8ERK8IXpZcA3ekErkKSy/N5txgh4JjINZytZXPsMya6jtTQLkIGgPs3+PZ1CPnNgjvua14IANWh2DgEVDpxNwfCD3u3U9J9nr+KEY8zqt2dKKOMk+VO+lPeLIQz/iLqQ4ZBAO77TRllIMWpI2yMQtvI6dbGgZYXmJeIfSK/UZ/e+A5Jz8Fdt38vkJw6V9F1hVc3mOnXOx+bEo9cI7wMr6oxCN87mittOcO32w43bjgMQR0cXIocplG5xWvdoFnn0ubO2zUmkGqZtgtDWQdrE9aECSVjKI2iTDhB845jrZniEtmhklFn2hS7AB8oCcuZ7qXzEkusvqTdgWFdcQ6poNqzwYS16HcrMkfP7OZSbzE2PbNGAs3HEzQ9jW9r4o0I8KR71PorW0T7AL06/yggjQtLkLSbcX9ovJtbfeLlDl57roatmwKTQ7KZCrbaIsuSQbwwVKDjxMUHjjWQlASbJk4+mLois+nOVCOlcLlBEfRDfYPmgJv/VqNdlnH8KqqEHsjNyLt07WSImnDKoEZGBm1/bdyCsQlus16A7cHUyt8GWMSYB/G9p4tx+aS2C1BBlAz7bZ8NMv85H6cBKuZnBTOnB3EBADORPbWnzRxwCDPgFN7l0qBRm51eZ8+MzSB5sJRMyJZ8MVXnwEGQzRzCzp4qaO1wkAon9S8X/BeJwPJY/ZNXISOA7Lum/1kAAt5zVn+hEPaaS55Z1taQ0ckb7eaofge4oEgpj1G4bMsNtI2j8KmAOAZasTOgg4Q9KD8cyiD65947K8ZhOkFD2gIzM6IS8eoSSjskN+KeNABOgylEM3+usqBlghfvUjUJJtbjlnCAt4t/4x5ZOSR8dzaiJqnXIr7fOOy0HmZBc6xkHpisPx2jwtA4bPK8tXFnBRDC6R1K8msfhu7Su+e2dDtxtphVesYGGLo6i1+J2t23FDsi4dex7MNle6Zb8oPYILdGhfZ90Q4EkDKsv2ZjS9wWaHjKKzaJ86/Gfyr1Rn9v6qpQBUFXwaBHOBzBEjfCWxxiQddCU6wp55ltRwp2hwLRQ54h+Rl7YZlVgi+40brpRkXtMEP48CocbYR4z4Std3b3iMe9QdLElsT4weE5gkAJhGG+E+8YgxwnxHHN5O5xLiC5VR948XwgwUTxdjG+yjIkkK70yB2+Kg3JKgphTWP8MSFSgbRjri9BVlO/gXJnhnsp9sf8pjT4PD4tPwbfFynGvTMi5slunGfg68qBfGlVaZlBjL6KuDzBv37iQKR2dpv74ShUijeSoccb4r3zv/mQ1iqay0Mhcn5KpwsiNRcGTmo3+i0oEy06L7pIJcOuHvl+g6p5U0QMcOYwdadjCmDOKmAt449hPEVUos7UDF1C4a7ekRFKluQBwszS7TQrLMLT1+R2GxDVsqSAS8WgwH3THqjEIAkdPKWFN94chXGpMuKAJ0yL7oFP6Cq4Qhag6kmNmMZcHrDTxXc9RIXBYB+a68d/fKnWy+Bo6B3iSRasyGBLTiNbuiqP/CcuS1w2K7wCZiIV1YqNXnXm8xBLTatJzfR6f/0pLwOeBKcaWkcfK5h08o1dnVmoXXbwBX3Kfcbulyvseauqaj2uSUPXRvzrjqfL2x3NsZ1lLVrOljl2xEMzWwfNzU2NGAzQlfkKowI5K/mbGfY6hJ+M0EGDWO9UWnxRLTf5r8UL1E/Smj9ZrPA0tuyHLmcwcLSxgtysKKTndEIs/CW4nruen8hjTDqyS3ueE/tmErUNZKtlKCgc1lCc+MTAqNYtV3YVR/EHdfkAsvA7M3e8q4YLjU+EYHo0iEjVEQICICaLJdz1pXuwSJj5XQPCX/gyxn8sG+i6dY7wyHZ7VP+2n1GUk8IKCQEL2qFPinP6GrAnJtsa34GWhSqvN5xBWuI4TnjWl41WL6mTLBufinvme/cQUH4s2YX+/XcGEid4FbGZZxvWKwEe1MPXnGUcgHVQTTfDtJ2uEhSalr5WaVm1lL9ksQ/pZmi2+leHjRRgJu3kGz2Pw1tuVSNiWDVtYeOCqIAzx0xPjZ0k8k1mAbwqqCjAi5diXY0YYMzXwWfK5v4HrAHjDnfrNWX+O2m5G7hB1QXKEUlpS1W3hiZEp2ooElZo3dRuGquUj0AFH2U71nC61r/quCJ/P4GFe15W06xtILKmjRAzCv6Iz4hMiFoyGYCB+C+4/v4hVE830+wFv+bEGuhItHDUjfLPZlnDJkNZAFSqPf4j9MyQ9wifF222CSpz2gn6REmebEFejF05C8IAzYv968xTtybo4JWmD7GzSraj+pB+Ka8JRHDRSs0qQ14Mj1QospgfU/qvD8Lj+X3P/ErRNy/eXq3OHLc+qZTF5xiWeZ/5oVpWCdlB+IF2Q+iHWiE7fYY3Q+aGeJuKpvh6kCOmj5wFpcytY5/4xouO9bobQ3UFbMctCO6cWOhnrG4DHayh1d9PsCn/lI6JkX94I0oLAh1wK6XostrOwLBK+LEdaPXS7KRS37X72eqzIeKMYgSCOSKvEze9N3GsBEZjrKR37SU44BWoZAANzlEBqbwPAxwEifmAB88/s+nnRUQ9Knzp5BZcXmUcx33GevtD7iV2RnICou30j2sLPus1GtV+23gAloqgtM9gS9TV+S2/iL0iYhNT5IJX+h6PBiuQugi2EFRPfBsm7dpr3SXQTupCuyUDl6Xbiy2qQhEJ8pO72QaEThGooCUrpl+uxLRMyKvHOwLuySkP3xGF7c4NYiyPS/kE6QZyHTcgUMkU6+w5p5crTWc0JjMOZAeA2BDqzKbKqCzfYYrKSYuaxUFAXNteBioTL97XHT76ZZiljv4x3LCQs9HP5YV7ay12gPcyNQr3TlNp0Tm9+zO+xPBc7/BWaPyXR8hytlOkCpiltDdxz2ZQbRekGVIRR7NcW6kuIrQAUvlXGLi+WuOrg8iHCirYjLtUzcIEe5xCclAnC5q5DzHAY48KunRaIVh/NGkI23yP/zWKi86mupzED6mo4d8XVxtOa2C7U2noaVQFXxVxaMzhUBMCLmIKEvIqoYVzlGS8EkDlKIOaB4dOa2+yS3/BZWNsgseUVJ5JCQPr07hgKjPcCI7sqVYACjLIaKnR06kDVxzRh9hbZ0yUO4/hwUgY5Z1Hg+p8vkEBMLgs1TELpRi4aCaIOe3f5ChHd9ytNVWWhZZDj21T13TuKLJmB8A+I4seqWKThb7oc0oOsLUtlFCq07LqnWJ2Owc0Ti1wyJoVZmvFlsrIIhruX+cxYCKDCGPOuTJEWF06m+QE1e8470vdGZoVnUozUKCZdHCecS4doLw0Mc3ezlEABKV2qpvBaTsdudA/N/H7P0eN6jEjfg4xczDe7M43ng/KAzVe+ncw12gBJKQJduISavEr2YTRsSxDI5/29g1JS2P9DP2UdyMSGilPutK3hDb1c+uK8NGs2NEFjlVl1e3l6vJ+Vy9knAcddwZs+bBzPuySYuWAlU5HLq7FLZBP34xtxMG/QqLE/xd1mCYA8FXtKGPgO+zZMvetzTOC6WKEUplI+q7Vx3+4aU3CF3WhaM3DxgNE43gJkUc/D+SSWPp9HyCUWF68GQJvINbYkVSn8yBLNAb6MMhvFBBldBNO8Gkmzs+Q9NDFyGTFXKgJIbfkYD8McA+70m72MmhyFgZme28t4pXDfTBSSn2UNLc+2oOcL6WdSEklgIfJWWK8KeQDSlX9QLMc4YNqBuLXtMeNaEzldCESIZ2OWzF6oL2ikWIfmXAC2ndBZn3pGnaCDl2bsF4R6YXdqn8PK+MCciW7FB+eK1jpmARoLtV5d3l8HF7gE4T+/SX0nHZUlm6Oj5D5OmNNPWbqnOEqNJPPv+V30xUSoBg1beJr1hKU36Gnsnbqx14ukdG9xG8molACJHLx8E4tk9UI56449xilMjTC8KbsuWF7ZJmscSXPdFUbqqk4QUDVlZWrHF68QX4UML4TifTl6yjAwpY6GOyr8wCWVyAD0FTzkvavAfdCqbCaBnV8PcWhnRtxpnq00drLmJHWhvJor5jqxemAgcHw8UNvYJvnE01U2nPPF0nBC1Yx/aApJM6WYW+TNxwbnbOlhL5HRCNfc/8GaDtxiB9zRGhuGNxBemsoqaRXxrXVTkjWlsrg5KbWBomIMVhBr2n3wpZIJUQgyKrZg3NpTANKrVBVrf1a+IXTiKfEfkwukMieabptfPghxAg1aWAOctg+T2PAHWY6te+Jd4YzznqDz1G2cNNcPwVkPO0XfgfL33xM5i2409X5lqtGe2IAFf75+fkwdBd95XFvk03gYpjRwdC0wIbUEDTrVxSNcLllxxsmOhnSMLoK0t8cci/7KZ74XUl8mmXnym6ZPsNILS30Y2iUe2f8rJ3iZOhYtHqsYELB+iDYa4guxNoy13pLJHhelR84t0ijPmQWLYOO6MXvmRCYN4xqQMFkO1V3CjHaZmX1ZbCJc7KEho0M7ueZvgL5V7hp+JWWOc4EHvlbldxfgd5BvhvPtaC5yOT9ViHexT+mId962/PUgCYX4Fi2bAHUrVOnTadW9sJQlEw6gegMDSOfa/pQeuddIT4cSXLO7/upYeaj1ui4o/IbPP97Yqa8YZNp8Z+4UbJV2lIvWCUnZUKzX7f1e7CqQ3XaE8wTORajBSno0aIaEqkGbkpCmfoZ+yluIRgKJDy9grhqyk3h/LONixFDDuTFKvAQdUXmBtKO0mzcDgFcgCjjDW065shh3SJ6QQoksgG81ANpqyCDAEc/UtWyyL6Ig8zhluJbEvoMMdfroSN9fIb2okAnT+IhjCNYOiVcxzoKLmzkvA4FoLznjnrHCHvnAXC/WB4Idv4ZrFeMN/he2/RaJO+iQ12hh4P8WtnZSQHbCww5vbc2yxFsWbxFYkHv6Q9j+D/tEPUv/f9oFNwssZXFWQjx05Bb2JugWxGyQW8qCx2zGcKUgjLDJ4MlBVlvpUgxHFPO/GviczURuNV/TzKzcWCeS+4ekmsrBBVzAgOD7M1B1Bz1QpL1qdiPpNzUbzhNzmsh5PM2J1UgGfec8Q0KulWSUoNYuG5nzp/j0qo7zID/I2qS0aHGsJOzTUwoXVCXH+Tpz10fNpVadb7PwCltP4pZmfmQ8Fg11G+k6zQ1j4xT4tYR2mjbmvT0QeSvBQ2jYXIpXeoaWsuLcv55/NSNSCYNkn9aDVu0FPEDfI5UdIYwHLej3BwJilXESrHzro0TLkZUVzeG48yU0L5CX33BPH72JoLA3OL5jWjFuzjae4xNK3dF7Gd2Mky53yUya8vnFGFD7rqbce/SSGW7G4oTGyKErQwYOFq60JhZvzewT5dgILObl/YIbKT/+7f6lbJReepBGG7m8RERsOuz6UnOGK8YszpfvXHQ1GABM/htVTJ/eiSdhAS2IBE80in2VJsfr5pJ6sh3uByyFoyXuCKZFn0h6cSKZa50I0DGArxoS8UzRmEyqJIxCa9aIwzLdtBdD+QCS/7wfGyyDTaU2X94n0djx24HJCmF2Ysk1b0BRehwyPD0EwUzO+9YwPP3IKuFelQbMPagrjaPLFBkVZsWCAfnduD3CiE1fkVYtwZDIr6LxxVW7JMn3rxHkHbTVFV6UfMkCDrmCOeuH4Kxuf2rnwcdieoo7ThGy2E6QjDKQ4ArsNlZd71PZ16fxO1A6XRH3x+T6Yp4S43z/0A9t9CUNBLmk4z9xqE7K1iqoVYUi3Uiatt0KTBJYIhYwhxrKZp5IglmGteujsRN2RTUAIow5tcIfvtT0Y55IvacbqO/BlFsqaeD4aL5htdNCVWTZS3F2B+DIpP5lQdwLqWtLlNtIlM2z7xAa4ZKduqlz+tJ/FKdr5xgeTsP95eAkyNfPgFaeYLVGECjQ3BGaMgEW9H3PCrGxVWCqa/rqNopACyUnkYg0Prye/Vp5WgACU+QongXOfqZRjgqznnzyKhDWg+fI1YAynsDXN8EBRRLBXbwlk2l0ReoRExckmG4mdBve+cKahXU33Onmod6yanYK5Ts+iiRNB3PN7PpRvK1d3/tj9MoJDK++UFMmrWImCNkWlHFyW2Ye3cr1SgZnwoH/d9odFPG1iYGRSiHFw0Yp0FPsVX1EuTexND+aNVgFjWgBgBma2OVILnuJtIcirR7gDaLzshTQf6Zx53Cnqun+/BEQ04v8vH27U298Qfp9VzuGkpdyytT9BXiRahGoUIXsuTpqSgkTw+Jf5jbsJoSNOkwdBtDhREb8Ca5y5bLvviHh+UAHkOhhLz4c8GXWijhJnnPgRbRtt8niN6LIqILs3ONA69E4GrXfT2Gl5tdWvLKX5pvgZ9b2hTziiGkPkDpQZJ17C1esh1DENrBjxIFAEHaGlo8+spRzGnKtjgwBYDUekDTRi813ZByTfa1OlrD8YWwF+0hbexqZmaPxR/67zcP0iIV327iI3hxatae58gCIjnIxO96twC4sPxP95Kbddu5OSYI9t23u/bGB1aa/U+8yMzvr+adODceP8wzCE/jdtZZBCD8GZuq2wr2P/2JX0I/meD7EYjxdjUj+CXpERGgVatQiGzLz5tr3JbGT2Ew/lC4sZdl+nAW7BxT6gwLxhIZ4BgHmDAqRqFAPl1uOABgqho9rnpDaQoT/1sq/SYm3k9lMZ7OWTY9zxyot179E8Y+Z19fcrmHqY884ymHE3bfPXcpBpDxm5DveHlB5s+sxrLa/n4sEbqad+v7PfZHfbn9j12b5Eo4Psn765TcyM7sVQu2FsarGKnWFG6SJ2P87x+5e5Q5pKy3AAG+GHIs8lMENTf9Zao85lGSwQao/LnXju9HikMkyPaIBJ4w8WSXPnT6N+dCmKdntylYuYqpm01Gk0TPo9QepUbTRCSf0eMpSWT1DxkArra23DxO1fX35eb/VS1xIymd3jTcF3n8fUiSEeE5PwKZyu7U1tqJlWNRXJU5qPVbEEE/mVwVIE4NH8LSkaS59eRg3jKBLgaStSVUei6vWXRofxnwS+/wEQF/DJqVZWUF/Sz+PQXJOGc5/xS6YJ6y7TdTQGp3w+GibRKsmBnIc45M2DbfQEHO0GTbcU03r4NtUTcy/Vgy/grsjxVO6q6wK99eIOrCxT3Q06YDBGutNnVZHhX5AynzIfSmgm6ZIpbrfIsXpCps2ubtiICaSudgzXmu6L9RfNYmTDqi+pbVQVN+cxn72kpEOOxn7XMS8g0RjeUMFMzwzmJa2h7kxWlnKeDLDSGfzZGBUL3yiATh3fcWMDtHm14mnkosRDi+bGAhBghPA3KC9uxcCbd5B4K9+dIh+DKnxR+jv7FPWV5+j+1+LbBhQWeZvpvKaTl2O3pS3OCXf+4QMAcnUw2Su2Ne02ux9jg+WlauSkhqcXbSuBC1FXq1lU/hSjSryTCnXbIRi747dORbmwwH5azlLyx8RhF82vWBcUjN4AM2anyBLvxBnzwBUVNDW+/chgUOXWH3Jp+595GCr4FJMipxoGB3VjfjHXchBSSpqWo78VkixEKl8LdFgQ6KfEPVKBsMBlFpxYuQ/uNLXxmKx8/vNqedowsqjzDCgB/QacHhm5t1ds46LPKdPP3eDdZ1aG1UczIQU4LHSJFakMwzcfd7XwdBS7qZEcBVV+yUCjwzEROIfbKzl/LTDN6lWlS307M/GC7F2t9BAb/nQDJh2urZFbKFnXtBjNDEUcK6CH9mjjfpUxYKN0S9Fb/ctrHD9AEG0bcQwuSTgy/bLiDeco6S0ZokqsVrYnUtQHpkv3G9oR9w+NAwXjIJ8l4XtRTBpTz2MrLvirUb0wWt/sesy+cNNU1Ww5pT2MPrSqlPLsG1uj1gVGMz+xsMIz0x6lWZfIkqb1Ndz0EkMU4K9O6r41yafNmHkXOOUQLtx3SRJrOqSgLlvn4rz2iEazSIRJtMQoIENkP5Z3wfG+WhcsnW0FfsT+tOIN+j/F/ctTDgVZ7wotEr0IJ540+plBK6uMPZ16tJIsmMxZsnY6aqsIb3avRG/xafXXJD9Jn2XFrMiUuVi3soXD/baxg7XNEEKN6FUjG1u/ap7b4oT7N+BWrblQ0bHNXFw5oK0DE+BzaOwIpiscrWDh6d76uYTbtsBeDkXb1XvUjiFnoK5yHmO9QC7Bl+qP7wRYA8EQ02DUlldfX6tGIAVoJmKHG1ajzs1KFIwVe7RqksmRmexc9xmlGB8p82MbcFejBg7hN6mRDboJsRt/dOciWHI+3zNoBsLNUGD1QbgDyhhjhexEzdWRafClWrEz3TNw31Tgba+SyEIMfpmg+Xr1Sdak8KgY6+KFwa7GBFQZA7hTMYJ/XonyYZ7DXmT10GW6YjVJTwTt/dtIyUE9T2N5Zv68cygM5MM5IjxocW4alGyxWLr9C3k5db8+RA67OCMnGyRbn2HvEPLgLN12IZUIktLvHYTvzLQeGb0B0xJ7IOPOpwb7kNhjQC7rseKaW6yfgWaxGlNh84PC/55l51GEr/c7iExx9NVzuiaAcu5Xso/u5+gJRpTEDf28rxdRnkomQT9ye55UEODSeFvC357ScioqWLvCauOKx+DM3DAB57qKZfNyzvrgIh1peQBB5EFp2+CDeOiPp2lJZnxzygQKCFXPA0Gmjzr3ZqPPJX1w9eLsldZezUgvpjgkA2cbdfXu42BtlRMJGWCHBSR1JFi948Xw6grnCpNkZuGLWazAP3Nyv1nQpP+enKlMc7Itza3OhXtTHbpTSzt23j5mg9+FXbk2B2D/7dnx0+VZxtshgYOdGJNIYq2fxnboDcnHr2Aogq0tmzjk4n//gQxBFMchKMyUzmPQEaTASMEUlCVvVMR3rGNbNzp3k77l4YcBrvEkbFrixSdgVlhCstvo1jTYkyg4Fgiug9R16Dk7dnYoYExbUkXncKq2d8sGyOkkTVcKYDQ6TALpt0uNypD1bQleP3t3fvTbj0vyoPP+yJkw5BsG9QWjmsqaHU/MKYTmxmXinscmhQfnfTq1do/D2naUHvVNCAx7Bp0nw4LC8/cD3VQ8BX0XsDm4EpPtAVH70SCE219fuvtIUc1EPmjgCyhYF3L+1iiODZDRVNMxkQCYwnY7UjP4cusB1kNSZ8ZWtVer20JBmSZrpkUzYZcXRWjgI04QJ59wKIad9y84YjfX2nBSlWJJbhUWZkKmbJBrVlqKJot02X1JtblsujLEbcNaZzEFNfWyWBpaXo+0OS4ip3uE3kLryGbPIiD+Kcf4hjOQqtavgZEWUkT4DxCAGTEVW6XOcwe4rCGHuOPmRSr1hIhECjdRML9IXkSAGVSV4KswbqJLyzpIFKYe4qwBXST+TxB6jMQOaWuVpP1V+LakLjIoEf6EKNEqFVaNsbZbqfBv9Gf+AJgsZ1ywLXi9NNJLQ/NDzDlSttIHVT2pBBNCvqXwENoCzAlPztexiIgTaVdiO/ewGBdr0TMzvF9TL1UiuTVb30xOWT+HD0HOWRhQSPZ7hzS1x3duTxc61eSmrcMYCyJroC3xrCFVOcYfBbG42KDNGfehMVfjGO3nBAcqIyU3xQDxw7m7syTaDrdrET/ioNWPLPs4hasTvjISSPNENrH9QaB0AT9OME1oKDXM3hgjfLaWJCejdA4KIHJhPZ1fe8hqiP0VbZ80kA9fRHt5eYVXQenDV4FtPtLQ5fRrQOAkiTm6Yc5mA/5hXL2HntysuuKalAfi/ecAuch1pAP42m64Wg2MUQs6fQortkznTsiAnSyXZCbUurJDCob1GI5fBcHXHX0bTV99l4UAhDYzxHRm2C5kP94t4fOZpns8mblqTpnA2PrLJ0NddWrkIiRk+cHWuCQGXlC2SJOSyenj/z/5VW+4RxkyZjMJcF4/D9gij1pannGTeFRiwLf7KY6mwP1oKY2LBjuV1yt3k0kuc6bNkHiYhfY3AMPfIkevmemKx4O0WRumUmqpuA/JWsUTZEu5dE3l1qqTTAqVYKFc5NnNjTo0YlqbkmZxphPZx1Gl7YpliJZbDicM+wRLY1JtZzHRwlFXyVEgOME4GuQc24M6kjxp6wgzYFfr4UbkNB1KG4OD8VcF5OPIInrGLzU5Rr7dOfdKVigeGD6gjOR7wW1th/0LFaW6sjHmuYOaLHhx/SIjhXUJNugvirTxqPAjTek70FP0PZuG5DNkgWFtktUEQVRpS6tCWvO2wE7aoRNX3iE//2qe04gmbTny1+mFcMTtMpYPfpD4Gm6GfNtnkokOHuQCIE97Tbx5vosRfsZed+xj1xdwgvesSfTzXiBt97jjouCJXN1pHChf2sPCMdKh22Up8y1qpRKlc8Jvss5/TXxWXf2jiWWH1i5WQvpiq9IJyGfTCz1ykO6hz3e+KqMutnwuXByKPKDXEuU1d+kw8mjVnkrDRCpnDgZkX0eNEIECp2RP4f9aQjKfX39ckUU7By6XDhoi7zzy8XvECdb4KLDvbwLd8FKdw2sgZIKxe/aNfNdZLoTsmHRUXrWo1/vWH8n9mUJ8VziGoY/tb1uCMgSNSFgCfIZLIDJdI7DqOfWtOwe3wYoLXyMGlYMVw6+wf1R1FSv7bGWw0lD1taSIkTGrcBX/YUTnu3UvGFMcsdGT2711nkmFH6LnV/QW5zrY2Bp+l+QNji64NABjVX766aDhltQ4Q8Jzq/HNojb/PrHDl30BFMDnisPuzt2IQG35CTGWD2YNqa/zVabn87K50PAXt16e4Cmj3q8KYd95VhIY0niRekYYJGykpF/NlK22GOX3CVsyvN55CaMRkI5mm9xUrEFX7hAaGOAcwhJ879qZSO4atJ4EYmoaiMoZkdtCdtLcg5MF43UsRuqYX057AVM4QbFBoC2TutD0Ns6j4Pftrda0x/btRrvw/zAwNbJf3kthDK10pa0QYTIfQmWy/0ta32DWHVtGqySHLY1Y27Zy8rAChLeNkIViiAoiVaceMWG3Vw1D8OocwWIE2fp0Qac3LlQvJVAGLub/2gZkRz6JjCcT7fh9DbsCQkF/klFy+0IRlujeBoYmStOgiRQbk8RQVhZOlZaErzSLCxrgrhf6smsDai2Uu6CcVZgPX4YUklp6h7TxBCcJd3VkaaeZTF6CmH2RIAHPF2ZQYHBMv9q+mny8zNcRYr3hxbKoTZRLUm+SH1ope7fR14C6C4yVgAvIiv2iYexn61N3Kzf4Iutxl8wMx7zS4av1o1qBjAzLPKopx+pBunmJkSPbSdw7wrTDbf6m3tofmCtz1EVHmt8hoVL8+Y2mfikRlLOZCK/WldPr2+5YhY5Lqo90mixht4FK68OiuU8qFdVQIxx9BoTptJ6wwCl81QV8XnD+kMvD7P3tnJIp5g9w5A5ixLUqfKjmRIO/5BWDiixu4wqsqmUNeNgXaZcvb2s0/22jfGs2Se/taS/6JSBBI47e8mV3am/dKThnyTiNRxc54Qn/xW4WC8+WulakCEUZeGEb5mUJ7NFc2z258nh94AKk4rGgYFS4lWSFk6katG0Ch57oequmNZBou2fM10xGzLNeFJxpei1DeXwpw7voqKltXqREN1p/hRV6ReBFa9a+DsBLCHe4k+tkkNuGWkNl3FKoddPdpiTvR9kR66XGBEWgWxVMtPGH09pkBIrg5+64BArY6swOGH1m17fhdxilMRVcHb/am/HoVvFMZ5rSnkoOGCK6J5jiwVurSekOe+CVYxz/bo/crOhF0+ikNnQi/NfdXrzXc7WBgWHGCHMfxsEyKbo29y6cmgJY4mcgKHC8He3X2wwq/FquR6u1m6z2MsM+UY1svZKofD7k5oovqFljGDBpbADOcDQKM55wQCL66gDrQJRCZjPbZzUoUe791hMUUbeD32lEC+iK1o9fQNcc3oQenohUnwxao0cvFaJr3SLl3t73h1VnDZv76qCgD7R8XtTb/gD/RWffAPUK21PFwGI5DpnkeonXppKfTpMXyoW+s1HdUDSdJPNGFt2t6cjQR3WFS8ddi739mqcWID0l83w0m0I0hFCgwy3OoBPeAYNjskbjiUyWhu93OYT25h/zpzwvWjpljZF7gz3XZtEvGtHUOtBHNHRorIasDUUS0sD+v/o6QhoNma3YCA8I9xjvwBuY+neyvbXYlv9Ro46bNKLsYyiXUcjAtU8mTteUUoxgQjUSflhqnArioQFnbTHGbub1KVZPinlSlNWdy87HoXrwGbas/aCy/iQcNLb82jyGMxn7DddL3fAGUsq5jTOIqZI7/dTcTUYPOK20lxjeT/5HGrbJAu36Tt6Bal6wjRRCbAUEFAZeONaHkyFzf2dDuT+DrWpF+1q5fFe/RmkpR0NTz9xA2Lbucyko5aC3D5lAmrEgpIB9OZqIFnXLongdx2tYK1MGg8TZgU3DM7Im1xg0CbK9sP3pEyhwuKzbLH8wTdflnHNi05h8auQQ5fbpM099oegUIaeTu2fGCikNHt3TU9RJoDE78rkSbxf8yv9Qk0F5qGX0MyKhURcSqMw12CLedn//ci14lPeaADeLc2/EjTSviom+PDnval4Voo3Xw4CQvIsiRchTYH3hCA6ncqOmRYi/AiHhWTxF6dUG9nhU9aPcITQP7MqWchKikg/2lQzV7CepuEq2QSL1aDHbUIEb4BrGMptYg5WVEnYFa6zTAZy4AFJVo/9awnBRnlTg0B0zHggOFnYF6cPnJ0ZXvQEg9pB3/B96VREi5V1XwRxXL5ePzKu+a2+ec/JDBy2e0mZBHt1XN8epXTbHEwFrVITkJUFPIycARVcnFBrtVYkZgbDpR/IbiqEW4XC0cm8rQ5jmk5zoZPN5Hux3JlR5k2ndCW8fERRa/ndHutmCaTl1eBB6zGUZNRj8hOPMsFDfkBWKZKCPAiDeZxURxUUC6ufxlN9wYtiayFYMcsism8q2oy8DSygKkklb6OUx0EJAUtAdkeA0XqWA+aRyf/QzbwRy+lPuvUPNKGwfvomMrcHHRVTzEWAtUNPI0kGG47i8vm4EPbFQD7NdE3dA1aL4MpHKM25e17AO1zob07PUUiDmGqjZg0qk2tsxB2lA95sRpUEuxiLJDm7SUkCkDt5JeXCg7pijWPqqBcKOxS5pWsWCP2J7+qtR6Fhbs4dSsnt64lp7NqSkCI/h7naPd5Qd1fAkohccxBe+reaKcjFZqrul2WgKtODW04vvHB1+phX1EcKJxsOw9EtKkaFh7yfhrcevAajHVUpJqVCCWPpztJCqHUc9NXfusRMicSQaSZv6wa6LF08J8W0V1w+AdRteRGUuBijTkTMZCaFiQmzIOR4qhPuMGAhPO50AklKPCrorUczrKAcDlDFBKbgnWsnKPP5zSOIce+SgmPnKFSm33z6vpFR5SdRud3CfJ8SMmQ2Fh7btuAo/FpGibZC5Gt+CdsvHeSA7UGBAMngJED8M9tIMIIcXrraZllLHrgGj1p2kfEaK+crTO8MB+Kx2u4Ur2R1junuOFoWY8sUbbo9CJtBnhvCg/y9qtZBMhAX4+DcQ4mjH0tVboxIPd+Ui3aUydat08sZs4Ox8WSZlY4R598VnxDkRy7TnI+ZKugoN+02Ic6vahIybjvLq1vhE8tLfAbfips+Klq4fCZoWea1BPKyronkqqhXVDezEAmCp8+8rKQzttkPgPdNzZUcHYktWkD/KArdLIFDszYH2ofGV5gaViGoDG9MuksXNKFukBkqHT4DhyzqWnoHkBkmXdsMk/9u1y7jWRmSnEfeaOtjfnU7M9ncPoFSg9ur4cKb8Y2bmyMJAlgvibSTF4Xyl8dzIfoQmrLy32SBTWBE2Br9BXNDwqvTmtR/RTELhOGdETLZmu2nXRWMqyNjoyMjDnKWXQaEe9t9zlcOx/640BBI5720SGiv61lQmtZiujFf2QFeoRKE8P2sG6aa1NrMtrZdHXEumQ9OwjdEEbvx5Afey86zsiheTwwEkQo9rz//fTAl7DMwxN6uZoW5MtMNGMIP2CG1p/14ultpHCtxrbNYxXaxxdc6UkbqT5mjLUiPbIOO7A/tkKXece39PllCai9ahcN4r/YMyc3qCvox0ByCAaQ8YZeZEfKeUvfT09/77DAvBu9hQHlM9/ud9sJbG4Hb5Gc6+zgwQ0/OfWkmdm6i8+JY5CfVu7jci2sZ7ZAVkZXR9I5kwC11Px/fXJ43G738JIxRW7IVAMYhdflKIcKyJDU3hzU78wI9yOTsH/ToGVVBjkQYuqjAmcH9VKV834HTtMtCTMO0g2+PufkqrcAi+itqnqNNCipgZTF50KsRySJeo+1m/DCA2TQHvWksvN06RoW/csV6usQbDXRwaYoXJTtDJG3GvChRB56gShWMPDIbqwU1Ydqj9Oa47y6CngAzfB9wE8x1Lzu8rlMEWTup3YH+Qb9bWB/nPtbiz8NEKL0dLo/TEeZxbdFfZQiY6hmMaEeRn3cDAaNAdxoKU1aHop7kKjAqVfSfHf7mJbAzLGt8GYnvT+QVdmMtH8DjDAKmqmB8u6VKW9uI4uAxsOdjVTgOi9wIPuDyYS8IXrPXjwFsDVRTcyJH0jjpIg6m8L2qT/HYpLrTof5z+j49cwX1lqXT0rzn8HMcX2uUK+GoodSuK0EOD8WwSIGD+FewC9zWUvy9uL9wao5/BpHO+W1+M7WAXmaarGU5YgGXHGYZ8i3tkiH6JCAOthDc1MH0OstuWPMqKnsR2HKO4gXRTAJsO59YrqHD4d40oO0LHUFDL2ZjEpJojEW1NnvOioRokVDctBRwf5CfTBO0J+TIvLPBIwQ+Es+lFb9I5IqxYWZJEIxSm6R/1Vl/LCT3mQeMsdWNSOUXvrMmTGD5+EG3aAnVo5oU5A9mz3wicEDVn//rSYbLnjxCf+ubXcWNbOKSW2/mTSSycMTG2pGkDJcTl/Hke0Vwg+zrGWP8qwb88z4WczVOfylpK0yFc4Z6DQrHGCR/AWps9yAKcQgeQY5wOIiu6jhiXBXGFQ89g2CEgWHlgY54/izleXXJr8JWpT5HGP2qfKswbwHD/QlwmH4RLgGlolTpY9WW5BTMLBiIUl7WzXql1gXraIPNRjxQyJbGQUpekQnmYFDMjEWvWW4e4wIdD/6MibiaTiFOWylDeFl7GV6Jerz1DaoqvEqk9lZUjEES1QtUhgdEKtIUS395hNIe37sFIjMqzq4f33e/pDiUc02DjLlASN/yX957gv1JDMLmPtp7J0QkPGnngbYkIJxW13bk+U6qh1W7cU9wE2EG7fdATXMnnf7+Q6QiQy+sCcI4ppxn/AXRWD+vhlReHyOvO4zFzSw6PAsN+GwvLeAetsZKVZ2wMzQay3/tqZlqJcvvSKLBGMwU9K+pNDZHsMKB/BsI2aRiQHc2JsgGQdFi+vp5aBXiHJq9OhmzYI232nvuDr54VwjPsmwMMXvKZMgBUnwsZUupbkBG8AohN4vVYFIbrKonbtcgCOyR8Li7a60G4V5Gn1ccoRI9ZHd+AY08nLnjn6381zkqzb8Eh8SxSsayQx8OB14gSGo8FJDsxguzwYHRpJXZhHlepA27LzVd3Nkkan7lMlabQVNHCNgF0/enleyKZSpBL/9/7alP5QdpxZZF5AFfUvrjgIGQn8lK4wtmouE8lb7rS5/t/ww4TWJuk2obc6MizDg2ikYERcZplplk8O1MSJP8/YP6yjDfOvOhuxndm41RXvYa5IBZcXw0vKQtdgdZY+hMmMuOjocHxNrFU113jZQHPBeDZ5CBYZmiYQHI9lO+8VXAmnp6qvk9s5EetINRJyAAxVCGxts5mjR8jgdGU6W1npuPTAJuxPkPYUcSOrI+Lbr9Mf/BwEpBqqypK91YQjLyLWjgVXES1j05y/fanEX0z2Xh+UGhkl2MPo62aH1qijP8UQI3vEEiXN0xpkA5PDTlPZGlj62PThpN7WAPH3CdNH5FQ1gbEvsU2F0tvrEdzUDShDCAOBHNSDA/uYRX7O0G63byhRDn3rTchPHPOn5iqCRlbcRt2J+Usw48JrVcyGI2o7fGwB9hirxFvJIRb5g/hWMSy9eBQ4x6ED4AJdw9CtIVCo3sk13L8IJd+ZqnJnd+zUGG325dkSLBGbieQeNpScvFQZcN+l4Syb83b9bNWhCzw4wc51XsmmH7G5qKHV5GEWy67oIX4pSYaTdGDFriwG5gHr883HO8e6Axi2uo/nRzoJi8tfaUU3EfBlZzDytj2WXCsQ2so1QXKJha1OTafInIrqJRs6rqzOd3UBGyN43E3dcGfKsceVzxKIS5s8eva4SP219qK/xE4eo7uISsu5JEiE91Zpkczax1oaYQj+K8cf1QqicUqjc+SQ/SqGkW+hiGsW9yBTVDevhpeaDEQkAHVWDUX51AIG5y9jF5aHZF20fn465CD7kwWjNskxlYhPMXqNRU3OSd5nSVKWjsWFzM1yYU32jUXKeNyrOmNa/Y6YvCB44mGwBC5RrZhL/a7RsGV2RPi7JwYXyZgZVC0gP/kPzsId6AgRHgkuuB6557cMsP4w/OyE4axMv/tHTWXsiGdkG75wQoepvxYWk+AJHxVNZHblZ3YLMhMn7zUzT/ipf7lfZy1PaXLrPDypIPjlaZSyjFSMI0jlqb8nEfPs+ByTkwNJp6veQdLDkzLQrZpYDP0d0ypyTEsSxxyych3dZHOKxIt3eZP5aQ8g6hIlealqNTYbDMt257Npm+mnbyzQj898CJ04VLb3CkI0pzpS6OzVqp9L9tGlS+hkIHFwtC/8gje4AhQbRkpTNx0TWvx9XltMfLD9rLtNrFwgSmGUcXCwhqRjpho8B/5f6fhtY6WAwBY2JY17H0wPIZclKJm7sjzcQ0wK2zfXMKUyUXNbJQF17EKRP9kk7ge4vYic9eaDX1F8tz2mP85mVZzxXCoFvbkndGq0W+gdTHUJx1lMsZoWTHXtf+lW0WhIRoyP8c0ItWkgmss0CnmtG69IazfVmUtRgVouP/7p6wB5EgA9URSz2YXsUg7n1amcxejra0D8OpHMw2qxWuuifJMvKus5zZTvPqfSR+y8iUnWDQtFlJzdRZir5VimAe3Bo3rmpKjnWcbbgHT4E+gjutNtBwR11VdJTRhCnDIS8i0uZpOECCNDVxwCD2f0DFl/+DAQH4JQ4u91Y7tbc3S50Mf+gUO9am+NgfJyMpuL9AsFJJBcaclXsjPYi2domMzsEuIJJiCISsqVpq1YuClXNDu0kYwx35LHq3Xz6Tyruf7HBCWFiGOXCDRyQT/d8jSA/yUGxgALivTabqUGTcDIP79Ez+YEPQ/kBt4pU5ctiksl5h46b0SC8Y26OKnLwX3Dwz2uZTXr9NXO8fkm2TFmFY0Ewb11738jBSIXOfeOvM6yhgsoKZi6Qm7uuL3+wQdRNjjvfsp83V0C+8pa4TaC8lOOWgWtHM3VylykuEeAA4wW5mWN5wZTGjKLAp5kFHOhx8Mv5i0adYJzRDL5+vR6pKUnZK1s31f6oN3l2rzJDUkN8/k/SAJjGKedTjEPrla5ksZhvDXC+ZGdX6WKcA2qIU3sLPk1OzF8knaqYm0+aCetua8mtrj0V5SnniTSmGgc0V8VcYDmUAbfi0KiKdWL7v2taTKGJA30wfpdL5KavPD217uxgGw/rVDO+j2dqXseEFP6F/fAaqa71141igDMvgcakDrcp+dyi7kf6a/litwI3yZe+/9Btiyulz6yhCojC8AcF1UXo65dyBUYorckvlcNipE1QP1RD9Cw1lOXjIEKVq1pLVf4CrSb8GKrf9oa1y7vCQOsDAzkzbruOBxNq0TubstsplWrWlzBOQp6iBgTIcmU1BjufJia1yHjb7zfZK8QM4X1N6W5gGP3nqXQEXDlnpIBVNxceFdvlKQXYvxHFXH2XXjt0irHwSfiMq8IiYKILyhTmz0tEo2TPyvd/lQrAzTIWHWe69UWNNB847jrkkDMUmMwqvy2Efc5/hwPOGSncihDsF/UBjgCBYjYZrGFii18Ms20g2YrKERkXneCeKwllBS9VDmE0w0IYH15+pxf+nyVosv4fnLCpuCz9iWDNHy9kUvna4uofcNkqBG9mtwGyiGrkG5BSWTeH91KOuDQ/CWLmrqmfHUYD28fZv8SRRqzO5fvW/xXJ64GdEvgIQkB4Mmex1I997jziTSIBA4wOWKhrzi6WPI4OAJzLcOmaXbULZAN8FvMQzPe93FIRhg5KipTlufdpSXRCrmL2Za+TG1MHbaMVvPy4rt+50OXYyK6yupW/i0usZ1Y7h9H79ysUIuROvYiuvoFY51qEYn6JOK5V+HMVvafzic4QRG/S3Q13u18DnntUo/oUUkn01fxgpp1IgSntsRg9VcYxF3ERAm+pmIATRTWDX0n0vK8SluwoZEWvr9yeuABpt1RwkZZqZCZThtOiHsAmjwCGSP/n6GJ+fkwxbkr/4Iy8oZBnL1E1hSytN0e/Cq4MB6wB6NHFfGVJms4ft3UvY+Pdqp79x0GFxgdpvXf6QlQruFRSJTFvIKU65Q1f1jLUX9kvzzUsGsV7F6HvwqNuRtuMZBzv0rO0LbSqOSKDrv1aUFhMzssq5ozJq040EWJObeXIiEKgCE3aFwAIa+suILYYY89R8zSwmNLkGco/xAR7f3dNN3WOzyuxke3VgeSU0Bnh7UMVQM9D2Jsb5gKbP2oZuhgBh24j1jspZACNi5EPURjfpn9oYp9IIVe28yqSPfjMxJQUd1Q7KnXzDDjpfu5HZsLVxjlUkOlly9esGjGh+JC6iP2IKoCspnut2Pg58Xyon60wdxSW7/wC+gKZp5UZne+wJQPj/BPTEwSZrbi8xHMW5PtaDJOPA+eQacmB57O4i7GycTapoxe4G1tISO6xvjGihTE1hx8pUqWR007G6MvSRwD7HePEEI2sTGBhdsfYLMFAWDvf1cEToPIkMDsPDS5TxNQq8oa+fMv9NAskhbnTpCtPgYj8EBs5+bpdg+jifmCbuSwhtVf3Q3ZeA2a9IvioQlYSvhXcXMIwcYNohGCQWivuuFvxZ20aKAHwkIo4YMtoKOr55OnhUj9RGQ3d2Z2TMYcjCdWD65IJdm7j+MCiZrU2Ors57TIC50N6OBSE40TSXpTdeIlVTHOe4eQ+Q9BK3htzxvdW5eWpF4omurZJE2vYiouZ3YCZ+8nVTRw3adMUckrVxEI7yXJ9txlPn2BWQl4CxexEk7yLOHhEC/g+4Tl/hduIgq9dmwWzx8Il+n+g2oT46WP85f5T52sew9UIHywc4DKXanaVqG0Re0avrMilpX/aXU5pGzUq8cF+WcU9figmLvtOg1p6me0JaMBYMOEEIJTSp8KnThNVc0kY/v9rDKbotKfewp3+CYmPpX3AAjguLVcvg97fMq7ESp7m5VHzgByUGNS6EXU+2tjhHetYZ5NiyZUFjbyi9ShuuzjVTIYSlwG6BHn25CkIwcINvKCIy9tWoZH8jVwGoWoIwAxE9+tYANm9YX1Hr9Cb8Q9s8mYhYS0VubCBMwSGTQioCBz6tQQr3wzfq8gYA9WOkhzUeLzhUn+jyuO8kBuxmqqbZWok32cD+k1w3ffDkgd2hb1V3varojPYWyJep+lB2HwqipC4WoVKz3WxUfkosAzGbp1SingzRri8S6FxwZIAXX4RPSNIcUhBG9y9rGibW0q+VcltAjBmVEfVawOjkgssYGQq487yCvPtrw/50gAgs7gggigmGxX+gOU3+ljgGDtlpJ1MyPuivWjUn5wPxFkK6b7+c/TInWEKbXU4PKMDDjLjZE4xSeUo97cbgIEoQ8xHT5+43xLASf+vBQUMPbASfJnRpPHQkhI0N82lNoQge3Y5rFh9baYFnXl8rcS3VNoVonOVSsCvbioXOU7s5dA9oNUNJvR6Ck15jpdBFTnimX6Go1IhOCoQfQ/NpAKs4QlXG+xmGsHOJkyraj2MYR5patYN5tPh/RVNVvLxz2GqHbOFUnosMr9CnOjWfX7HcoJMwhKTlms8DHS7qnDg0dgrawY2XHFsFlqo2x6f9OyHHw6XQMX+6Lp7L+wkduknJu584whNX/Ss3pfOZ7bNF9xMFnmqO9/dYp6+qRX0oKEnXC8f2EBiXR4fPQMVXKkAs4lySQ7/Mfyoi5EGbDFcyRYKbr2q3GU6YaIMwhl4gepHOTW5rlEuXwJq3F675gRoAMDnh0DrpopG+JZi5I62c++cTs3ydXcB/MuAYbZHLlDrim00T40UezPiI9xdI8omP810fzccbZsUrNW0Kv/czoWGQoMdhT3wqf5usoLaErP6YAAfCadkOyQdTM8Xr5sz179ahyEvKMoLKwUjD3zpM+nUfgPryNHS+TrSKgF3UIRpWZssNz9jX1BF8zUzmF56tn8LkQKaHyRs80SSBdXK4u8FCXKJfGtCGTwS9CPrTWbS9kIMc1L+Y4IQ1hg9IthjTvyDz3iNX18gmmPvlk3hGafqQXZdc03t67iwMUOEJDXyEG6OcZloKh2cw98zzHU8j993iK5zD4FkmVJwEXEPXCyx+plOJlzPe905oRm2RhFLJ3YQ4E/U1tvn+syOc0qFXBjNgN9jN1YA6xPlJ5oQAB7qAdY/XmEYz6s1mOqttRay18i5HqLY2oo+n13Bt7McxH5IyLjny9xbiLAZ9K6GVpMYh+PLH8qV/2wzFLq6t9zIZy1SKbOgsJnccoPVcPUMwmLyVnNf0lp6SfUPetqX54CRZjOaXKPjeuKnaga50eCmn9ifF6FQf8PDoKgSQWS7XBx8iN//AZdP113uUnKVvUMdYKAUJvi2QGNn0HFDfUz/dCV90Oy0Q0YE54w3zELNRJrrGmnblo/TIDbaRuTed09aXEQejEGQKslgFF+RfYCvqBNyN219kHNxUVycy3W+2s1wYC13zlD2VxTJxyeoFaVeoN5Y8qFNhyrv/B1KbGFYJzWhEiaWBUT3WdZI1KMFyaqfcRxXizDLJc2Q6EQIMlw/TgBpcKFGD9xS61HnnCrSHyrDRZf00Pjtce1IKUBPfz4Wu7f3TzeXOm039O9ZJOJdYe/JYVw/8AKtl32wzXmPViNKBrtdne1alWaFTXsrzpcmT6lAAHoJ2qOtDsm61hRvEHgzyg1o3HhfXvRFJOqPl7jPzDqxqLG0wtivl/X6++Rwi1+qC64GVr7ww6B460Ye8+GwbG4B9O1nChK0ja5y2nnDIQcoTFZh/QrH5UIfYJ+h6RiJSg6Hb85s3IbKXNhOQoLWO4Qgq2theamvZ2A50hR1d+bh3xmexh5RB60d1vQXRExxwzgESk0OzmuUr1taF9CHDiT1ubJfG0w5l1AmH04tDAjtr9cRprNwr6Cej7arjDxEOYeFXLx2O4eN4KbgPDrxOQ6ET6zA5akMTGb6/lshDjZjIC1VRN8FN8a4FWoq8VPEGppQsG74SIJeM+j3XWK4SrAOSfAYHNTuOBxk6nItBl+l5p5j7iXXWBUEO8W21SwEfwDOOLL92YIWTDnNBZrBdbGDYzhwPdZcDCU9QBJr+krYY/JFKECEwo+FPbUu/xxKFBZRNSD4x9oDsXo2lXgTsbw9X/TR5fo3M+ef3xd1t6KyaayAxV6qt5TyPlm9WMeWLHOg+ZqDRcJWEBcgQAGEs2LpMpFjqNsZcNLLuyX/zYrZkH5uBuE8Tm0SvsBH7AXfUSL/8aDwlxKhvhfVES0klrF5QiFMF+n805BlC0pYouBfmUd4agIOFB+I27bnxm6zCVMGBkWKgiY1MS+/ThuOwqK33V1prADONKlcGSKxu4p+X3eJ/ZCSKzsG6RAZSPCX8mZ/VPR1Nn/+HxIwvnLBBcKmeZB4w1UXLERaRxdaTQt85CC+WGfw4eT1OZ+Z9Bc/LM8cXBjpBIH+SNqCTWRW/VwCqQRZfAmZc8oPvAogcJi4tkms+5XA+GUkUo5LoDCyjgF6y9IQMog5e8qyAp+ktec93K/cqbRCcREv9HuJSU75NPVefwuwbShuywNnx20qNmhuAO4BaMh04anRa0RXkzlWPzX6tLpQvEmym+LddCgIgu2KWJV5G81NI+BAKpjoM2rlCqK1+gEr4RRkbF/epMsOWpiaugmgXlT3I3xpj75R7A7sjYICMGQL2Ah1UFT2gYVfKeLzhywsSdxfLfD2caR1+flD7OoRidsvNjCk4Y40pT3OtmtJro82ytMaU3dBW9C6fhGh7mSzvEq77FSLo9bdqZC9SMGWAX+kiU7f+IpT/7+0dxaNFea2mhYogeDy7i5VwO6xfOso0fiMSL135vmMVqIBq0TxWYeMXnFooZC460TXAJSaX8gXmCAOvsUqMgVmbOQLag7+gLMsfeQacRQB8DJwOghGO+I1YRJfEppl8EojcmxIBvPKAj7P5sYa8/g/W/G2H982Qu5mFVmy1yScidkBcG2Fk1sf6zJODR9wOrrPxvNHM3pmeEleV7KvWRF96dVnWPqoNwLsHVp9hBUYaX9Lio35gS9cXQ1iZuHhzU9wHPU1tNzipCrLz14K5E5rMaOq665oUWgyXh0WMIqTveudSEDdQe9OCLzRZjkzMsRO+60SXyYvxUw18EQEbQg5qkyia7zu+xEgoILJXy1IoEl8ajYWvVYg2gmACFP4qhEO1LLqi8YkwOFXeIdIDCE+HTPa0kQcWBLDLmJkL9sH/f6hoSxkg1aJSCtHtAprltFhXKPc1SkE1RRTaUIjA1M/17q8TxbrmemiYRTO7JpqdNj7RqcFCGCqxnCAMezKpL3hFXaa5iZYAN++uX0WrJqRTjjiknCBr64dARsb2KVrhREz4Zk49MX7OwZ+CvzRa+ayoZBrJmMJc7YkXuI/2bTK06x6Rc0hjER21kB0oswYHu7WwykO6g4oUAZqIFuSeGShWE2vxHsY46WXIuCu3CT+MSamI7QGlFvlDa31BY6FYlpMh+oY+coWLXvItYHTJXGB3egn/+4j/Jp8iRt1WpslGz9e4UY4+K2avniYyEz3iP8PwsIWSAW/lwYKxoc8ECXRX/BJxI6SOvT7FVqhHEmog5V+dMo4lhHUc5rl3/Admi9aNxb2rnghC+erRHV6YaPOTOP3r0sqgShvrb1sbkjDaOMBL4QJY0wyzF4nFgDcdb8UrOZnEmuLfDMwDDZgrdQbBwJ4Z8EceRkjJpGeZA9lHsmjiyq8/7jQXGGN7vOHb7t0q+0GuPPvnySJ5lwc6Jn+LJo31+vWg1VGtZNlTtlQ1S3lbYYGu9JCzpIXT1rzviWiJe/+lwf3vztWpJl+mizIbisImPzyPaa+a8cm07GTZURCox66z1snQ0hBvleFC+Ps2Bii0XR5uRqh+oQVKBC+ok7cb6/TtCxiU+TqGbv3+CheES1JF7WizMYffx4rfYs2ShZuqAOi3xzD2/cPt2vR+/J+S2o0o0avMLZOx8PUqfeZ56I7++Q0DM8qhYHftDdVx6/SwVgy828xauU0dizENW6urgV/9b0pSdxieS/1j7F8LeVohl7t/Yhjr+RRnN58gCKt8pxNxF3krnii99KfW1iHTUfpp8bTRl80uicFbfnKHfjnNQjUGPcVXd2N3x//Z9NWMPIGrlc/j/yWTINVkKYpezp5E4cKiwousKZ553nQJl6GX2ZiT3Tr382ZGvX0ZG1vF47g23IYz7lnzXuSAjKNJdgIn27zVfeBrCsCxKWZqnbkYx7nWee5cXot+46OiZCBgNlsTtXgFAOIw4k8PboBSRdsA7E78gWjq6WQf3k3tKA5/Em4n8EV1ptgg6p2D4Cu0uU9SiSu39Zg1nM153cUWdZdxE2gDhQ2m+BUZs2o2z0rHrD4F13LkF0Lbb/G6l/ZSFxIpOXFjAicC4JmpgllVc/XIHR8+FSjMR3VyP5Hk2f3QNF1vzrRQDnyXxxNZTFBAX+qaCHEsRwgd8sF0vMb9wau0S3FRDvXGDGRKLnOPtxmmRJRC8hoVmOT0ThvV9Syleei7BDPEeVB+EAdYv+R8P9IlDR372wcQQwWQdf3MiYHhkiCv4yVEYq8fnPVOOdhSNQKR0uKZRRSPP7R9kuuRIr1p/P2CT0B9rDsYyX3bDs4xr4FGiBupuSND5+q+NLZZbSdQsYtu0bOcmvn7TjzZViHdc8lJebpkruq0VIjqyExsMyu5tGbSye2+apWJ7o4TADWXmUYvOXGhSMsbhwe/htE/3yQEhBQ0hFWBcMZZJMbX8rjN9BH3go3xc3/dq1EjAv7ATDERqzjkx6S5otG7iwsUGk5NCALn7JlZrTzoPtMRTrBJ0X5uQLIDSId89EGYsdC/nPFK8MdoTvy8Pk+r8Os4+63XStuBX0nHjWZr+beChIBae9+5uzFhcXibylNDJxRyrX0n22ra+AxSWpDV3h0Y8NFjm7GK+Y4tz5UmVlDbfNHO4wLlM2Fq+4nTOk2Z7UEmlXx5Pm7eWmkzOPzrf+FNNQnJ19s5+6enKw2xvkZNrUDRNa3KnxrI9RwVe5MAHkidpGA39KKWofgov48/XjWnvdiwqb7phED46R9atdPP3MvT4qZV9GGcDIoshslwEH5yVyy54/jo8XLcu55Qfjf7mXFRXcnPL1Y03XiBEu7ZfPIDyR7kzS14nRIzaALkpdmOfSw4l05altFF3ge25GBHPkW9BBGvrfS0c5edqLXA9zkgVr2PN6uep0hNKX2qXPijWD6RHH2QdjGWBM364QPlsfcyKl6g7IvMbEa2Jg/EdAxO4HVNBYBo5PqUpTsk7eBES1Y+bUKqk/2Lj82vzNa59EIGs9Crsy1dznEW1vQJlkn0FVxEp2IPZzqQWrwUJOT3Uc+qB39DT8Mp++GnQiCUSAVceBM9+uMsJuijPdeVd9VS00Z1tyMbk4wrToUWG29SUFoLg8uwH7polI7a0GXvq4vb8lRbRyq9aWQPxTibo5k/azgTiLlwbwpCmqeoWDLLwvcOTLzoUTpxcN4+5VHNDU06CXek8a0dm2GE8bpaLUBY27HLtaNAjhMSPPrWIBflm8Ai7FDNupN7hTX364RfhhtReccDE9G4OIXvNBh1RIFBzFePvk3Un2iQNwZGIoZBzYfmlJkl9kcCFFvJp2qkzND+nfpYptdGHXrePeHj0G0TROogj7pE63rAcrP2s33bMd63B5uyE5VYoDqeAyGuUBRBlRGQNodQ0QNjvWFstBmSXLpSGznvnGZja2thbabGm7og17Kap4DGcsrPh91QUh6UB1Avz58LJ+NqoGyx4LvMSeu0w1MjzTqfTzlis9bktgwFrSjdf/rJ8hcbMLubCELw7oSUyqqd60ZeFWKLmCHwm6ROJE/esUkj1HF3rBTMFZkx2CeLiSgqSXvodOHZQhme+wKIiUnHjyX6KnqjXRRHPU3o4yOZblq4H8AcEDhvxrwv4NqIc0oFkU9j6MYsYwbkQKBGDuRIFpZUEcvD7/DCZ7eL0fKcEnA9KInQvUhMBpLWJo73p61iYC2Zc+qwugsdiiywwIJRiB8KYKlIUgWL8UnG6gpmpKv9hHhmjWexuMCjdrYsReTb9plb4b9dKM11D4kV6B49FOdN5mvIjBTw5h0R/jHC3t0ZnT85pgdXiygSroD4jGU5HQ3JfpFNAeodVos1Xu794WONyuM1V3xEaNChTpCsolMh4bCfiQ13Iroi4jYbB4wRxyuC+BvsMJ6Il+YVbXZtW+gDw7qEYW7gdtNt+jQBdT8YuEeSyWERg9XD/gT6gRyx/Tue9im/R4GULZkkpstiQnrYeMlw6o8OtmASX1tBXI/s6qxOHC+smdNn6ZxXwgekuiwnSqnW3o0LBqb9phRsHBrpYZyOSRPCvm0nD13urkWOc44m+lTjR1qMGPN08NwaIvwIYzrqrwuAx9BXjplmwlBUty0M4t+KPJe1MQFe5ZSE3ms8SrKiJ/4LfUi1uhG5BJFJPJUgl0XAv5UEhjKfaVoQ6NtFCpqpY4y52NP48ZEPqtjyheGdD8eZMF9UtwTWqGcTu6ZKLtM7qypG4miODl7xA9C5ontDzVl7K0nUvQg/LzrAE5fKX8a7IYx7hODVXz+SrjsHNlJq6srPpnmnkeXsIMeqfsAdHRmiBApMNnBe9XPD5CzAAZnDJhejJEXgKafYT5Pts42SC3S5PkpBbK2cHGOch8VJDPUL/XFztf2c8bbErdQinLeJ9rgnQCvSuKyq7Mf77V5RFNU5f2GaWy+IPLrGvLB0ZNXQJB8IObLUVPlbbhumn16TtphblSdf9Y8I3X1gHZn4V7uKfXLokO3fmPimyaFbNSG34E+Qx1sT8QkDDSScBfr8Ip5mtR/OMGdzhY+hocvixY1eORyd2CLYZOHISsuc9gTz4ITAn05fOP6+2xrbWR78VJacyhB2mMoqPqJdpanh5cLa5AKfWiv8ZoIGtz4KqL0ow2IFc9xsfmcOa+j2IntOUiNV0MSFBScdyvuucIoO6wPl/xvDGLeg6ri6bdw7ta1MCDaU3u8/FVHUJxp2jPKd4Xxv17HsJQEPezBvpaJueKE2ZFzuuwK5Yk0kWgUWnSJtSm4+zsfTV42hKfGgtWgdTEN23wA+8OMotvwpgBIA6vnAi7o2XxuFN5868ymUdLrRvkLgJuSjAj/N9fOTD7uVmSCq3/jyBAD6KTcxpIlHCv6EpGOBpHmmlKR0gm/DsxJqqmnlz0D96//5PUZPs6xG7NwBFOnpVQLG8iEZ1APt1haV7wO121achSHjhe/BFDacfSz3YRdY8hi6o6uGGpSxeFwzwBn7Igp7jupJmORLb9mXAq0yF5Vs4KI1L3POpUrY8mj3OtgIA+rnPT4+kpgufU2lXTNmQhOCSevenQMXJys5c37YQ2gWFSfs7ijuT3u439Dm96SnYGWonGWZHvoRO5NlhfHn57d7K5IbJS4gffYE1E/2sj4j9ob35rhEnT7yrnLqzdw+ymQRgctJMHlAQAVx8M78sqF1oGvoisWUGyffYqYcj6AcO5wKBLXeXQCFS2ggyEXILXGWlqJbR6Ve5hB4bpvdA7dUtNljhbhwcT7MYxG6aMtBdNM0gq+WZvrxJv9rerTqBe95bIOQy2d8xpU5xhNh3D6K2qijpxu8hQpab0dTn0exDJiFpZL96B/uXbCLGMmz7NxPbW4sU1c52JqNLwKGy9/epPG5etNj7KpYa+pHb1O7y2ZadcRce59aT2k2J59Q1Y6ab1pDLTAiekMK3CwFAp8AqSMV5tJjZ4QGYdMuQW9gF0NIS0mONA5shBrv9gf+GxXfbVcjxYEnfvpjgyjW7wcOJnrlKHewVVlRyPcW5sZ+IuZpgriG/M8jICDEIo3UJy03z+M9yMH1v+ggmx1O+S1u+TmUPAIYu51SJIz8vStFXqhAUapMgaItjZHNbm0QoV28EgAkDiG/HsqF47916IJVig6Ft3qDYbL7dVrqfjeHztAdVTtZkGpZm4W5QbKdf1Bql/yq5JeICO4rodjunjhu9vZMZYFW7cWaSJC8P854QNHKkMzX/XT787GF9b1Mt9URcaRmwGczlcNN6OGntBZhoIxB52Zfkq4YYvam84dpMhk4KvvXJgxWDcK99Jwo8sUJt5sDSKpa0R2Anr79rQn87U3ahUCxJaSLhn4XYTiLb6p2ehZ/MPq/uBTRFSO7AfTSZrQQ0GRO2MLr9zp1q/2lNcnyIGqMA1oZ7gHN0me7Ed2SaX+Xqne4i+0ZfiSn1giNPmHIWvJpKtYZAxYD/EHRPUg6XJ4tyV5e5bH5iNlOhkWee55s48jnTDAPeOnexpfwP1fPlwDYNAX7ba3I2qKzIUsFD/AcW+nyZRlFl+5fVhpQ6InZeuWnVfkP8HVEMvxWslqf+ZuVYJP3yqWMz4KoLd6q5NFjO2S2s5ykbALOl172wNMDLNMPUbjWwl9SYFNXD/14meKTqfdKe7fhxu7XljNDZgCzXg+x1hZEcwscwRc4miDNcnQNIlCL81DCGe9eZkMryGdb3FIBByhv6XvqKDXXi1MFDGVp336xrQjOY/BYU7v1TmDi6FC/hhDACATHoFVjArjjd5LQWQ6myhhlvBIqxFS+UR9X7WaS4SDNu9kMozJJ3v1KO6GlfvV24kiA2C1hnnStuEwrJXW0I31pdjWBLo2hweyArjxXc1PHGOzfRXjxKBMT9qGslfeaSnoxluJoV9PXt9xcUuMUV10wMOU5c88zPriq3mgxzBe10qGJY9yNtwDnOAujRf9aq8EIth+dOGkK5RmDMyi3QRJJeDg9SYNfeDOB5GKrSaTt45cK6qR2xP+Iu9wlW6eW+c2KBhP7XOJdMqRfQp6a9WCYLY/RmlY5b0taGFcMLHLxeoMotUfTm9C+v91JfGOjoiEpqcGC2EGk9PH09I2cI4rZbV8sQt9tCiIios6azrasZRRjuoTqAbES2rcb85t0Xht+JUSMFOQFdHwSbjYwtA7gtKWZyQDfQrVKTxt+Pnsm5MY2STieNv2J1po51z9IokhypqlmpdcZEGHxBFt7tqODBVW970GbO5mXeYiKKaF3fpKEzlHIxxTzHlYdf3KzfTJlG7i00gVE7h0HQFSrtmQqj/qWEGgkyYTJ1FwmDpGHLfi0Rs1BZZzpnDtZ4RYaQHKcsRbbmTIoRolAiUaN0gFJ4ip9IF8kUElKxM4eo8g0WFq6KLEom0Cpqc86/R8H7zNYc+jDxVRFZ3DldE5u2SdFYHBaNC2pCx9XgI5AOA7pMzKHYEkEOcp+TfZRlrNcP5NW7+lz5H07+6KKdDnxCWSiv82/ORJlPkpXhLCtzMkQH3QpYC36beWMrSbIR5Dn+5j6PASgH5Pw7mMCAE76j76WaClfr+guuwHLKhtGnWe1gsRFkpxOxmJ6JRouTMHkk6dv4QJQ+fZ6puyerNDWkjcWRPc41cB0UzMTOhChNVa/M5TWZPuherguOSrD5ikfcZP79m+LF5tMBoTN0DYmUPnAwq8N4UmowfFltOIkpff3/U72lk9LJS4p+QQcnSTgFd4Mdit4/XVhKfZZdH5OTlf8Ibyb3tt/XpaS+Lia/nHOYeSM2vFQ7za2/Ao49/cOa1iYRvY8WYL8+Jp2l2bQCjYSm+oDb+IFdJW8uv2uh7DJr/Op08PGg59Kj6MXdRMgoD3sOhrr+dOr2kogJtf3hv71SLu8sdp65ZFVFXFDF8jMl1gSpLGLiIpdA964zJ/PUCnEJWTMgP2ykyDAnh6+qdI5D/a1UYG9QjpGGY/14I8qR1WGdv6G5ZERW+2325wxnWwYlPxFPAzPV33gsMP9zuEaxkjRHEMASq1A5iMQIWHEy3163I2wDiRHPbXfJNokqhJ/tTW3HgQDlK84cX34eXuxTxcs8ZlwIfgpzD0FcOeZ7D5jVpjWDj2qr8C7KyzEBIKEQHFcIENiOi6IibCnLlmH/MiZu0oEOUQbDKvt0rJMOEojNA8DMI6eUJupnTYhkS1lKStpmh9GBXa6y+6PygBQuht4TvU/k5PPHRP88qvRmSYonieIEREnimltNhf/vJKzydoCrb9W6OODRumN3nS95z6B+9MIlKkyBz7SdRIpm502LyC/tnkvw5IOhNvlyzga6qRkhsUNnjdJWj5gSFbpaxl3UHnn7RZc1L11n916R/+oP4RQ32rMLMNf+b3Ln6FNphDldNltJLsCb4CI2fhMQWo3T9clI00aOCiPWBfv3qOlkPYwUEpUWgBTNbv9mObFPwZEWURLvqSRNgcFY4+tVQ+tJhZG8N+nPS4rknUFRXHGs2yeWqmredn1dHbJct8/mDI05tjHTNCN86CjBN/iQXP7nRAPVPbxu5oMGN2Q5FP7QouHSI5g/I7VU6/a4y03UiRcFqIpvOU71ctQ0YPUiil1TjJMNnsBKUdcAQOTwMaEhZKYekQJFucQEDXMKrPEr7qwOEVtT3TM3cCp79rli5cWdMKP8dJxwJsw0bw2746+Zoj77aJcYRl+hSECkPJRmv5BXeE2zS4Zlw7x586GoJ0y0IemYQNr/34s1EomKCZwYu4SvzccEv83UnP28M5UW91hv1mEiYno/UPUNshT50DszM0vQC5BH01/OvQCwUyUnqJJHVQ4WMCgo7nhQzyVkQ3gyWPoc7LYNoSAh4pOSoDt+t3QOrJKyzVfX4sx1r9/8TRYiR1KgIjT3X1DyjE313mTWT727kRtAuxJoOD5+TOsNRDDSM6eVCIqsjOjhNgM5nL5WHjlSeVqEa/W086uwaCqW3riHPjWt7VLFwu7dlXR1vUNH2hVFq6RIzjDRt/JN/iL+AR4cIzUHAzrFPPmCvgLXYlJ1UR1FPwExHG7vv+ozM7g6GKZtfRL8sA3prhVe+ayABepfpzOcr3tE8VX9pHHFSJBpq8ZcximLlGO24lU9Z9jHn/UUAitIqVMlYls9H7d3jDKgDJL+VRBQxubcBrzDRyNcRks9F6/KfxAEndZnAIq/+wgFqmRJuGsehbrkgQu3rnc6awYzPMJvja6gs1G1YjjnumFgC/n/uaH/lV/o5gZBcU++Eb2rGSEw0H35VgKI0mxRqiVM1WrKMEzIw9EQbiE4lhUqS0WX7ajTe+RKFUlFCv2L0Rqp0FcXRrlwDDSzSpJf1tOPwOIFXrn2vcLxh7/wk7W2op1rgFOd5jpWmFcjeMIp0QJR/6bufgjhRmflH6SYRP2erU7C3qAmsBteJzKu8POjVJPw+TXj9ZdlwVMlBCYakoVy8lt7XJljoUB+0/dtrsKOqTCriBEBRG8AlQkmxYT10CSkMrc6ZUqvDycieeKDZpMo6k59fgkkiXPtG6GfuD1dTFROXGz99xgCLEJJbRKEfXOSpynMuBBwZ3nlDzuMj+LWkFuEaZkbL2SLxB5BQPn3oM6rwGAjMt2V3fNM3wRV6t3PHMIybzK7TWn2yNsxmnv6JHp2nWYL0VaQS5PMt2n8s9Tb0CMw2Yv8TRxwwv6Uvcok/YGC8GsYoexK45+hfGVpNJA5N3RZ8iKvUGUA0g0JUFYmkqPhRPywuI+8Yc+u+srFzdo22Q867rn2zoXV39vFObKv9f+PsydICAGCelTw1Y04Mp+dhu09tNtTr8YejX/YbV0LsI2MsKj/bZOIPRshiFtOgMezk1+djcwRFG9PZJ54LSRsWf6i6u1mzWDB09RTlUt0iuNpOYduEnbGf6jgKdEdbkIhwWHczPSDv2rJ6VWwEHAEgpfCQ+4YwiBPhuV1wxpzJHN41XbaOXcYL2nCZ7/NWcSuegxi3YpYbdhr18pAn8LZ4SyiRAdHjkSUvBXTMerBssnBxJcAxYkMOE94y/EORw9UrCBZmKbzglU7R1sgwnxhIAAgNA6PYL1aF0UQjQDW6e1FxybcaX/92KZzIsoc8TSvi5oebp+CPfzaNHRiK6CJi+TWiole9/7duOBQi6LxdhhzXntaz0Z0Jo9fxiH/R8Y/Pbbg6lc0AaXmA20hXjzxfay1zTWsOKzEFy1gqQIiFxUgFhdbEDFyZ7qecIPPZsREwFkpyG+ZVeaisk6vmtx28kfi6r8TAxB6jB7Tvhlwb/YeJFdJHWTCLWr8bS/TsuZz4zDUJ04oSQbihYjGfpC4frFgRGVC4I0dYwnP4fxYqf8aBuQEvN0rfJUD84RuMBL0xve1QQfxySC8NJCnl8c+YYjgeOBmTLk6n2tlswgcrSmlQgH7VQoXAAktPy3Ak3/sgwb5pNuGEURx2zK/kzmtxeSyUIGCMEpevL3n0IAmQKC0Jt50ICpbeH38GRXPHWGIDQiv8UFQ1o4V/8Ttzb3Yn3FBiiFJajW5SqN4gCNOtRNnnlH6M2quQfyvtevgieBW2HfL0rdF++H6NvRJajVKVTrtZzSOcIMGaREhG3iItNWw935MnPXVr+8wegz48ckmKqnLTZ0vYEB87wxAPJR1nZYB1f445sNE3TU3I7b/hvqy86ozSrk031ke7Q8dCOD+PbeGJqRPUWJxYHTwqJrhTiNfd3N8+Hsr3xEBwUFNNTx58jim9aMRmBW1nBMBDOO+EFoDCoHK7DotBoRhsVR4QCjTTrUmntqaI5WZe+FcZOgdQIj+d6j5Tjm0QqNDnjv4LCZC6y6mk8mIuHOC8ABdoR2CzpZthxIfWVo3ODreVtGNc68TpsKHUuU7dlXIk7oBBdrIzTONnjPlKC9g/YaG8XJWCFqbZyq9V+3rTJrw5UAEIj8BKs8xzRCNDBm9BguHkOQsAaWZlcNwPhMIyhUNbAtNQ/GpcEeqXlJ4JRNPoYN5g9OKHSRkf3ipYTWFNqSJXhG57ye4oJxKK8vJ7itErtcEJ5qNxVc4fbxBM303wwm0ElRU3DFB3BKSquzDdF1jkvMjAZim3fmkss653gApNZnyAUNrzUzcVMY/U6JvyXRglm8WRJ4RKg6KPUKsrYpIy8R2bv0rL4cTfuUZI2RVJkLgYTstKFHJn1hE5rTJl1JdpV7m2gHuUo7IbHpyzGSG+8PkDHoeO/GyaWYApkPs6ijo/HXXwXj6Sh6/FK/acZlqEcRlqwH8+rEC2ZdWjPCH/q9bKLzT+zgAtw5mryLQLAE3I7Rm6Cjc7hxbRYvs8DfgUc93tYi6lfCqtP3fwJ6xqaO5AYuAHBmL2ch13qBl5ielkB0UWohEOaxEBNh9ugLDB+9g2+iwoQ7lsJAhqDP9xXykOqMer8m1mT1SjIN0pzTF354HiZxvzn1SLTGQPu8SWHtTtzyYhI/A4XPwjHhkgMYo/O2oLlhAZmO+o02wuayFWtldEHSwWwjqD6P7mMlnAov7HtYAQxC3fnMf2QyXFWRQtvdFC+QwvCRyX/xErAxh+6khxCFSLjgFbRsp81mN3iwj2t6ul0SgB4wnfBy2e6L9eR6ujW8sAVBeX0h0uJ1DgtDd2Db9TdbOezrwvBSDk29sHEY3d0Jl5kIwBMVDBQrNlAycqQaXNe3AakXHJH4wanZpgv/wYn8W9TeErhClaIi8dzwTchEKmoWxer7xbjQ7Wmnk4jC+VhnglVbc3E0GLrbi8qcfjOHQzTMCO+AcpVqi/+IlLGzzUX9N/KDU7bI4KhHNsK07ZDUuOosMUY+WznCouOLKePUKcPSSP7cQR5ANyHgkHk6NRJ5tYvCr0VUFtAjEFoJkz/4hPjf88n+STNFgFoHbtwlwRud9JrVGwRifR7NmZGkcf7xXSND5AEvgefNcNgynZgfVoGMeJQyHAnKHh5d3T9sXWtMBm8POLYvOEsrEG5px/J1LAG8sgmN1ZL8S5BFat4MRcAC25/SAO8yWB27ROZFF1FYkltQbh8qC8MrA2NSaYs0KQmbu5YN04OeztKQ6BRCZFSiUhFa1ikVSyJ9eo0ocEg83wDKV8lth99shvxQvX0CvU5fmOlHEgxAUxH2paRrwLvFjVqBfP4jamW8TqvcKYUNRY0ZPRqYRkTBWxP2srdgegys/I1lZW0GsI6c4FQHB/BTaVN3FBHq3IRwx51iOjwYZ9HwzhRnLuf4nLgCxrsvdU3FQ2yKtdAL5yohHT8JTQTmE3XJEI975OGZxdvFc93bhP4arpxiwz6NYZgY04s08xo/u3drnWv1yqMiF+X0wgHlWip+Ct7ryBBp2j70pfEoJNGGBVvkQxyPCMyFR25hIReYkiTFS9IRJ0HUhvfClmp0ldekgfiAZ80iXKi+IykX3eZYXwdkct7jwS8J/HUlEBdkcUpsjZx4Hfj8g83LsHPb9ZRkwfckno96QxOK5Opm5o1KOAY6cXm8lKUjsE7SQIMJADdZiEhesQ4TSgJC6qakj9MFmPtyEl0NzO44JrbHX46xxpQCPi5NbCmo86PSqVcdjoKzLJar2M9q85m6p1p5xY1DAmavZBREjB27mlKWl0+Dx2Hho1P9Khng6U0tpXg+74qAjqFcb+HMvDkspexy3kDGRXpVFwuZxMebhwDdvV7AEdt+MB/HSQK5IopiJYyDwjxUFtTaGo6XYweteWLId4YpWEAG05on79++ss9UTsiXy2Ttsfo1AB8xFs91H2Q1MIfSGN6wpQRLOTOqc23i71279iEoLgdh0AtsqlnnQYXJCR91Hr4jKATBAUjZdx6+dgKIn49wbthSI5pmsp2Za4AnQ760FPw0SvnYj6/fgZbTyV6R6w7hDIfR+Xf0rHOARK2c9FSIVBiVWmmuHLdCJtdxB4fbjMwlXf/G2VWLCyjrp9PB7kRsLA9g2QiVHtjZzXr5mzTwFbAwKGGD80etqOSCE1vq5+BqqqVsNi39XdQp7+ozA6KSjT9DrOxUx6aRjnsOFh8A5KS9CXK3/eVjx0mP5+pvKBiJfYdpzcRBKfiCbIZ/K03WluzJY2dmTjgsZqM+ZiwLYyFHqckgTYQsuVtrz2FCMaeRKK7VFUU4pxIqiDJJjAJCzqplqWHNOiyzZ5jS/UcCpZjXaVun+KBMLiNbPo4u89VXM4ypaspbo53z+4dbD9BUlcO7tuOIZnetEM21pWnmfHnHepwtVpn9C0v0CrpQqqq9Jr10lhIyDrXojtP/YqidkAxRV9qTcRLOiFaWiB4VVQDdjkpfBdoogux//mp9nEvTjpTL/yhk8UrLqAtvUJC7V8lUHKQbobthRdYzIgYKt9aVTgM3WcXQyetMBxe+aBizlTUJHWSTn+kTjcujCiTMbMEGUb+fG8cV6F6CNU/2/gVPWx0wEWsuI1IdfABVOK35QPB/vGOCqFiX/QbFN4XMk1JLtKAy89WlkljDRYqpffMXQPvw7XScWLzRgIwOpXsn9nV3Ifhxzw88lH9hg8GJfirlrr0nT6cWjt/H8qQ7Cw1c/3hrZGNm78Hqk5JHubNbCxMnKrpsPKdfSEH9arA6cxq7AdA5Eo+aw5pufb7CSO+b2ssvTsVIkjJmmn9xb0Fb6or1SCdfxHm5jFjGHbK2f/RhYiRkizsErXYOdhpSCM5gn9Smk1Oog5PloLNY/vx9zXM+fjQEwnYlrANNibaRr1IUz6BpQwfmHSIidmjuby3qBgMgoTDGSdb71HY9wyBLHGixaai37Ur8Sw+PLZvoKn7v+R+rxbigMYUIGpKfI3rPWKQ4fdTA9RDruHMfLxw7+gtXTv7z6ldb8ZCjI/UhwcHAbXZmV+fTmIlVPWp1E43X7s8lb70sfzNIAB70J2WN7NUc2T+nVFMV1ng0frjWynoY806ga7DXuwQaYLNW9nZ++saLHURZSJ2rF52HaJDv+jhLCqLeWBfzsAlBE7mbp4aP9YpBSJdMFpFfNEdtWZX2/haYvhTxhdS0CoqMhTkqGbrs4XrU5jkUmGDWsrn8D5/3EksqQ014b5cYNyMp3WEIAG79aC/0ixaqTDjiRyWgux608Oyw36MaEsoN1RRyBu6K+9MOUgxYwORP12qBIvzGCLfCHlj30iV6UKf8I38PF42AW+TYeQHRuKXXv3UbbZDOGuqREC4eZMyDADfkNUqMs9mN8IN7mFT+55gQU9jj3qVaQCjrMXa2BoQsipIepYHgxY82b0jzOKNtIbriEgwEdc1csop5ob8pUQ0DCvmAnxuFaK+nF/fnJr+HPU1ecj/glJfUhXwpd6bRB2ImFtO/EEkBeZQK66WUdlrcrIzQphouxBaeoydB7QFL2Gf16g/g4wQaZDmz9Jjo+RUfuVpExyQV6rpUyJDKSPlHPgK/S1+9fVwfUFrEf6+mdFVKTG/wJds1TXMXovZaY5OnyX4gVQtDtVUgZumks5L6Y8kO8rgRKs2/vuH1CY+2bbUndRqr3AHLBCevRGt5CYzcJJ4HHSfdWBW9DmoqGI7v1U1YYtEl+g6VcHIO/2VKRFglh7LEZ3CA4obxtZFPUcz7qFLFF2l0CW4xpkiETNEM+R/qbN+jaKp9OipMfBf+WPBZW9/kjLXQP92Na4tJYHrJu4V5epAsFrfdCjOx2d+DlCyzA1rpnFbQu29r6zw/BKiP07a6BHzI+EEYgMcTsixG29zYT0nDX16JV9zDi+T9iTYT5CsomIK8GHZCFlqszZBF2XbCgRdo24NfLP64cFCKUId9DVgcESWkklBwy5AupqZMTyjszk+DtQ9/ORy8mCBp1Q8XMUs6mkOUxfLLvNWfbcKUopRDeLiUMWWz+FVOCmspoCdpkzk6wCQ0xYS1NEfFfr0eD6C40mm2dBLO9BOMhK5qkNwvXPZgr4yQTcisO0tNvBnZAy5fqynEgrugoIF0Q2YlgPmx1jzeV2+PDQg6JIa3W5pL56EDsZV7azFbL4iMtoPOebCIj5dY6oqby1V+C+O8Bg76t0mctH1/uW45tMQSEZJOp9eRWuQ6H/Tdmkze7lAcO6mKWvd0F2NwT5K6jexAwIDNfEonf8AEzU2+1JUxmDVkKrg0Y6SkaoseIY/LUJhCEtejz22XvAlCtBnDJe4hYe/WofMPiVdEsRf+CgIc6MCGYlWWYBLoFCUOMcl3wfJgLJTBk2mNZT9vSK3KZd3WJf6f+liTOpGO81BElbz7o3/M4L83y436Z1pYUcQaAaAqqtPnjCUQ9QD7rbK5OoBEg9AcuJPpyF4urc+r5ptAIcjQb1IbbJQIjeV9eznaPDrrAyN+zX1zZGfSPDCHY9rP4HXN69biCdwUnrbEtKKggMbHq/5S5y+rnzklCojs2KG5/0jqpm9KxFsjabVrJ3MaHV/w01L3Wy7EVpg5b19J4vatJX2Ayekkj99+1RqeAvNlH1/VFi7Sy+Iy5jz4Nk29p0jT1T2pJS/F8KXVhKQxTSMJs6V7TZQQOsWEtgN/sFtnVXg9mEEtkV0ZScER/11T83zVAc2BPiGorE+YPN4lZTCl2zV1ZpoM3k1sjU33ZDqcDwgIg+N8TX8jW0p9fuURbswRCS8div/QwaXc012Q/q1C7KhvSJIyrhLseHQhW4Xn5+efIVtzVFnVrPmWdxVG/1AgRVutF/5cfMUV+98tN1DLJ8liVDwl1Mi1rUXhL8SzCMUSt8UMbyhrG6r+lcRU7Mn5vlHM0Q0Hnn8prQLNSDJTSKExKkg7ImUumZWSLmHf8oeBu2lVVkpqMnWJMJoIEfGng37MLPQKbAOxdTBulT4foJVC/Ty7DeDvWdTRlKa2ak4dnhyIBBSBZ1P1ZQwV3QiF//WAz2mfh3rvBeHifp3sIH9eTnk/m3b4M90Hc9Vq1c2+nqS9Qp4fOiv4nqiHdKYg7qX3HJbLXVKYu3RcXlvIoiAvcT5AWVXo7/pzdqOf1mj8vZhOs8x0J0y5/x4/opdSIFrpyFtQfTXSOBIxvANOCswzIsHbT6q/SjGdNe89txWpWmM0b1AzpmYomJf9mgGHLbxEmwfFCcnAF+52yYI25TINvbZKErn50Hgi2TnnWxYGBAHs82djK+27sbjAMdajX3r6VB6P7HNwUFnpv1VZTqXxtDlOM8uu4DZWT4nUJA9ZiIbmFQoN4zZi/niSrek+04LjwiPQTBo3uMMzry1hjAvPwPDeQiH1/qNAnu6Dr1tiiMjXO5SDI3gRPl3BHDvJiZPrzMlCy7PFRo/CIl7G5KQN4t5OAAojTsL73M+hY5p3mTcNzwXsY2Mnpyi4OFOC0WgZS2+xzkXmgF8V2e2PzQWu+3JbWpyUpt81zue5XKNP0zYoT1NdfD4OFpyIcXI4iFmW4HqJiZJo9xt26IwHlrItTrO9/l+3nt62WoyrzfMR0IMIH4H/l9T98al5UqT44lM7I4i3rYmcS278jOh4jKRGNuZdkxYwOdMzw8z3Hf7rr2Cf8LV8QYf9/skLHSxFtzFjLe7eTEM6ht22qibNup6ckA9fWjWD9IbHSwJqWpuJnEYb1poiBz7XB83szJx8ti08btNimpFcqIZdposKdvaoM+fNHilYdGtoQjarUSMC3J1ZmtQrEeuMl7V31upZsO6CSROBbP96ytMHnsahJ6L6aHkjgyvL9DaerpbuahYiyNVQ+oDwcvz8ixDf9/qyPJacQHmsK+lguAUhCz0z6CY8J4z3xmrUgOxc6DQ4O8ZbowEkcgp48XO731hoR4B6gtAWA60eWXW4RkpzBuz94fIAqmga/MIXhBIYy/HPXsifLBhzHIMv4CFB3JI2nRlchBg6FfgqUlm5aUhZIqkTYS3pRVjVXGUzX1BNQMkXt0J66tIuPCE1HN9spMo7li8bLxAt4A/AJjEVm2WAd+QE5SxgRTDq/cC8vdokhpw63Jcc8tFPa8+sZl377d0RGwHs+ENPfUIhouIJdxpSPUrtNhBe3p/y0tt0a0+8GL25TN8lfgb2JFRJ9INcPj/tGN4EhkqQ7iwNH3rmI8Nw/X0UjQUvm6iDBBWlNoSpHtFWvNpdgryxwtnVuH18dWrqCuuifPPVp/ySzG8GKkGW760YfiyBpyBq0wfaHYBFjgrD3eXkmdOhmqL5egM9zY5tTPmz169GPsQH4ZrfBsGjTYp6AHDOYXs49nhF7zF5Ku4SlohBn+RK48daopkKNi3sKMhWWYrrbZeEkAV0+TO+umXgd5VXV4iehfzIEZEnwpivarY1UaPPYUEvlxdsfSkg/7Q7dLXiM59A/vNmg9q/DCaIoPc6PO15FVva8WTiiPVtXkHg7cWVeZj9yKwJ9i6QkTLLSHLlxmsYpPmHAI5XTDE3n5FPOnFcWyOtF0tpEDdraZl6WfqZQ3wfj6dziEuVKsLmO8ODIFDeMwtEjHlg8q4CuhzQNQaJ9OP+wUVGN/TvW9UaIOZSosDhnLRd2rU+mGTHIgIuf+dmVsaSkkKylQW3mQMbZ72Kmnr0dOsxW79tUffR3RWrkICEZ7eqOoMRndouYx92zj+T1gtrO5m6JKFzbDCAlYBkS0fyNDNyMHkauV9sCAMxEZhczijBtXDbfIs/tuaH2IDkFT8ij562sDp0A6MFOwtInzASL2LESLosMUjHxiwfrvq6qC25HK8JMRwlwHTSZejaEH4J3rbWoy5IPWacaQElqJeUrw2aGApa28YdqRvDSI1ypubT93SxYXu0cqfEfapQWiF1tJkIEuuf7TA3/cFIDCBxZvHY3WM6T0tGClbtiyYE1GRRkPqW9YXZDkrtkNNeYsxsveIP4fiDJc56V6gw6S2CvEMrNBvwSUu0LjfsQgILZioIu3fo/M7EWtH/swI1H7GK45TV7vazzVgza1dKTdkk7JXq/2opkesgfnuzVXKK5ct0AENvAYB5aeRhqC7donOSiDP3MJmHz1IHglG+nH7p+xj6uzG/kkrfOE3M2JDcy+BwnVly07mepzcV+zVHGIfkreT+n3aHTi+ge1b7EtU90nivtQdPX3KqtNokwwVn9z9LYOcRCU2PzJDYDPeWL+gug+md0BsDfbE8UbDynlS0Z8zNsZ3wmOatMbBNdpikdBeIK11AQbb2/IDvpwFYKm9LZc9rttB651v/wYYvCFzPgW8puVlY5uHc2bu7Mqa9SVDktkGySlwasI6Qby8OkMcJs8ZxAswBmN+KGSD3jKBqIHYWCny++fvhTCFEFxrAlYwP2q9NipIL8CHKgusHIE8AOHz3TYZelEDGrUutyGKEPOcMqOhqSXL55UsJUMvfNGnZ/3Fog0hBdZFFvTyVWoRF0TiZLzkZeuHPtjqWwUIE511eB6n4Aeo+2ZjltEfdWn5e/rw5GRagXwGlZmANc+UqeHMaE/oZIyvFQ8x4U5LojhK+KhDqTyOWO5JzH1hGhbFDRiohUePFhssy+eveRtg1SHcHMXkFYzjyI8ZI8ABVt3uhPJcKrs51/J7T71/bmmgSqnPxuTesP83MGseJDMgs8sWeQrgG0Acfznd4GboVVANJ446LU2q/BYVbB1+mt20YNBHDIIg522GH6Krdde+FX8kg3mHkCaw6Y8tbGDvxnyS56ExFt6e54fU5mFI1aRcAuSM4dlGtAiLoG8x0vKFCBG1VYAR1h7P6b+FmnT30s8i9xpYL9otlK8cO59gZ/Ygkd5bHC1YNlcFCvRZHwVha4++0w7CADEfBJRqB8dCFn55mjCGMkBkzEfzcFNMZt2TA0A+gDQj42IpQkw403FN84jhTM5KOIufyVCqHU9bKevWUCWNFE9O+PjQn3+f4gd5sJW+ADkjasiXFdz4UnD+kmTlPqUnnJhFhTZy9XrJAx9QlLjzu891R8XnFSFeRE3AVCqx/QFg18nNFcm0hz034WIskIwRjIYUwccKI3FDN5GWobQqSMrsGNJC+9jtjsDVRs+jF0JO14CO6w5LG34xjbS7tK1rzCO1gYvtFQ32iEaZ4OMkJWvuV+W61kpLJQdE1RbXaN7b0sd30wW1Y8aWiil83XXif/M3TUh58BnJbnKkvGg74nJEQXHASi+MmhoK0onrv5rb+KWpcNlxdpNop51U5ETX3mNH0CMw0h6tb4+luoSpi6U1mm/6ODhSzATuloEIcTYjHxWVug1xPp7XX8LhtdWbbvhWOAHlZ1Q7sQcgD7F9g8ee9s1LB8XFw9JpmD9LnyWM2GLaNKjWIrqGl3lNLpUM56gB8PvOGYdtvYj65qh1U2AFAoIdr/BSqQAshgVFzHyC9XWoziwvTOQ1j7GwgjJVVIVxYm2PNToko8rOTvEMpkABJrl+/o0/8KG+DIxR7u3YmlvsUgCOVwpsYCi6LqG2L9JoHOjFvMtO0yD057/f7DITvBzJ2hJTva4JGupElpJ6hxbWFvcdv1xFONd1l0wNCc4QP6Kngw+9mtm6fGeOWDpwKNQtDgFzWgXChXFL8k9fA7y4GnUbEZE+aA9+HxKpMpHLyFMNpg5i+JEykkHAwODW5XFGKIJSYu6WcvRUXccqMxpDUK7c2C9zSpQbeFwI1MDkVwM+NUF24TD39COhJLlaaR+ZEgg1v4K5OfIF2BXVISshsXhDPq0BgWGI7zT4Fi9dIWzJ2MCka5IPqrTY5Lo+h43IPm1z1osOTm7a6cYvaoeaRNkzLBt5reWh8l2S7uEc0jXtMTC4+AvNf3vVMo2KBQFqRlA5W0C3aNqF52GfyiXh13GKGayjCMFFWX5Pfvt+Ywrlf5h023ceKsG1FapUxdjLX5YLjtBHIbTELMT7VXbyGib9zeNiNAhzcreySDys2JGbMDqD8A1j71NrtWv5g8/eBCKbLArgpdjHnKWj9m/PkGtofDMV138a1SFYxBil8MxzqP36GNEDkY1S0qOk07HqHQ8A1mNFNTMpVbhhM8z5iPzWrYaIfpSWxY0BrJOALe6xDx4j9E84uAfxltct2DmNwUockeNH4lb/LLHVFq9Nq1GIFan+aQ8ehy5QH7AYjiTbS5S5NHNy/LyEzsl4wGbQ2aAKpmgOdE2hGcAo/x396ARsKBVNiZbsyNjtZ9CKa4EAnF3vMH5qcGm/vBtVQbhwxcOWTzOXscIgWO+jSuwQ1IVrUahWc2wOldPfcUKVHk19KkUrhbegMtFn72+7IN8jIE49VklCkOrBYmk06u7eakilFiZENFBkYx/0PElcT2eN1XOOKxQANnPmDs62C6LVs6cqyGAiy8VgW69NcQc+6Dc3OJBAAoXx2iseZXfJEmXP1HYKpSqkowdckVI6nsMgip4zWXb3Nq7HsFGEhS+LskDXejuSLxUBoE7CuI2I8QOYjlYMFupaqaQgBPbrNweLIYoJmEV7NyO7RHKlQWfgBytYL8eS+Zy1PX5cR9kq99HijgzDYnymISUyRANqxYvKC688qzQV5DFFnwJXS9Wv/3qyCtAl9iVQoRYi4crOYwATbEGb3V6E7KDbeLcYpeGL1BfTytoD826tMUd6uOG1bpsTDYyedq6GCArs/F9IvFEBDAb9ctp5poyUjsklvokhfOh3e1XT8Bdd8robxVZeydR6FLD2KVGMawAJNt2imkSzuFBG1Uilo++EktM+RFMhqWAEqMSZZg4t+lCWJ5CCAtmgZn45dtn9+kyMzOBntwlsx1rDd+0MCLL65fuQHgjt8Dc8+Jg1YmzI3OjtwyvId5eHSyI6QGpv5oKFdZ57qMekshsIxdicG7ktKK9mE+LvqVTEjI1OCEYem0bR3JX1Mt64B8tfOgfQD6pL9y8Dxj3CWqz38VKn2gMt3WqddQ1NytxBkorQ/BkQMgAZhRY0EGq5AZpR/WtwmzsFTOjUvw0gE22qAYTnZM7FA0QjTz97PQ47FcFLUDi8lZo7KcL/3ySAL3QI3Dxa23xCrluO/jhZTwVhxEcJgoVWtOwGrDtpvwtjGRaNNy+G2L++8sJKMs26qhPat8vO72SXYfkE307srAwD8LYSUUI4znFrOxufY7uF9np2YZIBp7/i5N/o1p35YUR5sxT4P/GRiKfJZ0EK6iI8/qwKaXcE0jIoBgHSjXR9MxL+JSoA92n1/dJKlRppozFk7+QojTHrk7ehfNKAbSXJ+Vco9YzQ8xwlBmh0ewji57UrwenNLIb6mdEE6oGeBGjtM6VcwEY3xwdMd0EkFBFBSDhLFP738DnDqA4InAcIRAK2ctySkqW2RTxxcdA0Tq5cc5a71Dkh+mDNEfdPonwYFH5CVisuUh4rk6jy+bHZqkrkEhwjFHKwYRGaJvZeWgbJlFQQIMXyd5kddtEc2bLW7/z2pm+f+aMCNwkgHyNkVewzYuB23WDZZu5NQ7ae42i5X+/pzOER5wv1KdjzpAfiQWeHWBhkBQBIz938aqNb267Apwlt/LAqn8LIV5T2Qg1uNaDyCOWXrX6KgAVaF7YBkP0pwzruQHaa8qLujIM5D2S1MP+P+cVcgzKGLUJYy8W1UFNLDBRNZcjE+k4eahP+ssZJMHW+k7/vEXZAq97eKbJF2NFxbwwQ5eCtSOUuYn+T4nilYVSH3w7bKWdzKoa7a2TNt5Mi1FTgf3HukUJgUmZwV+GmLMNhvzvCiiGqbJIdE6ebn7CiCrFwApDZG1b3zhwndyebwrdbqnMpI+L0kHEi2skxBmsNirHP8Sn9XPO0Q+BaC2AbfdCDjPAsoEwXS57tUvFg5SQhrM/+UYorC7f3jJ3xdUk1+hUSfvXjwT7Lqnb0rho+cfDr9/KRNSiJepdw/aXxqshbyDvbFVoTRWdTaXnZgk9PYffP8LrdMWbBFiEyGjEVjxwjbZR5wiTRVFRNpe+ZpqCUSPLkHgd/6atoR50sWlDVDfwEv8ixgjATF+OkzB/ZHPEXtnKu7Cct4rF5GgaDcy1/34RlmDPS5Pqrzpju+DmBDUTDdCh8YXG32qldYMa31tLZ5FkGLLNKUKK9IidBaTWRw0ysMq5yeHRoHF0zOa9FCNFVuiBuGiU4stRZtaZDjs6PV/JRU0x1bQNMg6Lb7hPlOudct1eJm4y/6eKujpur/r0o4AAxYrpq61wcI3Q65MTrSUJSYACZVQH+ByhtZeVgMd9BqIwOF1glCjGisKW0ic5zM/z+0SFTQJrfIjta+nZFH8tnZUdN8ObUdUF0nMAeOJ5tQlaRJugnpgMNgYMGCWPtyU8EctCy1UT72zjPQeRw21QJk7ZAg1mTptXajhnJhRUI70Qc78Vkh/0CY9eCM/EvIh8cV9ILKvfJNQuJHKxHRwPNByx6/sqS3jR5X1AMQc0w6rmTqEosxrqjdyVPw5zbYq4pLP+QCiKhGPe8MB13iPiuURrgKYW39UNVorxyL79YJwQm6eWNrwxPuquBFA0SAk31Fez9NIcA5wrOhU4gXnQk4WZ5u70bl220WP/r4QQVQA9m0BBTTyS+l2hqCn8FhI0MMVpJORZSIX2I2aiA/Jk863V6T1Cu/D1jd/0+FlTqNcoGpZMUp8eSh5IEMxAqSYIg4X6S6ZD9iKbRs9ABP25iBUt6zDhAOVaQGaiVRm/wj2UGH3cE/3V6LGYQ5lmF33j9OMxIg5Dl/T+EqvmLglkkNGhPHCPZzHHhf4yv8e4AtqB39Rph9zedAPTyaW9LAYUZRU1/AnxqBUdsH4Eg1OhQJ3IwIgHPaN9F40lOQruJ2n1y/cjNhd+akXewGrETqO6pd7HCUPHaLCPuECnWFx76mzP2GH/uXPtfNuNnATuKiPQqUGPQ2F8FBswi9Vgfd4LwBVWJlfJdknjH6X+MLJ53YzmBWUkJGTI6N8Rp0p01TzoCHKStXiuCLM3m5VgWYj+bdVIh80YZ7nkVaW0I/Y9U2FFwd86Lmwa+wtmNpDZld1I6NP3ZaTTzI3us5o/A/uUwk777hOB0+qnD6uugYUlOCQB/zluD7IdHpodFnxScijiK046kQMvq4s+1yiSo6oMpBhBofIRV+Qrh/ykffSofSPYUhJ2dv6jAlxQVAod8ZcUM+M29Fb4SXgCdiSD2jO0E+cXmROhTzI2Lhi7rT6J6/Cpnhm4q0wJfqsasZrocKs0LMvW9Yei9Go0oeLxqgqMPdSSyCsj3GTctgCv89Upn0ApPUo327UaW8X5iftyQtAAZTUDPmzA3NZYU3IxLm8B1J3u8k0PVvDtQe9ipw9E0VgvHfvkPn0VxuRHounravtUq0OXAydtoFB3pZsFoqU1MNs4N5Wo8eQCtYNMcNWyKnJj2jKVfI4yy13cFTTLs7QdazvVMm4e+xtN8fgRH1p5jcZ8aRX1hDwJtplbW3vm7uyJqxgpp/rnjsM+L/KVNrxhcpCnGu5mIBKQt7Q0PdJ8gFTsiY7DaGHU2Q/B2gsIURGPyPt5SqqTsnxdCSLUua4lMrY5XVQVZ+nHzp/hf+elsufF8EM7eFKH16P4eqgc7u28EuMXxE5AApFTwmrOfCrcRjqwl5jN3kkKl+OzxLBWzBZ7jYn40YqjIOf6G8r4QqAkrD2M3yOYfnnnxRupJU3kVH5cKaUyTEIyQKhLHc9skqY5SPpCim1pw/1O8KdRUqWQ3TS3BTAmnSwEKE6eYA6T1tKfF52yO6lw6zg6p6nPnZSohEcxuMT8dsVaej1ZD007m5zYZiNWO6UWGWAWgH4YjN+8vJOeg0K+hlAql9BQt+eovNHu5X/hAHo/CmDnhHH8P2eM3cORFjSG3a4/krk9ED2szS5tv3StpDaJ7ShMqGwJjloeCGQZRjtycA0P0+HItkPW2VSrkghEylVGfbfxDj4vBHXqG28vOoqbw3imfTl8jz3lTYFpauOtqO0Ku1CsLwVMxng23BFpphIwAgdmEhgDAn00/4tcNOfEtKUZOawwhP7mlFazI3/EknyiqUmnkOR6hYKlH3DskrQCPGCpjkTqNg6D17QjPCRdm3YefguinsA2nsURggLtMn2OtvQn7d3ciqOx5q2C+WQm0QD2ntLa7WuT01ywzVoiX4ikuB9lso5iBsMvsi5afMBOEfK+JlN9nEk9PVlcxLgFFZLwayfxKDu7uRJL2T/XvrFOQEbVnKITLxI5c/XdrjDWWN0ZQ6JhrCwuicUaZWRydp9yXD0TZQ7S2HmzTowXUvPe4OvWT9PEbcUa/b+FbKNGNjCaVqZES61nO8LwvzQX+ct9j4AmQ4QaqMkrzIAx/ddwQp/D3OAE/HkZLrdqnX5+PjkTYZohUv0/XdTi6HhACSxFn8pU+yRGA56N9zjXod8hvdoKmDQrCNQQ5xji45QRvVvyj+xgap2c6yQ51mLrOMSIVQUiHnby8MA0lpyEqOqZopfyLfeI4/supyS+bo0+iJ2P9eYepL2aBYHj/gzXcMhZscNGJQr5JhBmiwdl401EpReTNd8JI41jcsGCYuTka+pDFoOBjD7tOwuy5Kqay2Bg82IpPqcEceDgSFMKjFnfRljN/+T63CzIFm4G5uD7paUkAhuN5PckOo+VDFoJGixz1GrSguT49EZonhkJKAlswVcLvNAW3x/vRncdrM4uFYXSaw4kkT9d29LYdnyaZj+c0O7SbybbMch9IGhdZwbjrUMexupaUnCl8ks2wIho2xkBJ7ZC9a2u+ttbZj/VxPQ6d1BmwS+Fq8pp3NZG2RhigOXF4MiTN7H0RrXEdsEd/LCsQcocdFu2AGxjlKNZofrUE4kV4y/d89h7LINAePK2yWFhQDiRx/CSU/CvaqT2t6lDQrjZQ5g6FSDd98PV+tyEBiQepeinJcQaJygW0si/nI2w5S0jo7hiIfYLA3eyz0FNAN8Lu2+IJW6HV5hPh8s1ek49KydII96HkTi2lZANKLGhNbWuMsTnnGot0YZkp2BLGSNgmekqLiBmXz6Wkl/LH05i4tbfTWzoI1KFLYTpdCy3DDAcf8moKj9M3PNINYYWLHy4aUQtERCuTA2rKB3ECZlDCJRD1dJZ2SWD0TJNZROZbsXwbsJuX91QdfUVFAnXDmjRVFiog10IhgnebrJwtdyutUfzCHeP02T2wVMXOPHQRS6WGrw/sI4qBzNVdZneBz2k8GBI23gUsgsaZNux7neB53IOLp6nW+/S8j54YhbLDq6Fcu9maB/+lA9tlj13vJabzPNNbJBZRohc6kTCZ4/BNpGESksFImEZCAMFzWHBZTKjqMZpEUBzAKkHRn1Y/V0x7Hcd+E3iTgIIauht42ukVBC9y142FnR9YQlGAW9buaNZn+jzIv3VuNZSJDzwJupzTd0+ytmxQiDkFvEhl7wDfT0Do3JHRF1fCOWBSR+TsiTHZN7Q27kW02EQSFfwA4ggPWxUGHbCT6a+xqWdMLDrlrfTdLfdcRLVbIaOJX5ZFyk2kIZlw2sTEoOX07AoHaCFl6QigC2pKurWAr9AbxfVLc1BgLXFpYQ7AIEAwGdB1VzvrXBRWUMlPuLgeo/Sr9akgFZSC2pYcm1mM//RRwTqG17AGhH8bvdQHeIAusbTuUjjumvn280Fu1IiVrDVBl79xapty7PP4a+YObGmlL2hS2GGBwGM/pjwTkOaNVug5MHcjsf0bPT50TX+uWzq0ZQ46Q9zcQUfm6JIJIkhMhVeftcgGsp9HP/D65qmxm2+WffmkZQl1MqZsf0dLL0806VmTnSaAVPLMPMIlheNqwWIEpwgybaE5hIo7h18RE9oDNGbEDHNuvCS1+XCBUun0fCPdn7hG7x0iVX1xxEIzxTdpW6jGnaT8YW5oRurXHGfSffrxzFSNNjXJAN9sZ1DLzOzxuA/7mW7fSB9U0C/6mdWIuv1wMKnQTrZzCUAqKIZGqHrSLVZ/DBXD4NGgzprNv8Ya4J9cWZO63c7YlYpa09uX0p6dwiBlN4aBjjO7UonV8KnAvOVDDcIVn/VIr3pujaXxa4lprE2T4OjICo+K4y3mv2OcFDaMY3aearplJ7QpI6qbl029OXyf1ExfdDORlRuJVYxfzlVDK72PSTYD2MvVXXyK4KGajfT/Uv3gr58Qm5Y3HEvk55wnFrY4M2WaTUIpXaRrb6iKTZF70t827wEixcyN61g9s1D8i5eWM5MzB8hKytCxq73dp3ysPkXLzAeRvzWdy30SPBFZE89c7XoF8pSO81Ymj3b0BttT5msV+NysFyQul7K1SyHaokkA/QWaxuO437rA6/TyyLaXWzYSarSZeSkYGJhyUCeUJHJwjyiHCF40NQieWbDhPm1LOyeFnxsV3ZBOzGJDOSBu2ZIOvUxNV8acHej4JcTLGNk9kVuMm4w8hOaggsxlqRln1eGIaZB/D3boEzKBl+fFwKSnmdg/wNf5ltBmcrRDKWoZXFBNMI7E2uJKAUSV2M73D8N9F5IaQOEhk6nRTqoNcLKN9wr+cYHc3kYtxdoGAZhClGYoDQo1Le7GGQbt5iYGHv050jcNeV6FBTZKGbly7fGyO58D0uc1GNKKDmOJcpY8hLlLCwItDyEfGy9zNz7Zep9p9i7JHu29H580IYwqoA2Qkx3DOZTapfgux8SxHT7gGAA5I5W1HPuz2flwYVsg6ZGY3tOQAMAd8ONKUN1yuC7AXUaLit/FEMWZ5nSodClBF8NoOMgkNFsfFTL1lLkh1zLnRCNIb3Z/yIadqwA7uBexpLjAzshJg6nyjugS3WY+Irw4cfXbTT3iSPQdcz9U/6ZD+3LK7cLiJMxNR7bu8Du42KwxbrGijZ05U5/MQUW4QderBxUAjs7fskNcAdz0AVGVEFr2JCSgGToJKqo/3I7rxr/dEXvnR+bO57bF6IrcS1cVO2bKiaP9rA3hHXpn/hmcJJSpFVTxCqO0T+y5i4aHrCqFCgEkk9GvLT5hBG+jnlSAX4vtlqA86+yVjsC9m7blq5fhExvzbHTVEmQffskQsRBsu92bCj1FkXUbQZOOdNPawFRr2Ecqv+I5G2wPjjXH6Bm/jWlxQvs1RUMoDDxzd09/EILHMNIcwLIpbnMqsJTXtXTRmhjnJIjvsQj5nYzGPD93vxj9W0vQr4ovbnMJEGdbplyruRUWfvNzawbP3lJ9STvZYpyTTPUBnlfaUIPFrfPw+bOzEUZ+VJpyxFYUV9KtED6ksXs89xmECIGbRGYPs4g3aeLccdhGV7rz5uGd9oIYDe+Lrsb6nuxqplyrJFrwWi9Yu/OqcU5txNEvlGbqyUDJmdjuYhDzozlCs9xNrmOyTnLsFGtiGvp5TKlPsv3ufOOJi12pDbsQIUwvZwC3u/eTdG1EHZR6wAg5vhfnBmw3bWJU28r9B9lg43aVS8CIStGJFJXKlQfBeBq+m37wG3dqLpG1Ctb09lIVctDTnug1Z4oVCYtT0/XAFzcpmtrK9Que4GklZpXGH2alEi805jqUpWaGbnT0F9B5VGHmzDND78lW+2jBpeg+ie+/A3XQKVDLfda+rV97ADKqmO0/j5LLgVYBY2SjODmLpNZQtKpdZGR2LqGms7h8elb1XE6EXPvdykiLSLm6NGT0HWP+X//Ncfo11GD5pvYn8YmbH0Pk3DGYZdwTANQU2eFs4jGv/6zCpalglXvU/0zjXYC6pTuk30Cn0cjOgg8KXZkciOBf9wYklG9LARjidnaDFS3C87kKpX017G1FSNhtGN419lGAFPkVaWWThZpA71qxxVjaeO9KuCAUszlGnTNjhR+N2mK1BtFDzYBGMqA1h5oxbzj7zCWj/SLrjn65XSnV6XVrYOb87Ys8iVJ0cEJyXXQY/wz9T9I5r3Y/SH6VyyZpt09kz0rZVlXRoYinjSz9PW4Wx3x6C0YLwDMtRHSIWoX61dlrAYBqxtYDmeRFTAQI2NEhxfhC0AnXPWyH4O3jljWLe+sknf3cgjfmg44xTbIOrjEZphi0Ito0GPhtIHB4rZYXeKpiEfy+Tj4pN6puGCQW3pXPFoEC2WAq4vv2tvsXfFrsUf/y/YnK4+DzoO+MFp6H4BvLV+QMDCXEnWwxMWsqdMCpIAlYn1RQYaqCfKp5V1OIzlLCFtV8cL1weoO6tet9cyfv6C2vymEUlRTBbJBbNITO8+HS/DhlgHM6QtAm681xl1C6GYc186ToecdJsDcv5f4m9jyK8VDF4+iuFyfjZGBxRykCD5JdEJPIDqHtuqmWHMV2MM35MJWwvYy8p09+/U46v18EeYArWp9PaCEZccYgAUKq364sUzVfIijc60/zFxeQFoSSHQNIllSY5Q8bt3rjDRmsbnZcTyAh5l/hYvy2L6RFR+iNBQh46sBMv4bJo2BuvUfgNz3IB4OnIea3kYoKZtDhOu5p7fdHDJKXx6Qg3x1Z6f18xJK02d1mfk3G02eoTbXbJBA6yE7KURIX/YR4LhPLAVMWjrkvNfv84KCVLCAjLvL3+KWiKkLTZlL4wePakiALGf8wDNjF/PganLugl9sjdUOZiD/O257ZWUyXSJTtMed2+TYyS7qpYA6s8ftfWpCv4krqqnS9Aqre4Os8oUCxvUUKUIKJVwu49wjFdlhHwPkkWiCdo6rcK/cqo4p5nXrhXP59d/ZI6TcJTxcVJG6kiFQzmr2RfCXaMgimz/Ai3wowweUuBejiljH++FFR3j6mv9fDEDy/FcEdqDmtirbhlnNqbhxruVG4mcu4YeSetpN4hlxdpIsn2FL+Z7Ngl7JDRIPP9asms7CcwtuiU8Ulqadr4T9nWzOhC7Qa80TyCKdSpvidAK4+MTliKH823T/rWjZAYO3dZE/Po6OT7dUO3HF8n62kToDkdI1oP9vAEZLLnzDzDMPpZfukO0lKDdeZSpP7F2aPqtAsHyAQzQ0PUhx3J99JgCU5L5XDvHGtUbFeWLB5pIC6fjzlpuZGEwfv4HbYL0qOvVrdLQYwMb4yOwE97GrMOoZyV6y4dZxZFaZs8mvC8Dq3cth9+lp9XeIyHN3agBHf9AgNR6KAjrGMS6WW4vj+XjDFRG2YfQFo5GsvKwIccp7LPSnlWdgbCr1jalAi+34c1mBNiCYO/gbAPHKsgQ/Pi506GZR2O34qYcyN8NRJyrEdHaR+gkZByX/jfvk0OhKGhSnicZocUjvw22W86CM8ubFUDaA9ZN18UCxLLnHOINqLbmAUbgd+/ojmifa7l7LWynfcNQ8KxK9hGjkBS16ClaGQpfW8IWB0CSTBmhXbWXVrBIIHjSmNi8cCfWvJanrDBAagErG3a0hPrdssf378Dve2+spZMIloVvN2/+wmEKD0vsUVIkOi6y260pUAwuV1MWv7aivyEgzqCVU3KAUI9fGKTVg57Gq0WNmIUn+OBCWl4hJubCmRNS6oRllqloHsp2F327iOySrXEIvwGM9bZxCGboljrCKbRhk4QT8P76sGcb4lKYoyobiz5eogYxDcxt+PAABHp1fVOgOB8pdwLeXWRP/qt7fYgHa6L4VkvCTlc+RDin5iiP0NREyE0ZTeVOA9MhaDB8NiTKwjJXBpa60k4mQqyza0tw90cbyDEGtJht+JQ+bKpZA83vP0uWa9GQBZ4tqOiWTPRAAd5cefUrFmoG1593BW67/yKB7AnrAuHUt/X5NoLXTVY/evCfiRhxD5bkSK8IIcB869Gzkz0SwA5I3L7lpd9w4gACTnEtgAsDlrq9dhu6s2UTv9wDSuaI3rw2jTtpL5Xlf35DrXbQ50pFzqYSIpij3/eTqyyqk8VBgH0447Wm4QNI9w3Ep2pl4WO5hqhXSrbB+BP2HgaZHtkDtJnk1s1wsUCTczkc/k9SIYl+abkwcr0RoYYDQnk/DlDz3setAdeXHKXUGPmBc9Epfhi00KQ5QKSMTuNpPa03GD82cKzDW1TMIkww4lg88c6IWWkoetz3WodV60cwipFUpP3Qgz8k92QD7TDQ5gPTF1kq/OZslEizuErvGd7d5aFIoGtPDcGXURaMX0nUsirBvcEdL+jN8pKrkgQBHAURmfICOT+rGdOwM57gFmKHRaDq1qBx1yDJM+ZhMCHFQuykZ5A8J3EWIDI/oMPPQsPdSLL0zZfmMY9ziAd8czgcz6+8n81vs/nhXIl5rec9gxfg2QbpsA7UENbgiEzg3dBNxZNIcEoxYrEZH3utB6BSZUa8/3PtNR2IO25whBk7d+rOgwG8lcq7IIkeRCbZ3jVutx8MGRD/eoE08x1uH9d6h1u91xtuXz70Jv86P702nhN9ClpPtEhbSKmzTis3eZkUiNd5+jw9AwI1KWfsNbaklh+pSVG06HTj2k05XPSqGHgB7zZiSpxu97mmyXqTo4ok/urANoN9PEvLg8HPPy8cGCiXDSRw481ygJDNX9yqlh+ZTTZ3KgKAxB8uwAaavw0bA65n6wrBtkUTuhA5Q+WqQW3fsG/Aju4kVcYe+aNGBacedIZwneQ6p5f0nZ9BrAfYEZOqabCUL8rZmUzUMx9AckE8BSKIg4ZFaOf+Au1DlwFH3y736Ox4eOSc9BO+SKsu6quBIK35/DSrEi+qSctipi4kKn8OcUOCq2Yx619Ikj5TQmZOD8Ue0CczkMQAQSijzqIu+xZJxrJoE1ZgiaZpFw3/OPAKexHmIUFqCGTf9K0QISDwZpqpyicnq83uaeoLsG9ROu0n++LgCsln3XrM6KSUNei82bprt3OV2tCtxExKYpQTWyOxtOJhbQxjwbKQJj08KNCCGHa2OAd6GxpzJXGup86/FYtha3RdZOYb7ZrhBdo0eweNfpkLEGHvqZ509j11zi8m63CofRA4r75HlyPSA+Leokl4MFEj3/hE8eh0IqL7g8G8tdIAhQoWQ7Wt7Aus7f2uYAf2iHCQqyeNSaGIvb5M9PNmN0399vmUgcSLTgdMdnuNDPm+kg1D8uRv32yDKZtRpDIpBufktxk8By7etxJJcmnP7LPlkZqA91fb4Y5pYelXBgiWY+HUxf/sAEQ9ZEGbWtxyLccShk3kE4J48sawi4uHvVwUeSK8zNzLv4YD+x2CH86hLYt+c8T5MzwqOAtaALWcq7ttllpq4zfJFSxeYq8L5ptqRSkx1A6wJZo3akatVNLn5ToB6vUzTUepMKfvbsCM2lKxkewjqfj2kNpI9OU3usNaw91/RzwtFElA1STmowpw4nnrnn6oXoY7Uk1E/eUHZEdO5CQAfBsJLu8HXSUvFVU/nNgruVA7DTCQQqiHdyYTMeEO9CtvKhHL2H4EwVzF99Qc3avmyDrd12+LBrumuE3KTqUeb2NTJ+cNmsPGmM0Wo7wsg8zXZf/SqArkNWIZikB78MZ3zegQrH0y7s0KuUkr7rm9doFgmTpa6WuJVb+j65M9mOf58sVcEaueJhEQ+SUiBrFEEQyHcHrSblGRN+HSTxUTAwvpdoUEvCmpg4/wwDTgh2ok8wJ2DtIny7Wh72xILr9deI98SmEbBTsUZmS38TfCwV7DD1VYRUugJjU/TgoyUnaEJTlVmDX6HpAnjzBSUCpUVY6cjGsnI7wxnbvkcITAhQYkI3PhJoGoQeJ4eq8azQn1JsdiZCHlvUJLvnASrgwSWazclsPtQoAKCz6mKu5ChZZx26wWcx0QNsXt7w22xhb2RlrKXMloFV31HOlUulgp3hzVU7CM4RPTetDn24z0Z2L35kUJ6KNFIWFF8ER6s51KrJa2TcmE4RHTcB6Jks1SaNLs46Z8+Gv8F3L0TAROeCOkWgqeclIqdUKXkSx2O/e5tvaGPPiW1owA8OoW4FXaEUuodSwmGQFVAeUYfeM3DWgRLTAp/BhcGFno3TlbNiJt/8IVYmcYGFUIRtmGGSTN/Y118cjP0Lah7gz1HqCHZgGgETZ+88g29qTqW2zUpnMNp7dCRHFbBiWvYmT2FAYH7YmjR8o054tDg3yhww7XIunbH7vIKmI3/X9ppmYpi6oy3RmHRjKZbOae8PRUeV/BxRx2CY5FLCkYivrvCExp5Y2ghpKMq6qVt6L/+dMzJ304ygXEkK6Y1lJRk/M6NuY/BOS6OaSw/szSpP6Pm9nXGIG0GSfXmLTk3NtaEr+fkYxLI0Je9s7YHzLgFEF6srIb0965Po4+MEEukfHyCtTg+NqUG2y63ndPpISZn/8TTMtRUYmpG1NMJT9DTxL5BrnQR+U1VyeiNKLjngz3bD/fIDHE4Z7dHSEpOUE37ekJkdvR+HkbXgwhI+ScVQkBOx4TZp+XwdWvwEboS4uAG6SbnTb2I6p7psU6Up7btlxacLV17tYU9A4mQLld2d6ZlSmjDlBHlAtxwOLRdS0WArfJ+R+Y+23KARTs6023GQcSydojz7xlPImxNZHDN+094BHwMWqHUV53pcYTY0/VDdMUo/YO/GTFC4Oo0nr454wuByk07AjXPsqoBFNjgzWuA7rvHiTsov99VIq1m9YjB8qKQa8mIxs78r570QQ6yTIIy95kIZIUcxLtuOQBE9gvgEz0HfuluLgzYaarcQkPkFmR3CPoF+zteDO5celPagxYBjnHDPYsp0Z5vzD367tAZlfLWyVBqOvJJgBxyihnAf6jAWGa17g8/3VXEVcaM4E3ol+1zL7jk2bzKEZPoWZbbCG3UCBBJA9Qgpm4OAuthIPwVhC3pv4mneq8IeU8bp7CtUiDrAJFx5k3c5T8OkJ9Hk/ZK5CT5noMLEdGjG3/wzX2y1X9kEfOBjrPb9d0lbyE3S2xJ2Sx7e6Q1rAYGLgoGM06Se4afaYtXx8ZZSUvBW/B5cJ7YekCFYXzJsvlI7Tyi7DJkD1FKKxrczqt51fvRTiMWLt9ZHPDfywTBqsuTqD+qsgKhb0AL4OSHvaiXy9qTmfP2Fbz+xy3dSM0SPZFn3ZiwVFIzNWqfkeasgacCVQncmAO0EgUtVRXpsA9kd82czzSiv3/SinGvO/1M43dVpBhPocNQMPTosLFQeKsqJp+iAFynXPChLO6xo5H3e7Jj5BMbaQB3b+qk9LC/o6OlUk1fm4OiU3bL2aRPkOFB75EYsE3j6Y7ea1T9xPx8jxDJEC3EVH4YGoDWEhG4maBXioI31DpKpUtuxuXDoY1aabOVkaAbls+LtyTQo0NE2dJWoA24YD+iSRpFCXInCrp96Jjjovnf/DKKor8PUQImQy91NRt8xnvXLVfMrd1nsBY6Yu9UgehNeYXVuxP4eItdQXLjqZibTlLBUHA27F//uHn1AdoshKuTDoL1Ns4E4kRfkg1VBXzwfYZSQIq0gbVZLXaqavhqu8goJm+fAZO6ni2QE42mrZu3IARElr2eVx3Zsj8JlM8vPr/vLIO0LpmIT5OyRtftUkYXwbSwlmFjeA7+izN0zZkmzam/TBEVbQxaszGkb4c5M7o9MYFAp0Dp4Rcy5et9NQZGwgB1RC0iq2Arde9Pefyk9TC1HIXa3e/4LmtWhsKU2HtKTw8f94vpQiDj2Trl7o3Xvnie4Yk4nNfq+LP0SMegFmtUas0WkNa1mVUWcrbztyOnHIG/7e9KAYUthnNEheH25x+HUUxNRNDQN85IGptwNgvUXy7sz5mhyq87D39DWqDdVKgSSB+fsD384dJ/2uDAdfzy4IkEOtYEcZxm74npTDkKheyRl03UnHV6HK4Nw4o89Hbp16brkUD+LBfjpVi2w7aRHKaI7lsuqvJytxiP+DSxsLxHRqihm6gFg3mLePYMNO+1qD120xvW5FByDdjYBjg7Hap9zjlbZ8QLJLpROGBD6RS/HfbpnWkZqZEWo6FChQ06MBylKk8WyKnHgr4YCbVt3iRm2myGtdx7cJC5Xiq5xOZ6ZOBqvFWwTlfysjYMEyzVZZNsV6lLpkFYaXbSwMnqgn4e5o99GbakdUm5wvE15du2Mc65k81OHPSX5vbRZAbJwmcglSBzZqefZm6WQ5+aNOQgcLflY/Z8iyNBDLa97S2V3rjcUB8Av58v/VBR7D1lyNHUC7ED7eHOSoYlEuUUVcO5vxqO99o1mdxbB1WTdkHRKVG5Sy9tFOZrjIZHELjYCz2zaclLcUbdsZk2N3R6pF+iucSfSKt+eKVCbyEE0OfM9lN9ZP2wqP6cdu82nCc3TxwqsiIU0yrZ5vMQNWEIthYkoAP0RmFsFrPlO5vYHYIoyK/3jyv+LCRwOKUXCQTClqDMGnLU6NLguvriWXw/C2HBG+iJXj70Zo93qoldtxT0IzgmdQl8Et3QVCrkB81jyQ3gcO6WRhJrkItl2RRT7Bkiag+1wRi9b0R329ALJwSP0dDQgWSZOa+LV7yYWcsm2wIBdo6hB1ze7bhbUu2OsvQwCHaCBllhLqD5LhwxEpXD+Suk6F1TU56VlP8DJd8Jd1+86ZSdWZ42fX0PhIlO0mMU+E5o+peDfkVDJ1UajfOlvY11DJLctWlpTfTsTXNATCIksgElUZqqxVobEN98lvttQE0HUG3a8/xqRIyQylo+cLOoRnWSOo/6orkrEeUo4Q9UNe0NapbRpY4+cikVZI0HOG9GmXa+SURT7Bk1eZ8TU4mcDe6K/gsYMVH3PITA7aET9wlVwBe4uMI95Yuyd3i3ojmE+xGLetsOoYA9i6V7Eoz/iSTCynWsgIVaoNvORCk/hxWU2nXWolGrPJSi0NE1LjTZcP9n1K8wAnVVkJwdFDp5Xf3APijrdEI0uJLsTsVI+fzv6BFpfrUPH56msahtsaJYqNAcWYh4IHrIpP4xFCVeHhdGsFF9smXJty5Hd4hEx2Ey+XbkB8JqpjVneltIaa5XY52Dhf+eNz5XQMzfvNoaeBPggMaiJKDmJEifwph/e4u1xH3Vr96BG2czqQyPGffMhlQPhOuLAFwBk4+fizS1CfRaekvNF9VzPCVXzGui1JBLq12kRk1ABSH4CsWuZMoSQ5XxW3Dyt6VWplIx2Ig8k1Hl2yG+fhDHZABcXJXBtAAAmTwi81hnvSa28i/5jRrKmeNay0bABYUpFWvLueXYwAjk6UVgGCmVui742t/Srrwh595lIFcaGKQhYXidSqBC16Nv4Ie8wPhBAMjDNAFToH1b0Vr0SDBu/T5W2ZSVMqhHz84H9PbNO3eKlEsiasS5AJXYMEfaoU2Ul1nQeyqCXb7XRZK5ZlGIKc1g9sGjlYDRnQfS7uU5O6zXXZdFL7YcRCqLV5QcZPjSsdMKGWSr2YRy5y1osHlnfEWbpXCS62j4FXlJ6761Xf0GTSSuu4neenvCUKOkYhg9AkfdytLP/BKXyq5KCrK30ygTp/vRtJvN3LrZFnKU0EXpq0AU5ezramoKLqAJ/56SE+E69+EqqPDnZTpjdvI5jLLQHOCToihRi7OFYz/rhG1RP3WYKi8voPJakWEsh5iNhA6mwTyLw/Q8oeSaO5PwhO6GtBBfLBSyMBDbBiY8QCXJbs5aC6Zu1q4d20ffsxkqU4FBHi1cXz2+OPL2qvf+NF3eF/6dSuCJxfu2bDfpUXvOZGBGe2VxjwIECLEyNdidyNfltNXx/dbIb1SwAZmWA688uhdrfC3hFjSxm/+bUDlaIk8NHBJE1V8XbsmZT49uZedH7HJC2CoVG/bVFfeM1UPXBATNULPRmmLTxoosm+hJclyhO2+rKl8fqgtDLTmATikUAfP0kPrP9p5fgUlSPWBPLrTlNmDZvlA/cF3iuKToMkq+l70toGznsmOe8eaO9nW7Zr4Q4L9V3EIea+5mdbzh67RkZS8KNy85uPKOMZaRr8fYJxtl5X7sEnpHA7NQEtUTdzUzGUSaBBWubxQskow01Ruc+rRcSL87QtQ4ptUeOzY71kjFJpkZMmOEfl5cSIO8QJK2MPPOjLxP+RRPtJKds9Tcqt9Ukr+WNzLXig537G1pPfDXWWzNlJ3P44RgE8LotRlIozkXMjQmDlEirzFlTVqttR3igc8aMNdRmHFLFp1Vm+IrjSoP1hm1AASLv/ii3ZiOFC+quvCFEi1z4McCQ+ooUczb8fgwwbYVoiaHggMnrmL9ROdZBwRMSEAk4MPvtnDYgIfzO8h52ysgmU+T96O/zb9cXQPbXHXKR/zK7SbpkHk9tmRGt1Dt+CROL7nanIPEpAF+nlJ8vKawMNDYS/CxKt4FNHrfB1tGQ1EAofugEqweALxP3R7alm2RLhccuWN4h2zyfustjq/VXz8QFurHPjsFXJ6mWDvFQPjQb+TwDTI+znHNDj4pJOqt0FBQeL+V0XHRyDGt08meUKELI5QiNioKqW2W6fluqjwQb2Y3+V39RGzSfQBU6wUk41rHQT+Bfvq7Vyd+V/nKuxaBh+BORV3iu9cYEhrMor175QXBk7E+duvxie+sxIcFPccMRtbEsMF6XTgAqQ4byVxz0hNAp44nCRwv1OSFUEKuotAsBgZH7JprMnF0AD30efzaAQw8GyUdChnv8PYmIsn6hqA1ZSEHs02DXDpxPr0o9cCed2a+xJ6/jXR46MFRhYOjDJjq8fvWB3WQBBOvAHtospNGhw1xuMgcfuA4ZnpkpM5queu1oQml8B7M4LPY9D6nVAapITyhmMhq6fOoRgBcYm1aIJQZpEizqVmlBJBneIfDaivuxuM3IaoIZc9vHz4jrlu5v+wbSzX17EiiODJNEl84o/zpAxPX2m/RrB4T7mNjsjANX7EntY7aq/5goPRY180a8s/TGtk/69KAT5ldFk7m81lnnd5Rsq5Y7TwlqpxmM6dL+60ylgku42M6lPEcnG512oW2vt9gFI0veWdXk2/H54ndE6SYXnCXhazHkpuwtRqbhT4RJ4VyHsHhAWvdrARJPUcFwhJRHsgFscdfMF2YPWV1dEAFXEfXd4jQm2R9cWKyLA9LDhQ86w39tjobNUnSPVXcXt463iOraGwVbrOoDs3mZ5SOKvKa/VmB4xWIrTyO5wk/JAaH+9epVgm0OHvwyHin7n1cuayr2HATShHSSaCoxfjyhwhBPT2S26g5AkyB5NWphhFoHbfl3b+1pHA0ldszw27vFreImV8/oDmuWfe0n0Typ2VCpmIRehu/W8PgOiQUv2V8VX3N5Yxn9dLbGJ5nSlXy5Xh/O/dsamN4QP4BEoa/r+YR1qy+B+ceYJtpZzytlKYtp7hhSZDeysFpP9NpI9BX0SAK3J8hcFv7tnyZW9kufpwqF/qWMh92Yzk7DWFWyez3Ya7VMZTigFfqntI/rxIabMKVeTeqKmp8a2FtTFBklY7RvH13wdPjD47fAeGUQmniy30s8003x/X4ftmzjmrAikElsaxezFL4WUpLinlUnvVNXMiDwVv/V7XmmQpPxjkfi4FZ++lEj1ZMmKHdnhAwo77KzjSd8Sw1jylC+S/A+pLOQyUYS3yJ/5xiV64jKEAXsoOQxgZ0QkX1NlTWR9bBpdpNmV46YjXYDi2pLGlj2fgda/6jTPrgyDvhbwCZWRySD12pPGWY5bssgHRUbZYAumOBpGXYHGgko1N2T/jvW/u9p+1MlrNXHdOdu9TbM/i6S8DTy6ZrC9eVYOvMVs0OgLZppA6CSynYOnIo6sO4qHEH2YNTB04MlvG1xshI7f+26rc4hmuxxZY7BrJDiBO11KBvqTEDAI4YoUjJyC+AYT9oYuQx97n3kZxS0jUhRSVuZJVYJ+4Dv2FdrWJR25w1Vg/uvH5BZP9y+0BlSheg3/F/mn/1CtiPjRUMKTsyKiDqROxxB4xm4gM2tTzdQgXBAfI9iLGnlDdgeuGRBrsOqpyscPlgxxwRoLOeyl1aa7Fwva+o7TA29+YTc1Y7jg4SG4pVzZvJVCV2UfsqSwm3mZv2bnv6GVEV84GCOPfb1Bo61J7xRrI+8Hn2LWguNr3YuceM7b1MvPpCV1DUUT4w8zlccdkmoUOFha1c160QLDG75JYB08o9vej5/LfNOCWUQXgMlMglB1TsIDH4X69eowtKnLqItHlBAI3Q8iVxUQDu2hP9GTKVSQkng/cb9/7HgFO/Xoedxu5LYuWv2glvVfq8CHE6obw3/i0FM1BAJmNItweFrKXmI/AduXcuPh1ydbvz7DZC8UJnuO+UtVl6GpuCXvaTF2k3OLWTusTQhDu9DnRss35HjFjYErH4GAZHVG9W6aXsMKDyC+k0gDvLTH+qcszFlPS/jBocxTNHWa73PkusNR/WgvY5GWWxMqimV6sK5Yrw3j3aSyaHC43ltlIEyFfbIWZHiceb96+zrLD5wLtFY0RN4laCBuBhZD/Mjq6tdpsh0won2JvxgbnBftQpmaDKNp67/nvgwEsLfJmI6lqyS5m+45omVItH6iXWF4osqHgi3d5YMn8w25t3njYDHgv0Ro0FJNUOvqZZff7jTP8ovdMtQ7U2Bfcfc2RM2GU0Jl6O2XKOHHt3P2ZaW+bjOf1u4HW3qAvFSnespGaI2RetwNlZo2h2zP/wfpQr0pNqBHRVp9P6g5mhcMLwKzrihuANBQ7gH8Dw2euogYk4a4kQFrkCIjfFl7qCHD2UqwclhHqbhommlvCDVWv/3BpXOnkZK1g9FlOTl8FW8xK5MlRHBkDdh4gVcarv9JoYqdB6cdbCVmax5gvfirBV9uBgWzM2q+/yQhhUuIQz9tN6Iv+pXZOD3o1EpzA4hbrBOVwt7RGDBzhhbCmR4Y5pKB+SqxA3G4+PlecqaRC8wDgOFPs820tso8b8hlBAAwMQaIUa9GkzROVMGXjHItlOcTLHzLBTPsZLC8XN21DLaaBWzUqk8jrDrMaNHwU4PLfM6o+qfLReQkyXOVGv1ga/wVc7xUVjy496ZZf37oiw4zzYjyEit5aQd1aXc09AY7+3WC69HalZ6ev5zYR5L4DtzFlufnBr2GTIUsW07+Gc6+zgHkC4IFtDsfjrBzYD2iATSsoI/FWjHWgPYeWQzBjWajHJ91DqQpZ05KDWKkCmhcgqP3edNddB1RRcvho+dJdM4F/YiRPefk/l0UWYJ4Q9PHuxKiC1yAOcz9VrjWcYWxAZgglc03bliiJlH4fLgPIfdfMId9R8bFeAG3rPlmxCxUuDs9Vwk6gbMPbxYslIpEMJmqiCUvEmChOus+4EEGffnYpcuGB0zVHXwwm/GuZThXtzWizqW8XtCCuZQplCZNvHcL/hvzSEh5TT1zMDvBmcFzNogOl5J0kRtarEYPVk253n+Ly+hygYw9HAt6ODT7UwPVxt3jtpbaM48OryjZSndwfWFe6lg3A9k5R3ijU95Lw4kAgAFd0MlPWrHt78ECGX0OUtllhkSa2q349xFm9u0qK7cqBREZWLONJqEGBIB8eJ7zlC6emiGdvmt0XgyhpllaPbFjVcY6Wy6NW93txJoP5pMABqe1WluR0ITa5ye9a1CBcXjKqXfKmfZ7aqxPfyn+oE1dgSwce2Yb7iGPzgKFB5QgSPWz5cbIAn68uKVokpFeFvCXRySCGzGGb7qpTgqyvAc+FOxSG/L2zOdzrzJVpF/GPtFWf8p2u5r9G8f728HHQKlM0geJ4lnRtVyeS56fwkLSHlzjiOwvegGL25P8iCf+NC8AApXRgRXgVBB56r2sRYdwE3it9u7iy31ygnDdkKwcDf/AWtpZVZJLejryn/fAT5m/Yo+E28JWoK18XkbJL+7zQcc6Pn12rL8ltmrGTgGNKcv7WztRJ23/uR9gG/dUdqdeB8rLiOT4EtjHh4l6in42QWwKASDiiszelXxrFH81bEZA4lHGxwlHaBZjexBcaJEIqmIoK2vEccRK6afeIWBba31Wmb6HxpekbAqMMtgKUllsC1iWvFP4jg2Mcw06VThdl/vlWb1L4XLi13eSEnkemCJDQhfqlpCktdxqhRemWqr8Uw9/MyN14Dvy/QaZUhSNUdq1QBmIuuIGXLh9CgzMaJw7DJEkXsh9WsPur13g7BCg0cVRwBZE67+HcEzTgsvTbBFMSqQv8U2hRVIxwDSJMnY7Qi7B4qg29ai6zzLX+Y4ps0WrnqjHD6uUxkRSKmU5Be6LE7ALMEgCBQNxrRLu4NFgvE6BESSaUPtW8FlCPircKJvIVyFvlBODoGdjXvDIZka9dsfpKudpq/1blQmr7HBqKWIG4sHXbfd0zpR7m9I4h3csOZbTgizvG29B15KnIQ26Nvtt+J0rsPqOQswSiOqcBmqS4oegUkgXyxSmPz8A3BB49AD16LwMuGClwdjKW2sO5RHtFugzLUJNxt3vWKGsipv/Zp87vJXnsSzqL+HPR8w6zF2qkC00CSEUDqzW9FohQLcHIbR8oWAzq67bB6YcxWw3Y0IyasdpVskmwfa+0R4icDhYhnmEe5ySgJ0ZmIiVh1DMmviX2zfBXBd2/wDKQJN/LyNgA/9RcHJxSnrOKPAHizm9LZuml9CCLroy7oPnQVZe0AQ9gvTMKxfCeqAPopK1oJuJFs0/d53gmuHdkiM0gtjQBFK6lYumk2qSvCo0hZ+Vobf6zVwS3KfprtmyVt22LZHKJf9V9gUpog6VOXKCRwKpNi8VZn+J91ocm12Xhm3Wi1cfRSqSw7fF3xkEJ2/YFEZpME5Mad3rDbydxtZZkZTZgrXjQrPvizstlySqAV4M1CkXcg4l1ZBITBTG0cBtxjYgle9o2DwMvZb8DCIkVn9kKK5VZMhNJdnnutq+W7Wc+hrKexjggComRwdMMiQUpC2aoBO/0tRKPkyy4XTMbMoK350deB30HeV+OMo7AnAJb5nERyg31vKxt36vJ9gMQxY5fm6oduULQtUfS4irTzUiLCMVXUNSp0SZhTTaBMhO6UMTnSbhJNiuvLnJfGAxnwcufrd/ak8zsNCpRcRqyxN8u/mqLKCTH7MLwRLtxQIX3nNw55TtQ5d1qOazo/Y2bkKeex6M6E4uZVMz7EEK/ok3u/N1/MCfqdPP60owZlISUrW0ZBmmlF1DJuJjcAqtNACTcAHD2ppFzCpVFETG4Cz031PGR1Jpi9oFnNE6KC9ZicR02OiajPDDITFGttZOyhsxYVJYpGa1DgKAXSnYpEYv0cVPCkrABeoLkstAdI51d3kZtH/dBwAal6gDRYjaSy/vG0FLcBoMSqBqzlosWk65MCCY2JJ8pOA0OGYsgdEwjo6+SEg8E0hLRkdHdbD4Pg7TpiErteO2uvVt19VvPLaoh7BeXwOV9b85zT+gj1j3rMsWenbr3Is4Tw9DGu2rD8zPDN4+vc9SMid6gmtO1gZ+hom3sDkNGmZ6t8Q/4BHJ3flsO2kfAOBFl1GQtJVb4yWGirV3TH1qgZf8NIJ8/0wyAQjTIptYuvDmW4f0unIzNpuKCbDoUhvC2wTKdhsWrqjScIPb0cKD/X6mpwM+lo2a7h8JGDGt4Nxo/qzXTq31u+XFd8Muhb+jtTqvhHm7mfS790XwdHUyEPAWGlOiZ1mky64CFbqTseGkwUZIrkGQSJ0navXjMeyUIyxM9fJAz3ygQ0fzes8wU/XeduCBvd4egoC4oUIvoYBuNxLpPx7mwOnPdq7zzJVRjy8n1jtmC/eSTdfk0aFnUwcxy9LDozmMw9CqBC6HZAjPlBEFbQmMEN6tuwMaE8OhVk2o7xOEOPvow6ZnFklNyWPo4EdbJrCMFSBkAZjBNJLaS0INbXJnyXQ7o754C0PS7mFicKK0TuycWN0vXiMY60YHSRIHwTTTrm+wCA4Nrgbx407+siqi5OG2+R4qxp1VtRpvVM7YJvMR9wMcOB1QYZkMMoS2s7VHwfpPikm93IkbyrrOdlOXrp2DHZF6lMc9xrG06wjA0sFZyltf7JIh8IuTOIM4N53F876g6VzNJs3tSDVuvs4VjonJj01QnReLV32iXFA/X3+ZQosPPpLBACGbRmemLni2M+sH/vVl0tJHBbeeLxtXa+TkJFtdV381lXyBSrBI7WDNZnEyOjEeHXVJQym+kz7ueC1H2+BexW0FjyjuaTpcnFcuJJmjcFDY1UGGd76hwy6KGbaM15OD31jjG5c3jDfZfousKMlBVS9JboGrt+L2RvqOLMFFgnHjL9kKK34pVpvybrVf9XWvWYvPapU9royIpoeUgX0Hf4qwlRq8GZdR95E/BEYeiqRc5lLLS73TIyshNWvJjFlAq4CW/Ixvgaf1SodSagMopbSE0k4wQ9RFOlMzvr/aX2a17QGCg3aLdLbKXigUt53nhmbsc6cT1/QTAuYH64TNzS1OkOjQtvPn80FublykXiNyD2Muk8YrGI9RIIFDBIsJPEFxiCSJ2Qp3yRV9VqF0TecaWFjsDbFsh75jD4tYyEpPPqNJdvgD8zmwtQxGym0c7htFmpHfWA9XjxuOE4EIya/hJATT6xtGEmg2rSTrJInchunfohUDYrirE4PjE46zjJu9wP94AQ/n/hcxsxcCTtcRYDSNqc8U6SpZ+dXY1hUE5j0toWCfDpEJjbu6+rMgdUJT6VTpJrYfI6lsC6SMLl1vU9L53SnbBsYok9Bt+wBjHFJYVz2Mg6aP491aJwbww0MOHx8mqh1zCWvC4V8n9u7nkS7XA+WMuQ/n/D1YS4fOxzO0Pew7wiJ6bcoGnZj/NHtVp041W7SDtNbTSNwPIjK9E0qFi2BAOrICO+KqYbHNkKB1Ncb9U5YqxWVELxR6+9nyQ4mzC5G5pW7Y6K8VEZSdwDAHwTxD0d+JGzZYQaYx64wqijiCT7Q9rGzvckBxWI2zBIJA/hID/fO1tTnKuQkYcXnUXJRTC7cJmhn6nsHeD4dMvhBEka7B1anhz0TfrrIpy7Hx1vvS2MSipgatzJS6vitNsW8f6/xdaYCcRh0jFfiSNPjEpwneo6vHEWHxXmQR7RPE9zBOPryjQZyA1Eom+J+HnzIZuzu/AGk6gFW0t+YeqggYofzT9Iq1c0yYmG6i2eknfhyc9G4VldgefnrGc4QNbk4CFsIhZxhTQxQ7q6V8PdKAFEIX91N6S7SPbj2g+kJqtn5CQkNMfGqbHSM7EZG6t6aP640qBJd7l2jF/ta89qywxWArmYsfYIfGXlrWTOLn8JbxK8PJNjFY8Rl0UGMFEQz1FPxo2cy+22bKSKzmXSiwgb+4yQpR6yjZiGaaOnV+XVeaV41aHFgfa15JMUl5WoLw/PTCXjlv/ULYFXCMRq5i4BWZqCRisgwEbEU5JSOCZ+1qI5cl2s9S4poNjhlscsqo0USzvVT53XHWHranTSXEBwo1/30RULtV1ALP7N95KKxBl409uO4PctP1XbeQptE9IFm8MeRw+Agt8DSHJJZ2DKF9NRvdsJNtjMdzpaCyT8WCM/LoBVnTVIXTUATMIQcYNv8Hn5KJzaAnfYOcGOut6kYS0p2YEfIUNV1Ibulry6Ji0yvhadPdkFS6M908ZPSfjQVWFfbfYB4Kjcz+V0BW6Gg8K8z3PsQXnKO8GkYM253Hyknmx/+5EsYabk4xWTlYj7EzhSZtwNAnDgMmqctM1I6C0mzafW+ytJHCDbQFS0YuRuD8gZ5YrF9pCu5DiWA34hXxO27KGrGg3dXlh1OJrCf86Pcz9hNYSWcbnnnWG9zZznemY2zVhjXp1VOCAVwBgsKRUFk4CNBa5K+Pj9ewtmKH5A0K4VpZJxxataKhYzlkM1X5fg9eTmDbM3vKLyWbD4PAdjN37f3FnORolZzOkEdKrxYi2RQKwGRzPwA24UxynRSgVwUMzGmHOIHEltkcuQFn5qAsT60eOYlWzc+mBQgnnxIZf2s/dlOnIUjtOIZURChhu3PHFZzPiNa+9XmSJKzdEP/ps9Sq3pfCLNPURYqs9G6HXp7XgyizmjuMEsBxHBKJ59Asn7Bg2Its+pCatOaJwcxR2e3jkS7+vysmVySbior/l620Mri49ECJjNY+iRra3tjFNUV9cIJX0g/KgwQ6g0V94QWqNeh/RdoOrANJ+sFOpUYPAaGpZw3odTkM6bylnYAj6nKk2hdnACX149u26jIrQ2Zlb5yykT3x8cR/5oxEiEANOTmBd17WfvCKxJOPFwqcLZFOfr0yuuN+iaz8SvRQ3H5j64irz7vE23KnYvL0bNQ8bsqskbtwQ9Z1TKxhdDuW2XjEuqBOyKcbY8LfNbAjzIpZqJ7kbRJphOoCV9eMhAhjDh1hdFdMHKepEaiyAMME8PubEWhGyMS+p6j8/8ZtMyPyX0e6NCxhsINMBCDlmBdjGuQE5mR2RdjydboNALc0qVPuQ1VnKekCE223xI1hwNbGv/y0mg8yAa5T7ACxmjcmYX2hxPqilZH3le+/SDgWWW2Gy58NumTPNxidi4KamRQXdLMB1KdVtPS9xVwewtgyFZZqxaNVt/v6xXMgs9tAbXWZFB45lxdYOMU7FYzvhR8umuBKpmJFv/PtGoFVSPK4UgFdCjmGLOh90Cje8ygVfDFKq7pgM88Db8XbLQGe9CSSREzMtcsdMrn9htTvucsqJGqgvrx55lvKlcga3XQKGbvHiG2o24ubDNq4rm8HUPZ2EIyIUfyJvj/5klI1GPnbvS3gGtAVRdpKV/GhcSXa9xLcG8/8a16GBHM5D6MggAvL+sVlKLjHBfNZSj9zDwsyD56gUIxLi842v//4TCmcCqclReXNr3PTWp8ODTJ0E84/2wB5a4k4pxQXsHcDt4E4YKX+Vzi3dfPA0uAkjeheKj2xel/k1dg6DVrmKAGSTLamh9AWiPXpkysRFZWMf1X6mCogU3DLXH+7HnG4Xf2lt6aobwDuJfI1oF8ZypelgsZyMx0Il1GTNeWVkn5yu7Ue3A9yZR/b/DvFB+ZaTIvbxMa5kyqxLYtU17n+4f3+HXv1xMINa+n10Rg66Tatnx5QyL+PECxQOBnk+EZz6YDPUFh1yeO+W4ZZEfuY0FY0SF4vTUgIdd7KuWd9iZusQPOlbxlpA9Uxm+7MRE20fBYU4AoNknwI5XDE170cGmO3IpjaxWpFMU9/ad4lXbk6D52wa3UH6tSNzR0qW8p3NMX3quJTCZpK+1cF+695JDyBWkr6ywkfzAV/eOcwTDBt1UcHTf8sKZIxLU49C6qRSvMCnAxLob+omW/dZKhWL3vjS/clEkPug/akvZm5JPRfs1zwjjlzQ4knuU4CyRzHiddFGDRkrAn5v2G+C7eVe8XtDN/VnocJrV08FKPazIWGe2jndITzjWh5245kl2B9ZkANQCtNSAThjQ2ZyZJHFl6Bavbl2HoGagN5kQJ+Y2fNgpO5DAyLjQZei+bNXEfMh/WgRPdUKlDPPLWigjpltsYbEQLeOkotA2g5IQZrLjudpr+bxtr+lQ5MA9QYERVQMgPdgLbyK2UYL6QyoWWaHB/Vsb7rRUqE8uSMQIWOvKRin4XF1hSaUeuwZwpqFYfRRMOeeSHHrHeZrEOQW5mH/CYRAxp9eW1iwi9GofwthKx1J68E0r9GtzimoVeiJM0mzJfJITB6ICOvEjdG/YReIJf2JRabjGHmh7cmkrcBY0VUoVnJZrxTuf/Egdet/YWY6tKDg+Urdj/XORKAXGKE0Qo5ynzbX6o0QZ44WpGgNGu3srzrI6Vp9c73H01vLEO76dpJbeatyL0CQ57/nD0by46MvZKNjgDls05bLvkPUqokYVnUlDDhJYWvWHxRCvaR5jHRlhqKKZ3pfrt5fw8B5Jf80/GTRQ90qGYMVyfo4W3f5aC/pqibtV4ka/Yf73LZEFYIKcbmWPgSxGmYLY7b4/L1OkzmhOB8krY+u7zP5Sw+iYzkBy7V39nSUEvxb3id+HKGv5GSb/uHcS6vhwnmhLoQ131v/JML7srQwAzwFuE3EGbTlZuBLjm+9xpImEDiSyQJVsKhsR/wXrbPOWqVL7oFEeEutY4jh7Rr04Rm3EhqbgR+0uBRcnE6Q+BanPbXbsCS7wS2yvAK0wDq/wVyk9UbX1M518Rsj4K5m1w+8GE3Q4cIRCeaQn1GFm3mEZAyg4jGE05GDgnPKX8dBFHebr0ZctwtiRRyfQwEZmxAO43Og1tPo/Vc/sWB6ZtELj+5EJHhefn+JujvhNXJCGfSnEHTTQNBOQ0oHhVO4PymS1WoakarjeUYWCHOMRWrMN0ClaMf1za4m54lbFzQagRkIoKmGaKK94hjziUGSgXrJk7or0LMluJjkkp0FDcYVP7J/zkh9bZLPGI5oe/hhq9dcDCX0mtkVuri6O1U9lYAgqF977SVh5RorBN1lS4DVecXfLYSG9E36RSf99l0t7cWz0pLM7sKWjXuzavY+cQ0pttajQkg0AC2tYQ9FDMgkVOmokuYcZXEDkK4VW2iesYdhxjqG8Gn1z6Ykl9fPrWW32x0JwwZykAdtloyvxuTLtTanCVQsnQ9eViAHYDiEpr/HasAMVAmzJbAFyQr/1fuLz4Op11kjDAOfuB64xmWKInN15o7DrMluopdGZ5cIAMQ8y0VG0E8hgCZrxDv6jmkL9gOt4c9V00j4LyynEbR6KUrrRGWdcf5EzYanDDyH4bNK0OO+lizn9TCnz03MCZ7FoQAr0p0USkjLKwsD/2G5v6BWKhPtyOr/XF4uIElEbQjcHo4zAUo4x9aAZKw7IXi9g6NCGM2X7krEfIxqRuSI754GfnDbh4WSTacN0kyXau3hcT3G3VSgNBMfaP3FeZ4H54dBNk4R0DHTytcxK9Acl1XJcqaSSt7Yt6KOJFknTf+WtIXjaScW+hXnK/xSnMh2O7Dek/VZDX1caNpRmhGkEVxrRnG3VL+96ktdDN1IgTtqzsGXMpTbv7Gj33dOOMSKYbTD1so1m5N5wd6AANZQcD8GFBkkbWYiQDPlkZfchB6JWVvlfdwcfKVmDVtnJJ5vJ7QW5akSJSHSnZBhmYFzJywN9mKrJDYxQtWduF8igBOn5YdefqGbwexM7BFJvW5xLEwmk2MsSlINHuVAMZ2P7S3x2DnZx5LWQUXBuJmoudIKJAeHQ8m3WISQ52t+3bFTzEMCw7HXoTAUMuspTCNJ/1j/krHCg3uaJ4R1J6XeUDYmG1GWiAp67kj3cyTVX8eChvqCN9/KlDxpuXvI2wB5LOdDfucIY5x6Du8hZrkKCO9+EdLD/lAZDiM0PIPxLpA1Y82oKwQe+SUPjETigg0xDtQ2cGfCc+tuJk3Lw5ApFNwvXyX5bMVCI25MIKv3k8BYZb2h5HtkCGrV+19YFBaofgo71t5oS8HrxR3fq7SHC26/QyJQHZ3iuWxPRiyCVLVyc0UVBwO1FUe7r1KixoyQmGPfd6H+o4eQgZbPk8BQhh8GE7kVRM9l69ndUezm43igC8mU0bdCNppWlxHO+WX9/CzShLl6aUVzWq2MJQ2Pc5hZL8gTQZb+a4BSheiF2DgI2nW+Afahy5VxwwWcCLMV1VWpnSZ1EKebMm/vEZsmHR9J2mQMicoKybf24LJd0w6cWXgvNNxdEqPbNiftaTDX27SN/0tRSh7PHXY5tmPjpqagKQUjRahaRBY5QANK9mjPTfDMc/XSrENaa/Ee4S6t61KOQJNaofu+v+5If8sSy3iPTGufUkRvKln4+Kk3Bp1Fbs/QZGTmbPTjTODNmmUNZela/pWPrum7ilDzXgQ4JtZebZAA97dTr8ZNMpft1JmllTv7SnUrMFq8OvFhqFQjKihvo5Qw5Lo2OK/qVY8RO9nap/dkBwgRB1mbu+CxbpumI0zAdt6wHHNpdOtqtfDSy6Z2RV3rz/puwE0405Vl7u+OQuM2Jl77ifyEun/SFJm5I1gtYKm/J58Ucvan6fzxgCPPsbPmkHge9qORptMiddORnGdmnp0XeRAetfSM09f8XTfCgz3hw3HOpvFKyeKTNWjzVwX0z3LPcr/yYxm0iCGL7i83Avi8hAUdGsGgvkqaJCIRkve5e/91dtPz1PD+KygQCee4yFK8T88avoeSLEhBc6+oamffnzbwNXIE15+W5xVDgJW+XCp0dNDhgxlhIDnhHyKvDG1MJvysOH9eoGo3qScBzwRHQHSmW1DMGxbm7ScOhoAti0w/S6wFU+A9qAx54lLuxyPPGJSeFEPEz7m5z/tV5ZicBqYptoO6iuHlXo+CIeg5hg0+QXAeza1vAu83GghU3Gqoc5pYINj7A6DP3VHxIa+RgRpGJgMhpmJCIHhAUn6axqHxcnJBCE5+VHNuk3Yvuy9UVSFl2XxzZtBSuHVb4E5TCClBfYVQxPQI6vPIxDQCl0qC9e+Xmk8z65/TMxrJppiB53IS3zkVImFbKmz37GIEdspH3LY+pbA98+iIFtzgdCGGB+e1X+avPaXIuVEH2Bm6Wsm8KtOH4HTb11NIEcMBYDm2E23ja3LqLY/jMu96X+FwRKGXjhmGIo72uRuoZ6Bgpt2u+Tc3FVlR4OIA+cdmtJYFFssLMRA2rG9iqwWlCb0GxtmzZQfHjyc4dbAArc4uEgN7UtcWVzYGOSaSmUpwmsMWi5I+/a9Mde3x9FM58qj/EwzGeHVme7Bc9v6ZXVGTx33VqV8O/PRtOhODCqcF/trc3gsKujh0PPAWyzMgJB2iVu+CTERhwVWQMdP2LkDQO01836vUbfk3EQLKg7tgkFcIRDKahZ9Y4Q5NcgV4Icq79icOjEz/AobhY8CHiJhUYP9n/Py364Jela+gPZ+ipdv/Lf2ZBzU/6EvozAz5OIKH3Rtlqg688apNugAGjhYxqNtXGDSE+mT5MxWfz/0gl/dP/ae888dJh8ziRDxDWAXLAYWp2A18TZAXrHA3WsrPftmIomRd1oSkskT0u2Q7es9PYS48hrMBlIBh1aZQXJRSgJTKSMuHR91QnqcmnErQtIZOIVcPe05VLOQOhphXmAuNQNG3A9StlMJn5CWrenKYgyNev2WpBeAYY9ZB8pQiGzW37xWf0bjdCkPCX7lZJjUPxi8KRejBjCFyS3eMKp52oy1imFr8uNkRPaazYKwrZLpV0HF0ExX2JG+JL5ZkhzppcNfYjuYrEDqD8s7TvfnCgsqOWFVJaoLny41bajI5V/mKKGLMbFfBjHRSLyHxQmqjC0FFVuIW950yLAEL6PEERGL1TNRP9oUM5jEGAu3GW5/pUEttXFho6JFFH9yaaT/enrhkkYEDA/UGhv1jI7Hv6A6zbWteQ96tH2UlU3jWHsmagwznyyTeBaKzSr04q1no7zMEoPSERzTlcQVKN1CaXDQhgL2ZQKfpbhbxCNgK5NETW98Fl3EVHkv+HMKhusfyaN3gu0dkFIMX8bdKPKnqlAjRPjn44+bZGSV1wzKxjfOfpTMfQWLNH8cmYT31KQ6IeisrR1jogMPTwyisKD1kt7DjdtSgJZ/RTuZi5rlNeAc6A6c3G/KJLJ8rbfEOh6tV/Uq5+UfAEvp6RkflGWh82X7xC6eNbFMMDY9V7urExYcpSO6ZRy8qEbpXCt4M8LDGwBdZz7aM0J7qRnTk0X7ztVisrl8UVZUM+sDC2vlVf5dZ+cX91BXkMGPbOfXEAwKKO0i42Sz5B3nQ9b3vkCulfkHSfCtUd4YVecsHaT+Y8Glbp3OXwjiTv8pzGRpeMb3Gx7fYEHoOcyOnaCO5hA7CqqD5+vMzzOFlcLTu1hM7s+hAKn12pG531OZo/3ZOh741B2SvF1IZXufJF1hgd+iu5+7e2QsYU3YAYCgqtj+k3bCb/3s71+WhhvrR+/8V8ws4zUJAJBdAh65Nq1m2XWLtHpqYelGQXW/9TmTXCEwRlbohNV+u4qAwVRZpuGNBQriyEOKASkvb06G2dwSRt9DAr1OnIMvVXWVvvo3eKzvidG9XeChfbu4oitI2HP2g02WVJTDNghZquAYRxmu44/DaCZfhqBxUnxXqZDUJYMUA6QCyLAHQRTFn1YHFTXgm3MhrndIvwmMyr5/yI+dHlX5Xi5xweH867wvrfNYIY9qobzyy+zgqYrctZtg3sv2qOzHMwmuxvvkGdz3STIOB214tbVcIvwEEXG1CHcWeOmwEBA9E0bN1NfN8fRSsNKVYN34dqKMmszCCzyuKsQykisDUMe4JQK7cvm1UcXKEicfwBCwFNdR6vTxz1klSCLRniibtXsEc8T7QPqDKqWMkPgTqv8KJul8VF2ZCkvUng6u+JYDqedS6dNguUT1YeUVQUnQ1fTED+C63IiDTJP6KIBtisciKHUwTraI1+VDcfSJ3qtoVdIB4zVv5s12XSqQYBTqGL1GRillglAZOqJEQ1cXg+B3u8RIDFkWAiZQOKo7vnHyotLio6rYJzlTCG/Pk2J63v/roUdnsPG9jpfSrFwiqnoY3kA4iUWyksPpGatGZ+IZwyLwkpbK22VrxmLnbbMYLRyTxdpWkpoNKuhRTI8g4dyMFR3aK77tYsiXtOXids2qjdBTO02UtTKbDxBdben9Bj8PVXW14ruQtJLCk+9z8oIVuomfz91jNM/T099BhXU2x5zsWAnuszyUAa+YtM34gVABBrGMPE4nT/T9v8DDcI/BGjP/1fblOK/HVhhvyi4hgKSo84atNlkyO+89vOVQnvTwo/oCJZoBbM3y/INYSZor7SExmCWgd2DtegnqyDuhYJeLQqPUjSYSVxgF90RhwzkLFA0TxeeQBSODVgr2s5VUYCEFlO39XfYK3iHG8SDNNYQlc9Nqlyg2zXI6Aa4plIQdikpNt/6nJ9AYfJLAyJ9Xzi9Ayf0YXtwiflQ06B7zAbi2Z508r8EbAsjoAqNIFOZ/JlPpCCTbLfJwYeYCN60CdAwt50kYDMGa9iLpO09SOXou/iOzm8wc04oP360fzOWEyLoClwqH9kG0EdDos8F3S+m+qxaA9Ge0xiYJyOi66ragpYaxhIy62Q4YHwcnb073rj1jkSxZvGhW7tzAZAuaG8xdGbvjdtGTgpa8uiT7uLIxtsIQFTfrf2zwYbQTUfX129Roche3ash7KhkAgdilKO6MtM5R0JOtw9F+grRIQHqyQZlqQBZoUcUHrKSCZHGbdnTQl0b36x+PqSJ03RwdK3LXkItyWjiEPuXHlpQJlxboioZbmYXeetmePSzRulRr5QXhtOU3I5DccIsSrwb4cQwnJ/F4VoChnCn7uV7ClgMzz3BZova1w4fK7ZeFcRQ3FvKcwfOQFVfm9nk1wvXSKM5fF6MoYOiIPn8nF1yHDQWE97cNHTdTytVxZmht6c3RsYdJjudg/EfL1kFvbfKO+TRUx2aomSa0ukm2WBT2TfikOFV7PHvZxCEeQObYa/RtyByW354eDQzhRr7X3YkuCzHEYVYpu6mb0Yric8bcGlHNTjJSTti2F6obQ5wYFMbW68DyP17DEBpXNUNeVmill5yofWwNq39xg2YNl+yqF0zGULjSqzyMyCvfsXAmg/fWworX/CZMxefbIcrTwz8xPU6KVJ1m7FdbPD953Z9XPAv7QrJCGuzeRYnQqajuej9S+xP5Ob9b8AVf8Wxh4sSeby6DcnQHWAaoUIEI+6aCM1dRZS63cuTuzHfHnypMFJrsxEqgrV7NvzP+P/vwyYRekgMSE/PIrGcBpEy/sAELfsozNB7lMNX4TFPeyxm1vj1DcVdclrg8wIGDn2argpuG2l2OhqIrEfOLzG8HWgl1qGtMhmUPZ8ibRKYb6lrIvFHLeCKAeIL/M0hV7l+PprKcw7oghqxER2mPqI/h03XvjWNnMreCryEhfIRgIFEpjIfDPmEyqRA+cB9Crn/N2PMGw1UzNLAOpZhrODctl1A8+ad2EMNOTYoKiA5H1K2XGd6oMmdZlJZMrFNL4vzdEsZ/yjKC3N7f3mHDwUTQuVwxh9TBesrCSZ1e7m4dqvyNEvyPqDmzbbEzvZrGm82Q8C1g/b+DBhff8PP+r4RWYK+NLj3wKWFRg8Z0U9X2LLvCbtl8G2FG9YaJwyQJoZl1Nk5fZXdsg3XGVBCZf9O1iDXbobDkU7U0s2WEfCuslH2iqX5cQv+j/x8RDQxNetJIUpfwwFL0M1yId1khhmn0tqKP7B1XYTmCc1GRitIH+ZkACZf9b9bJWxZKCmmEK23reUkDb1kuzf9YgVGYC+BioYjlQ1iRX6tLs2O7fqzye6AE3kKhLtfNpCCN05qNZ/CaKs2TPEnx0ALxaXpWoftBsu3Ee1FrvR1o86k6HNUuO6jrHrEI4IK9BvVn630SumsIcjgJfK4H/3VlEXmPEzrxauj233oeTkSC2AsXwQ8eTCnuF8j8IbJAEtR2ZE/noEqnboXfMYo3s0c3PkA+V1MUaxYbZXImU2LVQEulCJPPe9jNaRW5O+yqxOeBG44Cx9KAnGzBLLHW9sLIJ1EWQ+N6wBotPBkK/C22htpGnKfeCMCpn4D6xI0si9JW+lCdfI49dR936v27zCSqShOmTxZ9RW+nL9v+Yq3aEh3nwZwbjGQ5buXuN99NpBUBHFWjLtd55xGPKdJiY9ZmBCzW6Ip0NZxJ3nAek3Igsj5WYe86fyhSpBltuUBtjvXnGMDBDVXibbnr+EaozIuxonZbilp9gBFZvCUl6/2GBnfrzv+V1YaQ/fAtuDmhdmHTEKyWQfrtvA/mDuoM2Bq3nm0C1eWjOK7iZG7VT5MW9ieU+kD5H39x99/5VC/lCmIfBEfq7HNvz6l6Kf5fddNbC0QmjB4C2GlPzGc7tlCz0EKSkRj27dUuczbDUrbe9N4iJ8eceP8O5zSMypA0nT0EL0DBtM02SHCbsMlhNnFF0dmigXBNGa2nAGFDhmtvp1ePc5y9RcbnFohIxkD8TvhhuesHqh5r4IUQPGK7Vg6YTjk4xin5fkNEo/gabQK5q/Ypc4+1cag95I5lHVLqwjoFwztNfS60PBVZiDWnu6Y78aSDw7Nlr065G5DGWWYg9idxjoQ2Nh0uOHwaASgRXbr5BBkdhA1qB//Gj4Y0uf3o1P+JAHq1A1iiOLwsl6fOgyRSzmcvSSBJ1fHVSezHPzTnZ3HB9RdvcoupAW9vPIu85f6MTyts8nrlq0ZwgmGO3zJTWpWMoBhQur+pJe/igdM385OfZjMp2OxVRgd7Hrk10fcUifxuYc1xbu5z/XWzdUMfA7mkDT7UUIebayaRsSXKTK/RWaexiTA7aVdiNTwc5d76n9C/yGgmy+a/VNXB4RIiJ1SfFVHeJnLcQeV+dbLj5wiphtNWcZeWJMlEZtroMIzmHgsNyOecePG/gjN1bwE/36zW9uvajs2PrFlLjDauK8mRGyeSjkA2GdZx92jaDo0e06Tl0nZqxnkWSmQqf2LB4pcoYr2N/kHno66hFrBU1SiwktyHkr6qWfoTpq5u8C/eh4miniJAdCimGFfcNK++HXoUp8RXGHLQ9GQ0OVf0pPRANO2qQ2Jt7esiRKrvcn7rHmthfT3Q7dV1i6ko6GwM1MlhWPhOXuGJfxi1Ga2P88C3sKofBTA3C7xwBwxt47Glgl4hexLL2m1P+RISekVEIgItBFQXt32Zn9m607R8NKfZwJCgs5x9HPo5AZU9I1FKNqO9DkRRLB7SNoxsvJ/0ZQWAclJrHGNP+SMgB6+6zSBRjieuEDNVHmK7Qh2oD4ZyhmtNiYq7Ia03aWmBDoUDTSVZLL/FQNUySRvY8XYZGSXezYm61EdL3O24zmBvmMLMpw47IaFgx1LM931eDQ6dkIZ30LoVESd6IfRERJNdgYx974pZV+xiY+1wVO1Vhr20kjGiiQODrZ80gX1m4i8evunmVeo3lyGWWWlthy53qZdAPz1cYJh7EWVpcLfpgbzXhQlGKrg0IgTKQDGYq7P53RFxRV8Ukzfyk0youL+EYZQOBE6iMMrKnqvij1IUjKBqwWlY/LF7Ang+GQsMXH2ihBK3wL5xpyO11JteHGSGc+kI1dVIgW2MX2zf4hnYk4D4a5gU7z2gBHbOAEVNLZv0W5QuXUTN+pa6GPxXSsgGx0GFv/T8ZkwBXwqRsn5+PwLbGRGnZRScXEmbeJS/dMPXDySnf/xEykU3PgN4dg+fX0TYhMAEm8JHrKtSlohnUykZfLWoYdE4jb6VzlCrekor4ZlSx/UQ1mUA+aCpw9kg+KWQimGKTE4vwyyKNDrrarU3SbSQMa1lvphPXwaJFfBi3QR4zOmpNwctVMRHS0HJeHfIYhgJYsbsq6h+RO+TYyk7QPvedT7DdZ6+SxFcaOkP8clR6Fj3ekxcasohh8CQ21PBrTYqiOW5YTGVdtqJMTGojvaRJ+7TgPxFQNl68MtkMhZZbdtho8FqBjdiPKvzhVcEoqohHgkMjpvfJIqycZ2uacbPvv5pxWFF+Jp/OBZdoACIKlDVRtRsD3lG9sAA8jFoazXqHOetAraKejecbmA/n3KECp1t1ko7EfB2ileEmtlwxNDUd8bp2dGKw04EVyNZfcP+Gq4UFyAs+dBzAw9w/APBt3bnKffl2SWxQTigi0HweyQ3C2ch3h8ji6ISdsx/I74BgL4xqIezdVQnJ1mMDNuUxLUiZMllytmO3OCgy9KF/Lxw9D1otjJEkSu20EvR0LyFzFNhP3MvxYTdNcoLy7M0mYsC0J7ApNiw/xEevR8wucvFCBHnVNrOJphZuaoY6AD558mUFZoQcnmilQBjR5tRxmZBW9Z9tyArX9osm1sH0pjUJDEoF02+PNevMFnLGYXI/2eDvZUf2hG7ISJIHpK/6E1ay3bJIJS1Ou9/50rSnzLDMk19CuMSdSrOs4M9Z1n9fS2D4wk/QTQXUi7u2jXnbTBytMDXirIcIdzzBPAH8FREBie9I6ZsPaefyRUV3rr7Sib43SfrN/+I6arlJ1Igq3N/MgsM7ZTO6yR5DQ1rEJcSZndHZi/52t1gA01Q8MvS1yXj+LAVDM1DZM8wjajdypYLC4EVnkwMszCSgEjTGu3bZzVF+nljvK23L5ZVJawoX7Hqh/CuL2br7T2xg8xz+mXUrXUEn7DEslVz0duJgfVhNPKsqI4tpBZCapXtf/ROof46Pa7VP0Dru1vT0wehob49gU6OhL8xovwd2vVD1HLpBe8Mc/eLILlqcyUek3GiHyHEKcw7FMEZjCa7Ng12QDLhAzOQkmJWav4bPJRtirGkAtDBUu7w0Oki43GUKW+wj/d0ocyAsMT08PvNiudBPH3q2tprkfMoVUdj6nLKre10L/2ECmbb3A4pbYAW8C6ePFub3D/iXCvXlWUMzTtijsZs+FcthyyM8r7A8hBdNQDlVJL06g0dJ63bdDXSXExW8yp00tTi9VJ1EoTL1Nk8sySMCZyOcYXAuZWBIcKfEhOHJMPLgjmuK9aKJbSVY9aAEok2alLpi7ZvZWPgUSoi628c8UnkwJjbDCb+bg/jom3AdtVqBCZnAtovLOatlAFwpip9mxrd/RTFOG9fh/nJOUnw/481LtQgGRODQjS0d+7OkLshelpDmOygHsNBMWdqTX/OPSdkSUZJG3zN0Je8ouKu7Ua7u3cEOfoaDElW+yePvnCX9lGAl2glvmu1j66NnI9UDH77TYagFMC3HE1kj1WHLBN459b46mcU0O/CNgfBAKEuJgwCt/nvVTlaws5GYNImRgTce8+kessJT+vlLUkj55Ey7RxpB13tHhaBJfzV7wPPl7ON2XV8L5xUtIwUAtfkGBMwuWNO+Azljd0K/B5ZdrLpZ0aHhyt68mbTI4eijEyH3SEqQvyzRMhEpm59ftUYOpoOPEef0bqBSz/nRNayLzWNLQeTosD49Me60K+ggqVQPLdwFXSJojvs8J2mPuLavkSFUKi617yvBGeCLT2ogrhgGVy8dzqQ4cKSIwq+xJDH/vht9LQeTa1EsaWSDQqBq+UPfQaz/LAIcJCXsgvNaI+KfoMhOWJcnwGMmUD5YmmbrNbjsrr/iJWi10US035vrX15lx7i/QTETQ1oJTckoKawJ/1wdTs3yez3ox9hNlPk0s5EaYsIyFxVqGnU7uDpRcjzQ87uzYxoCnOdAsAYn//fo+e/iA+hEFfIOxLUO4JtYdc34D09LbMlcBi6Hnrgb6x1IipqW2eUV1AX5SVXk2NG4+Op0j/GQL4tyg46V9VRPcFgy+SlxLRX0YCuHtaaQEMCQh7oO+Jh8gF+4d/UJSRcW3yZSYLnMFE/eCdZGOHq0MxnXm5hEdPeuTDu1axk02VpTcJ0S2h6xen7nWOFsClk5v/HowBa/R3BYAN9X8KLGXJoput7xnGPH734yZiQBXZfLiaU4ugsqMvVuWK1eFF5TCw4e7LTOkziA8jGwrzABN3irLckDAdyaLVLBCghdjCf/GK3FllqTfcWLIcOfqdUI4PFKOIc/4H1Vs0xcTGj2oHsz33cARHbUAzKqo/ldUrhedkXPfHoJ+6MI1zGbGScueCJuKy1Mwjt+tlNnkeR9Il06IGUAo3bNtXSktOa3ipvBgeTtW5OwB3Rwhl5vcVlEB8hFOz6wVIc+HfzziVjrK6HhrPgE1FGQrprT547HsrT/xkUdMKQlFtvwF+/ZpxNSqzecBrFxsuURgps13OOAFNt5z9fPCO+K9cIgpWkh2OnSTck269nVRudUSRxnm1tbJgg845Y7/fFjf3IMDJZ0cxJ6lTkKOMcW+RFu94xiDUiCi9MRlzQNiILC/SbTN6N8jlN/z9fGgsMyYwTbGrwpwhzz+aefNn07CXzJmkDAgPffZp0m8WF3mLswKOjkwUBRsy8kb+Un5l20aKkm9oki+nMNZlJwGicf7+Eq6GGYuP2QGmRsEIGOaiK7cUECrticox3szCYbh6LBursTgO9kI8M6s0uSQelOIJ+pyxOL04RmUIrjb+UGAhFhjwIdyx2mpOIwMnUOZ9lF3EQBT0f978KIs2w+TudX3q2XHQXpU7WigXicUoQCD8fU7AoGa2lZzsijeKzPoKnmeHxjo9bg8mnOE2bhsNli312bLpre0/mc8B5V9xT2n6jIlJs6RPJl1oXvZsrzdXXeUjdeVFpOc3skGUFLZUIRHwysyKrumdki7HxcDyn5/vTCmZ29pL5aZwkDFA3X4MAidSsUkSbSSqTe6trJaRFJcS1JYIe+HebcHnoEqefza9/ou7rE5CveI0t1U+FuB+Yzfr3GwnWqHn2OMXhURZYwj2v1LL653M13Oz6YBM7r80FVrHQsLGYMkeGwZClCwT9ViTr4O6ViLEUo3ngAYDiraT8qlxwYlFYEDXQ7T5lgNT4lnDJlBZurx6QosY49EphuAw+KCMpA9w1hkLL55CEZCr8aSFbWLIW4yHtLfkInkiymXoWgbbIwadPlhdr8oONLhLPbFzPsw04Fbfi8Jgco2Z1DsYv1xyIq3VFiJI4URAZNuu1fpH4KQk94CMjdVTnVvTm1PSJsBo69nO5BYgAJAnS4EnIQN0c711qaLzifPpx5xalkKR2sMGMrk2MaUnKYiNTzbCCTJxgwBsQyO9o+IqhtwZNQZ+2NIWVrSjRhqRjL1leWdepmRjI9Cg6X/aG9nFnJNJOTnyoiGG73AoO7foUR/+Tn4bZfVbydtnniRpeYT+VfDbE2lDsSw8KWsts26euLiKYfz1s0AuJBAOhzhLVOSWV9QrSsXELxNYcEg0pIKfblazDbckQVKBk8x8EbV1TNb7WbItDZ8HO4FMY0PTKCp9UWFkdoe5WEkIZx6n9KOAkpLMadJssw0XTr0ouMj6gLitaUJHg/9K00GkNWbtKVlirJTzZ+t+65COiGlx7N5oet3Wkf1ENCNjBrTEBljmPJeTx7ugSVjHJFYBSYNt/TyW1kPti4Z9L3ka4W+EPts5IiG3npgiBaOFm1hNCp+ws04hXVkLaqc/1lXNk4MZxOVyPp+atHnbYJrSsBj2xdHwCs0w/UEhJ7ZY/6gyRyWjuWFAm0/PvL8JX9lIJJQ6qDRwhAWlKZO4aNygvfCWYXuaO910idjEnP7BbOx3rNfSDjylptJXfQ9whlfqtyClGA0nmsG/Hr0MatHZ3FFX9ebQnHSPMLamWep9pkqUmQU/5OF2uXvWsjziQxa2RzM274udA6sDoInFdxXeXggkfHQ5bUPZJcV1ZB1/zhNxGHT9TdQLKPkCL/KKAGGtbaC7Qr8GVb3xZVoxvdSDDn2aOA7e4kPQ72KZYAIXaUcXfcuXhkFmnJnHySD9b5RPclRUL91oTMrCQB7MjozilPy2/n7vuVCgkg8oQX0dEvlNfDg2vAaqXHbDWzwXCo41YXAZkXgxCKD5qOaQBW+C4Hr7mSnQEO8Z1QzKldAm4uNVfFGvreaSQ4rSePOFOLTsFbgHU4ccLqZ28EBXY1Yt4hQmwrGqdOWeAybXM2sCCJAAN4ic+T8LvN1x41t4YQqVzjS/fGU2qHRJcM2+CkRVeDxq9xhntdBAqo/qzqmSctnUXWndIOsCUsirZDYSBP1SOhfIoOrA696B0Ogs8xrk/SEWhWJ7aSlqd3oRO+lo1h08EG2CyYqzX/TCv2RoE1XCzcAUodyw5m9j51MKwtjv4GuX7VsY8pR5advFQM64fLZsQqLyDsYJiLxF/iFIHxaNIqUbTTYwUcfPf8VwowEm20R3l8aAjuNxbgAIk3bzmkMHB8YiFeKcYKIZ2SeuN06myYCmkY8SSeUAGEfR1ygiYzno4gB+8p4emTmVBL0eZ3uyJqzmquJG1eTohr2rfFVZbyRkbps1cXjOMwMhMzbxc5u5FYssac9N7U9NVxQTgqRNZW4KpFkHF/JrSh9u9rW8YuS22qKTvCkF0tJzRgMWQDFMc20VvaFNXBMLJAaYeBxb6x8YVEPZVWbaKSHouDxCIrTNCG8VIxoLIu3R8afHc0Xzns52t/Y5to55vumbz31iklv8cv268f2mfJXjYT/pA9Qr1CDZ200yPvURZOO0vjKGF5DnyR8QpWotOdA7xKbpWRPaGuaguTxQuEB8FTZaQrQLMqvcBFFVIR4LdZmJczU6kSv+50nqdsH5RrlTAiME/FoeHXRYlaaPe5c+Fzt5LaZX70UCC01unpONL9md2wRPn1+zYjyDUE/lUB77gkO/VKLMETZC4+9thlh+gBH3ZXpj2fnXFlbTP3Oy0NNaf6VfjRS+WjFCJSJNjMbMeW8GmtaJLwWkGoX216tJcioSsrYoFqHGvYToR4IFpX4hWxEanyfpN0GA0gvJ5qnnBl+2Pg3ZffMu0ZtHt4ag84ZuDaqpgdGxoBztFx3FtBUjT8ZZzh8a4c/sy1WEv2uac5AenIa3hyL4pZjUPDGrghIvyeCf1thJ0j9RyiJHOJedKUPA11aXWJHeCU+fvmOwg4ZDXbzg88B1v4uOqveLZG6wYxaui+CbJGhcRMLQCLd7Yv1/2NS3UP0sG79BldmO2BcbrnGSAT8djWStek+K4FS7gbu37ql2izeZc+x1nk7U4Eu5U8UhmD30X91p2eni7GwlJVnS+a+uxgulDP76yHAbbbxkmXKuMwww9kSCKdnyYgcD5OqCMysyk/ySRnwzcNJSsJwfG+MDZnRI4Av+MPg7veuR8f++PY3cd6Z/36/uIxVCDIkSIoU1fw93tvy6nV+reLG5z6xd1j7gjGNKs1hdS+jPFy8/zCxRveZzTH72PQ8txAtO8B7J6o/SIjBFp+ZWFgmj/2JEsq285RW+45/OnOIzKBdZc+LDaeJAWYhqmnUmGbm2MXHwtXloQIRq1gFQ9NzJHTOnN3VUYVQk0yqAONgc9gcg7cAjWTs5oW7anDNR9KOLyySImASd5xgY/GouDUKQew+UreFHhPUrPr3DZGjP0XWBHDyw1drs7y2uQFlD9ceQHgUxALBzVU+hT7A/T+oB/gc+q12VLK9gL69nI87lCw7Qg6N5ENhghKZzf9jcDf+GhDF7cYWcs8VE63lXO0wb8S8Gjp4N0cXqx4FY/daSBfWnPtl0JXNsCpPmLR4IPC+TTKyK/fQg6hvJrS6pktm2pb7JdTxf9dfUhJsdL4ZVN47DOEgUtZfSp1RF8TVEOJ7xG7Y0ADyW7ikA6iwL6tqZnhmDZm3pdodQ0f08YIfGQdmO217eqprTKNqV6kcBc+Wjs3yv115A9eBbkr625HkHEoPFXcw/0vi7qmYyZu/xHn2ouZx6G/5NP7eeOwpZ7F0Wl3GgAn4bMvMQagQUE60Wxq82vZujHtTjFSeMi575+OlG4n6HaVOfxcin0iqEkjVPgVTZe74Bz0H7PztcdGMHsz/fA1RDSEmWe08SSxrLVp2Nj5wcY8yDShvzLoCd/jphmf2kxeUO0di+klQcIzZaOhxSQRIuQNRwKAR+Se1DpyUon4YdJiWOWvcDDhClTFXI9Ay2FfGUdKQ0BVV/vu8gJaUFOUyykKPF1D+SAggnMm2O9sz5PgkcFfIF/KdQh+/oNUcVQ6pG/zjH1LtSWNtKV22iL2W/tK3/TkKzZ7W5/AxAyEN69eKKLBu1aDr+rIE1e7Z8gjk1XlTpItjb/cs3IjkOw4g4RIS93hd8SCrYeDGAH/hUrImR59/Q49FiH0eRzPn9I9Y0ApoHT3Rci+pokvztZn0yv+B4+PFF4WgylouPZO1Rit1kh+LBUhQNMo0e2HmTYn7o3/+gn7bCae1X/AhhX3MAfT9naAmcbPYl6Nx5N44Xwlj4VhiNimJ32BaMpSAWjdmg1x3Rjzcl0IC6Ga4dqXn2P6xdb5YfKs4psv838ZSPDLUoupoh9mYC+1S4BfOBUmk0Rp2Gdo/X+Gpm/+ankPdezWqbVfydSEOKNkbJg6yaMotD2G5BFScbKflA6rZo1c52vFie5/VP6bNDrbrHL6tWU4ETHHj8TcZdI7mNItDfMwMWL1UwaCMgXWNvyhFN+rUDGbDoJEptgmqsszk4I4ceTdxWrwm1GT4AMGjp4i4yrXpAn6e6ZRZnQkx/wfBvF+RhRvclvTxQniuMUhDlCP9zB/IYnxd+fcWc6JGQ1rSeMagrIurisDP6fsANqKnMxqM7f2KOgRPiM8qjjZRUP4IOnAtRS+sABe2B5fh3cooCQRbheF5q2f6MAuoNiUNye5wOCXA7mXgk5wq2IT8Sy0Wv8sP64uIYnkz7P3MhP0asmk7tIJr56jOYfiZRB+pMu3nmSkg36825Gt3Aj0TW0vycmNVBD7pFemRwPqeKRqHxxfenEVbl7ooe+AkcbG9h25Khtl2ymNIsqmBoYfIaQo79UwqY6T1+++QXED8SLe7nprjJWHTTejTR+LrpgeA6Q+UAE9/lrw7IoGGosF1N5htsNET0+xUiffi0Pcr6RFgart3XNMMUD94okBO+CXQi6dIZB6SwPqMSddKLGUStTkgQ+5jVV5TCUyTInXlyvpOroKztwp2O1y+9qhPmzUVKpFkKZLGY1jQTBOaXlAbL1E67ls3RV9HjBnpsRSfEk399fGJQODprtYjG2fF4Gbk5kz3J4Jw8zvVyqUfuO6eKXNM4tLjRU/uvmd5By3Foi6aCQXEXA24zO0zdcUs4EwtmsUd4RCS5ScK2TB+8QHwq+UDGt0ec+uhOVgCpUFvbwjY8QQyh0ltBJNVZpkolWS+jqhhlpy/xswNuIO8NO6UoqRJi4kB0d9gUdVPfWTnyUcQaaz42tcN6SQxEwItn/sd/5XSAdhb56G9MLKVMKV/ogHRR9wIEmGnjek6FzfM7bVDcYluL0bAmJGmTJliL8Vgi7FY/mJp2sUBJHHRIfaAoX+89VN/iesBAgtoGIVlkwYz9MuTnP+bvpiTanE89cLmdaJBz35hMFnPvyfwHW0ZWTUgrsIbsjs5OGtnVQyET+PzYPXCdPflUw5lV+PlrfBy7T5FHyxetSkdqA1fYxVGqm8ScFB/iP/v7DyXj+0coAej6OyVchpcUk3cW50A/f745kEJRTZvi/fvlXnKlLmw33XFEJptTpz/ebMAsAyFAlo6Ad8IBIM8b0sbSgwH0ySdKl5lM+VcUzGge7rQ2uYuWLIx3kRF8wT9E5+LGuR/lQTd4iIbH87F08mwA4AVfD4fb97/KT8RznrdbkV/gHQkUswpdH7R9sR81d599J1I+Gb3iwQLsKgERMIZ5AMBEkrgEgBDEJZ68f3wfFlCeu/ePWq/p3zOMxtZnxS9dL+gZI38s/jGmUMzGbTB27/p701l8eQUfXFNrQr5uiz7zonYBQUWUyOApfRdnMvInsHPAWikziWaKMOphgG+gVl5egwv/so4URBKlEFBvxVIHAURjMQcikcuAKOi48HQyBp9K6NMQgmdwg8iZLghynMGxn4UxHlPhQF99UNgAybyJFydLCNfjoBfdJDdjC2swd5iQDPEdufT9hf9lB2zcbvwmlkYO/HWhBC7ZDVdi+XlKChcCWMf2D+Cij0EslwKJRknv0b6Bsc0pHKZ5dAF2oFLybNyUiThMehGleTarM6O0EHvKdiAMNUPR2SG0ZQ35GlAvTe4pQobsFWZSda/i5JkEHdn7g0kyoRDzuGhJmiPKblmJghSGgbdu8QR+wo9FbqxpAEmSjsYRTFbalnMd7hyp+OadAHrzxIfvBnLR/GUxnMhmKPMycmrZCJu5Lk/jsZm8ye2fQB51NZz3+UKwXYDv07vzi3I+OwVqrbZS7rquz9QP8w7JyLo3cTAIxJUIkQP3UUiVZFDn9TeYhyYNRjXDL0QDONPCX5xZQV0/5WupotDT6mUvB+FcgcpmCBd04rctf/0GvJXYD3aQpdriwS4l8lYheuLv+OE2osg+CzXEwWvck5fi56wyu84z2xtCqo303WHZaZNiHq6wZXwpaz55/N1kgOXOQszbUe10xomsh+29sZbx/TX/8pPYI/hZLNE2yKOY1dkxwBxsSpZcM5leV3q84yZnk9IAf7UYpM9FrWYS5xuV36toE2Yr922/IvetNL1or6spb6ItPG4pF1z6vhqdhNY6VYPl0GPkgYX5Sm10Tx4fdSfuwAw0dYC1NLvdCd2+zYttJ4tzmRpyzs7FHrXFsLJ+TaWpbJcJtFxqedwP6/62PapfqQah5fSrx1CcIwvWNVAc1o8qUhGXLSlo01UrvdYjnRHaA14Bh56zmqBLBlkn3qkAJuC1cGYQJaRUwiMVtXtDMr98y1Qd4F/kl3abXTvjpdbrMb9CnxxzVolTCVWGUntc/jvQqHkGkkfuPQU/REChQ7TOoSKf5XOGVz8yDLty8FrRXMrjMZo1N7Nctq7hFpPXbjF5UPBACZXBh0+UCIU3IbYjQ4yNPdQIpMca/Cc1OhldzIUpYd5VCofgcERSS7quB++pI1r1E5/bDJJVwx8jZkwZ9hHsfEB4jyzIxS2l/zw8CS85hxwozUAHsura4qbjMoNGdWsGj/tIoNAjH3+0YOzYD4LCXS7v8J/An5icEFY3vPUSkJIbN7t6OGr96gSMzBgur2ZOJEM0mtzMR6/ZS1X9I3FJKuH+yKdCTcU2TjxcZCCrKFFAJQiHdka/teNb6q+IUHdlrlLhJrH3ln/AFur8PALR28LhGshnSMVvZgh4XD9Sl9JFCJn96yqvrZdTNht9AyOCOR3xaRHG0tFC5c1FimPIQi5PoQjIxVln9qAa1J8MBhpSGV/uQ2/+qTcAAxDgGKL75cb25o41JKQKgcacx+X9vFvn9b7KDPfjex78j645aREeb5sGMBmP4neE0cya6AGtByjLPpwygOgjQm2bbTxhDaxfqJAkfwm5seKQLwBiDzX7zLp36Otv9JxStTAbMka9HFGNCjBNVhn2aPZVt34tVyHlvUyq7hsFBitTrfFFEADhm4B0vEfmTdxK1CGXP3QRfPhY46uOyv5n8FXgQVNzG+ulN9HrE1AEPAZYOFKr6ck0nRNd9ODtRX3w2mTrbFLYECrHrOgmv740vTU1OP/HBqi9g4VuLcmqclG0UiRyP4gRcjSB1/EdRMTMu+OYLR4QQn4Ut6RRc1XxCtWWMhEVEd9Nj7C14CMN6hwQgSxcxdnoXMvslGJPP0/rhNJ0EX7KXNzTd0BXXuYpAY8zoYtYb9/f8wQqQOZuiHk+/EJVnMX6fb44SOXLf7m6mgEKq9bifoAR1M1dmrCutsf6k3sc9OXHbBvyscZs5okI8vVvZqxKtwUWAhwlVVvRWFSBXCTqI31WLOJZDoVgBIhadB5L7xPaTP+DRYU/CJUsIBMfSF8nkFwCQq14R1y1fgiFAPp//f3nCRHyfhs4bDVtM2ac7VCTG2JUpvaBu0YFcweeV2SHMpUHfuzc9PAujPAUc77PJPTl78djN6z0dLxzxCcW9JBfQP2bgbEJj4JdTg0S0ATw2lcHiCwLhCPaLERNKJ+Wf+qot8VVsz7NgbDGEQeuGILgxr0BvCiVmf82VLYNgaOP3KlMo7Ik4FOjluQeXYqlcoqeGEzOwlEnX4zX+NtvNgGU2BBk2lpoVFNIXPAkK7NyWPlcbF7tD2+c+dkUX2r8mPjo+piqDcRyR+EYBwerga2RtoymjMhQrqCgtigMqWRU/bcXhmDq2WMuD2csFfukqn0n+kjnF61sfieMnc6FKA7r0aAVs6+5HtAuHwYCVK4hRg+IdYFYi0LQ/H8bTGH6FLjvCpQ9sjIiAANwxzJ08to94M/5hG8V1vnT7P3FnvqqaN/PuCiaLO3E4h1GVMbVw1EfkbeiItvUGOysL/FmI+8dfTni9pNt9I2LBSE/SvmYteqH0Z1XwrZsOx80jaIngkH9OG56Z/MEOia5vEBmt3RZLTG5pORne85+Rx1buWKb8Lb9W5s05L85rOsRTrF56N4vrwcsjEiJtWHVN6dQcgUdxUCJHHbd7mM+nyd5l3skIV/AT7Sr5XBgN12VLjrc0qATOMXaY+opUuZbIH4VQbbEYubZ9dz6hKctiGfmG8su3Qj1ISw7ooL3syofE05/hjw84ac1ChTYnlEfSsZuSprO+s0PSLc1WK42nJwkvmOzYUACSkUJzjDVzdnvo4lkYQEcWw+UyR+PCD7FBSUHG9yFxwRss5BYudtKYTfEtd+j3ipjPO9TUt2qL3ridYt3UDXsn9b0Vlf99ERpINt8c8Nol3by73Y6S/B3cEtZPBuIen111IlT5CdW0cSYnIXXsvsrYJPTGI/4UPoQdDpcvONxM8wYzJJ5T9uo8i+Dmr770P37UqjWLjtgcXHUbBLvkCi3fVDXZEujx6912ljDRlheAkNuw73Zz9usg5ZLkLjyfHlII2Asj6vstRYu3aFC5f85vnwdpkQaNsGPUgrfESqLMutm7eH4Kq6lJDXqQ1LwAwUjAJf3HpoKik/7MXLUw2N5n+w42dgbG17HfDy13w9FImdtVmGdksUw7CdEe1U280qGxwrots64j7WrjbDO2BA1Dyq/hrek6+hYoACbveQWsonTVPpTPXHVwm/qly393JJpCmStcAtGzhfye1hyquMrr1IxtkakBxq360vOcVAeN3Vi89Bj9trtT5Uno808XRFrbITcooa7NjAUzNGk16yBny8PAdHpfZStq30H/5yKUCZZ7KO8Bwb8jT/AZC1/PqTDZ/3a6qfNUZKJEXLmffsaRxvAOO2m8FR4a3HnP6YBbaK1JgO7eW8zzL4dB6q8PZMlixvXq05L1y+dlS8OpVp71ZGH83kyx2w7u3S9cNW+xsXLjI3iow6oEcCd7StYl0QjXHZt1R97r3GhRNwIvzgIbrc4kh16hOpqrLoGG4ya5W/z+FTsx5Cvz+Y9XpMVDfemUs1OS8gX7But9TdgTComNuuQdwMQem2bMEtIz4MEY7FauZlBgTYzm5DHQEeh49fcuqefaUPq/KwYK7zL92t1ROp9tOH6tuNDwQ+ho2ToP48Yk2oB8I72gtNrIQ4EG/z/Evz/UxVIhLKxxnlaU9XKz4m/qrqUBYH9mVv0zcDG6O+7lxAR+kbPDDSLOcjjS7W0Pc7dkPdjIQa7NngWovSmZRFkM+P9BF3el3/GMPZHL5UqK8wJZEVyiOEscVKIPUB3/0cL2O9wMFUJGN6GK5vJbY3hrKWghOcjmxecYeVzj3fgWRTrGM2ItzYLlmCUbFpdbFy4K/loaYM/SwT7+FdTeyeEcwmqsdHnYePr1tHkEXDrTxk5MvLuEtJdU0dO8yyWRNYoW2AqR9YcIVcDXW1k/TQYdbMWHEvfYG6CtIAevJreERSJRMXa42UkiOR+1ys1wPOlpSc5yoxgAi2lT0ZtgxtQjwoTE2xngiPbmNkVT4Xnezct+D3aXO5O6o/wEDfu7E8IRbqtnshVm2yqAVwxpJcHdI9/YNt6tHPWLCziVT7sVS6aSVhYiUFdc+PFiy6h+ylpxyA0kFfKEisAMA/DjPG+ZbMueTLBt86g4AYGZnuAOSe6MYWEuCkZwim1dh7Ul3YAJG8leZSh0RLkI2S7TuGR+Ty7hRDyBQI2vp6Wxl93HVyVvfogXeuQMTKwdkx0oUwVXE4Z3XH6aoKTkQf4hFpq5qrhLTz0dBNHKOxKcl5FeSTssHdtcf5iBreiZvU9l7vaoPVQwzUAhlNZMevP+nK41n1Fk5jMnEY3LyUMZHk/F15rBcFKmy8smP+qD6ucvg6q1b+PdU6DGIx/vTeyHzYgQkil/Sfn253rtk+W4xQ865ygK97tZkc99y8JGNnGx3Ynj/NtepdsoqIl8nTfTYURElMGGIdssxAhPrH1eJgBJPhM/yeuxjTkPKLQDT2o95HqmCcGlMEcT0tbkOZlGXXfdqJ+jMeHoHuldPEMvuZvHFw2xebHYjhmJ2CvBLYaAz2/Rwby7uzCnhpMsnVMJkVbRFpS3Er5kBDvOP4blU/KQHi+APmQCinE77GbDsV7PotwFk1GJpskdu/pw3V9nhxo3vHrPokMlARNYqWv/Uiu2ro/a/GgWkViXG4xUrI32fKTc8c8lKSefBithLFBL6mwFdSyRuepTHHQf9eEaWfpjjyUnHFxtSxhjz4fIZaSBecbNCJLM6hDJO7S/Y0f54MK5lohj8R4j6/QRJKAeH28IJpCvztFkPg0ZzLqcyXrpidrPHxvPK8brgnYiiZenahtFxB2LPqOegQc9o4UrZ5kvPRPRkj2ZGFBcwweqgc1JQml+viuYqTIe+K8/MAom6pVWeblumjv/7RB/M6P55DhDb++W7+CvJtK7dhCfqO5Nfhye4cjUNlDdi+WeNiW1INOPMq1ivazIVvLNNwMh7XbN4M9su2vu/vP0mwiKw7P0s/LEug2rJ6/WlyQWHZ0PUfRDkSrJAIpCY6UZUox/BK3ibbzkboN9v88nYxWlfNW8R6egzZHfWMTep41jSbHi/eYzCmxPh/uBkJst4CBaeukEYEdbMflvdz2Dg3SyWwjRZ5viYPZJqErSUWY18vUh5dLCeLyTTwYbwqYangH6Y7g68nIYx5Qe3FmuHg0Hsaihod35BuNpvDI4nVChfVbfb7zgkEoPqBOPy2RzMTo/5EXlucqcNoskWO16uDSAsOsQJNO50ZakwcgU1tBYj21N+aZI2eWekjqMawEDhmNYUbWWlol0JFEruUBfItJlGt2S0cI/mIMxN4SgC6JC/AQ42EMS8/k+cNvTlME6zvQ1rEEVO1ui7EsMiFOpai7itrDgYj9bXndeOMNFYz0fKbwn6yoKz/Ej0UAnyfeACvzRAeJNw4rL2hYl8ZMeU5MTpLq0BnCqFYecp4cW7jldojWbxcjLbEBWMrUeCBGiwkf84doBfGhxyZhjsOFeA3WFNmS4ST9Qpscx40sUXmCs7cO4AodahhvbJwhh36/qRXo46fZC/VciXoUP8dT3eFf+UscZZLwgBg5j6gj5MSM0MtTtfHWiUOAy4zZiETKLGJxL1znhfbCEAvbtpqSsBYyXSEzYffQ1fu6pphjG1HxEAwEAw6vn3Om0+VSIeEpHSiWdLZX6iSbfBrSNDBWt4qGP5cABWxCueW3JySAK7G2AwDTTgaTGlYHC2I2HUKWSn3d5SoVwiGU2V5SvK3gQ0c8Ad0e71BMF8oM6QfRXrQ1Bjyz04N1inbHRQkf4AXaUS2Bx6VWOcd7PZGIgBN0Qd1MfKzKjVxqIgu9FvYrF1PPI4GDiCUvlTtOn3zDqwziQl3OQ0u7S6QwYHd13sw6e+EfJqIJdoFW47AsG9XaQ2lXhLcBle1p5g1ZCVWBtpRays60U0pVFYg3bkEgV+BPNz2MpXJYaMd6Sp9lwGUuaJ3UhzaKPBtUT/lIhJ/03g99PGto3BkGHlWfVH0xdN3+c7NMJ9vsDjAyP4FCTBZ6eFySMIyiScbypUd/RUoy8f0h2hQnEwC8+X97N3di7HZ8DeIFQPMimNxne4wlCc9QK86gZMdpxn5LSThUs1B+N2KedYnSwiAVzROIhrg4gpUmAo2DXO5F4GMp/4p6JaMJT39lqQxyq31mVjfBrPER4ji4zi/KAQ1Eht7YkJwCC60oiIEObOSUsVZNsUK4wKpF0Ze+R6sHCABn7f+KViP7tjGDntyZHbDKS1cA87LL94ufmOkbeF5DG63z2DWMmMsCbNn28ROH9ZN6pgic4NaScO169GzhunJI/HZ47Uew3BFIrBBsw8EUiJO5uBCaZDL6eDX9e2Qffcl2Ft7y+UBb8x5aaFcGjrPMkW2VdrDM2tvQ4Rm+XdvqEVCU2fnuotZ9NmV4tDh1lHEBg+duq9lWBZzovv16I4+D2HD8FVJCY0c4BKynn4Js+5X2ZWSofnInUUGXO/d2KJrIGLLsTHbgZkujQ9Wmp2vFbLFx16TrieWEZ6GOHMRZIkNfpqlU+jwzK0HrG4MW0tpB+dC/bnIvx2BpBU1PakJU3WFvgh+YXhIOuSbNn01wGwcrYbxdxzqcL+xdUXAh1bVB1WNWoCY89CRSt+FVErXw/U1xKoyN20pQVXt/Gab1ipSqhsQNoKcjf929pyvtVaXgh1Otr/Ik163MzeCtBc8Vx69gOAhTSzQo+j5eCUi6OKCm5I5hEjwOs2+qB7jnFwk9M/cpBZuoNnQ08858LK53H46k6NUCGgCQKKoT322UuV6caOkDZKQ7EEenPl7qFgtbSxw6+U4EVMH3folgSYA/+AcNI41sG7wjhTHOiGYryylWYoMz2zdZayHlovQ1CabsRUc1ZrOoaXIWkDAtHPk0LGwLS9fCH9a1vJ4gMrLFOYHOGpXZWUkaWxOwScA0NQLJ962MY2runWG83Trt1Y8au9Pts8NYr4M3MBLfWDJ2LNW7FwQcdqQahmVQbaSajPvxWfil1Q+SRioPKnapGLAis8DhfZj9LiExl2Mcj+Kn3WxRNt+i60FoLl5ridjo8S5BjEIwk/kOaNqObV6Mqc5qbORiJLU63JwHvSnVWnCiCS2HzdcPebRB5ur6VhK5hu8jCzS4lU9/pXDIZPQ3i5g22mzKyLbh0jJTluiDfkZsjPigow4pF18BGEm4h723cEcOm1SxFdrQaCIw62ibmdNfuaivRCLdRi8L8Kux0piic+9RQCydA4PmA00/0oX4JL6N0GJHradaFBWC5wiCk+V5S7HI7p7IEs9gqRslVekhDjP+YtE6uTYNI9wH0Mw7eDFnyArc+S36NHHkYXn0CkAOZHtazRjH6Dpff0v6dCCeYDGhVyHpaY4NTTvHmHp7BOBoFChmc6SemyqTAzaBrOQgCTVMRbIeTBQh5umKe43+HsY+wTX653BOHWEuwt2VV9GrgOhjF7VI5IoRnnK+hY1RCvKf4BypByh7JOi3YK5HgPzlI+fCyYXmmKApTuGEOS2VLPNFPP+vJ0xrpvVLEb26W57EpFEevtCQOpzCJrYe8ZV9yG1S5pksX4XgJDK00e/8aaK/j3Islfbkbn2Q91eBoPfa7zMH42t4Nic+xhIHq06+aZ2zvgh8KkcI/dTNDic0W5g0L3dfOmXHx5PxicolMUvZVofMuqSum/CEi6U6/aIclTO4r4bBCS8Ge381mjQa8U/VvmsqqAIeSoZJsZVGk1OzJ2B0sDdhE6ouTPAiuGyzGU3ra9CkxpzdyFuBV4nfM6loSYDk/iEAF5Aw6dNgMDHCcol6NqW9OYOFUKFdbEEdtSwHQHcLUBdPLbGi4xlJVZk8l+UMoe3oyYlcNuATuILg5O6WHy5KxG+ErDK41ERkpjVzUZ4i3KgN37+IEZWMW1wYLoIkP2xkNOzAnkRBr6A2BW3qMCVGNSSdhr2V8WpG15RU+Tu9XXdb4jfH4XwTjJ97eyrOQqO5KpmowNg8hrD76XZ39/VWhVbtdty6cJMRXif9GgGOtescd/l91fLxwNN1RQQCN0sguInSrCcgSJLizK8Py23jr2pg5YB6Qi/1MvOsUDwzVN+zRhFuE7coTlbd8aytWMP4iJReBpih5Gr7Ckldiv53RgL1pa/FdW26RTUK/smsIpGNIZUzA8CKFvM54AEPUzwgzi3kjVz7y2r5gZxn/wVObGH3IhdDxJ45U2P7kxn3PZj6CSppIsd7DgHwHKqqbHvKcRRksE8WyTldIKp2h899sDaXR93NuCT4y1m1kMrMQNV8ePIZdLTt5+29y2ty+AiEyLSo/q56M/uOhaMuMCKOCEiX0IA5IrgH8BE9ygj4EQxDg7nM6WoRyszMRibDn53kJtV3LELgKh6dCcd0y/BMNZdP58UHvbCkUAsoTpq6WKmJ8knAovSFG0bmE+D0XQCrttjQTl9gKzCFJY0bJJqwZg1cD6YXfAs+/PCljXfWVBnGCZBvgIp+fnR6rjM5gpdzfiOxWGVWjNmZlSwfiphfk5nVx4JDgX1jzOx0PZmeY69nluSymPpMDbAhGEkUBDla3/Dfy/rLEzJv8KVV6IBJ/Ke3F2lAcHcdb9PcHgtxafBwnsnigmaJQ9o0IuC7O2KeGRl6ozizcwpIM60KZzIU0xyn2M7PWrDSRQRInTr7gQ9uyHwwqnpvLxuYupHj8m7kVzAz/9H/vNX6frsq+lRDaOGsrWV/fyURmEboI8OwKRzOdQyTYHjHrYQVam6tEBxsIpvRpVLBjcul2BsYl6c5NHU3HzROqR1oZ/hJmJb8TGWX9wJKUmwBvUi7G+2k4lNZ1ZtaopDTuDdMVYIoCA9/qoFl4AxSyaMyJ2Ta/TQjWknkTHldMRY47m1jhC4EHGW9Fu2mMFjBe9eBAoDl53QZZ6fDHonB+eYXqoWwoSOLvbezCnwBF/DpC1YTffaT22dKk3xT7HQZI8Pce7pNm1c3/3NSxskHrByGrD3lFB12bvgtSogCyxblT6j/AeTW4rgaOi6MAzBIRe3jDMebuTBgfu518Cj/4NqM2LBuh8P4zmsE1FwRqejaV+IeSFOEC2CeOFe8NFlREb6yd85809B4PAKTNPATgUu4KPngn4pQIbLg4uZldRAHuUQhkerpwSQ+L0IpjFQxoOsw5WRLtmdGlLKMot3FZeeXrJCUPbI/dxHhF92ffs2AWQ8znaYQAxbOiiDnm15Bo6KSnMwU7Q9/Jy2STBQCPYbCV5LoovtQW8L6ShscdMAMhb+Arjn3LP3vP9kwmF3oUSwziic6WtsH8LshNW8acpsQyksSvvdU21LV7SNFUOpFXaFr3l71eFsJ9ISFphK3iU/2O6Ow2+TsMbIThfeQDUj+Lg+uaJ6aTCuUPSXRz/Er2LduJIQdQ5CyLcwzUiM60PW8Nc7PxCl+QoOP1XHM39v9RAc92r77RLvD3aQ0YPmHTc1oBn/pzheX9psLHiKZ0X5K/9lNXbvx+a/Zy6jf4s1CVSejjZYdE7mh1PMtEPhKCl+9e4vX2g4Z0FwWzDhUYcBoMEH89ZVZuyNWSunFfBTs0oNx0R5G1Ve5SIc1gknHyg7k3pYuTCwtyboDutYLIUyY+VsHBjx4nmQM/BzCfbl2aqcBw3iZcIWArGpWpUQ0oYzX69ZkmUFQ8Ej4mahZyW0GL0rGz7oYF2olJsL2IryC49tH+DXhnKX1pT5lPsr6MQzTGkukPyPdE+2sDP0yOWTvdTFYb4awbWG7qAnzcR0atKpRNkaIJrAxEqqmy8jbaK7jQgEY/YhTgj++u5aWiWxSq2PBsrZY2v7KOepfEYifc7fcZp3AnZ4iIX7HFRKFB1hMNS9qIHiYvLK8E/VhsWo06eJvY+ueUrz+mG32S9FDqGntxKdLAPJ/9qBa5kWr3g2YsLwAGxFkHfOOyNzzD9rC3hOrplYJRdjPgUBZ+9ERH1HYf8Sm2g3fbTbcSWSQYTrx72ggLywhNrBULTibQcfYLYr9G8qD61d9QLeKhb5ij+qf+PBWM7Wi3HbhCW/jm6CQuhydYEIvJQhFGw7Yu0BRwWkCUnBRhG5CiqEWwveu9nP14+yksra3XKxpHr1i7zMrw93FZFDfdDtazQ78szNAEHUVgoyXgLG98pBVDxc1MlJAVAHpU7WwDE2zeyPIH4o5Zua6TBA3ypx8BZ7/wPiOsY9vZxgmS0ETVCMapE6pix5L/BUku37Lth4b9fLIVuwyomBboCpWPbg1wrKQuSF2SFAoVdBk1cSJiOJPR5Q0OHcFjmwbO2Vlqnt6CamfqiFDDnxF+eEg+vJoKwrXEJv10vvFz8gczA75uyfKQVf8O4zRbbeBH1KC77PpBcB3VspE7omQAmG1h+r0T51tCIuPyYIgAl7ibhp1Rzo4X8pwF18cQw/mHexkNCpBzNVVSJNRNZ7SxG6xcae02xKmywM+616uKpYJtQuMcVUh1jclOWuMPcx005f3d3fSlMP3EqFYKEBc6ARxIDFnG75HCv5D8vws5bPjNeJTRun00xpX175maRLYRI0ExYxK7RWQd4AHbEkBA+A1J2HTF+u/XkSBWSLb7QUVWJ/RR1iWfawxB9Cc+0T/8XBti0hsyuccT73r7RWI+gSmfWKiHCi1PkEcjgySzD2wCIoXFNXTdguKX58A4zQzKQ0mYTZyo9g2IShjbmnL0KdYq0NHDF0aZtkzFYTmNvVQ/z+pNucYjqFO/25dkEbObQgSPCV6aPnp9HlzyH4xujPwSHvC6msHWEwwhMbvEg/nWwFSMVoDPGDGqwY21yPTbsUuKztQI8WSFxfVQ6KCzSpq9w0Ll2twSmhphtCiNkcqaQE9EI8IVZsKwmdblqXy8AK2o3ZNZI1Ejs49eUSu7XBej9367zxJTcyXS+P2KBT+zQj1XHiLg1oc/d6RN2RfEYRwHu564PvWkk9uuiSH3Xn/ANDFU59pB4CT6AN9SkcYcoTStrEwdKV4j2aPkNOL42ml8la/lF6sLVHO+6DdQSsQyelN4hPEU18R/l8Pz2I8OYeHCZKSlncKj5cg22z4fjHMlVaYkTieLiOK68BB2Jzv2iRn8swvmTLbKqUJbgIxLJ6xADSj2u0zm//o6La6NRy9TeIdW33rTP3W+bT0lxlvTTyBcE5bRPcxYuNnStNdRcIlUKo/a4siofFQBxwDP4rAkS4AEIh3Ntf0RAnIm+diXKt6egfaRWIcECQE2AsiwzAELV7T2t5CfLDIGRu3yhUMNDN/gvuS1oyvpiBPjBPV/PVTQ9lnrc0cJaGpLEJNGI070cYRvEcjy3u26f3AektodmVn12cNqHysKMLSmSS3boS0vOp5LvX7PBxvUQVRwd7oZ6NXdDhJdirJWr5Lw8IKbjfULgGi4VHMPWHbZhJ6Pjr2n+vb+hBsrUpLQRElOw0JFpPnw8Ax/lkSngQdEZbSONk2XotrKe98nC7qNSL2TAk7Pk1Hn83wsG89X/JZAqmX5/XDhuylw7cIjMfGJNf7nMpYXcx2u2m/dtWGuzukKUeGLpJPEU/zslzVPqa5yOIzER8Bj7Cbx6X/gw8eKB0peqHsjrWt6gJoYHQpHKXPyDt9iyt8raRAF1FZfC5dWfjfoaDz6ckg4/k+ZyXwSgXIIaJTNZV6t/1na5gIlTwtjfxjnzKYI5pRHKJTpezJRKC0KoUBDtayrhJqPwpHKnyrkJJ1qwK4hGQ3w4q8mSDTDrdZ2184J9SmQeBymrQmyos7Tc4g7fucgQKlixliXNMLOwKij/D7VKbkIRJ4enCG74Kwpf51q2PhgeaY9t3eSqlDlCOF89sT+iMFNSGONuTVHu1fAYvdsRGniHQvKHyGffbBowGhD4yBUtBJVDUDsuSEYLjM+unU9Ie73GAW4xEABjhCjbQQa2hWjYne6D6B1PALcZjciQMjNb5bLTarcyAu4+cqLHhn9n8idaKFWJo4RiUaPfNzgMkeR3aN0aTPQeFzoDc4hJwN+S3hq9c2n4z1xf+n530mReOrSHyw4oVuHuPV1kdIAD/6Z/cZo1BkfiQTgRQS9onpcocUC3HxcgE1hQdCCsbeabAusOKZN7CoAsepgsxTylQBFniPoKs5JLnT8BxCFTM8ZsydRnEBbBVW3qSb2Sn3oapf0We07NN/cN27ZTx1ONfGNtNMNFn5BsaXaVWIqEKuiy8orMRtFNpAYG9RpQ64AGwbZBoCbdstx5PAckn3qhZK//tJVRQR5U54fGCeWdNHJFBHEapwyyU5iKLHEOexB6YqxWxXHJjuN6GTRhVgDVRSGw22KErwAQGPOMQdEh68mMBOtf2e2h33oD6kSBRdhtEbNFYsLrDu+tAjJyciJFAi4oN3BT0mM1FhV+SROukkJmfNmrFc7nNAzdjaOa5rJ89u+fpcrENtSY66viwHdW0s3+G5HSFcLS/Fcun2WdnE6bof/a/MhbFOF2zfPuBfgYyEYvQ5NT+GItRVLZanf11Ngf6M8HUbgGU9WDDnybsSs0jpf4cFU5x5uK/7dpZy02Sp6kOV9V14oIPAYstc9nBGThOUyFnPww93fGIGsrjUYDynrQ3OCkuoHoN0IPLyXGLWI6UOK+YvNoaIzoivzVpPaZ5vXQ47An/84/SPmLdWC2t7NXdYXxdg+1j5MezkKnoHkiaoyXNmfCv6XTQHjPmytza9ZFW4hOOy1VAprpUeema5iiAEDFOOPk2iF1z3Koow10qXCklSNLbQniSq/+KuckLJJE9OpioyFt06oTpgdDjPrt1kJ/gQ3D+NBItYxkiLU+7ZKd+uIW8zeMxXAOYq6WrzkHQxem6iyB2UE5eVGNUrqEravLvcrOQbmhlopOvhzhKJXUBBCt1s++tTIWCoASP3wvhtBZr58/eqlkZA/s/CSk8LCmxPvD4y50oaE8FJOL/3wtOPa61S98+8J8tAZ3bNbVblsCetvpvytWPeOiOVtwp+855Fbxk5dY85PQ/An/HpUQhEqw6NThDgffSWWbBdKiXxlPcEPTBdVCPCGERVmZ8lZvjLJNS8CcFOVETVZMZYBXcdjKnwoO453dHWPHl7DwHjhJTDuMQYaxY7lfr0f2rJUHkSBSdxEvvBpd6Dqxk7N581NUmKW5BNNSjCA4qGv3QDGekojIusws1/Gq5VL3pk4P5WqQ19c9QR66fGRrs8FGq6hk6SPc4f3SVabLcuww5RacsvTujaEUzJOpicoU09ocOeXCZAid7KL2Ynk9L5X/1YhF27KfL79AE5tTRl77B+3njde6g7uMX2DZnvCsUiotb3eA12YUDtWLPOMqGbhqCezYbSEBzH7IWxkgcbAkdDWYTBrzqhO1egt2iZ0b4JBUqjIv3vCSIl4ePJxe1AW6vloJ2ZzX5dwqXZad/KKsYpzMqXqfc2RN6jsSpMH+ZbZ3TjsSbBDhMb2G7LKU3PpNQ1DS2SFy9S2adoO5ur/w9E/D38W8Rt6jJ19i5MCx8PCsVPtBWJ/zcck0ITNbQ4GukyA1gcDbxZiAGZNhRHnU31z+SWtCVS/E/2mzU8gSEqPGkYkwn+dsOsfXLQ25Ya+NwbIDp0SxGWrIvg2+HSKkKcy6nWLenY0XAPg5IuYft/al1s0IYco7YtgFZ//RNiQjWiRkRnv+u8loSA0xYJ1o+y9VRaTuz7+UKMmeLRb4kSs12ttwehtB/4Fo6gnz+D0x5342exei677QtOWego/lMNGTKoHL+IV2DDcqga1y9GNrJiVXKUIjoryPVOARxaVF0lmObRCOfqY74PQ5ONLFYeSAqRvPG1dcv9TXKO4lQB7MMGG0I8L4JQxIfMBjJgXNzJgV6FcQ2/V5Mwq849eFzkqp7RGwypgXMIhCXojqxMbY0SRsaFC0nAGBzF2qYlApFHosaxJhUsmhlE+o/FEl0j9FHkCV6lZltcszxTu7g3zcpJtFEaPvpiywaUWs8c0stRyGEX1+lDKeZ+Dkl8zzTYEycKm+BUzju7/GXFAxNnD6ajPVXQ2Ab/ByECg6KZDc8bVsFee3Ok5Vx0fqOT4pR94565qhvmJU0KIquE/b0e17PaR1pusfC6rcBIq5o4d5nO5ylUFkrxUCOpFvJHvVvXYclIt4RPSLa5WJ7xRe85EEwv4vI0KlT2YzLBnlSdGEeypGb460AJ2VZo7iY1FhB26rh4c8zW73jbfLz0T9RFvYXxblnbCPagOTQW+Lnd5lzPoJJ0AYdJ8q9pmEjRr1sYf/W5wko79Na2WCzwVfQC9rgU2T/K88rO/M2kLO4gF7KPSRpmSrk/fVL0y/q0A55g7dLXqUR4QKpKmQ/hveEPrDHBrCF++uS0ZI0vXfDvErvepQ2GmbRa5AQc9CUvFj2CQeK/FxHXzU+MwICwrPyHBusHXU78R0t+OPejhpWKHTbEso1OHKzK0YGSBZr927CmsRz/0aIlulCvfM3kJPVhzS9BVXScrtTi41nN0SDimNvibs7229kws6cyOJk0GQiivGTOtbV4OEFvvcZTukn1jGklAsUDKH74zmRCuUn1b3SyWUv7z08XooXmgH0o85re1nOudbxO1mHKZf2+FS071M3HnElQSoo1VOl0TdidQHJBZ8vxbtCJqTpAFTgRgzYPwjHmj0X2qko3ieen/MSkI6x8L4AselSrzSjI70vCSjSDG1VEwurVq7AvCuV94thmUYLd9qkb4RA9m2gc36whhU6bdUoloB7jzAo2mSxHvi9VuPCBDSCV/h2Q2303WHXYe6uk3bpq0rchVNioH3z9ZF0IwcbUmg20os+dLEwJJIQy/srM9MdhNKSSmWeUe+OZBRRI4jy7YM3YLCcNApxKdPHzUe1Bzo/idKdAyOwJlzfz+myGCZTHE2d0JlZJ+1KzUIV0jCWs1z18PjFCSbcRJNg68SsGS5z4Zbg7JTq1WMaq2JaiMbApZB0JCBKaQT9m9aCcZpI/JrUW9CGI0nomKtzRVrsTqaLkVmSThCSAlOcQ+rbUNNUEGpRwfZHx0hTya6TVT9iwJoV6qfg5lgohRsBF5ieTwjq9OFd4jaFgOymESx4hyOfoa261IJQCc8psrZrD6x93AaUfrLFLtss0paCdmD5uMoJHI1wGvgDBLUdMJFv+awvAFpcI7j2MBhqIXr4JgzfpHMf2W8LbQZ/Fco2N0k15m4qxzFd1ZVNEZnqt7mkNwZW84GPgJ1dmefXYHMuaL+MOBRmeNaGYK5lSHxAbgUM6fKQXejtmGcte9NxlsxikQzP3iTH4Gdj0i3RXsDcLITHJ4OZ0U/SASA+cSCemuXFevmCJonWR4SYhCTlPidnymh1tIG/tunTllUtLuB2/0AGodImzW6MeqLU6Ytruk+noKHftQemDLBDDP9k/sCqhQzknMY6bsHENXWlTQOc7vdPSJ8mLuqQiJnOgU4tRQz9eVu+cjLRqGigrLO5Gju56FYBnt0XRsLuhBXVW0J226shUBrjYD6UgEjA7Z/H0TnvGP3iQUH9pZFiTod95O1CH2mdrvLRIJ/CTl2F0gmlc2V5rVX710AppDpokvVU9y2/TSoArXBQyzVWAK4himsCUh2WvaP6ht20LmH/LqTDzC6Uc8N1aFwwB9ogzX1O0tbdhTbEyGTs/uuQyxUIsABSvNcO6IQNAe1zfbj69Yx7LCC7MntTrOy6G/ZTQgXN5DJajCbAaX2AWhDfjW/CCcRZrmWd5kIaMpZRzLxMCP530uJjzi53ubJ7aT3I9+5FJ6pk0I2OQsFWWsva3uY90VIVVnNPhh5tCKEutZTkmmBrm9Shg7qbrR0lz5NMrznwLSk8S7I2l2ebdAAZZex9Qqsztm2V8N4isNg7ouThSXSMqNOxNb9PkiQeA9yBvrae64UXpftulrSKCV0mujFsH5t1IRifvLVX5ojDmrg3GPMN9RqtLMq0Roah1dl8rJAjoS1wmQr+KcQ2jFhaSWkNJuyOLly5wr7ipMzdD1fU3+DCefkmRcdsRJ70zqYFPXLD11lKTKXkaNFsuX4s7e/VBvepsnRXuXQh9Y8mW7js7fTa1ECz7bT5Oy1YiH0fnL6Gt05Vk4rpvwFE747M7REwCnZYXLA01BHbCQYw5B+6ES3sMEh84xDmU4QAI0c9/d4J5dtL5wAm5xUQf8JRgrKLKk7W7O33+a0+h4zjCFggeSfcK6hp+VMf8zm5BJC+u2WBgCv2+BYMFMAq+4l5/GunBn3kHmvieK8GTWByBwtw+g+66yA0KRTWEWhxwOacKPuQTMECsNyGl1Lfi/hUWk26ALAwZxDIVDp0XHP293y0r/vX8qfJZGTCwCC6szcFG4k32+CJg+Wau/MyU0jINAKiR4BJGsTpq641PExl9McI7o5390ywDf7huwO4m+ZB4PxuUbrYdV13CSpOkUEF/3HLcAyp4/x3dbLbcwR3j2XK6vmstnqhdr5HcRhozzcZAqYpZLMdUCg0nWv3oeu7AVgfsfXw8hklxL+pUtTn2baj2oujlAPjPgBFevL/tbw0Q7d+bXEIm/9pg/l9fe8cG41tjado0lQm8meMqgzakdjVgKX78LabvbmisUORmqabd3eLMu5q3NwD84fW8GT1AVkU038vtOSS+mzFx1N6TaSR6l65lt/hsjY1BDB5KdHpwqSNU+e2qxxXJM8QzcPx6wN+juZQ8qnt+yTnRN1hxrjkCxaHJCgvX3gyxUxuxoy0Sf5DjxWV7BknA2ZiRzyUjaeF2uSs+5TbYCKHYAE4bSJZDJSOBhZaxhuc9UwEWnR5usvRjdkPVqx4Hw6xRqe6Sh2mhglx0JFnO9ULvZsW92ls/XZH0rU8z7dM+Gph8JKVAVkOuA9OVNL8ICrFOPyrCTK6lVD5pi+SDUMLRbzYuuH+JKK1iGIq3CTHJynuKKrBdNg1+zYvj3w2Y3C3vv+QWebkO3dWL/yDJtmD4Sl/qzmKENvvJvmUFtGTrr6/HeJrS1a5OVVoRYl8NGNJY4jlQODuR8TQDMIhOz/AYa9InAT/qYpWZ1oErLnL4tSBF5ox50NMssDciN5r8jClk9BotOb72ItwJEPtaLD5X2sDjWGFFDhniQ+1iIL+AYnU5Rju6Yrn9FcLUidOt0IGIKExQCgKj7qOzGoD9qZkIND9aAFLNeHCu2AQU7UQbbhdATppB3SYBJ9fow69XjNquxiYBw5hQ3TlLbBpmTlJnNcegx0mrZDxDjIma+VMcmr0stnh/kSp6eNIDw1/flVIpwGOBAzgRQ/qjFuMPB1SuT0JZX3gxqjvjFwJvGaHpK1QOfF9NSAzfQVZsfyJOORGecMiwgtnsgp2bzDjIHFjjmEIwhQx91YzUy59pxAUoKNFp3LeekAuvxtxvlhnYS+SVN+A9Y42bitYJ25eODcMMErQQEqubP2EEVDw/72cUI59Paftiau1iFAaoJs71XDPkJSXnuvmLalJI6d+63ge5h9i65AV54sSmJ65RCTCyrHf0ODsVHm69dS7FP57yQdq+vxvkUPR2YB1q+51BSoqDjAueswghAIlhZHUNCkEeKuCLtUVpeF/rjUpfj9mOPU/ImfTgxxfbJKJRPme47t5XTHF7omHfuSV1H85uMErYuBc2GCiUO9OZLhsjrA4vvftlQU2YLhf48dc4l7tUoL3Qn5zYeojUpfO/sMIQmQWfBcAfkOIEd4K7SesRG77vfsaXqx8cC1WIeQAwNj2Sk7vr61D8wGxjsJPXOatILe5qaeEXBepRT2yUOuUXKrw2ZFAlR0p6UMdST8SF4c9LLZIh3BnC9ouIF+G4NKpgZXK6SwHuNYorC+3dbEz5Z29Qg2VBM50xpUNLkFHIwwEJJNNs3Xy5W2XaditBYoRT+I10iS8R0A5n7rPPaX6+2YpLVxF/mOr5U64GI1PEwna6iEv9UqVVA1Q0THGPqzZHegsjDh9yZOY9vR/P2ogzRQDlNQDOyGnwLdHySkmpVP/OcjXrtXpTvwzeEviwVMnTXomuRjy13iINTxo40khEtj201BMR5UMVCHEavdNQW8xDMJQ3soxeEdTI0WR6voIsK0iIONlzWu4CQInKTzV1PmGMmDpNNPPntMmdTdHWC/btOVWDfcapcgfcmO34SfzECyseqGT3Pm2jvZswB+DqxbgUmH3wT6HPJUQZJXFfEEzAO1+Zx3rYXV8H7TVQLojm3YUpttVwzltAzoTy3z8U7Es+IRS9ALOdYERNaL0/bTa5pW6IjNiMsEb3ZdWhWCjHoOW3gD1jhQBn6KhA/Y08qp0lnTyrw9XYVaRtoKiHdr6oWDtiF+RNap3r2qD6FNiLbJ6BDf9o9Ugnsl8Af1Phop8POkv4QwVSKCegOMdOsTzS67Q21ZwnCQSQxRm25dDwMRa2Gcy/T4Hz1UNHBVfl8TG3qq7qKpH0KYiqFCSGlBESPhq1zLvgnNWcbbpYco37InuffJQws1Eh9nQ98q/QHgN8I2vJ/CVwkNyapPtJ/D0KNThv5H5QASrW45ZhOv3vmx+QpCQUW8jeULEdr+hViocN/qo7giyNe4UMr/iDREnZRc/3SNlTtPFloOHDsxXtiZtPYrNXpUUciMGZ0DwcXbTvEw+QuTYvlZXG3N4KUeKN87xR7N+xol8uaKEjfZtAaYV7Qr+QS9ZAL9dSUrIh3mS9iMNtpfqBPyiVAMcLx4oqjkxqHwNhI6iWWlqW1WOipZmstbbUoYA3/iWII+pfuYNt7yxl1hjjjbnzDpA2n/y2jCVjHhPcqDr7/Ud7imaeeS5kgu/3Iez22IYJMXzdA2pYoHe3m4yHH1VH5Kg9VSE0qx2u4PTq28W5WL/EKokxGvQt4co3mUdZ/0ccjhpX9eWj1YvVGQnDvjie0V39GGo+Vgps7wiDRVguwLEr/CbWD4bm7msy6ER1cgkjztBSSZZ4azMrTWadJbBcZuAT/2MH5dO8p5R5fUADUQAzV5xxj19xHyvvjj8zWntMexD0h3C2M/yHsqGylzAi7hmbStY2qq9M/NiDGBM57EPUryKelyQCqh7hhiLIHeUIW43Wge2j9JVt0uEQe0mVkaZ8gV5gqPGJJI2h8Wl/sgLZf8ZAyT0T3eh1OGY2x8pjwUmpNUVVftpkMgdQ9zKs3nVYmxGyOh/193kE5ghG+iJL+uH+lvxnumeXxOcbhpBf7vRbEbLNre7CSGwrG2+XxUhY5wsjIq9s9JiM3gDHpNED1JCY16TOVgaLVpgBAb+X/LQ6ctRY/Zj2Yofc8Gy+YBGMcE4uY7zEXvHRgSg8viPni39oHqm0vL5tMVgDsqkCEr51HQdzAxz3e7HTPIPcnpZ2vOQ4mXVu2cbIsduAn3w60EQ6Vu3rqedqw1RigzlTiTEsChkuUwG6rstDWjqwErznPLa5snL8sgNI+ChEr0Xjn/dMHwPxQXh0sX5HAQAsvPdaHeVrRr+57a87SuM5YrRPMQTJ2tVzUVfFuPOjQ3DkYYGE4ru/T56kXnQGKaz/J+BZvjmcDYPXEAsVt+HCLDBzgDp9XatYa8Hw9CICyMy/uV2fgrK1ld/3uPKiJPKyEqDE03US+L8vUCRHTH+9pKf7C30PIJkAoq0r35wNbqIxVTVfLXqm84q7ERMW2zeRZt2zdBe6eF90ruMgZIlBOCq6ReMj6Oxi+bBKhh+Vqa4Efcnv6tS8vOoOfJwQW124GAlXGPBHqHesATusLFigs+DnaytDa3CrTx6yHnliYW4yObEi7OJt3m7St8NM5QS9VpNLFrT3ROyjjocr4pTSGM2xiiCfrx9BoWKXzDf+f/s1fcYBIyjEAqwfQrSd/ACUpe7K2pcJQXeHXXuHePX7kC2BGZ4vbYWIjEBcd0FNARl2YOhMSOQzgzJstEEDgZPyWC8UIXzguqFUA8VivbreDD2HGv27PmwWUYwtBUg8hG1EbRoHBdSaX6WvacAMWMs6EWvSLcmrJFkdqjocPlnbZaiZvCi8rTOM4Tc0WV9ANv9BSCSzC75NHdq0ZWB7v9b0A64+1QXh/T6zJWE2dOW7vo7tbzegPi3GW1VrgFkJRQohcOu1CJgf4KEWEqdRIekUbl6la4hGLTaKWXb8GnDgIcILrSf1rua9RrWQY4Fz+OrpsVpEVK6+RMSwOyUJHwJERLKno+hfcHCZeeSwReTjRQKkAC/dXyv9Mu8i/myKZ2FS4mpqcAR2oAYstkCC/QWT+PPq2FZWEjTvLCNIXMx8ko67RKEaTrIyQmDUyGo41v4DM97dxS9eExofiJAsz2ZkgCPr4aUjTCBzAGHe73ADwR4HjMZQpWW3ebkw2SekMZtnUbJYUFMW8f4PCNVInNCtp32sbBF11LpGSGS6cfPA1Ccf416mj8wOUuUHonHvwJVtPReABr9fazex5t8EKHxjeYecQV9SaKejyDuLUJ3br5PKXVwoRdcilUlC0QeuRWyNJ5Ijsbm9hi0vrpsW9nfjY2sXy6e1GDV+Y284X9D03nr1UOUOKmrnuAD+KlYq3s8JKpO3KmI74bTVh0ldFmPPXbn+r/o1inTU+tjXvhXp+PrEdp976pKYw3TmqwlIApSLcDyWLGMuK5DxbDFMcNiPfWWVSsOC80IB+iBtRw2+uoagRU0KBmo1vrD368Ouz+38vievycgII1aUvpwjYiYqDYE9pYloATd+c9TBh367iBrm0p9VWjzPGkPyM2+ZzJGY07tFLIcHTDzfXwsffonnTJ3hf6vp+sCyl3nuN1gCTvAYOXcox+Lm0dS7+iwtgfYCsJUP3oqoA/72Cn06uyVpmIgIydFFbsBraqvcszfgQQXr1NvgwWiYbJfFZRmbDOIxtXw+WdxYeGHuxp7HA2Gh9wdET1zKSvRARwrEOeDfpEbGzzlx64NNRJUjNnj/fmcp+O4agWxwF/Rfb0Eq+xVn4U/418YmFfglcbVnO6dsS0wxbx1GHdo34/7M8yJqN+QMa3FzTIxt/P031uNC5rBqz2cs624PJIP336mzSBw2ww95zBJgubHIzbKY9OYX/Bmb4pAZPA0BLSlFN0haq1XhxlHy0TeT5bPdfGSNtIK71vePLN7ziDSO92coh3ngdfhpxWq5kSdAnDM6NGvWcViI6MKz77F/vm+FMf6gKNzjEJ1sL79VjU87VdHvjGLLcGqfg96z88xRCqz8q3UK/xDCCU9u9NLffsp7HB26o7baZzPUhzZLESAFpinBhxf2lsov2jinG/zKff4IieJHK2pdS/qhtN62wjFR9eCkC6GKfB4k5VWl2mtl7HnAUqdacAbt2oO8ynAFQTSvxIkU+qmsHpVt6gkp6mrhGWS+A9Jri70lvhyUftQVitMYeQkTF/JMUBVqPFIMdQ1ENQ/y+2BywomGsAoJbMfQrLoqburhY++keVF/Y/A2aY4hrBfU402kpaK37kKvlIe04xYRGHtdtRzOwkzH9vHpQnDdEEX7Lf00R42qZXQ+O8mhtSqnXiO9ljnRhjuJuwhSJkY77Cm1kv5uq70fuWbj7PrQGsEhvgh7PvZ2zNfZAhWFNMe+U47HRxwRRyZuoB1gSS89n6efW86j0xlMIE2jn1QD1xyuCVE//qsAx6cBXCaKl25fZ8AsbJM7nLoZVMnQZLj55PaLDmwV8GteJkglttWjfq5brfH8foYnv+hFUIcShZ2LOlsYZTqfdu0CaDlVm0IGhqkK16miOJXcoUg9j410F+Avzju4B4wL0tQh5054JDzR6OxKvDrlrRX/tX2jhQBzA/97uqr4wsqHYgZi5GniG72av3EH/LJARE1mE6h7dpGK0El/XvNOxlcCJKqe7V93q5M3dDyNC6YPx3wmSUVEF+tJmv73yGsEHtbh/iRg/AF6t2AMmersaLEKYmqq7sfbv9bGeI/MXF/37741/cQPKF+/XE1KfIHeKAHhKbJlo9Zqa2Nr3yNoZdQNbhBIUx0bVqfEb866gGvqEu8d6MJ4zQbQY0HH1SZz7bKRCXFpSlpVflYDDHBOK88XuXQtj9F4ERDiRFBh+O/S/fEf9oJwazuGmZSa9KITUMJNepBzXl9Tja+s5gj5o8pebCQqdlc3LaLGreAKQQH43PyYfYPMaU8lUtjO+rhVALiyTmDYDWUWFdItMuiqZ6wew4SXb74bhZ1PpIQnUVZR/Tw+06Ilfc8kbCf+01ywZfB0crsOcQvZNSzwsg6NqRjDimBj28Z3JIkbiEdedvp4rIF4DOw9IFm5oGVXBgv8OaTk5vNgFkHsK7w4+LnZYId3NJtjcirz6BmkFwi3dChUZwvlfabKLMZ6A37S+O3uCNbjEMJcWjuHWo3VvBqyUtIiCMDvEzEDKRrNOabtJmV8S9cfBzghrErH+B/c93u/acFM2485pyySxdRbnBjfyRFt47Q/qf5vZw2chd8DCLcT83cc8iQNFFYHYmNVr/s2wuhmlKLvtK1/lmYT9ebcldeX2Pu6DsE6zXDSiPYW8fBbdx569qtCh6tOyoFTleVCagGCek3zIkRxoKF1xK2ZOgZSkb1B3taYPnKcaoZEJco1At9FXtxJUsxaBvPNz5bBJMfcszbX4e5eMtH2Cl1yOHyrU8juyfhSJyBorUTUZG07XrB4Dq6FJWhfqd/gtiSndwIrTdhAil860AyOqPoL5f/53+167TxqyxfiMHnoL0JbXDYPgwfqLVnIrkHGHSJVOAhZYmMQOq1rxlMOuyBQdE9euvAwYqMDUDLjzn5HW0ZspLv+Eh5GXJ2wRgsHAzTOkf3vjiWC5CeDhO0PayhAVooM33KHeaakz2woqxaBkpqI/aAtD3sKZbGweDImsERDJgwBUVGDk1LI3R5UWs8X5kdy3ZUY8v0f3LU7GAxZCIIzcJUGagJiZJMymumrfgzFtyvEhTXqsDzSvoU17mMvBDHSZjv25IytH6K89PJEuirbvlC4ppfEVTTiLRLoP0L1GJ8fsZIYNpt/w491SGntGDLoiivnQ6w98Gv/z0SApI2ry1RoceAqWDLUGz8BrhLtDjl6xO2SNWkxYuuXYhNLMC1T4w2CmNZDHx6d/PuAWcsEGDCdKW8tSEfmHp/+QbGds8JjTP8k95FPq2ds9xqjN/hqFO9qtHREPUogsTm0U4azMmnlrzPh9DhqFQigRUJgfBlNBT2gLw9UiTM0MBNeuLjs11loRBK2Sk61YVAbX1YPft2IOPyRVLOkrAUAdt+IvATEkZgeRgQxbEYpjD7H1N8rIk+l3MIkStGZZBXaKdr8ZkgYimWqnHijUv5X53lz9k/M/4kQeEfnVxU6pdcJhGkPPYGvzx8qTqDJGivcKVPB5PcYaJgqGMfFqjjZ8jP9hA/37nUZ4podK16Pf7fsu5YAtpyDhqZlQR89Qv2Umk3a9WMOG/mq6tUtMKWEdmOjPxtry6H/kGzP+XZ6JN5R9nMtd7gq6VxeIgxKfxU1VrhRAVyMl3jVJHRswTiJfgcjpt929egVfSf84kZHaRlo+44ss+yOuAkidkF83lmjnuAFQ5iBBFcEdgyrXtEnMAWmGEaUfcSZ6V96d3/fa9gqsningv6sh9yvafG3jh3b3u8nDoAgJL9lGXvBoF9TD3ue2EMV/VhSW2q+eDRIVLPrh5px42H+ZRg/B4q3UZz5D5avOJpRQvPw9HxfePKV9hGOXA/2QsjHqmvRLZ6qyYgl101ZyNXIj5QOIi/Wj5nGIu/IQ73FTZsQHnADV4OFNRsVYRWgNWt7fIf8U7OJPX/kyvUZrXl4WKU70lxiq4Y70Pdm4mHZ2SozubSP9VUf9ISO5CxbCdd8QhpmpbNo6U6TuPWeVsjNDmjauawQu3h08pNpXC4bSOCCPzHO/BDj9VTH7ow/qnQ/HDZ4qwp1na5jqKebjIDT27EfrDq9QK8hElbGS/q4xrXlwgmRxJb2jQ/KoUkDnmYSTFBc5cYEjitXvjiFI8u3vk+p024SqtWyLpMpmkqIGEP1AVD826JZIY29fjOuL4ca0JfHDU1jAe8FhOxA3agKT3ALBXxNHFbCfU6QuqbwkmH7RfMLOBYDQCR6z6wzAW0D5H/5tMkIX9mdmBlDnRxynQaP3+27YrztrvLRP3NncGZeZj9Sb3+yA/BvRx1rG7B/W06EKZIvbiUhRz5bNiNUP9tyz13x38f9mkRek1Lx4HRD+6mkqn1+EDeonikxMNetHVZOKHcgnHWUuc81FDFDGnuiwUymIjJsHzj3RT4RcX7JMfI+J8/SCKbFVJkkrAcnJL38D7dVvhxQulxp7AmI6cYhBk6hOaOLF6aKNRgN5mSD69i3zvldLQYuuwFEzLq5AGTMzRLmP1f7cDXbu3Ocw45ZrwjE3G2P1nX4fnN6dEV8AIAkQ0VUDHj7FsMvEUkIvN3MKbDAQ1yU1lNZxslGz4gOR4hBKTJJHhRZ2d9OyUkWS6lkMmKJLSRkiSE41/uHuCLeDNPwYPaWW1d36uf0VeB4i0YdycCuJ/UPBH6WqvJDKiKqfO8mVVnixsC3iHbhhCV1Avl5Mtj1VHB944AA4rpPsHWMYcbJzqwn5ijjAgesl0C0KUN/SE1Iw3tkYUPyMkdqBHUXiB5SvAwWmVHlhvxzqkyltjMe4UvUKLXpvdC9DGQ6U3k4ToLq2poKxsbIrZ8PCyrUnapd7NSykY8aU448tPIhVwcGPX16p4PKeOvxW0cUIFpxRvbkn2t94K28A0GpfY+8OsCUIl6JOHHZI086mtMk3LotHHSdX29ZNurPS8l3K6NgOQJ2dO9D8ezASTwqauJ/hR1AI8fuHEwVDJN2woR13pUULfhbq23J/Jnizm2RtKr3a6DxHqza+pPdFSDbvukysQdYoxj+Oe2i0xD0YURX6Xg8LJJ9CfzAn3SyFPafehhUOiMIY+53g9iMOR4GqlvTVoJsEJSycpm66QEnCDnixW3BI9GAPM23vFHcLLpUMceKvybs4QtVh2XPDzcBD03nAWi/JS1eqLskyjL8Th5KESMHk2LLSqnNHYJRAfMPtz+RreahI6xfStsy/BVj6oq59K+qZm21J3OSSUZEHHsUIhrzij9sKt+IP36hImYD/0dkZeeB8wKCuEuDXCvj24ue7WBv7oAdovC4WPtVlGb9IkhUMdyLzUUx14pydZfw2HfeTCN2wtUPYlPGUv751k1TJhmQeGuX4Gsb21ZFrtJkXmuVJr/3A3qA80p5woj8s/GR/7EL96HqS24zeSsEIaa6L8taInsX41mxNk10cD0Aq9a0TekhWqfytwn1LhzO9GWs4bg/6of0aDECul9pesf0AiPslePJAaLarXw/giyQvlt2j2AtWgGMBTFivQgLhD9vIM3KSdEmF4xHqEO7hezdWWiYZCHmJsdjYPHXcSFLPRJydgvIKLLgHzZBKRLp0Ux3ToWCLRAqbrLxlKukG9lfov8OrWxwpHr3Q7E7jVFcqHx7NFYnD0l48aXl8Jra5TqQ+JYMEXQjo0Ez0SUualiMRtNV2wQzYp3H+gM+hFMZLqpHJKYEySCCLfr+OW9lz5WoLM4NfN/96NeIuzmQsInWQKvi2dxaodf5U6s4dVFU9QeQ4EuljWTIETGwN20Dv6BLl1Gm28ch/6LWHkR1BtPsFwTtrk898komDNK+6EBGGsNViOiFNbg0C1K0Y2tk8cnHOid/jp2WeMXFNvHjx1wPougxczWAGf0ZQqpEEe21b8S+PlC2pjvGdTMu/VQR2qFnqwjopXkiuekaNkXU8nww91vQBnObvZ+LKfOfnkKVR+3aabzmoXMTYFRoNP+K6K1ahlBxpMW0oR7GI22EawMhZkuvt2hOq27D6glfaVbmQXH31NrvAJ7Ahy/+toMy7r2yr8fm4ObcsxXv4AvS7/xaLTfcC5wwEuhDMlhAoYsazE98eUhCPpU8Av9VVP3ZhMEWw57Q1kLOyIs+DdcSrpHGC+0SwhD5vYchytc/0k2LFBe04p1XnQMjpPzTGx6d2RpUysoMXsYnQQ4TMAv+ZBfh426ha+TqWctl7iVUy1TZc/IdlppQs7gBvVWkUlQqGfccUGLEM2Dq7pTVqIJpZJl11Ls21DsZRVhZmUFt7Ilezi4p8tBEUnIkUXS3aOsJzUmXz1Pvs9wHhIIUQimRwZM4k7f/4nWXAg2Hrf4iqJTDPrcVdsA3OZLJo6K7bS89zzJG9MP7JTUoLZNse8Y37UYPl+fxZluog1JJRkEahU5iuVfbcKVADcy+WaPx7uaO3oGNWpGxGbcZTrkKymjOveEVUsWVgaCfqAKoxW0iGYWNoOGjl+V5Yq6mlI9xTgg+AuO4pioxBtLKtS1oyMfW6wotZrdNnIWWNzz9fgl9hF9rEzYM8SKmFyoe1lQi5HIKgP10zdZLk3bl6z7FigrjwdRAkYQoNtv5TmX6q6Q6YIA7qbtEmqWWrleoWSG+C/n7Y3CLwkItbkWCFoJ8fWdc8E5h/RQovxbpUGk5MYBvRHhJH2b5BGaEN80hS9Uq5KZyQIx0JtPiii2TsZQWcwAEeR/zWkvlNT6iP7Vg6WP0MFMBIy3bsD30r2RnZzbVZfYcmNBYHp/0Ym+rPSvZv2yUW/jcqZcAWLh5d1cefiJHI2e6+Enp4ZfjXyJzSZOVFoohcCX74SeLzp6qz1rfXR/o62jH8zlrHuPzxeoeLDuiEsMIyS19swExOnCMoA/YBEFpAWdc04rFzz/RV9FnPgE5tcuBVpYmtsLnXPtjl1gGDA7zuvDlurJXd8Ygm4kkvvKcirppwfGwTyoFmu4QfjbEmnks+ECknSKB+qXWeD7/EfOLGb1sydN5dN/7JZlRYiPFs5TFr9IlDNObUWJIOelVs1FV5uvnkK4C8lQ3xsgY7H2rxRO1EO+Y2Y8vA6Ai/u7Lce7xzLHgfQBXvsmXFGjjy/MC0/HEGScAE9mcyIdKxnArVOByHLGB/tYHuJSrN5f64ds4dqv6wtyUlLs82s0ZJXeEqRBAiFBJpymKxip3i+pzRiswelhOlvA0K41r61x5ek/3tFjwagWGG+0OIU1czVQNkQbx07COYVMbyAj6R+3qjv/EtUGbBISiGW5VaBeRl9EGt0B+VtdLdaROW2ZzpiiDFMgn8/SFDOV6nRZdyUL+dZG/ASbt/NvJD4udSWz3+31XHa72SSI82Z35FED1xyZlN0bY4aIRI1Ef0+h04+Qg9zAdgnaaaU6Ut+YsPPADybpZ+aBO0eDCvteJ3gL5HUgI4c1BgWQOnlUwxJZIVjiULzUJf6kjEzviNf46eRUwgeZyfXhlFaTkg7MfTXlM0oGD//yOIMm6xmPRKdCzpZ7G5FWbYdWVYuI9viF2Rwbbs+KBGBAbL+jmu9W9ViN/TJRONpdGJZ5QIG1hFNUWdMH1CROmmGSDd6vKA/1DfoE7dgXWClt9bAb8SK1NJVRb5+hDMlgAv5OddXhWVq2U1TnpIoaMc+2PGWSdrW5ccubNmF188LeGszquAef4ak+WK0C+dAyda/CIXGzOGbtu2XIdbaOvTxQOc4YT0KfxsGnQG1Ja3dlGThTu7O/vTyL/DW+snBYBfXXoAuB70NXe3AlZOANypaWhv9KKkT3bMdpPbtNxGRYhJ1Wnisc34om1JIck3BtAX3FTgbvJRRZHcScTzKdajsUGsq/8ZHTZkaRJBjwuV2RtNJhewHGc2EYjy6pGLtJlwsxUsRhx3mPsl3n1/fCfO1UTfWs6LbZqAb249MkRuGKaK/DmoQEQ2dG3FSM1gDgI51JXvI2Q4x8UlUlzPA2e1AXrESut7bRlTTZcVkqc9W/S65xX62sKMw0nwi5K4YEg3qtHVF8yT3AAOBi/mYEDO/1bHpEqDBFvWTc4gvkQq0nMVgcZ3JteZlLkbQbSD0KU8kpN3zQ1GnlsEBrcD0Fu+QadX1llWwXVBgfTp7SQFKgb5otcEX617HyKx/txzA7qFhAgn5OkRTYXRAG4k1o/HfCc2OC5mV0XCOZpe7Cink7E1BXqED3j5/opNFYleut4HoHKC6ZLfc1pOEnGjYeZ17KwtttQ7NNthJdjSEESxQcg8UEc6GuHaTdtYljihQ03yUzRqVdhBBRCXeOt0OLPnCuINDl5CGyIUka0awwUsiHJJCUpUrZLdmpOwTBGyHn4NuHgzx9UfEgz0A+6yA3W1oIYkj+rzHtNVDpa/uZjAtKQWZr7ShtpYwJo9jWtOvqiyEpUNbzWeixZSqDj/IwuIKHfs7jEBoofejCVhYe0XmCTVZYNK/PpiPJbgok7g8BbxIXjY+ecxUsEQVBmd6K67mVWURSSNfvHrd46vLAPp6KeH9mx/nSd0ksXatL607sBhdQv3gQGih+yXrZGgGcXZFgXC9ij5M9iIoRp1PJT0m7uQxCerjxlIwIhVIAp0fojj4eQ26Lkc/hj586KCegymOwICFyA9SB6zJM+vQDWCxt0KAGzSVgalG5Kznidevo+g571V1Wqe0pUoFmV+lChPRrqZg+nsGaTNe0oUCUjE7WGVPVScK9ILBBKykQgzem+3HSIdN6zWchhVu4A/5AgFL0wP01yt7R3CeQtQ6Clhs2EMd0/51p2KGblTo2A0MVfzKYozdyTTIQkIfKOCY9f2hADJQRVQ+4HNKAGB5YIjVtqgW/y0bM90ec5J6FJBg1UQLvpZQIa/6EETurGOPk1saz6/tq2H8WLKjFXNO/fdpghVc1ZIlIeGisKvjqBPtHah1neyUmNqxB0aCXmdO3n55yiVCGbOxWWJSIRvYSXHtQYSBx+bTUFv0Q51EKKVl7K5Hl/F7SmOgAUqUFCqb+F9yLowQxjjE6ShnV0CIo4w14SVzmG3bWRflpP24CJjlgTsEtNuXKUGEFuldy0HUh+aUnTQw2UhNRjHTqunI2BV7lyf9xqh+Xo2KH3/Dzja8xOCVxBCEEjbNQ/2jRKPOrH6yAc3HeL4BmxEqCLI16ooXfhjJNRtQyWx0N5gIyXhbVhBrirluaPkPkQXt8CtdW/7qJIRCWf9FcDDEJwmbVF3PBtn1ztKjpdvG3VVFfqmKt42s/zcfSMqz10vnsfSFX2ssNBhJ8c8t9X0A+oJLHDO+W9v7QxGHNezhwCGpCAMLRtKNKKkxKKnR9dW+KJBsYQ6Oq0O4kMwkalLuU5Tq2ymOkdrnFOHZetKSMoSgJYcxL9r3Qv0aHIsQ0XS0NmXsvCfneMZxKLJj+uqlHPcxLAAPP3lFgP4QdXAQnE2TYEYVWT0eKlbqy/FD7g+x8/PDeN45E+RqoghxfWehb7APRq3+pFP7wNThsa8cTY2qs7jsPpl5PkCrMu1lAThC0v+D/8OYEq5shZHp2HtUnXZuadxPiifY1o6czK0gq9CJh04xNVXqOkP7gsFHeMovH57RNVpZDw3NxJlLkrEChqi04FhN+AfjnXrNhhnc+svXjzczksc5E/sdgV+OpIPybpQOkDrQZpkeDRiWCEed4nbeZ2vermrkjDZ8BXzS9/wdy5x7yGPVVLKHr7Tcf4vGcqYE2PBwsaF7/6rKc9GpE/7V4YeD8jLA2MRADo++mO1tE2WFeerktcCwe8a1Urb00X1+GE2XixkP0us7UZPxv6wGiz3QAuib1+gDIToHsab0CvRESwQ48N0B7ECxldjv7B88VckfgETr6QtEdcP7A7LPP+MnEHP6q6RWCojepUyzkQtPKL0hSCQgeO6XxTsK7BjcmPuXp377p5oDyo9WriP10A40tFJHtDeFUdKx4BuNYWZ6AVueFYpKcxN3cvixKf9D/HNmbSqFb3f3TGQV34tKgw3cw4pdPK2NH4sjGR1HIFV0o7gkrGaCDiGEFhGdSNRykSZbAReEe1y6Ol+gWFVKkzl40rwv6ZNSjl62OKPHfvKi7pt0YediFMHFRrGBLzVhAPQIWw8yKFSHU0I4iyEqiXa50qx/rgvSWxGsC3XtaVR7kDPhVHKr5z1+g3TIQizXsDvxBf4p6NIyXv0Dynqfl1XkqaLU2tB1DAijGiIjKCyKpTHX/1LBzNGQ8spLbZe5cqdTQn+LPfmaL1a5YsFQ3L/HMswARdyUSfEPqCb0ijpvj+Xqt5Jdtrv3YbSDkM/R52Blc2dXJCb2iaRe0+8NMgPhfzMF6CKKxnL1CxPz/v2PT8s6BgUAYrKVJwFQskJPhfeRjM/4mZhKGuE0QfuMIBwTAZVQVgEKRsLWdw5SUb8r/d+3AroYyclIQI+SsQjIOqWalrNYyMvcVckmgRPVdgt5cJUPi7iQYTnjU134lhswI4G22V6nNSEEpsBBL6BThlDhH4AweMTbX7fpVsHhaSTxdxLQnh3c+T7RYQZkfyjFnZdkBpwkVXBtREJL5SYF2+EQDLHLXLe5QdWhBlk42u0qNiUVc7OX8nsVhS964V0seOHP9xbpjpa8r4Moen7BJ/5j68a+Jlldp3AO2cJ8tNuPiLVuzxBwt0pnkdiB0zeQ07USezrEZlQMhEpWVKVNTqdVE6i5nJ0O64b1C3nlywJnhILjPaSELgwA+r8SMlH2Wfh7x0Y2+aw2GOhbjMfNZFfQ+TuDqMhucfCUG5CmmyU1DQmDPBvZIpWxXMR0ZXenFulEuVMB6sz9skhh8oHHmKmPyT4EAcZsQ2A4hI2APLQ+FA6Jj6zELU6VKdaNvvPaKO3YLjsm3uZWBnpXn3l+y9iwFkB7yIXRgtdOGlIUy81TkLPPELciIf0oN+aNviZh5mOxuIVRi9F1lyiHXs6CWh2rqTRM2GTdJD7oEYaySS1Hcvr0PgmxASCQkdk5B1dzdEOfqgViGkAQmUWyL+9HTOaPP4A4CY1eCGOefEQ03JK2ldHTyvu0M4Tpg97Q0hA/3wmUcEsJhpVXIPXt8VUzuGgLDxcGiPZnwOSRrYa/5O78pH1APBN1CcwRa/Gtkv7dQjnEoCADk+iVvaVztgJ89p3wsXSe42R/YJLw9qqYlwQKK8lSmm8vGfnsI0r3mMMjkXxgt64DVlAswcXoCUDo2gZkbofgX2vCq5eg/SK791fTmlJtkaIINHrxsRxtYi2FvWGlC/s0EGbGZuF/MBmookWMDMO54TgQf+NKTFea0Y2odxJBVpeMx1oXuyajw/Xkis1Ib2BcLMqIcifT4mJpdr8pDxbPCkv2uipGUfeO/rKuPa0DnAndlhDiZwBRhWpPl2zqbyyiXOIA9TTMeI3fFFnTI2ohmIPbmFTwrXAz8WDxtqJkDvsKLrUduHAD1bW8W/E9r1+0qbF6QP3iekxi2F5K64g6Aw7G/rxNpxwjfDkomaYHchuOfjp2nEqik/wnfn+2iax1QUv79fFUq9Fr3vj6mLeoYLe8BqG5iENSSQSiIVGA9MrdXL726ERSRIWuy1kzU3/gKz+41YVeqXMBAHO2efgiN+hcbOSxjvWcJKLqeBTKb3idyMh0tCw3FMqyQ78+DELzKeUqHvdsujhwSiwulbZmCZ0+0nfqlXP8se7HkbMDUou4lF1fzy5rr6RCqnaBWl6Yn7+gx+zSTGPgyCm5ErYUqyD4hVX1pX/+V0CxNDANhrz9IVAyzc/xVhL0ovYvIEL7UMtx4/dBoP1+rN2X32Eg4v21o7FuqGKdQOdtVwyahAXLvsvIHOuWukyrDKsW8enl8HtwxnBmo93PJSa+u8BOXckZYMXMTMQD7I5RZEbM5aQENyGT5xl11N4hgXOCYo5xoOpC14SDy7myxL3qR1kEnkJ7IIYIEccCKQBg13E4XXUrMidLTMciZTd+eokTrfofvrbh4soPRW5obPmc0WIcw/zCMCfDU7o2bZXruvwW7SOxuxW2LXgwFhNOR1W92LMtkA5ffTPlmw/+mp3tsrDjnv/rxWaXgd+QW81yDzs79d/SneWto540DGp97p4B2DopGcdxZcy6DrdCSy6dwqGqKkri8MBqOllfCLhIFoyEODT+q1HXNdgdXF2rpQXa3X+0T39E6vhLPP40p+ffEC6aQHfe0yOZ5257ZMW1q1lK6QZxveRzj0Xw2eGtbKCOvDm9ZCIhQcZE7Xy6/iGKFZoaA0Guvg8SXgpylnzSpv5Gxsbn73V0kLJWnn4lq3qXHv+CtUlJv1IIBwe/7X6N0tIbrSwqCSLlBzVe/snLMpiGlbUkFQ+BL6qf+y7yQZ3b8bSHgtd+YkqHXa/EkJc5A/QHQymSL0jfOdjyYS8XiO/d+EyuIb3DIbN0fj9Z7qLCrngjb0H4FHkktpDhGMXVNbgScIvKCuJWkyoQURQgDSWaxNYosT4lBdoJ2b/bsSQXVBnszcx9xddrPBQpFlExd7OtykIPN6umb3kt44LtMW0BT7K42cXSgM8zEX+mUD9qN74UY9aMVp5bm6za8LPnAXQso4a8IWYAGRJiEIcW+VCEZj8lL1Qu0tbJre1bCmRmxaTwSon6Mj49GBNBg98kPlhp1ekmVLpUzMFGWGKINiby3JeGxixCa06aq8KJm794zfCOlkqPPCOl4iV7SDu4WTD0iogR8KKGfqdSQHEcMg0H3D/Cm2nywe5An18bat07YS1CCqqD0otXS2ZcN0OsKlF2p1ZxyifymslP8XFqAL0b08tcI8GiE+WOoF0JKjL1HLE3FEPt6I/gu5VYsdfJ8TuiSX4LcIT865fxxa5OxzHyLuv38OFyC2k0zWHy/Vdxn+UCFTnHpjJZrG6TiionSz6zTVWQWXNia8S2y5gdVZuowyLedhfidRhY6ekzdLb/ynfp9b3eT9kg9x7RyPl1ZCVniZ3OyOZYYSspMCq3aYP1MFPFlhcGAx2/mz1TGiMnwB1hpQZW4KrL+1siCAxoujksypIYra38PVViNdmPWCT0Zv/HORKDA5YyAl0jC1pbGyLiOt5XA9ffhTi54L0/gQA1c9R8s/MjgeS00OH+qAaqF74d3QtQW5xcHQAuA9nP5+5i8wiFBufi5Cvcn/ybRT3PsBFVQNWFli6z6Lu7pKvjxMvqho3gO65F5xX9ZAHk2xQXFQDX226xRjxHnrXqy8XEzHQkr/J8J9Wf4+aFGbQiXv3szBcDTpU+b1G2Oozo5RSiurAocK+KFrzpOjipBTPW46Nt+prxI20VrjCJH9CeHhQXEsyR1J6hGVYbamM0TcrXFatUcDY1qRmnLt8O9N1YzK5kggQX/WeHKPnKCmiCxExTjIsq41jmaQYz8ltf9cI1JB2GAFveyaROj2kIfBwwoqXKv/FAOQrziYhY+5kxGZMUSx3RbkkLplpJKsHkeU5fcoO8RH3KaRTgWRwo0nu3uFlKAPAD4Oq26ahqBNR3/iu+6lKO2kKIv5N08TlZCPiAC+ezhvUXNOaOAs/Ip/RUeknt8h/ZknNjSa0MeWl07bbSmDLATzc/cP+pMniPy9GyOh9m+J7xauw3GGeUjG7+Ogd1YbdQejXkaHukenRQIMm3Rqi5AnKa6ns0rpTRWHE3+Ep1lb6G+gUVI3M1NDIsOOZ/gia1AoFUl5LPhexlsn/hJoYXdhr5m/MqxNIQWbrNubAdeZgXvHpX7vN4D/xR5oeDFtENPMB8K2nMPkQpDWwc1dNROeN9md8Cdx2v3Ese6zU+gX8BRkEGb9SZdGZrrLF5cACO9hDNpjn44GQIi4nOauVjwgaqTfmjg7vD3xwg5igUVEcQYT2npkZGStkMMl32flTYGvXkXrocL6AgwMNSXdh+ZARNSd/Hw2Li+inblz2DIkFplqgkGt6P/W5HEQJWDHvsTD9tZKfsncPs2ASQzhlWIvBeklD8XDYN/aU83H8y1AHwr7FS+Yo7ol2PKk5ehkY6Xek28WTGxC31K1Vl3Eo4dAAaRAbDDWoLbS48J64EdC4+GzVWXU+j1j4HCNxOPignSgV9pLyG8gD48iVeNjbwZEiV4d0KstnE2ExgkamNgBGjeGuxwJA2rOcrl+ZdrMCFd/vLFAUMD7BzOX9u5Uw3dMTj+yJ+GioSpE/SCw4ohUjS0TycZeUULTkyEbVMlqYSrJwfr5d3yywraqRmEYT2cr3U49bQ7ei0yyBCnHwiIg6KLvFItlbPe2p1JXvFvSNMmQHixqUohC4bwHkbJ63yKmQbrLXMkmXKiP3cDVk51f00rRl2jTkAsFfTm1IIpyrBpFIyog1mQaIDPz2iD26WNtZfJS7gdQ+LW9ZYvlb3mThZk1e5/6uYth2205JX8UT4Fg+GWVQ8YLMRAworTvdIAhlQJpwj2Ni6QUJXVw65t7X2L/i6ALQYfB0ljOBGuY7yWZQKg62GsZpnZ1C+uhYAejG5vfb+pQfnYD7gkLtYjnnyqQAmpw7a4RoN1DbKI6NnlOccpeL+lCfjHFL2zIkvSvTeiyq3QHZRvFd8WdcYRpd/PoVujU8w1V/ik9Etyrs5/rSiRiU4C5+lx/7ffb/GpqHj73ZnhCbuQuvk0QXEShdSmCV91q/uJD6+ZINO0RdpyARKLgfkkU0A1fD2tceJBH7LtSQigXMYLkladrt4s3rVaBHzULAp6GCWPHq4WxYUEFGoS0qOT4r2XO7kCLEV6EJVzpM1L9rZdR8/HirLjXHOzfh7af1l534SeGrc1XBHtogQyayBGhD7PbndeAuZm1t8cpRwZAaY+7Fo08qU02TrhUgHmLRmvU5BuMhQsk2DpE5jvRr02SMKj1OiQm4ijx9OihUq0NmjbgafRVFAjGB/6I8PukqH8xJZFv28p8cwVbq6APOSy3AlhDMq3J+2kfZAyqC3h9UNq3q9CKzm8GkKTXp1qSHVaCZE7xVYoiqgzopcr250uP9wpUksG7jzBZVz4fsgaqQXZTza5XBWBX6op3nlvoRtpA83IgKq7RUkpGlCn2rcORRhhIZIx6xbf4jmKGeksZCLSSJ5+WeVsKE8Qy5IfuQOTEUENzh0DIQNPA2UpW2Yk+49tmwAAT/0t8tWhH6grSp0mRqYgYXpqOa+IyuIP4CNkm9MzMjKC9H9njOAZGcIJeKEl5/yXSTimNBrAjrptm5H3AcJGj/OxOYhI3ajD2HvsUXA0Ot4Fq5wgFrKo4RuJz6ksHgUN8nl5AdnPqmxezifY67zWTqSLFZMIbSY38UYTjVUW/UBeWc8IWauzHsOUYi+J5HG7le+H222+REMj0ne0EZXl2uVoTpIyYhUTloeLgCrPtOHjAhwmDLV4MhJQq9G6i7UjyYjzwzqHJLk5HjqDs86zqWgILHcmillVG3IimSoSwYtOMLCm0+GituZh1xF9lMXTOPaKD40kC4JG5ybhxTQRTfLtfqmxD46WPtTTIOkdNTYq6RY8h9ffclkyHjGJYgl7c1Tg9KBVxm+zWi0pwNYIWhOXRFaYBZI17IoLdmx/rvolaARSuaIGQKD8XBA4CAjJ3BoWwujTwzmhfaRSctlhFQElLKzGGb8yQ9icn073skqQaD4yOH3XcGtJCyjAyK8ywXj4aphsH2vEjjAChSLdBQSh1blvxhdO0OLvWmUfVF5iOV2BaZENRbThPMAfpZY9nVJcEpkMkrPLtBZc0wHPZcrNAA6qjl9Qyil9FspOh3BqQOG6eA74DC8lnKAi7xQcrRCcE7iyalsbCQihDizIIk1WcIH0krxZx1294+1tmvAI3DCrZyIfXIxdrINkMfpvy+E42CiQuyGC/HP77Pq3XVqJfbtmhSPhEjMWYrlSmX14VivOuIiqdLK5hajvZYgNY4REFLXS8o7u2XQF1+gINQNMC9E67wTkhtg17NTbAOap5Z2ZK73GwQPenix7iNSkFB0vKl6FMGbnaG+BvPLZwZW0r2CF6RwdsKfn5uV7EljQHlooI9zO2VcuU6OFIyXz8Wy+9ut6eHoeub3EU+PdjsmO8kNPC2a32lbAosyIA3KODNfFSh6htR/DWpsT4nXy3uPD6ePwOpxPmp97vVNw955UkH8vRd3rFwWkOcfLE8nU1R5fIgRqVYv2B+bkzPGQW3G/TlXudEAj3GWZWZhM+bEOgciK4TlR+ZuhRHqI3qRJmTfzrGi9ST800jbPH4jEgi9iQWMD2Xiq74bGRKr51gWkzja9nEPy2RoSFIFg8VU01sjKlU4W9dpxh23zvadDNLwDe4bARGxTE0yIp08bCb50a+Wv3jIiB1e/m9Zz4/ah4WZx4Eogbsfd4QeuEoMsBGX3IGDzirXGEbeheDkv4VCI5pAhviF2UXpjQr+S/WqkkLTe9OPUuqq6DWtEIqYEQOxq9FlGct/QMvoibxUH0WP2phRu3/ck9OxIUMms8jtA5BwyeakD/9suXOCXgKqbcOB57Q5y1tXS+KI6D+l/dV8VF7bPy/u5h/WS8+frvhwKGAZ5pfEsl3lFhu51PMti1uCq31HKvO7ugqsjUJnFcBoBaEpchRrOIMAh1n4aBoWmrfAbdv/1l1ApmW7ZQcb/mLI/9URzxDONUoCGaHlw89EdqvSGvQsPxRrYBXozYuNHW55gV9NRhHBUba2sN5GopYl8M4OSOxH4FmFC38a+qETUiwoGmzNjRn9C62RHDFPHlZvMx/O528nZ691LkH525ajB2h5mwJLnAfq6wnUFf1EtRLNS+vaaVE0o9FmWxUZVzbVKx/GeDV2O41J8wJNhXN3u6gKqY96G5L5h2AFbQDjiXN8vlREobN7eTjjBo7JjzBqlchmMqtn94SSegPiUJbAHWNmUCiE21QSq7dDy1U3wEApKFqiqY/ujYf1IZJwNslPsWhjrQ0aMuG3hqHsZU5CT9jxAg65v1RdNyOVzs1XFb+8f9jkYHGtmgo1ia+s2WEBjo8NnfKXjAbSHEoKNdfYCPH4/096JPDvfmCTAhZKcvS5IFP865VdOYUAeVrrOYmlZfaZcrGQOBst19Wbi6jmADCNVlHF7wfUcWinDcyYOzKlBb9eGvcZ6vbDs/KJc3ZXbK9PuNfDcVotMy+NE0pE55lnltfrwbl2y47SB4aWlZlnlTXKEj8rRJUgXVrnFQxe6VREv/4T1582O98tJJLD8gPn5XUMPLQ1I+rcNR6zKWt4fLdIFUs/tbQMgfjc5yJ80AEtJjm7bXAur27efvahGbtOCnxrIKKVCPhE98J68B8WSoK5LGGFE5Fa+UCKjJDe8HuK6WzRVU+QiWFZd0ZHFYNY8jWsRIEIFiJon2nKjGnhcuTZ3tL876dTAkArNfDfNv+ErbBfOYvSQ8+YUI7pQXnxipupeSXqtKw7XN+S0nGp68loHOMAnY4VgcegfH2iEIMygQxibcXlaGhUGTiFDS+JzmHrd59mbnohNWsqC8mxD3S6rJecJZSiFl9aHpbWdSlnbTPqNaXTKXIUfRUIcbDCSXwSdSIrULSA/LIjd4E9bGViMDh346UF8SzKwFZmyqIg63sofA3+2NLnIP8g9S8s1rJaGfXE+e34187MqHDYU6bFz10ZBJfAhh9xgWZr+z5QnBUiHLdUkgFh+mx9kMk2J10S9NPs0colZLlwUa4YOwT0pEr8AYOIz21kmlUZdBUuqlnZbQ/S1FindaBhtYKdVSGECBGN/fCducpSKmi/+ej747smuELfxVFxoxVIibZcrDrxeehse+kq2CNmKCsprDr0pvuEaxo35P9BlRm6oLqXPTDhAFZ2IY2q+QmL9NWlCntTZztVXm/rEVoBZySCVqh32HBqDjgOITlu+CeQRSqcromjuCLLc19UslDzKDXjrmBfvq0KkISNUnIxDovxjlc5JBFhPIoUYkMMAsT0swyK8VNNX9jlx40gZHKLV8h8vpsr6zcmD5EtPLVgAckYMeZZzV2WegIDXjbC4X+6aCRJ4mWxyF1WJ40pfUOBOAvI1/YbzfORBkjR5Pe+wy39v1YxXjy6UhZ/JwBDg3ge53aFW7PO9sWtXALszuK3SNlsfiRk7fyVKYBZmkBlv28SKkbDKw+Alk0/mWYoH0A4E3HKm6RNgR3dtP/MrqekBsZcll6WPZVfcP72IbdoeqPXEL8OZiAQADMCtFBVseukqJZ3SABBI2vfSHeRdLpD6AIltSTohK4mYh75yRWxs5cd3/t2syFA2/Q3RW1patRgbtSzJxcpmgXGUNKpjoATlXKDCplSdt5ti/YaPiMfUfQV4kwlJQWQFipfbB40J2WuofJrq6+ygDys2f+2E2Fz+1lk7+ISQmisSsC/utbhdzOhMIrBW2xvyuSJgLAi8guMSWRwDha7Aggdv5q5fTOWrlxCA9mxAHyE52Ax+Gk1ivm8/ljE7CacM5KuYR28scraOt3u89X6F3I4ovF9AVS2dsVrJ7W6JfE5mknudrRGRBQhDNS8HAM5xUb+Sbr6vxPANj3JwnFkABrQv9F1hqYelDcrIcB8JJEAoVjPH1DB6vD0O59EqEo9vbOwoQZeBdYlKNVPQoUUdF9IMaBqMhBhtzegyYVrlAnvnjWcR3+nGKe8k66KoZWzs84E4blokJz/T/Q4H1tFX7+ae1MuuTR5FMoFcy+cj73hpOqBA7fVBpQPnnHZrKpgqeXrSAu9hqKR1FyfjTss9aDZrd+IAklxq7qKpiwUnenfRkCeFPVxnN1qZB7WT9waTaPGgDN+qQp8WWjIPioegMJR4RqwSWAoLNSUlmW+ofKdWnhjOkyvUFchS/Y/nkiX5eY+TaQ10aVrvx8ulYbAyszM2QPL1up1UhUMkG5dokmCUNRsE2VQw3yhFSa438D417d68iDn8oosoatu0/bR8iVSyQbg3Fa+srLIwJFQ7apeXdnS/8khJ8hEDxPjlSqS0c7AJz9oI1oN9SCJWj+w57tSibKqwfSAY6NO4xnv1kS6TvVpbtMAjuVQjdTeaO9+iW7WtqnswCp6aRsNXUQjBNoaciIxMjay2ffDkWuivMnm/Y/2enb7yU/mR9hTR00d5mUeKeF64A+tf1pi0U3KzYEiKc7Jh/+NdOTkmkfAMxXef7OxmqUUobSb5nVe7OLQmswTfbjqcE8vtx1i96TMHSrNlAKgZ8LtHK1QM1MjglVBiZv+uX8i1HMb3q8oVDhN7ZAnvLoSkqFkyrFBdtjd0+M4DwkfqC51Yi8tMMpIHU6UVcg1wdHHTfMVlR2NFjqMQLY9FUpjCZJpU7YZwNkL2OA1iJ9UxWBT3jhkqr505rMPM33oXEtml5iboGARAyixdl5Ue5zAJO/ypEN6qSYWs5Vgz7gCtZv6VQIhBp+zV9QXkhEv4FZgfHHrsFu4QTSevNXqcp2VAEEy2albXY8J4Rbfc8I0ZNVma6qARY+bEc7hLg3s/QVwk3jkcP85oJ1v1AgiDq7qNl+MeG37PutvbIR6HF8nk9+t1mLEuYv9Tdi5aqlwI7jjjZEnoFcLKmHnIYVldunnKyr9SGFntLyg6z+Q+ur1/Fe/LsoAwXTbVEOHwoLL1iQS+sFq4Trm5EuU+ko5Kywt12E9eCCKWl/qzCVspuYoCCQpvo26wGF51t9gdnKiWidiA8lDrwNnzzJ8kD8j6KndQrnoepFHKaTn7STZzAHUzoHiqpvtOJxj5wfQtd0B49WXGgEIrDVNssRhMLGchsCP8Ah0ztEe/SfDcxddwkXx9TRM5fGGjUNfcecNgNEGi67j2qUNanBR/niUOXW8DHISqcvn+7AC0voLJNWpExJmFgZLHlQewXr0NJxIhKDQMvwaPuN9pZS6ZdCY7o8AmHgDRXW46bHUrupnv04tA4Ic4aIirYW182ftqvGzM8SeG57VqSsxw4O6WbWmrQAjUn2OVe/9mlBVFkL2Ug9g6vcP4tIMZbnZecUtiPTWud4iEtZpOIYPEvuytB5Gz8MWFNuSIJ9AnRxWqxty/GWj1L36UZv0Jr6Z24Rw0HFmoN/clsZlD9JOY/Xdxss82B1Eq7gFgjwMbF6Xdmucfc4SFiEpmRYSjDizBKpWQ5L0OTYIkkv9fgpWd4s633SY3ZopgTfLoL26DHo2bSvtPK1ZdlwL9kS7pllvxBelIQMIKqq+PYbg0uVcGdMx/o3imuFgpCka1UZ3dNzM56ok5tt2tbyY+qBdOTDz+g0kzVifb6/gzqUVO+PD1LmBkJHwF/Y6kzk71UfGt1iJWljWhYAoM57vOoV2GaEknWhOMxv1HOVGmh4DM97L1yVySTXOhyyWziO2BVlR5pOv+1W0dSrIH0gs7uTTvN2zj4EmYnemTuSqZyO4AFgPjukefUnzb2bYEMmWVYJ+NEBHAioGE0dNFrsYdfVLOvR6azLjZYBUKOj2a91wJidXBCX1kk2ZG4ZpKd6ddHpKd2Y/K8NYpRzWEHvnSVCg5VlU9sNWEopU9rsQfi1idO2xYxrUzLp9uE8cJU1IUjxJX6TzxsYECgDwHpNy/AX8l3/Gw+BtWhjl2rOeud1UnmOwFAL7dbJTsSIdFLFg1ml9EX1yllipqwrpMzdvEnOKUy73IKTt6dh4RVnKCi9HbyQ34gHtS5D9nttIVWSaZBJtwDlURcjNKoPdCZbMpltaXlFgj6LgA1rpIBJnjcdmf8+SFPLnabHyhgd0Mynb4XMCrGGJJmYjCYQBGmfxiEKD+r0/SKdqE8yi1Jw+oIC4UXKsNsCP1Xnz1f32doQgAyGtrzpUFDKPx+53HqxjtZzC7TQOyzE29EzROyN/Ju2Rzj22DNXEoYD+9zNnGM9hG02M4XXk8md5dfy++R62piehhKopcIgS2DxMzwg37sDZVMW/v6mIBKZlYMUbPyBF0nO7m4Blou/sOCN5yjER+cptpjSJut3i2mvG4y2idl3VfFCVO7AaUtXhk3zDpNxVxCWlPYcVNnlHm4+N2SEXrBXXg9Za0c8oY+toSYK9ysOF7R7SEB03/54iCR574xjlNohE83MX0uvK2HByprN/xf6051NabeqwoZOrex75JqOzw7spRtOWCs7ueBGjt2h1wFlCpFuYDpIrEHy0CecEltEjYldgAwiPMP2Y5XbCxXmQ6DJAP77y00mJo1JFRyImJJT+Z8/SUZ3C/Ln9/JYb9dxMHTj2nuNqwa5gwr3jQGNwv9GHiEqEx9blmm5XTxGaaELlHBKRPyFGtdU1H3778BIqRLYkzm/XIH8oH88r0SfGh2Krr1ZbEfFwo4sL/A+PQqs7tQRYqejjaTqireah2pU2JcJX53aDKyUCZUflC55BPYA0onu9TaNu391WqRldbR7VuqSpuLenkKl2uOjy7PeVVgVVvkHXFMnVufcKaFmiyg4jJIzp4qpQc7x2yGd9489xh6ln5DV6lV/E62cgDy5NdS09O2hfZxx0Q/f9ez8nkIiI+GmaSSppmDG3Bs/lV6D3PL982zBwNywSkuxdEGXiSAZLo/1SBk63O63IZQb1lqaMgAutQuTdnMtXpOxolQYPIsbD7yynrDe9vSOXe+BNWeqrutZKBqOG7yko3J9C6EtI+pGO5CcvATb8sMFMTrhEGpUlIElo6/FBaEhDJkWR5T62STBhFXR/1ri2Rukou3hMTWE2Dwe0K+5IgIC4A0O908A2a/CTHsLl04fABZGqZa/sidjJE+HMsxM0vAcgMliUkSfG2/DcK1Y3p+h8sCp7V5DQCfEGqOwzXuVBB+Cojs2T76/0KZHXJd6nLWG8kyEnYf8lkRlFA9e6tOeElh7xs+Gq5rOlZCm6hOydqac6huhPDnJjtpAZ9FgufJu1IuTQf5TkK/pArLZYtUWkjSa4WWz1ebasXWRPuAKp8pSp7PIwXKIzbkN8rYNk7/CVhItgrNS8pdeRw9I/oWCEUa9c66Coyj8PGB0XP793wdOolLXfgsMPhTWbsv34jQzgf6fyvEbrq6CJdPHy+lXyFpbEf1LCVLovw48N5DJz72J9R5sGsC2lmPnzb8oKpUGkI+tYXIGEXv9T83oltWxBI6RsqnVXt588paZfbtUBR75MQqZZ7i+cqnIiZTyyFbpzGQ18UmCL2wU2NYwzFedUYVkab4LxoIZYgvmATxfG4Ad/s3qfcrvQmOzAXll010FmxXMwjASN/yE8d+0+xlvhYZU+4x+Hf/pp32ZLW0ak3ZexzkMKLKIN53NZQDTRJdWTXFijwqN50RYBQaG55ZuEz9nbyIDJ2pBNqpX1Olo351DRiAnMVBtNf97zv6W4QbV5oivmA4oCea9jG22RYKNQw9TDgBIXUojOb1/RDanU8wBTnf+EwLsOQ+SOFMT7RZrHVuivl6Oe+FH2zQvO4be4Wj8gIs+G+dIfqj3HlJAhd5E1woY1m5q3mPpsTP7eLgoGyNHC3HHnlmvgiq2w4hKhR27WYRkV5KPlrBHBQRboqod2PSaTErT4GzWzFRVGtfQWA5jJPxDvsnhe9NqMJLl1DTZ+ZuUxWqX68mwlgcUCU7X50fafh93P10QZBnGNDs5tUPIRAgY96azwc1stNk295WYk5gMPAT1XYWhJ3UpCWeLVatuTfe0pZp/8QpigAqPjk3TnWML/9If+ctSlcSwapVp0dkr38gJ9szl0HakYD6aot45Fdz9AIf8E1HWnBjIZFJf0ElPWZ9gzy65n28Zw5LCa6xb2wbKIojzryE2TB0fLpByLcZDmhFXtmPQX3TrhQhtf2LQDSfHCae2Jls0uOGnOO7GDtJJoC9c+o7KiWebsj9GMbLYkbFuo4DabGyyHhaXfkzioQ+7zFdgQcWF2IGo/EZIA4WgcFGiWAqdPv6jQdV3yZ3iLwxXi7oQo3fVk3QlrL1fMaOR7bIoRqKA47xdVyVg7yX/+ZAgso35PBNSVsQ4RX4M74+8h1x8S4/y0j3CSCsrcsudmJk5GJXRVlwd6oo2zTXmTqL/H8nw88zEaJXD2FES/V4DdNl1xz9F0Z4ejn8VfWd2va/lMIYLjzUMS8A1poh50pTv72ArMmYJmqRXrXE/JuVibokUyyL4n0rKGytwdRhPUTlA/knUQQSCQ8ND+TAaoSPEkKkM6gUM1Uc2RaiRrT9M1QidVXhEChqOxo9WmjQoxKLuLsGddTgPVKBf/WUHYKQsLYaB/UsNWZmU+cB6tTCez17TL/Dbm4BC6YuFFkNd1u9ss9NOfcqcj6xmZpLliLY2QYSo1dO0LkXTbvpPpX+nDw8wiXKIkmRdisFzI0YHVkcXlsJWOox7BaUm6QH0S8GZ5C8g1VHOySTYM9J5JeCpikKtWnaN3MlwNnZ6E7d7Sc1VSNt85chD7CAK+knqaEExUN9RrfVSdpoZREVvC+HdWl6pFGiK2Xccc8UHoaELWts1XXJPZjmH4AlV3VY5dkyVeNEcKtKS4EhYQn2TvGS7mNhc4fHVA5CS8lH0bh+kXU3mSi43X9QiY/Avl3Wn6DwnYHOOnuYWLvXeMg/E/F0Gd/4mIld+l/ZM9b8EFZnEkg9yltCHtv1lSuTzg81BIY3m1U2COq5fLK5nTpcL5Syt8zQ2ObsTwPGNXXLcgS2SX1gIb5fYVBz+JXaxYr9+kAhFC+z0Mmc8qEaPb8zKu88FJDvo9AiiXKGvrWarijjDyNR6ZREgg4n86CBH44k6Rd9hh6QwXY3VNHN2QzGctwkgIwO2734FrSS9qBn4bzK9HGfTjjRV592iixJrsEfZUnDmtc2GtrhtYcjtmgm/SqdSKGhUrPP7C4g/IxD1mXfQJzwJLCJPf4yr7wlyRtoP6RhW2L5IJmzHHIrQ8+yfptaPboplhKIjqM+fUpsUjHAlLeYWsBxeTEYDx/5lAnVZrl8X49GvIpskCM4xN55k6fNQIPF9s9Laj6Wq6tv8uOQ2+emEXR6ToJeKhmJdTy/F5SORyqANON0fWcazgqSsUHgAZglqCH71aPRSu4jbBtrCDUQBSgzVwsMfsyNm1O6hOZN1ZRnQw+u0KRnkzeY8kOz5ih2Xm6+Azrgnc5A7+wc9SpW9jKOvZUMVmRW2PwZ7492k0UJGjMkWPoYo0vsESF0O5Jsr2cbi5TebtsQckZePlBaSq0HomUW1dhJe4l7GzZkX7hO8QFvfsm9PIIr+cA7iLxmrlhwdH+3NU5fTZ3sNZh93Ytuv+rQCUOboQAzx9Ba1cCaydeOXOWgO/wuBfP0VCkiwTequW955mzgl6Mg5/MrlffbalVbic8VnM2MZoSYOGeA6flEUy+OkkJVOsoviPfwD8KMyGZ7OFi6M1zy6y0D4is1bwcR1IjTY8iEFpqY2xq0aioBeWFYmjzvaNTcpN6qTLxTSwviAca3Zfz7ny1G2yZvTZ9TjGbHmtRVRDP8WSLQmoR7kDvgWWv1aJua9tcqltjeugaBaMdT9G21dMh6PqcPqmJuHkDFfjEH+PouvjAISrS6dwBU+sxzQqMg2bx0+u1aNSvDs0qYCZpLSdwiWesQxM1MsYbfJHAshOh2ahcSr6ZYRy7ETpKS6HM63h5Etf+NRAXHAMuWl+YBCK7E4Gho4npMVStk566bpicqNjIlwbE5aMfluEC+yofq2UJMsZg4d/bXHurQSZh1jhU3H2jb6Q0D0SlHmVXfQX2og9TWyAakZUeuCFH+Km42VhVcsox2Z31buaaq9zh+/PdaGjPiHmDbxueP+4iIhm3mJWvDlApFB2T9ROd34ryP3xqopg9RKJLl37iBD3VN8oLvtg/600BELV/J9bcRDM6yJEISlV1DQSc55Xr+0MFG8w0iNQLZfS6eNYWURx+QFSbQhO2KgPdjQoYn1/R1WNycwCJ+IDX9H2gOb5e6cLujDuULEvSi3Ef45tAjbDOomUZuD0S6dkgPLdV94uBmjpaF3JvAR+oq8ek1wiDT8HPtRkSCbJXAzkHTtUUUTEf3mSLd9+MQBUle1TnTblNTY7UJavt+IjOqT3dzEopTpWDRV53WdvK2s3Nr7+OFn6Y+AbHsTkMDBbtvwcczcD9jUP/mZaQVF4AOtEkCTKNWskyHePfBttwbEibCOWUIVhcU82n65EzU0ZTHWBIiC7vd0DUa3/AimJ6gbtY5DdytR543TJfqn0NtNjbSxAtm2QbE1uoMWz3Vd11yUMm4kg0yIbsa5H8OsxvX6Y6vpUCIYKg0HuWaNC3jUhdVF3uRgj/4qSXFy5Jl5kLfDILZJOFysakxJ7mCWV3FUOeQUThUXnUcRx9xNr2uRdlmQpUBHzO45OePnrnJ0JJ5j8oMITAjeo9a4Lt0hPBfSl5O5D0hz+wt6T1IopqCdB05zpsNGQ2yRMrWarKlN/ZUoCgFhTMPnzXZwAd8YHlzKlOGEjSGZ7vX5jFjV4YER/egIXPycth9XMVMnd5lEbFfqFtQTpo+btleSTr+6e6XjgnRyecA8S2ZWDJn928QGTDBemGayN7BtBBUU3Ib/x7+O+OUrGNcJpRe/rH53s0OGRIRfzy1+XP0Woalrx8xvtKtQ6Yg6fibm0O+LC+uxtcaoET2OyIWCGlstvbE2uMzqCGQzzTU772gMsxEhFrnxCRbfXbPUc8WBdpSlotjZb7XKiVUuUl9Yzz/pFjn2TtjfRO1A4LG3ImiZdKXTKfr17YxbSoZIQrqS7bkgC6IgK8XVGfsYZSVc2MGZxBjk+XdMxyDe0zy1P6ONJGD1r5tEFMaLj7GolezsAzvqwKpOZiWtRgDUHf1S8GnLebu446pSEHYvUPverB8hJoFtxMexqLc2UCETA5R1AxVFHrWeYF7jk0KLHwMk8YJG5St0ApvKuCFFP0SqaEWJVBI7sQyIE2PQZ1Hwjk5npz3Ada6CQSW5sXv54LcCRU/aUE+QcNGUrQPyAmlbVJ4yvTKbee1rkHt3k7YWJdtrSb4d90AH2Fa0Z2ABKy18uNOR2eQW3eoxXdwezLefTiVCuhVSHPls0kB/hL3VnpjVBSNAiryq9y//Za9eemqRBvVFgAXM+TvZbPrAmVbur1mv8TeV5UhDUhX0qhmESI9eOlYAe1bV9xg6dfLJm8N69gtQaZGRlG1e6mcM6iBbQaA6epUicqM3hpCU+YPZA3ccd+0n2OHKtnm8XeIn4j9ChSKng1IVObVBCCZga67n0U6aAGY+6t2/nXNRq1trzT+CYpJZx90amovoyphN+JZEg4numRDrsBCaXmkHimLFev4r9SiaDO1eiQsGTPdG6vsAbAj+EIrBojqPS0AKnhFTTjtLi5ESe3LM5eGP9/CWPUvKXZDqlBBXu5grQ5XW+rBP+36/sBuOb0EeZxP1N5oHdplml3wdkNjpU+AsuF/YLB62Z2N4ZtN93bjIsbqzeoLQYUvjgUIIlt6eegq+yFWIv1D9zKf8zLuZ5hr8PiueSZb/OSOtGmgY8EuqG0zdmlslqFCaoQq9E4y1bF1uUmTO5okv5MYdBXSrP/Z42L03e4QknQubGuudTv5/Gycw8yF1s39s2hJqTyUq0YUjQjCKEEiOnrxvpHGD7zu8r+CCaWK/K4cWsSRI9ofT3jur+J6NkNO5WNKoppRaqMckKaPnHRSkZ8mCBba8km2bLVS9K5GI4e2BcT/sUSHyOJLkpz7oepEMFmBU7mgwhK20kBDFWE+Y/FRL1qeFHF0Mk/aZJwpGwhmxULgViEl59+6FWubyTRHT+QAFAkTbd4Hf1GkhzFHGz04AMlNP3Ued4SaZb1rp7JVtlpv73Hb/jO7Mtw2qmgoZg3E6e/3IcXYp+ye9MQRIKS0fiXxbE1RljUVgGUGIxTHArg+eoa7aH/fsp+Z7t7qwAMY43caZrvGEO+2WRQWHqXsMQiIaMQyF1Oe52lXXUEWZayS1FfybLv/e51OTjdMXjCpmRDTGtDw5bKl4MjvRXsmhFF5IxV2Iw+QxOxpHVCdB4PAz+FfgDEuLxRnwp7GDQiF08gWo1ntLvUOKPbewhoYmUuHQau9u/ZbDX82joUoAMUK0HA9PiT1yuy442apQ7+XsLrIGvui3AR2EDekw5zkkbYUbfSzPSOMyE+B9/My//mFugEKaOFj4XO79wD9hCdhlLYHrVq/klfOQcWHjaXsmBc5nI1VdwAo1LHre9nEp5es6zLEONhVRIsIZwV75rbphQwBodhLiSXOiWX7tUrGfFMdHb0j0Uq2MGYE+xVpJWDezYvR9GB0kRUeMhr0UooGxm1nT13aeEXnG2QtAu0PsQNh5dbVHLmuvXELiyWP+P0LuUKVEDhqILNY3cD9NTYyvEYqMxCHyDXyM569V0w8z9GabyBmMbVXkFhwvzQ2KN6cb1hK6RAFW/hb/7oewh1oaDIm0+HHv/B5avrm8exTZKxFcbutdjzF5bbY6cJEkQf3xE/vABGpsQFGUIRCkdvwvjUAsn/fMDexUC0ItGPjLeCsV5SMULatjicgSLqPyD8foT5driIKD9bPwHEXECkAQDsPwLj0hpQ07NKnekubLQ1pWbGIw29vW43Sq/6GNtx5xRlEMx56DlDhof9O3v3LV3OHCbnIb6ek+z6xOD4DtcU0XeYpHhYW9OhYWzDijI52XR+EFryxsolGEZLgDMDsLkh0758sE3x2nyhjF3NIt7S4A/9CtVGRMomDb+M+U+5go1zrJ1KVbe/KKRuT6Pc98JwIMLUf/+QfI6hxaKKwxFR5JYXwV+vlQChvH2+v0YupDJE4+BwrE2rQD5dTBPoCqvMLKjWUi4nCXXyI0/cyFk2tozugnxdAO2tyWvhI+PZYrQ45vikdXz2wV+OzQ778CmCP2IEOZll2xmaHWbeQIhWCTpBBv8p6jZYpvoXudQIHirPwOvS/9MQyuuWjzI+eeFQPARuCAu3ZnwLd2++QLsOLiLXpiqlEgT6mBAs1jWeYiVW1C7dSyfrzzILhYKVyN2N0+P0RUCmq0my/vt9m8RppPT7br3Pa5TIvfdfQxWYqv+SPfohV4BmS3ksNRd9HXlYmfDuyNkJ9ZvZoPPKCjcisnH4nYaUZ/V2opo+jLOPNeTiiTcB0XKaW4uLPNXn1czeKESjy2OWGLmL+ISy7AZPVJoGGZinrIl9H0yn3JU+qoUwSMGRxx55PF1/0scC5Ud0B8HCPpWojXTg+TEy566sIN3Zxd8xwSZVcJhd1tZc/ti4BvXGzZ0ZsNNwvtrZM0XWHyixwhTQkYuBcxXFfzEEIasLKG4+zccV2A9aBjwC+QMmzVvnDhNilnYx3okOgcDQd+V755Fjbi3+WLexbPKP1IWuNnewkVU/aiJXEkXqM+iHVO1DW5dWAdUIPIy4IwP1UcawzSaos0d0cYwLKJdm3HZyNuW8Jh+ZRvm/UuhsnQwt3xVijsq+iLlk46FPe0nVUE5lV74NlPs7nNkd/l6dfdMWYLaBwChDyXNx9OlPFiXlakr6NGpmEFmAsFHSguvenVur0JMcsPYzZLmm7PyK5W0GCAxyUo0CWdDD9HoKUuV1rOVK9Sr/4rRmqecp6+UVoLNKJhyjlfp92njr8Jz1wjquA1x6q4KSc/bbbPxr8OBv769CIIMKyx87cWmR+uLIji1hn1Z+FRa+IgvK7BVtJb4sR9p0u6irLvflpTGzqa5kmS/qZ9m5oXNqtAzbDAWIV25AKtL96CPHJvpDbHkZRoN5/JdqvnXDH7uhrNmCp/Sdy8oBzjDYW7UGhh/RZ22TkPXPtVoo1tyejvPXlrkgeGHZ1Swrk/Dkk2/E+R5HthO7hp5ot6dX4OMBqs5RSWig7zSGTgl/pOOI/OLv7wPl+kSTz/5d2eHM8bZFII54f6hMbfE8NhiH+rT8DTsKnHpDSIFkjQ4rByqTERPYflFGhKJT3+/5Siu+QkrHGY7mA2sfcrehyhtWxqW7HsXRGVJ9ig3XSeIAen56G2BN8tH9z4kd7chufccm7/pbYnxaXFXDgepSQP91Kwmep1X219GptOjVlCdXsVst1A6m6lFW9HIIq3wr/I4ZxeX0Wy6H68SQeS+HTP/ml3MKg8WM/pfNbdBvJfFcllUNtvZuzVvoc2adAP29OGj7GMIjJmUzieQjdP4Wa8qxC2t+iLrHk24HC0ywdOkBL0m4gneoMiXz9WWRblXC8uw5pZuIPwHqahMeJmVAyfMO+FNQUOSmXKlhaC8G9UBtJXpokTon4XlRI88L4zUAFe5uK7o/DvO6kbhi7qWYUjVpYaVEpFEV5dMWgTcvxZ3aq7Q95YPdT04CWe64eHGdnP1KSG3wyeJ9kTpSoa3hRCBS9DRuRZerJ6AtW1/x7xws0sl8GfJhXK8Ocv/54W78mk0xyhwDw2d0lVjXwfItDg5TGNSiIcDwil1M2DPmwwW6s19hCH6mdM97TZqMJgVpUrwSkuDOJk6FbcLymmKBVKyoToHpY0lcSW4xnHfSZSCXyfWznVYAhEMMhNo2qquUESAs5wkElDLyl0hc5gVPtglU4OWsciuKdZAdC3wCpBL6S4d7PLPtpSuoEH8fhRNLZItN2rZWxSbOid+HyhlDJr2c0aRJeG2SX5Eh6vMZSJoiB6q71yOjyVTnoMU8upm4W0B1jWTcSyAR7wk1eRBdjcUhSga6+JSPn/NIHrij4jV40olYtlA/h7feaR1fyJOZNWKpYIc95SV1D81NwctlhCdxjiucr8PWaC603exHFxVb7QCtrAALNwsFKKGVfDM2rvvNVb3t0J6uvG2qWFsxN20ssirKjMz59eRVprc43NbsWMq1nOvsYk+s+QABJ8swUWaJvyOIOAhJmU/uPY8NyWoYDLqGOtRbnTJxEthLCvWJ/rqt3+7ZZP2/z06YaLq7PDTwwu9/hwUznlHh5TslN9hgS98bqTSN4FLMcHHTmK3maHQ4HVxnInIegO8n2ojJL/e20AOQx05hx409q0kmwXguUxEBDpcxkxQ06lSg60vd7kpY3ypVQ6OkcY6sahY1VP63A7rE+6YPtFgXnQZaEr3Xjy+tNI/tRqzqdXTRGJreIxfvBo7oTbIgfHbEgbWZDADtipMq9zHxffVUV2RJkF2I4HGKxvVipMjgrfvKKsYbgrG5RNgvtBBC5JgnlSdryO8jz8hCy6Elu6y9OupbwMznbhesRYUZI+WwBmUzmgGgpQQWd9zHsWwi5WMN59/ooqLoCI1/lfhVSfaHM3Ky+/k/sW9G0dkf1d9o0M9RUXejzMRmIhc/hYlc42v5fjM52dk5C+x3hp470UWUE6p6GjQpg42RVILloFcDejd4vo+EOrxT8+99cA/rAZ/KMHAuWpq00b482joSkbIWoszWSfP4cP4ML/tbF30YYBUfflT9Kwiz/xXXmXlaEUB8JL598fwD1oaf6NKtH20L8olk5PsJy+7a0G8xhhegr2HlB5kFQ57c++t5tAP5MCm8NJnoawBKhorU+JcgRmkva6aBwftLCQ2FRfkmveU1CaAQXWRcuC6G7gbLmzA92diGKOuZw+Ie2WwHJ5czW7y60wjEuNsH4DOSkY4WFOCLwsDYJ0i4Y1gL+YR1TqHYIU5DTDPMKqmjbK/nUqzSJGo1zgb8qEqs3WyPv69LbIMc9ZO55chzcyGHhGRulGtlZrVLH71wQ+IDKIlXH3BuCcTIYQCM3kx0+UxsmkEN2BSWSjkqlf7MnMCnhjFcT1G3sXM04iViqI64FsH8b1NHMG77gT3ky7sKrBHBS7WLyKb0fhfSsD82WaQVjg5zfLTPcaRW3SLxukfXD4yxAzm6RS0jqThxGZ4dbbvq0iJNhkEDd8DaNbuv7P0VnTtrzXDsla10wmz+T89nhy+CbjOus8lLBn35uT09maBpSuXik7TNV+v0tNdQbVIe9X18zWvwmLpLeY1cmqJ9oWOi5FRYueg2MRHObSUqnaeujwSBYHPQfDlDT64r/WqGRFL3JePBtXPNfLW40Tx3fWTKtqtAQjKYIQkWR2JI1rKyYn0kalooVvnUZI4P+aMqB3TucJT6kOcSKkbmiO8yds/R9Hig29Cv9mVmcVNflxhjiPBZU6y8Z6DCzd3inubJy9ORRcYaDJ4k9n9Ff+n05V5q04rc6PhxzJBcDS2DzXyDH5pcoruFhAN2Uu6q6sqM7GgfKaB5qaWFDs69H3+S2SgTrfFuN3niLKlo1PE8qJjPUTZlbhaQqlT+/i6VxBsjMaqjj0jCmTkX4IIHbEM9DOGbrSZGPhbOOVSSFGY91nRyxyqKU5YMG6CyAZu+qPlkpYRAHt+eBgCKw6yHBvSgFEGvB2JYZ5SmibgN8j2zrXtPlRMrBua9/g1I0hoRCbrbm0Hm4sU6kdiu/aTvYHuGogNGRT7PEmuJypkzq5OGDbCN9DpZOUTZ/kQ7RHVtelKqj+qEyY0mCQNR3hVnLG5PMDkVaA0pXyx0ylT+I8qpEqH2URV/iLaTshypbIanUciJ8gyBNfpUvTc5b8z6AoIFVi8qF7cvztGzUoYP47Hyyhvq3DnFO7UA4iFeAPE/hiIpmGjp7qdJdbAjfOD0rmGepRUdeWN+EfUYurKomVayTsF83+a3vTCcZF/gHEcPPswskGXwwMYflME2PcBgl91Bgkq9eEmaUL7V00eiiqjEzFpkV4ekkiy42YxFXFzaGVdYF8OR0gr8ZiZZocPHey3e4AhY50NWTQXWE2OVeXfUDbzletDwWaOn4+EGGRHhqIyZUBeqz28dTHqBo6EGPkfgRE5Aup6sw762gYQCI79vOW1y7YshW+QBzP2DBgi2jKFgknp/jcMwJTho/EREVBzykQeBlowpBbRExQAFSVpRbKIqqUu7YCgWNzbWqLjiqt4f3K/sEy4Q9VCDvWd6kK5NuLuxCmtQt9EZYJysYj4M9aZ7UPrbF/VgDoV5gT/vhcGofVU8JtJUzNsaBARgGJSektCSkhgNMrAJ3ON7XYEgH8HSo/1TlMEP/d/shB/+yB2vk5TD8GWyjAek5oGLbprPzApCYozyMeKNZTy5EDywFFZ7+QKJn1i0t0U1VBhV56HbbOLhcEf2uZI0MvzlGbbonUtjFedvZezcTxSys04OCfCn3BaUAth+GVfTWLwyZ0GWba0YNQ/gWKB5/tHR+sYlPGFqrZAbfRYfgasbwDskkNTjqMFS0xFJU875Lum9qxK0B2ry5v0d/5LG/YAWFhxX7rMWiBm+6rhy4hY3pe2plOZ3Vu8aAwR6pUdwlQvXOD0p3dernEdz8ZcelNRnV9VCsjIxMUwLpucZnCd0gx+rEyPTeWr9SKQwGW39CBUJLqDRHqhywccUsK9+9H7DbU8Z3SVKCREld7xAADB9wtDelRSyJblmRNS6Q+VF2wNxfoRZV6fQjiWlBXRG8+O6ARzbFdxDUfTLuiuT9mIILr97avujy6ShKeZIt6Z/cP8GJRHQn5MGQ/0qnPO7N9B0llH9jFki8ZP6VxAyLGXVuAwZeam8ajOPTKPLguXpDaebTwP5+l6tse44TQtFOsD4WpuDtfQlA1cXNC9UC9ErnfWn0mk9A572yIrp8oo2JiCniJ71UDV4YlM3ZfgQwMfOb5SIPpnmyQMiywCDcPnYJ1MVYLzcNM8amrKyBB1mIK1OgNUMqOIvRioIHbwNTur4JWAjVt8d0dcXBeZKlXIHrWTz1sLlklp4ONLls6PbNs2ihltFCG4udnVLxXwYIkNy44gkOkIJq15Vbqla6++LmFJa8GgZ4lbNdd5c7fMDjEMriB4hqWXitZn7oYtTKcD2r+19eAAzMdyL4eFWuYjX7msYD5Azuq8fAiYdUMq2uhVhDuLHmPgCceIhW25z8efb5QV+3vBH5IDYcUysS4d1T1ZZgTW1/niVPtHOrY1fkoEk6iT+dkvqQ6PzaWKlOqhPYuGkPRLjXRlEqOLYRrUecvvSx8L4Odaa6URgebmVCByYD0+ih89HbJO0DQo/zlJw/gM2IP0PL/FQ9nB7ne8WD9Co4PEuIitXc6UAClOOZSo99X6EAFzRvulZmGYtdwQ9aVRF4G94SSuqJXuPx/QsXGxj6ipzK+/oZJ2Yqi0LvYQHxytm6OXOopzUYGlbsSsyeCPluPV8xJek3SSVaIFuhpUSRJAJjEmS4VfbeLNtHuMYKwwB4k9j19RgoCtYbmmzlRupwlo1OKlIhJkuxuw98qZsEu1EI8ZqkdnwYpN0CeEQRqTnfMKczEInD31NBnSHVvh5TvPvFsklewHGhASpG0UbLx5f/kPddP6SXBDbcacjfhGvGx1S9NYMnCk7kQ+1sroD/9LoxKel9FTxA68jYVugkkWKUdJuiPYNWzeLSARcmJ1RvtXZzxQvTxGVh0ZU77E2LvOFS+WEN5Quj06Ig04mGQ4x2W/YIFONPPfX42/mK/YxwSVC+pqB4CV6dSAj+R48majBv8dB7O180QEkDMZMxRbTMvZh4nQECW3FgcqqDd+gk9uJU9myN8Ny3THj0gFKCsZ6lweSnNQCcUVrSXIx1BX/H1EBrbGE7mmOPGKGAvnSjfZQ3TY4+R8qeb3d+8/9YilZzMHIfpTywa/qM2EAPGilboFN1ZwNp9ZRJ1HYf/AOHrEaXGpV+McQ9An8qt9U1BSJNX4EKMUF00Ogy2TEf+o1rmDrRXylrsQRWdV4B283aoYr5JTsdEO4rAI5om65l4VBxyYEapeyEvYr1nsUUOGezJKllueZzT3caKvm3U+rYDDlZjZE3PYkzNuFxbaI/b5ZUoERF4nfnt3JfMsdY/zLG4V9OGw7H14TdSaIfAb5VUexpWvp7NyhGQB7YLvBA7jyKUB1rAfBkcB6uluH7hPsW+TYyF45ZMqkusGlccPZu1OJKIiGM/aMfMM0Pxq10rH6qRV20nj/7RNxIH8ADf5FzhJBb1MJvLb3Z8Ss4iCoUh6X9k6aYWc2tFz1Ed4EjvLI8XDpHVnDN/zqOeQ1J2F6VoGzCNKBvONHZTKO1DPL4tQelLShPUfvCPTACXdWm6QvrdSyWinVN1211aMTc/THh2kAdFDw7FZFwxfG8Ida5c1/n14pdX1XFE8C4Yx7cxkNKeLtjtT8V7IaKPmM7ScbiW/6JBDtnMf3n3h65VcQZqb/0zyhd20+RPn3hvLVZUd6UEZWh/SauZ02C8DKjAw7a8qVAHgmZqtvnVh2cLoHoJDkxyZzbVvtEJrvKzd110DymZ/tFlT/cFXmwV05v4L8Oj8QnNeBnM0BHZozbBdDTMlSkKdwLARahSdnZyAvJFZ9qv6AwXCyBVs7z+hbQVm9e99zysPbEfJASSuion805zR9fQvYjMAs8HP9jM+91y2GvO6lrORNECt5QJuVmV+p3WApy5ltJsbKp1LmKaWePTzzKL5GO2NDUqlvrndjtHxVdy/7E5ysKT0tTJ25mQq3W93sFarG0DGsqhuPcJ2RJrojDu3AEcV5lflFwVe7N5SbudnClkN4dMkfe4RdqnZC60nL/ZQ9O+pT3QNDX66mCNtUVuTN6v4ryY6o39VmsvbsyNr5zmTgss9p62D2ZytL02pmOT5i39K4+n441YKQzdaQEk7FrTaWMroskBr5eDiYxwWKd1BIu0fBg13FxlRRzx6+5RmQspx11qAAaZZIsAf2X02pX/cm6c9mXYjOpf/JsE/SVDnSPlQe8P4nGlUFFl8yavCbNqZvWHHFW9OuwiEN+kj1OYuLsPVU6bzyA8ZMrBFstlfPsSXZllNryEgcugLZgRgkSTCJimjd0AbcRJ1Ngh3s+QKQUcwllXIZ3kPCcBMO+FEFnlbA8Tv8oUfdwKffapA0ZiWQ+kcNWGDT2Ej1YdvHDVOH3ZIPDf495mBWeH5O1XG2BPgafW3VOnJ8RRiQZYGknuEY+fUgxtutJhhzDZfPeO7twYFbjC0fPJc/Nfc76dmKFPzwP9TTfibdX+iDsmxE96TNd1oXArQ7A3kpLa/XKbssOTQcGBCzJ4foa45XKgfg49WPdakR0g1G2VTorx4keGNjKlLPNHiMF5mNGpf2JmpMjmKkx1jHSVsiO/C1PuAHiXfW0/2Sij/LJroxcpmCJJdaTb2w73BBv4R26zx5WCC91Ku5Du3CgBL+rEeBwFFpW6i3HPUUY8BBwrMBd67YcCmsaEtwhWPykd0045oZPenv/jkYVCSPZFT/HwJMFFUooeLgy8hOPg4URwhE81Y18mjbFO4L/ctEOEsP7T7dPHZNl+1sDhKHduFeHCgW2RW6CnKd/TnAqPpFvmU5U8jI5T42Xl4uT3nnBzu/vHtao2GG5kmo6sQKnWbaQKdET9HQKn7acy4Lfx42or16+QqjHU9Kym5TCk2uCOFYdVyDjLB/8briUsXWcZhWg2uoaeULwOv1ai7vo2dUZxcwqPA5Sqy4/+7ZxNXaA17TDNPjEA88/2fvMN8cTrDHTQTPSTjsnvoiq/n0+VtJRGySbuuItTuEhFx/7p6UJL9aHFfp4dZyShzsHbMrRjfmvj4lWv+AQPcDfP/WIldriYv4yKwEELhQZYCxZc2oLi/52OIFYfgt6VFREnTCWNhAJ5r8pP14xHaGwtSpdk2Vo8SwG0yUkJBh9fQ0JVwABXERWtwf7COH15Zg6skDfctvMTySICsPUtFJUzjcngb3Ei3qNWn1wIWVANePv4CAeYvf8TDXKiHSNUT96Te5Eyo12PHL7hGIh6MGV10tmSUhuTBzxWL5nOCNThL2ebMjwqDDv2gNuevIvg022judi6iP18vrysvLQVv3N8C4gA0z9lrCxFYVVpY0TfIVj+c/wX3V2VGBfY9EI7/TKUt2UIv50JxsnFF4t44XLYLnDbB2lasRILd/LktyNlYPndDZMqnANltGeDiPLSdqRWJ7Bc1Dq2P4/MJkJrwHYNYn8huVseniALnRVMs42KHUxau8dc1ky6zOCquPXBCZ53p5DCIi7Cj++6godSe29WFUKZ5YUUJ5o9EC1pZplcS2rvGpvDX/PRE8SephitCdw4Nwae+mZiEo4eCiD/FzPmyuI67f6/dkUj2Jbsr5+aaKpgEOg9qwmf8AxbpL1IdkWyQjN9de+xZit2UdFg0Kc865Wof1KYIoCE1NJqFAZOfWEORF4SoOOUzZxZ4ONPLMzfI9FWPRl1EJhafgv/GdvjcGHbvQ7zypVl19aqXtizOpJtz6LYG2gaRPJWAlX6cWLQaJj1coajeEoLxU0RgbUSOK+T6jLVJJ2orU8goXcPQlu40urCPG/KgkSIHF74+mRAJNELpZPeT4ADkBVdV/ua9Xr+DAsAm4Qs5o9u82ZCLy4UqEUso7PdllI9SmY74xdtQab8si8VPgP8nFsWGIoa4aUBpTwqpbItIy/ls70UcwI+vnG1d0DfXdNNMFEjz0OKVDo2HV+GitQIlmWk1fmGYQC6dyvz4fujMAHur8UpsK+xEFCCTds4wCrlrIrPyWa6BnT4n0acsNd3U3DWE0ko/LJhyygxP1tIA0/ryWOgJyMZSESGcsvFL5CMPafC5vjeJAqNLJgFZh+wpM3fsrCpGK1Fe0iDOll9qIkzrP0l3RqZHZK11wmEndEGXxgiFRfDkGHHfqxH+epJCSw4wvklZlgLNJz/+66vAErLOm+m0a33cAFL4JV7+QrR6IvYo8hJmhC0/+x0jWd/jv2sgasI7myY50ac/y5baN+tSg97jF0ZMk9Dtxh428dfMQkoLvlMzAt/kWb5RgdqGE9rgWmu9yZyvQJVIK7wSl3dwDKgtiIwwJVuPUq1iU3T9by9gp+H/YlIuKfzuLGLsBD//JKvhaf7HXO71Q//0AA2iJ5j+XgfLKJPDKdowze4Y4uOGWN2/UOO7Bds+txHHjri4XAolwp0WTaj5P0GqRy0XaO+au5lzuiVbWWhcUUUlQ3um3+8Uu3If6ntMzOEsKHT4fu5uridCgsy9Vf+vlFGGEvvavLo7DjldfgnZ/dykUZuateORLz1T/jovZs53fNRq4bo0BPD3Kt/SgDNyF5xfy5L6JgQnnMJgitWIOvAs2vC4Bkp/sDrF+idkQz/VvJEPBNQ7EI947z+RriuHAYQpPD1bdFX4bz2Z6Ny1YvNnusNAujywjZJNnKHt5QzFnNHrFBKwOm8SC1FV2wmVIRo6kB+5JWRBhUR5Hgf2mkGAT3Ftln8iFYGTcTUm5efrHRT1ehmuSRsbkWUR1mmh9O38whIR8sL5uw6XQQ5zE6L0kTe7kwBmgH/l/kKPMdFHmXnajNl3udueel7/2oQmvDYmR9pRvJntJFue4DsL/AaO23hCz206FrJG2HVpdZeWKfrO3zyYkhLgSzzC++1gpLV7gohiR8Q50LcPmr0ESH6vtz+K1342Oy4rz+tM8y81kbJJfyVSGuwbT3NOP8346kdtAoXT1nMiTmsEzKNgfmQdcO/eZ0SyHTP2tqD8G6fTvp4Q092wSFeHLcx/QY6n94pu/uiWbKorsZMmb3839hADzKjmMsri68/94WfOVg5HLMDapXRNcpahXQTpeybUYrNxmJ1x5ZMNpNMPA2QaVcT7dDUhnqFyUzm0Q/oQoxTajXVlgnNXBV0I+Bc4/xdDwX49MUNF4XGdIshU68lOPGobmE/EVRzUnwpCy5VqX0B2w9eHNwx++tdEOj7URhBDJJeg0AKGsdnCKW11/WZI8OLD1caUeOUMf7px1iQYezaOoXWUxTwgYxMZhq+cI6pVIFyFxWs+wpL8RcdxK2mTZ9EAeIU3r13dPWjbIOf/MH/g5FlEvcCxAtwu8GWQAD1vnEmRsQe3GLwBvrkaqemSmtLb68aMLVVqMxU7pLVKpmRtIk6RfniVQTVFflDiqMWV46UlQSeSuCjzYZVN8FUogyDoyPedLhr523AG2J6SGM6SRuP8e1+1TW4bqGjb6Jd1CSPW6le46ZxVObLAXVcEUKdXyvOKTOjmxWxnOZqxlZ9I72g8Vz4h4J/4CPoVPxEYlG+E9pbqdVpX2Jgzlm+D6HCi7RkK65KzV71fW+CUo02DIHqPmByMs324s+Z6Xj/HrjuYzjP4X9JGeAGRhcJOYDMHlFtkxhSiAu+6HbnQzWDgi/RuLbekREW+eF/IkBZTAFEqBEJKllBTKEbDgyJDX10nIGY8tJDa6C3I1ou+HjhmdQl1arzJeBRJNjaT122m41H9/O+M1FMwRiqX+F9k5WLVkAeIb/FoGXXYPj891RB667Ly+SxSLSI1yIHXnDSyRVXq0LtZ0CdDpEW4/JOKt/ni3uS7Acp3M/KZDECt9FCC+KLaDliBq5SwIHdxx79zEg3Nv+QeXdTlZRdMc6o9aRRvtCJycdLPH8raQrnw3p866/4zK//iLjVzLsFKpHJvB/Ps49J77Kfs9SorNHf8sfLo4KL12qDOa2d4g7ZdrVzl2GvsRa1eo9azbJoZhftpVGTHRi3iSPMX57R8R5hVSUEPqqnx6tR/WxDjl0pgVa66KVAASVbCjX8nwHmhi+4x8ZSxOg3NbPsfGTHLovlG0uzFK9FvfPyvZFOIdE/GlvxXR40tUvfRlKQAjceUKFXZyUDIPv2dp3Q3X9CESXmA5fRCCH6icYxn7OPwo2iqZbyEMG+opoD+nyhReuDjtgZMQInUDqXPwtsDKKe074ex1GYVgHKz8MCEGTrTwZ6lAa5Sty7iDkv2mAyrosgb0rQFqQHMMssBGS581U3GjRSId5eF9E+/AcistvhtMupVuvQdN7QWRHjWBCn7KPguib31QB2o8K1lD5BIxAt/OXXbQuqMwhM0y7RWK1fIJd92At4geIAuaOX4qJ3gxThtBLq1JpcB9iVMqG+c7ZnhUpapYmMt5dW1g6TE4OTpkLax9pfFYutwjTPkYfBxu7dy5cLMgpgE8V0fvlI0XqtTzhO5cDUttSSbgEqspVqYGT8lIisnxIpR1d/u1DNlvrKw7XshJbZLBQTcusLgipEhFlvCpPUOKOKhC5mLGS0Ef6MqAZThe9/C3n9YSVBMRMrDayFSIL9xxR+3b2NY0RJTKpoJhyMnFA+l0CRpNiFogYYgL7s1R8amXx5UKho/XJa49C5mv85u1HVUI/i/0SjP+pPkqyDqwBmrThiH9hYRPzSeG4nd/EZSGSOGhOjp/Dw7hRpwAfaGuq/IIkjR8ZWG6gduOBkeS8A5yqng16wTCmSZs8NEskgvgZk3LMf3a61kAXKO7KtRqn2omErxVfYj0fefPqTCZvCwoEe6BLTuKIKFdsB2KiB1uQWT6BNxJgnfsPdC4F9B2cH91873NPTSESiIa2ska7ZvVf55xRCKswlskUOwKceBvMy1dMT1o5lcqe17S9ZshpDvNBLkkT0CZ01uYAclW7Qh4dvcHhHGcQkKATk81rbmoSnBjnj9DfZ2fHj9toB8dvlteMRI4o14eA1EcXTwbRmqbxJxVq95CA7gtNDRlQyaDPuaEbRgL3Qo/B1VfUaAIdY2Nw5KripsRf7RtYbdgEX0nRjJmq8D6HpLxpNf9uEIovPuG7YsitgYdUTLQJqVXYgapY0i+1B7LFaQO4z+tT2SfHjVVyFFawRYsaoTLyf6OiD4x54+NdDzDevU97q8s13rj1oduLrAV3KfteQih5Wfo6kYKc753HHH3UQkLzeWZcgdXNsuBk8jKRsLsfbGo5FOZEFRv2ExFeQuzquZ764Zbrp2A3PFm6erN9bkowAFPcnkH8VBWQEPg/+UC6jw2inSUSFlEsUAkK6vdGe/GRw5+6sgQHTTQYOchPxKrrAfljUMhXL/+WL62AmSQiXjWgdCMOuvWtqajpUdwXhunNKIuqUlUpMzAKAj7rAi1hcki3Z4fr/BmfUqLynn3XKIyOlt4Lx3wAnnb8ra0cMlId4fQDA6jqZ/F6jH4IiqKCPv1yTOvH8CS4NUti9Gxk6AXadTFPXNrwPbbeh3P+Iw5HNGtodjHylcOq855VHTkh/fddlAndFCDxx5AqIamHTxV1nACunecrg1nqY9JGQDlhBe0liYtdG8sMVfRqAIpG6B7Gg8hadtvMGXrMZ0YLU8/Coa1q882Pyd4c+GyP+HZC5/6yciEKZnSPt+vkbwHmmGMv7OKWXyihu4J4jVWVZ/mvQhm2Ibw5N9syotJsK3PlRRWmgyZhKI/Fcu+cI+8I+iX4aMLYfkMdDLLyIPMOUuCAPxl73cMcDsPsPeNc1jJqkj97t1rCSb/rx3ztmzSwmo397Xdrg2F2YarpY/Jpt685tuTOt/KMJuPOEIlDBYrnYHjnwJmCviWPCKeD0oHl3BCYMQIrFKpE2NAbr7oDKKc9r87I9D5HG0dAEVMWbVjT3WKIWtW7qvj8BSl+ITdx4CV2D/s7kOMa2z+cZ90uWVob5TSqPMhFwdrrGipSSbdQeWfIEbxFxKeGltGIz179NtSWLm5NFS0v057asCM8OQZizVijlSi8uiSeSvJxmQfkEoPpw1arfZ/s2RT8lje8ZTap2cJf0YfWe+rTTVGIRm0t0muBZ/HPBIkyIABFQNjyvBYHSzVFgmZRo8jgMY9mRdCH1oq+41I3KKKPoEZmcyTLECHi3/tfxCzaTtSYwasLEAdJ4nhKLRV2/exdYS7QkNrPH6f3FSHrZh7qzRzLzAtAvS3OH0fT5iojUeCEIMV9XPZelshXHszqKqgjxjQDjy39CPZDnd2xXvbcozFR2SBUKG1xSlp4Ml40rJZAykE7UxXbFirquY0LCJyv9SoOf27xBqM11Pfd3M4dGzYRPNLtkLazdQWVpamb8l1iFhdxkYocoJtme3WURfGuX1OzCbTOQLO7jORu2FIgCj96EmSs44w0uVZhzS/sWTeEgXdz+dYTG4Vpqd+1h1x0IDooYps5q+WtshpvXQD1H2FBee/dxgZb/08GkHhL/I5+WWdFLi7csKk8NMr9FsXoqK/nSZTmhIJ7DMQ9Px8InBY0tO3g0X1hD2Jp009eZog44/bai1k98BnFL+lorAVluk9/j2jETZCKogWg7JIu50iUVuNhJTtIVVbGnfrYRwLvCGnOhNMSBsqOvyYxvV733939/1nFwOYUNPhk4l8aA/tU8mWTlxmldWEFUtNRdGCKJyPCDTJ2sUOnhcrqNvpjIDw7MHIk5pm3PDy6Di4cxWFYrBkR3vxeinS01UnC7h4rbyjM64jVbsZA5V4NMqtsHRmhdVH8kcZ2KJnFEHOaNy92eUUbA+FZv2zacV7nBrO+TwEKyvVNPV4veEVuhOpwnGUzYdOIrPmZ7y2wroTeVCTDJrFLpSaUB/9XLHBhpEiWTUJ3IfW4lbUYl+s4RdTMkOmZJKfyZbk+sWg4Ad8Svi9Wy5KIi/QVdwCB9SVf+LJSXuQweJWzXqyRV6vQGv3KL04nlG/HgfZSDB+/6uXTZlM3Zn32H9qZem3dtOfCsHV+Q3SQL1V8j+ZudHM4uwFMgxj8z+j6uas4YS8wRpG+iQkmibKvEQXiVbfYQ7Q4mja34FtIFXidXXceOPh/me9RJhsp6O73gPCZ8nD9OZM5MXHNLn+A8mF0KX9mHIRTyco9V1aFOSILulaSQbiTg4t3EFxUbcLVqIK0KLi5xvs8zWsE6fj50R7UPKR4TjKv3WoTrZqGgxaudo6nm9pwUTuuwgAaj8sBn2DFFYzEUXJDDn8FBsbQDIafAI6MFNB3at1jCpuabqXeeWFan7hHKUxgawnaH6nJRK7X9J4cKf8X9hdLgGHl30Mq1/b8LaEUCBss+nv1skVIxXX63N2vT9L09XXjvhsGtyPonPJwxN2Xqi+YuebwYydR8z9xRV/mGZlKCxvu/L4U6xbhd5k0oWjrhVmRH0BdlyO4lVO28qywCG92w/X+w/82Pvp7m6nnFNzQwUDVNoOfhLrOj7mX8Eh0lVhIqTRZHA7sYODxIWPT2TEjB8WBD07VeybY256CeCtQL3MsiZSrIyzHYssg3SvnaZgxNRu18+urRD6JsRxIrRk0UH51Y+lVJjLvK8kma94UaX8hcz4VYNicofnQOrtDpS6Jv2RzzLIJRKg0uXZkUpFY4vS4BjHXnGpaiy9IUMldRio3sqIDUI6KbqpiiKEp+riZVo0qLSr3Q/mfFcwJK35rLoNOwI9f3pT/EhBhn1Y/sosBmyUSfy4zK+Nnp9tpQgDH5L/yAE60SklMtCi0Pw55TlZrMQnanTc0soTD4ndOFe2FBrnFAd1h8Eg3o3aHI0yUziR9w6bWHjxQpQms9rNmpeozsZhDpTLVDi3jB685DpG/eW5VBEWM4bnfT+6x9Bq9yObHFh93YcjoSX8k482YFXh74LUcG2jV6pq2E9qRaBVnf5DqZ7fqLkIswtmD1Qf+18IwcuiPa9+UsuJQlEgTE2bd/PU135rhKkOf12SHx1tnCeudRzj4Sadi5VX5MQX99acqW9HNecpYkbv8QdmAUaMM8rxqGgJZUgBbluo8BtG8fEe6vk9RQRzy7Fb94LXV41vFW5Qbl1xl6K5F4V1PpJzoP9BluIWqKuDr8BM6J7msXOFXxOR8MUriOChhVB7TLprMnUA9VlK3Ls241rDGtppQziSKGhrQWOkZKnGyepKYj1XtyXn1jlnBY318OLnZNRj79fuFGuUBe/BpewkIXipogmwJF7bGEUjoGlMSuGNA2HnhbBJqorL1MzQeIhGfgZkqD4hXwfUIYMWA1sfWECWJvVevaT/dWFciCfdAVwJHQpMz79fuANBMylpQRVULhz9sfOonD2Q1J9VbJHdcIoxrvvxNcGJuUneZiH57V3oN/txykvFoHZfXfI1TEDdTiHcCyieo5UXiqEgqqxjK6i0qVBc3Mgnc4Eq3fYIQfYpkHhQKV9TaXJabAUxnv4sw/gjbDdWo1wkRhaLTRft+2ozC0KwY6FI21CGj3Vciebf4cZ3GkXCGVr+hEYsZ4Q8YMpgsj5GuEvCM6vM8uV3kae2yRxi9zhZSXCPipSVSXbmx511OvO67QIF3ghmrtcbuq1trY5KKNI3N7k9J5cl+IayLIs3DmuleeL3euq2rv3VBCcVYpH2SsH/yodHAs21iT9B1d7p2d9e42JJvmDQ91k4cD/CPLvGzvbG57Jm0B2BXLppyHWtuWDMkjEg5Ro6JaohRI2K1Mgk241f1mN5viywASEr5W4dpUuVb0bHlJSXgnMITROi5CnCtvQ9RlGnVtOhuQHywB2QHH6nxlb3ZT13UTvhXNPq9j3C59dnUcxblacb8xxdqc+PMMiulD7IWN9CipvFdhgoe1OfOFG4lqagRoqZDv1ADizIh004VKpr7u8ujtrIDE/a2hMFwM1x+0AqaJtd2fjgxAznZbYkFEasR3UWqNV0AJDPp2VIqKZmcOBTwCb/4QG37QzfytdOQ9KK9yHBM8bYqVvnu+J0PMOc7s05nmt1uKTB0QO4JtULI9FJat1E35A+Xc1vA3UKi3KupJS2sXwMzCOd+/pU2PFs60wWCHJUt2Hd+AtlbcML+GwxnzdbgUY4s4HmI8M9BSq0j1EbKlKHD6ygG+hcUh0JhCGavksfE2hrq4BbV5Bgxstbv0HsDLACpFmg0NhdvNp9dowgocS77YtyWlPKENr4y0MtAhZLHc+Ss19oxBnN2IDnWUXJDlUK4aFU0Dgxzw3YDcNR5Fci2SXv6HE8cJN6k+Ip84AimfGBCTcJgrS0ojhtE0B+FYcOZxxGIYWTkwf8IuWec7us4Xv4z+/L4vvKQCrRlT44N0TdcqrjrK1aeku6McLRQqtL0iZ1tU3SPVcpPwVIy33kEI0eDbLN4omNNtXVlNZXTJ8mKnotXwjyXecXYElC8/XO/3fNWNjo4V0lrdPE994GXdLYQ2Hvln7zxTbYqd0LPceoZl9FZPaEXfUqydz8ArbgeVVEN0nApsQA/8DMSOxcvjQqwXCtj0c3seFOj3xA6MzsVGkw1g3tQQdh//RB2abMNmcE6zDl65Io7Jm+b31ElbKMUQQXz+5NBJMnGgU0zI6GfPKXkQKGW93OAYyegjysIv8h3ZPjSLgS78hHxJtFwpE35YpwT6PDrs7Vw8PrWoDAxQd0pbnYJr63eDlcfaT1fFc0FvVCHsqb/GqOTGMpHD9+8SrKzVX+ifaKC3jBIu01oZ+JwDXuqcApL+/W/gMXPCHrdofSdVFBTI3cj9TSlItENli5HzLcyiVfQmHXkN5mp6LrtuuvHTxV2BwxM759S/ARdWBCRi+YyMp0E080Pl6kBvhHz5boF1C/CiFnK+RLVHTlcLbo/Eh3adtL7Z6A4xR40IiZ0qB+rwgvIgoZeYu7Q/gcOGzHzJ+gCvYit/60bqED9czCpLuz2MFpyiWzP88qLBT0RwtZCqv0YFULg3HOaTFiZFgNFrNB7WrENdWWrTau8CHzZ77rUHHiMa0eq4B41doQ5qyrOG1ag4g8Q+2adFVkB8v3eaGNh5rz1Htv/WeDCx+/FocAW901J/GAHt3RTHGberZslLFkl5syIzQos9vn3hv9fsCJ/lwOc0I9bzw22eQj8zS7zjduHxebgiv/f3paiizDaAFdPhoN35ScQE6R/cl6fsvalQrIf5l/ctHWZ/gPaJBEduTqW12zytxR25DESxrwI2KDNsTItFkl1l0IHHUxw6coDU51hcs1UQjx4SyBgqDY9xQigaFhong1b66xdob2LW73OaNaDtTOulLIT8tmngqBDcdeM5UgPqksXGObv+sm8Bw34cZDO+g5VDy+Fg1xa6xsA48Y3RbDADX+mg5TOMAqyjQjm84a66tClL3oxaz7zhTRtQGZLPf29Ijq48N+i+EsLOZag/odKLNcAzoLwj3kCqNHaFAlI7opAmHZgVFreAyT15i/hA79ogn9k6SjHpM8q+ZBkciyL6+yg8n01tZBNf1tKSeS4O8ihL2EW+RjLj1IBNl83kn1TSBy04/qWdDXmHSRldpUb1gE1SGy1H9ZraYO8Na/JHBvbAsrGUqQt9XCXZ9HtTfR8zWr3Uu7tICQw8I6PcUswLSY5AgdOGkrCWqVruYhsq06jB/QdTbpAD80AO38vPDqNwAzsoJGUdh1a6jwPCHtfoOtFUFX7Nfg527DG/pm/PQlBbumYW6fLn60IHMZSJ6PGjT3BpElEfLczo2eQKPBAAdperyokp4jf7t5s8C83tm68QHB77TQJvTZflx934MlEgC/NdfvqAiknFtfL8DQBMVpZRBR5EIMbHJIpQRMzLVgI+Ex20cncdcZi38Faf6T+/T1H2GaMd/U7yJUAS4JHPmYWbHOzwp0JXyamZzeAmL1kY5TIAxZkrtnKL8IdVoL1IfsxcTlGJwRjQxoLyJhlgcJdmt5/4XM3kLgA/Z8XzOgBtFQjXU7Guq4nZhHd6i+oezKVbZG9TAgHZsuMBLsFJmGq+9NuMaXQ/PBQQKnzEjzSc0444A37YNdkpCRAu1PY1ZHrGpU7kv7byzpB/F91bgN90hU/6nxQhzb/ppa0qkXDFGXx7SFWaNahYZcmLCKyqFiLxcw9aaahGES8TXc3x4bsDMnWRKkjJ7kDNKcK1cc0N/l+Pmbu+Zko/60R2OJmxc0PDQtq/HwkqE+oXoBFi2xB7H37QGURI7uXlLmpLVQt2r8foKiBtCV4Yytajqe2cj3zkqOWX2cjlcajRk5mCKf4slYHKZCkjcICJ2z41oxWEow51JCvHrH5kObwc1PuXyd4Q+vPqKghIrxe1B7mLPgkZvWqpUbzsUmii0mOlp0xRJ1n7tEDOCk69T2EabY5bFmLay2bmVWOSznNLXFnsTm7vBMxe4wWpn55p8V4LrxVNGZiQOSJXdrmAvKHo2Ip65BuHGH+vgpMRdAa3CXYyCwHvOJSd4dK0MRvh27JW8cBixz3edHNnzI+BUrV6JwZMlbL6YW7nWWiTnR+RdHco8Eeyk6+dXTdq7HQ0Y5X57euGZqX9j7WT/IgaYmh4A+GnuZGxmvu0sq3azMzxhc/ja4uetv2vfOn2EApK7GCA1DnkntMiO/2Vl5r/gEp9jkabSQOkoJNx0RiLaWdBHY4uwmp/AQTwbsC0xEFwfxq3D3tfqrNUBl6setyNL39R/5SF/xmzrtRqhYbGq7Hg9EugxhIaNHkoWwA0JoE4nJ4FLwhBpg05n1pS8jG5ekQJERCzyuVhFyi3vkqYKmBPvLbktTDPAdIKIV7mGHiCvH0Bi5rOi10875B1sw4263FFuxLmS1MoNt9hya3J5rBTm6ZGONWCJsHPEikhkzhNGge6j2IfX3+9k8r4TFe2XKK9D55XXuDfdOb/ytSil6UgW/24VtIZrmdgK1wkIKbyvp7XEspCkSmhes4SsuZZXrliIfcCHHJfxFnAp6F/ukDiofI7GBINW0K4dmr+GthvStr9BWC84SDyq5ogZroX6PbVsd+OACVoXqowX7ft2f01s+N0RCGcPYLqLev6O9PGx2Taz/mfuSAz3600MVLqef7x7Ho4VAExIiXRaYawz0VmSw0Csx0NxD7E2mv4lhK2mKpZZ/xveUs/9JWWx1LIS8zp+vrjU2nJtpbFgKVHWkfDzrqH6RXY0FwwbdftjYfY7T7kfD/TWZiqTyIPAE9kHDfOWmaZcNpQLV/nw2IMw8Wm4yTmB5K3xs7sllXhjkno8DLvywWlJLbTxuZ/EB944D/f15piwduavf+VfFtLyl/nPafVne5PF2qQy0hGPjp6Wr2tpfGBU5xY3i3/UV2NUEGZLHpbOuGQORT+Sh7d89NLFbx+B9UbRVN9CxDJJ4FdvETl7WOAjCcWVuugzRmTGmZq1KIPTmczCGPUQgUlbabkZ5b7FE/Ypbgd3yo+XkThgD4LZMQM52CLcWhBmsrc1vOXhv8JLE4NDIGPomRYv7qy52Qm1li3XID1q0C5cEczm4rUplJqqxTtKtTDx3Iq44DmI53lTfT2P6Q45CDAb5h4R0bOCDkfPeqOOnc1TQZPbELEO/JToW3E6dezHJcVoVoG1mTuS2RsPcbWoHRBTTkMdPr3ddaenMzUa7+QoQoXDVZRGHXzf8IZWQh1ucwVm/KbPT3UXPsPJ3UaldVY5cl59yDCUXjuWZ2aqH0jxTaSMIJvMP8a5TfxN2b9XNbyplYoPcisiVe2Opr6TKE8U8OlsswyVdRXEa3GqEJr/Bfs3E7/H2hHBzrCxiga8nX1urUPvGMfVkerBCJM3BYPXM/uClWC55fZBaBxN7et+BmNV4NxYJTboCSoF9WqvKwdP68paEYw8g4d1hWaQNsBPeRU4hEoKtVuFxaRXs1jAa9TjpjqYpqx60j0OQ5QyHz5njkQBkTgH+3PriuV26FemUEPkPFTdc9iRRHnPeQwimwILXVbErnUpW4E3lh9JqgW5Q5A6933vwbcmJPuBsPhbxuivcJBGgWuOMLo6epubx9k5Q318iIwOFdNwl1zUR/0YN/cDX5R3pVpNI2DYsOYbnkwcaAv8S07APPBRxtP28QxffqxyBCVYKaJNQYflXOOylNBPeu0G6dhYBIDN2o4Uo3Du/8KFJGT/OeK8s+buhhrpyrTj7a0IyH1OOvG8d3oJmyj1hJUQRjuIxmyKCVMLuH39HIh4hxoWYyO8SyfvWbCPwfFDWaTUKqzAysDUoNywUb0GaXRoCa4zC9sWmRSsE5QmT5RZkLgLf9tUy3M5fa+KXvix+fIVI+fh2pELzOiuYIaOvJFWTqILC6/DcxAiHol2WSMr29m2k5Nd0uYZkIsQFsYZbpauGGCgM3K3TZXBcnpUyn1EhjGCFcOJxYhERotMuVfcBNx2xR/SSyuJajd/gMWR37OgVXWr5U7DCzgl5Scoe1XTUZaTGFxXFEjb4W1kOBJMkwaUUx7wsARQfTswWaDTVKOIFET+DqDDDMhqZGk1hXIY3w86yHIQaMPo4aQdUIg213BVsTdmew+WOxU2IeGQ/Ahceskb9FEdZdA5KVzC42eEoxWH2eiJ1FP7s61hCVJkkMQI2J05GxHcV/X7H2BUU2JSMLKQLfsT711YtU8u/UYN1eH+mejUszi25ss+BtvpAvkr0Oxn40ENGZiofbvdtLqaysdFMwjxbqN5uL/pqa2Sfw2uqhvQnYEM79NDf7BYCymtHhAKtTSIrB9tcOAkisfoldORhrU4/F2hA5KW/uvTZqQSy1EjxBadPvEkywiXk00yrw2jURQM6nSveQDbKtn9CHHsN2ZYYHdH1qiejQpUN6z+KiEoWjfylM97CUBW6cnLvt3/ewS1xG2KVGytlaR+8e7PeNd/Lq22ADIcD/XmfDcQshtEGgaDjGAaPTUTw8kvjWS+9CE7JKxC5yP8kRvXQCDvUTnYMaG9VU3sQeFmwGX5jC/lNM6mtyNhZPeqq5FmnHrSC0pxg98rODT02TNvA4KjtIRFwe/HWJ0atqVHP30g/82Pg04LW8PQHrsudkFUZB9xcFlMbaalrN5LQNjy1VwGwypi7VRc9r4ZsofHcHJ2frE8U7MqSo7zRmW1P7Q/u0WjeqP696q2ZIvFTWR275tP/AIl/nYdOLj9/6uCloNG9hixgGwKaSzjauqyR82AfLU2LW4BTTEdD2s8gD5CwO8U+GiNtcjjOTwQZUsg3wuwiA0MCnjXPFgtJv/edJVLALUyyGaM2yyv9eakf0enYDcOHBKCyWHgU4sMM/+2y4HQDoXNGYwA7nOv4z1+IKpPCe/U0NsRf4hcpiQC8cjEcvzQJqYf4EJrSt3AkjATkdr3jCsJP+VTj9rOljiqxTnK1vlt+RCoUFvhpS+mUjGuC4ZkOAXCSNOh/Q7BKk1YsqAbkBARwtZFUd0tB5gzVaobwxeEmtS8B/ZRoHoOi0Nxf5cHhWwA8k3WuzDhJAj2gtkD4Nql/+o6jYOaF8suqnoMaiKaAG9HG3nd9aiOQIERfJpluk4ic+cTBNDEPbifTwN9mJrPtNWLdiepDeX05V2S2hz/OFJJgeFPkrpPUJYE+D8FgTqiHRgWK4OhLB/ysIvmn4sSzfOUmYkhoxEUVP2S98gW8AFt1INbJTNrWOWgzlxI/tapAsW58CP3lfYULrlZ13RrBUoiEkkXkd+2QldRw1zEZGGdMUyfNr/bjnTJu/xBBnj9lVe1JtniXvL1Q95jcXVeFRK9p3p6DvYjvIUhyNjX+h3p3rqZX427/LLHhk2fPKW/azuoV7lv34FuJGYOhJ+cGbsH8liY8Yjz4Vwn4mF7SIvq+C51dXP7rE9RAaAgDtkjPzPPvxnPpTyR+6umRJi5aKT+8pRKQ8Fah8Lgj97CCd62CyVmd06ZrVTdmFSaQou4h2IvTU4QXGOrOsVPv7f4UQI77fpP+8ODIMsZDgNoSA2CKKm00PGBUPap9/NMfUHgrtV0/0k/0a+UG/fhm6v/fAbVXLPYG0LJWSvx98gze5xgh4ZSCDcnkaZea0LvrrGtIM2ZbSadAWGtn0CN2wlnikwwgLch8P750zBAvWgJ9AKwJSG0UkIaDj4oewnIzFy6ShzY81k1PYykuP+L+LhQjIe0QGPExDePTU3fozLXmf7fqsPN9m17V1N/Nvx4Oh6zbCX5/UriBUGE8pJBGifTVNbNJRpkuaplhxEp0avP1UT1pTIyeYELMtr/NJRD+xd6bgOYQtGo38CBGNg5UmGsmtkRyFLS+omUDiQqPTZ3TZrNvt9FTfCqzPSB9GQHvJg/TWRN/R4ZQJN9krc/+9z/TZM01tZHH+z4ANZmxIr6YIQGznN7+LBODcSZ4O38tkMr8zaVyrdhoJ0EvwUgKT54VLIjYOHQ9aPkhGL1Ohi8sRMzlywyIbmR+4dxnv9z35Wp0YFtgSbu+bJGIaHRdV1hP+ru0zVyXy0/AcxV2lV4CFUSx4vZICKZHe6DWVeYAAcTktn3UHfHnuhyOLOmw0U0dCoI8OY5IgarRfCXgxKEKhK0uys15GXUe7bMC9PL6tUKZ9va0sKPFSQedcsj4XFT5FWB6KrJY4q5UKgHER5mtMZKWlvK72OafFTsl+o9vRNDQO1bIjhlrfHlDqSumttY5Ek4bvbTMQD7w9NfArj4fekDVVXu8aUn6dW1p8vnACpdESBfPIsPj9HOydxd4b1HOqENJ/C0O3J4B0Ux7o7iy+KibDG6zN4CQW1n+syPLJyAo13vRbu+1lEHzbKiAimWOVo6hyYDS6JnstyT/SsHBhnlsE+39I4JcFZeQFtg1LVbgkOL+75/52+JB3+n5RWA5EHZ/uV2BG6KVyPET26iwZ0XpsK4LQtxrIYPSDyicbIbhFKbxXAgWWhF9IPUq0OAU/38RCDCBhSAcYXioU0P/8kBqrv8r61FqfJlo1+5wpHN0oDETYRT38766pKRveACKHp3Q32m8p9zpWVohHFRRk8RGSMWl7iy2eG+ly5Kc/C+zlhE1bRo/AIVdMh1dVWDqlMlAvDfQr/ylrIOyQIL2unEWOvtxNbscpTrNK1d+qMafEdhhamnXhxeJaR6YzjFJk+uh/uXwq3SomER0zd1+PaxcE+vp1DvIW7W827tejOLU3L6CMDiP3TxZJStepwuOKCdDKpxduJYK6DKx2GrxSjhpjLJ3LMRC2ED1Llm9jVTTkfQSabh5/56Wj7Xa7Ndx231zF5PYPbAIzzZ07TAj/jYa2MKgjZMlVeJA1AgPyRrz8vf584j8T6y00Ti2SAf7T9Y+BZe1fujIioLK3iDltvQtNk/fsn8BzEMLluljaf+NanfKeGNe6tKDnDSmDERSJfine2hMHKVsFIoP+Q+YtCL78mGI6v7csPcPwyg1s0g4iwnz0/4OfdiLqVoAM19zFCvRB7gliaDUXj3QubaaTwPZk4w8WBsaYCb+D145WJhirpc1mndMR6GvIx1nK1trtXwwOhGgS3x5PSuYzJcij3ieB/Q0pUbpCfTDu4zDD4KNpEIJzJ/w+UETNmIn54/iS9fG3yL7ml6Ajiq6YaENiAJaFLbyPh00VeUc1WlrcmBHXWcbWCt43d/jdTZTe44sK0rVWHXt9mnoakNIaSfMSETss9MmU7VE2t09zH33Bv+RlJyuw25JZ7CYEc7OebqnGAVIyEyO84zQW2HtHxgbsmzrqaxd+3GrbR39BHRwiPhoYLlIGubZ3vyo4DDd3YvErea3KoSjRHKlhpp+pnhHb+eQ393qITHmYsgTwb6ZTIJgRU0Eicf7DJE6UqvUIw7komXYvqptDx2yK1Dold+yEx/+s0wX4GLkrJsSuQebNU4c6u3DxD1CKfsfzvgm9v6OXb+zvwJWLmOhga4bWzGaPR2mU7Vf8QrLuOgqv174j34xrWYeGJaBLiiy0HKk7BjftEem9CdS9PWf40bkrfWWuRfvrnOoSR0Z9LyU4r6uY7P0kGTDuu4AOOGp8NM4ryTTs6pYHjXV/lrElUo9Ca/J3yKNli+4wW5huCIeWpDgx21Fo1dbdyzwV/VGL97gyN6kUd+5oiW9RRNKqHmbaA8Gc8jf/a/UHV/YlYWa3EyitS2Lnh+IwkVF4sbzxtTVA64RK69XxhhW3O2Bqh0CZU1m/b7MwyQK9Q59+5I0oLaHY/LVlUuGntHU1kxojhN/Ly819KrGt3myCUmbaPijqWhfNMYjKFSGgkAFiETAby+hPlldB085rHEKxfxIhsOYkGCxreXqaGeoDxLMc+DDr+6aHnpVh457ZsnaBXNNfYn3zRTm+qOOhcu8ylgDfXWgbGvqKhpD1FdadE5ahvKtnlx8nDv/Y2TyYdv6aZyIeTmwm0Ef58hF9de+a9HBUG8k/B4R/gj/CQ+m+XM4zyP6fBHtisMcJjUPIhmgTFmmfHKGjgoJmbDU2leoJrEI43akZL9co80voAuWo9yiVHZr641QnbPeuUpblurZ5BD8+6uuCKIMU3t9p76AAS806rXFYrMzlyiefABXQj3RNUk2Vk/dGfufBk+0hkCXcvAxigjmCA4royv/xZz5fTR1ub2jbeAFt3BSEzZNTYpuTHzFxmOIuEftC3f5p3S5vfI/7S0+tXdYqamuKWqQ2oJzXwKAwm+V6G80zKwbCywAfI3STMzm9IWWFANa+s5EossvqLwMVM3oFBfNXml610iF+f1W5F3cziJEWBTtIDYVJDU5hPdNQjY5OwcJ/T4+FPJI0MfxOnZvo1WTx2VvGF/ZxzT5UAx9YFUYK6YizBmgaxxu5vFNDDtldrRWFyyXQq5PJXvWpKe6VQ4VaPK+AXkkWIpBqIUxGoFKrj9HF/UZpJvTfm2ug+17xWFiPkSH0WZRXOGToH7PuUuQzZb4S9JcgkEcM8/fjZG1FSq/ViHk2C+byVF3K80vQh4TiVzMl8/CjIeuiR5ie8DZRZUbDcx98N5Ja1rucDIXArKoVfAOPF9NihMfCY9ZbV++hO9ZmVysfuSfc/hWUDFwE67clUWtzOODnRr7dzITCKT7tu09qhkL3M1nuu7nzqhepN+eK15r7pRV7n1KUvuEr0KUQY2w4TPtE9mxT1TvlB4NeLgdP1qdOqn8oiOVyiAjQAXWoHgXvneQO868IdDuvN1/WKIUKG0cEhLbtahHwwmsCOg9S/Km0fkcbE5ylhpgvxP9JL/xo8mr5SR6D94bbnVxkelLf7V1kxh1T7ygjDDFOt/0NwV6EqPYsOK0YAai7LYnoXCNOnvArBi3hOQKZk73oQnLydK3hbhs3m/CLQIw+44ZEddzX47DPgi5oHeedGWddciZqWWNFRL8x5TLLayGBnir1957jIFE4eUKX+9No0Y6FK+r4P++keLONOrsUJnHVcpOLY6yII6BKOVjKRhgxHLqgimzVBw7cJzX+mz5b37tfBu6GaXYFtLduRB6uxWR5GhQ95pOa1xT7lXO1xU7qWX1l4rHyMFKXe1fet5wmmMLCtLn5rDNRO681IqD3hJ1OHsKjOgdTLUpeYVh41EnfeVYC46/J6u6GNjvJzq4K1ookOtf7LtBNPXLmwYxbfSE1hrImFFP8aoGq7H+9NgNA6TTud/CS5ZXPRAG5/f0BnGb/F+SIURvBaV0kdnHo6zcOdnUqXV2Tx1WA5qThJo5IQ0CLkezTL/4yqPxOkOHys+NF/+g3IEBfaXBMNZZgjWxVVArqsBAY2xDuWawLtH1mw2Hm31swDYaKOJf1PPTZQpKYpkFtLo8bo6HmdpXGVL8BGjJc5pDkSeX2NYnF/plhGnJk48DsTntn+mMJaZ4Vz8Y3aeYsGUUI94+vQB54Qec197An2yS1u9CXAUxi0ackVitk7zm4BqoOx+sfEyB+GcQIuiAxHbk2A32sESHLhizPTfo4k+RqFBbqZRjTcdpgaKCLY35T5wtD7dYqh+NWnvMeUCic4Kuq+NpOjLe8Xl5FzLKE4fr0GjWrtSmFDp8YmkqsduECGC8Q0Cy2ZD2Rcy0/6jiFWx02xusux33/vt5pDroFMvOM9CX+jf2YmCixC3VCvJltrDihcsAtARFLrbcP71kn7QL2+2pLzgg6AlK7a3TmthDGvRC0ucxE+QwTO2pe1iwjPXBatNUl8ZDRCOTQ2YI0tUVRXJhhfDxd4frsNYR5H1cdKQuBuiNi5mSXpzWdhl+SgHkHhMhxGkmcJBEyMYa9L0hhSShnoiftP8rZiMLWknAa7xHYwSRqgCj36ny2HbYK67uStWqUutJMJFIwM4hZEEcMG4eF5NeqGAGyQd6ZVgipcGs/wi0aeC4RgeCO3mt6nmQHvP9BLoIFtP875Y5PiQFfOuZK/c8KdbseKYXfI1stPv7Eda+aVn4HyB4nUuRjqpTmwyicxlas+ra94sx2xicnoo54K4RyEL1OKuqnI+8EYYBQyW6lltHRyMMY1y39Jr3Le5JRDkplV7hJauv8mpoQzts6HDxqnepGvEVJrONBEnzw90/59/8siQQwMVQaRsrmxsviw8GLdYG+7vijERwlo6c1UVXiJariOrRIEJ+KCXb68HqwcPeDgFKEKyaixF1PurHIQA14l8Rg1LFsCMdAOHNfC/N2XbKlL1dXB+0IomxPCAK1Du5E+iKYdV+KUk0JHUDAzcIuUf15IC8jolDeU5+1Q5z92iVyfU77606NsZ3h7fku/yJvM3dpfAzdLfYuqf+qUI04MOBjDwA/pgQZVmUxf4vrDeFHiZcWU/qBp6qyv2frcmCBDUh+EzPNqIRWHmeva0OsF68WwFKZSVuHc361Q9prHQ8tVagdIpV+Pzvry1c+BWdHPzKejPW5I6liSyLcALKIfYoUtIno1OrfGiueZRRT9SqAjw/ag+BbNEbGAzSEIBoLT0/pWB//hD+THMvhMGmldRl+FF/4/AndqHidylmL0TABE/92A8VLiZlwAFlwnNXZEYlaRv7v3NlVK0WnsC37JMIpm4eEZNQ4+MnVj3C7VL1R9i5P9Qnj+5PLfzPbI/rjwjZNhus+5TzhfXx1hyenCC98sg7vKEST0Yc1TYRChUhcDDgG+AusgsSXK5Dg96irbAiAZpBG9yYt+PHEa0qCmI43jrTuuNQ/shvgCj11NCiijsSSe/5gbm24MR1iDXgUQhG+9lTa2GAUH6p0Acq1Dr3q03DejaOHUP+oty8HkqMlO5UaMTXlopbhz1iWpTXjCXQfNOSaBKNHHbMQ26J5x0dRg5liNpoMQmIzJ968ul3BK6grCBdqaMvFq3u0nGpOO39a7s82hQ+U/U+xixe0H+xVFO8hULgAHXp84AKqJWesJ1tBnv/ddb2XWP8/g7Jl54Ki9VKKSOsB/KO/CkkeRpIYz6obXe9BlEGK5KjQY3u/JU02TmwVAEz0WLibOWtHPnHGPt8N+hSFV0RyKX+AkecqgIyrb/6usrlKc56msQg5bMzihTfqz/kpamlzJn49rEMOgJrI8v+JFYbFg2aTwNpGPu74ufE/eeLBZZfFz9nk8BVx8e1Gnb/3vjOgBgmy+mUs/Z05mJ0Hjxoe8Rs4ag5Yy0HbEAqZpZl6n8H4asySb0AVGUcFzGmf2toBFpU/+u60/Y0Oejp/JHEatZkCuowxVGx3yXumsTtWcHpD31AoauNqIQrPB/t819oGsXWd/RwZU202iXakcW7q7kRiqhtjL9AQoon4Hh8q/KPh8Q+8QbxaM1/n/UWzXouNACeHfDGyC2tC7/T7pPqYZMcWTp41XqjYBJtzycncDXO/Cgpz/xgfnFGqxvGDJf2roxHTASRN4344Yl5kuytTtQNoxPIrWgMymUpBmuEaroxI8yQyZcJoj9rlT/GS+eRcEWc+rw48lbMaacEWTMW9uR+EGbdMwKMqhc5jSEKx6t2lWQs6q+r8MGCJxpePJGLpWvcc50QS9jAhDSBIR8nl3H5yjtolXl3sSHydMKYa3tSXKzIFZU7TEHUZ1o643jRTlKsZ4BsSlHPLzNbBriyb3nUOP44vSijf/iBaLgPeCAjFVSeQn3bu+4ASGkj9xZ5wvYFqXG5XRru6XwRyZFP00IQc72ep5TOAHUW6qrvhoMI7/GmPcFcjaq+Y1ZsnfZKC+W4cHZifSB8jKoEnjY+Ub+VeSSFwq+8HJ0ltPESKEFt3a0N7fDdTSFBGLsWp1mRVMf8CQEdS20lu1sIPYTYxbsC43aumIlT0diOkdBSNzyPIcytGckGwY3DWgSaCc6V3a5CCj9+g6VM4WDedi4KIstYGRpoNetKyIyO4hqvMlj4Aw2is2Vwj2ezWh8FOZjYhZUCui0qLL6dDXle5seowgXBJSGJZ1WQuJJ1w6n725jnQbvCRLZokEN7N6dcFm9bPOKQqIabAJh/aman6vJ4WWRpBJDYDGF9wfAHEyOTo1zDlBr9Fo+yIl6C7PdM+FTqxDQT5aiFip0h1puC2o1qAJX+a0HaO3P+BK0sHplrgrwTbcd0mSgB0lxt9DPXbVxnxVQk3/OkOcJi/7VDAc+HZeCLoYxIcJQ7p6rujrxva0CsbTUU1wfEJ+XBChJEvyYIQVQCF31iexAQgS4eir5wDLXhfWa4K2o4+i5MS682zK+LIMNZgNtVRotgjzIq9nElpFojsweumIPBVU56bWmb65bKPmI0M7R1ZMAd51O3psUC0b+RNm2Vr0trv1+YdICCJRBSxeRRE27TarvDykBNBU1v6xVMOpOOxIZd9xn9iSTqUrVskMHXcA+WnY3PNDafCumM7k8f0LpzUMGGONZH8OJkrD9Vl6NSjlWfUXC4Or4w3ep+NxIP17QCvfSXG/Dlp4jorxBM6z4g4fDW5hldIdnyT9Fvul3e75oXqWmTGCqp2SRXDeP81K9E5oNjXGvuUWsJAbd1MWOLKRiuJaVchNM/O1WNw4Qa1GJWj1YZk1OaxrEstvDSbeaowe4geDkRGkl6e/WjNC19s3Zarz0rfPFY7QE8AXNj081w2331gngbpsF53DZN8GGN+ir45vJWWJGD2NM4nDxU2V+SL7i4Ea5kj/3BMbRJ9KNTS4+Z9Z5vazwPA1ACPSloiH/BY5ipKJYXjUR8RWVFOBEBQ+v1EqM+wxikRVd5KJGVkuvJKURBjWCJzIujdrTqM6vSzsuVz8u2Lv+2xDAz7K/EBSOgmA44nTZZyyAk7YMkmTXzynNShOybCBDNEdjwCuxFCDCK3xuGstA4rF/IPFSGAugwqG+YYhuVe11OqNk7xv89qbNickIorcTHpdYth6GqzY3Lr1V1gHsAk16jYOYAxdhizt2yHAfEJCm2bCdsI+balbjlRXbEupNxl81YrUhpf61yTU5H5/3qM0VIz5neQFnwhppuMBU7KREqWtXW7qNvV7yEtdWneGd2/2jfkwt0ESNLfGta2vwX9y6D6rOjclfEeMVmeKmVQ0bIhMz6F6dg9NuzHau8pKtBX4axREn5coEivPMzXAADoznJKk15lVhGbz9+/W0OgQIRfqFP0WmKVPulx5akUXJ8fwAzQQitvKMSGhZY7QUzRy1WNrUAfDu28UdZJUU5GR7hnq3l6sHCXYwsRIgl4dw9jz2+12IIEKBWg3G9LmgCCbocH6mGLMk1sRGt+mhR7amEg/hev/9mb0IlMy3NNWMCw/6vTgQGj/HmYoFwhQ8+Q2AtxghzVPlkzHyUPjDcJVWoUHiAR5GmOO+zn6+QCGtcmdyCMDXXLLb7buBqwHS/TVBGSV/QyUstII3whu95uCwPhlgs4EG6GFHwMcEwxXfuvgdyruis5FlZdVrc23Y2eQDM2oURIzsWfuZlOfA0YrdX0aCPQ/WU8ATVqgIjxSr9FLcRaTm0Myz46BfFKv02eoVlTOF4hHSysUY+WfPJVHKgtNVs2MuvqmIzp6ylwXiYlRutBv6Y4KU7bVR/va1wGwjdetIAesrHiV+3QV+kDKngLswdFvkONVzYdDvxwPGQ6Ozi1vZrW+/MHtZv3Wl9nk1/zKlDFOq0JcwePa87QsADsNf/pMTr/6t7b7K+Hfj9Oair5c3ePJrq1M3kX2hpIDhuR8qkIGc9XXyDlFjlUc8zQELYaI3dHE7NSSq1ViGiQTD8ZgfyJpGtV6SrAQ3jeKG4u0id2YAZOhBYfTeeLW9di7Uopz3WN7SE985anLa1lKMU7ydDWKcqionRezN7ghFRyEWTptI4hmnyPc3dBLahPz//T6Nb/uRxz3vax5f7G8GAKtqhu3QBLlnJRFy4aSDv9Pe7GX6NdvI5SaEA6L6qtg7ncG54nE+kPGcHeD/7hosc/fWBySeFWYlCxKl5BI8jGfJ24Vrk/3inhbUJizd+B28O08FfQdVl+Juvd/SRzoobJSe4Aa+My+xbH1CxRINUUPa3Vti6xoo3zeal/XeALsnjpuhPJ3VU0p4mOCo/QTlSfMOCWDwx0gvfZYEqUiAcQ/BIyJwuNlc60Cyh4weIA8sBNkqPIAg31sk5WMrjmsHuqBbXvqjQJZsVpA3tvhefv3mcw/L9a4Ht6KlRrXWKFofgWiOxhuZa17y1DTXwxM8zkz2z/gEd30djpaZeYfyBXHR1PCCfINVdAxiEMSx30czAyWf/qOwa8OUs2oVF4AnsLLopx0eL7ZhY1HE6EKjlT6s3LxhaK71iZjYvqaRWIFFuEIWqWVnZvg35DNsU7Tl6FfI6mXRHV4do2ZE/dfxpFATN9Msbwg5tDKFVciFPayia8bv37Dx6w4IDknftjhhoWHnE1OX4IVBxZQhyVe5xX9mSDX+3K8s7MXEnnvqoIt0b4Vtk1OtU2bpb0FtlZu0I4rD6gFD6GLzNo120HchHt/K171FwZcy7rdWJLGTZMiGYjtpGNUdeo6BCu+y8oEdLQmZDpLSsg/qnesRcKoMFQHVCKUMDBTDHa1C9RYCALGylhEHluG//nZoDXS0YzQvdHgdVLxdjqYcsH9WdFvKcBbeTTaPE/Yxb21YE5nbjKYlHW0RIaBOmbQBLJ5grNPasESKObwPMtg+uUsTxUGaxOX5wT+PkCXFdrBcIdqN1I9l6gu+DHGjS6OeShRFgkskIpySb3OzfkqiOyaXluPUe5sUncQckXmx+igq4Bwyhq5iGcDqJ8idObt0VT/8PpFnXPQ8dsh3+TsosNGWUnVxZ5Koz/z0KGDgw7mWv5WxCDlZQS0KWjJu+MCCElM0tB9yUUzJ1S2M/yZUSTEPjdTCvKmi2UoJLLo5g4fKgC/ZQm12tr4qsa8dgwATPqjqU5+xegBMtskFS5eLyC2HHSy5iXDVGbzJjZxyQtfOFYMLcmSO+9X1IkxsABftV2VNtZo6kzxrAdTXpOv7FXmyCBcvUQIitawRsoj5GebWYIdW7cwbCsLgYgUsTFuAlkNGTDtbfA81naogYzKJz8UX69E2eOLHPDpY6f5oMlZgTWLNIIWCN8Yw27rmrONVlTFzZhm5XMahifTjIxPAS/J3kuOvQdZ+ke8sCoj6QqXOZbajeuM1RMGpSZY46Oph+nCKaJ192hZd9yI0zKRdijp3KrnsZ0Zpbk0H3w3hxi4wrOcY0iF2otKubbCClemKQJX8otF/Io05mp3tDzPJrb5R1cqXyhoLkm9rO8gywnXQ4fJ+nq5SdEtRwOe26T/LG3pOsgQorJvZ1bmtd9q4VOZHDoLxJYUfZFdluw3YlLh2lMHhICH32HZ/42JbfVMq4DVnLW9aFHgZJqmRGCmidJ/deUNR/NEUGxfF5IpccutXIC/GPTBuBMdmAUZDoSyh+uhP7mDqQ3kG0uoi5DePBT9xiMTgXY71P2WMFa4bYgGBe8oGj5rj/q/GOBg1vgsql9GKpkxIitKxlz1x9cjYLSMV7yYi+4SLZiI1UM1pG52tJo0o6b+kKO34/HhvmkynAAnSG/7FdiMFiMDTXbXYtqoFrBWHwNIN0RJl+JO5dY+Ivj3zLi/Nhn8qU3Hm3sfCcgeWtrmZFxx/rhG45/icnlz8ms8EVoPEU0Mfvvk9qvO8Aol215N1jdFCxtjGZDI0LQaPHAoMO+QWU7T2Av/Yb/OkWIxdLyiWa0VGixnl4kWnXdMPtPzsIXRRglA2yNq4aAL2gWFyDcfthiIpegc2JNaxfCPRTCGm5IgwzstgZCiJcn2cHPoyiDrvkg5XqM9KGAvOz/nemEOLtDpWgQggnROnIflXO1AKXo1q+l42KUaETrAQnHnPjW1ErNQ6qyTf++ftIxKkLsOyF3reL1+tgKfeWmApvIbdZwW/YM9ZYoABAC59VFxDEgpWkpOFXhKPBY3/UjXUu7lahNjBoxss+K6z2wTDRa83j0zzGKEVABkZxeEtWaLnDkeWaghf/8oPrJcdfvQ4F5Pm+MwR4daGKq7qXnxqhUvLtuwJ8W0xCd95gVVgZZ57YbrXlhMf2awsVywgx5dFPqOdLwRor9fRv28gDGqmaEJbYKnlV0n7iiQjqcjC7lhJkqoJEXsF1IbmfzamybKyT3axjC4Kfmas4H2p2RTXrgzbzNvxTx8uYJpiMr9/II5uZ6VUcY0fqjzn2HFUMkbZomlRKQqPVXSGxmvVz9RXecJsKohKbVFGglNIXbN678wBTXCaYDXc75qpz5bTLVbmZTZItjrb8KHM36zmRoWJBkKGpImQgooHRjYZAz4EUBg4WlqOKvAre0COcEPmKQ6X9L8szqR3Nh+mbO3nOUcyoQHsW+fnMt7tI/9R0adepzHo4P0Ifi3V2KhwQrIMv0prTXKZqD1Cx51vAHP3DtM1vp93ySLjWDGRNaHO1CTOJfbOvT/atw+68eeZTaw6c5Ed5/pAD5HAaAj/VlxmGcNBwQW5o/j+2HAUrc0dGAJiYQKusFZ/FHCwKXLaTtbKt/ErsEEBQXnCyHCg94ALuuj+dFxvaUoX4KP4or0zIFDuOf9DGJWnHZl0llxzPw414WMuF6bunaq96AzRZ7u2Xu7nOund57cJGCDXH1Ah4niYO7LwyiOpP0uCNXu6NWSoDoR6gWe9ESlUhq/SeX41SaES8/7NtXAy7CPwVacOVS96hP/mUYII1WSrhsUEyQqugX5McCb2lnJB5Z8MLjbSyckkM2RbL5+/3aVK4RLu6IOf9jaEGSIO9XUaxZ6BAjH+1UIKzFkCmgSpP2h68ezsf2WxJea8OG6QuvRIrsQ9gxyiu95ZLOd/chua/juLiwaB9ASpKqCKc9aK8iB+50W3mW6tUdaL0wIFoumqHMfyrwxDghvY4yt1OcQSUTuMWSJAbzdJFIUFVjTVSjkJ1LH1/2XfFGV05xOlWX1ysHm5MoOUdG0Kaj5EfxxBWex7SUL37Bz/F0IG17Si0c+47juTzoY6y9lANZ8IgTLGmQYzUF4IWzm5Xl8ucD1KXLkDZfATWas8Qdj1XT/uKAY+7nHFeWYF+MLg6p5PjpR4D+bYQ78Y3hequIs1DJJXck59az2T+EaG4ob3e1KjsB1Pb29gX+NZzSd99jASNxDE3r67WefVr8nrj+rA/iXmT9MibSCATqMFpcmCQg5bukEsixu711ejiN6j2BngpxLMxNW8Y7nR7EkgxA+i/mZlKHR61kZmmboT7X1AxoQ8P4JbxaEB+PKFisDXYXZk67fJjQvlB0Y8Bi5XUU87SeXDISszqtfXDnFMjDL4MDto7t7XUgeKPisxVm0PFC4Ymp1reeCkcgMlkOSMVPB9CfYJnvY+VxZ5SMcWfXvb6UpovU9wKJ/AUvJYCxj5iIWX+qh0sZed3RqYjM+zIJCgtpqO9YAfFTWxgKQ1Q4o/u9K2lbVn3Gr7gCmMMlTTq+lnsnAlyPkuom4keS0zetMwPSewNg05ARqbORsMNirl/jrccAMstCQCCV3PrZl2zmR1hz/GSYJBKXoktjOvZxH4vuN8bUyUYZfh0P4E8Inty48hZVP9IHFix1MOqK0m4rbbj2CQ6E24QbqBe4IiQCu6Oy2buwem07Acx3SrGv5j+BtnbYAFW5F1E/5rh6J4O/vippf1WWYaQW8HxU820WgptAf8T1TTF2IhYEvXeoprQ8RCttkTQJ9UG9n9jFXsuaKeaiosi49SMEw714SpDVuV+2eHHcIKIumQGw77kbEMq6mFmgTVuyizKAUQEdvcLiTviaVIavkBsMm7rqzI+8/fMBNo1kH3CwUqbvsv096PYdE4l9FwEDAlQwvBiqnYIH1wvFwHWmIRtg2M7tUwfVN/jrPzY0ubf85NDwgzyN4ARp5lPamYR6aGEGrC7Aj4giojKaW1AvW0xgd8DvUt63CEXHt9Rf7geVNIU7d42VAONYzIA47wu33niTmowxWiG3i3U9/p9izxouBzVKwEb8PmquCQpsRzcmpuf+pRuSgPJDVcPalxp4xygOCTq8t10MRDBd1Hdp02LOyCLgxrtpeI6bht1M1B8OVNB1ygXekbvMdLJOfiyNmm2nIRR4ES8m2/JIyNI3xl9qxaTHLAWKBkskum1PuFWLz0EtuQAj1QEg+itczj89uk81FYwDwJrdVrS2JDqoWt9WU1xwSdQ/dIxj6JGa3z/SEVuYWJzkYrcOVqAxysC2qym/dtik/7PSI3za9pYpGP9YlL5Iz2bDtGeL6Qtq7AYu+1FtVS0WAju4bK7+sw+LKh1I1W5YhUey0uGA34W+AEW7KlgruEQ4At+I986F1haQAeDTkd5Qc5hNkRKYVBUjuwLfXg+rActc+YkMswruVrl+OELy1HI65N7Txn3aGTtsK0p1frfQkIT21nCQu6gFMGE0j52DtXJ+KjhgYHg3gGGBWeWJCsHI4ZEgc2Y3X/pGGmEUPmGBLuUmdjrQF2H/Uc9Nr+XZ4FrvLzWuuHzNMzUNuLLIovvGTfQJyr3lmU+qXA3p/Q18NSxitm+T5q/cblLXnQzUg1lbypqadZDjH8zND0K7rzUE0/dgCsEKNhDQfofJgOWv17u8Lb9HCI/BOjsOgntbRFpKUG3Bfu1ZbaV9tzTnEx+jIvOYbJNcXLUwhfhv/Qp4TLLM4S9UBH9M/Qk/b7HahYDttqW2nAU7x70Syz8JfnkcdWphLonPQ6wpEtbRLp9uTUkScnnZQl5vCROj0cwVwzlWrXtHrUZuWFsOOlepzGg6PKuArJCvyTYBVP6asbWWtdhLcX0NLDwpz0LGBQp27DXRI0nro1I2INmRU4AHpl/7W/Lky55YH2vkXAkGam39IsczmfjTDh3feldyClhXzVKLJK052+lWyDUAEt4++vnWLecNbkZXQLFxBjewuTsf6648SRZuZm7kxmXziPSbo2mSSmhnT4C7K81Y9clK9aLciD6PkE8B9nspW/oL2FAe4oGXF84YmC1q5imHZVIrpmsGjY09EJmnADp+sDPE2yYOsFsZ4qfjio307RRA5tcQIiBdgvyYe0lHlxyrj1HMXCCbj9Up9lyVQPv9Jnhn7xe+uXAP/SxZZzdmbkweTepx0VWNyPtjmsANobyf1Uw00ipQh0KKKWoqEt9Llhf5f+g/RcZj2T3IvjWqvQjKvIYI4Qbv6k5t8SivLiLuSMdTGzU4ytDtgxsCeRJAPHnb7NlRZoYeUiI0UkVQKjpPZLUdfMRPIZfqLGOoULEF+Nc9s0AhQYhI+ledL/BUe9VOS7OYoxLlSf4ByE3fCxRqHWTaKwFM4gK5Obu5xzsA5EBWQmi0aB70MIbxKeQl7JEgxmORY6Kura/cH/GtR113b7qnMrqOE+2kq4TP6JzogJo/mBXlSq1Z/NSbHWsos2KWYExp0HU4ImH4/DmCgUnIpLT34EeaXHmSnDpCGke9FfXKchHMT2zU1cWNGn/6dHqRo3r9uQaM6EYdH2PhRPLw0PKCsRjYP3IMRRORYi9jL7kptpNEWf9iraDLzmooqtohAaq47ooIAUn7b78/wGe4O8jawxWCHwp3MGkruABjXhpeY1K9FXI0BhpW8DBVq2RCB/3unBr2ik4qv5t3B8FcqTs9w+0dJXUCvkB3euUUXVmTItcqiJNmhqGuc7oY3/jgVWwxuwdUJhjur7rAAVoyGbrWfUIlkpV2fa99xTW8b0ONwTW0zS2DfMU90BnQk51P1yfbOLhWLODPHckcRxLX6uhyi8PuqIIWQVvxXrpJ30JsjBC7IN9dbzlOV4dDxiOi2Racmhl7QNfzSzcwuIkhymbIeBA3+LhLcUu4NjAfZ3NJatM7dcK1VLAkGWOgWGHVHKPvUjetyLd9eiQrH8LJNNACmVKU7z6oeDTtgCqhj7lcd4KeEa3UW8763SVCOFNEZ4Y9bSNK8YbMilEL/8UfnWRyezimWThK2DaYhgEHZf60G734Tl2RjkyhSQG9NNKkrsEzCULYAL8TDU+XDRROY7Or5zcwToRzfQict/Ev8M4C4+tMLLx0mVa0ZsxP8Y1pbjzbR/DDwyg+aoKKjrOEZ3fNUKMRzByvK3pFt1VOygg4Kk5HCHa4/NDDQoWVrobr8cuTz63KcdjXI7ApUBmGeOb3Av/r1RA03qtMDPh+n/Yt76aHuEEDM7RMhzBhlSi8VKQVhonyL3VabgUzgQMXZyxN2nDg3z24IFmG0SEZ8qgOGRo99fsNZl72/Pjy5V3sxa5clneoZ+zA5UrBBw9Iu3VdLnmedmwzndSQTXfRZ4mDVMfZ+HrX5qhaWjoLF2QWZbATw4EPb5AHefFnKnNcGVbiieRh8sNxUcSlMW3ey4ZfmR6AytLj+RAsV2t2VvNdFajtfWCLy+TT/kgnfMWrLV0YaIHzdoAan38jSuL5/0wNlvUwk0kD3ON2EkFIQUmMquThKtTuYNc7yWFuH1CHiPAl9lYY6PDh8cdHBAHvQPlBTSEx0kVcbDolSaaVg07bbuW8fYvTkFquVn2cci80k5vqWfKTy2JCEOSIkGK9kJ+JmqiyyrO5wG4ik5gy/dtdjQWd/4t2kpgpb1AzjifYzS2oIivwhpcUcm1IljOMfiWhaE5ItGkV2sI/woCzqP70kOiHAY5l30KLZpHTGEkpmI9c6dklfLucurIebkL4Bh7IFIyuOe//XqQGysFHVbtQzNjqRoGEfvMue9LshstRRHZsvfAHCG2wTn2CFQdc1n5x6LOQH9ov3yeVoRrWy/pPEh815tQyJCZWBZnxdgesujD7lsMMDZRRhqkpzMnISED+AkNtAzo0HtmHxo459tuLjODH9xVjQlBfxnoJV790hBd3ejA0VzT+Crz+d2JCMZyJ+Bt2fxc2S1y0CXYE09Ex1wE+PDTOWYB5Fj5MKwLMraBl+WqQet0+LmVdPOqNqt07pspvKgpI0BjwtYYVzy/gXUpomZiFxMXLUXWFY0cQJsRMrMnp7hesL2+ZUhESZPqKu1QBM8r8gZz+NS888tuRnF9ffjD0E5Q3u63vANDpwPqVRSOW8Sx5JRTOQBRELDZQ2WNWt1Y7nqfvibsOzn/cCsyCHAp4ceh0jQEwD6cRTN8416cN+EhSAIB7Xw4lg+aUe4Gyka4OBcmjaC3ZiCUZKmFhIZcVoTWlRsiiDhsDDYtaG5dL8hYxPR8zoFA6GL4ToXbBuhvxBXszqII7PV9c0rx9dw4qbSJFhAbE3camxtdJrW2HkQ46Zx0sHVb+enTP1NLlGd7Q23AjaeZt7OzMCTNqd9xrInZdkgmsLfYqreTGM8AC9FPe7/kc0LLShyk6e+MGucfwZSUJGiNwwqaFyUIGYaThbhdR5WpbXFYj9a1LwadSlrt1RWPc+B0jFRfr09sSXgHwkassQc6s7RtLLbzbF2aJRq1LHm8LFBHOv7Z3LUgiGE+jXUqwcBI+VNfYDisn3FP/yoxZs05EZYOzCiVSVlR1VAcBXZRPT/89FkOua8oQuNct+u1JvTQlTNPffiEajWcLDgZaZz3rjkxt7k18iTdeHua7lqr+c7VOdIOKjlq78OZ/FeLQDIF0o6VkE5I5rmFdy/8IkNlwuTJsck7Fjrzo9x0UYjuYA3GCnyH5mjIuk5UGOiQlsVak0aNJxKvzo5y6MREF5kEtbPH3y2Ay3fibcDMKa0dQe8wzqoseKrFXXt+LHdLJ3bQjhvGiEpCdUEL9JnDsw0gkB3ZhD2ayITl+wOxFKIKhKTJENRNeYV5Uy3zv9kHPnwrd+dqEw+aKnyTSll05b1iMwVaTq7V5O9Kocxbt+rQvc++y7SB4+bBiasfc8cRJ1Mi66As8KVICzk1zbnbEQKtKgDu076dMHxjHLpryhbzSDVjPurwFZ+vl/QRAAoM+vRzKKTKSbNQIIooZ+CUa3GkZtPyUVj6heaQ9gumLwuAlMUcblBnhVKGrydaPBREiEyOJqaDzVDNgY8TnZCRwcIEVdC9V4nNHuzlLTPn4FNl94TBHa3xvO9yr4BooHAnvW0I3feRAXJTJT9rX0iRkqhAf+LTxR9MQGYMQmKsEWiAXfYuxleWSUDURdqz0TSTDMubr/iyHxPFWxHUkelaFWjoTDRasPEpYhjpGf2yjUm435Jac6VxmQWfk+3kMBfZk1XwZUv6Kbjbgw65SBy7oEPtuSP5hQ1BAt8G7wy8DHVU2Iw4ASZ9UZdsT5Z+Ll5Xc3pIO2GhIvZPnlZZRh2Fd0aAArq5teYsBitT9f5oyDrIopijAbPNIjI9GTjV9c1qnGiLxme745SejO831z/VTTqfBqxWldoxQAadaPzc7vU+DU8q9UerQhYKYUeGmq9SDZ51PHWqnUopaS1G7+iYa5rs36DN59eBb8QoJ65iKTfytPMAymhCUu5DpJeaYgYHaK1MoweFUc/K/dnQZGRvkuahGZXPzd5spdFvGiWwsfPizD/fV6XRduCUWtTC8hMXwrcoSKLyd1PqC5uO/ohUs1DQQaNDAVWXFynQwQz4SInbBugbQd7Oesamr0q/GCdfZakcdp5Xgpu7b8BY4rzWW9x1yc5yFEVzUP3gB3VsdwU2AZ1/K0eLpRtUVZ42p2xaM8pXF/o75zjzx8c6VSaADrtZU3VmXVXgKFFF8Sn88LT7Lkc0HKc9OqkE53BTfbYSeQC54oF/zhQlhyjFtVMmxBfM2M1o+inLOM3vpNOYQYe/EYDCaaBmWjtVNS0QSjodecZHupJ+o5s5/9O4O7eUVL9wtrqLebO8Q6VRM0L9jSPVOJjlLmDz1WPFU1RQ+eyDV4mxrEpy+w/s3i/j9dq8VM4Fmk/gdpoWfbvU55kpVw1/NYv+q/vzMx6xWNsPP6jSkcKAYTbWgbPRIO6jNNXrpwmw8j/QHkyXKsuAMOtDMeA/AYvGtwy27z2MggvPBlOoDJWhHBid2nSpsQqBZz3yKQdE1D5gwXlh+rigkUWv6TQVobcd2D/Fbcot+TAYVM2DBFOOHFF/1eUgP6b2HswcRIhZRPANPRCtojWU0Y7Qz4kALr4W45sdjNTiCcUDOU3DH+2kF6DxobciOLTJKAR7nrrZypOwa/M9gD5+rjzPRxFaFYSarw0i7sxtRf8vX+IOhE2rmZhSvIZNhMaSsPKQDKSJfREuXogxl0CR3DMCOsJXj5g3QdhTDPeo3v5XdJHJqVDPJiq934RWFz2UkOvJ9V2oY0+q3bNwB472liuaKLccWVub2nMLzg23q8t6Faf/t9NaTCR0X5rUJ+fYwOcVt4j55t179MF0g+Rt1ilvDJleDUghO02z+HhYueLwFJbMsonYNrav2iV/h1cPKGkeNI7hd2vwXi3n4ir/qRWdl4HEeXyrrlkjn2Ek3mcc5hZQnLtF6zvtD1wR13Xa2b1P4Z1UKJXrjUiTz6/iigBUT+yA5Xu0s2UqfV+Pm/j6UzFHw/2MOhXTiwCuOi7nvqnuLF8L9s8rOcxdChO762kq1MgIPA9BKiC6CgaKtwhbhixoC6DUWMYQme24OihF++AqsNUtwytNgia3brePRgKJMVWLViMeAy98Rt9Fr8mDfHxMkAUSL8/6nW0KfIeBs3KgQYXLk51EwvszMDfz3LmbATiWtIlnMhiemH4op6TZo6HI7+2TkMvwr/R7IyuzRdvJUWa9bvNAcitaNo2Vsu7zpw4bsUdI18bCsfdTAfNhiQXzA22MsAJpN1ZYmnpHzBz8nyx7HEyPdkuDPNd+RJ/N5xNx9cc7Ux18iugb4Dr89sWbJFsfcknbryxFWQruMH+vEMSIpYbFGug4xpWdsf9bZJ4UPeRTIbC9fW5w1PTiGd2VVanvTsDpmYBtD8SZYmQmPLaMUcYXb7fYm1WGac6wO6qy3DMB7eho660Ln8aKwVqQFgnLsfKUjaHmQfFpYGnwYnQwovPaUGMr6YB0iN5g4R/8VoTdEAKvKFrrp7hu1WnGkcWkkDOEp6d0Bbhp4DfR3CJskPopGNiAOBYpaCIpdamk7Z8+SItFCVyiP1dmiO8Eg87zGY15g289oqOj15HqJCqRZuNild8/6fdbZlkXUR5CApoEMavFy54qgSrPdxZ4PuAKygNHfUCHpqdw7fMKoUZuEKtBApWdm91M0uBj2Bflsc9xln1ie2Jq/9stChSbFICWH0ZiXxMPrrfNjgol+sMxWIjUXZTPFL0n8DkewxXlT5CIpeRws+0kcQ0owHp23kEnokTIx90rBiaqylYHZ0oDi58nHnvL9nNKBUhARi1y2Co0QyLRXA/o10yWVuCEgQjI2RDMpYZQ/XwS5GbgR9MMvxDH5gItsOzgek6igmSaOKo+7ZbBLor2lq+dagYjD3zisD5Fb52rVDh8aCXNcHc9p2akNparJ5G6tTKicnnOBFVY6usfVmcHYvM+XqSzj8pDsC5XPzgWFOpxbqe6Z/REahI1YhSDvtntKkbVjjn1CbtPEB9OFJmo7zqt7GuLbtkQVmpp5wsZZW53/6PjR7Zsz9tinKlTfv1K7iOKy3MLbMvEKlX793QWGorVo0KIoRCpxgUGI28N/k/HgL+eWWTkNuSoTnc2cjf4VSnSmnk9fFIB/jjd6fyBF6g8T/QK8+gnco/2LYA/LVsCDXOhP3LCk4GKUvfkvAFnOQnimbXkwAIJUE0m8npUgMXul8COYVbN8UnX3vUXlkaJs7dRaqTR+a8AAtINCNvNvpbUykeKjr/bXPIRg4cHtIo26RT4XPlHaOnOBmE1e89lWMSIWiNd/ybotuAfr0KXOHXi7SHgIad3OYZe/vRr+u19d9uMpN4lRuA+EqNkA744pM+Ipsxx0IMRl975CjYK4rMXmUcjZVgAx7EZ8E5oGeuLDVQWRxX29RIIIOzj5ckqE8f2uFOEG86SI450HDp0Vq8/tXlGJCzDPk628ZsTM4maPNLJPlKdYL8J6JBnW/AKaOOCy+aY475XWS4fPMFWfds0JM6DrlX/lwa/OpDJkEz9iVOsbky5fu+ldvZVftqBX25XRshprFRf3yXVv/TXdqX4VBcO6f3TZ9x3U2scbPfP2G1Myd9oVFgOI5UUoXG0/cVhHQ8waacQAPkCb5y32GAcY2Vj43UeOmrMpdXjP0CwdxM7xm2var7G0xVpzOagmhoNiMoSFkdrvoLcLrw1w+mYnMpyZA+vap2tmtIpp9SDwwMrKcXpz/Y5wsuv7NAp3Gn9Ng/8F6CNCpAYy5TYUWGhbdW8BLuCLap3NYdX7TYuYSCnVzjv17sNJszQYjAWdthGEJLP/wW4YGnGIatyJwPOC6Imdc2ROYsBl11mW5TyMAG2AlnLleBTcmuZnN9Uo+PSX6Elo9U5Bk2GPy7F0xySE9kDFFP6xcPWegoOgpS9swTbRyV0LEbp70+bri0/vJLziIGBlpvIxDoaTeqgs1deyyMsuLyFE3JLOd0+1d/fjXbUoYJWTegsgD+YeDmUPnFq3KVJdArP93e4dogwylRWLVUU7sWbv8/GUAY+UhTrPftoRJkGjqF5gMCPbzfU6MmwpEBTr9KnJSn5zTnXrMrAj/58jBnCauk5c6itvhEWg0fUXswCBliAbEEA2GUpbAoNY0GZI4ZFiLTUOQHUyZ6JJw1Zkb97JDGJEMytRPrTLftWyzxNCu/WHIbyMhgaw+uZtyoPWlEyVl/L2d+Ti30hd1uZMb9fcanECgu0eZiNlMlNNgdK9GL12OdIWYnOvznOdaOhZQpczkVnwnQjt1MnOk6s0SXgDxpwKMmRVwXqKpJQJo2dbGQA9IjwGffzwxHppL4w6e7ctnMlb7/18PJehvATEN5ySCwvYXrDjtuuJmFZaPI1CpUk0gq4sOfYd199zeB1PZsAR2hF3yqtXF4OpI47lfA/NHzrurMr+deS+mm7+ZGz0iCoeY7Jd5NGh0W6N9e574UcM2nX/YZYdXLUsego0XeWTXhKHfJrTEa4MyOxOU8Algeji6JRA2KFwikxzLZJZxdJhOLIu1IVVKOAdaJXdz0o81HxMBkU/bnNzQNZzIW/mzxQf1S7B1h2cRi4+YHLYs/OlEhOaSsxMtpALP3CjB6FT2Ub3Yw+g2fRhod9W/xgrQoSXB8kvGnk8LTu5Pq1HuZWKpdOBfPGk0BuY0GRzLHIlyKfeWyPTfYyJnclnn0nqYK3kIeawsnhojhSLxohe/C2JZl3rG/yvPbGuR7qcbdrwoqV0760WhATfFnmwfvZB/pxHL/NlFIO7ZeyTBQhI4wzD7qiW/KYGbwSEqynZf1qcG4lLW2ZKPSjqi4x+aHmx5Zmuqo8N8s6E8HEK9yoBGut2SM0BPw2/yOCITFfoFBTPHPaoFUPbhFJyXDlTrHV03uVFUzE/OhzGyo/ckIcjyNN6cSYZsguZg2AhMyVJJ2/rJxdCzqmyMbRYBHmXpTNloroKqBouefvlBLeJRKsvGKz4nhKBMdUX427igwMCNkY+XHnaOMLTnmP4XU1AgTw//bRCG2Y32ZKPBi1KQvs4HxJGwEd1/RJHXZ78vFvC4O4ajh5JSsPByfmnBcChXile9OUXDhCf50NfZ1ysS+UUQdK/SPUUsHHGYcGycFjSWi26FgeSlNy9UCvJf0IAumHt+EPt9flAYLKwgsvtdcdlIcv8o6DgB6r0glh+gasO1HpOUkwUw2rvLAZjUWG/JDSzrBPIJvIqzBhhRAZdex5a4MlqCdLyvSCGsmq6/umXcHEqfxvRIwDgghhKD6TZrAoyY95R0mIs+RZQTYAKrmcvASgHnPJWjIaw3++x0M2zrozgL7qPkrsgj239R7fUX1yhXO151ao9q62TAsNsCIy4l4BnRvQXWaF8BkTOlIQ2bMw/+sG8xcnlZVuxjWo149FHx7NDJEl0tcIE7MoAlrAENsHtHjky9lKfSNJMBQT4QC00hPzWCwq0+AfmtNduL1VfTKtPUszXZNqPKbpmv1asrP3jTdt4wQwgWmfxXcRWAqxwF/3oCkzLtC2iT0e+iywpF63tEO3Fq/AliOqjnypF67bxHZf+Ms2sjOUHbIy/ToJx6YDLmC/U50tDgkabJn5SRyHj2cqNDXbl5rjLoSGWTTNatSWxxnh1j+W28DACZ4By/rbqT2iZuwwd0Tb8KmAwlQfVegWsLlKwGcYKPSgvNy20gS9LS8+lYwm6ng6jkD54xHrlWACDLlq0X/67VEfHflBVPZAbawF1OZAE3xRJ+KukzH/DdlcATYLg6tg6Z3XN/9w8KjS8mfoXR3zpJG0Cb+EQwS8C7somFjKKnH0+6ZqL1I8CLX6Ms3xrGDdkn0BDYMX4GR0NhOsfOyIcxxR6VqOTuMgn+25dmvQ6MXOmj9+I1fhRWtAmgVjUu74lUhRHHW/gOopdPgbvdtucKvltNkv4kWvOKO76FHh9P2gLjRjv5MEPbrHkdziaO3OnqOjuaKzSnjaTocC6xxUT1V4Vnltjt7SIHKJ0fXau2lAgW5+pIBpp/ahLGV5hUm7KSZAeBnwlfZkgcn6CjrjOd7bAF0notC7cxYQ75ZdVS6E4nRO1MlTnqNHq9Uunt75WD+MIDSeJEl5A+ejO6VqlvyPWRBbzhhk8KicIs5u7ky+FKu9OlI/dEpsi/aekF5GrCT5mMXTwza/H2gGDVYeOXMFDMmJc5/+7z0HQX9TCyBhXBUqp0Y6OsVfutqaOq4Pq1grs6Lvh0meMxT1cE4g1kGURi+kAzU/D6pmcTLFLrA9e2qRFkKL+FzAOP8UOWbiYZ1xcZYYURJjmpcByYy2z8UO42yuCT3ig0wW4QKEVlo8JoXZ8tp9C0eq/kuxNpt2rxuRscgPsHIXn1MyOib6feBYMqsnCzUaJQ0zlFCw/8aNv/hnSaNJP4RjdpHWZ+g2VUMkJ2xE01y9tk9c0BbCbHp1f/p5YT0bNyVRWTO1fAJp4vIhtqHVKMZNmZRMSrjRgMxfDl3MaUmc+0yZX2yBCNTJnUtmAamx3GlHVEWlssKzoQ4VF8z924UUMNBD1BH7qTDKc4w/4+yB5WltxUBHmlvFD6WsFAbS/cRHtEnUqTMsIl90/KjK24SVUuYswGKqBBS9M5GEEgYzVVRBsuvPRIDnELU8AAwGK3JbO6/c6R4wN8Vi/rf6IdGvqJVs6tZ7SGT21hZbQ/B1xid9SBfCprTFBNVTbJs+ZZqBhyF0aTNhJXQ2wwIS+zylhIfhgvqHsQIlHea074zm+ZmrFWX1fQEgSqhZtqB1Az+sTIC5msmXMMHwZl8l4YsQ4Y3y0LptFB4sfknETfE8rVOi5S1aFSEH8xbVv3lT1cqzxZOUqp7BuA9OgXrwlI/EJi5ZsVS9/KaaVR2Agl7ZY32ACGLJDFDJQkbOWRPvNPN6ZedPhY258Zt7NFNSeDYob1kTpna7ve6C9Ad5EI5rStVht5Nfd1KijS1ulLocd46/FBXd5n+1h0syz3lWqGkRXVzuNx75+fp+mmtrHlb3BJ5huuUlxbQHOcPJ2cM2u9NMGtrDOrx49owgy7t9PeuWFmSSd81tkB1PcifTRHzC6BmcU3mBWUJ0BrvHuXb8DJBfYu8OHumRe7/tvjNf7/2sCZBeXRqTMajMvq8ggRsLnm7p2B550lw2R/SvPAFTLq8lnKAQ9J26I7j+bpCxufO/BvOt8kdP5TxZHRMMNuOyJMiRJmH7lwsPjycRaH1bw0hCTtdK5QKRj5G2JqktpsarR6P1ZR52/1rTLI4sUGFA7IrdfHNzBN0We2/38Kz0FiA68FEcntQzKeGzJJyzvhBfgHvOSUra/AL1qgBQ0rOTBrcxJwt7ETWyJIFO5mJO4EXBumxgknfIFg9AkJjTH62KETUYFq9wYlNOzrqnVtKg7ZoVnatUiKWK4MPyLC/zGunLbZL06t+Z1JA8AKgbB16NCxUz8LmB3bnzfpNV0YoDNbdVq2aBfkeX+KFi0SnPXK/PycS7jz6E2SC8WpCnIWIN8/dco3vEVWce8P6L7E0kjuRbuOqFU5hBhbmgtijSUeL4ESi4ZdYeFheE6zUXFC3G/ozStPwjuBV7jOMFOVK+jn921ufRDb00sDaAcpB/yI25quLBjzURd4vtnQAv13dE843ti9jmyUpHI57OSnGHXWx9zWjfYilAFPBmK/o91tLsuX44TRlc88+rdReToHR/G+dGDl3/0RHY+XvhFE2shV5DMfPZMJj0evSREZt8auLV1KtCaYjh/LVkFMxum8P8l1ODxwsDOdmIoUda2i+G2VKr/zYnoTnnUQYKlffQdTn3B2tm7QdIc6aEo8MtgzDTsS5YNiBk9bYC6DQlApzmmZzR+Zr5W+1N4xEbo7Whsf87on86iZFhT6MGpwntZITPiQ3MrrC3BiTsV4tXAl4r9bzYzt7nDiAnait8jT+/DSE8UuJVVRrgybqlN/v1r41LUt3dn8RCEPqoLM+Tn0lFcPiJ3HnE1exWF+Cmep56B30DxH5tFyrItVemsl9UgW+SDneGjuhKEW07q54fSsRd9dfFm0Z6JQkIWketMp4wlh2ZgxFlbDi1bGQzJPb8Yf/VOvCEWnjkoPlOlNy0KpemrO6dN5v/dXvYq/oGNXcP7bxQsT6BoD0QbX/pfyvqgD53HtDzjq1YlTnUk9Kyk1XvBk5UoiYaU7h8oh9EArBhdBeStW5Z6i+L4KNXStUAh1Q+V7i6O3NNUX4y1rhoZVSHxWEX7NN2k53hfSSP7+c3AvowC3iW37vo2qazjBvPJxarfiBRt3DC3iWFeZ8Qk0K1WD5dv5eKIODB7b/v7RpqToNPRGKK9ZoMqCZwY3KfsIDhig9LCW2+pc5hgjBhDQSO96fQvuU3P8Jkn09NqtVeB4yuCEas9VbwAMnQu/0/2j6+AVZ7/4bS3alIJbD+YvuOrQXEjSxImuhlX0n/Cmhd5GXbbSl9VAkqQmymcPzR0riiJRT1UJ75OZobgk9LjR9ryewNG2wP7zAKwipHxZqFVn+sdiO2ChUYGjjZluVJWk+Fuspx9g053L6AWpWCyxSZCfdnG6ahuPxwtzqhbOIJCWfJPdKxfg137BQD+ZCNkWpAAftffNC5+Rv/AuOYlWWmOSXC7TomGz/x9F+yltF7UEV561HSxTQ46Hw/A2YTKuIFCeNZz0RbIk3bHhMaBI9sXmw9aJ8OYLWGIXFcBRxDqWFfKMiCkUauG+YbNKp3y487p3TXW/MMlU9f4pU5tXiKqzUknMKvDmTtLtrSJhbAhTC99ucn0BzYfBrgZMc7xUeG9KO0wJocd3WpK60zFF0UKyYV9mu7+72uMJgDKGP3B5l0xMBLp2ZeYWc46S0EF1PGKO3A8/9l9MqNQQRnKTSQhUARbnpyokcY2zj9Y5YIH59gqR4NGqxEwAPjbhbmxr5f74tJaE/RGUvfUFNrzaVyf/yoIdvi0i18FLDqg3IN/6Y0rjpst2RZKPftaKegMm/Oq/vscvlYDBW7j8IKWBinq66jyaHi6zEODPeTyTcmK2uykhYbM8etHHqk/a3bWeiPsYegAYSeHiG5YsJjo7bKtiGQf9oeN/XxUuGn1q7FiNsCjqqrKIzQaHUHJkOWOGnyI4Qnn11E/NFcG0TmomquR1WyieWSrLPsXwfONR35Kw3l4qrLsrYQl4MN9R4usykKNBt7fQI2yLT9wKqdBypdKs8F+S8LOgAkxHbbNSbnDGo1mA6KeceMxvdFOWIiZtQvfAEvMlhJCEIssPik9Y5cOUE4Hfat2zx9ggz9SqDFMtIM1qXjCwOZZK9ebTB2GJGNBvUhmrXr3ihai8R2oBFSIT8rp3/KGhWtLbzB9PO6uO5Gk84gnSrbWEKv+FJ9rZpnrtZqxm0XJI8btbvHvijaUdaOBLTYzz63L85zF1JxN/J73owujBuFQFso9bWQhmSI3q20tW+1sKgEpwH3ro08nVeKXmpdliXQQbhD+OTPr3QQdIPVLlD1SzaE2jHMlsjRMVhLYzu6AEg7lBtLn15vpMOq3GDSPjffbS4KN8W3p4e4FKsktTD0PWK7jRAcxp+KPkuATe2ufsnsRFejho4SfLcQ/gEW//XPN+VCxFlqNCHNzmXoCfx9j9TWMifHJ/fUS/yw7GnQKM8nNT7e1McCXT85bxlgbpybCEndpYXq9YVMWhDRRC7ICmdP47MqLm9GUwbzehUF95HC6IRK+FJLMKW+8boODLyeE0LVn+B5FOfqNu/zUea+bpz9WEBkRSQwfyKtE8sDXfGaKXMJaD3hD2iMlNMPVceluVby2f0rxRpXVcy6H5B0cv0eYKEZGtvf6WZ1SIzlERq1e+xSf7Jrq00q/5ZEeVRAyKTZfL5pkI/siiLnq96rCNeT6sJgU+FW1yAgalbsjNBFM0kFROtoGWknMFTVGA+RgtwyfscGiky1vOfIJynBurAwDU0cGKbL4SgXNLkMu5nifVcn2bfLo1jyZ40BJRCEv917jsYLVAoEXvUznFB2riLtwGRk6fgzUdwBQa60cdM4GgdEQoFw+uTvDhUXzAEp206ZLpqDfjf3J0QEfZFU+XBxdt+HuKEWCKp24ZjADWwtGX42B/jr6JwiVMdzGWgTe3+VtM0XtGFW/UozR/eLQ0+wYyXMgLy7VQVMZhayjGM60caEcmr+dxRjnh7Zq9WHcOPl7MFlJBK6MLD5OWDZwAmxw0sFCK7nIqwsvwU/2tzxPdGzB8v7LKYxR38CZxnkCQ2cm/KnZ9kApGt69Qkkso4E41pJ7y0jnd0O28duWVR3RgSaB1MaB++oijUJVmc6vRtpWZLzI9m/Lkiwxw6NM5oP4Cdvmtd+jGImwuG8DXv1ynXBjQE+05Ads0vcIJRqJj9xKC8O1fmNyewB7hbKbx97IeNKYQtshMBdpW3Z2Kh9/93CZZVglGhAUzU9ZG7FJYXogzrM7o4Ju+QtMUs0q5A6qjQ/amJrMayYITo3KOESj7lsv2XsjIZQzSZ3xnWbPgruqA1CMkWV5/95lFzHiKDR79vwr1YLWZ3VONgPlAhWrqk9KlLhXPn7kaQdovgsNTcfJP9mKRksgBdd7Z1QE0LZWMFyus3VEpINRbgFl70V25vWiDdQWO1gv8i82GD/9L+CbHozFGKnK1Cs1tpUKn377xO+IeyND7C8ND3r8XI3S2sdE1nrbJn0duOHenXp9F34cNwSNLXxeGDger8cbM0gxAFn28soPJxtjEn4CHUnAXXmH7156Lx9mVdgJ2WFUgwIYgpOZB9Cn2th1ifry2aO4a1o1KNJrWcL4ReK8BmXAo4hRlfyWlHjoDYtBycJYSHUQL80qyaBtD92cmCY9L2YpGwSJvX7ubt23Du+wDLT8f8LJOjxk70VEr4qQZXahTHBLDqCDcBOkr7g4GSJlCbQCTwb4F85GRdpQfIrRTvfUFmxOlZ1dD5ErUv5cNOUw5qQ78/M0CKlKoLVuswkKJtleow/rovMgOzfU5J7OBj1T7a4r67YkChGjD9Z/pDpecxMRRdWckSB9brrSYqELhklWv6i1yIBqbY5jN85xHMsG5Cnh/ujjLJd6RD8YDdS3z6Ca17o9JM2yAyAczIB41sjLdH+eG5OxLIVsRHkOEuXPwpX4gnqJfS/fwYR6YDxo6jy6hpp36gwGGnOh4IdJGO7bibS6hCM6GpQJ0YpRNKAtvv8X9AoxnOM4pmb8Fzrx925h3Tj5P2a8ACDQbJsIiOuMPvEWiOejErvNp+TLQ35lyhH93ji02N82qgZy72bbnyz81rIeLlJ6BocthnIrbZB3RkO1evhgfZFgW52eB5eHxwQcOAE5WMeFo/xkAGQlor9QlMomMUUKJNJRKVEWz7rnFaZLzb1NgLsoZ8eBUYp5zdUh39IqwgBdMDlURBS8dwRdUQDqjoXo17+KyWuuidW4ngFh4z5NzW5Kcm2zKrjXLX54h5D3IROi3cM5MRB3iMC1jMSsYRySoOncpyN7cGVhyQsEEk6XfMjn3OpRgZ9vu/Yz3a0TA8Ybzq/7p3dcHUs7LT4p98DlL0xECaCghiJmKAIO+zRAcYZB/VOJSBBEOCOSOfA1gPwRoUBfmUJBwkO7SGAIbyRF4Pb9QNN7GdchRjtA82Hac9kK2OL0bllVRGN+mMJi7LfGXdb5liPePVgttNje4d/rEbr7KcRpVgUjVz9ylQYw7SDgslJZZ/jG46yzV26KEdI9Ndv9/VDBrKemQaZDhW0j5npAgJ8isIXb42/xQ5CdXC5sPtLdmHYG6MFLah0Q6Wle1HbsRB3Ek85HGsy4y/U/sckZC9OMp9N6Ai22CqUtqSX16LN8TEFX5pLVjOmnivqKtFSZAIYZFTpWbZjoPt21PMYFeZVMqm8B4CfcaO3ISJwJbnH4WJMJEGXkDcmqxXEfpkqZSyqa2k3XhnTFBIMubcJ8gAG7oRd80bkVeHY3fE6VYKikE01K15hxV6x9ize9Y/+HsUmVIHzPfFnEkZzv0NtgCZ1Gy3iUkORFs/bZ9ld01fiDTznJvYjCVyEfJDJo+MchXwv4nYskHqICGanlsK9GniO30sjE34uPQe81N0yOvg3sNm0xZ/LqtvWbefTDkIqNJ5qCJdIc7Ce5t4GMxOuHEp8D2alTFeENDZxycrcBUuwtOxtp1mGJPXlenP0C9Oie0R9BBm3A5UpdbtnlSJMbxxc7QH9+l5QzqyAoTjOKxjCoZ5QTMGeMORpJlYHljgIwjqK0bjYMEA2oaqI1jpg+HYNwX6G9KVb7kYJqdzwDutnRHQ84RxMHzMQeqsdQs9zhWUgGVssZigkOmtB7GkRosvJ8wwQ8KDRKrigQLMQx6rvoJhy+ZM9Uu/mrl5S1KgCRQMJ95j0iVzTAmOZIXPjZ6iYrP60JV9Rk1WZfuqCmE5RaX//OhjlsoqMGeU77ASLnGAVTl+56EEkmBEO1EhcSdJPJwCih7F3V5V6El5X3kRzCPzl4U+LhPvPE5j4JRMN39NTJ167PdrysehWRJJBj4AQZinxGhi6UmzBhDSgj+YmR3FfNL9oWYGbDzI0FZv4Sm1XYJwW2T0MUexKiTvOMIp2/auI64oTIRTxAAYkd87XvGirsla7Peu/nSCb/FXxZRhk8nKP4QeBCrXh6tmoia+h1KjZo/F+2T6XjnSQvwJNhz/gK7eHbJ+wOFDJfjqFiQRaVIQHOlVsOV8e5YrUoyhHstEYGcyb/+2Z97l+yVv0qCMANRtqGpPVpmlOAjw1sbPoyobeL063X7a7cxlLucHklWo7VfwTXxOSOmK2jP9HMH27ctojTT7FNMQyeah4LfWV5jzh/1PiPLVU5JkhOfo5QVtXs27E19LK4pNVk4qORQm8rnXdFbAeUYCmywJ+S3ceO4e6E8KRdBO8DRFIMua5gjd19mb7SSHXpCyjIgGegrCWFCmQlMi+KSjPdKHiV1GzOO4BwtLAn1QpkjolrN8tD7mfDSgAuw40cLgiYGLp+EHvHG/MGiDyANiZx+iAyPhgbe41rdgiGnrzbNsVOv/QV2ZzKNKoVg7In/jBwekFAHKAL7Jo2mlDNLdWzot3rI01jpcJ8w/ohJAXeF4qLY+hBaDCXzpdi5/blXTWVbZDTQtYrt/lDGer9ekoPf68QU6FkXtiPI98pjH06NjyWG11QmtK6r0/Pu+b5/a6R3hfrzrsq/kwqyzSUTsDCYjhxD0BA/8nivzM3AvqPWJZNHs09HssriSh80VvIk2BP48QweKKzHz/nzk22jN7BcwsufHeFJ7YiroaQhKl/Y8cjIFg4ga219cTXRCrw2FjkmXAKzuWoLSBWr4dte0N+hu2ROFCSZ3dWof/ExZXw4zoKypRNnn49uW62sM6kMImZ6a0RWfZIlaFvX7eluzAAHNKK1iUmG7INN2oF9J0+FypD0joGMuh2Dw/kJP6adxTiQOjNNSND63zs9n+6j2m36omZ4Uv4tW3s9WrVjPJbicf9kkTb2phkBKcuOLhkpNfca5aNGTX2nzgE/TJl2wZjPieHV2j/XYU+1VwnC3tZTaqrKq0YrnPXz0xlW4MuFHhlrzYlUUxvCVjCDwC6ciNG9He2Sz+ORtpEG4PQ3tkkz+Far2HoacEezhcZXdc99l9BCzQtXIMO9tXzppfWd4BnodLGB8w92XugC7sT7I5kHwq7qHQjKMRAFipQGz0yJ3hek8VwoPy9chYPy5+sJ2nAGBmZG2GHXRmgyN567/2euqeGjAcw6srrYt/ljcj7A6nCvuzBVYpdqgUPpLfFER5vuwQixFeIxG8HdjH1Gd8RbLVUj1c25fMl2vZK6miNAnZ6V4Sl8R4F81Tnmj+KNqaTqzjvVHnWn8Jb0j6i2DwKNt+PusCC2mdgVS/nkDFpBY5LYxCdGscXI3oD70NK+LCkcUNJROYxdeXa73B+gA30Sam8aaEKIo4eu7nl/TfClLhnk53ltInrvQ7q7lWRwU1SksE2wnt6c/rPI0IM0G6lHSt+d+T4pErkNH4HpywPza3ctTqrE+M2p96bHUDZyWII9QZ+cp9Pmswn1MLStwBEgfKKuEFeneHaa1rEuER1jB0QGJW+AcUsNcPgjRwSUSxKwkNTzAaPRAJkWKSF2rx6bLOFWseyr/95gzVbkZwIUoJtovU0Vvawe/xjDDxyDafmQkn57Z2E/UwZxRmnF0JV487uxOUp+wjz8R5M2yeCAe20av/cjqtTmtU1ucDyv8jCeoRJ/mx12ftDMPdjOQDF5gVXDxDyH9Psxgay4i9JPPbGdACNet7RwNH+s5taEkJPE94hFaBXsmIvVlFkU4RYcbJQUzxHDrOCl0T5645f6uPIkjYcvzWiItVci7mkLTx48qeAZWZBfLFqqPFQ/se6Qx9yiRsf+zErPJuFC2UMbPivvE9laRMiMWRUCQA3t2W7nOlCW/7kugwStrbqC9g9DcaHamwNLqH4vryMZZeDERYvK7Bz3LlJQ7jhGBzz9f0C2FWtWGHmFMKNly9bKOza7vxE3wcBfc4qPMkSg2MlwtBx8cDYaY3RofMUI05X1H1tKAGWh3tu8qrS71hwDFHB2t+HYENZ2CbGMFJZydCw/MXa7qELn/fqK039AnbOvENTYIzxenieF9Y3B8SUnamr7enEjEbzCxq0MIUNGM5fpU2uinlMP/AEM6c/bPZUK/JhJrMHoGnQoMKU9BEHd3Y5KpafYOdh3f0L4AOpurmsLcQu9T6gAEDG7WvQgpkFtsKPvQVUO3iNBr7rxUrzNr8BkcXWcyOBU5mF2FyOQMrWQZDAwUzoJpTsqmBNN9BzqO5w/MsNBlcJ1d4EqzbImDhvLQpGc7ECBV85BiWNESQOl5sd063xNEbgZsgvSfCF5ueLCZ7n2XyTpcCcSw9JxZMltEg86Svhvsy7qQ7hPkuox7/YxjlMfxrtFWBzRc4Ds2AIm3WgVlguXqLHmP8dUEAIaA4jeswqzQBlUIAELr9BI4Yxn44z43S0ABmp7DY/wpxHhmr5LHK1rTag/0j/PKjFM0cM5Tfgl82w7yjmpGexE5bZyNG+IqFwV4Wf+xOkdgL+jcWwT13WFmZqvxle8wedcuhJz5B3GsXUV4lIKHw7JfFwtPPC2qfVlZ5PhIBa9HlLyD7hDi+k9ry+3HOstwSaHa8wZ+66Cn4jwpOBNCFY0d01jpEhbM5YCPCgsVH7Ij8W9Rcaza/rWUh1Ay8jOnsImJ4izi5gnMxqzKBlXfxnR8cELR+7pZL0JLDATikgHbRtSBHInX1nsXZie+LdkLkzDa6LZicLwY0ZPkZQ2WrR1fXYfuOWIye6p0iG1F+6PfUxnLsIMn5XEzP40DasAf+3LhTZvAVwh0dE6xb/NnMuIS9WaaZYbBVNKneIbvZv7SgeN/O0Yzim7J0vKFj4EeqLuggWZyt19zJmHe8ECY4HiEO9IUV3bWnIeOluT2XW+cF5RgcUOqKEz5J2/N+i73D/G7jMUwMDKbkqElpZJ5OWIjS+owDusWmL0F1B7+3gcG+CqxHu5lS9SBOXv7+e3/9hQJShkq8tPqluGWIa196NU2uE4J85SK19IYEdQVP2r86cyVFkqcuj8bgl2/DER3SlCfsIz8ArACvVCtY4l1ktt91PzREcWIbGDsUB/AHGJcj1VrEOmBZA3UOV/wuE1ojkp9BkHId/4aTCmmVXzJHQkUN0t+QXHnHGeR+0MhAXWvMCoP+Uy0rzFk/+ly6AQxdGfoeTxwocdc+oaZbwICDVf5sC5ITDC0Sa6Mlz7q2YhRzHG7Btj2w/5gERqCAOV+jnSg0etpJoWvUJwyAGdxXRrs1hX5sIOmgcYY65mny5kxfdhP4cTzRGP3Zw4AgvliBYfNAo4TFtvdDzrrjNZM9fjXv4/Nw77pQ9XaVWzdbBVIZ6zS8vtl3anI1R/W1lEbYCB08nwwEE61tkk/n40xA+kgmEt6H7H7ISWEGiGpYh2DdYQHTJs2rHPtYu35Mgo40bLKVdur0FzXGSYcd+5IFqi97IvZXk1n+i7by85HB73pPmPnYSC2MkCNqeUXjIc1u7wEJ/4QLSq8yo1Wak+oCsKqhalisnMzKZk9GacvOpFr20TN351LJkmtMF5KNzHMt+V2f/BLMQuUukrdBtYSO0rzSpqmXs2Wnjhc3M57CbQcEc+aD6txPlm3Z3FutliMQfRA7dvf2wPCW0zQCQHNGk4LJODqpgO1G7bFF7nmzQSycc17XMGBSkDKsOU4YOdBtOVYtrMc8fbUSoZ4wDASdzT95dkdEEvv/QmIdgbUs2JLropqJe3Fy+dG0X1BLbmX8daLGlmZ+XjhmsXO11YbP0ogY1UZGBQ9cXUENBpM7aNeR8jP3hMi/S3PAg12v7+jRMR3AvW28n7hDQk82aUZ3YtgwFj01tDdkCZalR8YJ0ZjamixegVhpfaOFoTD0GNk5lLMO4G/TRFBvnTx67xScX34pIWVthCFV5oElbpgwuBueQnnNrgm+eLlI8MMKX//bRIYdl9vQkeIQpNuKXrgQzZjWX1nPcFXuz2kZJ5PEmqtUTkgeLiFSnKT1PuH/2nYtHVoRs9Z8T38HJ5RzFjCIKSjFmSNrRaEkdYNbAgJV9Vjf5UQ60gB6S8FXMY0lhYjr+6jOq3PpnlqpWTpyNAIiaUXIqW1uQwrC14uFyFeS+gEMAD51TEQC4D03JLIfnZHZRSQz/+HRR8zFCfbmksRqCBOt27T5UHc2ou8VrtkFXrsK7BonXcBbuEoqKQUEqhtBblAB0U1oZiXbwh1XOzctHt0qNm1D3UQDhFI/h2adrfHY4cirOrkPCWnVYBLhnZazjROXTJlgmKXdnTJ56ZVCC8yB0PejNA4jT85HKRGp7PJ+GPmX0D39ZSYNf/6Dd1BRdHLApd30iC3TBm9ycvoSfKPDBpu+1YkoPtTTJcO5tFxq2+y1zoGQDUGMrT4e42l8O3W0sYzVHQAPAjUxCymHTn8oAzc9FamijztJS9ck7T8PlLAW3LQi4Qtz7i4eBnGeG48DffDpoBCAG5Fw2id3LDkStX3s0vY7gb9YyycsgZsrbB0lOlzQGfYjwaQvp1V+VvNi6o4n9+BzKEKoIOQ4CdU82lOB0dDYfS06N+BZB19N8pqiNTTHAc+VXS9owUELw/WzFgKYTGJOKwg3fqMBgd7LBpFOchtcL9z/gJ0b74Hv5RiOPlg7QIrqockAOEpY1NuyWwwo1hRjhO6LfKOZiy8719Px6S+9SLEbjLaSM+jVEFBZ8xpFW7b0coDm+TAFwXO2lxM4VGiObUEphod1jJQfS8OQkS4bphHvL7gssqdwZtd7niQi3igX+82EOdqUDWC/yY/ckcj6pRZfyal3gQlaMO1qWDS8G1wHCWLovdkfx4QvPJ5tvIK40vUa/1Mlgm1huqyg+a6GrO2lV6uvyeqK2WgL7BLw1FYj0HiDZ4MF8r7EaUDkvUD0lcJt2x6Ar1F51zs3o9Qr0CZFkmPBMXUf9qjX3RKBmFRS5ypjX2vpfqpiPDUvm8xXMmsCsDn2Dv8dK28ZBQKvTQ0/iy2yKPWuAXwi0Tob1RN+AGe/HLNqNAugeQiEhWBwisshYFYERCiTlGjqVJvGStu5J9/+ojJy/sx/RbfYCuXfqO/+S+dvN0zO6CHGIdHCBKo9RZ4+ZSXJbjjpxF67WuQ3LwqDvKLXFRbVo2+FaHYLhGe7JVBn0n/YohRfMFX7LMLbMy5/dqDj3w9spemZXJIw0lwbnMT1yJtKTecF//U/kyTujZcPU5O0noZl9kbw1dO71VGjtcRzKkfo0B/I8Zu1pcVb3lR4BVhC2og7zxPCB8H6gFZHpgcem5QJ4pPb2Z4GKnX1PA+KmrkhITZgEcSMlZO6IKcdIljThau52pbjh9hNvqhuCtvpvUY3juDHw3HaRMZw5gJ+pJJUy/2DIZKGZuxHBCQDgKIsz9jaPdo2Ub6Pt91f96+ABkEXmhGGNOdKk1m+RrWKtIp9ZmqfC75u3Q6jWhwi0o5mmZy9WWhHjg6b8F/WzZuhw7kmCycDyfu+jvUgxhpGJyVZKLb1DlXIefuppbLeZBN0PmDaQ/0PNCnjoELx7CWTPIwKc8teOk7ayfOh1r7Dd+uxgWzCQFyEcz6T0a4SNjmb7YdNhinH9InVvQcZNvVekKe+HvLYftlHnK716ddmY55c7HUmI21fUCNJDQbnbfnuJZVgQ5eGSpS6KMU8EHctYJx3tAnG0cU177pN8zSdqzG75EqJKdldbi00BEgrM6Sl1L6BeRob6RmB0jpxJJxS7R0TMLTW/6gUIsGL/Loi+kFlbIn+CM0TU+6RaoxAzskfTkd1MOiR4pngHGASLVBV8blOE4Wt99iMbTysBYSokwriVCSnnFn+YeeDGsuSfd8TTHPwj77oNHEn9ANXGpHTW7tDPyEBrk+NOQkERt5U8U14lem17iEeXrS2tB0uZX844Pl3HXE3afDYLDCU7PNTdrlvz5aeJM9Cry4A7mKDODiPNCf0ACxN7ek4D9qEFR5Yvax30dFZF8zFbKK2PkIxnLpoH27OKrxhYTKjC3DEWRSBVOkkjtxce7rWByUIWScPzXOrBb8m+Hkdk/7YvfZ90BgjlkSCOBsslszDqFfgXnXkKdI/0lfx5HnSN5s9vsj1AcrhjuuZW4B0iAf9kZgkRVtbQx8w7yp/m2RW1hvj3WT0sJPXa5q6XrthYFf59Vjooajb63Qle2UVWXzXFYOLmPl10HIRwUdcaIYFhraKbpihIBX2emn0zrtt9ckY3v/didJWlKHEhoekzrt2z7cxhJHN0RoZE5+xGuCaEZ7xQ08NsDBlVSkNLYNn3UzlgNQvYpaSWzsRftQ8EdopqkngkfRFog973xpyiDu6mxkcxRj+OCfZxV7+ndjB4O/HNs3NNGwMPVNqZOTjlTd3yyaOBXB0jLM08PM/NjYqKG0z3P9NcOPs7gjYnqdKsR2BkM/WD1rDyy9F4HiEanb+ksYSYE0ZuhoXEwsqwX06iZfCVJdXxZ09hdR/RWDA7V75cHVJ5XDjB3FBuGiKBixjcRnxX1+6bSqsE3ITwS57zSLyYb2cJShYUrw6T5+1zGMO4W63hbLjNXU38wfNV+Q1BmfyKBh4MQ/p2zeHzxZ2e8SuMHutgLpVcUltC3ZWsLUMKSJEVf6parutLO60CYkMC+/ThbWJBeL8mIWkMvjP9dz6mKEptlCqJd4Vjd/EJ32CQOyKzjkiIpGDOWH3i3Fx0eVL6s24OsQyV1zRUOLYi1dLepoy4mbMEvRjpz5+lox5H9KX0HyknXnHWMBzAoHEFAB5mT01OiE8ecShasHtWBpA8Y7YegrAv8AIcH/f8sXujvO7bY8/GBsyvB5aQS6V3t5NPfgp4/MSnk93zQw+tcvOFkcbcfdE2djsYjzrhsCgfdWGjYjngcQPDKhAREmWrlgcSO819YSYGi239FRRzVxHY1cM1C/Iit5OCGckbmb57+f9LMAP99E+BqBc7KseN4xdqxiw4Y/BHInJtAVCYd9LVntev6W0dw1u4C7JiHdMR87otLPlcqMacNPoOTdaMER0o3YNmzdmJfvGhriQTNF4+GnEDvfp2A8rcn8Bpb4D0j4EAxFyxQZ2zPaoueFwWFTX43TVSAKyg2kTFDzm1hsBE6Dg/PUpuMfI0DGCr4Z9TPNiTN+NRLHHmoPxtuZz3NFww6sXID/mLTcYjJG9oTge2/ZwSzCHfzB/fJnXDvbfYu5GJ1kh9BOfRNnx2nqmt5pllygLzjOfyatQZ5Y0hK9Ew2JDjbkYu6YeWyiiKIc/uutS0ajgUb34OLh5HBa+YNZfu1thdaMM3dEaWcWu2ONRbWTM2eFV3+KaOsh9Yb8XTYVO3HekGHfPBovFILwXfzYO7d06JvopLQeNnoAXwUe31eHcVDCTraeUYJ52B47+YR6oaULKg70Ejtjb3MJb9vMlZwJf84JNE3GB6iBJvc/vbj9NHj3N4zd/Vyw0pGJKXDaUNBqZHeXRJmnDAbFKtLrA+WQcfbalkRkGfUUdM/lbTS5ohYgqZdcK6FLoqsziEweRKcSN8slg7esiJ79WzhRKRh5MUaJAWspsCDgZkCeIW2/RV71pHHQhS/t+Bbk7cGfYnN/SvriSzaQSOKtVgUOe8CHXc3AX1FiT/vqUV8V7nq8w/0dpF0cvE9oksNha8Loh/C7EEXtai4U2OmlDPqKOIwRq/htD0xKgc4nH2uzS8QYZupgLMp16bhF7E+GZt+9/GvCatwZwrcolw8rf1RjVcwTt+G4iZg7VY3YUky3Err2vqqsrHcGC26DLGmxEB7rl8PxUq6spP+XKU51L7Emx1PjIIlUXpaQi8dzJvFQu59oRnauVPsMbQeo9vHvk9DYgkneB1LYgiqf3BAk4NigKOZAFJ/rnELMzfKXuBX9/bSbOT/FOBL7E6p2qHDC6zrE20K6PTMaQ+fngZsWerKODXai+bHuSn3TjIdhQ6uUcL53pR6qRB8w9/aGsIDbjqDiI4CVN+3ORgoIPw1C5GWnWDBEYfIYfj8DlBe2a8hXMKDyvO1yFNT1f1YgbGsSBikVfMDcdjuVfPPXUQz8Ip022wG6v9I+YxE6hteznyrcogzuw4DkB7t1dotwKfzSd+pgTLMn3Bl56US3UmWLPNgPZzCWmUlAjvHqBUZYxn8NVMlcFEfF6JvvpdjmvEzago54q+USfUJ01KPGLy1x3SG7XKxbdEsYjgiSe9RNDJaOSYAONxpQnbvgcTc7WPYEvpYkfgrfBjw2OXAOj5iWQv7r9dPwXnDbao5U48Au2fYi7nc3KSMOmmRAShNxXVPiEP+GaPVok9Ywm/xWF1dVILogPGpbTYPnBAHODflBStdCvXWqohsxbYJLzUq6G9hnFHm9x5QtJz95Fz71Z854MxcerCGmIPfCMK3Xvk/xSWVhHHKSumbiuiWFbsHPRwY2TNsNeKceKnVur5HAz+Fv4jpV1aCf2sMNDJxbPFWGseHYwfruIQIn8L33ZK8CBRnedmepfDWzPtbt3qE3/YGJ09Bb37lEdSt2Qr3DTPXvd1ntu2q2HQKEfL6x/MbL1sBU0jzLkoR2RZyddd8fgiPHKtpmRTGHo8i/170nbms6gPOgbgXS9SetVZDG+nEmR6R/nj1rq2I/uDSJPl8ij6yr3pwsKdY19RJS51o0ALyISZa5w10/9LKVTHBOSLgVOYgTQgwc0ySyPZn3OMDjNg+5bpbdAhCzSZ9iarx60eoaidHYBQr1chuuZw+ActHJaIqXGzq5VNVt3dLu5dHbcRq8S8SXgN+wfR5ELwVIwqJ9t70RW0ikre1Z+30YjvzkemnTrkRxn7SJM78+tVmHgspVVnl3zOLwiXoS5PT0Fwx9OEZIBLzr1419at5u4bLHMdtQsCz7qGOraFrLNc2si/thKeFbDrlUkK56dtpEz6J7bWtKgqYAOEswFQkskVGV1v3QV6P5PBbTXE8Lj8r2cyoLCL6zzPpRpQ216DQ6w9+C3dXq98Y6cvblFpyvDLHTsis0X7gkPmiiEiceCFd1gfGEVOJr7x2jEE/Yg8DNAJUlFPBhnMw7vegMUzvPnzFzbdxt7om115G2UKvlFXrVB5CHGbB5WP+65LOLrPUyqGHsBQXGcb9ods68vFcJExEJMNyNDvYuhvguNpPZF/MeEmNTxKL6vEml6rG7XlK8MOKbDQc+ZPZPK85OThmlIzL73MA+6K+gBfUPbbDSI9tRR1MfCB4rk3oqmEEZoHtVOJeKkwJ6HxTlwuiwBU+03cyxc1QP+3jP5K5E6ZTqh0VF1clqMSVTYxF1xLj8aVUx9sI/2pOqmQaxMzz0QSMbKR56oVpJcAoAYmDsNJd8jbUNEKiamXO4idK2ubZDvRQ62PsxyPYkpsRNotziTve4byD3foXH2HOC3vr/KMci7rtlVLbvFOig6abEwl6obC0U+3PqhcjWaBJe3FTAW52NZwvnOC6KHlHnHVJvUlncVCUe2c9ZeZgsicafBC7GgBBLZ+6f3lA6bisXNqzf/6vG4/XJGb8QC8vk6B/bVeB0s1h3EFEUXb78HMpW5ObcOnTyJFJqJ+Fvf3Y9yGASpxOFwzw84w//kskXGKcoxECSjVI8mP84RFxppe/9LHV5OjwWndYg/aXDBZXelMDPOKIctERXnccrZGWnY0Tdu0xdArUXa0MHPxMfF2oFwj8uukcUk809BZGL04tg0RLepM4557kTeI0FKAH4NNMZJ+UCdy1wzWaZaBNYSUNYtsqmKGbhwV82yz/2UboptZ4qlliMRQ+rs7bl9EAcqX1N32zT8/5ZdnK4xmDzWb9Qck2Q/ps0e1YcbRfu5+SvIna+c5kKqm1qM15B4ZamXoOLmBzbLbFAUMv6TjqQPuuDXPRzIjbd9aglFY49Qm+AhhCpvDWi5PISHng1MUMGnGpTc8tHk+TNPHHFELAqeUmUjW7xSQ3FAyw8Ag4Oi8Lq4iSeRbDEEeU9f2BVrSkP3tY+IqELrUj2VUT9xkJe0HH5hlFk01hqKTJ4HoK4Yepw432euUhsMn69GBGeTWuqqT3EvplwYndQn+CTxBZ7NWKgaYbgdg6V4WMMPYPnZkUqt9qmpRJ0udcc+fbgKfaPTUVBw/vx7JGoaQMb/SF169w896+V3nPgA+bqWuNgfhZ9ACW/gkPbya/JLb7IV9c9wXSsf8PEk4aZdCNgZljTfbPz5MEl3KsHiDIQBBxfwoaTk/cvANNOxXPzzg5X2ywNwlM7eG5JMZUh362jzasd6vVVCjLoZwllufRyMaGAeRTt8HiH80ZH9SXdix2P+b+SXGBXv94yVg406mFu0ZG5+oVDjk3bj2dklx4ee0a6YMBrUZZt5w/g3F0jPDmrLko3u1AdbNepB+xm4vD+Smp+kSes0FDSRiQYZsaIp5uX9bXHwu8Vkn2NtaEV6C8zj/HO3+P2RUP3/Rge3vZcXL/eGAzRHg2yIo5v9hnUEULTsmIt/xNIHpRe4PmIumP+/3QxnxQ+qMiLri/bsax2SdD7hwRdWUs5+wWaNbnapG17o91Pk6g3c9ML+CnwnIe6GuorESlMgShWbBjSHvl0KXMldkH0b7gvaXxwLQbh2S6J3FVDlfps0QHADWEJtmbY5ursiRS5qaP4L8knMyIPyCWL2vTilRoor+DtS7vzuU/Zj6Ikwsfua6WOdzYk169OAbYAZaziyzq/0D3PlTTFYzGriBcR/1GF2bjmF0um5VLi63P0kB+delDzE1QyDWqF61XxoYKZSMnvMBJ2j5QC5tnTXEA0OS4PQL2H51XfEaxzIVSP0qHaQjNqMZ0Uk5tXQP0GqBGDkHpT8nnMRvw55tckSyP28/MLbOsITynHS8TwlyOBpajVoUmvZLqCnSrjPVouGsSyqSk0j+9+fPbWeiINxb1XoPraaeLgpxEo1xgNlSOSAMoG+vUrWYN+K9hZ53pIFa2S1kkTtm+nF89KOXk0oU/Hbbf6zANmwABMXiqcuU/ESr6gsaPfhK0RDqDWBjXgGUATBOn1xTDBojKUzSztMyVvRufpYE57Mc6HkgCPs1tulOxvLgHze+mJ+YSdof8s5T94ULiTjzJVb4GDS31yfzuDfI7JvbhdQSZjg2yaO6XkdHW67mw0XI0hoU7kqnItx0NnxBCbOA1NoKOCxjLZfNXbeX+9qFPTh8cpLNZAX5ncAGpEDW5Hp7iZdFGnh++gymltDcx71OF/DrnL8u3sDDpyXFxAepogRGn7g4wqMAMk5v6zBr+Qk5uky4dGyJfB1GBoeNjoAwFcWTMI4g9sXa/KuUl3JViK2CJSr1U7miZPQAVZEFyaKxOvEV3MxteZCqk/tK6h3cWXotLVYaDv0uDSAhTcLc8oMBYSoPjuowgKL0G88wr9XrLz7Ui3egdIsSTYIqRlBUMcDqcXHCGoPQ0g4oUWWrM3Kk7HKZjzrRDQVrUcwwt3cpLCaX8+DlWk2/Amex/u/7fmjCxyV9HZlVzBmtpyH5Joc5Sh9uIel9QtM+wUbBDjy2BlroUbkmEjcYJbHH66guPz3zpcQKcq80cs1V5G/59l0KwZqOz1Aonu12X/+YM4+Agl3KQgTjkqkDeU4vvAivFVm3oL2hrRYtQ2A95rTXj7krNgr/1s+Wd5mYSkTKk5aczgLeYFmjk5sLXDBX4WVEs1bcxdyH9otW1BqI+n5+Zv8UN8ZqbPE12XZsGSNnj0oLjQG+62fDPjaf3eE3DAXLS59VujKpF5e/UTIhLGHG1dh47KT/tTtNvVcDnYACHBmn+lO+knw1RS/dau7zAKFQ3sC2AeOMPE0x0rBYze0QSnrvgKkZMvPYM4wGy31P/zDYEjs5HAb5TDQ1cbUWlGff7hHepB2IkzWpMhDYyP+B48rbbKUdlZcAJ4AzmaRuYcuKd+iNTfCLzvGVLL7KwsoQ3ymDCwmEwWTE7GJzwtuFgCtSvCsSUJ6ZpWwmin+OqJsRG4s7PzkoXNeq1kwUkJoVmm9Yl+gBv6jH/WFuROSMVTKgQ5wXVCWCOUed7pWlTZ8phZfiVnjNmQ3Oa0mgByLV+Eqm+19uWVy2nB23Xj2qEcFX92UXziDsiNgxmIRjQzVDEvXQPsl2gocahn53WJKo5ICLW76iEt4c2ViCJdXySqVcQzMkTSjPpxtO2j4T7gZNVgc2nh1nFBQaZYZ8GQkHfBNdkQbUXs1D9KZVCFULyjsK8iOeASVSrdsxnS5OJnu1BU+28+iC4fv4dS1N7uIpxCQFBKGCUMJNMTe5j2K2i+bT+M+aAPhIg9aCs3XGD6Q0T4mTXh/h5RZCNLcqB3BljtaHCFPqt5gN9dqwcLHDzh7UfM3WrMfJI9ATqMp/Qd8FmkSiRlIIdAEIxHNQiJpZNgAbrP2eOGh5QyX62fC9rc287+Zu/i1yV5nKsoxRjufUM8TMo7kE4VCLe+W61GT6Pq7mG+BizDTD5H0YVPyZWTGiAnwinhjfiNB47Cm1+KmbZcIErQuWCVnMnZPHukk2aZjnvXklphwqazuMaD4O6KEF3zvIbViLvaMY+7fNGOruHFkrbnDNzlhbGx04YUa72PbqRClMd6grh4WmE47GapB4PEl/Z2q7+FMafvxZKYYCvZQbpdl5aOEKCK+C7Zg9EidUOpAqz/KlH0ewWJlO5gvn70pdrc5K+gUSb94T6dgCbLCe2kd8fffIN3Z7sc6e/6mdzhejj5WNhHnLSPu/Ybr8bgtzucdsO/4ZfguOOv7bNDinsJkv5758IzecPB2l6COtf1OsAI+P8UMGrPTPo4nX/PIGYeqagXGCAlIQoRLD9nElOl2tvrHYEB8MpsKI7cKNBpNKQQlBj5xeEKA+HlAJOqFm8NvybGY1taNE5wmQE/thDVjdnXeNYwITtu2sjsLYyHAXDNeSRAtEeY3fMV724Z7+ibaTxxt2BkIQNGiRCmDg5ABo4bciRiD+BDtwKVpCVKH2WJ055/zOAh7AZfc2OtQH8zVT2bgrcPQXtahj4ajKkrhCGcM0oHt3QYX8bXu96tUCsk7Tokgh5Eizb1N8ShcXY3gu/rF+6kCJo+Qqn/D4lIzBbXinBYt/jTOHNjMDqr1oDQfBM1TkE3sLMfIbySyhX6uvq9U7wtg2YTmJAILLk+h/0WnTZaozNlmZApORLuhH4S5z0EXpw7x7XPyy+ckv5bo6C6tkOG9bS5PaZOxNPaD1u7pHSGC8RR8jojtwduaXmU93VGcwmudm1s0uUSQsQkoR/m9+nwFxx7OqDGHjPJ+x+s9FtfMkdyMnqaR0AghVW8XY7XwljgcP4WeoKGJsAQp+YTXs6c2UcOvRHwxqzBUm6iDPCPrDh4AH5xQunlGW1VatcYE2u02JMPdyVMZua1w9XP55j7NNMEnX9au/a8x7glWUAqmUXK6I4MxvgAHfKVq94F4wnqjkTJex17oUMPH/NPlRM6FXfcX6mZDlRFdsb5aDZng/oCYCzThSv1mwoTJG3syaAXSQx3MD2QFS4RY1faJdD0hW6SQZIcOLlwQi4DyySF+5qEQbHeKAAH1005kbeDeJ0zIMdpnPSmAbxktD0iB5Mvl11tRQ6wS2fsAW7wmxMNXZcr4RAFmISjglRXL+34k5fwezbFWF8tJH0qSqh/JgdY+7NbvwMdiyrVcBiNdjotjY/vjc2m1S/y7jdEiyahktkrxRcKWstYGAtRH3yrOkUnDOzhQZXx96T2f+KVBoHJgw0k4pqoiwBUhSGiu745c0QQRr5RtaxI6J6W5tzWYgbXv1OTXfpFtQfrHVKn1fMaKRwRYWVgiuLzBWAfIvXkU9cxJ9tjy1XWNDHROTxn29hnyw4TgBXf+5A5qRYWpsZLIMFeo24sakY9EiugZaYbfp28++YmT1oWmGF8bA34JzGYMSCQCYg3xl3JnaNsPUjdgxG8roCp0D7tY7bIyyTHHwPX8NqJm3/u5BspiiRKLtf1LK20i74NaA2gdMFDz3OJLQUnTjPHoa20thtfpWebU00SZCcUAeNRkhSuPi3ClCPKfPzWtBQMlJ4fB4MpMq6OSpWyIU5VdXsl4eMg4qT2qLJSTnGAqAEYivdD/U8jIiNDaalCWzMfJ4yd418skHPP8HNcgKuslQAZSVefmNVt14gKiGwgdr1OPkZPYSn40naLsPAG/+e5gVmxb5qKpvK2NcNE77djBBDUZEyfpe8VDzkq0frvs8xwpZR3XOsGv5zO2+mobszJmOd9JBql61V3Aoh9fvhZtu7h4UkYoJQEAiKQNnFD3O5yNiInYouJtwJzbjH4W0TEOjYRi59/+z6wnkWrPb9RsFTlLVyw8st3c7PmJyREcjdAEoimkKWBW87tvOEnbsDUJqfxm3AcMZRXZ/l7lDGhPuMy9/skyjlVydhLS6VnmxtJn+mmi+tU87TwqVabDn+HhIhkjgCV0FBGX4+CHsJKhDUlf/NNNP8hmFErmxDKcX3bNRrr0uEViDb3lHkaf6uv80CRUOaVOZKELrr+tcDAFIpLePaQESGseLJRwICUBEB2p50GQQnd1nh8Cx8KNvDJOpCnLvXL5lNadqTiy/ISPoL5fHPsgXrB577yHlQMwe3Na9l3p8dYZ6JVpufOVRPBtbgpoHYKEZBMNsR2ObO3O7Q/j0z/c2s2WkXnz/qS9twsDWmMFnvOJDTAjiyYLDSfeVAYw+/L4OHGcZv+BAwxGWmiPHXtuNGCsdcxF6VtuGEXPpVyN5rN5kTbQLzUui6F1VUd8J9OoOSLbj3YohwHsbZ1K8a5FScmehe3BwNXH60Mm1wewLn6xgC3bmIeFNkc3r6+jFMjnJOjMjOR60k8jUr36yp+zCLGLleLq9g8l8+iPXvlymWmNSyv0PDBw47/i+QSprAr9EFnIuIHvLbOXWNC3bxGkrIZIUPW3elmymrA+mI4Aj051u7ANYsn8old72AxYbp15F/4ukH97CrnoA/ogl0zW4dx1HCcRCw8MtIytp7O5badC0zBHHc3Yf4jZLdDT2jBLjWBtXrSASUwjp242yH2D+fjurVFJJKDDomcRl+eaOGeQNRJcRt8WOAjg34JYlN33QnpXbLLLVFWvAAizn7J+euilStklzYV34Q1ff+FqYL8x1GUvfeVqVqgsQugo2CjtkHPL9oUCozQJ1K5fNgHkXtDurPZC9MYa8vntbLgDPwIhtqPTNgizLNL6IBNf9Rm2c5HdxyR0alKGzbounGiaMS1PQ/KzASIufmQj0xdGV9qXmauPqQrptF7SAb4d+VoapA/B2CyC7WwH2vrrq73N015UZAl18isgPqevO8OKFln9J7MHb8poF7rpgbJoI8qp3SfF44udqq6KNIUsrecl993lIpsXR4y+fphl+WXBsfEuN4jWp42u4lgNWa1MMGYsYLcUeEGSOd74Yqq5K3YrcW0pT1TawZJqbcpD9Hh0kMNZIBexGNQh9DPKIoiMesCmu0fI+2k8u+Refor60mfOD6W8cFTUCzPhrNN3fu5VeLaC3dxxb+GdVQO4w+gEDomG3BIBtoeRNRmwXY7cxVVgIXTQhRUFLfuKBvbWE5XAg8es1pXqXysuRPnZt9l3JHUQIcSryobAp7JgUa5gcZ5R4w2nnnYKwoOgHiGUinrbKgGg7pAfsZm6qO2VKLapGL7mnf3WRfF9U+C9kAnzu79U2oTFDspQpB/BpEW5lo7/lOuZq8TiWQ5NrIBJTfvRbX5yVZ20Nl8MpHG0yPmLSO4BZDmhgehXXWkjuYrqhT3lCAs7lsOLF5GxqWuRuVOcFZpMBHezXQcTShQjSYcCBXb1JPY/CCplj9h9bJ9oJCcyTK/BoBWbgBvXy2ejVHlSp9VA19XnIcyVa7z1cde6X/UZELTQvYZkZTRvttZHvZeycb0Mh0hffRzrYLmhvG6zeWZouITZPvdm3hfA3wkplU4GbB3GtmSlCMjdlPAWFLNoK9Np9aAU3IsI971evbD+e7w2e1Ge/qXjF5yxwjZzvzdGU9UQkYzR63HoTgK7s4Ygtnk+AHgQdgTVnBfkhJCEgww2CdrkDzBjnBfQ5yIsf4mrfX6dLeOjhPeTRgpBWJQ/5qJ5j5teHLKP72ldzsFCytq9p1QplMTwbJRT76RkuSaidkT2Ju/UVjf3AhdOdTxIDkBDspjLMQ2S95QWFmPHLqNitZns6ChrQScijgn6RnRS1VENosa9FXsUXYPD8M9OruosDh5W7YjILVyNrHMgSlyC7YgIWjbbxCqzphnJrwbn9ZFgj50AgKp8qi9i88FWmULvPQ2UcmyrLTssvEEKQSAfWEdag8CWImz/g/yDJ7iuU4V7zXz1fQZTqZgE1ptIDn7p3Y4+p4orp3GIOTEjX2nXjOq5QWPrpHNuPNbwgsf3/Lno2VrrcthAeNuXLGDETC5qwsX8ETpro7ikcOR1x8aC2Qh2NSuEIhy9xDIo1V6vtPrpsGawBxZe46OiWr23A3uEFfaN9EBI8mb4FivmJ5Gci9uBe6A+fXy5gLTscvBuM32hBcy1CgtK/TJQ722fHEDk+uDkdPn6o6A7i6noV6vp/ODJTyNAZDR87JwgZdTbN4W2h2UyCh88QJ2ExP6SDSGFJEvS5EremGw0nMJl8XgN/YS4M1QHaS4iZa84qObwXVARfC2KfqWhDmlv1dKd8kU/5BrXPXQ9tvPBKCCUjiXapJ/uqjjR9qrpDuvHkA/CtWWxJc2urd5Qjqx67XhoB8ah29/9x4KTKXGYwHUNzR8TvH1VsasxB60aXstOXTvdzV3VibuURMHu84x7pDMpMeG1CclnDQEbdendEmwYAh3UQTUTq39dph/glTMcW19EZ4bqSkGjgESr08YGbXIbxNpke/QS/es8cf2t9JtZJNK8PssFHJfL2JT057RqvhlXrA09NpY7sdv4SCZVqA58SeDKboJEC79T5c/2aYp1EiTvoN30WivAYss0N0mDXZVQpovc3+7nEMzLWocQxiCtNLcEUPfsM68V0SeeRtIVphnvuot//hfk4152TOa8dDy0OVgaOCUM3bwS7gfx52hjFhq8M+aI64K1uASIRdZbV5V10NeBvS8P0dfV3ECiycbxZdBvz5LToqHIsFQirs8WmQfx7leqouqZqe5z24EazkciFmVHsy138FCID5awHBW0kZkrUHI5jS4dmTbOVnFPZZsriuXkm/YYtYMZ9f1ZKah1aUDP8OWJoBN13723JJ94dbDYFyiLrV8U1RlOP2JhqL2U/EX//DDXw0kD6elNIwjnj/yYvFvSsgTKZ0wLBtr5D4Cc4H6+nHb6naiw3OwQ9Jyp/9sxT8GJWVkKGOdeGRaDVOfchEVv8r4Ut0rEd10Yl0BHKvl3sWZ9sv9+Ck5pKbJguPIDixRsVhDl+lAI1FiNvQSeZ+ssQFzPVGQEo5qljwS6scoPBtrpHCW6Oix9Nhhm+J9m9msR9o0H8+VVDthzgc174FMUXnNKuUlTWjAtKKJ9Aq9Q5gbYPpSkSYwEztWYn7ignKmD3YllT1bRqLgCfFi9+Ka42aWHeEtBejpBY0gwusFAim4mJylTpkVgXm9wpWcg1WzY65DIx/xZ/Z0/LGs3Lq89Sb0ypqxJLQy6kDsVUjkbKCXqVdHBFxQWOiSsksFcCsMOLUHWdRRGLWZ7YK+Fd7AwcVhknAAmkHXOMvk33qEuxVQCr7pITp8FUN+Y70ZLGc46hpjwhp6z75+PMS6OZCAhoUdFukIYyLje1x4u+ZvAsZjJg4xnwQ+4WubJ3NcFfCGztz6V6ziEEvmzheoRIt0ZCKq+Ja0TFzgRPNWg3A9GUVmOM83K0LW0HpPp2ThPgvCDgS53i+RIHon5iShU08HAPFDXPxOYtSNK9AM250DYNDlNnk3X/2tZF+xk7HE7adC55Jn5YbC1/I0t/GRFjFUo9aqq2K8h8oqNWDxGO2XMY0CaT0DTMmoTcMc6umaN7iEmwEDob/BN6b5QOGLXCFY3uEQof51q35SUgQ3Z4cmY4M8Har9AqTvFHMtJ2U3fJWC8HAwY0gU+VgWW8NgC3OykGQz1Cqa35ZZSy9Wq8tF0KJtnN5T90BWEVRWmUjM/V36TU/4nxvxou9kGJDJhycZ5TcfSncXJxc2rx4ath/b3enoBEAbU0ESrG4i55+sY5QEohntkWZxVC2dyWqCgP3Os9x9MVJ20lFyTJv2YInwXJ+/l/3jQixznJ0vlHNVrfWkJ70Yw7adK8a6HPHc2vYJvIOelB8dMVZlgur+MRLbG9jCb7952UjXzoqMIxoT6LBaDBDdvSE8t0aZiOlbhTqxzR+bxnJNLRWvrwyx0RgTdn29zMQbViwVN/wNLd1FZEy+uVAXKAYFlLOhB6F7yf88UDg17GmYYjS6MM6ffXxgeTogqDbrWckihlfv9ODeq0ERIl63FzoJ27AWS2aop9mi+n9dCwJ97YDTKkqzSPF9em3Znay9TNbDz3GLm6slEjqq2qUre0I4D0dAQVN7VhxpubVuOMyGF+PQZqsre+gkb06nV2ky2lkR6YYw8nSFqwpCZdWn5nrEb8ZHqIte4oiaU/4u6CC1cF+mk7YgJT0LXl2JxSeET15wLJbBUzEikKuDFj3nj76AYqGk7vZ94Tqty1hCOSL6OTyrLS3BVDahK7TK+McLYSUoqsHHVRwyptcLB5MEA6NXk3zkO7U8wMxCpPW4sGMXEBknJdWRucwEGqz2MLOTdT2IncXOes5yld9FMYGOLofZBqFltRLTP7RxVlOBkNbaHGOssHb0u4r0cyjA7pkrecjVn2xOweUawjkA3s8odYAfzO5mQuDt6GF8bmicWI4ylrZBcnM0oUCvNi3PTCKH90cj9qQO/Bg3gDzjsW8s9pGJixFE74MPRMexow5PZ1m53v4JrHDM1ZUB4ieaIG3zVF/6ZCA+VY8jYOr89551bFzinDT5pvYyL6ApKEN28I+MMaBEDW3n6SOIJnNyRXv9VjuK2mvL1Ta4SdBnKjbpuSqDZaXQ0dD+8FZC9Z2/5lFQnWLGMdlRJ42tK+vwFBuAOVFxtcpDMOl/U9rBXfRPvLi9JNc1YgO04se9ZS8/QY00W7QI9D+ScUq88+5CIsMF9I6cEy0sZs3ujjEogRwldkgwGFS/qiZmMqR3swMbSXp9r4nXrY1Ccs0qD93V9LF49WsLDy1XUf5uv49aV9vPbt8b/dRKxWlqcG/sfP5jAFL9szMn4SgHTBj9Wx0fnvmXxUi2kdVJE+pIFofS3C2SuqHqdcI+SyXtFSUiOByNHwDQ9zWTKbDoRhz+rPbvsP8qlb2rHsB3Mgs8Zv46v6jEhvpot2eh26x/WZ0e0GE2CNeQkunDCO9SqX+Ic3F+mqVNXsSqAvFsAN2sYoxfIuf5gOjdWbYvkwI+FHETPxFFqAdbP+NjvWBqIk/GZLS47rEN5CaPDHwK4l0eZ8XERzfwVVPtSGOjRc8oZbfsx4TzxZeUuZFlq0r1bnrnuafMvrYG3o1rQYEe54gCLGZP7kvEBf7Xi5iCxbX2fb1ouZBAn1IHXU5aEOcdvmnWXs7p6E6NheXySFTplDAUPVPoQFALtSOKWleu7dAZnIFJ7kwbz7bOthifLDmjsQfDcLSykX4x90xeiJ783vGjXZyQLpbYRvsMRmdH1yN/TDkK/Cu1jfDz1z15m2ato+L1lJyZnGMTG1zDFem8dY6kzd0CWGm3FRYLeiZtwFPgn1gzOtPY/iApR437TmQAQ7NYvg58ugeI2AUlP9l2f54IGpdPPvk9cAqenlgOE8IOoXjfb0kHagUFdXfAKPh3Vr7WOno05ngD9idI2PsyERl0qJz2RQ9AzArOUA6jZ7MdrbzHgcwTY9PLa+AFUONAWOum8d6lB7mfokLkrZx3Qwi6ejjI4pPX4WH472EANyEzHhquSsNKh/Q3x4PXp9W9c1qFs45nRUeFle2HQDAIJpPN1a+zh97uXN6gPDFSLhajQXYUq33SHMv9gYAw1TyWeS13T7P0RtXqZjW2Kk3eEOEi+Ox8kLyV0W4NmaYTHCO5aIpquP4zpJ+P4052qy/kAmdFdM9tSZzl17L2fWWuROXIKzvVUl9mqTpALGfVyxK1v/+1b4AUGQxrasT/6nQXDb+pss1CNnLIpjbAcmSE/CA9JTICjtZXFHqRYWErwoMznA+vrNM0PHl3abk5Fy68UYZ0wR8PTlc7JcG8ImP78rM6eQfMNvF6WgZ3IX6n5jFIPewXEtQTJ689Er2CqmRjaszGt8+biLCFzQfY9z6iDahsoAx61zTenoqdofAwbdJEYmNxI3FPNyQSJ5M6iP5+ZDcsVD9CqwsHbLZ6D2D6FlG01ofHdppl7V5UGcUBNLucbsfikej7wcvuxkak8BBzacsmEKmCql1+6prGXLCh7ivtyFWQ+cplc0pYfrex4MPC+9hGMNtaDwS56TxjSaNP9zGS9uVEUskjF2NPGyJuh0d1yCGv5IJ2QxPKWo0FTmJTcQ0/SUejkzpYCEIbXEmlcdKIrSE7TiWgkt+mSwHAo+Qnf8YpgRV+78ynFpPbm/YlQhHICvnhFyOhYZ8E0qPtJygExDR6CVnlyI3PB24+5hMYmz+Pt+qTO4XPIoGXivihvgRcfJKHT0U+zWPo2/Kh9skCWKTRFXkuGstlfmMIzoszTkMsYahtADPCR1HBkSPYP+zZpeTsTF218sYxi5f8A8XutXPE6byYvHNA6IZXlGCmeQbQxMzMDmvadeVYzNWJsRortLsUMEPFXtI/7NsVMF+3X1Aa84clj8BCk0emeiCFBu0Ctz1bjkMJatRd+mXI6Suo87OwLWMQxjB3dlSITiro5uwXrcD7kvvkSSEwI1paIWMDPhzHUpEnRqc7wZEZZlK8cZ0wriSavEmY8Yqz4kV4oOe8C3G5nIq9lpEoDP/MVj+OSJ1/4IkMcV/vOQGgcyNiKhT8X29n6UgqMtnotEd1efiu9RpJ6+Sl5Yw4VNL5FpaP0AAQzcXpsP1ulmD3uCwEplXoxdsRpXTSCZShkDLx5w3fx8AIhLdDo9zJQkOBR+uxnESEOpAu3L9JgTcA2IGpB+3Nj+wS9dZ+5nL+1vVUNfhxQ1QtN1rtXThRp2h8igbuGwrWpKNHHtfNZEA2VKXFwE9SQ/sBZejLLSxSBMXvQGqa/4H06ppQ9+rexDbRi5C8TZ5sXKs7hahDnVDP7/c2fjQ5uqYHvmXCiR/i6xGvLMICzgQNY39BEvmslfcUUiO5TqphjGDef6fi5azpyeasuUOvavQ4l4aIkVk2N0Vg4kaLg5EUliVpQuWI0tb6R9VVY56PDM/nhO2Jwic45bTe9ElIdCEL9f3Ppz4p5l1FvBwSC91f45HqAhmZYKpRTe4RAOzbzxQpw0NwighnwwLZFivcC5emN4jDYboBqYg8I3oEGoSFxfv8j6JOBZLL32gX6I5soE2F1gu3SnCyETkb93ejO86Qc5Ct19BhCa7kdzGxVa+81N0NI6AbpUNXaeJdNGYzDVVyOFhYZizWMtOyEOa0sTkyIOY0QT9HI0vVDJb6QOcXkKm4usEj2xcj2LDHiszucI7bRv50X3T+1r5wG860tvEdeAP9O+O2XAzYgWC9XF4R38+txKQfBtxmm3MfCxSZUKfjDQahDjmhPtp3C+ckRoM8v/yC5pw1fTmRtIV1Shj2n87OPMZWIgzGlhAkdDfhan0JJiV5OuD61ES2vb2tTlWzSlePjOlM579Xe7IhnMcWJORJqIgnVBZYo0MMPAuArZb8h2Jog+OoMwupkbk6g0qek6O5A4vCYmgeqtPoOee3+3bO0zmZIxRRrUOdQC8BsS6Hnm8Cm8Of1QYaq+bk3zBGAakqJnhIPe2TyXjQDsBmG+3dsZQS81akhA11J2UJV0lqYynsrK6tcpaaBIEVM/9n/TKykw9QNEfWLWQmI1jf1Vp98kc/aznWUULWhTUOiVkKU0AiIgY56omZTJmtHq9gqC57K5OlArsNOlazKeupFlK6Bl6nA1bRoobCdnXA/fnGavfXpo7qSX//wScRa7Feb77IiYOSCWzahADJJZybAz8C3y874K4ri+QxBLenV/+sFwtlk/CRO/HUdJB1FOXd0Gj2M81KArcFivYbR46jiSVjpYbDoCmUvWOPeIXkZ1NeTACyorNTioY5UTktboxr+AK4gC9HYFw5xjeHHeZstnbhsGrCnxBDCwXuiaG0qMUHEXOExvXmLarFVwRQXQfb58j/QJ4BaMAD7anvI8JPTrmXn7IdddTv4jEopmsEZBq5X4GZKSr8u+DguRBju/a3YwZqyiyHebKCe9T1GNI4Xhmm+jAWMK+SkW0p1rEqcJHcdsA2lSAYqiFvAM/QiRL/rNoMGA6VuDigDlcNaG7CAFoEI4vB167vSzksCyALt2EFLFHiNJ170t8EcfRc58PsBhx7CJulBISzbV2dtwyRoa9G5fIrODkciYBQZni2btSa/zH3LiJt6vsixhLVrQ1koUq7p2dBTVZy/xGme/q2tYgz88m/pJtkvX15/0Or9oZrSXDkmh23pJ+DKTD+g8mEPGiDtmbjoScKi7OwGE0tQ+7ILCO11JT9q8G3dYdTkZ9CFdQtJ5aE5VA6VliDB33YO+XN1C6B5kOqXGuhbDtDOmZJKGe05DFlfUO/1S4GDXST0MH+VJRAEA/MRcU+1uobS7b3mJgkeCfx8o41wM+EMjniSCPBs5p78G7ZDHo4VOTsV0VdqEGcsHAXW/bYYjTlxdf3AqNqmDgcSdg1DWpX31T8QzpREmSNU5SgsgakOgB4JeSXzJR/F8N7kj72tGRYxFdt8Ua25CycopTHY32ootfDpY8gO0tbkaEy3eX2udulLJXbPzMJbLK47Vm6zbOIsvMtH7tchJf/8rKWJLboYWXTGFdnQ7XfvHFLFKQzxzSczeLg7s7MbeP0bpMB4lNkE0Y08Sn2njr3L6UIoNW9X/eBDkD8OBNvRKGL97mgShXf/Y9vvrfXJoUq9xlsr/ZhVFcwRS+gsg1cjxqnpLcF6FIIUud1kdd9YVdhMe3HahcdDUgFIS/mq5be85jIRKkZg8XsuzYFecWKbKhLYsLBgw7EK21wszvvJAvvdhsvv7gBoXYIJ5Dkx9hDo/XXRFYb+CsmBy9eDKm033Ab7L2nZzdICnMTRqwQk/+uLWZvpQ8VyH7g6rM8Q556qgftS4+LSl4c/OxX699677xNw/wSQ8PVC8yLIU798O/7iRam7RqR2ydSidPE/OLpt67jqQ4IAPyLD/a4lP0MP83g1yjgltx0SS4Qgcxx4PS0CEaU8pz+gpkz8PrSbYGZTLQdUxAHDFeFMJNHA7kdw3wM708rzlH7RoyXBw6dWDsPDVtURLu55cA3TVJ459qHMfXufok66dCVGZQeGO3A3S4IvyFUr+dnTFHxA0y1Mu/JfMyNsFl8qH3v9xCbYBqlEcdn+lAjCuv1HCJw5J/VdWIKI1qn6E96KTnDVsiBWrhiRO0Ko7wzI+AJ51EaQ+rbtPLH9OnwRBnHYZT6pWhlzuhDW9sqddWGm4n71Ftu3ZFkg7jLLEUTJS88gXbXQRjrpsMpgzG/Ty4R4Kgm7Zu2mn+TLqZcBKNgIPdnZItZhfWVtYhi2HhLVqax+lLG3z44ZzaoFEZyXcplrIi29XAOkcMYz4YefPrT2dzGscW5ud1wOEGnN6UMgCpgN8QBpUzmgDVS24+ACIphRLkx9/KBD1PLmZZ3V8K5g39eOh0sCUYQbriAaN5ZjqrliVJChj7+rBZZ3qVZ/Mq3Il9lsT3gID0n3BKzjMV4c0rbI8p+DlCaP7niwRXVLStKzmh+JBUAhefvBz41FDgxS4e2Z5a8XDGx06n3j6x3RJNua1QIyun3If1ySTeoQejzUcFMcAtP4gnhD9fL8plg4G4Mf2MA1WpspQnTCtCmEGlp9eqJAfyEZE85j8Rj+vczRU5ZHJlylKuUA2flLAdVxxfjN/cmMuiYg1BtibohSLCbtje2FTVg9m6XD8lPFRYYpVDfS2yE26oPPWjzeA97NqLHvXs9oGoNbEMoFdjM6NmA9zX/UdTx0P5sNWsGBs2fB4R+t9eG2fPPcFqb6roiqmKz5ni4L8PV2fKWGucl4/gz+7QTU4IFvj0/1QVfUNBwi+T04RiVohN2Iq0ttedCVXCmvq6G47Rt1meavhlxpbxwFoV6r3B3nFSFQ3/KR/7bectzWkjeB0Y2e4QnIlztqOxEPUwN1k2udT9DddQfu70u/5oZzZGr7+/R8F3TzyuF5iFi62ETeY0X1U3zvpxsT4A9f+iIWnY/M2a6hF2V/OEGgyZ7bnvsCWWOcEDq/o38d4mUDBc/m77CFd+1nJZ0RNpjqS7fotgOr9x3ofS3wkMl5SmIrMvGzYBSW07RX2ii2OFL+aYluTANZR+/tyZpoWguxp5LsH0tDgR7v5LruGY9kKDE9/9K9Ojmb3DLy4yWZYETwpt4C632VWnWef0LnEq0ksXYRZ/gI+hxjj2yB+K8UT12uw+8x107j91Tt+Chk9EvLVKoyXHzmG7rCS9kF0BdjHEEpAVRyxZl0QHN0WjC52t0WG0sulU57ht5yhGvo29mk6F0pI8Rz+k7BjuVaJ0wn+bp7z/eUEOY9+PZioDJELaDVOM9axHee3d19yb/1qP8BaCRecNhTHT4fGjZHWlmKmEK8NaTfNuYHmpeKXefQsiYiIlwLgy47k+d+RnOL/VlQZGvj29x5Vb2LUALj0jXoESG3QDP6dpDCMBcaJdpVyT2XogJSBVoREuCSwSv03efuJI8PUiiT6RpgQQ8NX32yr/4KRnODGBE9rva6cXo9OpYnigW9G64K59CS8z5O+cIgD2cnA7K6rlz2Zzm7O/naNQc8ZeXZT8X84pyru8OFtDnrD4O+mRaSrGhTTT4dOPgaK6TJFmtMsfdp5tt/eZAiYySPCmQb7FjIDitpUhnU2zXyHIOJg5GQyQZDjkERooNm0SJqK1FobAc+Hv03rolpQWE4r32BPiRSv2FsoTLo8jBZzxXroCd1+UCrAY9xOPLwisUIpD4qSyyWxiHajS6ClYIg/zHM+bLdlVbEXFkJlmRbW/DsXdvFPo0sGGryYJdvulhmL+y9wWWx7iFBKXhdVD65jgEBw2XngldxZaerv54cGvSx8yorWB5dFfKPEXBZZASzsYO2gwjmQs2DuyY5DyFxA3kN/EhWWwY8P2GAeDfrqk25CaUlmETjg7MCWQdyp26vdM+xlq08N/+p+32rrR/YkQqFDeSKmIXgKcTJTu010T2eBQbeZelAiEDE/XNfzYnrojBUNgGFa5Ebb5AB5NFHpYJFBW5JxalIep71dY7sobhAlOI4zAoS0m7OCyX2VQVswkXKdvohAdRyTvDjFKmerRZC0e6EJB1ObDwVcNiAnGQb0x1rilw7544hZEepSiaH/NNeXoPKvlMHgl3Yk2hYU+aBY6tCcdx5wDF9QJhRdGz1C26KinSn8Xs8K+l8Pgc69DT+Ht6UmDuZz9VlMb/5rDGLXSHHvsYV5wO0ksQiTdo73OI7r/oBAr5BkSUqI2sGYRDxTTttLuRJfzQgE73XnsTrlB/rKZXtyEGR/1UVvJW3rQrAjz6kvgbl22RxGMsWPH5I6THdd3n19i3lfBRwHPHZqB+QSG/ju0OFm4W0lCy5w3CySYfI8RIHfYQ2ndlLKBhEAXm/iVYWJ/6LK36ZTQlmBWWx2B1BCjcYh9pgRKREYVOHBCpRcDA4rcT8KIeirTTj1+RywWkRGB1vwWasei4az9TszuXsPoqalzQ9N5YAnj/2ctVsTMgukY6tzF3Vjq5wzAvX19Uh7dEy1dAF5e5eEy/yA14q6gzs2uXpifZrA2Z1BPKT0Ge/fzbJOZQPAgmrTIPTaMYkzhiCcoMmAEbE1ShFYBXFebz1FuLM57OobDEnaKb8S9Kd2MJg+RLb5vc4p1OzUcRtUswAzMlk5a/RYURYtqFL1QoA+vRL27aDmN666xBwbYz53nEL2lmy7f0zt42QMd88CPlwHnOtBSfTqE13xrI1kLapMBuuvJz42iQ1RE1eh7AmnUUHB/CDatLplQZfCd41h6soFAeiHuDIgnT07NzA2pyl8ohEIR4rNHPA9kjIpLladimmZkiDAU2AukRbjV7lBzyELsrb1NbjPhHo7FD23sZZRVCCAVto+ic/Wd97WcFaZGoRbgG8tEIWquTwRdxk1eCsr7rMfZdWwh4ywVoyWH0oOcKogegaQXU2xsWy7jjyNJ45a+lfk8ub7fBE4unLqBkfQRmjpM9r4SARdt0JAjcXXzfx/wsJFMiyqRftKd4fIFoNnlQH7WlxmBOUQt61VsKJYUwxhMS2dp8MPdFdQwAFIhA7tgFvZu837RSDGFrGImJOTf3Fkg17IHe0838qeIiqEzmyMwW9WBBB27oycxzeBStsse2zvRgheWYZVjyMsOEI074gsrtRV2IZqNI1JciDbs1S2bVrmreALagBPgQ8xWkhZq9UOthf1osEuZOiOzlnU1a/s3ql1tVX7nMBJd1Uc1aroQEpjIezPu30Mo5a1eR+UpALEHv1Gy6cV8Cv0Da8fYzkEbLG+NmKYRuWjOtYxLmNvJtTCNB3a64S658UgjJM8XxEMs61Z/MEZk2/lD6nI1iHNjiWHDgo461bjkkBavAE1rL+/KBw3HMmAGs91PETFmB43GAk/y9hIjrvRc31QU+isp2Am+Cz4oykEVm2SeZnD9mwMIulnl0Mae4Au27ZUoZ9e9jvdny+3EfcKEM9gCxmI2QpmO8YTG2uts3EdeuE+J20Zn40hC43TCkoSHwNbcSXfOCnU8Ns0/OzrKXOo2vB+NaoBnKXtiUg7cpcFy9ju+W/Fs3V2lf9rfjE2azsj1LE6oa2CUp4/+vxhccBRmNKQAcJLCv4lHX28pCpRahq/lU4D/GknS4MUlfbYi1pNQW9+Fks9syIuWtaRGg1iKze0PsHtwICpApcCvjLDc/8ZI7wxiAhV9y2UsJpB+I+y2DLw+fqpGGxD0jn0pJE0XO7o25oJpeAg2iO9yhYFTVmfgYWQQTsdnpPVtdlrkvB/XF6Whw7PHZz4kVQiERmdpeNrFo62gy5xZaMkOiDBJlNqvKUD9SHCLKUQTkhnw2DLFqE6wzlvhZcOnTJ9WB/JxXWdo7ovdeV5/IsIDhKdP8k9+RQYYhC9SLJ3oofm2lVTNiizaQCVVnTeWlyHMI3e0T/YyknCM40g2KnG1v62k8i3O3Zm0mSxnjAv9vhd2rfCvZvaUh8Fn6RJU98QV1KVUR4JzzaKPcbe4J34Tlxy7vKVzF+peP88YuMqMV+G9UFyFVcy52o2DyxpdeiXSPCWEapGUpqpIzRm8gGeT4W0Pu+4MwKP1QiOmaAM/x1i7riW1X5aYjBj2gvG0WFz4SVRNy+/pcbARN9spHXsBWhhxDw76JO1fHUUyMaQSyOPioJIWam8PvlGFYZCwUyRc8zXfKaNXVgPPojU8odrVcq51pUkEvZjsQKpNNioliU6gBw4g+EZ2/zsdB/LzhV1t3oAlKlBlrQjzz9o031W2H7fysAqu7KdC2M3eWw94qg7fUh3J5BknRFV9eMwcKYpNks9AFKMe1EqTmlxLSJXLYuGasGpON/1Id3QtSQt6+Vc+Jt78wrQRMx+knmp0SldY36LJMh+oNbwPCsRGX/VEBxOvh3HKE+BzILgZezMjUahjCNvLVs1qvR+ymwoqZxBZOhDRseTO4syoe9Q/uhs9L+t0wyICFZAQnAby/R7WGYgEYKG6p5g06QA2Q2v1HCE1wW1Q5rm9xrDeBk0M0R9fRPu5JRJUIBIH/Dg5xXF2xFtNIA800/NeC9rQmD70yatEN1duwwCkHIrbQ8bftpErTYCorK1RHjeVy9dXCBxjxl3GXQ8vN3sdqMDZlLfJBJ9bVDU6KpFjP9S+ZKuLw8a/TOsWYuwYZChFWrbMwGjL7T7mj+wn4eRQ/CLLEzY4MeCMes7cse2//wA3h4byR5NCVqp1upO1fkYHO94bxt23shMqp+tIxgxIvLDdO6ZTmbPENlY09GMb1s8PUOLrRipTD9eN7ey64K3DJSt6OxIfIXKSoxYaN+tKFgiV20cMTqqbRMMPYP600iwp3bBgilk6M0sqf+NhgC0lChe7rVHzY4PbvwIQXtyX+eMLOZg56lJRvAqQ2i0IWeufUSrOwhJM2Yr5r/rX52Q6Wtv7HNg0aetGNRTIpwSkuZoEpRh4+5pIz2B8OsW/VgzjXwa+yAsiu6QuzNtRemOmYXhCB/F8bVG5OdDS6A/Kwa6F6495s69uO10ETXslv4x4w56TskdyyCKg7zqVM0MUnqrO8QTTKsb0rKHRKuAzDhTJKm62b+vD3pztG0lX+mU/12mEeHMQSg99ygPswdS1VPPA7If4sQZarhKp2G2EX0e863yNCUoGoOpVlyCigAjrIOUNA4hA2XUchlOks55WuvByTD1of3jkGUS7jVCyu/sih4nGXzcZCAYYI+XbZSz4cDrcip+8lpjFuQXYVh1SodOggR4GWNOw20JTUiE2o4+0Aq0D0+mQIhuwTJXFdYq7819Z+FmVUqPGOw7Mo+WhK6jZohGDRW2m2tZnR7m/LXQ3t+L94GBNnQfWgQNqoiRtYlwRpcIl3QBGOP/Xr0MrmHB4u+he/BQgZtPWe4SEjFCve7rt2i0+WPlYFngRXI/NYbop7Sc8B2z/9RF/MeDR7c8uv1hhQJh8svoNgLFbWOp2OyYM0CXN+YnAZvUVhfDKapt68fJGMFRlks5NODAPoFpDtCXY9lblJTOeVGpg/Xz8dsClPetZrmeg/ME9JBuKwgVuWV93zc6/1ZQJmzb2rHmhp+mYRXmvSKOm8XeOKA6RHHpWLK9aNRpRmzphIMPDMUWI+KxYOugU1+sYQEaMTxx7pSTUeUrzk7GdNOScHIjY2FwCvIsmc3ljuw051pCXrSqBbIuxXOjadS5Eyh5B4EPJeoIMNwgOg12cGmr8LjDhCZ/FpUrGD7HBxfE7PLT5yXBLBT+RX18/Z7HZrme+CI0c/NvU4R5BdvwSR7kW6EZ8N6HlDxjx4p92IjyH65cbl0+pPuYanUerpAhUC/UWxl6BBrlHx/FugY1GluV+txOdKq3wKwmJGDgpnBVNqX5YMOGFjazPEHf4imJj0nNPIJaQjaxQ2gDNMz97aHm9l4AgB6ZjuZCJN5aYyRuEcd6SsPVcDwsIH8QN8oN2qiKhl7i70jkSR87atboUV/PxUFukw8wFiYDVlwrMa3rrq9cycsGb0mwNFZ1oBV+hdcV4j27ymPsPrZvdXZKcSF1CVBdXk/XxTrtnweSuGLFLZ5GpnmQf9G+xxy4jtn8AeKMgl+tHxOIYfy0p7fvvYpKttj9U4eohI05HbFPon3RANcbI4ubmzWm36oX9E5YIJwL8smhILbbgS0q8AdIx0iy0wcbPPPnfq52MkI6ROAh4laIFjWXPopMoTLzlMHapPytDywCm8hhwWEJ4QCbJbrh433hbgr8/n8cIShUieQ/tpPUp4dI+kz1+FuVesAQ01jeCC2d+3uvBeZIjJ7MyA91ugHsMp6T8GmHfKoQQWuSiyiYfnP0BWPD3Q0VS/M981nVkxMtk7e8dcfjCPuoCJEea7+uLVbxUbc5aqMJMKrnnE4ZWu3D/m3amoXIPOXapff524ADTeCzmHJyl8p2zrynJefmW0C2Tw6PKwz0kegGB2DNK83HGukujBAuxdOR0lSYazPwhA/mT1ISz21Oe53V2xWphZqje33oYdwhXFFQrgpMfGH6nAZFPMrvMIuhHK5wMyX/jV//SAxd1lGtXUa8/Nl5ylTUnyDX676Ggaky2TakSOsM9sMUmw+UkCbPTgO8F+x7IVYdOqVs/ReiFD6tE+KoZysj5aJeeV2Y9jLkDsVA+txEwY2vlCoIKdr98PzlPYhZLjH/iMFpq6Mgoz2C+lgEzwbSG+UjBLqd1nhMyDfdVx0R4I25sTfgtIDVeaiH0V+/BcXEIBy4VErOx6XFnp6xaBMIe32MaCdAkV4CpRFAvwnOCggOMgb+tXO2ySq9qiudOHWL5r9cJAHWsvPdxjfJOTvnwSYvW13SOZBHuG75QSjlQ9zvEnbRsIOtFllcvFwv/OZonHXJuEel6jBjFNK4DhfbuOGfT+mkaheQQIzEHRRT/ZTaSGJPLIz21ZT8NG862+dkpMdi0biVmurawhm5NkPZJLdyVO6l8Wn1KOSQxkeG5l5pZ13y7kVDmoU2JsAjFQbk+8qAh/na3Sch9Ge9TeTJU3+EHP+D3oPJW8BeOcHquCsassCejoWeNRK+RibExaa7tdpEeEQfSaPi5YK9ySybjIKrvou2rjyb0hz3sZdQp255O3RdPHdCddo4V6t3lpxUB8JxJOnzVcw5mSUjoI8xNWzoHhaq0ZljFfH/6tL0xHH+ovEDdTBZ2QNb/ONSfEG3DShf96/xKECvwTYQ24/xLHwFooTm5mFsALHhXnU48RJ1ayRQUPbMheFh3oC3Kzhy5nVn3tdmBX6skNnohD+JZ7S7TZQIrfyAUV8x2E3imHOpuR2YTvxxQgyBWWbQCKJPMggZl944eB0HeIlk/Wirg66KNqRgJC2r/uM9rx65ojlEWkfSrQ8JklBGTbytdMQCebiVGqz59T0Hxu/JyKHV6LO+XRO4binm5MAOiaRwxZgmRCXt1qvbDQerDBksLC1Jeid2mCeg7KmkmIOO/zisC9fs/s4U6ZyADqVPYXZ2F9Mpogbq0pVA1x3SbKPKANtv2qzKDW+w5PehRN94R1Tv4tmKGoCdFwg3dk3k4rFT/zChzKaJgcZwvXk/crOISOM4RFEx24otRKltjAApXhpLxJEfQfxwTLBBT78gsZ7zSY7A11CcdKUwItUkDosENsnaaSTgjEwR0uS/7p23iEyrz4ZQe31+KM8lDOtxx+eYs8vxEtG9x+TivL+R8K1XGIMRTKIb4Gfpe9uWXLAy0FkxkNySl6wJODEPftZd0Aa2H+rwWweBn8fea0EiNRRndz6QgbDZhUzKmz8EWdaqF8OINDe6Q0y2aciBlZQzkjTpPIQNPVo3nCKgqmXOtMItZmcC/3QQIrDV5sfvsacT2mC0gMFCfRBwlwRN2iOJwg5oy97gmykz/kIqNisuNmRci8yBahUIoSfoV+V4jvJYGRJCrsRjPniWnKfKgK4ChbF8BFzBWybBuu2lWXCFjIzoh6xqKJk1nwQIKL6H2oAoON6fzeTjYvsuRo0BswZR1Bk7EfrirR6gIJlpCq6jcE5kgLeFnIdUQ0NVgG2NfKlkymwuIdjIbJFKB60IdcFPpLLDb0Y+sc5Sq2cJVEhrbNcdcXbL/90xNoj6/fA2bwd0iFDQlThKSC4HZJcRdgEaJ02OJZqbHCJ2zYLPfNWdU6nAYY0MTMu+4PZJaftM/6kx9dQRmQD2SnwWZQPkpulvCMsgo5NeaXxX+lQK7Nk+fkUQ7vD2m6YeVbob0Supt+aNG9ERtnmSlv3z1r76shj693U6M8y/1B5fmpBHblDDjIGXS7Mm/6D5yRgKjjgJcTGic75W9WnZczEQp8s/aDPDZTYqFlCLJVzRnh8k5MiiySuuYNeTpks6Xbvs8x6WD3n5H6ogAR26YheCImS6vE0X/SLFLwKZi0O+V70OD6xedqNxrSsQRQLsWdVdqUTMJUyzPFtpB1UmazBr1KdRKeP5enUqgi/WHZkrgNVnHhWdyv3rrJc1CX8/lq79lNhTQADFJrF653aza+8EHETnuO0lEYbrDG/KinYzM2623T6be/xM7fHIzYwowL0Bi1qOpnz74uyHEVqkdcwQa+S3TpR8F4UeaiPgScgYyU76s52G8FEYj76FwsMjbNLfV7MNH0f6YKSRqCH0cymxwvFjz8JcDzN19FYJHgePE4LPZYxd/b96cKTlF4TB5PPSkPOeeFhYprrkERKbbTjoVwPI1boHbg5OhyhxK+V4BYjs2SZG3oTlI43SxFYRKQ8Tt+wgq8v94cDhB4C4GT3Fw0E21NT760NVmEkdDwIRy0z+MsOL9j2qG66yDmYyEw5i3JnenewRCCUBoA9dC+VxjREonf2vkU6lMqxgV5vf8fYsWQQ2mmpL19dwUn0Gm866OMOoBsxyflDt05hsyLtalK9FuwCdwGPx6NQKBzVIaBZiHiygLhh8iibzSFJxMo9XzebwMjO8BXKDlwTqbrPagcHWDDQ3xwsY4XL83+kWqj08EfBYI5R53h8BgXxCKkI8bKBS6WBEYsl+qQBgdami+kMDQMyxGe0nXNMJFgNS+s9XCZmlnRc1DCoUHMJi9WI16q+sC7LXWfpOU8TbHjUNNAq4Z1YpIPMZX+KDQnNTqMUCGTO0ZL3Dh4zXdu0lRzk3dg0dDPVabUOImRW0Ug8qs7A/prMms8dF9ZJfmxcBvZa7R3lb3WWefTD6AtVt8+VV2oSPZCjIhA+H7oyYNORT9QDe8uJvVO1I1AnfNYOKaW9idBJtDsVkPer+A5Eychs0eztD2l5NP44KcYMAtcnDVUVW2UIeNmjvfjTfj1erB0Yv22KR7qik4Ly2Z0rllG16W9xPRl8bRIagTKqDVY4orl14Ofh7gfI68mRQANzFHdAHgxsaHR19sLocGTxe/HGkqf6yR8mRMhnXXVHp4aom8pnF4vCqzOd/e3CCvBZ79DUXPwDvGlAPwoufelhRTA2EszvwVYkk5U1SckUZRuB1/DxYWirVdXixzOx7lxxgZ2MuTPbb9s+61PiSjY4e9wrHeUpsUNokpBcBHUrtgtNymUSk936nPHOoLAnJdQZ9zex9zZfDnFMKVCQq4kWIRTO/5L+fkFasAGI8M4GYXwTJ0Oip+PCAaCIA8nv47f6g4hKuAycQvnPYsOhsOVxoavFM9SgZuZVEnGOhRbIZCkaOemZ9Z12Vta+zvCsAvg0cYfseOZerJlj2yF94Q7Osj1U0qLVTUzxxRZil83elQ48n2gfvSfQyV1ZwoI2JR54P6N1ojc1vkP4n20T/A+YfnSO9Ff5SUhUmeYa6BlZmu4wuEBHVShhS2oRE8D7pjDWtoEHsyE250m6WTlvFwqAbzwy/F2ZXwReQRXHC4STrJ9uw7o9znkIPJFI0R/3hnaUaLZzuqm7Q/CubjWWrgplw6SDgNY3bV/dhkplM2NtIAQDCuEX6fdtVE0/tqyQHaGqy67/RNOJeRGUAVphDQ6BaAFViQ52nWf8CL+6devj2epziR6KhoFx/5OzbjzOZBTkafoo3tuCJOBdpA+Vga6l8ef1TbtlQmSny/frqnSY6VasC8Rx2pDYHP3cY78fnARnUveRZJdWfMJTcaaNuqw6diMtInnIaHXbGhXTg2q95P9BnZ9pGrsXHI9ZCCUq/81TxdA2seDnvMytu/Eu0bipSObhUEAiBt9sk9k3xGuArWk3y8Aw8e3+Y893ajmu2/gUSbpnBYylr6vJdONlRY9JWGMTCaa/8JpR6RY4AAQBBcLx8jyJ14AhXH+EOmV52dN/y9M8/d6FbmRqMk49cCdhfqHJaOVVZTzgmCa6bG4ohUi3cOmZRTLpoGesXU5vW4xXeszlmDjLX9kdtVWB9KRKclG2ZYwN0uAija2X6akpPT0hyqugUIoHCfSXuGP20jA3XZHSDIltbsG/jSYa8CbFnlAlrSmbtHa6qZweAeQ0Hnw7DAohc9Pt592t8LTKfpE8suUKkrztCDsIP8uqDr5oTF7C9iRfjcssOdn5BYwSIcXV4OIZX3Z/uVHBlv/Es4DkN44n9jpNPQ9zVW975mOV7v3Ga7NwNycX+9OE35pTMrVWv0zp0lqUVgi/PbvKpf2nQNmGYUqPZutS+tkLryy/AIxxE7mr4j9nEfqTl2RVeWclFZ8YH6x2wkAxCS5TdWIevd4sD4j23ZrwtUCRiSGgVYZVlk7PycYrpJnfoAdDJtd24CI1SDQ0ctyqzKM1WIWJskSLkEcAuKhO0gVorCZ0n9vFohPv2MeOvuuk5NIQXHFfB/iMcp7BTeEtmq8qtzIehY+lmLl0j5XCiQc3RiiNzFBwTyOsNWkVQ5GuUi8E3VO6BldxdfHSxx5lNtOK81hJ8eXcgTQbrsCUSij9wy0LEJKrUI6HbtLNyIrJxK1jCcVJOAUtRQZGllBX54CRjR3LOr5zj58jPxDNb51CInE0I7oaUO09ZjXC9+NSEdV6Qm8oQw12ayzaxKbQNVh8VmiPrFjiaQFg5D1+4QZGqoJFl1W3W3lNSForzfbm4qgV7DMAL/AgYoBee1BZwkJSYJA63tM8FYL6wCu7bjC3XQK47b1FEvdSUzzurOt6PDFz+QDxjp1B6vALhS6kdaR9XO1hEbGhulXjXdv7LNpgJYw+LILwPIY9qY2yxU668tLh+NhZRJagitW9ZhEXcNreVcvGz4PL4G7p4T68C/U1nfB9hWe3UOO/i/bUEIZowYhDW1SIga+G2vY+pveaFNERDTwe+s8RzeFvhh0dCeDOz6tBD/Y8uOpi+Of3DRu4Vbr2Fdo4YvHYtbuOCGDrnWStYj8Yf4y8URnvIJxWyzhh/nT8n9+7yTeDXISW4XAPpl35NcXeZ7mgbNpp54KDwHIHAD0KaQl/rHYK+Lb3H1p8JqoCPtonCvdvmjNZn3PCRqKjyNOCbz/mnj/TcYtxsqme/EIeHfMxG2SRb1Ox+34HFXNRXPWF7x1q8S1LDOPrxDFOT0dF+2FUjz+X0Br8YlwQgnww47Y6b+vtt2Vm+bDELzXZstbEBpAtSEcxxTBuU7boDKS0giGxhROVuePzvPhCfUlb5QYYkiJlMXk5VvnPVCNMATc1RJo77ZzOum3Ed1JT5Vorwnr/wL1IzWb640EacPwTY7kFz0+zDweKKshqI5jEzjB0MkEY7e4QGerp/+UPaEcHezhGna1kivnI9OR24C5CQgPvpoJxjg3Y1mAVB2o4XJunwJMWBRyQo1jfhA5WJ7SjihLsQfj6mzzGVWHHyuGw+Z0Ki5qG37apC+usgnW0BTtlfKfq8KeurCMQ6T2ZGGDSrQ5hSXS+f4tR85PLUYmVreIzjtJCckbMhnBokFzsq2WG/DAlgpntD3virDRiYZwRkhmFHvoLU58lTURfKdFqhKWIZcQIWuB0urxsSmuiC4jq4tePy1b9xZtu8pn3tLIa9JYiQ1yl47g799kSIti6hSXWRTrIOEZaR6bVPhMVLbIkPSnei2Ql4jGGY8JDOTAbeH26BTuTAXcgVclGFOTfweuZaTKiNvPU9XGBObLUeoQvMSMQtpSsM7JJWzSp8CY6wHObaex4Aw7RAJZoHojE/i9QHTBK0hMZUcZFUaIt8uiPZG3o4ZR5r+fgqJHmEyAKgbI4dWnhyx9KikO444R3cfjJsdmMFEUH/no6BNQhiUIMPBryq9roFKexNE1uDbvL2XmaZNI8MXOMHkIMpX6nV5aUZI6QyM6Rf7DUPkDNXdcNcJPDi7f0dXkFk+Lig0WZtaZG+ZMwRiNCB22v/KS4y+aA2FVI7I5J2EhT+ucESE62POO4r0ankyYswfBO9Mi/RCr8xynAhVEPCQrMB3S0OFsmYaldUM7G0iTY6VMw3xV5X6Amqq8ki5Brm5mt/c0Lwjq5U40vJx/MMtD36jGVaCtj1WKwikbJX0kWL1RXPf4UjwH7Q8ZFgygVT7RRqXYqMS/mlyKj9iHO//zDRaF/EZXxXydafQMfgPwYfTHJe8A5wFGdZk5WZBSINgE1Tr2PeMWiKObbJ9dVIL5Mem1TBUmREws69yIaweadXgdyo9/PMx8E7Jl7NJUWbi18tZ5mDLouagAJn6Cg/O3V8dKl4cbR4Ou58FJmb+MGi0vMjoel2aNgmuMKVam2EPNRgIMJlKR7dChm5SY1fSdj8PRMTtrlgGtbauQ4IodA3qT3sOyzekCoXE2OcfQ9dSq9QJbe+/9IGTWU2cdz+tHGQAQs2vV5elrKE/cNyUUAvbrc1/PTJMXPpNeAnHntMjtmEDxRKA6sXUZVJqln7oOtVDwrF4BsEzpSzNdrauQMCFsNvU2SphLSmzIFa1JZ2yrAlC30Q5WLjTi4gARqUu+iPOCKQEQUGjMav1OXDToDOSyIpPAn4vPCPzQhf+9vk2PYi6OW4ciSQ7vPo8GZuFgpqzGvYsZAhip767GqnzKPOHrTAXz9ORnNV+tFXldYiGywdUHuNN7CNYBATt8I+lGhn2+SMUA8rVSKYOD1s247OPTcPi9q8NRhfqZlu+RX5Lfeo+WTEK4vgvF47XB8r1SzZizj1IaQD5r8lp5W2/rQOAVhHxN6nQ6fJMtQFvKbJC+4fKty/rVIPVjFkHrjqHdY2R6G/iqKeOHbGCP+FdiJTPy4gRPrTzvvFClCQ3MYvspdJPqzJ7LmknGzj4ZzD0WY7y2COlUHBtdMDO2IhnT3mBamseDAVWVY+3D5QRi382C9RM+c7ZRHfsvJjlBJvXJ53wbbYq1h6HZVz3efjb/IDHdt2rgZOLFIbvFpapb4nvevhFBdoJgcD0RgL3/EGXKYbuSSlFDlVU+yedNxxV7/0zDJSn5x7qFtfSO1dfypL/IdXcj1qtQZuv2YguGE121rxOknVoZZvokUfS1cquyU/e6o0BCU4a+K+LTwNHPsRl4jfRirsS+F5t2wyxnMMut4UE26YyWRhQmTupKkOD3yu5lzsm1QmN9INOhihLofLZksYWSB95U7qV7X+ggVE09ZAwzGxnHRfiqhL65T2Ix1fyBtoSPQue4ykFCoBuz1c9JSlvmNnhCnBEtYFqrUN+MUvUT0P//qSKJjZKdX5J5s+ivEa3/4xBVHrrAaI7YOHTfViaqPWFwEDcJ+Z2aBCqRZpCrljzQ3l9LutRnoho47ETpMzI/mYibhZWfyyUjloTlgrCq+B/Gn/TxEzfkBoxjk+Dj5gbIDTG0Q3JaK7mqAVKrawfprnTMe1Z2fkI//4sn2yFXAvOVwi0oFNDCvUaO6df5xH+7q0lg30v0+tBT7RwH90XPZOYgp01k3ZzZz44q5zbhGEdMLad/jVwRTNImnR3V7ugaEKalQFPwf0Hmzw+2XC4Lyv7euqa1DrrlJKuQZzHrOudPKRx9lX/H8/VRJrp3k52Q4R9QzzUTu3y8Disw4a1IOe47+CbgQPCxD88T5p7h2aSF44iQcHiFbP7kx6iCeEc0W5Z1HSTzXuQFfAwR5fXGSewaREdFHny/7GO+x1BFcRRuCu1pXDklHZhmO8eh+R7prhzipR+rgadxR3v8YPYxEISEFyTkkV6CEcCSSJsnIylbJnstssdLP+HsJC/gT/s5Tt2ZcXFWMNsmnmzJtJnGhxk65oHBjasSMKD9vxH/cuHi02fODnq6d+KVHlb4T8i+bIZiTDoNaXhc5yo+gbLc6M277fSLyyyNzaaHFFIdfjdMrY/f1WF60rnEJhGlCm4GT04cZy46i4/DBaSzBkWHhFZ0KOPoWy44qiJW2AVdRHwaVX/PDbFe3JraiV6fMLGdxdvdrlRycAdWjjfJ5Mx0SFv9Ml5ZtY77eIZL7bCytfjhupkxvJIJR2sVv8p3nmWF41CCa5H/XV+OG1C40C8lsY3ykjgvmOG3P/MzdWc9s2GnLdv/s9op0DDhFw2qYCw1mUJ3bzx1OsQ4nztflLFhckmgZ4aTpS/ySMIVAYCK8U/YhOZDTrn6lTHMPOVxE+j2QR1e661JfUa6TBSxLNRuN1onX7i6Ijal1tJ6JYIU/NosOnVRL+3t3lkSmModymz6yr4RNhJMk06U0v1W9ijUlFhXR1us61Tm6ipAyaE8C21dS3TbLWxFQZaDU1bTs5EGoQGVUPVVOQ+rjSWnttBP6A2t739svNp6f9jinEGAjOYDhCbtCXHfI3+UzsDP1lHR9mRVITqFu3kwIHLlouvSiGADLUIWeiy5SvCIGxQinx7ADizOw0ih9ID+wvqQRMjvTZ4h6Sh9KBhZacUEMvluC7Go47LyW8rvBbCirqJfE2R+qGvJj7ZkA1sFq3yVYGRyuK3RLEt/MesrI32xp8pyi2xgQoqJtIs/TmpSPBOOErNmbq5lK5Lz6nfrASSGvoQU1oMErL4xADFYhU8J6UUFUwDS/WLE9NfN6u8NW2VISaf2MIiPEXameXeWaws2iciLTlgHmPo4KUDJhJrvUmeoVqItWY0Y5ei21XGuCJtHfQCuxXoqd3MkfKLIy7NnWY4T0j4bt41uuwHQvFeB+bG5K9gzbtIeXVUYaa8zqlPhX57uD7w6YIYXQu9gxCbjEB0lShfp2dqiDP/i2DAjgTb4xdCmDXZYBJ9m9qpXe6g1IpImyK9JUeJ41GAg4cAUJcc92k1T8xmQs78xXeOjbhtuv8RAOLgsi56RpLBiweNOIozGfAvGHTKVsX4WKbGiNuzsrfSUfm6QiAK5SlzTUu5A11/RUGdpVwpLpr6mQ2zpzlKprVbVkc5SpriErHGDqRKHfrunw5zwnLOlOTHhicYACQpaKe252X4mAC3ywvfz6N0vYp2ZMPh2SbwO9baQf/nHs7uYWSGJBQx+dZGGsb3FXDbrsSuw/dSf5kV/b7TPvAOSa2uru4z++z7KufFn2d6VE7TPDd4R7Q2VRqmKcGDv6ImEQ5IEBF8hWCA5cMHVdfHc91FUbn7Il1iv6OIjPpcUEHKTQTvPL386D8HYFyMoj/052IV7htrlr7XGkO6jJt6Aat8nyCD7AR6VdMaCbG+8AA6lOni+cOg52dhKAGtXQYdf5YB1tetFLvbg6PU3K2ib5cGLIecieLOr9IqW6V+F2HM1e+z/KDZ8hxtExE6/nDwwHe/m9iu9O7LfkePxC7/pOjVPBesd9WyUEyyw5jmkaiQtnoXUVLWA5SfRkR1f9r0NdcfPNmngTb6XDWMVKReLLQTsfWBTvOET6dy53s8YGObdWGkdlewvQJWBlqfgbZ8q5ZULHZZYFnijE2c9puvfY16pMBYpNxfGogkU1wjPiVueBQxuGVV9KS0DVRWojYTOTjI7Znf25/STf7E0TSewT359rfvIKJ31MbtckSKmDY8qc3HlBfcujzT5BjAsrPBiQ9jaxAcOzrs8VLo+H7zOxrbMw+yS3aaGj9nUyx/PfaR90awIa0fjVRmPCx0VK3Y6xzMSaYpbbW/GLjB4bLTvzJRXXeYHPzhfpvjhUCTt7OyHMkf/2KLiEW2N0jJlu37M1uCOOSfsYEulHmgvH6NofL2IepJ8v1RSpsRS0+XnouES7l7GCc3ofLV6BxkyRVY5qZAWvYADVNs+cES4I8gNq5a590uA0rZyzzizUZVvpBw1jSkPRYBAGdL1c4OOFGKI0A/IMZ0uLJAqyZfUOZ5F68zUEQ+q1QSrSeOWNJZsSyUuSeBfT6tmTr7U0SMwW0Cui17Fb1D3q7N1BnPuFk1M5Fu6L6PtuSLIOZXKFKSCXXl30HTmMOQaYH9C83pQ/eTVMmE3hWhqjthsXtPjI6vqMK1oLdOIsQxlcQCVCpp4nu78974JRcep2zjjb1YkNyKITJDQbQv5IZWJLhERdCy6JbDdyeu3tamzqoWtK4SW53P6POs63tZP/HrXYM1oJsqg8qfNAAU6yntF/MuAXFQy9+xyOUK7vc53BpfUZz9hLzRWoFr2bHW4nNm6IEgB1iON5chivO81REoNN5FzuhLySfJMLqAiPikaSxBWNKEMk51AcjsFgVbPn36kdrCMJgZ7qOlTZ2Tp0PM4q0S9Xnh2sHmKRdOooutP4YyxrfhUYf+hqXtTzVmtcq8dhWvSOj2JahNT89cYsT9G2jJ/FmowKHO7FfLz/OMjSFQVGOJh/s10sgM+FFUNNyHnwHxOMnUvosikowB4LJs2BgCMSXfAq/Tb4ktoKPUmAcWxLrty6qVw0B//6yf5esuPru4fo2K3t1Jbqgi2lbsUTnQ8UYyAfFwflMJf7kcnjXmB4mw2VpNBlmOQlLFYZfUkU3mE5SSRUEtG4WLt/mwT8qm3efxW287J4ViZlDhR5eQmmFJ9eu19lUujMInceCgHcQC0Zl+oDTbfL/wx6nG2M0YTZ3p0yc8HIgt/0v5LL6tagD9Nqr5XNBkTCpEiA0Nh4DOfwc+8w8WoX4biBSPeUYQeH5x1XwO9iqY1igg91hJxeEsDrXsMHqatOpKJl1wMHW6Getdbi+h1FKAw81HCz5QtQQLPxU2pWQNVDgIqnbhhcYha64OIvURbFaKhRazlk6kyD5/H8S2LemwHXk/R2DBlK+H7hgxtk7RVwcs0oH5h9WpWM7+SfPBK/C/ZRg4DDDaFJapbhz5h1E2mWiUor2f1i6dtswJCPHDJPh/jkg6NTFW3kzD9PaPJkf1GTd61VOYuiEjGmfbozUi3Hf3yRJchoM8eiEuK2xhLw+fROpzhZYw10A3x2+LBzgVJNSYsPk7QVnPSEKXeScctNXlqOLZ1SmTiJrP+4RCASTvbf5qUpaamCyrWIzngt2xDd5rv5r0JLp2tMIy+CDSx175t6PiAPF0anm3QoXrPxTULzT/1EC+y3VR7ML/bvSqL6iMkxKfUaFqB35G2UuMVnrs4R5C3A97m20FZS0DtbS22pEAcw9cO1PKi+yTjJ2PV9qGBgZ9QvzCx39FzZQKRngiPuQM+pddra5NET8zH9osj1pu3YAlBjFSIc4aLOMVF6H16QJt3MzWZVzdwE/6NeIDAZpOBg+MKtACTVej2DBpaizG1fn0MNSlouCxktxD59tF2VKTz9Y7qp7UYN1ylruzsLoUM3hK+oPIRaoMt8SF/haijmZVmkYjUxHuklLReBPU0v+Xe8liGi88KEZAXvMvBEQXMK+bbOd05G1P59TlgojrTNLW39vGXXbAHTxLPfOzP9rJBbmz0iSyqoFoUKJyKT61XHRlCDkOQGq3IPCEbk/jD769/k1MWvWsJeLKTgAB3+/JSLPJII1KBBGkCSkFVAEIXWaXM2PY6xpFE7yyEqEX/M/dO1tKGPWAXPXYhR48Hw+O1A50WoepY74xFyfS77u2wwgrJvTmMnHju/OCJyj3Bdgt3NDI0mYrQdVDaHxipBnqptKUWys9ag6JaQ2BzNNO8Q3Gql9m8EhnGdehzSLPEwWJf6f7yCrAh+tiBlknH4V/B3MeG9GFBN5X9nxJMe/jUFWYjkLaIdMzi8RNfxyv1rJCgKn5DOpqNBtXNICDtLrxa2bdrxCKfnOgC31uwjKAybq52hS+nUzgECZaEEadmnPSiFc/Ja2XJk6BYfNsJNzY6KTe3t2HfY0ocoYVHsZR2E24dgxwWfPcb1GVcF6ohfE5aK4Cr73L1Cb6EkpWZ7LErQEpv3XLozYUzg2DmUtAEpKI4GYdmy5hhoSwWjUvtdn/x6rww1+vIHbeOD2NVBSC2CDKDtzX/mpdXotV2vv8HZfRtoksTZp08beNAMfswVRuXd0+B+KZnTCLa8sl75Z+fjNN1p5FHC9suo7g2BXRGZc+Xlr1Xm2pLanaw1Civ2L+6er8q4g5vf2Z0DntIJVGYiNxI5fGd/JqNW1RtgkJPsoOeq9fcMJrjoZ0zXe8y/mtiNxISjYnfIaxOwYmKtUuLoPXiJk+sG8NgwtjH5WGLqCyZidGrsdH3lCzbPP6SQ0DUpTtrdhIm3w0XuqMFwrKm+psVdcR5Vns4oV6hkEB0gNj4eB+xlFZD1iaAvxYTngw5S7n9QSeruFaOvp0W4L3VRWxjJNlWOuMUzeoUjscIb0g5AyIlagtWvBi+XVq4mYWXPhjPNZYXkflf4fbs0ltHUAIUbIRH0O2PRPvvi1SCVlQ/fosV7Wul868/XdOCI65kzj5ZRYai476tyWt1PyljGZdxZMRpYE7o6o0zF9aqOsanA9TEuIUdKbYuaBa/AoftV5YzHR6H1K8VZfLflJnIipvNmwf3o1/y1Og5Lw5TNvL0XFrhU2djgrwL0jZBLFZoATDkiMhzGEtGDtxey2xQUzXy99QLYyHTh0G/EJPdRpgryN+DQ2dVUYVVg8ea8mgKublQDxy9rBn/YvovRFP9wFy0E8yCMELDiZ42hV+dMyx7/61Btd3twQQsBC2XUtqzVOh8Rll2ckpEetP47zyzEXd8Xi1488wc1WSMFsaRSuX4h7pZDfELKLXiQXw6PUD5JhGhlarXa92Bzd4BJtjr1wjwKjJE1aZ8Ta9yAPgVt6BSRngwsqgOf9dEueXA0XAJsZLZ87ghxta060Cak/n7kTEIWR1cWeiOg2TiYEfWb4MOmaMaPhjf2TvxWPJ7z6M6OpeHl3nH+CS0Jp8slslNVfH6L76+EHNPggrYEwBi2hgZU2zxELr8ErmmxVwRY2T/FedDUTKNcRz7jek7MFuLVz6eutGR6JD4sV1YzjI/UYBbHyGiHbApMRqg2j62zV2I7p/Gt5lcZQ0eGzvCMX6rOCdoCJ5lb1UAJI+3X3qni9fgzbgDlAI7uO4IKmS10zeecY5g9XkxWgp6rEv08wdJVeaUpbReQA6yN0TN9rRZcpbMRCC93AKVybNJfQx3mAY3TkjjewK3zoaGzDgpdXkyFB9DmjLoX1XLc6qIhFjUWeXRa7a0U7EaIK32ykaSJOUUxRhY+2J8Df/0E44KHOoR8u2NkRihvyl6kfd/OcSCK+g7ZLgGtDJF7vmZuo/CWNOwOUKz7nlXabzBXbMuZmhPBKE6bW+pNGB/Z+XG1e9qbnSPAG6v+QwcxMGZw8TlPEwxRwhMwcDt7QGsopPwceHzEyjXsjxlDm/c+/TxwfI/U+G8xCetpTCd+suhNLy2LmoJGoRRP9n2e8D0nk3tYjvrBGpNwylSpr6iERHpiKgBLhEwqHNFlOcrSzd1e2vQ2SB55YXyWcDF321jzcsa9ahzjS697UVF/p/xfMzIZibt3tgAxO51m8VuCJJyoa2t5TWVAwqaoMqqHrXyq+J7lG1AhEnnvwMsfig9I+j61xdYGrRNw38RPbgEjHgpWuZj6FY//Ovgd7O4TcUkQGjy20kDvKwBhLqNNo0iYy/Q+5cDJ33GimIhhrD/LT6IeZuRYHp+VDU8eA+DmCaPmD1EBQxtGpa1bj7sXgXkwtMkzefd4wi2dK0b64/a7vprzdP0oW6xEKK8iJ7u8stiC/smPN6z6oem59aXeINgzEmUfzAKz5xEoB6/DpNEQ6y8idMFvjUZEuWKXGZkkEl9/jIR5Frb+t76tFMbPl/otPwiFBuGMjnujb7i/XIvoniBQb01padIoDDW9fAn9kWO8LSBwtlu0YWEGVL12jp8ge1DtVcXG2MtehEWaBj9srAF9vc4nFLPO3lDA3x1KgwgLErb4qKlDjBxVZ8ouB8vPTbJmMcGfszO6eWUVZfUd1afUkk11qTxu+azDPdUbje538zdhcH7TI4iTsGigFMlf9PFqYEC9eBGNyqXAHWXb50bR+g32Qzl44WJLcJAzgA6au1wVfHBlAPhpQ9Ki5AmvuFUhxCZZWIhnyVmfVS8fqbekdPggdbXvJfeIimOYliR0U3FexxMvJx+6a3pqIbUvCXnkVEjKBvAkVKJg17j71qb0ndWtQX/HrBxABbj8xbmT2jkZUE2gTl46VTkGYnPfAMjoXxMcGk5H8AJ6j8+wvdk7753vFqW9aqPpDbcTzfEcDD/snnuCuaeUr3V0s0p0BRbWVZPfPS7ELlxfNToGzg6nUY9wpGlMZuWNWkJHosqORWOtbt1bF3oGdlNo9im9K17me8YXnyulKWhpoHaVjIGcye2ic4C/TRkjPdkwZqyD+qep1IZ8Rf/otIBQQhT13KS9oEH8Jl3mI3m0kdu2m4Xf+pCxh0Y4jfxb0QBv60i1yyp5/RIPYRuUTTHIX811MBgCj37yIp8SAfA1VcgMyAoWr/xsX5WzHZvbFVg0TAJrAiW2DNqJoF72MwN8Knb+vncU/PJk6nNc+G7B4s5JOqpSqxtBYqnqfJEkPItX3IgKD6JFDoC9GH0XRusYqj3Eljdaizh0VHTuAHApv4UzCf+sbC2G4O23rVc26M43wSnPxE3GaSpvjSSBHqwJUXtPwCo9/ZPGH6AbchQlDo0kggTERXpaopupGseCplgMssU1smWBMHYb86qVcz1jCUBpZIKCGGck6/Ywhvg9GqWCMslrD5TsVQ+p0LPN6Jk3iP72eVes8hqA75rQeyf/1E/JO0d0ETLfViO5jPzkLRDG2wN1Zx01mqnkcr/CDZcfj348LFS8X8A9cCftk2MYkyAPtXhMJhmCgMxWlkLCrY1/+ncImLFKTB1jtA1O1hN7Hv4xT1vBPFbx9D7yRdcpgpv/vHNESd/uTDeTonpHIhEQYbtRnjFQowTIKb+4aE4ePMKlBVnFrBK3jZWuE6a6VoWK/JjOjFBoBCHgBWXJkPRmx5HAdS1OelAyyB0tMNoj5khAf463BS4xVZuWNYra6wEKCa2BBZUDvDxmwu03XMBMZraSjih0B7boBu05lZaZlWM7fmf1UEhJoOKUPRNrVlo2BVbgBDM6KiDMWHkCVRrlhg7kzVmZHtFpkOjAeJRj1xRthaP5yNOESpmQ2FjmO4GOdOWBQBc9I11gctuxlGi9Da2fsve1DojxqaEFQVo1KPB8iDqh60GyIMVsXCN8tEt0vcEk9XSTWpjGNKa7++00trpsx8Etrc8fA1tYWTC1lE/vsVU+oRSRB5N2d2YDRLKQ6rReZJ6Pb9zDYwprh084i5YAe2eQfq8BxGoYOJ5lb+naZsAg8KpPShRtqXabu0dEzvWo2czc6RLTsqXreg0DX3yi6ojBtA+xx9Nc7abMQRGSjw1/GsTBsoNJ07upo7yLeFjnQYoI1etcct9Z8c6zCpwXg06CSVZnHxYs3vE/01LfyM5wbdSfeZ02hzSPoELirLhQqfFKFq7DVJut+Bg840gZgiSmYD12rVnmRxQlV4mHBjSfPXRxyLGZxHMDAXLxCoy4wYKFrQ541KDKoiT07Fg76740e4i1OrBocfqmyodcOHEg39DQ02UR4aF9Sv1YHXvtY02cE8u6QTnDEBnApONZHKB3I6LoskqxnDV690eGPQrnqH9dgeeSwnI+6NCBPMFseaxP88EqxeyOJkaGS+r9Ku8Xq//MxAn5ywED7DNTEOJ9D5zEvobknfAdT6SVpFA3NfaNYPOxVnzXh7tMznj4kCAXSjGxIh3p9+RwyDUkpBk5xSH12wos9oz25iylSx0HDGF96lUh5W4lEs+Tnf96kfk5IwaGmWusI+kNxz4SWPGM/T2UfrtD7GP0RwZnXDoLrlk6XkBX/rwJ/qDKyvGOWlAb2wFNNhSVL+s9AQDGUy6cpEsDBqOKHn2Ho50qM+AE2Fxfe/6d73PRtfPl3gTmTwQPLtnhPrd+xyv7q4qHf+HA88JkzfLXR90rZXWRmKJfbmy+cgtUjxCxILmN0SbFFHw2Dk87gAz6hbX3SV8HRoHNPVshEoXLRmSHsSMuaYpIVRUYLXNr/Ginm2yMr906x7LwsY4vdy1DT4Ybc8IjNL1pJn9vuu3zCE9oDnc/mk9mTrl5//UpeiITjKtqPIG1OpSBr3intm3wXXH93wlr/GUcsxrY3sevhwG8XoeEQtOt/cH71ZAdQSjmB0rF9BskhRe29U4a20ZGRhI39Or+PFAQpiUeg64O3+KwzhUB7Asc+OqdxBZPukDi8Bvv6y5i+tz3BaLawyGXgRpNrUOR3oeXi5bYp7gBWJVNf9ncvSIBEBTS4YvPg/Ee2XO35SC2HTFdzNwpaXe1S0jTvH2yZj2INb6nkMe+weR+0NTdDGLxYDDcqL5+iK3QlplH0k9tMiiku+agQ/gwsZndNlbftjJS8bDKyZItqw1qVx0g6f58sClhcCx2tVJGrev3SfN+7V9Mo4GuMXmdRcBvHtU9g69Joj/fpulkm7AKh/smEhxeH9yOYThr8mVib3U84/UXR4HxeOpZePc/X5K0GHGjpnvBBW3kTOyS0PIyP+m5XqbFMOjk98727Rh/x1Z2F8yIZjYQaXFKGW0eluTNW3aatjLdtuI85w8cw6040zUo18sEW/hb+NUjyouHCeYQBQ5SBdAvTtW0FP5/zFY18ysn8inyUsGM2m3jRkR+T2FdD3najQ5s14qk9Mh67Fihw6UUvj3B/CH5TxHq/9+GkatisZBsRuzumuebrhSbGSqUQjgGuU8QE8Qdpl6xM/Ne4HSP1aE7cwxCPy7XOoQdHKRbFAsJOVRUOGIME7jyn7qb7e0x9Egza0gHJcj43L72m4iQZg37Awlzjw2FRGiE6x8opxVE+isW6bX2DZe5m0P1XHKSuVEBQPHSm1LvnNndsD1Qdpjc6YGtPWeQO/zf3fUorEgNRdhMDkLVYs8n3Wtz4q0mIcFgqQA8mtEnO/MVW4Tdet5sDWYJ2JAYxHozrpRZSEOcY5inTa/ptitX0PO/8zq4ytjEmoXRUBUBtfCRoMUlOuTRmBZRs88N52mIYYN0M88tRnBjfh3e+cZX9DJU1n7FnNSCl9GEbrckx78nuigxhILBo+MUImey2zYHHwXhvqChWHXImm4FiVB0zXm/xHf72B3SgmICpnbJyqedzThPj/CPc2/KwPx+08ean9LYDiniebVNapXyaA9ZowSfLAKVzLLWNDEp3RHWaPXZoGM08/DIiSVjCIu9Q3ddvV1IGR4VrJW/dB59HZGJeGSRhutJbmc4ACNabC+wA9l7OHyReh3kYARVMC6XJlGCgKJPDTawHHGbQ1+Sm+KU75CDHfbYXHFAB28PPsFK7PYpmzbqkkkdAt/bzF7wWs+iZkg5H4fEQ734pFO/JrqCMfBruLcdruQCwg3mFYFw0sjIyZvd4aiztWfcEi95D4fKNIk6dNALE+yQWENofPHIcxpAOD7aaUnTyPUL+lAE8mrTr0yOo5r+KhuK6FC7dTf8dWbRyP/F3zIcw2Ug/MgU7KJQaAqJL+17kOPkVr1zeXgIAn7uVXUvTU+fW6lXBsXzEob2wjvSIT3+B0varOxR26L6aDbavGZDuC2C3/CjrkpmKPWym1ZmWQdAlc+DKIUvBaZ/fIe4KyVrjTUoZcy89DkIsIEu29HhwRNCmQ6sw0LYT0SrxjCoKQPzTA1D/mcAELZ+pQ5MIXuKk41wmtdSpxvnjxXd+L2U2oQn3NRvE2XBygqyjKI260N58khMEWuzgbCAZ8B4wN4nUjIUNK394qdk6g/Qmym5lVxrlFe6ahGh8taolvEQg0N8VmjeYilTr3+lobSptfeX7wXVZkcSMSGgPPPKDV/stIhUs1UZZkX19E89jcSAWWtMZvCcD04n9UbiRVLN8gwUqohQQ8hmc/Z7BZDIOEoOBkn9EUy779eYwya71WUgWWUMuj4U40CIjrZ7LAzIH5kSND1vlQJMa5M8t8siwCyoclYWu24Rd4dyg+Gt4/XUTdxcQY8gAqWECjyBrIZ0hsutHRhg+H5kMzPEs4OeP4AF+ZbgM0PvIuZCYM2E72CegvnI6UEt0qwHIk8XkxwhstMru647XTibGHeJxr4mgKpoPXDUP1lm1E2oxWp8NlgpdXse1Jt3ecdiHjvuhQ24nXejATJhDeawl1vsufwTeDcfW6X374/F0YSQy+x1YEwbVVMlezLV4N3m/3kIWbTM6JpA8oR/aKK7rmYQ0hrytd+hyl95XhZrTZzKhTGQ+nGS93BUYEJxfsxqIFVgvzuhewofREHjNqJzEB4U91E42IdzCV9q8vx/kdqHss4buyVGP4xvNjiSpyg7aM8gZ5ba0y1PoeW3AAqDGTa37NAlSdrhgzFWic/+JLmfuhEBl7/OHGdJZHSUGc19V9ea12SsAGWnh79I30f5WO3NSaGaTG/pb/cC/JpVC1h/9cah3b3FpqteQ28rFJH516YIzjJfHcYVwxaUK8ES8jgp9Kc0wYTK5KOFI1n6wNN0jeWmIe4gF9dPnkLBNfi+45SDE/DV+yiEC1MiROBN8z8Iy9A/9IQky0+I0IczdC2gWkq5F+Esv0pJ5PUIv4QnRR5nQbNzMpcCyHDOG7a7jnTObK6JgME5ZGGMVwm5VBcmQ3xeRNQ4gJ7tuANFrjnomKSxxO+gp2JBbedrJhV9xMq4Y/D6lf0B8BKHaEjFr7QKITZdljxc2Z6fqPgK5Rd5TYUZTY1EfbJdyddNPJcMCnTAXsZB9e5IPK4GXmK2JkQVBZ4CAJqCpFN9yqmNbiNYbMnKTSBtKYU/kch9/m51RFSEzCCmomoHpHJ81iwAxy+f9qAlt6wS7r+4jDoh84vmbyy+FSwRIAPFk356rJkhql1aruZeWFsnA3SCUSVgQ8YSB8h2HoV2S/qMnt4esQoaznNnGCz1RX0RTH8QLXG7oIkvqpU+gIuSLjTu5AmME6q/1OahQvCAgb6zxA4uTj1ww9v32/w61slilF2ZkJlT5tQJ+m9xlOHiSn43IxnRNeV4TjPo3FhRbGacMDV8VodzuZ3rl+YIRt2ywbcNtSOuavSOboFu9niIq65dDQ/9bHcYovjFyV20vm/i8vcIUUAU3RbYGbzjCavrqGAcTS8C+qQd36iUbbOEBUpOnEvlmE0jpq2us8IskBZx5Iaaj0FoC3ykmAtgZi9NDhV4YAx361z63EHUF073+LIyxQhaGvOc4DaucvwHSsbXVVIAVB3pDkAOYujPDK9DbA1NtmnhmpCZro17IHbIc2PuaIWbYDr6lZbbyTHdqWftW63r07Rr1d5Ixz2wjUMphiNuIHbvzNV/zzEH2EaFF52oJDizc3a2WxTGixnJA5mjFCZM8FR6t/DguKAjtzEfugM1QYSP26kbW9XJnZtZ1eZFfkXB152Dx2dbLKbR9Jrb7SqA36+SKCja/q4sh7eZorJCj50mv84/81/xdBBXCy5jPgc1lrrRnwVpB1UUMiYjrqwB11trnsbm1ZjBLVmPWm9a3ga32kmT/YdItSvjodIqidO1TH7PwlXxNrx/zmcV9zBXFYpF7CYdn1u9phgAvb7mjnidQJqEH2cBsdkodbUffxlMTYG6cl/M4mwUoos6D2GvyhaS0/23JkC5kUFbwFRhSPEMiN8nV9UqoRkEsN1PMOKIQO97tjvfqao0LphJSMZ8K8J72KEqpA4wxge3P2ZF5QFGN8hg46tN3U6nJXmc6RVHBzhkWcPPm3wAXV1DpN13xbL5THzqI5F1o4GDGLaoxMVNUUqUcRXp8dmVfazLQ7mcXqjyPdF796CUrT6elv7NKpLTp+7/FxLICCPiTAgOicNveA7W2AXDj2Yep2GPx+DSjKK42MAx6LSf0lv83XdYioJduVIEd1+PZ6rHc0D9/ldLgsUyBUCNsdRzFH0IEZNkfkVpZTRqiiPOyCbOsy7jFQu0/fsj70itxnF6ofXgtwMZ2Rm9j6z69c1Ko5ARy8DtMa9tlobEn1VphgimXfuhaI3kSQKySnp13uzwN9x431r/Tea+7lCqaJDi5PPCTXunbdzPlzdOvL6zQFGbT35/mEdjl+QMB/OoHufMO2eEnrfvMz2NnbpI+c2sgT7Wr5yXF9oWhqWWf5wIpZwO6EgInpeNUVUZ8aXrK+/+Z9/nHRguzptk6vR1FN4ty3gKI2h/xrU1qvirnYQxcpEV2MZkc8VfGPtp/yHh5UOvIG7dHcaAwMURo9VfDvI+ZadZaFzTWX5Quf/780WhCvVSey90YYWo03ISyI0/ZTKBi4zz6oTARCFa6rmJkIlekH9hrdLfE+lNIcwn1IU+8G/6gfGuIpn76P/6X0ekGmK9ndfkpJOVAdEd/Is+6E1sFVRAzqEw1aKzQ3/KLCRK2/OfusUwjbOuBsVGvWf+z9FhnuDulNV8zL7xzNOfvHb9Phfo4Fd29t0D87aiymNSugPpB9Jr2tdkTDWWP+ghPSX8K2a50zz/zIOoWhHPoMcaS3r48p8IE0xrTSRWNZEKDH0ieIsr4is5G8MKDPAZwQ+zXTOgatqCfmdU2JCNJaEcBMX5MaoHG+BZ6gy1kD8QTHa+nKT0qjT+3HzxIz/Q5Fs/zpvaSortlCfSlaJj77mJXw0U+oXnwKtDvT8WwFwFB6XE7/TsGMEF0wtf16APZCiZaP3vnTDawOePBvE3AMYTJFArehgAGRERwE7ub40U2WsKALYykm6SNerXQwAxaNKM0yKNlabyDTAL/q3M0KH29xmkSWVv7fdlIXWTJhRIm7FerHDtev+dT+WC/zQrzhcJ1HSy0sw+3cStRGswEULsZHSGU+XbyoP7JtXQywj8XAO3pU/GCu0GaTtKenfkLqFvkdG3kmPwOQoDpKOZblD89AvaCj1qV9CWb0ZQODGCPdt2+D7n9Za0pHVfGHFLFiQaXg0w2SLYPA6mDsyzMe2Jhl9F7R4n/+h1O1rmLhEk9c7TwMkvRFYIM/QLcqCM+IjRtJqEB4LwVRoow3PnOvp2MlkzF5rWe8cpD2JyLWhIp/gkhq4uue9buB9VqwDPn26ri8OPohA7X7gJH7YGdRKlnNwGdFCwUU0DzCrVdX62L1U3KEonMuRLxS6BN8P1BZEzuQwA85Xx8v3dTo7bRQV1wGnkA7sY18z6l+dxVvQ50JTZeQEJKy3fl/zbu80qPEskNMzpJAEKZPQotjpDhMmPQ6ty1mWaHZba869NRqbKgbjmvRxYO+32FEnS5c+UiVkgDkm4yZulJVyLGF2IOHXZFbsJMFQlhzIzeg20+ES9Lix3Ynbfu9CBx5ObecpB8P+C9AYs/hKHc7FkO6/RceWxKg6FfeHwEXzwJdC68X3M/yyotJRqKJD49l0ifEIhmfwn0N+BSNfyzK/FCmiOIoJUE3eAqYiHl6/28NN78c0GCB5f1uQiSGzjrLuWnvrgdiTXz80fmqVNc37vMWkG1Am4bpMaubFTF3x2WPMwif48cYOD0UeXA1tfsf1t9cYdLIcXuE/TQCNDider5jgOIDAwnACLZXRQTIZ2T6MUm3m9p4Cid5MpGaNMBWo+FGDQZmSBdhWLqz4bY5vZzfI+2Y05r/rocCK0xmofAZbSgp5ri53A1nLU8V59th7v7fWlRA65OYif1WDooIWrB5Y1FH3pdEItKYvNDShPeUtjyDTtYnacWmhASpATuECMT/vF8omeJNrd+nOCpBUAL3wpjKPBZvssqqzCkzA49bOgYbZC9BpFHho1pZy0MTGgPG3dQ3RyjfohDRNczTz4xNbpsC8PlTePGTdcjCCpAAup+Eibe+pHQ2qexF5x31iO/8nDmQgPJY4EpLQ1pFUav8afiYhY9KkxaNLQv7EusfLQqXHVojPW8IQtXbLiwCZ98ldJ9X2qnoTsoHk9Dc2jC7FV+h7qeoP/FyW4N/VBfq1x+XUSLK8YqIQWXfAyjHmrwPshqtfExO9rgkwEIG7FOEe9/LWANikVfsZtDFXAGhXINXqK95zRhwYlyp3N8L3mkwWQkPasuyBDncMI88EeB2blf20hGo2XE8/Io6m093eRMb1ZQySQrB5mLNjEqjQdytaNTo5iHP1nLFyDVMmfbOo1oJJakIdqViPY4HZlllXOoEekAWFwtUwb/Qvgh0GmxX+5SAqkMQw0pP8vMKNEQLL6mBXMxI01e+9EEhWvAPDvEQkPtT52kWuA1jLEdij7QP5Em04hU5Ntqj62m52yfPZr0dlf445zlPLn7V3S6opb3inEOVXg01i73HtkYnUtzyIEIM0m4acoPhmfz1RqBCifABZIVkrFSsXyFgyhB0sCU70+Txq064Hfmg41vYVLcpf5EMHLS+GdMxdkqxRdLx38pJ4Fp0/AwFvV8arlxCTSx3cnPxfsNJd8Wr4AolfUV/MAqrtCIMDHGkoMpvB+WCSA71aVV1rFyjlcFsgltChlInDiW8WEHS42zyJk8llwh2Ew6CrZD0P0EkkAqVUOy6LR2exeDVRx0VypMvrbHpxY3eF1YSqv8e/A3RqpRTVbcVC4wRogjuzbdMACmjfDYqAIHiJC/yHb0i1TmzTFu4/um1DNTHIEotlJCBmBvw0u/fFwfQgP2u2MoFyUe6Ynauod6M+YLuyPL+iIqCQ/90kIjkE/JituI/KE9hR0vLwBo4qV3PDGKCXZXwglm0/04+5knaJL5O0ZzGNiSmsVQwLK/X31SjMa5ZRstel5ZjY5kTzMjEJZ4gncHcnpBal1iFNy+RPt05OYWAysiPlxSYOkEx2FjgJ4fj3CHPb3eGxTPOk5P45quyxpcUgdwHHsBRnjoqeQvHbKuh77/t1Ld+iRHUzIgoSjgJAZ7D6fuacsoMLuW4/iVgng3nzZ/f+NMHZ/Eao5G7PxYSEhVYGJuet1WWIcMqU7LeIEs+RqpXVW38awmGvLKPUHUca9mLmzIzKHfXSY0NaaeVmffyKoCL6NtED6JjMDNfFLFNqQyMHNM6GvfQW2YXZ8W6Ok16ZAOsJfXbl4BrWLbWNPT03jd4PtGBNSnhZgIOKrIw26W0ynslq0QyGVsOgYu9Y9WiIuZE2bAIzOFs2KIqvYwBiHJc4fjkhyclRDNrabudjLjb6l8MDVYxWIKRy55rByU5sLrGxy/RibLxHlLGXRSV2s7N3yJY35en41eHXKh4FnixFjKgvUBRV4mF0RGObh+S2XJ5qsV5sMs1hmDjpmAx3Es/+TV0W5gDlr12yqs8ZtTZ7ot8AHRrzvuXi/MqHOR0py31kJxcCwmvrUj9FK9hkDfJyCyi3/X5YJQhPugTXgdnhDsuB07T8Ymj63wFtIYDCS2B7pyLkqcE2y/grxPIVHpj79i7WFm7Z1wAJ5OaDMPjfKBxOJo9Xvb7mOQ/P9QTsmwp4tQbZc2+axiBbMYhPDNrq1ph+IBfFjtuaT9e7lXowi0BJdmz2Z1Eof0DNdBsQMebwdDxbw5KZobvrn7D/5NptdN2TCz+8WlATAx/u7G8O1yYGNm73BqfxTHrYO23dutQt4LUZgL5N7bqPqCdAZSbQhSiv9ixWpED1GMH262xiyB03ZG9Cl0LoCnGo/2vdaOv8GVKuugf0WgUBQFsVdMdLfiiX0H7qettwkLSU6/yuUh5uav1Wfzzn58k3taEBIObAYRddX8hqM7oz4K+wv3NrFb2nC3AKfaiI+EqLwcObhl801gB5hh6GrSgUkl1VsYxzVSUaRGrRgNyV8YkTu0wGBZjWYDG3lTbiSuV9lYCYVIotO14k0RguaGPOmxABnCV/dmemRSFy412GKzlrQID/AIJefAqRIgNYzU4A+Cgki38ooVRhdW0QtTckwllTfNKAIuTdbuOoP6z3V9HTiwNNd8fmIP44kD1yKVn8q0jZ5tl/+NIVkH7wMtXvhERueFgMWJUIvYU4YkhilSAfogw06Vy617NJQwt3r6lkFgK8tZucpQ9lV13qtAWZv/bA9rpc7AbZiN5G3sfDY7lPPC53NkX31AJd+TmRdhAOGbtHdV+ESF9WNQWX19siXmgrrCO8dJPKFo+OOXTiox2rmID7Ez5f4x7EFH+NsdmDzFVANTP95dyKcnBICELO2KL4J0kzRBxkgQzurNxcIpNk8MjkknlXW0haq0+/SH2v+zyytGgUTz94Qg2pBwvQMFnT1SWplaPSCC9e1mteyQsROmxGpfzf8rXeslp3NKU6fRsTDTY2ZwwlubeCMbOoiUXwqbmCtuUxH2/8Z9QswCgEANHvuvYQew5i+BcKEuOQR8xCyHRUpbaZesbSwQQnw7FXBgDhFtOoIs+zpcUAcA5q7eHxrdbXHAOD+mNTSYNrnNJNcMuv1tiGt2Y7bEcVgq+uG6k0i6RiW4/yB1H21k9pI550lZXVj+eEw4xdRTkEo2c5tKs4YRiD8b5PDsKTc7if7j2N7heYW+MbDVab0R7bVZ6NH3r9FhVRz+j7JvNYCIhWEUQvM2qyuIStE88sE6UNyRYy++q7/8tbZNDnL4KBT0xeSZkA2ttx4Vi+iWVvAnRwPOZFHmlVwjc7QaAL3ChKOeo1w2TJsYgF7bBb3GtzzCQE1dzpeKNBWrKF0Q8DcMzBb6HzMNGfk1qlkaDFwG/GoLl1M2/CqlWpsw7yOvOV2aa3VXSAtUCxA/oXywFD+laE3+qo5KV9nH1wPZgEPlJ8oBcOseTU6e/U/VfXCOjMeYN6W+IgGDHJ+28mbbRrBCfYtjN/t9UcmYYThrhJVd/0T8w4A1/z1+SwuWStsghEBzN86v8Rhftmleff/SzifGaKI7kBudxOeY3GRPG3ToXKr1yXAXYfCOOkmh01MiOe6g8mhHFPQ28CuPrcDvuDpLgzX8sm48EsDOBYlY3KZ6hwKEgjzFbDrk79PSnowFz547+kKf+Hcm3HY7/PmcP4kLYlOvgwEuvGrGAw11Kg3mlFTPs+WWJf6CsXQxiqdvVr2N9OCUUVneLFr0hGtKiJPADJqsp6BoLD9Tq2SgoFJ6Xjfvp4ajNLYHAAXEdHTUP5iaaOCHsCdyZUVxttC3yY78EeKh9WyW+89Sd9jGpQIdjAgGzGooJZjI62RfXkcxPdlIK9Eie8YRbG4DdHWKTy+qXyiDXN4h4E8rk+Ya2d+DbDrDpHeQDxLOmT+3gCCTdLEKxfVkw3jc5pGZybkERAgDKmaUMbhn/eRo+vkM/dN6YTT/eWX4D6M6E1SsFg12513Wrh0YgjOzxIKXjTFkMJnykUAWdVoLbiXXP11QFN7CJ5Al+kARht8aTD8MMqz+Vk5q8QChyUUlaOQXEehuI6tDmbBo+tkUHw4shB61m61KDh3052tNE9kW7QcFIFRI7TDGbV+eb/rgWLEgqQuOOA8YOkK39w5bwVvdY45/1NjSzQ2GJM0qu7cJILKA4c6OLCaQYnrULE2VHy5P7oZmLU3eHA5vMwjtKVthoz5R+p9ebU/s/+y4T/COy7QvnPmqDTCQV4Ov3Xm9/dBsqtwtuo0uav9nQSVv1hEtZWVvyhYAUG+fECcCoD1+GQzRpqlTqReSzarcEUhbQnyQq1FQL3YCAbQTkfMrbRSHOnWzO1Cl4u2VUntjQDE1zCVkJ9BiPtIoir+oNLF3aHDD4W0opRmF29rIZoF9v88LeGR3pgeRKqvREWilsXQD3PAsI8fti0enIUiBnUfP7jfebjDMFuGIWgABRyVs4tNFywT5x8KUZARJU5bBBkXYIfzCb0fl8yUR1j/ta2wZpOQyHLwij4fYKFScTq1JHxKrM/+nOhGSYa31CKUHwUr24Ma4bNJENgLl4UgsWikQTnTbX9Lo+SXAzy8xMqrKZ1xkmpv+DQ3ZD78mGGWMfytbMpp//Mt1v8EJvFLxNbKdJshqrTibiLnGU6sbTkgKRr/K2JAOMVxGHp8kM+bD68XffaMvOrjYEDgXi0IX9n9z7j6gDx18d+CR/idNpDj7hRX7inZ4YxsMyC49HYybOGdGSFCGk023l6nlLfJw23Hnw7k7ypLZIoGV50jnE8Zwn4np0W/BUEuiuxMFR6ftRgE5HJKRaQvsN+1Z6CO48lQPCz+79mXAn+NlP4buLXTm5mBlDqekSks+tM1atSWJSMHbGJD38fx3vcGBr8rPIizvNaEHQGsMQDm0z7zsxzh1kn+TBewe9eOtNn2Ovkv71vjQOdbAcaQ+BVoCUr4jviuqxiRrcXeRwf+5E/3bD8R+KcW5O7bhRCLHyXCD4RkTNkoE4hS4AUarEarqHrEcb2RJjhNi+/PsF0e6t62qI+owJQ3WxyNHEK3HCFyHh5OYGLjTnKxaPcV1+EkyFMxRliRlnF3wNwTwNGkq8KVkyt4rWxUQ0qsG3cSwtlvBF9+PAmHLxz1iIhJTkEjaGQBkbJYJ2ydZzwtAHw+tUE0CcyRcRBCBfAnhXo77QT+Ryi5hN11miexAKa9lRjPL3irIOTJLZF+8QAmFPzqLaQu+fH0DgZjpEQ7FLf7vpKnj6w2dMZeG5AUeAGpAcBgfDT2KiNRQk1AFaQY8SMyR1T/TDLkjpVjWJLrhrwntgEEPY6KQz86g3W62AP0dVTsv3B7USw4GsUIHJdr4I2jcSRt/Q/2lTlRfAHq+VJecPszAnGNpUgg3ULrGP8nd8cCPFV0hBemppPof9NZ0VTw3PotAm9EWBqy3mw3qf+L2guWhJUvGPb52VSueiYvJnyqX7QRd0xtabMG7lGmBeC9a/fz1RM8sj8m2Sor3aipwR/hCdkpIAetodviwMW1kUpYdx2MU5LhkuRbZYUhZMH/Eu40ukehAoGGP7C8VxDzTX4fmYWwv4Kco4X9D692xgny0GWKpPGwQMyYxf84NurchcVu0Dt2UsCc5aDCWPkJWIbOLd9kwURLq5/6DTGB5cncsCzy0JEQqSmDcpGecj21m2pAF4MU6O8C+xJYbvjiUTYWaJD1GUfR5QGuuroXDo+7J7RkcQHfOvhFMcCki+WV1Tcq3fv5xHA15wafwjEUjqWVwzZjcDq9t6rOouJUKkn01lo6vnFohoEEEVxZ46F9QuC53OAVvBmD0EW52yNUwzdlvm5KeiEV9Jk/RQHJXdRLrCsspW3e8cKLeLY4dkcUg7mx6boB99Yv8gyJ7eHm9bxQTcH4CPGnbkvLv0Ie+xtbS9xRojKW/8zQ79vjnARg7vb5M0e1yMQeeqhlNwXFRd8zdUZig6xkmJx6iC5hq1t+p5h875y2PTJGmscRR8lgmduPgGwgNkyF9/qmj6/mbK6hR1h1FbEKhypmVpPK/e5hDP4YsbT2KVENAt6pQMG50JqUfMtB6HBHTzz/u/sLnvN15ttvdUpYEbdqrgvuWkNiJawXHOGNCWLr6EaVLzFZVuGyfwaPc0Rg+cn8I6psdbsYeoyHETuVU6EErTpgC4w/BsCv2D68RT4jKlpiDdvrls/KGQnZ19T1iN/3RuB9efSwNYtA0OJL8G48R0zEtBaOE8E2VTT+BL2aTIiBmC0y9FumB2KCaH8cUx0vU48DKFbxSCEf8S1Mi1zD+xd6PR+z9pCP3/WWI8YuPBf9cLCQKPecYejZycDFZu3o4N1G/2ldR83tMeAhrj0a4yL2JBh9ruQjTaRes6W4MbFv/B6xWi4MDenyCh9FiyLef85qtjaFNflnoAYXgFsbVTdPDmGE/rhdfiWJm1L19bE6c9nKdIWWr3hIKGBVTCcUUUSlcWhsvt73AxxQC9diye5k+uhaQ3iSKeVPLEYg+5LT0RM4I0Eo+SRr6fR/PnKjxvTndGaPefTnmGKDMUFcqi5tsgOQ+l98yiEM7voEaGdeMA17xsOnOXr0QgN+7SeJ1jRayhtP5zN/XRhdcxxmUYTCBmKHu/tkBzlKS8aL4+h293P6PrGzZlkLXqVPOtX9P8ixD2vfmQZCBWeNsDDoT7nXmYB5DAS5J1nOMynX8cQTjpPl3RGUkr0Fojqx3UfpFafZKWLXWg69KF4CCsYRc/0KvRBTQP67DhSOEjeMPZKlmWpmvUjDlO1EcS6Mo5z3U2lCBqXAbz0Y2YLAzGP9zSFPUJLuqW0mrdFniuENB83gEjnBXr+Xv73sPztO7Du9s9JF04Fspq6CbL+VMRgOvhbxOT1TeIJccCUQ+TuUXv4y84Cn+6wE58xWinl49UyVnVgc1fKzDWPKBMomLi+KOMMTe/2TU7vGQlrcSJ5LDXdAQVVhxOe4rkzEt2H9sxZoPoXkqNeG8o0kiuFvoHg6DeU0e+m3hEkTKIGQ/e1mCdAYWE624Zr7DX51WzBQYpuhy5KsMLKfyXqXuIGdFOuWvEREfgh3wtp1uRgt4NKtmk6m9v3FDNuno8coBnvC9BwaET/TmGS1bfgBPd157p7QP0wcrhLrz3XZifXsHwHM7tKxu/4clOiGFb/9UdWP76xeSO2onVp95jg8eKhePTDngIiXwlBGDEhsWBqeyMB9fM9Ab0JJxA3VkPMkKg69tx9HNQXDLsTNTM9hOQ+W1CSDY1AqnmrkajpNInVVyhmpLHsnPCCS5ZAVD5NdJaBXcRYlR5zKRyigiBoQMQNWuZe8CPoJvkwdNJCn0KVnkJNA5T26AptBX51BH/3k8wCXDwgidZkU3T7bKskvSIj411soHLpXy5Cvz/Mq32V4TZKOCeHlNmbQy6qt4PycqvNlayaRZpnBx/YTaJdROXP37MUteXgcl+BTlkKyij8j1OcBTLgr8JElXpKqYCOBs4hH+s7++ZfvaZgN0JbS6mEEu0Z5V+8V5OhYFA7lMsnG79BPcq4MOsJay99vIb9XIwJMHbaIxm1gUy72Uh7UEIiykucpqLFG7YaHZLCSS0EBkdWKYG8lZX8vWqLB7+SlSkUscVcwP/uPDcW5X7k9XEPKnWt7y3j9IFiwvHRZfUwXKA+976LqjC/TczJj+irqNADCZMqEu21Hfm6a7Wn2RWHcgGdvVJDO0+ZPnD6KNyw7L1r7Yzx55xDX/fDV6E4QYRpxJbCER0D9Q0dOM+eMiSfRsDSwlNMM264mlM9cVJ229WT2/XDFELDKUBGCED60Ato/JHcxcokkOUJEImkNVBV2TVd+bEhnsk4VCnmYPna+ZryaJvGH9/85L9DOVyTVYHV5A/Pzm01kQj1zQ39+5gfviagJG90y4yfJwc0spjjaFeuztuHDGUeXp5eKH2tN+AdMg9x0+9ik1VfhrY3fPIT24uylja9e5vJhS2jUdI9z5CmjGe9oS1amZnQEZIj8+XK1FF4cVHwTpSihH9MZZJvcs0NtF+bVuT3/x3hlYIxFGP4k1CcFQurWdwOePFiZsiTdhx9356D6LH+OYLbxLTmq7+wNMj/RpaSXms3cVCS43dZrdqQ30nQKQAUMTg8p543vB7twQPH31rT4H2uumMueJ/XWJ7VJqD7ffcKMAzXuM+Ab1M3LtZ3uKqqVmR6/Xr3457Hy9x2wnwVOEul9kZT86QqnGYJIuRdsGMn/wOJWDl4uRqfetLc8Uyxt0YNk3USS+01Odq92DEi0V2HbadPuIyA+AbR+VA9++XtIpVnU3xQk51gmuq0nAEcICs9EpH4Vjz3So6oXfpsPVuVQXREhM3mJPbxxYCJfHtfdG8u0m8DPV3ENGwcagrDXzmL9aEgcFaHpZOIfj0SVTmWAxMtAsTVReTE0cIKcI4x4BY1/X0VKbmg7EJWGdMHInVY4Ic/5e2/j0vjmoBal4KcUPSlPD9T93bfjczJeXHjlauMO36EVJAd6oVIqX2diwJU4PcfVAqyIOGkDNop+YcNgH9mMRQbclTcgZZkJ3JULDkW6tLd09IDhqk3g6AS9QlopN5tOXsP/tKCU5ysy6ffvuNWiLC70e3r7pYnFaGiLhgnp2rAEJtdYM/D4A2glUjytn3JJg60rdNJBporUUlgDYZM7fMblNmtgkVvMSuRbkHyvFN1olIQeKrBqN4UzOsaFf5Jo1YOCfyOmO+O9dPOgyWSJeQbbtUCsujmQo9+PtSh/sFCZzU3EbDWoriLYxFLkDe+Vs3PZgOCR5lstYQS2EB58xM5h2cU+hdAuDw01+mg/NKPsyC2q3qcq5FX06ATy/3dNbolYu72hRy4JsGrzAVwidrCXdUZIDZ3qWEFH7DyXZtIwHGgxGo/Et/5Zh2fFt5f/8aEQTZxAIHu7DTgmvixWlDrG4vqv5FPHX5/wFTgZUyXY/XpZoTAE/HwfwVOKUWpWgTRkH+Du0cCcclo5veBDPyxxC4qrRggv9ObMcwDy5LwexVFMz3xbIKs+IE7NZnEX0LIcOGNEtC+CLm4eTZGDEVXftaoOn/ZaREXUJOWWkO0zhQtkF+MXnW2UMZaJK2YtTmVotrQZNmmCaOV6bQMDJf4nYM5voqOX0/FfbDpcgaOd6HKpzlKL7t7TBsG4/ayuXW3e/hd/wuWpWByRh2zNkYQnzzNAUIll2aAhnR2Auc+s/Nh2T3N+/il8hWU1I/93WXzdFda5nU15/qqkZOhGwjTEMs3+rwsk7e1AZiMm+GdhboZhRGFsNtkBYwA1xx5liCEzmvT2I5Sm46ATW1VJsZuTTA6Jlj4wCimlQGg88Gc28xSPEUGV8HEWetzbRaQRrkvt57YqMKRT09YVRNIIAbgzD4Azj1x+FJ0ck9fylnKjUR1stOw+fsiav3MV12owgOiagBp+LVlxTmt+t7VIeL2DtQZn3+rQ6UP74GHhvOTnJpwGwvqcSZlzSoiQWEggmPJfwDgZXhaX/LfAQHegJ729qjEVi5GF4FGtQ2vr3h+jQQbmW0d8UQIwmDU4l90wbYEipDhJ0NDbE7K3pNr8tePlQubLXyBRL45FDlmt/Pmvcc3cAD8Srr9fSZvV5euonf6KW40sL2f0IGQ+vW4aq+AHqybxBpvqZDfQzBZMNnEusWMzQUqqPU1d2eLlGJadxncBrKad6jliG/E4UFbDYNCyrxiMnJYf76JVRT1v89VKHve6ggCUZm0V490TRikMCh8hXh4RnLsf6F7qQdJScoTZxkoB/MLADOjmmnCt+Zt5vwaz3TqlUUVBhkKdYoJON2LP8EnlJR+7dG77iMycp3aTqeP8UWVOyDEO9cDSfaTlWwsiYxuq5j8BvPnTz4UJ8i77C9cDK8jbQVsOjQOZXlPHZRWUYAMn7ZmSTjKjJQEHiX7aJ5s9kbC62Q1pT1/aKM8/K6P/jb3QbllQEt2iVzmMnRO/v+vp5e9qrj3ZFKmH3obFQdifA44nYrL9/4k/93oJfotH31scOjEMsbNF03+gjf0xp/S7Zkuk+Vfa9FY/5vNQzMkjtAdQCjY0g9RVJg1bu+bSWXtFqbhui5fooHlgsi404AM5buQ6rIibxIH+19WLiphvVa7YphE5hGy0VsaoJV7eC9ayLFuDtf7Z0FHkozwx8bYDurIM95QPyhyuqnS4UvqS3LLWc5BQtmt7UgY/694rfnRIIZ6Za3PFv9MgSJc5Km9AXf6MtESK4FP1Amq0MBH9h9JRHjgqStnsn7w2GiIFVBE+f/Q+daJsDg3j/gyNSJAacWlN87P6EYr6SaEc6g+rvQyRRO/sKkwi5/5Fbbc2Q5syRDFz0sVT8OAuHvq/1BbO0Fh5TxxLEsB5TqKIByw9Jj+WL3Ti+c4INvxFPeC9GkbJfQ63aENaiBQL+mrx46gI3sa3YkVQgouXmTfgrvwZ4bm7VWRBv7r7SlhRZ5JQeItcgBrpIJO4gAmBWddBRAHqb3tAcJXEFMo8bLVU2lghutPJE8RScanEbz9xlRka+A7gFLDVDNRJV+drLRKfcV+L5muYHI2BUpzmlm4RWbqqLj7Ash69nAKlMshL4Mqh6AEtJMrofXUSORHrcEfs5CFeHpRJCkw7H30PkRLDuakEMZf6+4vifoyyE19xTikLxpPgdI0njGp4Vl5mUj/pz45TggIHhCej/ekFU4kCFeRfxenzixLFEAONVEBwfos+6OvMyMs7zGNC7PGN3sBO2gPZh+MHumWzYtOg377LUFVoHOdS2On2m/6P20l34pwPrWE3kWXGqVEZD259tYT1NPvOtL8Eg8qR42OtuEd3pSdw4+h5MEyRc6M/F9GTZYKZRUxm8hH58/ra9rBGdOurR8N2UMOTLeBNpdwmDfCGqS/6KueuMLdiW3agV5bBKY+WAgDPgeYQiessbP70Ai6RmdTF8nR1WEt7JaYbund5+zOhDSyxUSIlxVmj9SvbUSkFQ+ztWgwOxXL+LXOn8fBzvmcPyhSA8CniaU8y+QFQ9MV5SeabSaxHoWQzRMHoih9ik/TySnL8DdYKeKijVSIvv6c3FddezZ58j5S8Rc2wkPsFirgDkuuc6CTtYnHxlZNLzerwQwlG9je0auN269hYB8JvhXFLIoE4RoGeeoRFIV46C90FWCY0tLh51F8NJBJL7QDigh9AnLvzXOEbO92ZWLBuSD9MPJKy7eKp3eOMk0uz6gePh4h0l2d/eIr4/YC6pDcLKzpCSEUb4jlFylaLILmAszm+ED3tdGhYvZxvdz6A+Gy48KMdCP8kGFMELdIjMYYUTftKvTw5lVQasdOElqng/Rd8nJXunJMEwF32JDyWhuMLxSzJv+GHSqORFKePeQALoQfLYi3raGRZGvOfl9zf5EY5pUCO8rF2MBcBmL21o5wCOAJ06tZvV9Oxj7El38ChRCl8/EPDc4boZjsvzdzmay2eHFPPD/Cf2h5OEwzj+ti8PtCUaTYzFL+K6dJEfwnoA4W3QUE2FbdBe8KN6xK1yTCdY2iMCHWU2ilh0u5TO+PGhLswqj2tHMPpu687q450R1mJiDpp0xSgOMQivFi7EaypjreWqcxOV+l/RBAmBbxpHd05BHCjAqK4udcCpapwCIXqRt2Bece/uaGjpLHqqHYfme1P6tzG5J+9G8lou/QRSLWAJdWdzUMpHllNrqD2quUCrXQsNp77o4orA1VPZpr1SAUkomPmFyqk8ZX6958xBHyUHlHgAiD85UlL+MJcVxOKBvxIOyUvBLSyegi0sSkv9wQoPA6NjzNB04534IDsRLDF9vfEaOVZxPuLI9HNZ2g0ASnhTuMMIG0Ya94XNosgJngtde2vo/kuvXBOD+bmedF41xFW1/5NwEqvCYIdroLsGd2u+5VMVzx0TZp/SgU/AFQAOdSBcwz3CmxNfsKhwnuJIrQ4SYaHWJHl68ufIWRjILzTFnx3sgX1yu/sKpJQQlefx1Ct6pHugXH1Ygn5nUJZRHPMfyJ/XwiK1ig1TQ8+xeT5x0ozZ+VZcDOVq3vDhACWUDuUTx8dX+n7ZmZAQUTRIQhxPO0WTY1VX1MakIr1PABRPHBIF/1iJfRnEwO7q46s4DCzV4u9Gq2Cpkjg9XTIcU1VdpB/x20qq4fRcOMITkdVx6tWz8GPR9quZgJoHAw3yPzcWmi2PMj7fCyBdwM/TosCTaeeJ5NyW62Kw1cDPFEpv7SQfDQSjGKgSmycAi/FUVlZcRCZEoERQ5X+uQltVXHMSdK4UK1VwaovXWpDSVHOZkHQX+zuLGD8mD3WlgB+BuHqqK0OlnmxsnL+sZYCwO2/DwyIorXgGotBUgrziGF/U4gtxXFuvHOUAHIoEHbVF23cphtSOvaP7S1RJjPho8UJbG/dcWNKTQ+P8g4QeY7n6OXV+lhV6N5DTZpsnllm1zHk/jsLW6EJntXAesW4yQLLjcXyGFrvK2EA1S7WOVyIn1VZiv+wRrhCDJV52+HtQ1DZj/OcjejjWzBUqoRIEgY2HXhTvoLgf+3blUWM5o+xQCcGtkJp3Oik4sSQzpSoiojFGUySoYCQkrA0I+oaPQhXXy2q9bGSC199gUoj4L8Zj04gMkSvPMX0/BxyE5BQEKwizfIlF/pHnJQ7hhRsNmVCPsLQCy19oQEqqXCKPVTtOs3M1gVGNhVno5ScR8BZSlKNaY2wPnP6+5D0SnKpY6pSIjRw4sbbKAithvOOCekQiwMWpvPmoRB1v5QkDrNnGM8qsTTLp9GT/C7kmka9EGIUbPhYPQaX4ipsVQV3c26q8KS/uX9UV9oVIbpq3bRRugtMSjl9GW2rckahsa+7xLrL4jQO+XSvEmpjTfRKaCam207s5TtQ+EPN4GpWBIMYKBxrFxnUXQ1oDjrP7EGQTTN/oiLkbV8Zcx3K8NZmIBETuQAGKbB42xeo4rivML0LZzzchq9ZyhQAqZtmuyG1ycYTmpFa6rFrdjKKF3fNMSzJLw6F1q9IqYVI9EE4XNxpoqHtIF2FZ5niR7zZoF4VdN3iaTDE83TKvY3pj8A3LRX+LVS5CxK+DiGPNZClw9TXVERTg7eObSlTctJUQVi3WBPKuW6fdR+3m6dh72dz3Fmq6SH8cx0f7T9RrLzFl/5SN+sezoL5AM1d9Hl4YwYRfwlPDNJglNx1VjmGfBkYqKm6/SdlHYWa0Dsb3SmlSFhRRVNFFCTHp4M4Z24SP0uaUDjUztpZqDLsSlSeiP1t1TpHiGt8tKa5Y+Vku81KXfBKbVWeelUv95FxkPBv7FjALF7SuclnQqqgWi2MRs0ME2gyot2jdTlTnr11dBXY27A1tfIIyOFVXdFt9w8T7BinwE1VUxqfcTJ+YSSCow436SIdHnekl1eNHeN+Fp4VeekxfeRrzorIooJzdMEDUOL0o/LvVeG0d1Jm0qkREehvY/rSZucznxNM6c4NBXEDXLVUm4Xtf5dw/faGnJkQiI8CPffG1EUd7GdR1bx6lJ/7IDtMRPavvLO2xPXwygWv++Bw8e8Bh37h1dn+q2JOvPeg9/VtOjbZ+gpvvzgRpUVL/76BStXkXXi/e1jwtoEO0CxnAYUhIF/SeGFEt6i/y8uCjFLeLOjD1gcFdcTliVR9gWuWJinZs200KW3KdWW5jYxh84/ri26GN9KXXFrLQsz85zmAJbPV2FySAOpbHlC73a++1BZbv03tR2gVEZ7wHIU4HmXyVAJ0Oj344cDCTqEU9SU2eRaLlXvvueqWSE4PTMLlZ9c9kzO2C+zqeIrI/hInsAmCPAALc5xxYyJuiROZQjIPWAHs9H93r+XmVm8tv12yRf8ltJa1H8LXPTDISthi/qPWIV9dTBaIdDQ128XR0YdOzMGkDKNF9zAljo69tS8QAtqDssofVscRzYP5LsjMbCWF2IQLqnGpnMq7zeoRuSCEYoveZ2eB2dJHrzVFnOui0u2WDslXJmybqulOiLjbpc28hud4ifeuXMRCj6uHGN+uPQ1jeQWQOPgeZPfHfHvitQ8IXBuLkqYbNGNd4yHRm0gkYpfHKpmKSwcsA60IupN+A7amybnKXXoDOp/H7qvAbJ5T8BXkRzWFBvFhP/HxoDJRKInP2Yz0g3ZQRsswhA8iX3L8wfFT6hIOg+Uh0Jcl3BqjKM5+qGkBBz9QWO+0/pjtQ2dzP7/m0iXZVko462vqyoGD9fchufuW9WzicfMEJDAPjp3S9N9p3EeC3/0K1Lbwep9GXRyuciHTzdtL7JyMY5VX7NEkD5bjCCQtECiTeiO1ZkrgTxI/M9XsgRiIq8Xp0QlGD/Im6ZqheJtllaZho8DjqYCcmIG01oGY210Mdbfn7ljpspNANFmSjg2EfxUOYRMsdkxwgjg98A3wzBL9kluLm6J5U8t55hGMVGrVs/3IC0K5omW2Q4VAGWEaYatXgi5FxSfzYZoHeRRILYRYkf+2seqSW3o18OjAWxBMjMqEQZ04S2DbDqWDtJUhsIsLib+1HVgV6xi4dk/Mbr7y7vhOk9/b1v3U64BJlDRaUDF28SaEMC6NiTCePvkqaUhxF/M/l4n5/2qG7dnhd9BLNH9AcsTy3DykMYzDiMLmGcLL2q3efOMxScVG+sSZHO2FFHqzoTgEF0O7YUf2VQqfO4zbDkPZwR9r9aY5rXns0JEzPOOVsCgEsIgskOK0kfhnwbPkx9DUR9kYzOiNZIAuhCBmtOVTqPiMJtuLSvE38nPATFiI/udIRhpBVzjxhPfBbs06emx6YHZrjM2JzPIaKFK9gQ6tlApvWjr7SBOy7SPmvyMKctY1xtR2ILAOM7E34rUuFq3EiiHv8tGFAhvqsOvRuC3yZ59E7/1zKPPozPd/QTsuloXq2J6eB7RAtSis18MLLiXZA6Dz5opm5epK8t1W9iB6hcuMKFZglIQ5HHcZKqJpoFu37AUA8e6rSE0QacYDDdU7aPpwVdsUD6QiF0adS8EAT32aAV6ihkGizfWPju6kJvDEYQrewlTOKl/mHL9KsmbS4l3j7Sk+viOh1luxk7hzr9oXyqadtVYs920OGB0Xe0WU+EgB+Eql4eHMuRQV5AxDGLB6DnBxE3C7+JlE3Ib/NUgOz2lHQ1+/E89Lq6Ur8QQ0AVn1bXEuPOMcLqRTm5aIIcF8qzUOs3xarVO7XPLNDqs+DRRUOKVIhRgjZPBc9m6YbdOXQ1FtXTcU3RSypb4kw//4bLddhvD6f9HJZVCdSfJZIwwXVywLWxN4DNZPARd4gG+7UwFZZUYZqAWKcFenMfSIW3pqjLDuf6GS2HTI6yrlfQP1NcRjLfypPbPswG2A2OgHXyT5+4xqVLj/20QDPFVXoFHZ5xAtLYpk3hD90ovnO4gsPKj2j49tanZPMpe+CkR3mbGijZBebi8g6Yeadxu17A1ImnTqzE8yK/SwaHe0T0FVXDrf4L3bEnTwZDNdWw1GehqBWmHOmOumq1dLFmNRgVphkPvxlHbO5xk1sLhk6KOcGk/oGp77pvVApVBxbOhHLGkT80IwM1C1oCR8ImCuMiN2VrkumqCaGYGOD/r5watKRI90pfJbUDB9MyYwRN97qSVqjC0JvwxXC22MHDVuq5IxNxP0ItAmIVLMuGsFQ8wk4v0D75Ylif/jPo4t98Kr09XuB0C+4tlAcOQGtNqXrC9mBBFqDDpZxSChkGHGFwdUnRVrUulDXQc8N83MF2iH6z/Y57WJvd0Pxx4411jONmbtDm3szVK2UbofbfR7NqZxBJJ71/ZmDu+2LfPls21Ijhh/SMrRr7U82og90MktS6fi3JNwnMztq8HU3yFS/z9UiEfxxRgTtAYMJCEzYz7neafG9Z9dsRsAuRpOmGjLuMFMxBr5/qamp6SeuXdTbztDD+I1fAjArplihv5dhOfKPa0RM+qOGLMjvkfXE6HkMdFvbWgscE4BoTIR3Y8FiI0sIY0iKJb3J8mjTj2t7aMqh0U5/CrkBmA82OUwcOfuwAnlKBUcuRV/2zhfAxJxiAf7XlLxGaTiuLJ1JUFH7zc85DjEa6r/9SjyO7Cl+d3cSmdeE+VV/8Yu00pWjjfCKp+uCSywo9Dr23grgQUQj+D8DZJ/DVUzGwZQcJF1fkkWWVzcUKxQpGps4kouqLLidlbYHVfUMg3YTkzBQeuMpiqC5VH3kxuZLXdOmC/JLFxHzgbBwFFuSNMRYGtqZbnzj5dNpHI8z7CcOxTvo+TxSoQXc7Cfizt9/4oajqDOVnKu6NZhh0zcLTyaYtO14Pwdpih772idYSgfeKqkxcNC2fF4TyQ7JoAJ3hq/yfMGccH9hf4nHRnfvoV806X4ibghfTVslIrBhb1SCoj5CG0XR43xUaMOqirQWd05uxNbirUqwSQN9a7Ub0ye0vOsHwU2PFCIqBXlTCpDWd10mB+RiThWUYznRrQbXC+L0XZcFWizYh4+YAiX5mFb5prJ4Bey1gvXeMBJkfuuuW5jXxzVPQ2ItNULm4DaralLYOefBmYflW4ISPFhg+67Fgge5pflO2QADdwAVY7sFReBne+3D6iymZ2+9PnX+R+VGYSduOjyk7tDD9BmumKNElpRTQP1WrYoJSzrizus/jWVI/v5YOg4Poy7mM4eA+85N5tk+02q55V0maZV2lV6UEgVJ642Jj+ESPKe7AAroHK7qdHF2k+2BZxoly1ScbuxvNll+KWMr8P4AsF48hJ53SR/+mrT3c5vEWCMwypSkEN9Crhu4GvrbQ16nV1FwrIhONChuTbog2lMgVFiBv98h+Z8+AS/0dBmy0S1XZTLPkuTjjfNpgShIp2OnAdRJ2346nGY+VraxXXA1Xk0cDn1BkQkvbQbaTXYWAcgeKhUs+doxeaGvU6xvkCMPbFbvRR7/43PAkOE2YUpn3Rqlnpyl75TAES8XPxRDuR5Az7aPcswoUVJrX7WZqQisdNhHq1yY2H0ii2LzvKeS4ktb3N56g7iGAZdRlBr0ATSYZxu+ms0TDtJh3Ian4gZVOdDSe6lesGchScsUi7wLqCLP8FujfjujIE7s1DNzyfZkNlSak/6BjMgkF6nYgAT/lmkXn4QSUR5rG0Andjg2QKZPUJcqb2lDMf30HcI8OxnoZZuQi/TL4cDDX3s/CxZ9AAf4kAszZrgg/1nh9NENtJackVp7mXbsE8ZjfFlPyrQM1wFjGtVnEQMloFVzCzA7pfYhfpuBODbZjh1L2qtBuqMvvtsQ6pXS/0VysiOZEW/XzZVrVNMVBKtvq0FW7EHJplTQLt28twjjgJTHFkVPoqGLtc/li6dCgl9GO7o8ObWBUxBzAKM0ooU1x4u0G08RZgpGBk1X2KwKz6aoG9r6HJJqXurK3jrU5nZrBPm1exo+xUL7UDfzfxbMGf7dQ+jlDGtwHozfjBl1a2W1r3YAO+M1JmIyBn/gtOZ0qeC3oEKQG/6MHdF+2lF8/a/N6yEnVArDAUJJ9egUFhlFreJWoT3JVwlHaZdaogi13ap1GZXNcH1jX/88s954uKLtG9TQocfw23fjfugE6ZYhFeMvwy43ISw6H8EpeDOksk11MXRNmfzKIKrVkAWpxuHWTEJ7700IS84J9jRL8ho5jrBxLoah0RRMJANKCbBJ9uvyR63z2v2qYVQ9TsD6bttSHvlYPq5mh/rg/SjxftlG0p968x3oKRUZS2KT9F9aJjA6Nby3Nm95BEL31iRakH21LDY86nCmHaVm3Q3GgAUUd/OHnnGZwTYZRzIHMW8M4Ng4EPAo+fsZ7W1JlxVb7I3I4uRWrvbIJJxMPPnz7WLs5nVnn0KS6cK93bw/L0WZkuVYEUiu6k9RoVpb0u3F94yX3iDnvZpg2wh1UoSEMsAFzqvnZ0gQqEGntm+6j1voSNipBmTvNUNKvKoSI/HtLmZaCb/TBkafr7+eFEUUmZov09pGmPcqVRktghFEXRu6/UtkcUsQzlCwuFfQvx4yAOI9cSzq+HCuvqHtgGKYKl62U0zqeuQxBuWxxCWtkm/t8lVIJQE3RkBemq6trCA3luBDU5imTgTx+0encv3STrZr2qR1FzpV/+b+G3HgJFnYpRY86kg8zn7ca6u/p9mBe1QEFDtY4+UGURufuEPBA9Hi9w6IEg/ko9jIEKcCiCh5h5csGWwbTG+kdmrxGn0ggkze+WxGF/po0XAhn7+OnIfxqJMSgos+KvJ4uTgfbYf+mFhsTOxv6RoQEWIgW+IugOPGy21H8+y6ckfSF/boh9FFXxQ9OLyzsMqw8YTVFccPOy1mSLdzBmj+NZz+tHg19FMoDIDVVMsNg6nty29V4sPX6Osi+jrThrrZ0o575Ebvck51QZPPLL3gulUuVvSkqiBK7l09MGVeXA+EDhcxLf7GS1/AMJuoDMxGKiV/88f+qMIzK241T/+Zz1w+ln1jAqwmJuLPB8/TMZ7mBhzM40YMLvN3QDF+jFgDCNmlikdnBugm/PrHSCzofMqOD6plrWuZsycRUJGJKGL20Ru++85+wiUSsbqlR/CAuEpfdWEzE+RbE9nSRk5K1d6kYNST4VJaBj1C2WJEm5oxoe5BRMkoZU1DlQB1Gcr4MalQkJpNKUbzPV5hdUEFyG6pRlRBQe3v+Sn5+EBhm4BavC3MD10LGvhx0ewwvnfeoJO6pm1w33b8SYVkq8l8txoWtG+LJ3P5qYkff4FErODQZS/xUOE6JzhW4RPEPgKa7Va9bow03LDb/b2TVoia5+zWXCUuwJhNNRVDGLZDfX01jG/PUzrhjfGZ7kcw417FPBZ6HJczig0ibsHNkGa5dqBbpYV1I/mJpYKyb7HrxGlvGFrtlD2d2SwaNbDmcwa3N+D4sCLo0u0L7+bGWpmeGp8El+RNC766REBv95uDgFGAHJqcmRlxPZf2zmpDJqtj1aBgmaXXCJ+PEZl/fN/MvPdnrMyRx0sl1QsOAxq7KmYhn5gowB3uZE8jk1okda2LNEaJ1LLBotMrqCPsJkD5ulpBqXsk64Z3hSNYr3FvXL8KY00kKIHxMuFUbxDiHW4R5M1Q6tVyPjKmA7bBSQwBFpMD7cMDIYvmCD0lcAKDW7X0lz8tvytms/ZSEkmPMitro6nc2nJXzbZdukL1CJvYvSYc0KKhZ4P5kmCFgye2p8dh00cwQifB4g6QFHQxIlX7sGnJSCEid6RGexgkHVPLQ9U5SxqBcgmXYA+LankM+v+uuYWoYNaqzSxI/aLKgrnQ/eakiyk7Zo9DqOdV7o3EuKpC7GUJOQ7koz6gS6vJVDq/iC6YLdebTMOYROsFO9SysIJHBLi8qMcZMJtY0Snznr+O53Q4L6SF07ROEoiNSnEJ5kmoSrmO3bcj163lVzcLg9noQbjHI2JHOZ1cPSFcS2KgIToVVgFw3XMv/eXw0wp2c4HAlAwoJ9vh07AAMQEBw+bb52bkUxNTPOsA6QLtH1fjuSYHPFmBF+0h9Fdco5sk9JHmhRySsPUkiALGD1Yr6t8voaJ7ZyOIP/heieKOBjPkEzRD1pkoMjwOxC14U8FfY0KUEytQV25NwfUNLqzD8+EFByTnYp1kO2xBRjwc1QVg3nOLCkDSdgJgtyO9fzyw34gStTfg6z44h2DHNvYsDL0ZVJKtDvqehRe4XAFGndB9jalA5bDo1VlhX61BXWpPz+VzR6xbmMKqn6PFn3JQHhN6RzoL1UJnVher04NnUfOwkcT4dhfTiNdSd3YFp60gRnyVEBg3510XVA/1j+Q9i+34PXZfuRC/Xs9n5IMRUQpoQD194jtQH2WHWMhhxZHZBtBPP1ckQWsCk28L+CeKxQKYqnSv1u5lJgmMaOHroP74ImasFq6tQna8fWO2fk53Z3GOLXtEQq4p3Mo4oUBYWnF+mphi/OjprBwDEOHZp4zWtBEaBVmyTmPWkrg0yuoMl75wAS9xkuziweeKdspGnOejPeWoqEkyQFsH4A2d9UHQ3FJbBiD8UUPX9C2mpkKro7sR4hgU9KYaHFcEBNgqAt/e6ZbP2Rfn7mHFPiZx8FdZjMx5jljw4DsFpSUGRLQYTJfRc/eDnlqcbENIpTfNknprZsO9SeXaEbZFmcOZPg/reECOa4D65eXs4nBhRVhMxNGeAB/gQI5zHo56maT3/y93AOGx/v4xThvr28oS9TserRKs3StB2iYRrYs0491Y6TbVSwk1cWgcZVp72bWDzjNzfVReAR2iDrklQ7isNQWaY2ZK4d49NnBBtJrYCjyRlR/7Mk/ySbxI3z0uj5TQOMXR7XLvzSMVbmVtZoxGAXXz7Z7r9OdBtEsuhR7r5QH1DumpYHiQVDl+K458/sPqqTVkp4xUeRvXVATpfPjnZ+6Uln7aVzpnexY1aUrSHhOzc+iJrTXFf9dRb+KtRXAjnxBqr7c7nvQMBaYZPpRB49/t1p6nGrGYDTs8sb7DiY15QuEL2fig8fwSS65QIac0R8sIRcHowPKmVLOz0gKXN9IJoPxL3hs/vvLWpLa+g7/zaOgpEqV8g4BudwTZYio9pcZoCIKULqk70P6BCNwl4jlZSLcRpxiFAB5QyoC7q4SZwqt2R+RX8FgPwYuxDF9o6sovprpt6LWxUxLhbplX3TrMfoK2ik5FfEbmMrXhaAVkVDvqJVvRIiRXHMKf0D2YYVwdkdfNaHRj3iB1QKmhyMLeCDmyRA+IkneXx+ZWzK4xeGoK09bORo+MfAv+JjNLC7KIgz5xn/5eFcziSGaaU3q9IFfNXTsYySHwvoeYJhRrXN/jQy60Hi0St/HmuEIwY0YZ0o6x0jgkITOqhHKrKAqj1jskNCnQnX8lxt1EgZcM1ecShmoWhtmVSEFjUB3f+A4xa6K+mIOoGJ0+4K4GHsMeUhAcxZoNWVJuDsBk05Hzn+oCp7JA8VlvJzujIEYIbL8Swk1bFTaNTZxD3QxKgGzMAJMukPN+nFPxLfuIgVDmT5bMjRiBGm9tfzdznV+F+GlkruhwvNQ1P6Ji5ORl9ub8xroVdgzbqXjMPde3GcKiIO5sssWeyUVPRuabEVKuNUL2dF5wK3EZF9zlFsoesGfoy0ruFDQunzq8lv+gKcBogVe2NFb9XQyv0KF0mJIZx2FrLX6CidWEXJF5I4I0st7XOfqgqmb24YLsIyHapA2rBgFbu06TJk5tFUUypZ1VOHqnwBslulKWC9shsVKPhNZW/2RjdetfCX/YT7eWY/itgiDEC7KmUy6Z1kPaQDq0zpV/G7V8pHHFLHwgr4+alYzKRTPqLVexf07Cv5cQvdH36e98Zl2JfPNjEs17TcYbm2V/eR3uio9Mx0WgW6Yy9UW7XgrA3iLaL3sNGIoNUNYPMT0hGAaNU3xEyoFay9bZ1w6/6+sQGXevcP5Yj2B7nTZuF1+G6XIEFaS8jyX/6TEh5niXtJ1jvlI9TeNsrajh2nZsrPAq8JNet7k0Xuknb6TFcw5qInFJ4k0A06LY4O2PQOcMGnQ9/kRR7DPP0o9PGBs2a4BNIZ7AQvvKnY2aFbgDqx+JYY8VeoRoMirJangNI2LMb3Z6YcU4637Fh1+jkzLdpOQcDG4DZOdVbLubO6C+3bCJ81spHHPimsThJobuOpTl8lfVs5R4YMleO5YjCINz61DJZvgKQpEBSbtv1E1fl0BLDwKat2YhlpIaTcevoZQvWkJJhQowUhv5YGiM+AcY6f15TXo9NSTMlqZkAGhArYDDGIOjmj9kSPEkX2BZnglqNaA0hwI+hchtDD6y/P+i/ubNVk7+UG8OaYDKQYwnCOju1pXO1UZ/VkAXeURDrQ0SG97B5j4sNIsJMqz5HoBElJRiaXuyWm9ucIyGSh7zTdaErjDxwDlRuTy149TvPV2j57igIK6TYGn1pOezsrm6Q43SXO2ubt+WXSZTqvqxS41zyGUWxdpAwzSOxyEQPC5TNpx3E3Ryi0ZVEeieEedee9lJsbnAAGQAXBv5Lreb3B48V1HhmXFyC3RYDe/Ji9eyC3wujw0qoWQMUWouvT6N657yQ7dKEq+7MD3D7HJkTpXXiNIR2VakAlWdTsAlSY0KVr3s4e1b82BEApS3CFZudBUmokDssQpeaYUORCPWZh7KiirrsGzMFHuc8+KFoIEwzwKC5RZWjv6Lp2Of17RMJtlCv2X7FmpfQYqdUNBA0qUVCLee37XUhTKlnMnAibxuFOKhj/d4wxoMngXtMcTtQauMeR8C4UTqf3xTkZYHMqMnlCfkMgYF9dILiYAvR5VpwhNGtgfUWmyhGFUxzL553gZAMj8of6g29Gq9Bvu1oOQ1MzNE8EAgUDDzZ6SKf/OS1VBaZHYkIHI43AlSBq8cQ60vf8x9LZ4SJcLjzsTD9TCivb4Wdmt8GRbDbFZaICgZ2rJTcwNj4mWKAsx6ig7/HkU2PP/WOtsOKaFRypzgxUYODNVt15eSmvPUyWs92gjIaMBkveRfs808L9uqusDf/Th9+Jl/rsGvwf/0OkwHV1RiItDxXxX67mk5v+Wni/dJpw+PGH9siKcNNEvhBQ6S+w5VDrHWOfnAcugci4iCotEoGxhL9PYLo9GSW0ZQq4nfo7gXY1cdTpGaUYF8bTUCjqDk99CE90tAPJMgHnI/Y57/7SLXKm2hePm+QAY4utuGzr6NX/M0dA3cJGxtj5GRHdhg7cuHKMAdjhvO/b8ht7oYnR2bCOrf87wTODhhUWKYvLYfZQkB0q/IAk+EwnukuyG2LHos1QNLrWy5myNIPSnjcxJaRyS2UvS+ehHV3qTOojrJwP51bnJVhrjwxyUkSF6padulU7wjVir5YsGTInFuTHkaDEvL4vejljBeH6mXicw/gGprsygetsWId6T7dMLFnSft1aOwo4WZqZcnnAwwlB2F4xIBsg9cnX0IbUaavulKVlMf0ZnNgeuTYdx9COKKGiGdex5zy5ax8vOtW1I/0bqJizE2hmI/9OvmNRVbeRAAg8p9AlKfgovew7DPa0EKMqvmBe4nkz0I5F2r11HIs/k5XFRoxqWSLoJhONt69rVqtY6sFp5xt7cvVflW3QSk5/+8Lc00NQdUMQ1zsqrOuhedOIY4r3Bn2LEX3ttBI9TPQxJuxBeSyhmL5nwUA8zgKu5WugSoI8gtI2wy5OQpwulRpiTCk0V5gQHKGvM36v1HyIxIgrTIfYfg+7Yxv8cLtpGKBGLNJmiea4830pyak6p3nmdhO/ieLVDT578/E4jZbUERf+SnNegdg4a9fkixjTo+bMAymYNK3kh6HuVVGez6vz7cOofdH3f4JFjwNsB3zCjRU3YRdmCq5XKx6CHiIig9FmW706MCMtx+sBY9TkZOmE065DHgPf1tGFYQGjcAIiEI3/Ai5AJ/aQInHj5B0U2lx+JYBDkgH6/BShGkHU0SQnu8NYHaGZnc5Uk6RrXgyvMpbFt59NSt8NBsaLUxZP93I2epaPmFbhoHe2RTzJnWRgbUmXjPDsned48Y8JuU5V8Du3R32LQLZw4NmYrajbVb4OHI3gOmdXEnCdB0I8Wke09vA9F1/mmrvRGz1ZNK5UmxmIP/uHTBFnHF8ru9ejXrMQRJZcF6eIpjAc+5cwmHvftpzJszPiLwcJALasnfFqhR41uI6lQv0CcJz1uKBi/QNl/Ga628YpYnA+7AsxFqoVi+amKRqux7//0knHK7iHIcFMN2xy5IsA7Oe21vLkB2CXCRE4fJ3zmcw8Nz/8mc5uktJdU1a5CyQwil+TD5KdMjr4EEJkKbPH+cX9DR77nyEdzi34/fazPuUFczb2KJM19U9w4WX+T9dXzBONUcrtM3SmXnE0YFgQnjiIYeKB9cFJthSzL4Di0uN7DvIpn2HlobBdC/I2dvr9Wc/iw1gPYoBy0w2j9oQN0/aJO0jFfq4TKOJB1o/vAHkSbiwB6XNDoKrxAiKDZkIOJbo4NvGuO0g6iurz2s9S5YhKrM+YO9VqkCJlDB1LYZwj3YJwXwhljrrRMmwkCdtub9sah4h85lgYUsp17k+u88weoNU8vR/a23gGoUstalK4aBVf0jLxkBD9cWbcNQ15ZLH2SVqN4gyYqIHqGaA39zx6qcBg+MY0zxmx2E9QIsywGljwe9uIDaGeCmy8wVXtFoPt21UoY4q1PSLNRQ+SjntTLr1gsgrSjpmo7a1ti/v52h/Pg1MiBgp0frRf7693qDV0WggX9TY7Kf6qFTlBpS1v8aFCG6OlUQ8uLCTpKnFP/h+uWGah3Fic/b2F/UQe4e7ifdjSkQaCfY+9HbgislCVlsrcmGGGYla/kZ4cJkYYRt6fue9zTBVpaRXx+7VG+IiQqy1kFCaoLuFKp2MGUPZzmmUXxJJDWjeNERD3XTcEbbIFHLkoBUEHQ2hqnXowh48QEp+IA7H5b/NCwTIcsKiYW+s3CeHt6Xr5Yw90iJQI0H8SXwMFge1JNX4hfnnas8VQOCLyvbVh4wLiRHbub/MyQsdVHUZysG2aFd4fTRHjyaxikrExN4wNgWFy2eqcl5V6skkZIZafuhnKZ1SX1gc0BCxBMKlXkeBIOUmZseDOgfVO/LwFKPFXYsD3KbQye8xSzqCl7RvWJZDJermT0l62SvpZgxYxgMe0rmDcRNvMsHAz0n7PFogsJAR4Qgj3aeBNrp6YgIFIlzoTeHanrPHdkuGmftdMDwnDPd3wi/e9Fm2ubJSQjp3V5VsAreIUxaLtSAOleSevHELECvL8mSA+VavNz0Cb9BHv0xzaXIhYb+2uyWZTkHOdCIW7IR7d0sW9DkGOsdX/0E9hIJgjqQaf5ZIY80EHKACmq79KOWQeR4y8jVwUrz4St8BYaAk0qttI9+mQz9ze/R/yxpNBNBZM870JAJHp1F1oDmRar0FapcNIeZoowmhGJ9tinAUur1gRgPNakOQ7mRl/vTK/JgTFelHjp2ZVzpbUjSWP1WxEiNHQyktxx2937Grts+OEjOrElSaXoTw+zMYaWiQSAdkb6JlgE1KOcgcnxtlF9SRFTj8bKwNkYPrpLocJ1uebGtN6lfwN4DFVU3xhwnHG0UT8qkxIglRjn8WuX+KRFp9XKETXiflBXHUi9259K9ljkzFjzzeUSqdVvVJ8BPHVduPEXv2OqedaCcsQkT9kskGzSYcE2oESSMv+yaD8wbCW+XO0jPDAxYLjuchuPoHxAXS7+76wPgYy5rCrMXhlzPXVbW0wwJ3mT+tH6gjpWBGqIfaTYOiDnVdKjgGQO0UjQ+fraIvECYC+kTaRdFNrq+HSRkqaf61vInQfNUmKyaGEhIJSTB3gEp4v3bg6KyGBqp8s+wEwK+EHYppQbzU0vzlXHMhUwW830TA3MdT7R/eFttDVZ325dxeTaDKZakdXPsna6xGpoAcSgDzOtdbNffOh8Li/PKmxdeyFW1qoEHOyHvgzNjgC86n5DxhaV1bV3MAvjschPWjh2kwAB2MAjUmK711A+9XDM6Kj3Hh3ME50m3u9u/DT12ClTCNuVXGAV4tToksEQaVaEnY2gyCAUz2lY2+PbYoQhLSrFPoCYjY1HjKjyIh1EsbyoKbc9jsPsqAr5Q4Leqrz+LXDT/kqEUvd160bHynUqKMLsWk/eYJBp2ibs8gqAnf6eZAz8vdPY8BZ1v1MU4CI0mcu1LZC2wMMU22sF52uYfvMdKzZ+00ABHhvU/qFIY7NP/Vwuwstz4T+IS1Ta+awlDbaNNkC24dOhxRRmLDGq4QhwDrSwDjqzXmCkTxgIptdTnz8yLg+w1x5x0t62FX34ycOhVUzaRCKlAcBWB9uJ/Pyh6alfVfyxbx3GGnVFbzHL+cpaeHIdDMUBmEM8LQbS+L+QLUrQQeOdjQi8qTHKqtmvufzEkY7YKHw9tQvOdKv+zEP/mRH0lBx4BtbOUOyZ+RsnNf0aIIoCPC1HXwrDn8fppNLCacg7yU10CEYgXrEFg3CofC6nYP60/pZv9M+SG5zl/I8/JTMz9vANmkS2MRGNkb8IZow+vWVowyZZUdrWOWRV4ukciXMCVUTohbmQYUpOgNlNxL6/4maBEEoyn+uz/3m9fH0rKA+/nZFwH1+3/L5lFO+gn61EyuUwX84XM4vCz19RbY8j76pMjzi4ieOeQRibRw5ohTJP7NLBavBT9EF9lcuoJeRbgB2wKEagkxhSgueBjqSWldViA5MFGpCGoPqGD9zSnOb8InWllQMVL4sZHiXHyQSzPqxqjAh7xjix8SfCnXu1d6n32xlgqdS7DZOpx1a+AaOSl30Y976DeZQdISVX6ejXIzfTmYlOpnJwU2jHg1/cL+5T0yYQnS9kD1BCcAq6xnyA6M6wqHgceTjpV7jKW15O3ehetXS+T5j1gfc1Zf1sU648K0hOdCAuHrPpr2OujKGrYFbmv4PC2MKnLOMXIQAYV7yekacAzgrcHaREWYH1XwxFC93dQML+Z/+kJe6kNL4UD041jQI6agX77qCYszQTkG4exZYguc1EW+apyOS3ns185iGSNSS0ETX9ZesFmq6zRaEizqw9UaBPJ09yHpWv8pYOLTQ1t8izSMk6irFj9kVzmJDgLp7eHc7X5f6Gg46LoaL9HfPqGgRS2lJR2aypSGqpAcOJmv1RgeP2cSTYS6IA8/QeVoNcWztaBr+tPD5CiYXE3Lg7JMKlKf644BrFOzL0kCgoh9K/dupDg+R30GNm/TtDB5FM99hfl+jd98F5n+r8yDT6pNKqr5r7i/l97AuERv1CuZglchMtp3OPLBkdn5WnCes7I9WhELe169I2CpM84U2RtOzIn+vaAwv2TkyafA10OmFZ/mnIZttZn3Fig9V+Q0l4BsZylOX+n3UQzdt0UGQNwUuWCuAk789eb0nknVt6ZF4KfzhWCnDFCIcALvG7XU/3npVGoK6PwEqeRiMnOMKvQghW8mgmCSo/7NA1FWV9yRolJ+wNH8lBmRKI+qtucawl3x44HXW1lNT+SNlwNo6Gd/r5259D9byFhhIkUjtzsnMnulFjP25E+FnjtLiVKNOxhJ4UjjZd2En27HRVzksZeC3XIlVB83PYeiWjDOHiE4VZFaWhaT7ixKf8zAzG3y5Yl5uZBmBq7A1byspE0LGz3ZqRiazmzumXTHPgRqr7cgFmH9Xvl47M+Odq+iAlMyo1prnffcoUgosnhYnnQO5m261jeIUthCEIUf8ZiNXTyal4vXLKAchHa2HJN/zeRC1vKJv3HqWsMsnyUEWpkrhz1Rb3xtaxRDe7OyZ2xuWZLoxBDW59sgg+wQz+a7lOolTzlFp6dRvpb+Vp/RxGUSjXSAqWDUiEwT1Aq0C6uaxfxZ63v9oDssK707wVOwUvQ33CpfBMC2lQDkGUX6MtSgQdshO3MSM9FtVtez7EFKxLZe+gTZcc6tmAc5+0e0A/ZlbAPQ5Msk+9HtAtt1QPq6mlCLKtv7Hgg55YhpgDeYb4EGwmW8kKxGKAhiMMDI0bXvPLherF8ZeVrbXQ/dCR5ArNeF9FMb9A3FrLuPrq2uAP5Mqf744HoRddcZKGQFgKmyM+p+N91NayvBe7d2dQYQuID5M/8E+ZqYX0ON0vwRiMHXVYJrIEJFEMHUJ64S/VuzRqdmG5R2p9KN+vy93oYp5y12PFczahY2LXOuXsT9h/b4dYpIGbZoApCZnc/YTEYFNHdhL4wis/auUuHy5MqErIaoD04ICpCpub66muwdsH+fM3tkfBVyRnBkQIumkwKTXEejbnwUitjSpFbzMgwovf/xURDVQRKTdWSyNfMllXKyFpJw/fRRNqP+rqRVgTyF9FZ65nKMndfPVI+voOmdMvZHsjuZZfvnicuL8iMGp3fsW5uR9qGYGqqJGdCiEkESnLvIE0NJCrxW6bZ7rUlTrHMP0Sqky2K+KBwpyLu+RHXgFkAxcqQqpb0nTL//Bx7Day9XATNb7CLXTBkgqlvAT6SotQMEoP+bqW4upS7BzEEQq65OTzwthtqQKks11QVLq4NPmG5xj9O5L2W23wAoQ3GcrY7SgZe9gctHJtL9t4I2g8f2knnp63QqDkLMi78m1GlWE1+7m85MAM26sksV8WQx0zt9KFY4mVBHE5qA3XWwhM3/DukgpGKEtHK98Upgh2+LVGbRlAeTMEEGVkEte/SdV358BVjz03A/XztjNxI1CHHQEMwL00ivVMnV0C9Bs9bdWoHxMOH643F0rWHhG0mZzeksWr6mv3I7nPVcSO/8fIW0344MFEn+BYcgnj+h5XH7DHrg5FNUVDjTKNJ1SLnUA/56BtxE6QsrHwI4PAFdGboNzhRumPq9beRKS9pnEN/pWMrpknliNMT9E7mKJV3NBxAMr+7+p0wfPxhMk1nZH/5Z9+3/g9Ke+bBmhOVTdTnXH+YCahaTRG9mIYu4yerWv+s8Gx2rQJf8S3fYFS9ClepAg1p/KItb5XtGAeL8aD13Cm04gfGegDQiRdR1LvUIup+fXwk6vLoIhKVBtp8pAz0um7hibVZyvHAKTYJROJ/0WMVmeolzwydwERvH66tWa/mp3Nme3YX2Owh1jlrkyhMAQKRQSo99ddsDDBU6yPQ2WLKCctrWSHNSxMWiuhW+c8PhNzZbErnBdOoIuyvKpn7pVXoepYkT5EYIiaC7606VCcvEGkHhnURdZ8k0G7pCOUva3ruq6nHmcUqDdLWd7C8/lqzu4gxhr/Tfxy8k8Y8OGe/0wbrc/wFrUwMqLWaOwHnOSsvTddIWOjgfrwT/MmCTU2Snu7qg/kEcs7XjmHqTLkyiNJ7WPPBhaN+jO8K6eIGwG8keNeACobFlU19GiCUWjKpMrTxh6IVLSBR/IxQNvpLtVsqxt9QOG8mtPPD/FPTarmxw0BLyakfTrjqrYaN40fmB0k0sr3YrTlAPNb4uWTrMjv6yf8py9RpLvPLQSYFTk6a2e27PeschLkNWhOO5E7sHAaOvhc/DgCvPHL9aFeUg3FJ/yQ8MteXqtG1EdqzrCcq+opGFjobEp5EvNkzPFds2KYGPfkR21UI6ttussS8nklisJlgLR8SoWifEBP3yocF5Jm7UoOI1FMAdkgkIJ2x0xCWneOzC3iWpjBgQxSiZXotMe4ZMQuA0prLP1LPBjUNTtPSKDGKfzmeO9WHF/y3Oa49nM5WK4uolDjjw+4hHvIWQzWMZxFjAb+vbfkjbYGOW6k+gLrwFt8IJJlcxBVrx/zSdt/wgAqV2wceIWhAjp/wz4soUBFe0DxcbSvBDtzm2GVy875LMK3RNyDJg88zu5/pdthi8BwTNPoc61VOTAVk4H/JsKRnxe1jsI/mea/Byd5hrGYqxo347joHGO9MLSYQcz+uPRTWBHetSgwvac8WiN4OXxGSHodqm/bDpE1XI5RISxL4IUn9gnX/2nTUdtFRObja2f2rTyYmP2YNVOgCEC+Xa702MU4Jxvof4TMufucUWcWYXFmYWGVsGF5VCgy9Cigp10VKKzxriO9tFgiEXVNfzAsDlEteYoOvWk+GY6/ZYfTTNuR4y8l6G+6bv5lhO8VHOrCI4sDEQaZIxZjaSZ7vxYYUGyXzVMgk3l5fRr569cSU5LRI9XFc2DFKr+Z1p9V+PAhzxnidA1zIV/k0P9lJ79MMx9nR8m4wLwEE8XdwDWrZakyU9AXY5z6O5DenKjwHYzqtoWA33atNcE/RqmmRBIUx1bGhvz3fkQggJZ2duAD0V5jBHfM4OzqOa6d0Mpl80iMDUS3+pTc+zp9XgqbOBTImH0WX3HgkmB+EvMdTr0rEE5euerEOmnI//I2yvXxZkbRhCU18fn/XigBndaCgo5drHYZOz/c3ECWPEvsZ++DtEMji9XWxM8CWDfsVbA0HXwVpPkeXLK9SfHiDrRs5gi8Cb0fbKrDhkZlVuJk6oEQRUSlVezBB+xAI1VsSSlEsNTAA8TxXPnEgUSczzgJukLELKWhHAWh2hLqE3xMoKCzCvO8j79gNDk0MIci6sEOcHF/0MtWscARgoyRPJTALuqqhFq4s9niijj1liekOm6yGD+TPUnRCdDi3bCwnnVSD8+6Gfmw3XDDmywnbp5JRgsIu+fUdSSqdaXTgQtaKF2C2DVydF6q7rvrQKtzGTo4Yrwb/OlfNN+MVlZFMyG0yKedRd6T5suO8ga/Xkm6u68MsYv3RdKizHmIGMRHi3d02LkXUGyL2psSTbEgK+33GCd5Qp8QYpaLjgFNt2uOHMtlrBo77OdGHLvBid8M49AOHwmI7KOS866d1n+33v94m30bXI8tmbHdOjMHtAkabZ8h9cIldAjaZaO8VLj7YX7CC/rkvS3QmqA1ocpAjLb/8xt9I62Ee/ZmFBTMOU6A99jhefShgpR1NdGWjqj1tr31gVQGBCRmrNLKvfoJFK/4BXXRScJKHvVg4XKK+7/FbHEVlY3gbVopojdZ6IX48tGtygSAu07CUwRnxF9Jf/1wtAVBKt7piEdbipWJhdo7M8h3ylFLlS++jz0YAyt3qWXyKJg9h9Hm1aQB/fN2YDZrdP5yGhmgY4yJYqmlDqAzJiMGnIL/IgD/1kBZYPgbCwe8S/G8/S8NQKNpVotbTXhaIIisEkVDOoSUUB+QrF1V+pJJwWQPde7/n/RM1W4fGU6v7MVyjirNVmac9Pd8HorXmAMKgByrZgFrIy6YV1ZXiV2pWJlULe6lYlJx66ZNlvn8JOYjaG6e/k/1D82182/Ak72Av8Y3WkAMpTXToiseLMzoPrsybiK7alVLUybpD5BNXrwVA6viwtDBnX6kZiN3tn0sg/4peba0MqF0i3zL/XGd9CWrFQ2iIKQAnxHQ3uGMj8HILSU0qcNAmd7s1eaw+VvNYzDQsZ3cR/6yTaBqVyX0qmkHJxwNrt8Ofwi10l7IRTlfiyEiXvIXB/ri11noNPgfJ+VHG7AiAKfv51iaKnIJbH5uzGLv8lOq6eVwI5e2uqtIqDYmK9H0LomiAdlIWWHsdKEevx249qqO9B1XnUOYQlqOv5bCGjvxjogXT8Ifub2r6UAJDZ1lgn67heia6clyqvMY1Wmd+6NGxDMlEqrQvSMhwdqne1CiVmL7lh45G/93tJnD8RxTCT+YkAVW9xZZe4LAioQBvwY/Nr5lsfg8i35tPqBf0m3ZKe/mHL96PwhAF3elSKPK0hvXiF7leYJaPL9iA2X4AfaHYi8V08TIBFswcH/dVRcC3QTY5FtQ4X5ESpO+xTV46hZ0EANn9Sh0cj+vgx83EwHs6yf3QillvHsJ+WTAjiCa4fQGWdnNTsXWnvWMCCcI2M1IBmkHu0HOvjzkoJ7XFlfA0UMWLEZGSZnDqXEUSa6lcDvVKZ/l5iY9HMeB9I7Yw/1TynyfY8I0HneVCbBz8V5ZK4YkjwIsRoT9LrDd1clOyCvYT34idRA9b/wuqyiN6o3VUkqD10LPFbJkxBB8RoBHm6eGBFbn3Ykt+A4X3SA+FbD2mP8H24KYbZE6vP4lnmqcreQ6v9DVvUFW9/ov1Mc8WPieHcLPev01RtDUvjUsuEDRk8LkeHkLETtG530h2RCrgDJZYmrACfthjX0sZ3P3pVx5m46qqIb8uhb4ExAfP85ZuraruV2JE2n3HUFRq2Mpm7g+TAjwhkDfaG7vvTw071QLo5ZHolH1LbqKzULHFkScQbUB0cXJDswLBGd20KENAgCALjGpU9rIqo4vbjOrqNBD47zITejXMVgXdGIU2Z7Lt1oQaeUTmrPjJ+s5xyGHrdsh0gNBX8aki/r8RARai6ffYj9nPS2VQoW52wCigkjskpLIK/ATcn8LvbTbzF4LmoD1l95uh4Gy9bTnf8OUP2VWxkPraStdLhTCME3yQ7rU2mOMo4vvgpRceJyUoEcup9smvn7l15niV+WkqIO5GhMyAREI5qJADegIAh0WTo5nPl7DkH0DRxAqjYowA0tgRU89WxGPYXqA2UbHLl5Vahqbp9kQJSqBCpFT4PVD6octfgPJR6NQyE1qqJ1Ow8pZlRPXUfoctQRh3Aisk2L5n+3LlxOqcM+pTycKcxiN3n08ojzqZi31ZexRfLMLtYHOoSAa/2mTa61V0j3J+kR2Ghz5nTQxFW5WBVfAkra+4nsdH2zfF6TBuTWIRXVMVb3nwMKHV+r8wt8CgbalX9fdhaH8hRYbOcR1Q9SZzqCqAmZajAXmhIUcmvhuPhkp18JrZPvOYEDJvxSi3CWwUdLwlGJd4XkqRTkh4/5pvSzNjm3V4xzt2JVcbkcgMgRdf4IH2ZB7UbIoLgmJfUQDdD7WXthBOamd7tsG86wKRI0TV6M27MuaB4jZXEXrAEJCFTr32E0FPS0PBs34lf1w69KtQbqiVQYqpfHcoRocEIIu8PPLMXmZ01ji9T+D0x7hpR5p7w7PeMSYLuQj1mKLD6CgyzW9qp+vd7AzvZJBMEaQINt0BNbnZ7SMt9AjmXhOAYXTfWmx8P/oQvfiD4UppkX79qa9gpahkNqFVmdADzBc8FZaimglzn2An1yu8qAYbjVHt/B0sR1M9rDG8951mH5K67G/0faMEFszqAFvcUIMgYaDI12gV8hkwFsfLjZCLRPpufJY7DfFkGQgHKHm/BnDEW4vjFVsTU/7rIsiHQ2r6239UeGa0y/dyJDHfVY/LH+mFTSOX05AcMV/oZs1WqB2NTrB66hAEXjWxOzk2bukm8w7rv5Z8FyqvBItNTWFuh+O++BFWO2WTbDzvkSkM1KBi+HG54kOTcAGyeiN65brypKifoRubqtSfvu7DepoWiffJa8yASUMAwO4pYyMQc4Qrk4lNbTPOksvuHf9/GF9SU51FHtDqNFib0nPph6zTQimIWmwi762+leTxLwKPuJhxAtogr8xGHr/kdTptux1cVRg+Fg7yGrOYEOr0gYOQIPFw8BguFYEf1/l7S+2kBaDXex1TRncFVlom14BZU7uJjYgze0oBizDKctDTyR3nxFRTCH3s75o4LCWhGQ2xNt6XVVKuj3E/SdB50uUp51+RUz9TnFBfTuPNiATWPSk5h+Ycnq9qveNKPYz8JuN42mxQ4e69jEpHmHvbFWzAfjfhTaEBP2b0Xmg989c5HcCAc0ekwRR8pWlHw5gKoDvTD6mDywqCXK2FESUnr+SMps9/0fFkzdb5B7B9mrRvhhIp4v6sXrNgyCIqVeqZq88PSq1avk2fmHXif69k3PvWotmVJ2KHcHWCa1pcNLkxd9o2ojErimXKeFzzhBWMwWTmsu7L9Ou0JlrXEcGBAEVWvT7bBc4DUZk2mF+nz/9zhs1Ki7zzHRY3HoNnVQFf4ZMOW+O04kzypcUPl/t7vI9NxgjYlLZ2zLmEbkpa9kNvFkAc01WBW8QL3v5HaIpizGACAu14Ar8EugSbcGWIbt2F95hIxImbIuJ3IOraoPV7a3uRgcHf1zlSEbhxUz/cCwvYkOHLTZvWH+FOVlfihExr6dWEreauH+WFshskK8F46KrqtxCsmyXFecfpcJjrFRLezWLk5vzEa6t3cQmF+mf+HpYGFCS+Xl9lmY6Go8MGFZGuh3M+2miVpotMqP5gsqBnbfzx4gLJTNfy+xFPwfJ4N996VQmF122GMHc3t3kL4CYhBQV4lR3462UzkojqgEO79ixYRrPeGuNUFpcj9cofPALaBFqgfXw7XH3Wtw9flS7GvVYJaCWVZ3JjqGoXi0SsWY2gCsZ9gASPoLZG/jWCAhy9qIORztzlin7RzaUFcQj1QeP6uh7IYGKoEYPoyyPkF+B8sTHrLJeIJgZl78N3D8lwuoMJaG1FA/YaebE/fMIRejE7Lju+6kEX8nuwbYVTp/KJ73PnMERMB7dSRtlSGRr/asic+ra5RxUtASq291K8HkyODK+z77WEkEOmFC06hokdhIuJFR5HGCEbmtm0PKV53+kPUkIG6VGXSv3hV1cVJZ2pB/RhwmsFTBcofU1CUkJ2796gFZA9UbmMJ54tVrnSzeyGRldnXh93ZCngSgCyxAFHhg2yxo8Zquoy+lUj6S1deYueo4gJMq1+n4RtYeDPOlFCfgrVA309TNkElksJ3a0wfFfBcMg2IzhvKfCzER5Yf4S7dPgt48MK1JagR3wbpyKlDXCz8RzJtCUtJHaijCb8YSJpPxemeBrdvqqhRhGp8H8W0D2sIXcyIUj+117N29dxNS8CBk82EOQfFXD8b5ZVeVmBDfQTyOVwOsv8cLKjN7hLzowPmrNf8CV31vQyDiFuVqQqeiI3mHlsQ7l2Ef/v4wDywH74I583zXZY8+ro6OynbmI3bYlqD9fs9M/ypZA3BtbSc53LmDSMxPGAJiNhh6b7p4wL+JC3C7hM9l66Ban46nXPzzKZAO2Bo3a1aa3pkArRB15DYW1HYeDORdfty8oD7pefDYnA2qq0baGOKD8FXCyDIgWUBNeKI8QlwhZLujt4rJN0VdU5Mh2Dq1NEAB6NpCkVdzvNEt0WPArC5jtumU0cbE770jm/voSF0/zreQ2IljN16mxAVj1X4G4uz/Ca96K5Oa8qJt+3zNU71ZIwZUvBWNy6Pt5DfRjE59PKzXKkCzIkUsCJexNwF1mpYHHLnZ16DU22sCwonoaTjFVClCSzV+8Ni8M+IhgBMVk2gzBSdTQponIg8IxmJq3kbi/WNW2IRamjs8MhaNEqZBKdoOdUKTH8+d6ObwSih5y17zcjUoLtyBqATPSyaOnOeiBe6XZ8m9vwZfrWHHOirj+f8Rzq9GltftTyU2SBtjl3XkbKsBaIoIsotvGDtVPrBtr7q1tTr59ZUTt3hIDk7xNhylV2OrHoWkERrFef/GGUOY1f8irwlPG9W+pJkWTyPDoxVoFFv5ZmTl2yp/e+NQXVKUinLtIYbwoxtYNKLvCdKB9d+RKT/ugwz/em7DeGAncakiGi6lsmmFDD40ILBArxQ/3ibny5fTc1PVsVMzPr61vH6t2xYShIbjrGI0kH8qYJroYr6iT89Oab8NxKBCI3sWOSM6YUjU4IrIlD93o39PoJXkFOGEed8vcZ17mdpfjDvJi+xVblVFsXu2R8uVRHb+wRWgAUS0gT+ePEgPKX0JT5eHSE8QSqxSe9NkrdYBz43IQMAh2i6iwaDNXz1y97pd0TMYZK2VA+qd3Ona0IMjSCxCUtzKWB9YQ3JrFHcUTuXSAH7Eu7nk4sYOBQIM7GfCx+UUThao+eo137KsnFXUowo6vRCGHXOEVR9OtcOVmTdHMdTK4HaR6N3YsayG69AFOGozdc8jqDAe+cZ3DE2HW3XnzsA1e7vPUqXv/jJo6esc/AC4uetn7SVN1STRhYvvZTI2zf+nyDs+vuO1FhKRc5oOFkVntra+Ct3dHXmRQXQPURbkuUpByovYyOaK4JcOlT7qKCS+sBaSz9ghYl4H+Ci0GZ1sTn+65/4RKQC3kDVUpD0TUvKOnF3kgJdvi/Z/mzU+WKCWYFrejz6Q0U0Ib9mSYO0dxZQFuqfaFkhjwoYkRA9iO1xrLtOuO22pSe4bEmshhI9pZFJ7KqFLZUEXAMhBN05Jvu3Ow8bGhfUo8MWGW4/fGRldyE1FkhSdAklz83EO8772y+yQZ6waQUYo7TsxQhQ8FmibL6Vp0PCimf3D5UiAbyYHfpIzixCk5tlARhMJ1w3GdkPFPC3podwGkxlhuzg1XtJKEw3eMy49oir79ywAfEVbbyrtYvUmZUbS/6CxvhqTtv+DgmbWQHKMBexIYNC04LmIcDt6dglET9kOdxboUrBnz7GjOh5HsP+GENR7rRzSy8KFb7Xw8fCCYQBEE1KBBgfjEyix/3emmV3rQqq+YnGbIOr/d8uxdbK1D+Lm1WEjSgtsz8aI0cCA7W2INLvT8CYQoNr3A00FFZOvIqMCb056TOmCUb1iiXydQGWuagrNUYSoBdgK5cOWuB1TzB7xqvo05t+DKRS6PsiQSH4NrVxUlRkXtp2HehtoTAHngdbUin2S8uTFwVgsqP82GeTWwIlSk17iTnoGapIbJiQtIB5QXK0QFiM0I7f1cz/kUTpl6ldl15+csJzElyIV9gvzuxRg3wapeakI7G5/NE99jxIqyH+1qGewn0Gh8WMKt0GmgSsL565+F+oDzWw+QyjyQmFQaf/MqymFOrS14oWwZWLVXmtEXRV3j+QZYkHbUZ6NpkP72QZlrcrJF+WFME5JYCNaWkGeaOIxXoYRiS2Q4AaqQsu2hAsSmzioG7ehl2Ld9vWG9vuiDNuyiDbPnzE7XVSFYD4N81a10PLAN4zBlG56paaNuPT5abxKYrW3Socg+RObQ9wZ+f4lvGMRbidV7f2JwXbCg/zU9/CfuYCcDbLFnozHmeQ14KiJPpaHN8de0y0aDPOzxDVeEWWQg8awmVJGuvwSK5xBI3BE1S5BDte0LV+7LiiH/3OvkSux1T8ECrSJQcgCJPWF9oTHRNKqPUtBYEWcveCweDv76lpMjIb6C+vF0Tz5PUy8lyc61RDIf50k7iO0FcTGA1HEvREfIlGec8LUNvZWLe2/hXcVL7OKPvK7B9Bhps5+GVYsai5zzlmPUqzzqkJGcGugyGG8mqCj/kVn6JfCxw7t7plptQ6y+29+5M8f1qtA22IU21snp8IBD2ygmjkASEpSCa7rtAlUcjzyG+AzTHoB43TamffKrei1NkOCyvCcIoxrsrlnZkTa717AG/lcwT3Cmg12pZ5r1BmP29Ha7TyB0kEfhfiqdjygSO24s7mWKgOsMbAidzkNh3R3fffaZMI8IJdwvIwkjlU6GrBkp1XzlMFp0zjEhvA38K+nJVohUFLK2Ma/VqvaKryN91Nhw2MSRFm34T2cII1ToWeZy8KDQODKmPJSI/LMXBQTw6JBQQP5NJ4jfq4kMF+uNVvvjvAbeCH980L5Xo+MFBzh3k/UpIv6MODkx9ZoFIGzTs7hfILcITspF4NePJ4td1IehC9mpx3xQI0GgP0HQ2xNYY6yQgSzb7Ii5VS3/C4TPhCaxQPpwurt2fOC7CO6vF6dYq+zLVq0EXeuDp4O9OxSePlkxEWaF4IOcg99VswuBCvF1Q5tSlp95huwFql3vFoq7lcWR+raha12ssRBStYUK2qplK8Nt/voogdNxTQajd5Z6BV7ggg34/Ph5K5oBXVOHFJIdKGXcHrn6v8KVMTdWomv5w7FYdZjOZgBij+AoNRyoPe5UQJwe8nKNDKMiKRkmEjmtqf8Xm+qYkctHNRLC/hMEQx73N/TPkTBVRzZKj6GNtQCPF/PQP7onXPJtIdxwG9ldYHdhB5PxDdATIYjN4G+c/0oPCOzQ4LomShVW1MoRRPibCc1JSionL+3w0ecIk4X5G218EYO0zd+kndfh/N3eECETikixq+G7y66EbLvLtC6F72ESzEMq4cl+1bqZh2Eoke1oKZpdrZaN1fkidyw5QCPWyFV9jXrOr+NEqF/ru7L9keYgzbJWTGQVuLyY2hhXYhEIV480QZKY5LFANpzFPt6U5tQfz2M5UR3xT2kfjQANGzM//D20GNuNh/5QIBZ7y7TMv2AIx9CeuaKfyx9RabVdckMh74WiqXuTD/6RenaKlJLuZUiZGKgUlj+pJ93kA5btmbMOVuPtgIGT59tiFOCvLgJrijyr7URSHNJh+LV/opy2QHibdLlRU5nUArpdrJADtlin7BW57pVqytNVFEmgL9I0IXECb9t/H5cysgZdw3coYcnMMSH9knOg/H1QSjxgHyqGPsMA2jY+OtbB9ownHaPpQiy+e2KneW1GRcdN79LBXzockQgJHkonaWyb7aqYJ9MkpoDUmCr/ZPXBHqP8xdmkRqW0t497HZXJGjguZfbBGnRYndOv6WwXm2XTPUzsmlGn03hiQwPQznRAAR0kZxpDyZU5wC65brfYtWa5s1dWFS7VCzHaLl3Z7/oENbfkQ2djcGf5irvVI7hprogrwIh6VPWR41zuYq4ymxb7UicuYIbPL+qkCBUZ9rVXqOHaWiBDnpZ4YTro6pKtZ+cIYaiTM3ss/c0KoxQIvLRyKKg05ds+edRzWz9eofL9zlF4pBCNl5Djoxn983pVaJaff0gOoxp+phueFv8Svwxa+gt8x+VBrENhnKI5EGCanzrKmDkfFgBpmJCnusgem5yJVqbLhjEBZihzZU8OsJ7bV88qyvBaWAnqEe0M4UjOrct/DpjEpAFfsDDxQz+JnOAuI3ETelf0ZlscO6BLr71l/MMhE6MnxAk2fx88hEjLKBpIoRCZq10DU7SJWuT6FGLjtlqeByuLhiRr1DwbTQkQ+jidXXCQWFa9yA897PPUF3ymzGhBLGwj93uMyjj5MnhIWJ5rUOmj4Twt7ewro4urljUsRIZQ0SfoCsFNCGABGi5ZmPSiuq0pIa7iSQE6QlFebjSyNNIk5J7L2EssmFKsrmN7GD5eg6JMk2DN+WINkM9xo4bG65OdVmCHUk1JTrOFBHRwyFov1Zlus0G1IRTISLw9lYJF9lyPoVSBzaTpjC6MJM+Ph1wAm+XtlXkL3EaRTjhBKR25I0coEE4SjTmvArnGaomMwo0oIqZLtU1XqmzkSfYYAywUibXWD5ZUm8Ir0o5HQmTAcIvmjM8N/Q1VmgjlSADvH26y9RjNn6R0G00RuOBPEaGlLrpIkCWo/hIvEB72UKSevTdda90sBPjgkJbj8lIi2Z/Z5sI0kyyFDzZBioP9wM3uEvzAq/UlTHaKDb3Sdiam+Jwr1ymtl8bGxw2MZgRcbpqk922O/lED1it77k0MKRqYwAQZkJs7SB8Yl4mLDauizxgFFrzqvKTLjpXi7tZ/ktUBl5dzQyU5lCBMhhhC0RYUMF33LMXQ1/dqhf8aKzOjpvU19TwLGyNSkXa4nEx7z7d4OJazBrgYBOVpilVTMl2fFevNudSLOaeK15lU2eXXcKKvnF2lwM3J0DlPaV0ujCf1sQefuNFgACLsJ8nVVZGOse311p28jzT5bnjwBdOOU0qaRjbknN7qQKy/JcaZVY1ISwX2v0HsupwtY0fb5YkJPe5ybgF5kqrWakdz1jFv3QIr20krbRAUIwZPtfrFBZ64OoXqS0o2LIc6R2/0vu5m425qJilNLq355QZBlw6UKh7Qy7yxszNsGCiHrklPRW7u/GquVgWonOYCx8jv3EajGmTANRsdk1Q1Ubabb1cZs+M/I6tsLRmX7z3aGeqXDbklqxIM5Tyr1jExkSeNjc1DPXJFAV+k+Ts/PXws9w1ODhD5dzx845bwKwx1MsjXH6izIwnWKOTp8sUa8yC7x/5QTTtfN8urDdReOEi6NBwFv+/v/Zu+JNQm5UgtHbLxoHFNAP66BATrMU2fZXgFUyPBxjqTuVOYaTpBu4Qo4QWFOi0ca80eaTyAcyRcDLKOrUKFsBAFJzWn5vQxXfhZD/B+f6lp5JlpORpPjkmiB30ldoHs74PaVGC9kQTE3yvRn40meyxdPTNPArwDgP/YUJhKnPHbjXwxun/Aa+mKvMULy8yETXP3iEc2VmJskAXb1BkebynT88mTrX8a+CGoo6t+b8x0rSFpbMNhrhGBXfvCjbUbptYcrVi+zKbZu7xovjn/ZgKdOXLXzC1NV8LTrJriF9meypPtqH9V7Vso/EQ2tOtGI4U/VYyCAXJys1Hv3VcnfRe4UaUE+Bg+pjf85gkq+qIssvWeXShQCHbPGN7etijpuzILqJhRUDu4btCUzcgZc5yTulAOa0OTvCYdS3H1hQiejdqxcCVcsBuCDbU/FNH0XA17wp21xO9ADrd04+jqMY1IZg1p/nsgBKY1uYGPsu6cfgOTsKLw82msoiCEC9Lo34mIuOkIIEGAu9XoafoZkqoMffk9oJ3n28S2Ojcbw+gxmJc49nrs1j00cuTZBHdt1vrvly5xpcEDnYdYk55vfsrZBPUMrmmIqRsBMogOcutWPI+hdQNW7nSdD3TdtfDxtYUSyF521x8/XgFUe+as/cBaIEyOkCwK8Pu0N7mkh2HooWqxk2x7Sb8bE13d48bogrmyE2hqHrh96DXov+Mq+YVISVDVfxctP3F3g/KmPMQ+C3HHAVRYcZq6Bq7fxCTQesD18FkGEKUW1SdxMGbFthjsdrehtxkj4RTxxzwOyhB6K26A0EFBUdCnl5QmDYThT4t9equM0hkODwCY1o6YACDK6vHq70VWm5IzNbGqZigOdGmjPLKmtaN/LQGJ9FPqpFLCQKE9SF+Hv9qQxfRLuz8VEV7UEDneQGb+WOH92Dz6IK/0gP1PXfKqmxU7pe7eDPAP3K4XqiYillaq8iY8UQaK00EI+Iz7ekHiDp1tYcmrsHVGvZoK7vsjGnhcHPOjgluqVEpjuABbCOA2+QNdtpd1gkwnT5B1ygPiqeXD5UfSxFiN5W1meSWuCYRGFSGbqEO2dCyDit6D0PCABpfGNxKSBFWmO/FOPenoXrL7K1eyJfQaiz3BW5p6JEM3fHN9lKzbfSblnKaRnkeCoaAaABe8ymAHamysTphLgo1GpfNAkx/56qkbgPYbxlHvjncO2ID83jtZSDyDn2e5DWi2r+U5RqR128KnPkNEH2dWocKPH3XjD9WlipKmQ0sdd6dlzDATSR8DMpDGla12ShE+XgEdFrfbnUXAdo3dzW5Jx+p6BVM0MQB4Wa31ug+dY0bx0cckIBh4e3D6/jlOnqIiZBIOBfGNjJ1rHz0uJWDhtLoxvgvgXOWDBe7/hDyDOcdYzM3fFESWhTZN/CBXBKGnAhweS5+g3uJGA4/EolDs97z/aYLFBQc4CDbSyu3g/9ujfvUVYYdyQDIrcXTItrNXb5cRAJCdgEfQn+M78l4AziDmEepfOtZQN5a8bK9l/k4GxsjkwDcc2b5ZqTT4w2DrCVz2O4YMDndNLt4gsCbnZcnILNC5uIvLzP39491nhoq80z03loaCzPEb7e++o3FrMJeEEGBSx9l4sWomXr+1RayJ0QrUndIZmZ+pJxaYMVCCtP+I0VLpnGiYmdOveuJ9j9nKyWGRCD351SyesiYJuVs50C09sFGrbTjBYjPLvZg5bW4SwXTLl/z4npVjWRw7mz0HtejewFKjZ0/EmYR6DD8TyHwiQiJOIGUNbHOsl+0GBTE1SJgj9wqqmVtBFQLc0AZNMZVJDPlyFbTx0VeHhX6UTLlxk2GQO0nM3ZWQ+/HoaOHSN6x64QZPJ72XbYt/1U2QsNkKc8ByP3AUhssGbQCSpbvf5mvTPlAXl/g+oZ/KiEhBxSGAEqzv0LEPTp8QeMA39TpYpppIBbee+oowYSQ3wWHoL8XcuPbA4Fe/wLXjxqmE9cDEUsrRKUakm4c6kxumhNiDQxUVR2tsI1RTA65EF4p5XlndI4GDr/LGhpAChwHOVcBcosvoeHolTEkwJ5LLq/PLR8gAlC8Sgon08WkopFvIwEk5Omg41QY7kKRDzgMm+uG7omwKzTLh9zZSl6sFneBN+nlSZDePzpw2yMAF13tkblYvEcdwN31lvKNC2gLUrJ49quqBT+VfcHBDdxnOH/7iLxTTiE8TYYXm67Ixfc2x/rfkCgAq3AcGkN0iA8HbxiEsOWFRTfciqY9ZKaIozwmcilWGgUNaaM6pd7/DkrorqAYe2Ht8eXhcZTXYWHBSBbT1eNfMWCDiILoUYrqY4HA4DIiyYzSrsla3ZPr4lm3In0smHFfdrbL3JgbCjfuCxOglbfbDywKYQRjJwwC2nj3prv6AXFT+f0nj44b0+RcNWrlmm4jDXN9ZbpLr/XCwyEGlISES0nOMi90qilJSwckjIdX9UTwcnGRK7UN1QaoVUfjPEeXFTFhvoZu0f6e2/noFC+C/YNJuhYGEwiLsNbXvJYYjLSirU1NvpnznEPlapOGV/EoH5AqW0HYZwMA2RAUQ0sRVqfpzEtbccaJjfY9BEJsp6VQpGfi67hL61FqkTPDvOuZmk4NLLjNKIk+8nN+pahD6hZTSrgZsHeeelylL8q6MAHc7E9nBmxqhMVCXbm0O2+vJqpB4BjdQepQRuO1LXbzqVUT8W1oTUpsifBKMUzCp7NbCywOzGQf96UmYOjz9vnKlCauqvvjFI0Qu+kdwAFIyfQWWcWO221ONdViadCIIT9r0tQ4fneoGR7oxZAqi0XIhgTf5i8mNoA+c/P+FUBaiM+XYdiH3COOaADFL2Pxk/wl63JmE4T8Eab0hiso86HeINFn1Tpm1j6FiushA9KLfXcZ+VUfdS9XOq1CdRlRsmrPtLxDUVK897Kzo7ip6+XdG4fbKuUGIAxRf5ebqRX5tRNZmm2UvLtm1TSnmtvEQuAqMSnIdAIi5N3jAjgNKOFi0N7/nF9yoKOGQeT/6xW369e0Ls9Zzok/p2AArcCHl7M023xo/V68Hg79sptrlmrmJFq/JganK7tQI9TRCB3LbQDGjYxTKLtXphbrTnlIGfc3tY0oYMXFA6MdpyxumNi18YLzMKF6qgVDZvd5Dsh/U2+1QNwDxpKyfqbx0pWTM5cyY7Jf6gxzmchuXyYHpy+or1lCjnVi0y+yU4FLW40I7hwgs2mohoFR9ZmkIanyHyjpMqn/jbIW2MiG5NrOQrZr5STTgJVBsuhGuzlkCvpMNgaWIeclJwGkrNeXy4pQXs+g/Rik5IJqIqrBU5lWaCjS5Vq4oxfJUKx9nIH6JjO68luLVEIm2j6fz4NOnYSioP4hP2W56qWsLFAGQnfgWguCyBMi8rDnr8EY4855kIS9vdtIiZRkzfcy7sjDEoLWzeqtylNVnKuukRZpMbxMiyNUomZbV0qYdjWqarLKd37F5byDjfhtLjM24jFGbfYjXv8QBB8CCLPgmOyIsktoN64P3ozyGpOpQf0Grjn/+yQgBim/BE320w8nXnAnf4RM+6l/XkGmZIQ+V/PHMGygRXJoIEFBYOEiRubwThEPyBU3t6QKj1lA/VNaKfeUTq0V0INbrgX+5YtLgWdMBWsbQSFRqT9dVCoAjCogMYMyziEnpsRcv115C3i7eQ6BihdiKzyyYxHQeVXcSLTsRkT+UwaeZFGJWVEN5OGY0aEdzVLkY8cCF+Z/ney8OAmFaoq8BywECfQpu58vRMqAxb2l9bWadhkHk4W2J8XxaRSg77G1RpYPUXaDZArDhq9l5R7Kd1NOBevMfB4WCv0GMLzvOc8j/z6CgB8A+HX9d5Q5scfgiPwI0Y4TwGyL/pwjTvXgNyvXf8B4jicAlKVyxFwzHbt3jCZpfWPFlEeXuIgJWXUobzKEo1n/mgqSgyfx9gkfn1Rdu/KegWkgtlHNYI5+vCjaj/21qKdN+trnCkfokwW95hh/CxsfUONuGyHMK9JJMWqgzRHjtR1jKxgz89yZeyaVkB/VlUU90UU5dkNWTSoLD6H1UfrCJlUrbUv0BK4pwpxWzjT+uAmclXSYFU5Cw5Zoi9N3DXtZE1k1oPFB0XQwus3Ih8zKnU+sNRDSvc+o9uDv8SGjKsuaGwPcZLJ9Ig34w7x/PtTowabnRIezyUpEzumcSTwEfALzhEdGlTwpDzYMLIRnx0lPICejESfpcbzyrZn/Xxzmkep3mUKFtqQCJ4yFamzROFCGWZ2YVmZ0Pkyb8UM5wNIEUW7nYchhqNEFpQsMxMw6tO6zmxA1shLsrYciFGmqEqE1Y3cXEiESdm6MUfxQ2N4BAz3QetSzwe5w97y2L5KzoSS2ZXMKQ4+zKjaAwO4B9ppJdrf+H5E9vFfOErjmdB6dCkPEJxcsfivvV112+U00Xvo5wCx7qAi9hvpKcxxaJebQqP8HKVI7NaiIUJlEW08MjpvzQekQPZEgH0bpAwe3NR0N4RVprYVohnm7gvDjbttSM2kuuTdOsM4iRti6uhzL3rpUVH1VHS4Wg3dWdYgTYqKp0Idpy5YzpS/lYCj32pdQlVWgWfsV4nF9h9vpod96DZiQtH/rGzNhJn9EooRTzK4gj6Li/IMxGcrBZ8KbLUooXYlsaDrHtSOtpmC+KzViP/h6U8ek1PB7vuJaokP2F9toCYshwi5JddLqcXdOa52hBqikVh/mswJ5q6Q8eT55ErR9YAmD2CaCc6NwPz+QQKDOplGJisxi4magj3YvXCcr7gQ28MPYiDlOgqkC1p8c9qAlw7l+CoknG7K8jjatkpjQKJlzxAaRVP6WyTGRw+05l6214NQSGjvv7YJJHlVGeUlMmnKl2kkNpBpkfyv0yeakMWTWdmn2a3DYPnLbCE7rQ83goq19yojBGJkDo8iXaJxxYAArGPRPjx4cFAQIWVjct2lsNsyPX6yge8OvKgB5tDAknDd5AkfRHE5a9t5p6hOHdDkZBSFdx5qFyZ2fQz2AwNMfxAh4OqdOTEqCuEy060Dr6yFFZaAd4FspjstsBzpCdN4jBKfdqfh6kLKBDgjkMURgoWhniLGLS2VoY0I6uN/S60uKuS1WtWEab9EQemfmRTx77spG84BFnXgECgasOobK1AmEVGbbm+hZwMvUsTrIef3Fj6K4eT6jPPRL6xxwYJXLtC8fvwpBn69xBDk/Q5x40qnylDNxkcR2CQnmkwPzOuVFCqq0Oqf7JZkIGW/DYUv936Im096gN7d051KZjoApJIcQ85bkZBQ3ZpmVZtY+pPjUhHkdG+6yTVMo8yOl024smCzVV/s/vUO+oN45qXeq+Nov2vXsrAHAO04plESkldjGNz3K/aDlK/GTbuQ3yURVBhXHb+/zlLvY/1f6RZC/dEO6CfbFuqGkSBdiFhuIF+LKB27E4oTCyNe1e+Ir54h76WCV+qZ/8nNr/urG7/oJZ2tYK9kQQPzp90tRgqo3Zdvxrc0OJlVOwMT9jRtrd6urnYIkRkz2xPKaXDpvziUCNPQXo5i6XJgftoC53zoHO77gcfZXWwFBnsKEHu8Bl0kVWMhUnXLqAE9u80A1IiZ9RK2KWrCpyDZO1nnswx2UDE1qV86J9pX3Lv5FFYA9EPw2MiQ1qY8YGgo6FHpX9IXp4EvSfSq7o5HtbVq273qQ1YN4Kxbgj/FKFS+aTtt7YiUEaPh1h+3kWiA7EJCZrrQ/SZZUqAFGprHcb8Tr8qZDRibF1KNVL1dp1zg/gGqJTtwGAb9BOtwvAJdrldAn+sMLFRBcv803hoNKs4oJ/cI7X9MyoJ14uZ50fvxwK3a5N8tDHkHdWEP5IKKp2z9ZH+KIjcn900Ep0kh4j5ytFOlBlO+qOqh4YFEjEEkZpw8eZJyXrT7/tR+yNjup7Bc0lwC+opNN6DeQLmGVhYRsLNIC/VFbWVf4yhF3oeHi7yKfVr/GL2zy6npOco3f2z8rNbqOhMfaMLewr9NNcfgBVaKRy+oXGljQATYPfmWHIyo2zdo6TZ86ikKkjLFJhmUTD+dD8dfs8n3CghHwIGWDlaM22eOM5WCIaZEcn+vJ160dhxtDlBnmvnMszOyquiPoicwRkAd41+ayQQtqKE106XWDgC5E0C7mXvtfgfvl3CwRmS/ui74BVEAJBuw8RjKOE+Rl5ucsMWfddyEKikYP8cbFYTraMOs/yLWZ1zUYxvRqtgvsdZ2zzTaS9EzZCeUkR50Mixb4YS6mwqQDTn7CrPD261UeJgfmgjAe6HBWtT0siKtXJEWFRglX9UQkguNTHWVdbGtdmN1wg8aNIn14YJL9ZtB+XGCki65LCwCSC+PP5gKH5x0V2Cy13YwpUADcfjg4SEI0uG8OUZPtnPWoRtE2hqGoDLUckvfc5SctoolBjFx/3JJ3Nj2YFx24xO/utbIH0mDR6BN/rVTVNPK6ZTM1isQIs5uwd5NEyF146ciDhj5vmseIlmQ8kOtMtDUTMrAPFGO3jRBX+TkdicCaGSWwsD+tsIhbtea2jr4Fk7PqHnFqDwKauwTnTLorbKd30rN6vpb/rR03y8Nw5gtS0xqWO3cQ/dQSdrGStkZLjs7tUPQJWGFa1nuUyV8TFscI8GYTpvDXQu0g9UyVRnAbGnFXFGB6aGxXkowzjHRw7QVG+1+1ylZdTy+CCtAc/11zNhBesfLCDcNYBVTwzwrbWzBi5urB9robRlu15YhO96hStAg4xtJPn4miOcKeJ4Pz5DJoLwrazHa0KPKWtF1CXdTFn1l5IXU9wftSyu3P/Wiu8ItVvrMOp8hxZwzuhUkOFqArAldKwhu65xFwdcWdtQXsK2ynVDpUDTMM/eG1yVPLtcHDYPt0//HYraSbDaZxWnQcuvHxWCFAQY276pEtE3tmc7D7lRakF3+lQiEg8pAyjNWGbYBjYaWpfKWGAZz0wwfKmAzuhPDB2O8HzqhzyZpHXRgMm3QRnFKQf2rkpKdLURmd3eiIbSyE/yOAuOi34QlQJhq8zYIC6dfUJ9ZEFXBkGGTYqBAi/ixrslvHrY6IvN1sefFtW2sYVphEH+OVaGFw=='
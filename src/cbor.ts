@@ -0,0 +1,154 @@
+import { bytesToHex, bytesToUtf8, concatBytes, utf8ToBytes } from './serialization'
+import { InvalidArgumentError, InvalidEncodingError, UnsupportedError } from './errors'
+
+// A small CBOR codec for COSE. https://www.rfc-editor.org/rfc/rfc8949
+// Encoding is deterministic (RFC8949 4.2.1): shortest integer and length forms, definite lengths and
+// map keys sorted by their encoding. Decoding only accepts that form. Floats and integers outside
+// the safe integer range are not supported.
+
+export type CborValue = number | string | Uint8Array | boolean | null | undefined | CborValue[] | CborMap | CborTag
+export type CborMap = Map<CborValue, CborValue>
+
+export class CborTag {
+    constructor(public tag: number, public value: CborValue) {}
+}
+
+const MAJOR_UNSIGNED = 0
+const MAJOR_NEGATIVE = 1
+const MAJOR_BYTES = 2
+const MAJOR_TEXT = 3
+const MAJOR_ARRAY = 4
+const MAJOR_MAP = 5
+const MAJOR_TAG = 6
+const MAJOR_SIMPLE = 7
+
+const SIMPLE_VALUES = new Map<CborValue, number>([
+    [false, 20],
+    [true, 21],
+    [null, 22],
+    [undefined, 23],
+])
+
+function encodeHead(major: number, n: number): Uint8Array {
+    if (!Number.isSafeInteger(n) || n < 0) throw new UnsupportedError('CBOR: expected a safe integer')
+    const type = major << 5
+    if (n < 24) return Uint8Array.from([type | n])
+    if (n < 0x100) return Uint8Array.from([type | 24, n])
+    if (n < 0x10000) return Uint8Array.from([type | 25, n >> 8, n & 0xff])
+    if (n < 0x100000000) return Uint8Array.from([type | 26, n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff])
+    const bytes = new Uint8Array(9)
+    bytes[0] = type | 27
+    for (let i = 8, rest = n; i > 0; i--, rest = Math.floor(rest / 256)) bytes[i] = rest % 256
+    return bytes
+}
+
+export function cborEncode(value: CborValue): Uint8Array {
+    if (typeof value === 'number') {
+        if (!Number.isInteger(value)) throw new UnsupportedError('CBOR: floats are not supported')
+        return value >= 0 ? encodeHead(MAJOR_UNSIGNED, value) : encodeHead(MAJOR_NEGATIVE, -1 - value)
+    }
+    if (typeof value === 'string') {
+        const bytes = utf8ToBytes(value)
+        return concatBytes(encodeHead(MAJOR_TEXT, bytes.length), bytes)
+    }
+    if (value instanceof Uint8Array) return concatBytes(encodeHead(MAJOR_BYTES, value.length), value)
+    if (Array.isArray(value)) return concatBytes(encodeHead(MAJOR_ARRAY, value.length), ...value.map(cborEncode))
+    if (value instanceof Map) {
+        const entries = Array.from(value.entries()).map(([k, v]) => [cborEncode(k), cborEncode(v)])
+        entries.sort(([a], [b]) => compareBytes(a, b))
+        for (let i = 1; i < entries.length; i++) {
+            if (compareBytes(entries[i - 1][0], entries[i][0]) === 0)
+                throw new InvalidArgumentError('CBOR: duplicate map key')
+        }
+        return concatBytes(encodeHead(MAJOR_MAP, entries.length), ...entries.map(([k, v]) => concatBytes(k, v)))
+    }
+    if (value instanceof CborTag) return concatBytes(encodeHead(MAJOR_TAG, value.tag), cborEncode(value.value))
+    const simple = SIMPLE_VALUES.get(value)
+    if (simple === undefined) throw new UnsupportedError(`CBOR: unsupported value ${typeof value}`)
+    return Uint8Array.from([(MAJOR_SIMPLE << 5) | simple])
+}
+
+// Bytewise lexicographic order of encoded keys
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i]
+    return a.length - b.length
+}
+
+export function cborDecode(bytes: Uint8Array): CborValue {
+    const [value, end] = decodeAt(bytes, 0)
+    if (end !== bytes.length) throw new InvalidEncodingError('CBOR: trailing data')
+    return value
+}
+
+// Decodes the item at offset and returns it with the offset just past it.
+function decodeAt(bytes: Uint8Array, offset: number): [CborValue, number] {
+    if (offset >= bytes.length) throw new InvalidEncodingError('CBOR: unexpected end of input')
+    const major = bytes[offset] >> 5
+    const info = bytes[offset] & 31
+    let pos = offset + 1
+    if (major === MAJOR_SIMPLE) {
+        const simple = Array.from(SIMPLE_VALUES.entries()).find(([, v]) => v === info)
+        if (!simple) throw new UnsupportedError('CBOR: unsupported simple value or float')
+        return [simple[0], pos]
+    }
+    let n: number
+    if (info < 24) {
+        n = info
+    } else if (info <= 27) {
+        const size = 1 << (info - 24)
+        if (pos + size > bytes.length) throw new InvalidEncodingError('CBOR: unexpected end of input')
+        n = 0
+        for (let i = 0; i < size; i++) n = n * 256 + bytes[pos + i]
+        pos += size
+        if (!Number.isSafeInteger(n)) throw new UnsupportedError('CBOR: integer out of range')
+        // Deterministic encoding uses the shortest form
+        if (n < (info === 24 ? 24 : 2 ** (8 * (size / 2)))) throw new InvalidEncodingError('CBOR: non-minimal integer')
+    } else {
+        throw new UnsupportedError('CBOR: indefinite lengths are not supported')
+    }
+    switch (major) {
+        case MAJOR_UNSIGNED:
+            return [n, pos]
+        case MAJOR_NEGATIVE:
+            return [-1 - n, pos]
+        case MAJOR_BYTES:
+        case MAJOR_TEXT: {
+            if (pos + n > bytes.length) throw new InvalidEncodingError('CBOR: unexpected end of input')
+            const data = bytes.slice(pos, pos + n)
+            return [major === MAJOR_BYTES ? data : bytesToUtf8(data), pos + n]
+        }
+        case MAJOR_ARRAY: {
+            const items: CborValue[] = []
+            for (let i = 0; i < n; i++) {
+                const [item, next] = decodeAt(bytes, pos)
+                items.push(item)
+                pos = next
+            }
+            return [items, pos]
+        }
+        case MAJOR_MAP: {
+            const map: CborMap = new Map()
+            let previousKey: Uint8Array | undefined
+            for (let i = 0; i < n; i++) {
+                const [key, keyEnd] = decodeAt(bytes, pos)
+                const encodedKey = bytes.slice(pos, keyEnd)
+                if (previousKey && compareBytes(previousKey, encodedKey) >= 0) {
+                    throw new InvalidEncodingError('CBOR: map keys must be unique and sorted')
+                }
+                if (key instanceof Uint8Array || Array.isArray(key) || key instanceof Map || key instanceof CborTag) {
+                    // Only keys with value equality can be looked up in a Map
+                    throw new UnsupportedError(`CBOR: unsupported map key ${bytesToHex(encodedKey)}`)
+                }
+                const [value, valueEnd] = decodeAt(bytes, keyEnd)
+                map.set(key, value)
+                previousKey = encodedKey
+                pos = valueEnd
+            }
+            return [map, pos]
+        }
+        default: {
+            const [value, next] = decodeAt(bytes, pos)
+            return [new CborTag(n, value), next]
+        }
+    }
+}
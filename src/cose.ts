@@ -0,0 +1,205 @@
+import { cborDecode, cborEncode, CborMap, CborTag, CborValue } from './cbor'
+import { BigIntType } from './integers'
+import { KeyAlgorithm } from './key-formats'
+import { KeyUtils, okpPublicKeyBytes } from './key-utils'
+import { PointBase, PointStatic } from './points'
+import { B32, Hex, PrivKey } from './serialization'
+import { PubKey, SigningFunctions, VerifyOptions } from './signing'
+import {
+    InvalidArgumentError,
+    InvalidEncodingError,
+    InvalidKeyLengthError,
+    InvalidSignatureError,
+    UnsupportedError,
+} from './errors'
+
+export interface CoseSign1Options {
+    // alg is always EdDSA and is added to the protected header.
+    protectedHeader?: CborMap
+    unprotectedHeader?: CborMap
+    externalAad?: Uint8Array
+    // Leaves the payload out of the message. It must then be passed to verify1.
+    detached?: boolean
+    // Wraps the message in tag 18. Defaults to true.
+    tagged?: boolean
+}
+
+export interface CoseVerify1Options extends VerifyOptions {
+    externalAad?: Uint8Array
+    // The payload of a detached message
+    payload?: Uint8Array
+}
+
+export interface DecodedCoseSign1 {
+    protectedHeader: CborMap
+    unprotectedHeader: CborMap
+    payload: Uint8Array
+}
+
+export interface CoseFunctions<BIT extends BigIntType> {
+    sign1(payload: Uint8Array, privateKey: Hex, options?: CoseSign1Options): Promise<Uint8Array>
+    // Resolves to the headers and payload. Rejects malformed messages and bad signatures.
+    verify1(message: Uint8Array, publicKey: PubKey<BIT>, options?: CoseVerify1Options): Promise<DecodedCoseSign1>
+}
+
+export interface CoseKeyInput<BIT extends BigIntType> {
+    publicKey: Hex | PointBase<BIT>
+    privateKey?: PrivKey<BIT>
+    kid?: Uint8Array
+}
+
+export interface DecodedCoseKey {
+    crv: KeyAlgorithm
+    publicKey: Uint8Array
+    privateKey?: Uint8Array
+    kid?: Uint8Array
+}
+
+export interface CoseKeyFunctions<BIT extends BigIntType> {
+    // For X25519, a Point is written as its u-coordinate.
+    encode(key: CoseKeyInput<BIT>, crv?: KeyAlgorithm): Uint8Array
+    decode(bytes: Uint8Array): DecodedCoseKey
+}
+
+// Header parameters and algorithm from RFC9052 3.1 and RFC9053 2.2
+const HEADER_ALG = 1
+const HEADER_CRIT = 2
+const ALG_EDDSA = -8
+const COSE_SIGN1_TAG = 18
+
+// COSE_Key parameters and values from RFC9053 7.1 and 7.2
+const KEY_KTY = 1
+const KEY_KID = 2
+const KEY_ALG = 3
+const KEY_CRV = -1
+const KEY_X = -2
+const KEY_D = -4
+const KTY_OKP = 1
+const CURVES: Record<KeyAlgorithm, number> = { X25519: 4, Ed25519: 6 }
+
+// COSE_Sign1 with EdDSA. https://www.rfc-editor.org/rfc/rfc9052#section-4.2
+export function makeCoseFunctions<BIT extends BigIntType>(
+    signing: Pick<SigningFunctions<BIT>, 'sign' | 'verify'>
+): CoseFunctions<BIT> {
+    // Sig_structure = ["Signature1", body_protected, external_aad, payload]
+    function toBeSigned(bodyProtected: Uint8Array, externalAad: Uint8Array, payload: Uint8Array): Uint8Array {
+        return cborEncode(['Signature1', bodyProtected, externalAad, payload])
+    }
+
+    async function sign1(payload: Uint8Array, privateKey: Hex, options: CoseSign1Options = {}): Promise<Uint8Array> {
+        const {
+            unprotectedHeader = new Map(),
+            externalAad = new Uint8Array(0),
+            detached = false,
+            tagged = true,
+        } = options
+        const protectedHeader: CborMap = new Map(options.protectedHeader || [])
+        const alg = protectedHeader.get(HEADER_ALG)
+        if (alg !== undefined && alg !== ALG_EDDSA) throw new InvalidArgumentError('cose.sign1: alg must be EdDSA (-8)')
+        protectedHeader.set(HEADER_ALG, ALG_EDDSA)
+        const bodyProtected = cborEncode(protectedHeader)
+        const signature = await signing.sign(toBeSigned(bodyProtected, externalAad, payload), privateKey)
+        const message = [bodyProtected, unprotectedHeader, detached ? null : payload, signature]
+        return cborEncode(tagged ? new CborTag(COSE_SIGN1_TAG, message) : message)
+    }
+
+    async function verify1(
+        message: Uint8Array,
+        publicKey: PubKey<BIT>,
+        options: CoseVerify1Options = {}
+    ): Promise<DecodedCoseSign1> {
+        let decoded = cborDecode(message)
+        if (decoded instanceof CborTag) {
+            if (decoded.tag !== COSE_SIGN1_TAG) throw new InvalidEncodingError('cose.verify1: expected tag 18')
+            decoded = decoded.value
+        }
+        if (!Array.isArray(decoded) || decoded.length !== 4)
+            throw new InvalidEncodingError('cose.verify1: malformed COSE_Sign1')
+        const [bodyProtected, unprotectedHeader, attachedPayload, signature] = decoded
+        if (
+            !(bodyProtected instanceof Uint8Array) ||
+            !(unprotectedHeader instanceof Map) ||
+            !(signature instanceof Uint8Array) ||
+            !(attachedPayload instanceof Uint8Array || attachedPayload === null)
+        ) {
+            throw new InvalidEncodingError('cose.verify1: malformed COSE_Sign1')
+        }
+        // A zero length protected header stands for an empty map, which can't carry alg.
+        const protectedHeader = bodyProtected.length ? cborDecode(bodyProtected) : new Map()
+        if (!(protectedHeader instanceof Map))
+            throw new InvalidEncodingError('cose.verify1: malformed protected header')
+        // The algorithm is bound by the signature, so it must be protected.
+        if (protectedHeader.get(HEADER_ALG) !== ALG_EDDSA)
+            throw new UnsupportedError('cose.verify1: expected alg EdDSA (-8)')
+        if (unprotectedHeader.has(HEADER_ALG)) throw new InvalidEncodingError('cose.verify1: alg must be protected')
+        // No extensions are understood, so any critical one must be rejected. RFC9052 3.1
+        if (protectedHeader.has(HEADER_CRIT))
+            throw new UnsupportedError('cose.verify1: unsupported critical header parameters')
+        const payload = attachedPayload === null ? options.payload : attachedPayload
+        if (!payload) throw new InvalidArgumentError('cose.verify1: detached payload missing')
+        if (attachedPayload !== null && options.payload)
+            throw new InvalidArgumentError('cose.verify1: payload is not detached')
+        if (signature.length !== 64) throw new InvalidSignatureError('cose.verify1: expected 64 bytes of signature')
+        const tbs = toBeSigned(bodyProtected, options.externalAad || new Uint8Array(0), payload)
+        if (!(await signing.verify(signature, tbs, publicKey, { mode: options.mode }))) {
+            throw new InvalidSignatureError('cose.verify1: invalid signature')
+        }
+        return { protectedHeader, unprotectedHeader, payload }
+    }
+
+    return { sign1, verify1 }
+}
+
+// OKP COSE_Key. https://www.rfc-editor.org/rfc/rfc9053#section-7.2
+export function makeCoseKeyFunctions<BIT extends BigIntType>(
+    PointClass: PointStatic<BIT>,
+    keyUtils: KeyUtils<BIT>
+): CoseKeyFunctions<BIT> {
+    function encode({ publicKey, privateKey, kid }: CoseKeyInput<BIT>, crv: KeyAlgorithm = 'Ed25519'): Uint8Array {
+        if (!CURVES[crv]) throw new UnsupportedError(`coseKey.encode: unsupported curve ${crv}`)
+        const x = okpPublicKeyBytes(publicKey, crv, 'coseKey')
+        const key: CborMap = new Map<CborValue, CborValue>([
+            [KEY_KTY, KTY_OKP],
+            [KEY_CRV, CURVES[crv]],
+            [KEY_X, x],
+        ])
+        if (crv === 'Ed25519') key.set(KEY_ALG, ALG_EDDSA)
+        if (privateKey !== undefined) key.set(KEY_D, keyUtils.normalizePrivateKey(privateKey))
+        if (kid) key.set(KEY_KID, kid)
+        return cborEncode(key)
+    }
+
+    // Ed25519 public keys must decode to a curve point. The private key isn't checked against x.
+    function decode(bytes: Uint8Array): DecodedCoseKey {
+        const key = cborDecode(bytes)
+        if (!(key instanceof Map) || key.get(KEY_KTY) !== KTY_OKP)
+            throw new UnsupportedError('coseKey.decode: expected an OKP key')
+        const crv = (Object.keys(CURVES) as KeyAlgorithm[]).find((c) => CURVES[c] === key.get(KEY_CRV))
+        if (!crv) throw new UnsupportedError('coseKey.decode: unsupported curve')
+        const alg = key.get(KEY_ALG)
+        if (alg !== undefined && (crv !== 'Ed25519' || alg !== ALG_EDDSA))
+            throw new InvalidEncodingError('coseKey.decode: unexpected alg')
+        const x = key.get(KEY_X)
+        if (!(x instanceof Uint8Array)) throw new InvalidEncodingError('coseKey.decode: missing x')
+        const decoded: DecodedCoseKey = { crv, publicKey: checkKey(x) }
+        if (crv === 'Ed25519') PointClass.fromHex(x)
+        const d = key.get(KEY_D)
+        if (d !== undefined) {
+            if (!(d instanceof Uint8Array)) throw new InvalidEncodingError('coseKey.decode: malformed d')
+            decoded.privateKey = keyUtils.normalizePrivateKey(d)
+        }
+        const kid = key.get(KEY_KID)
+        if (kid !== undefined) {
+            if (!(kid instanceof Uint8Array)) throw new InvalidEncodingError('coseKey.decode: malformed kid')
+            decoded.kid = kid
+        }
+        return decoded
+    }
+
+    return { encode, decode }
+}
+
+function checkKey(key: Uint8Array): Uint8Array {
+    if (key.length !== B32) throw new InvalidKeyLengthError('coseKey: expected 32 bytes of public key')
+    return key
+}
@@ -1,5 +1,6 @@
 import { IntFactory, SerializationFunctions } from './serialization'
 import { BigIntType, Integers } from './integers'
+import { RngFailureError } from './errors'
 
 export interface CurveType<BIT extends BigIntType> {
     a: BIT
@@ -17,6 +18,7 @@ export interface Constants<BIT extends BigIntType> {
     INVSQRT_A_MINUS_D: BIT
     ONE_MINUS_D_SQ: BIT
     D_MINUS_ONE_SQ: BIT
+    SQRT_M486664: BIT
 }
 
 export function makeCurve<BIT extends BigIntType>(toBigInt: IntFactory<BIT>): CurveType<BIT> {
@@ -52,6 +54,8 @@ export function makeConstants<BIT extends BigIntType>(toBigInt: IntFactory<BIT>)
         ONE_MINUS_D_SQ: toBigInt('1159843021668779879193775521855586647937357759715417654439879720876111806838'),
         // (d-1)²
         D_MINUS_ONE_SQ: toBigInt('40440834346308536858101042469323190826248399146238708352240133220865137265952'),
+        // √(-486664), the root that maps the base point to RFC7748's (9, v)
+        SQRT_M486664: toBigInt('51042569399160536130206135233146329284152202253034631822681833788666877215207'),
     }
 }
 
@@ -76,5 +80,5 @@ export function randomScalar<BIT>(
         const num = serialization.bytesToNumberLE(b32)
         if (Ints.greaterThan(num, Ints.BigInt(1)) && Ints.lessThan(num, curve.n)) return b32
     }
-    throw new Error('Valid private key was not found in 1024 iterations. PRNG is broken')
+    throw new RngFailureError('Valid private key was not found in 1024 iterations. PRNG is broken')
 }
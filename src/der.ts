@@ -0,0 +1,82 @@
+import { base64ToBytes, bytesToBase64, concatBytes } from './serialization'
+import { InvalidEncodingError, UnsupportedError } from './errors'
+
+// A minimal DER encoder and decoder: definite lengths below 64 KiB and single byte tags,
+// which is all that the key structures of RFC 8410 need.
+// https://www.itu.int/rec/T-REC-X.690
+
+export const DER_TAGS = {
+    INTEGER: 0x02,
+    BIT_STRING: 0x03,
+    OCTET_STRING: 0x04,
+    OID: 0x06,
+    SEQUENCE: 0x30,
+}
+
+export interface DerElement {
+    tag: number
+    value: Uint8Array
+}
+
+export function derEncode(tag: number, ...values: Uint8Array[]): Uint8Array {
+    const value = concatBytes(...values)
+    const len = value.length
+    let header: number[]
+    if (len < 0x80) header = [tag, len]
+    else if (len < 0x100) header = [tag, 0x81, len]
+    else if (len < 0x10000) header = [tag, 0x82, len >> 8, len & 0xff]
+    else throw new UnsupportedError('DER: value is too long')
+    return concatBytes(Uint8Array.from(header), value)
+}
+
+// Reads the element at offset. Returns it along with the offset just past it.
+function derRead(bytes: Uint8Array, offset: number): DerElement & { end: number } {
+    if (bytes.length < offset + 2) throw new InvalidEncodingError('DER: unexpected end of input')
+    const tag = bytes[offset]
+    let len = bytes[offset + 1]
+    let start = offset + 2
+    if (len & 0x80) {
+        const count = len & 0x7f
+        if (count < 1 || count > 2 || bytes.length < start + count)
+            throw new UnsupportedError('DER: unsupported length')
+        len = count === 1 ? bytes[start] : (bytes[start] << 8) | bytes[start + 1]
+        // DER requires the shortest length encoding.
+        if (len < 0x80 || (count === 2 && len < 0x100)) throw new InvalidEncodingError('DER: non-minimal length')
+        start += count
+    }
+    const end = start + len
+    if (bytes.length < end) throw new InvalidEncodingError('DER: unexpected end of input')
+    return { tag, value: bytes.slice(start, end), end }
+}
+
+// Decodes exactly one element, with the given tag.
+export function derDecode(bytes: Uint8Array, tag: number): Uint8Array {
+    const children = derDecodeAll(bytes)
+    if (children.length !== 1 || children[0].tag !== tag)
+        throw new InvalidEncodingError(`DER: expected a single element 0x${tag.toString(16)}`)
+    return children[0].value
+}
+
+// Decodes a concatenation of elements, e.g. the contents of a SEQUENCE.
+export function derDecodeAll(bytes: Uint8Array): DerElement[] {
+    const elements: DerElement[] = []
+    let offset = 0
+    while (offset < bytes.length) {
+        const { tag, value, end } = derRead(bytes, offset)
+        elements.push({ tag, value })
+        offset = end
+    }
+    return elements
+}
+
+// Textual encoding of RFC 7468, with 64 characters per line by default.
+export function encodePem(label: string, der: Uint8Array, lineLength = 64): string {
+    const lines = bytesToBase64(der).match(new RegExp(`.{1,${lineLength}}`, 'g')) || []
+    return [`-----BEGIN ${label}-----`, ...lines, `-----END ${label}-----`, ''].join('\n')
+}
+
+export function decodePem(label: string, pem: string): Uint8Array {
+    const match = pem.match(new RegExp(`-----BEGIN ${label}-----([A-Za-z0-9+/=\\s]*)-----END ${label}-----`))
+    if (!match) throw new InvalidEncodingError(`PEM: expected ${label}`)
+    return base64ToBytes(match[1].replace(/\s+/g, ''))
+}
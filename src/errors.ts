@@ -0,0 +1,129 @@
+// Every error thrown by this library is an Ed25519Error with a code that callers can switch on
+// instead of matching messages, which are for humans and may change.
+
+export type Ed25519ErrorCode =
+    | 'INVALID_HEX'
+    | 'INVALID_ENCODING'
+    | 'INVALID_POINT_ENCODING'
+    | 'INVALID_POINT'
+    | 'NON_CANONICAL_SCALAR'
+    | 'INVALID_SCALAR'
+    | 'NOT_INVERTIBLE'
+    | 'INVALID_KEY_LENGTH'
+    | 'INVALID_KEY'
+    | 'INVALID_SIGNATURE'
+    | 'INVALID_PROOF'
+    | 'INVALID_LENGTH'
+    | 'INVALID_ARGUMENT'
+    | 'UNSUPPORTED'
+    | 'RNG_FAILURE'
+
+export class Ed25519Error extends Error {
+    constructor(readonly code: Ed25519ErrorCode, message: string) {
+        super(message)
+        this.name = new.target.name
+    }
+}
+
+// A string that isn't hex: not a string, odd length or other characters
+export class InvalidHexError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_HEX', message)
+    }
+}
+
+// Malformed base64, UTF-8 or container formats: CBOR, DER, PEM, PKCS#8, SPKI, OpenSSH, JWS, JWK and COSE
+export class InvalidEncodingError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_ENCODING', message)
+    }
+}
+
+// Bytes that don't decode to a point, or not canonically
+export class InvalidPointEncodingError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_POINT_ENCODING', message)
+    }
+}
+
+// A point that can't be used where it was given, e.g. one of small order in X25519
+export class InvalidPointError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_POINT', message)
+    }
+}
+
+// An encoded scalar that isn't below ℓ, such as S of a malleable signature
+export class NonCanonicalScalarError extends Ed25519Error {
+    constructor(message: string) {
+        super('NON_CANONICAL_SCALAR', message)
+    }
+}
+
+// A scalar of the wrong type or sign
+export class InvalidScalarError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_SCALAR', message)
+    }
+}
+
+// Inverting zero, or a number that shares a factor with the modulus
+export class NotInvertibleError extends Ed25519Error {
+    constructor(message: string) {
+        super('NOT_INVERTIBLE', message)
+    }
+}
+
+export class InvalidKeyLengthError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_KEY_LENGTH', message)
+    }
+}
+
+// A key of the wrong type, or key material that doesn't fit together
+export class InvalidKeyError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_KEY', message)
+    }
+}
+
+// A signature that is malformed, or fails to verify where that is an error rather than false
+export class InvalidSignatureError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_SIGNATURE', message)
+    }
+}
+
+// A zero-knowledge proof, such as an OPRF's DLEQ proof, that is malformed or fails to verify
+export class InvalidProofError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_PROOF', message)
+    }
+}
+
+// Input bytes of the wrong length, other than keys and signatures
+export class InvalidLengthError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_LENGTH', message)
+    }
+}
+
+export class InvalidArgumentError extends Ed25519Error {
+    constructor(message: string) {
+        super('INVALID_ARGUMENT', message)
+    }
+}
+
+// Valid input that this library doesn't handle: other curves and algorithms, encrypted keys, floats in CBOR
+export class UnsupportedError extends Ed25519Error {
+    constructor(message: string) {
+        super('UNSUPPORTED', message)
+    }
+}
+
+// No randomness available, or a PRNG that keeps returning unusable values
+export class RngFailureError extends Ed25519Error {
+    constructor(message: string) {
+        super('RNG_FAILURE', message)
+    }
+}
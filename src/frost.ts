@@ -0,0 +1,371 @@
+import { CurveType } from './curve'
+import { InvalidArgumentError, InvalidPointError } from './errors'
+import { Hash, makeSha512ToNumberLE, sha512 } from './hash'
+import { BigIntType } from './integers'
+import { MathFunctions } from './math'
+import { ExtendedPointBase, ExtendedPointStatic, PointStatic } from './points'
+import { Scalar, Scalars } from './scalars'
+import { evaluateCommitment, evaluatePolynomial, lagrangeCoefficient, shareIndex } from './secret-sharing'
+import { B32, concatBytes, ensureBytes, Hex, SerializationFunctions, utf8ToBytes } from './serialization'
+import { randomBytes } from './utils'
+
+// What a participant holds after key generation: its share sk_i of the group's secret key
+export interface FrostKeyShare {
+    identifier: number
+    secretShare: Uint8Array
+    groupPublicKey: Uint8Array
+}
+
+export interface FrostKeyGenResult {
+    shares: FrostKeyShare[]
+    groupPublicKey: Uint8Array
+    // The coefficients of the secret polynomial times B. Participants check their share against it.
+    vssCommitment: Uint8Array[]
+}
+
+export interface FrostGroupInfo {
+    groupPublicKey: Uint8Array
+    // PK_i of participants 1 to n, for verifySignatureShare
+    publicKeyShares: Uint8Array[]
+}
+
+// Round one output that is published to the coordinator
+export interface FrostCommitment {
+    identifier: number
+    hiding: Uint8Array
+    binding: Uint8Array
+}
+
+// Round one output that the participant keeps secret until it signs. Nonces can only sign once.
+export interface FrostNonces<BIT extends BigIntType> {
+    hiding: Scalar<BIT>
+    binding: Scalar<BIT>
+    commitment: FrostCommitment
+}
+
+export interface FrostSignatureShare {
+    identifier: number
+    share: Uint8Array
+}
+
+// For reproducing test vectors only: the 32 random bytes each nonce is derived from
+export interface FrostNonceRandomness {
+    hiding: Uint8Array
+    binding: Uint8Array
+}
+
+export interface FrostFunctions<BIT extends BigIntType> {
+    // Splits secretKey, a scalar, or a random one into maxSigners shares of which any minSigners can sign.
+    // The coefficients of the polynomial are random unless given, which is for test vectors only.
+    trustedDealerKeygen(
+        minSigners: number,
+        maxSigners: number,
+        secretKey?: Hex,
+        coefficients?: Hex[]
+    ): FrostKeyGenResult
+    vssVerify(share: FrostKeyShare, vssCommitment: Hex[]): boolean
+    deriveGroupInfo(minSigners: number, maxSigners: number, vssCommitment: Hex[]): FrostGroupInfo
+    // Round one, by each signer
+    commit(share: FrostKeyShare, randomness?: FrostNonceRandomness): Promise<FrostNonces<BIT>>
+    // Round two, by each signer, over the commitments of all signers that the coordinator picked
+    sign(
+        share: FrostKeyShare,
+        nonces: FrostNonces<BIT>,
+        message: Uint8Array,
+        commitments: FrostCommitment[]
+    ): Promise<FrostSignatureShare>
+    // By the coordinator, to find out which signer sent a bad share
+    verifySignatureShare(
+        signatureShare: FrostSignatureShare,
+        publicKeyShare: Hex,
+        commitments: FrostCommitment[],
+        groupPublicKey: Hex,
+        message: Uint8Array
+    ): Promise<boolean>
+    // By the coordinator: a 64 byte Ed25519 signature by groupPublicKey
+    aggregate(
+        commitments: FrostCommitment[],
+        message: Uint8Array,
+        groupPublicKey: Hex,
+        signatureShares: FrostSignatureShare[]
+    ): Promise<Uint8Array>
+}
+
+interface DecodedCommitment<BIT extends BigIntType> {
+    identifier: number
+    id: Scalar<BIT>
+    hiding: ExtendedPointBase<BIT>
+    binding: ExtendedPointBase<BIT>
+    bytes: FrostCommitment
+}
+
+const CONTEXT = utf8ToBytes('FROST-ED25519-SHA512-v1')
+const RHO = utf8ToBytes('rho')
+const NONCE = utf8ToBytes('nonce')
+const MSG = utf8ToBytes('msg')
+const COM = utf8ToBytes('com')
+
+// FROST(Ed25519, SHA-512). https://www.rfc-editor.org/rfc/rfc9591
+// The group's signatures are plain Ed25519 signatures: the challenge is H2 = SHA-512(R || A || M) mod ℓ,
+// exactly as in RFC8032, so verify accepts them under every VerifyMode.
+export function makeFrostFunctions<BIT extends BigIntType>(
+    CURVE: CurveType<BIT>,
+    serializer: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>,
+    scalars: Scalars<BIT>,
+    PointClass: PointStatic<BIT>,
+    ExtendedPointClass: ExtendedPointStatic<BIT>,
+    sha512Impl?: Hash
+): FrostFunctions<BIT> {
+    const BASE = ExtendedPointClass.BASE
+    const sha512ToNumberLE = makeSha512ToNumberLE(serializer, math, CURVE, sha512Impl)
+    const usedNonces = new WeakSet<FrostNonces<BIT>>()
+
+    // H1, H2 and H3 reduce SHA-512 mod ℓ. Only H2 is without the context string.
+    const H1 = async (m: Uint8Array) => scalars.create(await sha512ToNumberLE(CONTEXT, RHO, m))
+    const H2 = async (...m: Uint8Array[]) => scalars.create(await sha512ToNumberLE(...m))
+    const H3 = async (m: Uint8Array) => scalars.create(await sha512ToNumberLE(CONTEXT, NONCE, m))
+    const H4 = (m: Uint8Array) => sha512(concatBytes(CONTEXT, MSG, m), sha512Impl)
+    const H5 = (m: Uint8Array) => sha512(concatBytes(CONTEXT, COM, m), sha512Impl)
+
+    function serializeElement(P: ExtendedPointBase<BIT>): Uint8Array {
+        const { x, y } = P.toAffine()
+        return new PointClass(x, y).toRawBytes()
+    }
+
+    // Canonical encodings of points in the prime order subgroup, other than the identity
+    function deserializeElement(hex: Hex): ExtendedPointBase<BIT> {
+        const P = ExtendedPointClass.fromAffine(PointClass.fromHex(ensureBytes(hex)))
+        if (P.isSmallOrder()) throw new InvalidPointError('frost: element of small order')
+        if (!P.isTorsionFree()) throw new InvalidPointError('frost: element is not in the prime order subgroup')
+        return P
+    }
+
+    // Secret scalars only, with the precomputed tables of B
+    function baseMultiply(s: Scalar<BIT>): ExtendedPointBase<BIT> {
+        return BASE.multiply(s.value)
+    }
+
+    // The group public key as it goes into the hashes, once checked
+    function groupKeyBytes(hex: Hex): Uint8Array {
+        deserializeElement(hex)
+        return ensureBytes(hex)
+    }
+
+    function samePoint(P: ExtendedPointBase<BIT>, Q: ExtendedPointBase<BIT>): boolean {
+        return equalBytes(serializeElement(P), serializeElement(Q))
+    }
+
+    function deserializeScalar(hex: Hex): Scalar<BIT> {
+        return scalars.fromCanonicalBytes(ensureBytes(hex))
+    }
+
+    function checkSigners(minSigners: number, maxSigners: number) {
+        if (!Number.isSafeInteger(minSigners) || !Number.isSafeInteger(maxSigners))
+            throw new InvalidArgumentError('frost: expected integer numbers of signers')
+        if (minSigners < 2 || minSigners > maxSigners)
+            throw new InvalidArgumentError('frost: expected 2 <= minSigners <= maxSigners')
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9591#appendix-C
+    function trustedDealerKeygen(
+        minSigners: number,
+        maxSigners: number,
+        secretKey?: Hex,
+        coefficients?: Hex[]
+    ): FrostKeyGenResult {
+        checkSigners(minSigners, maxSigners)
+        if (coefficients && coefficients.length !== minSigners - 1)
+            throw new InvalidArgumentError('frost.trustedDealerKeygen: expected minSigners - 1 coefficients')
+        const secret = secretKey === undefined ? scalars.random() : deserializeScalar(secretKey)
+        if (scalars.isZero(secret)) throw new InvalidArgumentError('frost.trustedDealerKeygen: secret key is zero')
+        const polynomial = [secret]
+        for (let i = 1; i < minSigners; i++) {
+            polynomial.push(coefficients ? deserializeScalar(coefficients[i - 1]) : scalars.random())
+        }
+        const vssCommitment = polynomial.map((c) => serializeElement(baseMultiply(c)))
+        const groupPublicKey = vssCommitment[0]
+        const shares: FrostKeyShare[] = []
+        for (let identifier = 1; identifier <= maxSigners; identifier++) {
+            const secretShare = scalars.toBytes(
+                evaluatePolynomial(scalars, polynomial, shareIndex(scalars, identifier))
+            )
+            shares.push({ identifier, secretShare, groupPublicKey })
+        }
+        return { shares, groupPublicKey, vssCommitment }
+    }
+
+    // sk_i·B = Σ vssCommitment[j]·i^j
+    function vssVerify(share: FrostKeyShare, vssCommitment: Hex[]): boolean {
+        const commitment = vssCommitment.map(deserializeElement)
+        const expected = evaluateCommitment(
+            scalars,
+            ExtendedPointClass,
+            commitment,
+            shareIndex(scalars, share.identifier)
+        )
+        const secretShare = deserializeScalar(share.secretShare)
+        return samePoint(baseMultiply(secretShare), expected)
+    }
+
+    function deriveGroupInfo(minSigners: number, maxSigners: number, vssCommitment: Hex[]): FrostGroupInfo {
+        checkSigners(minSigners, maxSigners)
+        if (vssCommitment.length !== minSigners)
+            throw new InvalidArgumentError('frost.deriveGroupInfo: expected minSigners commitments')
+        const commitment = vssCommitment.map(deserializeElement)
+        const publicKeyShares: Uint8Array[] = []
+        for (let identifier = 1; identifier <= maxSigners; identifier++) {
+            publicKeyShares.push(
+                serializeElement(
+                    evaluateCommitment(scalars, ExtendedPointClass, commitment, shareIndex(scalars, identifier))
+                )
+            )
+        }
+        return { groupPublicKey: serializeElement(commitment[0]), publicKeyShares }
+    }
+
+    // H3(random_bytes || sk_i): fresh randomness, and still safe when the RNG is weak as long as sk_i is secret.
+    async function nonceGenerate(secret: Scalar<BIT>, random = randomBytes(B32)): Promise<Scalar<BIT>> {
+        return H3(concatBytes(random, scalars.toBytes(secret)))
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9591#section-5.1
+    async function commit(share: FrostKeyShare, randomness?: FrostNonceRandomness): Promise<FrostNonces<BIT>> {
+        shareIndex(scalars, share.identifier)
+        const secretShare = deserializeScalar(share.secretShare)
+        const hiding = await nonceGenerate(secretShare, randomness?.hiding)
+        const binding = await nonceGenerate(secretShare, randomness?.binding)
+        const commitment = {
+            identifier: share.identifier,
+            hiding: serializeElement(baseMultiply(hiding)),
+            binding: serializeElement(baseMultiply(binding)),
+        }
+        return { hiding, binding, commitment }
+    }
+
+    // Sorted by identifier, the order the commitment list is encoded and hashed in
+    function decodeCommitments(commitments: FrostCommitment[]): DecodedCommitment<BIT>[] {
+        if (!commitments.length) throw new InvalidArgumentError('frost: expected commitments')
+        const decoded = commitments
+            .map((c) => ({
+                identifier: c.identifier,
+                id: shareIndex(scalars, c.identifier),
+                hiding: deserializeElement(c.hiding),
+                binding: deserializeElement(c.binding),
+                bytes: c,
+            }))
+            .sort((a, b) => a.identifier - b.identifier)
+        for (let i = 1; i < decoded.length; i++) {
+            if (decoded[i].identifier === decoded[i - 1].identifier)
+                throw new InvalidArgumentError('frost: duplicate identifier in commitments')
+        }
+        return decoded
+    }
+
+    // The binding factors ρ_i, the group commitment R = Σ D_i + ρ_i·E_i and the challenge.
+    // https://www.rfc-editor.org/rfc/rfc9591#section-4.4
+    async function signingPackage(
+        commitments: DecodedCommitment<BIT>[],
+        groupPublicKey: Uint8Array,
+        message: Uint8Array
+    ): Promise<{ bindingFactors: Scalar<BIT>[]; groupCommitment: Uint8Array; challenge: Scalar<BIT> }> {
+        const encodedCommitments = concatBytes(
+            ...commitments.map((c) => concatBytes(scalars.toBytes(c.id), c.bytes.hiding, c.bytes.binding))
+        )
+        const prefix = concatBytes(groupPublicKey, await H4(message), await H5(encodedCommitments))
+        const bindingFactors: Scalar<BIT>[] = []
+        for (const c of commitments) bindingFactors.push(await H1(concatBytes(prefix, scalars.toBytes(c.id))))
+        const R = ExtendedPointClass.multiScalarMul(
+            [...commitments.map(() => scalars.ONE.value), ...bindingFactors.map((rho) => rho.value)],
+            [...commitments.map((c) => c.hiding), ...commitments.map((c) => c.binding)]
+        )
+        const groupCommitment = serializeElement(R)
+        const challenge = await H2(groupCommitment, groupPublicKey, message)
+        return { bindingFactors, groupCommitment, challenge }
+    }
+
+    function indexOf(commitments: DecodedCommitment<BIT>[], identifier: number): number {
+        const index = commitments.findIndex((c) => c.identifier === identifier)
+        if (index < 0) throw new InvalidArgumentError(`frost: no commitment from participant ${identifier}`)
+        return index
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9591#section-5.2
+    async function sign(
+        share: FrostKeyShare,
+        nonces: FrostNonces<BIT>,
+        message: Uint8Array,
+        commitments: FrostCommitment[]
+    ): Promise<FrostSignatureShare> {
+        if (usedNonces.has(nonces)) throw new InvalidArgumentError('frost.sign: nonces were already used')
+        const decoded = decodeCommitments(commitments)
+        const index = indexOf(decoded, share.identifier)
+        const own = decoded[index].bytes
+        if (!equalBytes(own.hiding, nonces.commitment.hiding) || !equalBytes(own.binding, nonces.commitment.binding))
+            throw new InvalidArgumentError('frost.sign: commitment does not match the nonces')
+        usedNonces.add(nonces)
+        const secretShare = deserializeScalar(share.secretShare)
+        const { bindingFactors, challenge } = await signingPackage(decoded, ensureBytes(share.groupPublicKey), message)
+        const lambda = lagrangeCoefficient(
+            scalars,
+            decoded.map((c) => c.identifier),
+            index
+        )
+        // z_i = d_i + e_i·ρ_i + λ_i·sk_i·c
+        const z = scalars.add(
+            scalars.add(nonces.hiding, scalars.mul(nonces.binding, bindingFactors[index])),
+            scalars.mul(scalars.mul(lambda, secretShare), challenge)
+        )
+        return { identifier: share.identifier, share: scalars.toBytes(z) }
+    }
+
+    // z_i·B = D_i + ρ_i·E_i + λ_i·c·PK_i. https://www.rfc-editor.org/rfc/rfc9591#section-5.4
+    async function verifySignatureShare(
+        signatureShare: FrostSignatureShare,
+        publicKeyShare: Hex,
+        commitments: FrostCommitment[],
+        groupPublicKey: Hex,
+        message: Uint8Array
+    ): Promise<boolean> {
+        const decoded = decodeCommitments(commitments)
+        const index = indexOf(decoded, signatureShare.identifier)
+        const PK = deserializeElement(publicKeyShare)
+        const z = deserializeScalar(signatureShare.share)
+        const { bindingFactors, challenge } = await signingPackage(decoded, groupKeyBytes(groupPublicKey), message)
+        const lambda = lagrangeCoefficient(
+            scalars,
+            decoded.map((c) => c.identifier),
+            index
+        )
+        const { hiding, binding } = decoded[index]
+        const expected = ExtendedPointClass.multiScalarMul(
+            [scalars.ONE.value, bindingFactors[index].value, scalars.mul(challenge, lambda).value],
+            [hiding, binding, PK]
+        )
+        return samePoint(ExtendedPointClass.multiScalarMul([z.value], [BASE]), expected)
+    }
+
+    // R || Σ z_i. https://www.rfc-editor.org/rfc/rfc9591#section-5.3
+    async function aggregate(
+        commitments: FrostCommitment[],
+        message: Uint8Array,
+        groupPublicKey: Hex,
+        signatureShares: FrostSignatureShare[]
+    ): Promise<Uint8Array> {
+        const decoded = decodeCommitments(commitments)
+        if (
+            signatureShares.length !== decoded.length ||
+            decoded.some((c) => !signatureShares.some((s) => s.identifier === c.identifier))
+        )
+            throw new InvalidArgumentError('frost.aggregate: expected one signature share per commitment')
+        const { groupCommitment } = await signingPackage(decoded, groupKeyBytes(groupPublicKey), message)
+        const z = signatureShares.reduce((sum, s) => scalars.add(sum, deserializeScalar(s.share)), scalars.ZERO)
+        return concatBytes(groupCommitment, scalars.toBytes(z))
+    }
+
+    return { trustedDealerKeygen, vssVerify, deriveGroupInfo, commit, sign, verifySignatureShare, aggregate }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
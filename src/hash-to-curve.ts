@@ -0,0 +1,98 @@
+import { Constants, CurveType } from './curve'
+import { expandMessageXmd, Hash } from './hash'
+import { BigIntType, Integers } from './integers'
+import { MathFunctions } from './math'
+import { ExtendedPointBase, ExtendedPointStatic } from './points'
+import { IntFactory, SerializationFunctions, Utf8OrBytes } from './serialization'
+
+export interface HashToCurveFunctions<BIT extends BigIntType> {
+    // edwards25519_XMD:SHA-512_ELL2_RO_
+    hashToCurve(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<ExtendedPointBase<BIT>>
+    // edwards25519_XMD:SHA-512_ELL2_NU_
+    encodeToCurve(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<ExtendedPointBase<BIT>>
+    hashToField(msg: Utf8OrBytes, DST: Utf8OrBytes, count: number): Promise<BIT[]>
+    mapToCurve(u: BIT): ExtendedPointBase<BIT>
+}
+
+// Hashing to edwards25519 with Elligator 2 on curve25519.
+// https://www.rfc-editor.org/rfc/rfc9380#section-6.8.2
+export function makeHashToCurveFunctions<BIT extends BigIntType>(
+    CURVE: CurveType<BIT>,
+    CONSTANTS: Constants<BIT>,
+    Ints: Integers<BIT>,
+    serializer: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>,
+    toBigInt: IntFactory<BIT>,
+    ExtendedPointClass: ExtendedPointStatic<BIT>,
+    sha512Impl?: Hash
+): HashToCurveFunctions<BIT> {
+    // Montgomery coefficient of curve25519 and the non-square Z of the suite
+    const J = toBigInt(486662)
+    const Z = toBigInt(2)
+    // Security parameter k = 128: L = ceil((ceil(log2(p)) + k) / 8)
+    const L = 48
+    // RFC9380 picks the root of -486664 with sgn0 = 0, the opposite of RFC7748's.
+    const SQRT_M486664 = math.mod(Ints.unaryMinus(CONSTANTS.SQRT_M486664))
+    const ZERO = toBigInt(0)
+    const ONE = toBigInt(1)
+
+    // https://www.rfc-editor.org/rfc/rfc9380#section-5.2
+    async function hashToField(msg: Utf8OrBytes, DST: Utf8OrBytes, count: number): Promise<BIT[]> {
+        const uniform = await expandMessageXmd(msg, DST, count * L, sha512Impl)
+        const u: BIT[] = []
+        for (let i = 0; i < count; i++) {
+            // OS2IP is big-endian
+            const chunk = uniform.slice(i * L, (i + 1) * L).reverse()
+            u.push(math.mod(serializer.bytesToNumberLE(chunk)))
+        }
+        return u
+    }
+
+    // Elligator 2 to curve25519, then the rational map to edwards25519.
+    // https://www.rfc-editor.org/rfc/rfc9380#section-6.7.1
+    function mapToCurve(u: BIT): ExtendedPointBase<BIT> {
+        const denominator = math.mod(Ints.add(ONE, Ints.multiply(Z, math.mod(Ints.multiply(u, u)))))
+        // x1 = -J / (1 + Zu²), or -J when the denominator is zero
+        const x1 = Ints.equal(denominator, ZERO)
+            ? math.mod(Ints.unaryMinus(J))
+            : math.mod(Ints.unaryMinus(Ints.multiply(J, math.invert(denominator))))
+        // g(x) = x³ + Jx² + x
+        const g = (x: BIT) => math.mod(Ints.multiply(x, Ints.add(math.mod(Ints.multiply(x, Ints.add(x, J))), ONE)))
+        const gx1 = g(x1)
+        const x2 = math.mod(Ints.subtract(Ints.unaryMinus(x1), J))
+        const root1 = math.uvRatio(gx1, ONE)
+        let s: BIT
+        let t: BIT
+        // uvRatio returns the root with sgn0 = 0
+        if (root1.isValid) {
+            s = x1
+            t = Ints.equal(root1.value, ZERO) ? ZERO : math.mod(Ints.unaryMinus(root1.value))
+        } else {
+            s = x2
+            t = math.uvRatio(g(x2), ONE).value
+        }
+        // (v, w) = (√(-486664)·s / t, (s - 1) / (s + 1)), and (0, 1) if t = 0 or s = -1
+        const sPlusOne = math.mod(Ints.add(s, ONE))
+        if (Ints.equal(t, ZERO) || Ints.equal(sPlusOne, ZERO)) return ExtendedPointClass.ZERO
+        const [tInv, sPlusOneInv] = math.invertBatch([t, sPlusOne])
+        const v = math.mod(Ints.multiply(Ints.multiply(SQRT_M486664, s), tInv))
+        const w = math.mod(Ints.multiply(Ints.subtract(s, ONE), sPlusOneInv))
+        return new ExtendedPointClass(v, w, ONE, math.mod(Ints.multiply(v, w)))
+    }
+
+    function clearCofactor(p: ExtendedPointBase<BIT>): ExtendedPointBase<BIT> {
+        return p.multiplyUnsafe(CURVE.h)
+    }
+
+    async function hashToCurve(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<ExtendedPointBase<BIT>> {
+        const [u0, u1] = await hashToField(msg, DST, 2)
+        return clearCofactor(mapToCurve(u0).add(mapToCurve(u1)))
+    }
+
+    async function encodeToCurve(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<ExtendedPointBase<BIT>> {
+        const [u0] = await hashToField(msg, DST, 1)
+        return clearCofactor(mapToCurve(u0))
+    }
+
+    return { hashToCurve, encodeToCurve, hashToField, mapToCurve }
+}
@@ -1,7 +1,8 @@
 import { CurveType } from './curve'
-import { concatBytes, SerializationFunctions } from './serialization'
+import { concatBytes, ensureUtf8OrBytes, SerializationFunctions, Utf8OrBytes } from './serialization'
 import { MathFunctions } from './math'
 import { BigIntType } from './integers'
+import { InvalidArgumentError, UnsupportedError } from './errors'
 
 export type Message = string | number[] | ArrayBuffer | Uint8Array
 
@@ -41,10 +42,34 @@ export async function sha512(message: Uint8Array, sha512Impl?: Hash): Promise<Ui
         hash.update(message)
         return Uint8Array.from(hash.digest())
     } else {
-        throw new Error('SHA512 unavailable on platform')
+        throw new UnsupportedError('SHA512 unavailable on platform')
     }
 }
 
+// SHA-256 is only needed for key fingerprints, so it falls back to the platform unless a Hash is given.
+export async function sha256(message: Uint8Array, sha256Impl?: Hash): Promise<Uint8Array> {
+    if (sha256Impl) {
+        return new Uint8Array(sha256Impl.digest(message))
+    } else if (typeof self == 'object' && 'crypto' in self) {
+        const buffer = await self.crypto.subtle.digest('SHA-256', message.buffer)
+        return new Uint8Array(buffer)
+    } else if (typeof process === 'object' && 'node' in process.versions) {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const { createHash } = require('crypto')
+        const hash = createHash('sha256')
+        hash.update(message)
+        return Uint8Array.from(hash.digest())
+    } else {
+        throw new UnsupportedError('SHA256 unavailable on platform')
+    }
+}
+
+// Only an injected Hash can be used synchronously. WebCrypto and the node fallback are async.
+export function sha512Sync(message: Uint8Array, sha512Impl?: Hash): Uint8Array {
+    if (!sha512Impl) throw new UnsupportedError('sha512Sync: pass a synchronous Hash to makeED to use the sync API')
+    return new Uint8Array(sha512Impl.digest(message))
+}
+
 export function makeSha512ToNumberLE<BIT extends BigIntType>(
     serialization: SerializationFunctions<BIT>,
     math: MathFunctions<BIT>,
@@ -58,3 +83,42 @@ export function makeSha512ToNumberLE<BIT extends BigIntType>(
         return math.mod(value, CURVE.n)
     }
 }
+
+export function makeSha512ToNumberLESync<BIT extends BigIntType>(
+    serialization: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>,
+    CURVE: CurveType<BIT>,
+    sha512Impl?: Hash
+) {
+    return (...args: Uint8Array[]): BIT => {
+        const hash = sha512Sync(concatBytes(...args), sha512Impl)
+        return math.mod(serialization.bytesToNumberLE(hash), CURVE.n)
+    }
+}
+
+// expand_message_xmd with SHA-512: b_in_bytes = 64, s_in_bytes = 128.
+// https://www.rfc-editor.org/rfc/rfc9380#section-5.3.1
+export async function expandMessageXmd(
+    msg: Utf8OrBytes,
+    DST: Utf8OrBytes,
+    lenInBytes: number,
+    sha512Impl?: Hash
+): Promise<Uint8Array> {
+    const message = ensureUtf8OrBytes(msg)
+    let dst = ensureUtf8OrBytes(DST)
+    // https://www.rfc-editor.org/rfc/rfc9380#section-5.3.3
+    if (dst.length > 255) dst = await sha512(concatBytes(ensureUtf8OrBytes('H2C-OVERSIZE-DST-'), dst), sha512Impl)
+    const ell = Math.ceil(lenInBytes / 64)
+    if (ell > 255 || lenInBytes > 65535)
+        throw new InvalidArgumentError('expandMessageXmd: requested length is too large')
+    const dstPrime = concatBytes(dst, Uint8Array.from([dst.length]))
+    const zPad = new Uint8Array(128)
+    const libStr = Uint8Array.from([lenInBytes >> 8, lenInBytes & 0xff])
+    const b0 = await sha512(concatBytes(zPad, message, libStr, Uint8Array.from([0]), dstPrime), sha512Impl)
+    const blocks = [await sha512(concatBytes(b0, Uint8Array.from([1]), dstPrime), sha512Impl)]
+    for (let i = 2; i <= ell; i++) {
+        const xored = b0.map((b, j) => b ^ blocks[i - 2][j])
+        blocks.push(await sha512(concatBytes(xored, Uint8Array.from([i]), dstPrime), sha512Impl))
+    }
+    return concatBytes(...blocks).slice(0, lenInBytes)
+}
@@ -8,24 +8,118 @@ import { BigIntType, Integers } from './integers'
 import { makeUtils, UtilsType } from './utils'
 import { makeSigningFunctions, SigningFunctions } from './signing'
 import { Scalars } from './scalars'
+import { makeX25519Functions, X25519Functions } from './x25519'
+import {
+    makeRistretto255Functions,
+    makeRistrettoPointClass,
+    Ristretto255Functions,
+    RistrettoPointStatic,
+} from './ristretto'
+import { HashToCurveFunctions, makeHashToCurveFunctions } from './hash-to-curve'
+import { JwkFunctions, makeJwkFunctions } from './jwk'
+import { JwsFunctions, makeJwsFunctions } from './jws'
+import { CoseFunctions, CoseKeyFunctions, makeCoseFunctions, makeCoseKeyFunctions } from './cose'
+import { makeVrfFunctions, VrfFunctions, VrfSuite } from './vrf'
+import { makeOprfFunctions, OprfFunctions } from './oprf'
+import { FrostFunctions, makeFrostFunctions } from './frost'
+import { makeSecretSharingFunctions, SecretSharingFunctions } from './secret-sharing'
+import { makePedersenFunctions, PedersenCommitmentFunctions } from './pedersen'
 
 export * from './integers'
 export * from './native-bigint'
+export * from './errors'
 export { CurveType, Constants } from './curve'
 export { Message, Hash } from './hash'
-export { Hex, PrivKey, IntFactory } from './serialization'
+export { Hex, PrivKey, IntFactory, Utf8OrBytes } from './serialization'
 export { PointBase, PointStatic, ExtendedPointBase, ExtendedPointStatic } from './points'
-export { SignatureBase, SignatureStatic } from './signing'
+export { SignatureBase, SignatureStatic, VerifyBatchItem, VerifyMode, VerifyOptions } from './signing'
+export { X25519Functions } from './x25519'
+export { RistrettoPointBase, RistrettoPointStatic, Ristretto255Functions } from './ristretto'
+export { HashToCurveFunctions } from './hash-to-curve'
+export { KeyAlgorithm, Pkcs8Key, SpkiKey, OpenSshPublicKey, OpenSshPrivateKey } from './key-formats'
+export { Pkcs8ExportOptions, PublicKeyInput } from './key-utils'
+export { Jwk, JwkKey, DecodedJwk, JwkFunctions } from './jwk'
+export { JwsHeader, DecodedJws, JwsFunctions } from './jws'
+export { CborValue, CborMap, CborTag, cborEncode, cborDecode } from './cbor'
+export { FieldElement } from './field'
+export { Scalar, Scalars } from './scalars'
+export {
+    CoseSign1Options,
+    CoseVerify1Options,
+    DecodedCoseSign1,
+    CoseFunctions,
+    CoseKeyInput,
+    DecodedCoseKey,
+    CoseKeyFunctions,
+} from './cose'
+export { VrfSuite, VrfVerifyOptions, VrfFunctions } from './vrf'
+export {
+    OprfMode,
+    OprfKeyPair,
+    OprfBlindResult,
+    PoprfBlindResult,
+    OprfEvaluation,
+    OprfBatchEvaluation,
+    OprfClient,
+    OprfServer,
+    VoprfClient,
+    VoprfServer,
+    PoprfClient,
+    PoprfServer,
+    OprfFunctions,
+} from './oprf'
+export {
+    FrostKeyShare,
+    FrostKeyGenResult,
+    FrostGroupInfo,
+    FrostCommitment,
+    FrostNonces,
+    FrostSignatureShare,
+    FrostNonceRandomness,
+    FrostFunctions,
+} from './frost'
+export {
+    SecretShare,
+    FeldmanDealing,
+    PedersenDealing,
+    FeldmanFunctions,
+    PedersenFunctions,
+    DkgSecretPackage,
+    DkgBroadcast,
+    DkgShare,
+    DkgRound1,
+    DkgResult,
+    DkgFunctions,
+    SecretSharingFunctions,
+} from './secret-sharing'
+export { PedersenOpening, PedersenCommitmentFunctions } from './pedersen'
 
-export interface Ed25519Type<BIT extends BigIntType> extends SigningFunctions<BIT> {
+export interface Ed25519Type<BIT extends BigIntType> extends SigningFunctions<BIT>, HashToCurveFunctions<BIT> {
     Point: PointStatic<BIT>
     ExtendedPoint: ExtendedPointStatic<BIT>
+    RistrettoPoint: RistrettoPointStatic<BIT>
+    ristretto255: Ristretto255Functions<BIT>
     math: MathFunctions<BIT>
     keyUtils: KeyUtils<BIT>
     CURVE: CurveType<BIT>
     utils: UtilsType
     Ints: Integers<BIT>
     scalars: Scalars<BIT>
+    x25519: X25519Functions
+    jwk: JwkFunctions<BIT>
+    jws: JwsFunctions<BIT>
+    cose: CoseFunctions<BIT>
+    coseKey: CoseKeyFunctions<BIT>
+    // ECVRF-EDWARDS25519-SHA512-TAI and -ELL2
+    vrf: { tai: VrfFunctions<BIT>; ell2: VrfFunctions<BIT> }
+    // OPRF, VOPRF and POPRF over ristretto255-SHA512
+    oprf: OprfFunctions<BIT>
+    // FROST(Ed25519, SHA-512) threshold signatures
+    frost: FrostFunctions<BIT>
+    // Shamir's secret sharing, Feldman and Pedersen VSS and a DKG
+    secretSharing: SecretSharingFunctions<BIT>
+    // Pedersen commitments over ristretto255
+    pedersen: PedersenCommitmentFunctions<BIT>
 }
 
 // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
@@ -35,43 +129,129 @@ export function makeED<BIT extends BigIntType>(Ints: Integers<BIT>, sha512Impl?:
     const CURVE = makeCurve(toBigInt)
     const CONSTANTS = makeConstants(toBigInt)
     const math = new MathFunctions(Ints, CURVE, CONSTANTS)
-    const keyUtils = new KeyUtils(Ints, CURVE, serializer, math)
     const scalars = new Scalars(Ints, CURVE, serializer, math)
 
     // Default Point works in default aka affine coordinates: (x, y)
     // Extended Point works in extended coordinates: (x, y, z, t) ∋ (x=x/z, y=y/z, t=xy)
     // https://en.wikipedia.org/wiki/Twisted_Edwards_curve#Extended_coordinates
     const ExtendedPoint = makeExtendedPointClass(CURVE, CONSTANTS, Ints, serializer, math, toBigInt)
+    const keyUtils = new KeyUtils(Ints, CURVE, serializer, math, ExtendedPoint, sha512Impl)
 
-    const Point = makePointClass(CURVE, Ints, serializer, math, keyUtils, toBigInt, ExtendedPoint, sha512Impl)
+    // Ristretto Point works in the prime order group ristretto255, wrapping an Extended Point representative
+    const RistrettoPoint = makeRistrettoPointClass(CURVE, Ints, serializer, math, toBigInt, ExtendedPoint)
+    const ristretto255 = makeRistretto255Functions(CURVE, serializer, math, RistrettoPoint, sha512Impl)
 
-    const utils = { ...makeUtils(CURVE, Ints, serializer), precompute: Point.precompute }
-    const { Signature, sign, verify, getPublicKey } = makeSigningFunctions(
+    const Point = makePointClass(
         CURVE,
+        CONSTANTS,
         Ints,
         serializer,
         math,
         keyUtils,
         toBigInt,
+        ExtendedPoint,
+        sha512Impl
+    )
+
+    const utils = { ...makeUtils(CURVE, Ints, serializer), precompute: Point.precompute }
+    const {
+        Signature,
+        sign,
+        verify,
+        verifyBatch,
+        signCtx,
+        verifyCtx,
+        signPh,
+        verifyPh,
+        getPublicKey,
+        signSync,
+        verifySync,
+        getPublicKeySync,
+    } = makeSigningFunctions(CURVE, Ints, serializer, math, keyUtils, toBigInt, Point, ExtendedPoint, sha512Impl)
+
+    const x25519 = makeX25519Functions(Ints, serializer, math)
+    const jwk = makeJwkFunctions(Point, keyUtils)
+    const jws = makeJwsFunctions({ sign, verify })
+    const cose = makeCoseFunctions({ sign, verify })
+    const coseKey = makeCoseKeyFunctions(Point, keyUtils)
+    const { hashToCurve, encodeToCurve, hashToField, mapToCurve } = makeHashToCurveFunctions(
+        CURVE,
+        CONSTANTS,
+        Ints,
+        serializer,
+        math,
+        toBigInt,
+        ExtendedPoint,
+        sha512Impl
+    )
+
+    const makeVrf = (suite: VrfSuite) =>
+        makeVrfFunctions(
+            suite,
+            CURVE,
+            Ints,
+            serializer,
+            math,
+            keyUtils,
+            Point,
+            ExtendedPoint,
+            encodeToCurve,
+            sha512Impl
+        )
+    const vrf = { tai: makeVrf('TAI'), ell2: makeVrf('ELL2') }
+    const oprf = makeOprfFunctions(scalars, ExtendedPoint, sha512Impl)
+    const frost = makeFrostFunctions(CURVE, serializer, math, scalars, Point, ExtendedPoint, sha512Impl)
+    const secretSharing = makeSecretSharingFunctions(
+        CURVE,
+        serializer,
+        math,
+        scalars,
         Point,
         ExtendedPoint,
+        hashToCurve,
         sha512Impl
     )
+    const pedersen = makePedersenFunctions(ExtendedPoint, sha512Impl)
 
-    // Enable precomputes. Slows down first publicKey computation by 20ms.
+    // Enable precomputes. The tables of BASE are prebuilt, so the first key operation only has to load them.
     Point.BASE._setWindowSize(8)
+    RistrettoPoint.BASE._setWindowSize(8)
     return {
         Point,
         ExtendedPoint,
+        RistrettoPoint,
+        ristretto255,
         utils,
         math,
         CURVE,
         sign,
         verify,
+        verifyBatch,
+        signCtx,
+        verifyCtx,
+        signPh,
+        verifyPh,
         getPublicKey,
+        signSync,
+        verifySync,
+        getPublicKeySync,
         Signature,
+        hashToCurve,
+        encodeToCurve,
+        hashToField,
+        mapToCurve,
         keyUtils,
         Ints,
         scalars,
+        x25519,
+        jwk,
+        jws,
+        cose,
+        coseKey,
+        vrf,
+        oprf,
+        frost,
+        secretSharing,
+        pedersen,
     }
 }
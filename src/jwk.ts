@@ -0,0 +1,75 @@
+import { Hash, sha256 } from './hash'
+import { BigIntType } from './integers'
+import { KeyAlgorithm } from './key-formats'
+import { KeyUtils, okpPublicKeyBytes } from './key-utils'
+import { PointBase, PointStatic } from './points'
+import { B32, base64UrlToBytes, bytesToBase64Url, Hex, PrivKey, utf8ToBytes } from './serialization'
+import { InvalidEncodingError, InvalidKeyLengthError, UnsupportedError } from './errors'
+
+// Octet key pair JWK. https://www.rfc-editor.org/rfc/rfc8037#section-2
+export interface Jwk {
+    kty: 'OKP'
+    crv: KeyAlgorithm
+    x: string
+    d?: string
+    [member: string]: unknown
+}
+
+export interface JwkKey<BIT extends BigIntType> {
+    publicKey: Hex | PointBase<BIT>
+    privateKey?: PrivKey<BIT>
+}
+
+export interface DecodedJwk {
+    crv: KeyAlgorithm
+    publicKey: Uint8Array
+    privateKey?: Uint8Array
+}
+
+export interface JwkFunctions<BIT extends BigIntType> {
+    // The private key JWK when a private key is given, the public key JWK otherwise.
+    // For X25519, a Point is written as its u-coordinate.
+    toJwk(key: JwkKey<BIT>, crv?: KeyAlgorithm): Jwk
+    fromJwk(jwk: Jwk): DecodedJwk
+    // RFC 7638 thumbprint as base64url. SHA-256 comes from the platform unless hashImpl is given, which may also be
+    // another hash such as SHA-512.
+    thumbprint(jwk: Jwk, hashImpl?: Hash): Promise<string>
+}
+
+export function makeJwkFunctions<BIT extends BigIntType>(
+    PointClass: PointStatic<BIT>,
+    keyUtils: KeyUtils<BIT>
+): JwkFunctions<BIT> {
+    function toJwk({ publicKey, privateKey }: JwkKey<BIT>, crv: KeyAlgorithm = 'Ed25519'): Jwk {
+        if (crv !== 'Ed25519' && crv !== 'X25519') throw new UnsupportedError(`toJwk: unsupported curve ${crv}`)
+        const jwk: Jwk = { kty: 'OKP', crv, x: bytesToBase64Url(okpPublicKeyBytes(publicKey, crv, 'toJwk')) }
+        if (privateKey !== undefined) jwk.d = bytesToBase64Url(keyUtils.normalizePrivateKey(privateKey))
+        return jwk
+    }
+
+    // Ed25519 public keys must decode to a curve point. The private key isn't checked against x.
+    function fromJwk(jwk: Jwk): DecodedJwk {
+        if (jwk.kty !== 'OKP') throw new UnsupportedError('fromJwk: expected kty OKP')
+        if (jwk.crv !== 'Ed25519' && jwk.crv !== 'X25519')
+            throw new UnsupportedError(`fromJwk: unsupported curve ${jwk.crv}`)
+        if (typeof jwk.x !== 'string') throw new InvalidEncodingError('fromJwk: missing x')
+        const publicKey = base64UrlToBytes(jwk.x)
+        if (publicKey.length !== B32) throw new InvalidKeyLengthError('fromJwk: expected 32 bytes of public key')
+        if (jwk.crv === 'Ed25519') PointClass.fromHex(publicKey)
+        const decoded: DecodedJwk = { crv: jwk.crv, publicKey }
+        if (jwk.d !== undefined) {
+            decoded.privateKey = keyUtils.normalizePrivateKey(base64UrlToBytes(jwk.d))
+        }
+        return decoded
+    }
+
+    // The required members crv, kty and x in lexicographic order, without whitespace.
+    // https://www.rfc-editor.org/rfc/rfc8037#appendix-A.3
+    async function thumbprint(jwk: Jwk, hashImpl?: Hash): Promise<string> {
+        const { crv, publicKey } = fromJwk(jwk)
+        const json = JSON.stringify({ crv, kty: 'OKP', x: bytesToBase64Url(publicKey) })
+        return bytesToBase64Url(await sha256(utf8ToBytes(json), hashImpl))
+    }
+
+    return { toJwk, fromJwk, thumbprint }
+}
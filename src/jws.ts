@@ -0,0 +1,73 @@
+import { BigIntType } from './integers'
+import {
+    base64UrlToBytes,
+    bytesToBase64Url,
+    bytesToUtf8,
+    ensureUtf8OrBytes,
+    Hex,
+    Utf8OrBytes,
+    utf8ToBytes,
+} from './serialization'
+import { PubKey, SigningFunctions, VerifyOptions } from './signing'
+import { InvalidArgumentError, InvalidEncodingError, InvalidSignatureError, UnsupportedError } from './errors'
+
+export type JwsHeader = Record<string, unknown>
+
+export interface DecodedJws {
+    header: JwsHeader
+    payload: Uint8Array
+}
+
+export interface JwsFunctions<BIT extends BigIntType> {
+    // Compact serialization. alg is always EdDSA and is added to the protected header.
+    sign(payload: Utf8OrBytes, privateKey: Hex, header?: JwsHeader): Promise<string>
+    // Resolves to the protected header and payload. Rejects malformed tokens and bad signatures.
+    verify(token: string, publicKey: PubKey<BIT>, options?: VerifyOptions): Promise<DecodedJws>
+}
+
+const JWS_ALG = 'EdDSA'
+
+// JWS with EdDSA: https://www.rfc-editor.org/rfc/rfc8037#section-3.1
+// The compact serialization: https://www.rfc-editor.org/rfc/rfc7515#section-7.1
+export function makeJwsFunctions<BIT extends BigIntType>(
+    signing: Pick<SigningFunctions<BIT>, 'sign' | 'verify'>
+): JwsFunctions<BIT> {
+    async function sign(payload: Utf8OrBytes, privateKey: Hex, header: JwsHeader = {}): Promise<string> {
+        if ('alg' in header && header.alg !== JWS_ALG)
+            throw new InvalidArgumentError(`jws.sign: alg must be ${JWS_ALG}`)
+        const encodedHeader = bytesToBase64Url(utf8ToBytes(JSON.stringify({ ...header, alg: JWS_ALG })))
+        const signingInput = `${encodedHeader}.${bytesToBase64Url(ensureUtf8OrBytes(payload))}`
+        const signature = await signing.sign(utf8ToBytes(signingInput), privateKey)
+        return `${signingInput}.${bytesToBase64Url(signature)}`
+    }
+
+    async function verify(token: string, publicKey: PubKey<BIT>, options?: VerifyOptions): Promise<DecodedJws> {
+        if (typeof token !== 'string') throw new InvalidEncodingError('jws.verify: expected string')
+        const segments = token.split('.')
+        if (segments.length !== 3) throw new InvalidEncodingError('jws.verify: expected three segments')
+        const [encodedHeader, encodedPayload, encodedSignature] = segments
+        let header: JwsHeader
+        try {
+            header = JSON.parse(bytesToUtf8(base64UrlToBytes(encodedHeader)))
+        } catch (e) {
+            throw new InvalidEncodingError('jws.verify: malformed header')
+        }
+        if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+            throw new InvalidEncodingError('jws.verify: malformed header')
+        }
+        // The algorithm comes from the key, never from the token.
+        if (header.alg !== JWS_ALG) throw new UnsupportedError(`jws.verify: expected alg ${JWS_ALG}`)
+        // No extensions are understood, so any critical one must be rejected. RFC7515 4.1.11
+        if ('crit' in header) throw new UnsupportedError('jws.verify: unsupported critical header parameters')
+        const payload = base64UrlToBytes(encodedPayload)
+        const signature = base64UrlToBytes(encodedSignature)
+        if (signature.length !== 64) throw new InvalidSignatureError('jws.verify: expected 64 bytes of signature')
+        const signingInput = utf8ToBytes(`${encodedHeader}.${encodedPayload}`)
+        if (!(await signing.verify(signature, signingInput, publicKey, options))) {
+            throw new InvalidSignatureError('jws.verify: invalid signature')
+        }
+        return { header, payload }
+    }
+
+    return { sign, verify }
+}
@@ -0,0 +1,261 @@
+import { decodePem, derDecode, derDecodeAll, derEncode, DER_TAGS, encodePem } from './der'
+import {
+    B32,
+    base64ToBytes,
+    bytesToBase64,
+    bytesToHex,
+    bytesToUtf8,
+    concatBytes,
+    hexToBytes,
+    utf8ToBytes,
+} from './serialization'
+import { InvalidEncodingError, InvalidKeyError, InvalidKeyLengthError, UnsupportedError } from './errors'
+
+// Key encodings used to exchange keys with other libraries.
+
+export type KeyAlgorithm = 'Ed25519' | 'X25519'
+
+export interface Pkcs8Key {
+    algorithm: KeyAlgorithm
+    // The 32 byte seed for Ed25519, the 32 byte scalar for X25519
+    privateKey: Uint8Array
+    publicKey?: Uint8Array
+}
+
+export interface SpkiKey {
+    algorithm: KeyAlgorithm
+    publicKey: Uint8Array
+}
+
+// id-X25519 is 1.3.101.110 and id-Ed25519 is 1.3.101.112. https://www.rfc-editor.org/rfc/rfc8410#section-3
+const ALGORITHM_OIDS: Record<KeyAlgorithm, string> = { X25519: '2b656e', Ed25519: '2b6570' }
+
+// Context specific tags of OneAsymmetricKey: attributes [0] and publicKey [1] IMPLICIT BIT STRING
+const ATTRIBUTES_TAG = 0xa0
+const PUBLIC_KEY_TAG = 0x81
+
+// AlgorithmIdentifier. The parameters must be absent for these algorithms.
+function encodeAlgorithm(algorithm: KeyAlgorithm): Uint8Array {
+    const oid = ALGORITHM_OIDS[algorithm]
+    if (!oid) throw new UnsupportedError(`Unsupported key algorithm ${algorithm}`)
+    return derEncode(DER_TAGS.SEQUENCE, derEncode(DER_TAGS.OID, hexToBytes(oid)))
+}
+
+function decodeAlgorithm(bytes: Uint8Array): KeyAlgorithm {
+    const oid = bytesToHex(derDecode(bytes, DER_TAGS.OID))
+    const algorithm = (Object.keys(ALGORITHM_OIDS) as KeyAlgorithm[]).find((alg) => ALGORITHM_OIDS[alg] === oid)
+    if (!algorithm) throw new UnsupportedError(`Unsupported key algorithm OID ${oid}`)
+    return algorithm
+}
+
+function checkKeyLength(key: Uint8Array, name: string): Uint8Array {
+    if (key.length !== B32) throw new InvalidKeyLengthError(`Expected 32 bytes of ${name}`)
+    return key
+}
+
+// BIT STRING with no unused bits.
+function encodeBitString(tag: number, bytes: Uint8Array): Uint8Array {
+    return derEncode(tag, Uint8Array.from([0]), bytes)
+}
+
+function decodeBitString(bytes: Uint8Array): Uint8Array {
+    if (bytes[0] !== 0) throw new InvalidEncodingError('DER: expected a BIT STRING without unused bits')
+    return bytes.slice(1)
+}
+
+// OneAsymmetricKey from RFC 5958: version 1 (v1, PKCS#8) without a public key, version 2 with one.
+// https://www.rfc-editor.org/rfc/rfc8410#section-7
+export function encodePkcs8({ algorithm, privateKey, publicKey }: Pkcs8Key): Uint8Array {
+    const parts = [
+        derEncode(DER_TAGS.INTEGER, Uint8Array.from([publicKey ? 1 : 0])),
+        encodeAlgorithm(algorithm),
+        // CurvePrivateKey ::= OCTET STRING, wrapped in the privateKey OCTET STRING
+        derEncode(DER_TAGS.OCTET_STRING, derEncode(DER_TAGS.OCTET_STRING, checkKeyLength(privateKey, 'private key'))),
+    ]
+    if (publicKey) parts.push(encodeBitString(PUBLIC_KEY_TAG, checkKeyLength(publicKey, 'public key')))
+    return derEncode(DER_TAGS.SEQUENCE, ...parts)
+}
+
+export function decodePkcs8(der: Uint8Array): Pkcs8Key {
+    const [version, algorithmId, privateKey, ...optional] = derDecodeAll(derDecode(der, DER_TAGS.SEQUENCE))
+    if (!privateKey || version.tag !== DER_TAGS.INTEGER || algorithmId.tag !== DER_TAGS.SEQUENCE) {
+        throw new InvalidEncodingError('PKCS#8: malformed OneAsymmetricKey')
+    }
+    const v = bytesToHex(version.value)
+    if (v !== '00' && v !== '01') throw new UnsupportedError('PKCS#8: unsupported version')
+    if (privateKey.tag !== DER_TAGS.OCTET_STRING) throw new InvalidEncodingError('PKCS#8: malformed OneAsymmetricKey')
+    const key: Pkcs8Key = {
+        algorithm: decodeAlgorithm(algorithmId.value),
+        privateKey: checkKeyLength(derDecode(privateKey.value, DER_TAGS.OCTET_STRING), 'private key'),
+    }
+    let last = 0
+    for (const { tag, value } of optional) {
+        const order = tag === ATTRIBUTES_TAG ? 1 : tag === PUBLIC_KEY_TAG ? 2 : 0
+        if (order <= last) throw new InvalidEncodingError('PKCS#8: malformed OneAsymmetricKey')
+        last = order
+        if (tag === PUBLIC_KEY_TAG) {
+            if (v !== '01') throw new InvalidEncodingError('PKCS#8: a public key needs version 2')
+            key.publicKey = checkKeyLength(decodeBitString(value), 'public key')
+        }
+    }
+    return key
+}
+
+// SubjectPublicKeyInfo. https://www.rfc-editor.org/rfc/rfc8410#section-4
+export function encodeSpki({ algorithm, publicKey }: SpkiKey): Uint8Array {
+    const bitString = encodeBitString(DER_TAGS.BIT_STRING, checkKeyLength(publicKey, 'public key'))
+    return derEncode(DER_TAGS.SEQUENCE, encodeAlgorithm(algorithm), bitString)
+}
+
+export function decodeSpki(der: Uint8Array): SpkiKey {
+    const children = derDecodeAll(derDecode(der, DER_TAGS.SEQUENCE))
+    if (children.length !== 2 || children[0].tag !== DER_TAGS.SEQUENCE || children[1].tag !== DER_TAGS.BIT_STRING) {
+        throw new InvalidEncodingError('SPKI: malformed SubjectPublicKeyInfo')
+    }
+    return {
+        algorithm: decodeAlgorithm(children[0].value),
+        publicKey: checkKeyLength(decodeBitString(children[1].value), 'public key'),
+    }
+}
+
+// OpenSSH keys. The wire format is described in RFC 4251 5, the ssh-ed25519 key type in RFC 8709
+// and the private key container in PROTOCOL.key of OpenSSH.
+
+export interface OpenSshPublicKey {
+    publicKey: Uint8Array
+    comment: string
+}
+
+export interface OpenSshPrivateKey {
+    // The 32 byte seed
+    privateKey: Uint8Array
+    publicKey: Uint8Array
+    comment: string
+}
+
+const SSH_ED25519 = 'ssh-ed25519'
+const OPENSSH_KEY_V1 = 'openssh-key-v1\0'
+
+// uint32 length followed by the bytes
+function sshString(data: Uint8Array | string): Uint8Array {
+    const bytes = typeof data === 'string' ? utf8ToBytes(data) : data
+    return concatBytes(sshUint32(bytes.length), bytes)
+}
+
+function sshUint32(n: number): Uint8Array {
+    return Uint8Array.from([n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff])
+}
+
+class SshReader {
+    private offset = 0
+    constructor(private bytes: Uint8Array) {}
+
+    uint32(): number {
+        if (this.bytes.length < this.offset + 4) throw new InvalidEncodingError('OpenSSH: unexpected end of input')
+        const b = this.bytes.slice(this.offset, (this.offset += 4))
+        return ((b[0] << 24) | (b[1] << 16) | (b[2] << 8) | b[3]) >>> 0
+    }
+
+    read(length: number): Uint8Array {
+        if (this.bytes.length < this.offset + length) throw new InvalidEncodingError('OpenSSH: unexpected end of input')
+        return this.bytes.slice(this.offset, (this.offset += length))
+    }
+
+    string(): Uint8Array {
+        return this.read(this.uint32())
+    }
+
+    text(): string {
+        return bytesToUtf8(this.string())
+    }
+
+    rest(): Uint8Array {
+        return this.read(this.bytes.length - this.offset)
+    }
+}
+
+// The public key blob: string "ssh-ed25519" || string key
+export function encodeSshPublicKeyBlob(publicKey: Uint8Array): Uint8Array {
+    return concatBytes(sshString(SSH_ED25519), sshString(checkKeyLength(publicKey, 'public key')))
+}
+
+function decodeSshPublicKeyBlob(reader: SshReader): Uint8Array {
+    if (reader.text() !== SSH_ED25519) throw new InvalidEncodingError('OpenSSH: expected an ssh-ed25519 key')
+    return checkKeyLength(reader.string(), 'public key')
+}
+
+// A line of authorized_keys or a .pub file: ssh-ed25519 AAAA… comment
+export function encodeOpenSshPublicKey({ publicKey, comment }: OpenSshPublicKey): string {
+    const line = `${SSH_ED25519} ${bytesToBase64(encodeSshPublicKeyBlob(publicKey))}`
+    return comment ? `${line} ${comment}` : line
+}
+
+export function decodeOpenSshPublicKey(line: string): OpenSshPublicKey {
+    const [type, blob, ...comment] = line.trim().split(/\s+/)
+    if (type !== SSH_ED25519 || !blob) throw new InvalidEncodingError('OpenSSH: expected an ssh-ed25519 key')
+    const reader = new SshReader(base64ToBytes(blob))
+    const publicKey = decodeSshPublicKeyBlob(reader)
+    if (reader.rest().length) throw new InvalidEncodingError('OpenSSH: trailing data in public key')
+    return { publicKey, comment: comment.join(' ') }
+}
+
+// Unencrypted openssh-key-v1 holding a single key. checkint is normally random.
+export function encodeOpenSshPrivateKey(key: OpenSshPrivateKey, checkint: Uint8Array): string {
+    const { privateKey, publicKey, comment } = key
+    const blob = encodeSshPublicKeyBlob(publicKey)
+    let secret = concatBytes(
+        checkint,
+        checkint,
+        sshString(SSH_ED25519),
+        sshString(publicKey),
+        // Like libsodium's secret key: seed || public key
+        sshString(concatBytes(checkKeyLength(privateKey, 'private key'), publicKey)),
+        sshString(comment)
+    )
+    // Padded with 1, 2, 3… to the cipher block size, which is 8 without encryption.
+    const padding = Uint8Array.from({ length: (8 - (secret.length % 8)) % 8 }, (_, i) => i + 1)
+    secret = concatBytes(secret, padding)
+    const body = concatBytes(
+        utf8ToBytes(OPENSSH_KEY_V1),
+        sshString('none'),
+        sshString('none'),
+        sshString(new Uint8Array(0)),
+        sshUint32(1),
+        sshString(blob),
+        sshString(secret)
+    )
+    return encodePem('OPENSSH PRIVATE KEY', body, 70)
+}
+
+export function decodeOpenSshPrivateKey(pem: string): OpenSshPrivateKey {
+    const bytes = decodePem('OPENSSH PRIVATE KEY', pem)
+    const magic = utf8ToBytes(OPENSSH_KEY_V1)
+    if (bytesToHex(bytes.slice(0, magic.length)) !== bytesToHex(magic))
+        throw new InvalidEncodingError('OpenSSH: expected openssh-key-v1')
+    const reader = new SshReader(bytes.slice(magic.length))
+    const cipher = reader.text()
+    const kdf = reader.text()
+    reader.string() // kdf options
+    if (cipher !== 'none' || kdf !== 'none') throw new UnsupportedError('OpenSSH: encrypted keys are not supported')
+    if (reader.uint32() !== 1) throw new UnsupportedError('OpenSSH: expected a single key')
+    const publicKey = decodeSshPublicKeyBlob(new SshReader(reader.string()))
+    const secret = new SshReader(reader.string())
+    if (reader.rest().length) throw new InvalidEncodingError('OpenSSH: trailing data in private key')
+    if (secret.uint32() !== secret.uint32()) throw new InvalidEncodingError('OpenSSH: checkint mismatch')
+    if (bytesToHex(decodeSshPublicKeyBlob(secret)) !== bytesToHex(publicKey)) {
+        throw new InvalidKeyError('OpenSSH: public keys do not match')
+    }
+    const secretKey = secret.string()
+    if (secretKey.length !== B32 * 2 || bytesToHex(secretKey.slice(B32)) !== bytesToHex(publicKey)) {
+        throw new InvalidEncodingError('OpenSSH: malformed private key')
+    }
+    const comment = secret.text()
+    const padding = secret.rest()
+    if (padding.length >= 8 || padding.some((b, i) => b !== i + 1))
+        throw new InvalidEncodingError('OpenSSH: invalid padding')
+    return {
+        privateKey: secretKey.slice(0, B32),
+        publicKey,
+        comment,
+    }
+}
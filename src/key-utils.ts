@@ -1,14 +1,55 @@
 import { CurveType } from './curve'
-import { B32, hexToBytes, PrivKey, SerializationFunctions } from './serialization'
+import {
+    B32,
+    bytesToBase64,
+    bytesToHex,
+    ensureBytes,
+    Hex,
+    hexToBytes,
+    PrivKey,
+    SerializationFunctions,
+} from './serialization'
 import { MathFunctions } from './math'
 import { BigIntType, Integers } from './integers'
+import { ExtendedPointStatic, PointBase } from './points'
+import { Hash, sha256, sha512 } from './hash'
+import { decodePem, encodePem } from './der'
+import {
+    decodeOpenSshPrivateKey,
+    decodeOpenSshPublicKey,
+    decodePkcs8,
+    decodeSpki,
+    encodeOpenSshPrivateKey,
+    encodeOpenSshPublicKey,
+    encodePkcs8,
+    encodeSpki,
+    encodeSshPublicKeyBlob,
+    KeyAlgorithm,
+    OpenSshPrivateKey,
+    OpenSshPublicKey,
+    Pkcs8Key,
+    SpkiKey,
+} from './key-formats'
+import { randomBytes } from './utils'
+import { InvalidKeyError, InvalidKeyLengthError } from './errors'
+
+// A raw 32 byte public key, or a point
+export type PublicKeyInput = Hex | { toRawBytes(): Uint8Array }
+
+export interface Pkcs8ExportOptions {
+    algorithm?: KeyAlgorithm
+    // Embeds the public key, which makes it a version 2 OneAsymmetricKey
+    publicKey?: Hex
+}
 
 export class KeyUtils<BIT extends BigIntType> {
     constructor(
         private Ints: Integers<BIT>,
         private CURVE: CurveType<BIT>,
         private serializer: SerializationFunctions<BIT>,
-        private math: MathFunctions<BIT>
+        private math: MathFunctions<BIT>,
+        private ExtendedPoint: ExtendedPointStatic<BIT>,
+        private sha512Impl?: Hash
     ) {}
 
     toBigInt(n: number | string): BIT {
@@ -28,6 +69,17 @@ export class KeyUtils<BIT extends BigIntType> {
         return this.math.mod(this.serializer.bytesToNumberLE(head), this.CURVE.n)
     }
 
+    // Converts an Ed25519 seed to the X25519 private key with the same public key on the Montgomery curve.
+    // Matches libsodium's crypto_sign_ed25519_sk_to_curve25519: the clamped first half of SHA-512(seed).
+    async toX25519PrivateKey(seed: PrivKey<BIT>): Promise<Uint8Array> {
+        const privBytes = await sha512(this.normalizePrivateKey(seed), this.sha512Impl)
+        const head = privBytes.slice(0, B32)
+        head[0] &= 248
+        head[B32 - 1] &= 127
+        head[B32 - 1] |= 64
+        return head
+    }
+
     normalizePrivateKey(key: PrivKey<BIT>): Uint8Array {
         let num: BIT
         if (
@@ -40,17 +92,133 @@ export class KeyUtils<BIT extends BigIntType> {
                 this.Ints.lessThan(num, this.toBigInt(0)) ||
                 this.Ints.greaterThan(num, this.Ints.exponentiate(this.toBigInt(2), this.toBigInt(256)))
             )
-                throw new Error('Expected 32 bytes of private key')
+                throw new InvalidKeyLengthError('Expected 32 bytes of private key')
             key = num.toString(16).padStart(B32 * 2, '0')
         }
         if (typeof key === 'string') {
-            if (key.length !== 64) throw new Error('Expected 32 bytes of private key')
+            if (key.length !== 64) throw new InvalidKeyLengthError('Expected 32 bytes of private key')
             return hexToBytes(key)
         } else if (key instanceof Uint8Array) {
-            if (key.length !== 32) throw new Error('Expected 32 bytes of private key')
+            if (key.length !== 32) throw new InvalidKeyLengthError('Expected 32 bytes of private key')
             return key
         } else {
-            throw new TypeError('Expected valid private key')
+            throw new InvalidKeyError('Expected valid private key')
         }
     }
+
+    // PKCS#8 and SPKI encodings from RFC 8410, as used by OpenSSL, Java and Go.
+    // The private key is the 32 byte seed for Ed25519 and the 32 byte scalar for X25519.
+    exportPkcs8(privateKey: PrivKey<BIT>, options: Pkcs8ExportOptions = {}): Uint8Array {
+        const { algorithm = 'Ed25519', publicKey } = options
+        return encodePkcs8({
+            algorithm,
+            privateKey: this.normalizePrivateKey(privateKey),
+            publicKey: publicKey === undefined ? undefined : ensureBytes(publicKey),
+        })
+    }
+
+    // Throws InvalidKeyError when an embedded public key isn't the one of the private key.
+    async importPkcs8(der: Uint8Array): Promise<Pkcs8Key> {
+        const key = decodePkcs8(der)
+        if (key.publicKey === undefined) return key
+        const derived =
+            key.algorithm === 'X25519'
+                ? this.x25519PublicKey(key.privateKey)
+                : await this.ed25519PublicKey(key.privateKey)
+        if (bytesToHex(derived) !== bytesToHex(key.publicKey))
+            throw new InvalidKeyError('PKCS#8: public key does not match the private key')
+        return key
+    }
+
+    exportSpki(publicKey: Hex, algorithm: KeyAlgorithm = 'Ed25519'): Uint8Array {
+        return encodeSpki({ algorithm, publicKey: ensureBytes(publicKey) })
+    }
+
+    importSpki(der: Uint8Array): SpkiKey {
+        return decodeSpki(der)
+    }
+
+    exportPkcs8Pem(privateKey: PrivKey<BIT>, options: Pkcs8ExportOptions = {}): string {
+        return encodePem('PRIVATE KEY', this.exportPkcs8(privateKey, options))
+    }
+
+    importPkcs8Pem(pem: string): Promise<Pkcs8Key> {
+        return this.importPkcs8(decodePem('PRIVATE KEY', pem))
+    }
+
+    exportSpkiPem(publicKey: Hex, algorithm: KeyAlgorithm = 'Ed25519'): string {
+        return encodePem('PUBLIC KEY', this.exportSpki(publicKey, algorithm))
+    }
+
+    importSpkiPem(pem: string): SpkiKey {
+        return this.importSpki(decodePem('PUBLIC KEY', pem))
+    }
+
+    // OpenSSH formats for ssh-ed25519 keys, as found in authorized_keys and id_ed25519.
+    toOpenSshPublicKey(publicKey: PublicKeyInput, comment = ''): string {
+        return encodeOpenSshPublicKey({ publicKey: publicKeyBytes(publicKey), comment })
+    }
+
+    fromOpenSshPublicKey(line: string): OpenSshPublicKey {
+        return decodeOpenSshPublicKey(line)
+    }
+
+    // Writes an unencrypted openssh-key-v1 private key. The public key the file also holds is derived from the seed.
+    async toOpenSshPrivateKey(seed: PrivKey<BIT>, comment = ''): Promise<string> {
+        const privateKey = this.normalizePrivateKey(seed)
+        const key = { privateKey, publicKey: await this.ed25519PublicKey(privateKey), comment }
+        return encodeOpenSshPrivateKey(key, randomBytes(4))
+    }
+
+    // Throws InvalidKeyError when the public key in the file isn't the one of the seed.
+    async fromOpenSshPrivateKey(pem: string): Promise<OpenSshPrivateKey> {
+        const key = decodeOpenSshPrivateKey(pem)
+        if (bytesToHex(await this.ed25519PublicKey(key.privateKey)) !== bytesToHex(key.publicKey))
+            throw new InvalidKeyError('OpenSSH: public key does not match the private key')
+        return key
+    }
+
+    // SHA256:… fingerprint of the public key blob, as printed by ssh-keygen -l.
+    // SHA-256 comes from the platform unless sha256Impl is given.
+    async openSshFingerprint(publicKey: PublicKeyInput, sha256Impl?: Hash): Promise<string> {
+        const digest = await sha256(encodeSshPublicKeyBlob(publicKeyBytes(publicKey)), sha256Impl)
+        return 'SHA256:' + bytesToBase64(digest).replace(/=+$/, '')
+    }
+
+    // The encoded public key of a seed, as getPublicKey returns it
+    private async ed25519PublicKey(seed: Uint8Array): Promise<Uint8Array> {
+        const privBytes = await sha512(seed, this.sha512Impl)
+        const { x, y } = this.ExtendedPoint.BASE.multiply(this.encodePrivate(privBytes)).toAffine()
+        const bytes = this.serializer.numberToBytesPadded(y, B32)
+        if (this.Ints.NE(this.Ints.bitwiseAnd(x, this.toBigInt(1)), 0)) bytes[B32 - 1] |= 0x80
+        return bytes
+    }
+
+    // The u-coordinate of the clamped scalar times the base point, as x25519.getPublicKey returns it
+    private x25519PublicKey(scalar: Uint8Array): Uint8Array {
+        const { y } = this.ExtendedPoint.BASE.multiply(this.encodePrivate(scalar)).toAffine()
+        const one = this.toBigInt(1)
+        const u = this.math.mod(this.Ints.multiply(this.Ints.add(one, y), this.math.invert(this.Ints.subtract(one, y))))
+        return this.serializer.numberToBytesPadded(u, B32)
+    }
+}
+
+function publicKeyBytes(publicKey: PublicKeyInput): Uint8Array {
+    return typeof publicKey === 'string' || publicKey instanceof Uint8Array
+        ? ensureBytes(publicKey)
+        : publicKey.toRawBytes()
+}
+
+// The x of an OKP key (JWK, COSE_Key). A point is written in the encoding of crv: its Ed25519 encoding, or its
+// u-coordinate for X25519.
+export function okpPublicKeyBytes<BIT extends BigIntType>(
+    publicKey: Hex | PointBase<BIT>,
+    crv: KeyAlgorithm,
+    caller: string
+): Uint8Array {
+    if (typeof publicKey !== 'string' && !(publicKey instanceof Uint8Array))
+        return crv === 'X25519' ? publicKey.toX25519Bytes() : publicKey.toRawBytes()
+    const bytes = ensureBytes(publicKey)
+    if (bytes.length !== B32) throw new InvalidKeyLengthError(`${caller}: expected 32 bytes of public key`)
+    return bytes
 }
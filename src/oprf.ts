@@ -0,0 +1,500 @@
+import { InvalidArgumentError, InvalidKeyError, InvalidPointEncodingError, InvalidProofError } from './errors'
+import { expandMessageXmd, Hash, sha512 } from './hash'
+import { BigIntType } from './integers'
+import { ExtendedPointBase, ExtendedPointStatic } from './points'
+import { Scalar, Scalars } from './scalars'
+import { B32, concatBytes, ensureBytes, Hex, utf8ToBytes } from './serialization'
+
+export type OprfMode = 'OPRF' | 'VOPRF' | 'POPRF'
+
+// Serialized as in RFC9497: the 32 byte scalar skS and the ristretto255 encoding of pkS = skS·B
+export interface OprfKeyPair {
+    secretKey: Uint8Array
+    publicKey: Uint8Array
+}
+
+export interface OprfBlindResult<BIT extends BigIntType> {
+    // Kept by the client until finalize
+    blind: Scalar<BIT>
+    // Sent to the server
+    blindedElement: Uint8Array
+}
+
+export interface PoprfBlindResult<BIT extends BigIntType> extends OprfBlindResult<BIT> {
+    // pkS tweaked with info, against which the server's proof is checked
+    tweakedKey: Uint8Array
+}
+
+export interface OprfEvaluation {
+    evaluatedElement: Uint8Array
+    // c || s, a DLEQ proof that the element was evaluated with the server's key
+    proof: Uint8Array
+}
+
+export interface OprfBatchEvaluation {
+    evaluatedElements: Uint8Array[]
+    // One proof for the whole batch
+    proof: Uint8Array
+}
+
+// The optional blind and proofRandomScalar arguments below are for reproducing test vectors only.
+// Left out, they are random, as the protocols require.
+
+export interface OprfClient<BIT extends BigIntType> {
+    blind(input: Uint8Array, blind?: Scalar<BIT>): Promise<OprfBlindResult<BIT>>
+    finalize(input: Uint8Array, blind: Scalar<BIT>, evaluatedElement: Hex): Promise<Uint8Array>
+}
+
+export interface OprfServer {
+    blindEvaluate(blindedElement: Hex): Promise<Uint8Array>
+    // The output for an input the server holds itself, equal to what the client gets from finalize
+    evaluate(input: Uint8Array): Promise<Uint8Array>
+}
+
+export interface VoprfClient<BIT extends BigIntType> {
+    blind(input: Uint8Array, blind?: Scalar<BIT>): Promise<OprfBlindResult<BIT>>
+    // Throws InvalidProofError unless the proof verifies against the server's public key
+    finalize(
+        input: Uint8Array,
+        blind: Scalar<BIT>,
+        evaluatedElement: Hex,
+        blindedElement: Hex,
+        proof: Hex
+    ): Promise<Uint8Array>
+    finalizeBatch(
+        inputs: Uint8Array[],
+        blinds: Scalar<BIT>[],
+        evaluatedElements: Hex[],
+        blindedElements: Hex[],
+        proof: Hex
+    ): Promise<Uint8Array[]>
+}
+
+export interface VoprfServer<BIT extends BigIntType> {
+    blindEvaluate(blindedElement: Hex, proofRandomScalar?: Scalar<BIT>): Promise<OprfEvaluation>
+    blindEvaluateBatch(blindedElements: Hex[], proofRandomScalar?: Scalar<BIT>): Promise<OprfBatchEvaluation>
+    evaluate(input: Uint8Array): Promise<Uint8Array>
+}
+
+export interface PoprfClient<BIT extends BigIntType> {
+    blind(input: Uint8Array, info: Uint8Array, blind?: Scalar<BIT>): Promise<PoprfBlindResult<BIT>>
+    // Throws InvalidProofError unless the proof verifies against the tweaked key
+    finalize(
+        input: Uint8Array,
+        blind: Scalar<BIT>,
+        evaluatedElement: Hex,
+        blindedElement: Hex,
+        proof: Hex,
+        info: Uint8Array,
+        tweakedKey: Hex
+    ): Promise<Uint8Array>
+    finalizeBatch(
+        inputs: Uint8Array[],
+        blinds: Scalar<BIT>[],
+        evaluatedElements: Hex[],
+        blindedElements: Hex[],
+        proof: Hex,
+        info: Uint8Array,
+        tweakedKey: Hex
+    ): Promise<Uint8Array[]>
+}
+
+export interface PoprfServer<BIT extends BigIntType> {
+    blindEvaluate(blindedElement: Hex, info: Uint8Array, proofRandomScalar?: Scalar<BIT>): Promise<OprfEvaluation>
+    blindEvaluateBatch(
+        blindedElements: Hex[],
+        info: Uint8Array,
+        proofRandomScalar?: Scalar<BIT>
+    ): Promise<OprfBatchEvaluation>
+    evaluate(input: Uint8Array, info: Uint8Array): Promise<Uint8Array>
+}
+
+export interface OprfFunctions<BIT extends BigIntType> {
+    generateKeyPair(): OprfKeyPair
+    // Keys are bound to the mode: the same seed and info give another key pair in each
+    deriveKeyPair(mode: OprfMode, seed: Uint8Array, info: Uint8Array): Promise<OprfKeyPair>
+    oprfClient(): OprfClient<BIT>
+    oprfServer(secretKey: Hex): OprfServer
+    voprfClient(publicKey: Hex): VoprfClient<BIT>
+    voprfServer(secretKey: Hex): VoprfServer<BIT>
+    poprfClient(publicKey: Hex): PoprfClient<BIT>
+    poprfServer(secretKey: Hex): PoprfServer<BIT>
+}
+
+const MODES: Record<OprfMode, number> = { OPRF: 0x00, VOPRF: 0x01, POPRF: 0x02 }
+// Nh, the length of a SHA-512 digest
+const HASH_LENGTH = 64
+const FINALIZE = utf8ToBytes('Finalize')
+const COMPOSITE = utf8ToBytes('Composite')
+const CHALLENGE = utf8ToBytes('Challenge')
+const INFO = utf8ToBytes('Info')
+
+// OPRF, VOPRF and POPRF over ristretto255 with SHA-512. https://www.rfc-editor.org/rfc/rfc9497
+// Elements are ristretto255 encoded ExtendedPoints, scalars are Scalars.
+export function makeOprfFunctions<BIT extends BigIntType>(
+    scalars: Scalars<BIT>,
+    ExtendedPointClass: ExtendedPointStatic<BIT>,
+    sha512Impl?: Hash
+): OprfFunctions<BIT> {
+    const BASE = ExtendedPointClass.BASE
+
+    function serializeElement(P: ExtendedPointBase<BIT>): Uint8Array {
+        return P.toRistrettoBytes()
+    }
+
+    // DeserializeElement, which also rejects the identity
+    function deserializeElement(hex: Hex): ExtendedPointBase<BIT> {
+        const bytes = ensureBytes(hex)
+        if (bytes.length !== B32) throw new InvalidPointEncodingError('oprf: expected 32 bytes of element')
+        const P = ExtendedPointClass.fromRistrettoBytes(bytes)
+        if (isIdentity(P)) throw new InvalidPointEncodingError('oprf: element is the identity')
+        return P
+    }
+
+    function isIdentity(P: ExtendedPointBase<BIT>): boolean {
+        return P.ristrettoEquals(ExtendedPointClass.ZERO)
+    }
+
+    function multiply(P: ExtendedPointBase<BIT>, s: Scalar<BIT>): ExtendedPointBase<BIT> {
+        return P.multiply(s.value)
+    }
+
+    function parseSecretKey(secretKey: Hex): Scalar<BIT> {
+        const skS = scalars.fromCanonicalBytes(ensureBytes(secretKey))
+        if (scalars.isZero(skS)) throw new InvalidKeyError('oprf: secret key is zero')
+        return skS
+    }
+
+    function keyPair(skS: Scalar<BIT>): OprfKeyPair {
+        return { secretKey: scalars.toBytes(skS), publicKey: serializeElement(multiply(BASE, skS)) }
+    }
+
+    // The hashes and proofs of one mode, which are domain separated by its context string.
+    // https://www.rfc-editor.org/rfc/rfc9497#section-3.1
+    function makeSuite(mode: OprfMode) {
+        const context = concatBytes(
+            utf8ToBytes('OPRFV1-'),
+            Uint8Array.of(MODES[mode]),
+            utf8ToBytes('-ristretto255-SHA512')
+        )
+        const HASH_TO_GROUP_DST = concatBytes(utf8ToBytes('HashToGroup-'), context)
+        const HASH_TO_SCALAR_DST = concatBytes(utf8ToBytes('HashToScalar-'), context)
+        const DERIVE_KEY_PAIR_DST = concatBytes(utf8ToBytes('DeriveKeyPair'), context)
+        const SEED_DST = concatBytes(utf8ToBytes('Seed-'), context)
+
+        async function hashToGroup(input: Uint8Array): Promise<ExtendedPointBase<BIT>> {
+            const uniform = await expandMessageXmd(input, HASH_TO_GROUP_DST, HASH_LENGTH, sha512Impl)
+            const P = ExtendedPointClass.fromRistrettoHash(uniform)
+            if (isIdentity(P)) throw new InvalidArgumentError('oprf: input hashes to the identity')
+            return P
+        }
+
+        async function hashToScalar(input: Uint8Array, DST = HASH_TO_SCALAR_DST): Promise<Scalar<BIT>> {
+            return scalars.fromWideBytes(await expandMessageXmd(input, DST, HASH_LENGTH, sha512Impl))
+        }
+
+        // https://www.rfc-editor.org/rfc/rfc9497#section-3.2.1
+        async function deriveKeyPair(seed: Uint8Array, info: Uint8Array): Promise<OprfKeyPair> {
+            const deriveInput = concatBytes(seed, lengthPrefixed(info))
+            for (let counter = 0; counter < 256; counter++) {
+                const skS = await hashToScalar(concatBytes(deriveInput, Uint8Array.of(counter)), DERIVE_KEY_PAIR_DST)
+                if (!scalars.isZero(skS)) return keyPair(skS)
+            }
+            throw new InvalidArgumentError('oprf.deriveKeyPair: no key found in 256 tries')
+        }
+
+        // m of the POPRF: the server's key is tweaked to skS + m, its public key to pkS + m·B
+        async function infoScalar(info: Uint8Array): Promise<Scalar<BIT>> {
+            return hashToScalar(concatBytes(INFO, lengthPrefixed(info)))
+        }
+
+        // ComputeComposites and ComputeCompositesFast: one pair (M, Z) stands in for all pairs (Cᵢ, Dᵢ).
+        // The server, knowing k with Dᵢ = k·Cᵢ, gets Z as k·M. https://www.rfc-editor.org/rfc/rfc9497#section-2.2.1
+        async function computeComposites(
+            B: ExtendedPointBase<BIT>,
+            C: ExtendedPointBase<BIT>[],
+            D: ExtendedPointBase<BIT>[],
+            k?: Scalar<BIT>
+        ): Promise<[ExtendedPointBase<BIT>, ExtendedPointBase<BIT>]> {
+            const seed = await sha512(lengthPrefixed(serializeElement(B), SEED_DST), sha512Impl)
+            const d: BIT[] = []
+            for (let i = 0; i < C.length; i++) {
+                const transcript = concatBytes(
+                    lengthPrefixed(seed),
+                    Uint8Array.of(i >> 8, i & 0xff),
+                    lengthPrefixed(serializeElement(C[i]), serializeElement(D[i])),
+                    COMPOSITE
+                )
+                d.push((await hashToScalar(transcript)).value)
+            }
+            const M = ExtendedPointClass.multiScalarMul(d, C)
+            const Z = k ? M.multiply(k.value) : ExtendedPointClass.multiScalarMul(d, D)
+            return [M, Z]
+        }
+
+        async function challenge(...points: ExtendedPointBase<BIT>[]): Promise<Scalar<BIT>> {
+            return hashToScalar(concatBytes(lengthPrefixed(...points.map(serializeElement)), CHALLENGE))
+        }
+
+        // A proof that B = k·A and Dᵢ = k·Cᵢ for the same k. https://www.rfc-editor.org/rfc/rfc9497#section-2.2.1
+        async function generateProof(
+            k: Scalar<BIT>,
+            A: ExtendedPointBase<BIT>,
+            B: ExtendedPointBase<BIT>,
+            C: ExtendedPointBase<BIT>[],
+            D: ExtendedPointBase<BIT>[],
+            r = scalars.random()
+        ): Promise<Uint8Array> {
+            const [M, Z] = await computeComposites(B, C, D, k)
+            const c = await challenge(B, M, Z, multiply(A, r), multiply(M, r))
+            const s = scalars.sub(r, scalars.mul(c, k))
+            return concatBytes(scalars.toBytes(c), scalars.toBytes(s))
+        }
+
+        // https://www.rfc-editor.org/rfc/rfc9497#section-2.2.2
+        async function verifyProof(
+            A: ExtendedPointBase<BIT>,
+            B: ExtendedPointBase<BIT>,
+            C: ExtendedPointBase<BIT>[],
+            D: ExtendedPointBase<BIT>[],
+            proof: Hex
+        ): Promise<boolean> {
+            const bytes = ensureBytes(proof)
+            if (bytes.length !== 2 * B32) throw new InvalidProofError('oprf: expected 64 bytes of proof')
+            const c = scalars.fromCanonicalBytes(bytes.slice(0, B32))
+            const s = scalars.fromCanonicalBytes(bytes.slice(B32))
+            const [M, Z] = await computeComposites(B, C, D)
+            const t2 = ExtendedPointClass.multiScalarMul([s.value, c.value], [A, B])
+            const t3 = ExtendedPointClass.multiScalarMul([s.value, c.value], [M, Z])
+            return scalars.equals(c, await challenge(B, M, Z, t2, t3))
+        }
+
+        async function blind(input: Uint8Array, r = scalars.random()): Promise<OprfBlindResult<BIT>> {
+            const inputElement = await hashToGroup(input)
+            return { blind: r, blindedElement: serializeElement(multiply(inputElement, r)) }
+        }
+
+        // Hash(len(input) || input || [len(info) || info ||] len(element) || element || "Finalize")
+        async function outputHash(input: Uint8Array, element: ExtendedPointBase<BIT>, info?: Uint8Array) {
+            const framed = info
+                ? lengthPrefixed(input, info, serializeElement(element))
+                : lengthPrefixed(input, serializeElement(element))
+            return sha512(concatBytes(framed, FINALIZE), sha512Impl)
+        }
+
+        // Removes the blinds and hashes the outputs, once the proof is checked
+        async function unblind(
+            inputs: Uint8Array[],
+            blinds: Scalar<BIT>[],
+            evaluated: ExtendedPointBase<BIT>[],
+            info?: Uint8Array
+        ): Promise<Uint8Array[]> {
+            if (inputs.length !== blinds.length || inputs.length !== evaluated.length)
+                throw new InvalidArgumentError('oprf.finalize: expected as many inputs, blinds and elements')
+            const inverses = scalars.batchInvert(blinds)
+            const outputs: Uint8Array[] = []
+            for (let i = 0; i < inputs.length; i++)
+                outputs.push(await outputHash(inputs[i], multiply(evaluated[i], inverses[i]), info))
+            return outputs
+        }
+
+        return {
+            hashToGroup,
+            deriveKeyPair,
+            infoScalar,
+            generateProof,
+            verifyProof,
+            blind,
+            outputHash,
+            unblind,
+        }
+    }
+
+    const suites: Record<OprfMode, ReturnType<typeof makeSuite>> = {
+        OPRF: makeSuite('OPRF'),
+        VOPRF: makeSuite('VOPRF'),
+        POPRF: makeSuite('POPRF'),
+    }
+
+    function deserializeBatch(blindedElements: Hex[]): ExtendedPointBase<BIT>[] {
+        if (!blindedElements.length) throw new InvalidArgumentError('oprf: expected at least one element')
+        return blindedElements.map(deserializeElement)
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9497#section-3.3.1
+    function oprfClient(): OprfClient<BIT> {
+        const suite = suites.OPRF
+        return {
+            blind: suite.blind,
+            async finalize(input, blind, evaluatedElement) {
+                const [output] = await suite.unblind([input], [blind], [deserializeElement(evaluatedElement)])
+                return output
+            },
+        }
+    }
+
+    function oprfServer(secretKey: Hex): OprfServer {
+        const suite = suites.OPRF
+        const skS = parseSecretKey(secretKey)
+        return {
+            async blindEvaluate(blindedElement) {
+                return serializeElement(multiply(deserializeElement(blindedElement), skS))
+            },
+            async evaluate(input) {
+                return suite.outputHash(input, multiply(await suite.hashToGroup(input), skS))
+            },
+        }
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9497#section-3.3.2
+    function voprfClient(publicKey: Hex): VoprfClient<BIT> {
+        const suite = suites.VOPRF
+        const pkS = deserializeElement(publicKey)
+        async function finalizeBatch(
+            inputs: Uint8Array[],
+            blinds: Scalar<BIT>[],
+            evaluatedElements: Hex[],
+            blindedElements: Hex[],
+            proof: Hex
+        ): Promise<Uint8Array[]> {
+            const evaluated = deserializeBatch(evaluatedElements)
+            const blinded = deserializeBatch(blindedElements)
+            if (evaluated.length !== blinded.length)
+                throw new InvalidArgumentError('voprf.finalize: expected as many evaluated as blinded elements')
+            if (!(await suite.verifyProof(BASE, pkS, blinded, evaluated, proof)))
+                throw new InvalidProofError('voprf.finalize: proof does not verify')
+            return suite.unblind(inputs, blinds, evaluated)
+        }
+        return {
+            blind: suite.blind,
+            async finalize(input, blind, evaluatedElement, blindedElement, proof) {
+                const [output] = await finalizeBatch([input], [blind], [evaluatedElement], [blindedElement], proof)
+                return output
+            },
+            finalizeBatch,
+        }
+    }
+
+    function voprfServer(secretKey: Hex): VoprfServer<BIT> {
+        const suite = suites.VOPRF
+        const skS = parseSecretKey(secretKey)
+        const pkS = multiply(BASE, skS)
+        async function blindEvaluateBatch(
+            blindedElements: Hex[],
+            proofRandomScalar?: Scalar<BIT>
+        ): Promise<OprfBatchEvaluation> {
+            const blinded = deserializeBatch(blindedElements)
+            const evaluated = blinded.map((P) => multiply(P, skS))
+            const proof = await suite.generateProof(skS, BASE, pkS, blinded, evaluated, proofRandomScalar)
+            return { evaluatedElements: evaluated.map(serializeElement), proof }
+        }
+        return {
+            async blindEvaluate(blindedElement, proofRandomScalar) {
+                const { evaluatedElements, proof } = await blindEvaluateBatch([blindedElement], proofRandomScalar)
+                return { evaluatedElement: evaluatedElements[0], proof }
+            },
+            blindEvaluateBatch,
+            async evaluate(input) {
+                return suite.outputHash(input, multiply(await suite.hashToGroup(input), skS))
+            },
+        }
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9497#section-3.3.3
+    function poprfClient(publicKey: Hex): PoprfClient<BIT> {
+        const suite = suites.POPRF
+        const pkS = deserializeElement(publicKey)
+        async function finalizeBatch(
+            inputs: Uint8Array[],
+            blinds: Scalar<BIT>[],
+            evaluatedElements: Hex[],
+            blindedElements: Hex[],
+            proof: Hex,
+            info: Uint8Array,
+            tweakedKey: Hex
+        ): Promise<Uint8Array[]> {
+            const evaluated = deserializeBatch(evaluatedElements)
+            const blinded = deserializeBatch(blindedElements)
+            if (evaluated.length !== blinded.length)
+                throw new InvalidArgumentError('poprf.finalize: expected as many evaluated as blinded elements')
+            // The server proves blinded = t·evaluated, for the t of tweakedKey = t·B
+            if (!(await suite.verifyProof(BASE, deserializeElement(tweakedKey), evaluated, blinded, proof)))
+                throw new InvalidProofError('poprf.finalize: proof does not verify')
+            return suite.unblind(inputs, blinds, evaluated, info)
+        }
+        return {
+            async blind(input, info, blind) {
+                const tweakedKey = multiply(BASE, await suite.infoScalar(info)).add(pkS)
+                if (isIdentity(tweakedKey)) throw new InvalidArgumentError('poprf.blind: tweaked key is the identity')
+                return { ...(await suite.blind(input, blind)), tweakedKey: serializeElement(tweakedKey) }
+            },
+            async finalize(input, blind, evaluatedElement, blindedElement, proof, info, tweakedKey) {
+                const [output] = await finalizeBatch(
+                    [input],
+                    [blind],
+                    [evaluatedElement],
+                    [blindedElement],
+                    proof,
+                    info,
+                    tweakedKey
+                )
+                return output
+            },
+            finalizeBatch,
+        }
+    }
+
+    function poprfServer(secretKey: Hex): PoprfServer<BIT> {
+        const suite = suites.POPRF
+        const skS = parseSecretKey(secretKey)
+        // Throws NotInvertibleError in the unlikely case that info tweaks the key to zero
+        async function tweak(info: Uint8Array): Promise<{ t: Scalar<BIT>; inverse: Scalar<BIT> }> {
+            const t = scalars.add(skS, await suite.infoScalar(info))
+            return { t, inverse: scalars.invert(t) }
+        }
+        async function blindEvaluateBatch(
+            blindedElements: Hex[],
+            info: Uint8Array,
+            proofRandomScalar?: Scalar<BIT>
+        ): Promise<OprfBatchEvaluation> {
+            const blinded = deserializeBatch(blindedElements)
+            const { t, inverse } = await tweak(info)
+            const evaluated = blinded.map((P) => multiply(P, inverse))
+            const tweakedKey = multiply(BASE, t)
+            const proof = await suite.generateProof(t, BASE, tweakedKey, evaluated, blinded, proofRandomScalar)
+            return { evaluatedElements: evaluated.map(serializeElement), proof }
+        }
+        return {
+            async blindEvaluate(blindedElement, info, proofRandomScalar) {
+                const { evaluatedElements, proof } = await blindEvaluateBatch([blindedElement], info, proofRandomScalar)
+                return { evaluatedElement: evaluatedElements[0], proof }
+            },
+            blindEvaluateBatch,
+            async evaluate(input, info) {
+                const { inverse } = await tweak(info)
+                return suite.outputHash(input, multiply(await suite.hashToGroup(input), inverse), info)
+            },
+        }
+    }
+
+    return {
+        generateKeyPair: () => keyPair(scalars.random()),
+        deriveKeyPair: (mode, seed, info) => suites[mode].deriveKeyPair(seed, info),
+        oprfClient,
+        oprfServer,
+        voprfClient,
+        voprfServer,
+        poprfClient,
+        poprfServer,
+    }
+}
+
+// I2OSP(len(x), 2) || x for each x
+function lengthPrefixed(...parts: Uint8Array[]): Uint8Array {
+    return concatBytes(
+        ...parts.flatMap((part) => {
+            if (part.length > 0xffff) throw new InvalidArgumentError('oprf: input longer than 65535 bytes')
+            return [Uint8Array.of(part.length >> 8, part.length & 0xff), part]
+        })
+    )
+}
@@ -0,0 +1,132 @@
+import { InvalidArgumentError, InvalidPointEncodingError, InvalidProofError } from './errors'
+import { Hash, sha512 } from './hash'
+import { BigIntType } from './integers'
+import { ExtendedPointBase, ExtendedPointStatic } from './points'
+import { Scalar } from './scalars'
+import { B32, bytesToHex, concatBytes, ensureBytes, Hex, utf8ToBytes } from './serialization'
+
+// What a commitment is opened with
+export interface PedersenOpening<BIT extends BigIntType> {
+    value: Scalar<BIT>
+    blinding: Scalar<BIT>
+}
+
+// Commitments are 32 byte ristretto255 encodings. They are binding as long as nobody knows the discrete log of
+// one generator to another, and hiding whatever the value, as long as blindings are random and used once.
+export interface PedersenCommitmentFunctions<BIT extends BigIntType> {
+    // H, which blinds every commitment
+    blindingGenerator(): Promise<ExtendedPointBase<BIT>>
+    // G₀ to G_{count - 1}, the generators of the values of vector commitments
+    generators(count: number): Promise<ExtendedPointBase<BIT>[]>
+    // value·B + blinding·H, where B is the ristretto255 base point
+    commit(value: Scalar<BIT>, blinding: Scalar<BIT>): Promise<Uint8Array>
+    verify(commitment: Hex, value: Scalar<BIT>, blinding: Scalar<BIT>): Promise<boolean>
+    // The value of the commitment. Throws InvalidProofError if the opening doesn't match.
+    open(commitment: Hex, opening: PedersenOpening<BIT>): Promise<Scalar<BIT>>
+    // Σ values[i]·Gᵢ + blinding·H
+    commitVector(values: Scalar<BIT>[], blinding: Scalar<BIT>): Promise<Uint8Array>
+    verifyVector(commitment: Hex, values: Scalar<BIT>[], blinding: Scalar<BIT>): Promise<boolean>
+    // Commitments to the sum and difference of the values, blinded by the sum and difference of the blindings
+    add(a: Hex, b: Hex): Uint8Array
+    sub(a: Hex, b: Hex): Uint8Array
+    // A commitment to value·s, blinded by blinding·s
+    scale(commitment: Hex, s: Scalar<BIT>): Uint8Array
+    // The same functions with generators derived from another label of at most 255 bytes, to keep applications apart
+    withLabel(label: string): PedersenCommitmentFunctions<BIT>
+}
+
+const DEFAULT_LABEL = 'PR-ED25519-Pedersen-ristretto255-v1'
+
+// Pedersen commitments in ristretto255. https://link.springer.com/chapter/10.1007/3-540-46766-1_9
+// The generators are nothing-up-my-sleeve points: SHA-512 of the label and the generator's name, mapped with
+// the ristretto255 hash-to-group map, so their discrete logs are unknown.
+export function makePedersenFunctions<BIT extends BigIntType>(
+    ExtendedPointClass: ExtendedPointStatic<BIT>,
+    sha512Impl?: Hash,
+    label = DEFAULT_LABEL
+): PedersenCommitmentFunctions<BIT> {
+    const labelBytes = utf8ToBytes(label)
+    if (labelBytes.length > 255) throw new InvalidArgumentError('pedersen: label longer than 255 bytes')
+    const BASE = ExtendedPointClass.BASE
+    const generatorCache = new Map<string, Promise<ExtendedPointBase<BIT>>>()
+
+    // fromRistrettoHash(SHA-512(len(label) || label || name))
+    function generator(name: Uint8Array): Promise<ExtendedPointBase<BIT>> {
+        const key = bytesToHex(name)
+        let point = generatorCache.get(key)
+        if (!point) {
+            const seed = concatBytes(Uint8Array.of(labelBytes.length), labelBytes, name)
+            point = sha512(seed, sha512Impl).then((hash) => ExtendedPointClass.fromRistrettoHash(hash))
+            generatorCache.set(key, point)
+        }
+        return point
+    }
+
+    function blindingGenerator(): Promise<ExtendedPointBase<BIT>> {
+        return generator(utf8ToBytes('H'))
+    }
+
+    async function generators(count: number): Promise<ExtendedPointBase<BIT>[]> {
+        if (!Number.isSafeInteger(count) || count < 0 || count > 0xffffffff)
+            throw new InvalidArgumentError('pedersen.generators: expected a count of generators')
+        const points: Promise<ExtendedPointBase<BIT>>[] = []
+        for (let i = 0; i < count; i++) {
+            const index = Uint8Array.of(i >>> 24, (i >>> 16) & 0xff, (i >>> 8) & 0xff, i & 0xff)
+            points.push(generator(concatBytes(utf8ToBytes('G'), index)))
+        }
+        return Promise.all(points)
+    }
+
+    function decode(commitment: Hex): ExtendedPointBase<BIT> {
+        const bytes = ensureBytes(commitment)
+        if (bytes.length !== B32) throw new InvalidPointEncodingError('pedersen: expected 32 bytes of commitment')
+        return ExtendedPointClass.fromRistrettoBytes(bytes)
+    }
+
+    // Values and blindings are secret, so they are multiplied in constant time
+    async function commitPoint(values: Scalar<BIT>[], points: ExtendedPointBase<BIT>[], blinding: Scalar<BIT>) {
+        const H = await blindingGenerator()
+        return ExtendedPointClass.multiScalarMulConstantTime(
+            [...values.map((v) => v.value), blinding.value],
+            [...points, H]
+        )
+    }
+
+    async function commit(value: Scalar<BIT>, blinding: Scalar<BIT>): Promise<Uint8Array> {
+        return (await commitPoint([value], [BASE], blinding)).toRistrettoBytes()
+    }
+
+    async function verify(commitment: Hex, value: Scalar<BIT>, blinding: Scalar<BIT>): Promise<boolean> {
+        return decode(commitment).ristrettoEquals(await commitPoint([value], [BASE], blinding))
+    }
+
+    async function open(commitment: Hex, { value, blinding }: PedersenOpening<BIT>): Promise<Scalar<BIT>> {
+        if (!(await verify(commitment, value, blinding)))
+            throw new InvalidProofError('pedersen.open: opening does not match the commitment')
+        return value
+    }
+
+    async function commitVector(values: Scalar<BIT>[], blinding: Scalar<BIT>): Promise<Uint8Array> {
+        return (await commitPoint(values, await generators(values.length), blinding)).toRistrettoBytes()
+    }
+
+    async function verifyVector(commitment: Hex, values: Scalar<BIT>[], blinding: Scalar<BIT>): Promise<boolean> {
+        const expected = await commitPoint(values, await generators(values.length), blinding)
+        return decode(commitment).ristrettoEquals(expected)
+    }
+
+    return {
+        blindingGenerator,
+        generators,
+        commit,
+        verify,
+        open,
+        commitVector,
+        verifyVector,
+        add: (a, b) => decode(a).add(decode(b)).toRistrettoBytes(),
+        sub: (a, b) => decode(a).subtract(decode(b)).toRistrettoBytes(),
+        scale: (commitment, s) =>
+            ExtendedPointClass.multiScalarMulConstantTime([s.value], [decode(commitment)]).toRistrettoBytes(),
+        withLabel: (other) => makePedersenFunctions(ExtendedPointClass, sha512Impl, other),
+    }
+}
@@ -1,9 +1,28 @@
-import { Hash, sha512 } from './hash'
+import { Hash, sha512, sha512Sync } from './hash'
 import { CurveType, Constants } from './curve'
 import { KeyUtils } from './key-utils'
-import { SerializationFunctions, IntFactory, B32, hexToBytes, bytesToHex, Hex, PrivKey } from './serialization'
+import {
+    SerializationFunctions,
+    IntFactory,
+    B32,
+    hexToBytes,
+    bytesToHex,
+    Hex,
+    PrivKey,
+    base64ToBytes,
+} from './serialization'
+import { BASE_PRECOMPUTES } from './base-precomputes'
+import { FieldElement } from './field'
 import { MathFunctions } from './math'
 import { BigIntType, Integers } from './integers'
+import {
+    InvalidArgumentError,
+    InvalidEncodingError,
+    InvalidPointEncodingError,
+    InvalidPointError,
+    InvalidScalarError,
+    UnsupportedError,
+} from './errors'
 
 export interface PointData<BIT extends BigIntType> {
     x: BIT
@@ -15,22 +34,34 @@ export interface PointOps<BIT> {
     toHex(): string
     toRawBytes(): Uint8Array
     toX25519(): BIT
+    toX25519Bytes(): Uint8Array
+    toMontgomery(): { u: BIT; v: BIT }
     equals(other: PointBase<BIT>): boolean
     add(other: PointBase<BIT>): PointBase<BIT>
     subtract(other: PointBase<BIT>): PointBase<BIT>
     negate(): PointBase<BIT>
     multiply(scalar: number | BIT): PointBase<BIT>
+    isOnCurve(): boolean
+    isSmallOrder(): boolean
+    isTorsionFree(): boolean
+    clearCofactor(): PointBase<BIT>
+    torsionComponent(): PointBase<BIT>
     _setWindowSize(w: number): void
 }
 
 export type PointBase<BIT> = PointData<BIT> & PointOps<BIT>
 
 export interface PointStatic<BIT> {
-    fromHex(hex: Hex): PointBase<BIT>
+    new (x: BIT, y: BIT): PointBase<BIT>
+    fromHex(hex: Hex, zip215?: boolean): PointBase<BIT>
     fromPrivateKey(pk: PrivKey<BIT>): Promise<PointBase<BIT>>
+    fromPrivateKeySync(pk: PrivKey<BIT>): PointBase<BIT>
+    fromX25519(u: BIT | Hex, signBit?: number): PointBase<BIT>
     ZERO: PointBase<BIT>
     BASE: PointBase<BIT>
     precompute(windowSize?: number, point?: PointBase<BIT>): PointBase<BIT>
+    exportPrecomputes(point?: PointBase<BIT>): Uint8Array
+    loadPrecomputes(bytes: Uint8Array, point?: PointBase<BIT>): PointBase<BIT>
 }
 
 export function pointEquals<BIT extends BigIntType, PT extends PointData<BIT>>(
@@ -56,16 +87,37 @@ export interface ExtendedPointOps<BIT> {
     negate(): ExtendedPointBase<BIT>
     multiply(scalar: number | BIT, affinePoint?: PointData<BIT>): ExtendedPointBase<BIT>
     multiplyUnsafe(scalar: BIT): ExtendedPointBase<BIT>
+    precomputeWindow(W: number): ExtendedPointBase<BIT>[]
     toRistrettoBytes(): Uint8Array
+    isOnCurve(): boolean
+    isSmallOrder(): boolean
+    isTorsionFree(): boolean
+    clearCofactor(): ExtendedPointBase<BIT>
+    torsionComponent(): ExtendedPointBase<BIT>
 }
 
 export type ExtendedPointBase<BIT> = ExtendedPointData<BIT> & ExtendedPointOps<BIT>
 
 export interface ExtendedPointStatic<BIT> {
+    new (x: BIT, y: BIT, z: BIT, t: BIT): ExtendedPointBase<BIT>
     fromAffine(p: PointData<BIT>): ExtendedPointBase<BIT>
     fromRistrettoBytes(bytes: Uint8Array): ExtendedPointBase<BIT>
     fromRistrettoHash(hash: Uint8Array): ExtendedPointBase<BIT>
+    multiScalarMul(scalars: (number | BIT)[], points: ExtendedPointBase<BIT>[]): ExtendedPointBase<BIT>
+    multiScalarMulConstantTime(scalars: (number | BIT)[], points: ExtendedPointBase<BIT>[]): ExtendedPointBase<BIT>
+    normalizeZ(points: ExtendedPointBase<BIT>[]): ExtendedPointBase<BIT>[]
+    wNAFWithPrecomputes(
+        n: BIT,
+        W: number,
+        precomputes: ExtendedPointBase<BIT>[]
+    ): [ExtendedPointBase<BIT>, ExtendedPointBase<BIT>]
     pointPrecomputes: WeakMap<PointData<BIT>, ExtendedPointBase<BIT>[]>
+    windowPrecomputes(point: ExtendedPointBase<BIT>, W: number): ExtendedPointBase<BIT>[]
+    encodePrecomputes(W: number, precomputes: ExtendedPointBase<BIT>[]): Uint8Array
+    decodePrecomputes(
+        bytes: Uint8Array,
+        point: ExtendedPointBase<BIT>
+    ): { W: number; precomputes: ExtendedPointBase<BIT>[] }
     ZERO: ExtendedPointBase<BIT>
     BASE: ExtendedPointBase<BIT>
 }
@@ -88,192 +140,396 @@ export function makeExtendedPointClass<BIT extends BigIntType>(
 ): ExtendedPointStatic<BIT> {
     const POINT_BASE = basePoint(CURVE)
     const POINT_ZERO = zeroPoint(Ints)
+    // The coordinates are field elements whatever the Integers are. BIT values are only
+    // converted when they come in through the constructor or fromAffine, and when read back.
+    const fe = (num: BIT | FieldElement) => (num instanceof FieldElement ? num : math.toFieldElement(num))
+    const { ONE, ZERO } = FieldElement
+    const d = fe(CURVE.d)
+    const D2 = d.add(d)
+    const SQRT_M1 = fe(CONSTANTS.SQRT_M1)
+    const SQRT_AD_MINUS_ONE = fe(CONSTANTS.SQRT_AD_MINUS_ONE)
+    const INVSQRT_A_MINUS_D = fe(CONSTANTS.INVSQRT_A_MINUS_D)
+    const ONE_MINUS_D_SQ = fe(CONSTANTS.ONE_MINUS_D_SQ)
+    const D_MINUS_ONE_SQ = fe(CONSTANTS.D_MINUS_ONE_SQ)
+    // ℓ itself, which multiplyUnsafe would reduce to zero
+    const ORDER_BYTES = serializer.numberToBytesPadded(CURVE.n, B32)
     return class ExtendedPoint {
-        constructor(public x: BIT, public y: BIT, public z: BIT, public t: BIT) {}
+        readonly X: FieldElement
+        readonly Y: FieldElement
+        readonly Z: FieldElement
+        readonly T: FieldElement
 
-        static BASE = new ExtendedPoint(CURVE.Gx, CURVE.Gy, toBigInt(1), math.mod(Ints.multiply(CURVE.Gx, CURVE.Gy)))
-        static ZERO = new ExtendedPoint(toBigInt(0), toBigInt(1), toBigInt(1), toBigInt(0))
+        constructor(x: BIT | FieldElement, y: BIT | FieldElement, z: BIT | FieldElement, t: BIT | FieldElement) {
+            this.X = fe(x)
+            this.Y = fe(y)
+            this.Z = fe(z)
+            this.T = fe(t)
+        }
+
+        get x(): BIT {
+            return math.fromFieldElement(this.X)
+        }
+        get y(): BIT {
+            return math.fromFieldElement(this.Y)
+        }
+        get z(): BIT {
+            return math.fromFieldElement(this.Z)
+        }
+        get t(): BIT {
+            return math.fromFieldElement(this.T)
+        }
+
+        static BASE = new ExtendedPoint(CURVE.Gx, CURVE.Gy, ONE, fe(CURVE.Gx).multiply(fe(CURVE.Gy)))
+        static ZERO = new ExtendedPoint(ZERO, ONE, ONE, ZERO)
 
         // Stores precomputed values for points.
         static pointPrecomputes = new WeakMap<PointData<BIT>, ExtendedPoint[]>()
         static fromAffine(p: PointData<BIT>): ExtendedPoint {
+            // x is zero for the identity and the point of order 2, so check for presence rather than truthiness.
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            if (!(p.x && p.y && !(p as any).z && !(p as any).t)) {
-                throw new TypeError('ExtendedPoint#fromAffine: expected Point')
+            if (!(p.x !== undefined && p.y !== undefined && !(p as any).z && !(p as any).t)) {
+                throw new InvalidPointError('ExtendedPoint#fromAffine: expected Point')
             }
             if (pointEquals(p, POINT_ZERO, Ints)) return ExtendedPoint.ZERO
-            return new ExtendedPoint(p.x, p.y, toBigInt(1), math.mod(Ints.multiply(p.x, p.y)))
+            const x = fe(p.x)
+            const y = fe(p.y)
+            return new ExtendedPoint(x, y, ONE, x.multiply(y))
         }
         // Takes a bunch of Jacobian Points but executes only one
         // invert on all of them. invert is very slow operation,
         // so this improves performance massively.
         static toAffineBatch(points: ExtendedPoint[]): PointData<BIT>[] {
-            const toInv = math.invertBatch(points.map((p) => p.z))
+            const toInv = FieldElement.invertBatch(points.map((p) => p.Z))
             const affs = points.map((p, i) => p.toAffine(toInv[i]))
             return affs
         }
 
+        // Same as mapping toAffineBatch through fromAffine, without leaving the field.
         static normalizeZ(points: ExtendedPoint[]): ExtendedPoint[] {
-            return this.toAffineBatch(points).map(this.fromAffine)
+            const toInv = FieldElement.invertBatch(points.map((p) => p.Z))
+            return points.map((p, i) => {
+                if (p.Z.isZero()) return ExtendedPoint.ZERO
+                const x = p.X.multiply(toInv[i])
+                const y = p.Y.multiply(toInv[i])
+                return new ExtendedPoint(x, y, ONE, x.multiply(y))
+            })
+        }
+
+        // The normalized table of precomputeWindow(W), for caching. BASE's table for W = 8, the window size
+        // makeED sets, is prebuilt and only needs decoding.
+        static windowPrecomputes(point: ExtendedPointBase<BIT>, W: number): ExtendedPoint[] {
+            const p = ExtendedPoint.fromExtended(point)
+            if (W === 8 && sameAffine(p, ExtendedPoint.BASE)) {
+                return ExtendedPoint.decodePrecomputes(base64ToBytes(BASE_PRECOMPUTES), p).precomputes
+            }
+            return ExtendedPoint.normalizeZ(p.precomputeWindow(W))
+        }
+
+        // A precompute table from precomputeWindow(W) as bytes, so that it can be stored instead of computed:
+        // a version byte, W, the encoding of the point and then x and y of every entry, little-endian.
+        static encodePrecomputes(W: number, precomputes: ExtendedPointBase<BIT>[]): Uint8Array {
+            if (precomputes.length !== precomputeCount(W)) {
+                throw new InvalidArgumentError('ExtendedPoint.encodePrecomputes: wrong number of precomputes for W')
+            }
+            const normed = ExtendedPoint.normalizeZ(precomputes.map(ExtendedPoint.fromExtended))
+            const bytes = new Uint8Array(PRECOMPUTES_HEADER + normed.length * 2 * B32)
+            bytes[0] = PRECOMPUTES_VERSION
+            bytes[1] = W
+            bytes.set(encodeAffine(normed[0].X, normed[0].Y), 2)
+            normed.forEach((p, i) => {
+                bytes.set(p.X.toBytes(), PRECOMPUTES_HEADER + 2 * i * B32)
+                bytes.set(p.Y.toBytes(), PRECOMPUTES_HEADER + (2 * i + 1) * B32)
+            })
+            return bytes
+        }
+
+        // The inverse of encodePrecomputes, for a table that must belong to point. The first entry must be
+        // point and each window must start at the double of the previous window's last entry. Other entries
+        // are trusted, as checking them would cost as much as computing them: only load tables you exported.
+        static decodePrecomputes(
+            bytes: Uint8Array,
+            point: ExtendedPointBase<BIT>
+        ): { W: number; precomputes: ExtendedPoint[] } {
+            const fn = 'ExtendedPoint.decodePrecomputes'
+            if (bytes.length < PRECOMPUTES_HEADER || bytes[0] !== PRECOMPUTES_VERSION) {
+                throw new UnsupportedError(`${fn}: unsupported table`)
+            }
+            const W = bytes[1]
+            if (W < 2 || W > 16 || 256 % W) throw new InvalidEncodingError(`${fn}: invalid window size`)
+            if (bytes.length !== PRECOMPUTES_HEADER + precomputeCount(W) * 2 * B32) {
+                throw new InvalidEncodingError(`${fn}: wrong table length`)
+            }
+            const [expected] = ExtendedPoint.normalizeZ([ExtendedPoint.fromExtended(point)])
+            if (!equalBytes(bytes.subarray(2, PRECOMPUTES_HEADER), encodeAffine(expected.X, expected.Y))) {
+                throw new InvalidArgumentError(`${fn}: table is for another point`)
+            }
+            const precomputes: ExtendedPoint[] = []
+            for (let offset = PRECOMPUTES_HEADER; offset < bytes.length; offset += 2 * B32) {
+                const x = FieldElement.fromBytes(bytes.subarray(offset, offset + B32))
+                const y = FieldElement.fromBytes(bytes.subarray(offset + B32, offset + 2 * B32))
+                precomputes.push(new ExtendedPoint(x, y, ONE, x.multiply(y)))
+            }
+            const windowSize = 2 ** (W - 1)
+            if (!sameAffine(precomputes[0], expected))
+                throw new InvalidArgumentError(`${fn}: table is for another point`)
+            for (let i = windowSize; i < precomputes.length; i += windowSize) {
+                if (!sameAffine(precomputes[i], precomputes[i - 1].double())) {
+                    throw new InvalidEncodingError(`${fn}: windows do not chain up`)
+                }
+            }
+            return { W, precomputes }
+        }
+
+        // Multi-scalar multiplication: computes Σaᵢ·Pᵢ.
+        // Non-constant-time, like multiplyUnsafe: only use it with public scalars.
+        // Interleaved wNAF (Straus) is faster for few points, Pippenger's bucket method for many.
+        static multiScalarMul(scalars: (number | BIT)[], points: ExtendedPointBase<BIT>[]): ExtendedPoint {
+            const digits = ExtendedPoint.scalarsToBytes(scalars, points, 'ExtendedPoint.multiScalarMul')
+            return points.length < PIPPENGER_THRESHOLD
+                ? ExtendedPoint.straus(digits, points)
+                : ExtendedPoint.pippenger(digits, points)
+        }
+
+        // Constant time multi-scalar multiplication for secret scalars.
+        // Every scalar is recoded into 64 signed radix-16 digits and every digit costs
+        // one lookup over the whole table and one addition, whatever its value. Entries are
+        // picked with masks instead of branches, and added with the complete formula.
+        static multiScalarMulConstantTime(scalars: (number | BIT)[], points: ExtendedPointBase<BIT>[]): ExtendedPoint {
+            const bytes = ExtendedPoint.scalarsToBytes(scalars, points, 'ExtendedPoint.multiScalarMulConstantTime')
+            const digits = bytes.map((b) => signedDigits(b, 4, 64))
+            // tables[j][k] = (k + 1)·Pⱼ for k in 0..7. The points are public.
+            const tables = points.map((point) => {
+                const table = [ExtendedPoint.fromExtended(point)]
+                for (let k = 1; k < 8; k++) table.push(table[k - 1].add(point))
+                return table
+            })
+            let acc = ExtendedPoint.ZERO
+            for (let i = 63; i >= 0; i--) {
+                acc = acc.double().double().double().double()
+                for (let j = 0; j < points.length; j++) {
+                    const d = digits[j][i]
+                    // 1 for negative digits, 0 otherwise, and |d|
+                    const sign = (d >> 31) & 1
+                    const abs = (d ^ -sign) + sign
+                    let selected = ExtendedPoint.ZERO
+                    for (let k = 0; k < 8; k++) {
+                        // 1 when k + 1 = |d|: x | -x has its sign bit set unless x = 0
+                        const x = (k + 1) ^ abs
+                        const equal = 1 - (((x | -x) >>> 31) & 1)
+                        selected = selected.select(tables[j][k], equal)
+                    }
+                    acc = acc.addUnified(selected.select(selected.negate(), sign))
+                }
+            }
+            return acc
+        }
+
+        // Validates and reduces scalars, returning their 32-byte little-endian encodings.
+        static scalarsToBytes(scalars: (number | BIT)[], points: ExtendedPointBase<BIT>[], fn: string): Uint8Array[] {
+            if (scalars.length !== points.length) {
+                throw new InvalidArgumentError(`${fn}: expected as many scalars as points`)
+            }
+            return scalars.map((scalar) => {
+                const s: BIT = typeof scalar === 'number' ? toBigInt(scalar) : scalar
+                if (!(typeof scalar !== 'number' || Number.isSafeInteger(scalar)) || Ints.LT(s, 0)) {
+                    throw new InvalidScalarError(`${fn}: expected non-negative number or bigint`)
+                }
+                return serializer.numberToBytesPadded(math.mod(s, CURVE.n), B32)
+            })
+        }
+
+        static fromExtended(p: ExtendedPointBase<BIT>): ExtendedPoint {
+            return p instanceof ExtendedPoint ? p : new ExtendedPoint(p.x, p.y, p.z, p.t)
+        }
+
+        // Interleaved wNAF: one shared chain of doublings, each point adds its odd multiples.
+        static straus(scalars: Uint8Array[], points: ExtendedPointBase<BIT>[]): ExtendedPoint {
+            const W = 5
+            const nafs = scalars.map((s) => wNafDigits(s, W))
+            // tables[j][k] = (2k + 1)·Pⱼ
+            const tables = points.map((point) => {
+                const P = ExtendedPoint.fromExtended(point)
+                const P2 = P.double()
+                const table = [P]
+                for (let k = 1; k < 2 ** (W - 2); k++) table.push(table[k - 1].add(P2))
+                return table
+            })
+            let acc = ExtendedPoint.ZERO
+            for (let i = 255; i >= 0; i--) {
+                acc = acc.double()
+                for (let j = 0; j < points.length; j++) {
+                    const d = nafs[j][i]
+                    if (d > 0) acc = acc.add(tables[j][(d - 1) / 2])
+                    else if (d < 0) acc = acc.subtract(tables[j][(-d - 1) / 2])
+                }
+            }
+            return acc
+        }
+
+        // Pippenger's bucket method with signed digits.
+        static pippenger(scalars: Uint8Array[], points: ExtendedPointBase<BIT>[]): ExtendedPoint {
+            const c = points.length < 500 ? 6 : points.length < 800 ? 7 : 8
+            const windows = Math.ceil(256 / c) + 1
+            const digits = scalars.map((s) => signedDigits(s, c, windows))
+            const bucketCount = 2 ** (c - 1)
+            let acc = ExtendedPoint.ZERO
+            for (let i = windows - 1; i >= 0; i--) {
+                for (let k = 0; k < c; k++) acc = acc.double()
+                const buckets: ExtendedPoint[] = new Array(bucketCount).fill(ExtendedPoint.ZERO)
+                for (let j = 0; j < points.length; j++) {
+                    const d = digits[j][i]
+                    if (d > 0) buckets[d - 1] = buckets[d - 1].add(points[j])
+                    else if (d < 0) buckets[-d - 1] = buckets[-d - 1].subtract(points[j])
+                }
+                // Σ k·buckets[k-1] as a running sum of running sums.
+                let running = ExtendedPoint.ZERO
+                let windowSum = ExtendedPoint.ZERO
+                for (let k = bucketCount - 1; k >= 0; k--) {
+                    running = running.add(buckets[k])
+                    windowSum = windowSum.add(running)
+                }
+                acc = acc.add(windowSum)
+            }
+            return acc
         }
 
         // Ristretto-related methods.
 
         static bytes255ToNumberLE(bytes: Uint8Array): BIT {
-            return math.mod(
-                Ints.bitwiseAnd(
-                    serializer.bytesToNumberLE(bytes),
-                    Ints.subtract(Ints.exponentiate(toBigInt(2), toBigInt(255)), toBigInt(1))
-                )
-            )
+            return math.fromFieldElement(ExtendedPoint.bytes255ToFieldElement(bytes))
+        }
+
+        static bytes255ToFieldElement(bytes: Uint8Array): FieldElement {
+            const masked = Uint8Array.from(bytes)
+            masked[B32 - 1] &= 0x7f
+            return FieldElement.fromBytes(masked)
         }
 
         // The hash-to-group operation applies Elligator twice and adds the results.
         // https://ristretto.group/formulas/elligator.html
         static fromRistrettoHash(hash: Uint8Array): ExtendedPoint {
-            const r1 = ExtendedPoint.bytes255ToNumberLE(hash.slice(0, B32))
-            // const h = hash.slice(0, B32);
+            const r1 = ExtendedPoint.bytes255ToFieldElement(hash.slice(0, B32))
             const R1 = ExtendedPoint.calcElligatorRistrettoMap(r1)
-            const r2 = ExtendedPoint.bytes255ToNumberLE(hash.slice(B32, B32 * 2))
+            const r2 = ExtendedPoint.bytes255ToFieldElement(hash.slice(B32, B32 * 2))
             const R2 = ExtendedPoint.calcElligatorRistrettoMap(r2)
             return R1.add(R2)
         }
 
         // Computes Elligator map for Ristretto
         // https://ristretto.group/formulas/elligator.html
-        static calcElligatorRistrettoMap(r0: BIT) {
-            const { d } = CURVE
-            const r = math.mod(Ints.multiply(CONSTANTS.SQRT_M1, Ints.multiply(r0, r0))) // 1  SQRT_M1*r0*r0
-            const Ns = math.mod(Ints.multiply(Ints.add(r, toBigInt(1)), CONSTANTS.ONE_MINUS_D_SQ)) // 2  (r + 1)*ONE_MINUS_D_SQ
-            let c = toBigInt(-1) // 3
-            const D = math.mod(Ints.multiply(Ints.subtract(c, Ints.multiply(d, r)), math.mod(Ints.add(r, d)))) // 4 (c - d * r) * mod(r + d)
-            const uvr = math.uvRatio(Ns, D) // 5
+        static calcElligatorRistrettoMap(r0: BIT | FieldElement) {
+            r0 = fe(r0)
+            const r = SQRT_M1.multiply(r0.square()) // 1  SQRT_M1*r0*r0
+            const Ns = r.add(ONE).multiply(ONE_MINUS_D_SQ) // 2  (r + 1)*ONE_MINUS_D_SQ
+            let c = ONE.negate() // 3
+            const D = c.subtract(d.multiply(r)).multiply(r.add(d)) // 4 (c - d * r) * (r + d)
+            const uvr = FieldElement.uvRatio(Ns, D) // 5
             const Ns_D_is_sq = uvr.isValid
             let s = uvr.value
 
-            let s_ = math.mod(Ints.multiply(s, r0)) // 6
-            if (!math.edIsNegative(s_)) s_ = math.mod(Ints.unaryMinus(s_))
+            let s_ = s.multiply(r0) // 6
+            if (!s_.isNegative()) s_ = s_.negate()
             if (!Ns_D_is_sq) s = s_ // 7
             if (!Ns_D_is_sq) c = r // 8
-            const Nt = math.mod(
-                Ints.subtract(
-                    Ints.multiply(Ints.multiply(c, Ints.subtract(r, toBigInt(1))), CONSTANTS.D_MINUS_ONE_SQ),
-                    D
-                )
-            ) // 9   c * (r - jsbi(1)) * D_MINUS_ONE_SQ - D
-            const s2 = Ints.multiply(s, s)
-            const W0 = math.mod(Ints.multiply(Ints.add(s, s), D)) // 10    (s + s) * D
-            const W1 = math.mod(Ints.multiply(Nt, CONSTANTS.SQRT_AD_MINUS_ONE)) // 11  Nt * SQRT_AD_MINUS_ONE
-            const W2 = math.mod(Ints.subtract(toBigInt(1), s2)) // 12  1 - s2
-            const W3 = math.mod(Ints.add(toBigInt(1), s2)) // 13  1 + s2
-            return new ExtendedPoint(
-                math.mod(Ints.multiply(W0, W3)),
-                math.mod(Ints.multiply(W2, W1)),
-                math.mod(Ints.multiply(W1, W3)),
-                math.mod(Ints.multiply(W0, W2))
-            )
+            const Nt = c.multiply(r.subtract(ONE)).multiply(D_MINUS_ONE_SQ).subtract(D) // 9   c * (r - 1) * D_MINUS_ONE_SQ - D
+            const s2 = s.square()
+            const W0 = s.add(s).multiply(D) // 10    (s + s) * D
+            const W1 = Nt.multiply(SQRT_AD_MINUS_ONE) // 11  Nt * SQRT_AD_MINUS_ONE
+            const W2 = ONE.subtract(s2) // 12  1 - s2
+            const W3 = ONE.add(s2) // 13  1 + s2
+            return new ExtendedPoint(W0.multiply(W3), W2.multiply(W1), W1.multiply(W3), W0.multiply(W2))
         }
 
         // Ristretto: Decoding to Extended Coordinates
         // https://ristretto.group/formulas/decoding.html
         static fromRistrettoBytes(bytes: Uint8Array): ExtendedPoint {
-            const { a, d } = CURVE
             const emsg = 'ExtendedPoint.fromRistrettoBytes: Cannot convert bytes to Ristretto Point'
-            const s = ExtendedPoint.bytes255ToNumberLE(bytes)
+            const s = ExtendedPoint.bytes255ToFieldElement(bytes)
             // 1. Check that s_bytes is the canonical encoding of a field element, or else abort.
             // 3. Check that s is non-negative, or else abort
-            if (!equalBytes(serializer.numberToBytesPadded(s, B32), bytes) || math.edIsNegative(s))
-                throw new Error(emsg)
-            const s2 = math.mod(Ints.multiply(s, s))
-            const u1 = math.mod(Ints.add(toBigInt(1), Ints.multiply(a, s2))) // 4 (a is -1)    1 + a * s2
-            const u2 = math.mod(Ints.subtract(toBigInt(1), Ints.multiply(a, s2))) // 5  1 - a * s2
-            const u1_2 = math.mod(Ints.multiply(u1, u1))
-            const u2_2 = math.mod(Ints.multiply(u2, u2))
-            const v = math.mod(Ints.subtract(Ints.multiply(a, Ints.multiply(d, u1_2)), u2_2)) // 6
-            const { isValid, value: I } = math.invertSqrt(math.mod(Ints.multiply(v, u2_2))) // 7
-            const Dx = math.mod(Ints.multiply(I, u2)) // 8
-            const Dy = math.mod(Ints.multiply(Ints.multiply(I, Dx), v)) // 9
-            let x = math.mod(Ints.multiply(Ints.add(s, s), Dx)) // 10
-            if (math.edIsNegative(x)) x = math.mod(Ints.unaryMinus(x)) // 10
-            const y = math.mod(Ints.multiply(u1, Dy)) // 11
-            const t = math.mod(Ints.multiply(x, y)) // 12
-            if (!isValid || math.edIsNegative(t) || Ints.equal(y, toBigInt(0))) throw new Error(emsg)
-            return new ExtendedPoint(x, y, toBigInt(1), t)
+            if (!equalBytes(s.toBytes(), bytes) || s.isNegative()) throw new InvalidPointEncodingError(emsg)
+            const s2 = s.square()
+            const u1 = ONE.subtract(s2) // 4 (a is -1)    1 + a * s2
+            const u2 = ONE.add(s2) // 5  1 - a * s2
+            const u1_2 = u1.square()
+            const u2_2 = u2.square()
+            const v = d.multiply(u1_2).negate().subtract(u2_2) // 6  a * d * u1_2 - u2_2
+            const { isValid, value: I } = v.multiply(u2_2).invertSqrt() // 7
+            const Dx = I.multiply(u2) // 8
+            const Dy = I.multiply(Dx).multiply(v) // 9
+            let x = s.add(s).multiply(Dx) // 10
+            if (x.isNegative()) x = x.negate() // 10
+            const y = u1.multiply(Dy) // 11
+            const t = x.multiply(y) // 12
+            if (!isValid || t.isNegative() || y.isZero()) throw new InvalidPointEncodingError(emsg)
+            return new ExtendedPoint(x, y, ONE, t)
         }
 
         // Ristretto: Encoding from Extended Coordinates
         // https://ristretto.group/formulas/encoding.html
         toRistrettoBytes(): Uint8Array {
-            let { x, y } = this
-            const { z, t } = this
-            const u1 = math.mod(Ints.multiply(Ints.add(z, y), Ints.subtract(z, y))) // 1  (z+y)*(z-y)
-            const u2 = math.mod(Ints.multiply(x, y)) // 2
+            let { X: x, Y: y } = this
+            const { Z: z, T: t } = this
+            const u1 = z.add(y).multiply(z.subtract(y)) // 1  (z+y)*(z-y)
+            const u2 = x.multiply(y) // 2
             // Square root always exists
-            const { value: invsqrt } = math.invertSqrt(math.mod(Ints.multiply(Ints.multiply(u1, u2), u2))) // 3  u1*u2^2
-            const D1 = math.mod(Ints.multiply(invsqrt, u1)) // 4
-            const D2 = math.mod(Ints.multiply(invsqrt, u2)) // 5
-            const zInv = math.mod(Ints.multiply(Ints.multiply(D1, D2), t)) // 6
-            let D: BIT // 7
-            if (math.edIsNegative(Ints.multiply(t, zInv))) {
-                ;[x, y] = [math.mod(Ints.multiply(y, CONSTANTS.SQRT_M1)), math.mod(Ints.multiply(x, CONSTANTS.SQRT_M1))]
-                D = math.mod(Ints.multiply(D1, CONSTANTS.INVSQRT_A_MINUS_D))
+            const { value: invsqrt } = u1.multiply(u2.square()).invertSqrt() // 3  u1*u2^2
+            const D1 = invsqrt.multiply(u1) // 4
+            const D2 = invsqrt.multiply(u2) // 5
+            const zInv = D1.multiply(D2).multiply(t) // 6
+            let D: FieldElement // 7
+            if (t.multiply(zInv).isNegative()) {
+                ;[x, y] = [y.multiply(SQRT_M1), x.multiply(SQRT_M1)]
+                D = D1.multiply(INVSQRT_A_MINUS_D)
             } else {
                 D = D2 // 8
             }
-            if (math.edIsNegative(Ints.multiply(x, zInv))) y = math.mod(Ints.unaryMinus(y)) // 9
-            let s = math.mod(Ints.multiply(Ints.subtract(z, y), D)) // 10 (check footer's note, no sqrt(-a))
-            if (math.edIsNegative(s)) s = math.mod(Ints.unaryMinus(s))
-            return serializer.numberToBytesPadded(s, B32) // 11
+            if (x.multiply(zInv).isNegative()) y = y.negate() // 9
+            let s = z.subtract(y).multiply(D) // 10 (check footer's note, no sqrt(-a))
+            if (s.isNegative()) s = s.negate()
+            return s.toBytes() // 11
         }
 
-        ristrettoEquals(other: ExtendedPoint): boolean {
+        ristrettoEquals(other: ExtendedPointBase<BIT>): boolean {
             // this assumes CURVE.a === -1
-            return (
-                this.equals(other) ||
-                Ints.equal(math.mod(Ints.multiply(this.y, other.y)), math.mod(Ints.multiply(this.x, other.x)))
-            )
+            const b = ExtendedPoint.fromExtended(other)
+            return this.equals(b) || this.Y.multiply(b.Y).equals(this.X.multiply(b.X))
         }
 
         // Ristretto methods end.
 
         // Compare one point to another.
-        equals(other: ExtendedPoint): boolean {
-            const b = other
-            const [T1, T2, Z1, Z2] = [this.t, b.t, this.z, b.z]
-            return Ints.equal(math.mod(Ints.multiply(T1, Z2)), math.mod(Ints.multiply(T2, Z1)))
+        equals(other: ExtendedPointBase<BIT>): boolean {
+            const b = ExtendedPoint.fromExtended(other)
+            const [T1, T2, Z1, Z2] = [this.T, b.T, this.Z, b.Z]
+            return T1.multiply(Z2).equals(T2.multiply(Z1))
         }
 
         // Inverses point to one corresponding to (x, -y) in Affine coordinates.
         negate(): ExtendedPoint {
-            return new ExtendedPoint(
-                math.mod(Ints.unaryMinus(this.x)),
-                this.y,
-                this.z,
-                math.mod(Ints.unaryMinus(this.t))
-            )
+            return new ExtendedPoint(this.X.negate(), this.Y, this.Z, this.T.negate())
         }
 
         // Fast algo for doubling Extended Point when curve's a=-1.
         // http://hyperelliptic.org/EFD/g1p/auto-twisted-extended-1.html#doubling-dbl-2008-hwcd
         // Cost: 3M + 4S + 1*a + 7add + 1*2.
         double(): ExtendedPoint {
-            const X1 = this.x
-            const Y1 = this.y
-            const Z1 = this.z
-            const { a } = CURVE
-            const A = math.mod(Ints.multiply(X1, X1))
-            const B = math.mod(Ints.multiply(Y1, Y1))
-            const C = math.mod(Ints.multiply(Ints.multiply(toBigInt(2), Z1), Z1))
-            const D = math.mod(Ints.multiply(a, A))
-            const X1pY1 = Ints.add(X1, Y1)
-            const E = math.mod(Ints.subtract(Ints.subtract(Ints.multiply(X1pY1, X1pY1), A), B))
-            const G = math.mod(Ints.add(D, B))
-            const F = math.mod(Ints.subtract(G, C))
-            const H = math.mod(Ints.subtract(D, B))
-            const X3 = math.mod(Ints.multiply(E, F))
-            const Y3 = math.mod(Ints.multiply(G, H))
-            const T3 = math.mod(Ints.multiply(E, H))
-            const Z3 = math.mod(Ints.multiply(F, G))
+            const X1 = this.X
+            const Y1 = this.Y
+            const Z1 = this.Z
+            const A = X1.square()
+            const B = Y1.square()
+            const C = Z1.square().add(Z1.square())
+            const D = A.negate() // a = -1
+            const X1pY1 = X1.add(Y1)
+            const E = X1pY1.square().subtract(A).subtract(B)
+            const G = D.add(B)
+            const F = G.subtract(C)
+            const H = D.subtract(B)
+            const X3 = E.multiply(F)
+            const Y3 = G.multiply(H)
+            const T3 = E.multiply(H)
+            const Z3 = F.multiply(G)
             return new ExtendedPoint(X3, Y3, Z3, T3)
         }
 
@@ -281,33 +537,60 @@ export function makeExtendedPointClass<BIT extends BigIntType>(
         // http://hyperelliptic.org/EFD/g1p/auto-twisted-extended-1.html#addition-add-2008-hwcd-4
         // Cost: 8M + 8add + 2*2.
         add(other: ExtendedPointBase<BIT>): ExtendedPoint {
-            const X1 = this.x
-            const Y1 = this.y
-            const Z1 = this.z
-            const T1 = this.t
-            const X2 = other.x
-            const Y2 = other.y
-            const Z2 = other.z
-            const T2 = other.t
-            const A = math.mod(Ints.multiply(Ints.subtract(Y1, X1), Ints.add(Y2, X2)))
-            const B = math.mod(Ints.multiply(Ints.add(Y1, X1), Ints.subtract(Y2, X2)))
-            const F = math.mod(Ints.subtract(B, A))
-            if (Ints.equal(F, toBigInt(0))) {
-                // Same point.
-                return this.double()
-            }
-            const C = math.mod(Ints.multiply(Ints.multiply(Z1, toBigInt(2)), T2))
-            const D = math.mod(Ints.multiply(Ints.multiply(T1, toBigInt(2)), Z2))
-            const E = math.mod(Ints.add(D, C))
-            const G = math.mod(Ints.add(B, A))
-            const H = math.mod(Ints.subtract(D, C))
-            const X3 = math.mod(Ints.multiply(E, F))
-            const Y3 = math.mod(Ints.multiply(G, H))
-            const T3 = math.mod(Ints.multiply(E, H))
-            const Z3 = math.mod(Ints.multiply(F, G))
+            const b = ExtendedPoint.fromExtended(other)
+            const X1 = this.X
+            const Y1 = this.Y
+            const Z1 = this.Z
+            const T1 = this.T
+            const X2 = b.X
+            const Y2 = b.Y
+            const Z2 = b.Z
+            const T2 = b.T
+            const A = Y1.subtract(X1).multiply(Y2.add(X2))
+            const B = Y1.add(X1).multiply(Y2.subtract(X2))
+            const F = B.subtract(A)
+            const G = B.add(A)
+            // These formulas fail when the points are equal or differ by a point of order 2 or 4.
+            // The branch depends on the points, so secret points go through addUnified instead.
+            if (F.isZero() || G.isZero()) return this.addUnified(b)
+            const C = Z1.add(Z1).multiply(T2)
+            // Z2 = 1 for the normalized points of precomputed tables
+            const D = Z2 === ONE ? T1.add(T1) : T1.add(T1).multiply(Z2)
+            const E = D.add(C)
+            const H = D.subtract(C)
+            const X3 = E.multiply(F)
+            const Y3 = G.multiply(H)
+            const T3 = E.multiply(H)
+            const Z3 = F.multiply(G)
             return new ExtendedPoint(X3, Y3, Z3, T3)
         }
 
+        // This point when flag is 0 and other when flag is 1, without branching on flag.
+        select(other: ExtendedPoint, flag: number): ExtendedPoint {
+            return new ExtendedPoint(
+                FieldElement.select(this.X, other.X, flag),
+                FieldElement.select(this.Y, other.Y, flag),
+                FieldElement.select(this.Z, other.Z, flag),
+                FieldElement.select(this.T, other.T, flag)
+            )
+        }
+
+        // Complete addition with k = 2d, correct for any two points but slower. Unlike add, it
+        // doesn't branch on the points, so it is the one to use with secret inputs.
+        // http://hyperelliptic.org/EFD/g1p/auto-twisted-extended-1.html#addition-add-2008-hwcd-3
+        // Cost: 9M + 8add + 1*2.
+        addUnified(other: ExtendedPoint): ExtendedPoint {
+            const A = this.Y.subtract(this.X).multiply(other.Y.subtract(other.X))
+            const B = this.Y.add(this.X).multiply(other.Y.add(other.X))
+            const C = this.T.multiply(D2).multiply(other.T)
+            const D = this.Z.add(this.Z).multiply(other.Z)
+            const E = B.subtract(A)
+            const F = D.subtract(C)
+            const G = D.add(C)
+            const H = B.add(A)
+            return new ExtendedPoint(E.multiply(F), G.multiply(H), F.multiply(G), E.multiply(H))
+        }
+
         subtract(other: ExtendedPointBase<BIT>): ExtendedPoint {
             return this.add(other.negate())
         }
@@ -316,11 +599,12 @@ export function makeExtendedPointClass<BIT extends BigIntType>(
         // It's faster, but should only be used when you don't care about
         // an exposed private key e.g. sig verification.
         multiplyUnsafe(scalar: BIT): ExtendedPoint {
-            if (!serializer.isValidScalar(scalar)) throw new TypeError('Point#multiply: expected number or bigint')
+            if (!serializer.isValidScalar(scalar))
+                throw new InvalidScalarError('Point#multiply: expected number or bigint')
             let n = math.mod(scalar, CURVE.n)
             if (Ints.equal(n, toBigInt(1))) return this
             let p = ExtendedPoint.ZERO
-            let d: ExtendedPoint = new ExtendedPoint(this.x, this.y, this.z, this.t)
+            let d: ExtendedPoint = new ExtendedPoint(this.X, this.Y, this.Z, this.T)
             while (Ints.greaterThan(n, toBigInt(0))) {
                 if (Ints.NE(Ints.bitwiseAnd(n, toBigInt(1)), 0)) p = p.add(d)
                 d = d.double()
@@ -332,7 +616,7 @@ export function makeExtendedPointClass<BIT extends BigIntType>(
         precomputeWindow(W: number): ExtendedPoint[] {
             const windows = 256 / W + 1
             const points: ExtendedPoint[] = []
-            let p = new ExtendedPoint(this.x, this.y, this.z, this.t)
+            let p = new ExtendedPoint(this.X, this.Y, this.Z, this.T)
             let base = p
             for (let window = 0; window < windows; window++) {
                 base = p
@@ -350,51 +634,45 @@ export function makeExtendedPointClass<BIT extends BigIntType>(
             if (!affinePoint && this.equals(ExtendedPoint.BASE)) affinePoint = POINT_BASE
             const W = (affinePoint && affinePoint._WINDOW_SIZE) || 1
             if (256 % W) {
-                throw new Error('Point#wNAF: Invalid precomputation window, must be power of 2')
+                throw new InvalidArgumentError('Point#wNAF: Invalid precomputation window, must be power of 2')
             }
 
             let precomputes = affinePoint && ExtendedPoint.pointPrecomputes.get(affinePoint)
             if (!precomputes) {
-                precomputes = this.precomputeWindow(W)
                 if (affinePoint && W !== 1) {
-                    precomputes = ExtendedPoint.normalizeZ(precomputes)
+                    precomputes = ExtendedPoint.windowPrecomputes(this, W)
                     ExtendedPoint.pointPrecomputes.set(affinePoint, precomputes)
+                } else {
+                    precomputes = this.precomputeWindow(W)
                 }
             }
+            return ExtendedPoint.wNAFWithPrecomputes(n, W, precomputes)
+        }
 
+        // The wNAF loop over a table produced by precomputeWindow(W).
+        // Returns the product and the sum of fake additions that keep the operation count constant.
+        static wNAFWithPrecomputes(n: BIT, W: number, precomputes: ExtendedPoint[]): [ExtendedPoint, ExtendedPoint] {
             let p = ExtendedPoint.ZERO
             let f = ExtendedPoint.ZERO
 
             const windows = 256 / W + 1
             const windowSize = 2 ** (W - 1)
 
-            const mask = Ints.BigInt(2 ** W - 1) // Create mask with W ones: 0b1111 for W=4 etc.
-            const maxNumber = 2 ** W
-            const shiftBy = Ints.BigInt(W)
+            // Signed W-bit digits: a window bigger than windowSize is taken as negative with a carry into the next one.
+            const digits = signedDigits(serializer.numberToBytesPadded(n, B32), W, windows)
 
             for (let window = 0; window < windows; window++) {
                 const offset = window * windowSize
-                // Extract W bits.
-                // let wbits = Number(n & mask);
-                let wbits = Ints.toNumber(Ints.bitwiseAnd(n, mask))
-
-                // Shift number by W bits.
-                n = Ints.signedRightShift(n, shiftBy) // n >>= shiftBy;
-
-                // If the bits are bigger than max size, we'll split those.
-                // +224 => 256 - 32
-                if (wbits > windowSize) {
-                    wbits -= maxNumber
-                    n = Ints.add(n, toBigInt(1))
-                }
+                const wbits = digits[window]
 
                 // Check if we're onto Zero point.
                 // Add random point inside current window to f.
                 if (wbits === 0) {
                     f = f.add(window % 2 ? precomputes[offset].negate() : precomputes[offset])
+                } else if (wbits > 0) {
+                    p = p.add(precomputes[offset + wbits - 1])
                 } else {
-                    const cached = precomputes[offset + Math.abs(wbits) - 1]
-                    p = p.add(wbits < 0 ? cached.negate() : cached)
+                    p = p.add(precomputes[offset - wbits - 1].negate())
                 }
             }
 
@@ -405,18 +683,55 @@ export function makeExtendedPointClass<BIT extends BigIntType>(
         // Uses wNAF method. Windowed method may be 10% faster,
         // but takes 2x longer to generate and consumes 2x memory.
         multiply(scalar: number | BIT, affinePoint?: PointData<BIT>): ExtendedPoint {
-            if (!serializer.isValidScalar(scalar)) throw new TypeError('Point#multiply: expected number or bigint')
+            if (!serializer.isValidScalar(scalar))
+                throw new InvalidScalarError('Point#multiply: expected number or bigint')
             const s: BIT = typeof scalar === 'number' ? toBigInt(scalar) : scalar
             const n = math.mod(s, CURVE.n)
             const normed = ExtendedPoint.normalizeZ(this.wNAF(n, affinePoint))[0]
             return normed
         }
 
+        // -X²Z² + Y²Z² = Z⁴ + dX²Y² and XY = ZT, the curve equation in extended coordinates.
+        // https://eprint.iacr.org/2008/522 section 3
+        isOnCurve(): boolean {
+            if (this.Z.isZero()) return false
+            const X2 = this.X.square()
+            const Y2 = this.Y.square()
+            const Z2 = this.Z.square()
+            const left = Y2.subtract(X2).multiply(Z2)
+            const right = Z2.square().add(d.multiply(X2).multiply(Y2))
+            return left.equals(right) && this.X.multiply(this.Y).equals(this.Z.multiply(this.T))
+        }
+
+        // Points of ℰ8, the 8-torsion subgroup, are the ones that 8P sends to the identity.
+        isSmallOrder(): boolean {
+            return isIdentity(this.clearCofactor())
+        }
+
+        // Whether the point is in the prime order subgroup, i.e. ℓP is the identity.
+        isTorsionFree(): boolean {
+            return isIdentity(ExtendedPoint.straus([ORDER_BYTES], [this]))
+        }
+
+        // 8P, which is always in the prime order subgroup.
+        clearCofactor(): ExtendedPoint {
+            return this.double().double().double()
+        }
+
+        // The part of the point in ℰ8: P = A + T with ℓA the identity. ℓP = ℓT, and as ℓ ≡ 5 mod 8
+        // and 5·5 ≡ 1 mod 8, T = 5ℓP.
+        torsionComponent(): ExtendedPoint {
+            const lP = ExtendedPoint.straus([ORDER_BYTES], [this])
+            return lP.double().double().add(lP)
+        }
+
         // Converts Extended point to default (x, y) coordinates.
         // Can accept precomputed Z^-1 - for example, from invertBatch.
-        toAffine(invZ: BIT = math.invert(this.z)): PointData<BIT> {
-            const x = math.mod(Ints.multiply(this.x, invZ))
-            const y = math.mod(Ints.multiply(this.y, invZ))
+        toAffine(invZ?: FieldElement): PointData<BIT> {
+            // Points from normalizeZ share the ONE constant, so no inversion is needed.
+            if (!invZ) invZ = this.Z === ONE ? ONE : this.Z.invert()
+            const x = math.fromFieldElement(this.X.multiply(invZ))
+            const y = math.fromFieldElement(this.Y.multiply(invZ))
             return { x, y }
         }
     }
@@ -424,6 +739,7 @@ export function makeExtendedPointClass<BIT extends BigIntType>(
 
 export function makePointClass<BIT extends BigIntType>(
     CURVE: CurveType<BIT>,
+    CONSTANTS: Constants<BIT>,
     Ints: Integers<BIT>,
     serializer: SerializationFunctions<BIT>,
     math: MathFunctions<BIT>,
@@ -432,6 +748,7 @@ export function makePointClass<BIT extends BigIntType>(
     ExtendedPointClass: ExtendedPointStatic<BIT>,
     sha512Impl?: Hash
 ): PointStatic<BIT> {
+    const d = math.toFieldElement(CURVE.d)
     return class Point {
         // Base point aka generator
         // public_key = Point.BASE * private_key
@@ -458,12 +775,32 @@ export function makePointClass<BIT extends BigIntType>(
             return cached
         }
 
+        // The precompute table of a point with a window size, as from precompute, in bytes.
+        static exportPrecomputes(point = Point.BASE): Uint8Array {
+            const W = point._WINDOW_SIZE
+            if (!W || W === 1) throw new InvalidArgumentError('Point.exportPrecomputes: point has no precomputes')
+            if (!ExtendedPointClass.pointPrecomputes.has(point)) point.multiply(toBigInt(1))
+            const precomputes = ExtendedPointClass.pointPrecomputes.get(point) as ExtendedPointBase<BIT>[]
+            return ExtendedPointClass.encodePrecomputes(W, precomputes)
+        }
+
+        // Gives point the window size and precomputes of an exported table, after checking that
+        // the table belongs to it. Multiplications by point then skip computing the table.
+        static loadPrecomputes(bytes: Uint8Array, point = Point.BASE): typeof Point.BASE {
+            const { W, precomputes } = ExtendedPointClass.decodePrecomputes(bytes, ExtendedPointClass.fromAffine(point))
+            point._setWindowSize(W)
+            ExtendedPointClass.pointPrecomputes.set(point, precomputes)
+            return point
+        }
+
         // Converts hash string or Uint8Array to Point.
         // Uses algo from RFC8032 5.1.3.
-        static fromHex(hash: Hex) {
-            const { d, P } = CURVE
+        // With zip215, non-canonical encodings are accepted as in ZIP 215:
+        // y may be up to 2²⁵⁵ - 1 and is reduced mod p, and x = 0 may come with x_0 = 1.
+        // https://zips.z.cash/zip-0215
+        static fromHex(hash: Hex, zip215 = false) {
             const bytes = hash instanceof Uint8Array ? hash : hexToBytes(hash)
-            if (bytes.length !== 32) throw new Error('Point.fromHex: expected 32 bytes')
+            if (bytes.length !== 32) throw new InvalidPointEncodingError('Point.fromHex: expected 32 bytes')
             // 1.  First, interpret the string as an integer in little-endian
             // representation. Bit 255 of this number is the least significant
             // bit of the x-coordinate and denote this value x_0.  The
@@ -473,29 +810,33 @@ export function makePointClass<BIT extends BigIntType>(
             const normedLast = last & ~0x80
             const isLastByteOdd = (last & 0x80) !== 0
             const normed = Uint8Array.from(Array.from(bytes.slice(0, 31)).concat(normedLast))
-            const y = serializer.bytesToNumberLE(normed)
-            if (Ints.greaterThanOrEqual(y, P)) throw new Error('Point.fromHex expects hex <= Fp')
+            const y = FieldElement.fromBytes(normed)
+            // y >= p exactly when reducing it changes the encoding
+            if (!zip215 && !equalBytes(y.toBytes(), normed))
+                throw new InvalidPointEncodingError('Point.fromHex expects hex <= Fp')
 
             // 2.  To recover the x-coordinate, the curve equation implies
             // x² = (y² - 1) / (d y² + 1) (mod p).  The denominator is always
             // non-zero mod p.  Let u = y² - 1 and v = d y² + 1.
-            const y2 = math.mod(Ints.multiply(y, y))
-            const u = math.mod(Ints.subtract(y2, toBigInt(1)))
-            const v = math.mod(Ints.add(Ints.multiply(d, y2), toBigInt(1)))
+            const y2 = y.square()
+            const u = y2.subtract(FieldElement.ONE)
+            const v = d.multiply(y2).add(FieldElement.ONE)
 
-            const uvr = math.uvRatio(u, v)
+            const uvr = FieldElement.uvRatio(u, v)
             const isValid = uvr.isValid
             let x = uvr.value
-            if (!isValid) throw new Error('Point.fromHex: invalid y coordinate')
+            if (!isValid) throw new InvalidPointEncodingError('Point.fromHex: invalid y coordinate')
 
             // 4.  Finally, use the x_0 bit to select the right square root.  If
             // x = 0, and x_0 = 1, decoding fails.  Otherwise, if x_0 != x mod
             // 2, set x <-- p - x.  Return the decoded point (x,y).
-            const isXOdd = Ints.equal(Ints.bitwiseAnd(x, toBigInt(1)), toBigInt(1))
-            if (isLastByteOdd !== isXOdd) {
-                x = math.mod(Ints.unaryMinus(x))
+            if (!zip215 && isLastByteOdd && x.isZero()) {
+                throw new InvalidPointEncodingError('Point.fromHex: x = 0 with x_0 = 1')
             }
-            return new Point(x, y)
+            if (isLastByteOdd !== x.isNegative()) {
+                x = x.negate()
+            }
+            return new Point(math.fromFieldElement(x), math.fromFieldElement(y))
         }
 
         static async fromPrivateKey(privateKey: PrivKey<BIT>) {
@@ -503,6 +844,12 @@ export function makePointClass<BIT extends BigIntType>(
             return Point.BASE.multiply(keyUtils.encodePrivate(privBytes))
         }
 
+        // Needs a synchronous Hash, see sha512Sync.
+        static fromPrivateKeySync(privateKey: PrivKey<BIT>) {
+            const privBytes = sha512Sync(keyUtils.normalizePrivateKey(privateKey), sha512Impl)
+            return Point.BASE.multiply(keyUtils.encodePrivate(privBytes))
+        }
+
         /**
          * Converts point to compressed representation of its Y.
          * ECDSA uses `04${x}${y}` to represent long form and
@@ -511,11 +858,7 @@ export function makePointClass<BIT extends BigIntType>(
          * EDDSA (ed25519) uses short form.
          */
         toRawBytes(): Uint8Array {
-            const hex = serializer.numberToHex(this.y)
-            const u8 = new Uint8Array(B32)
-            for (let i = hex.length - 2, j = 0; j < B32 && i >= 0; i -= 2, j++) {
-                u8[j] = Number.parseInt(hex[i] + hex[i + 1], 16)
-            }
+            const u8 = serializer.numberToBytesPadded(this.y, B32)
             // const mask = this.x & jsbi(1) ? 0x80 : 0;
             const mask = Ints.NE(Ints.bitwiseAnd(this.x, toBigInt(1)), 0) ? 0x80 : 0
             u8[B32 - 1] |= mask
@@ -527,8 +870,30 @@ export function makePointClass<BIT extends BigIntType>(
             return bytesToHex(this.toRawBytes())
         }
 
+        // Converts Montgomery u-coordinate back to ed25519.
+        // u only determines y, so the sign of x has to be given: it is bit 255 of the ed25519 encoding.
+        // y = (u - 1) / (u + 1)
+        static fromX25519(u: BIT | Hex, signBit = 0): Point {
+            let uNum: BIT
+            if (typeof u === 'string' || u instanceof Uint8Array) {
+                const bytes = u instanceof Uint8Array ? Uint8Array.from(u) : hexToBytes(u)
+                if (bytes.length !== B32) throw new InvalidPointEncodingError('Point.fromX25519: expected 32 bytes')
+                bytes[B32 - 1] &= 0x7f
+                uNum = serializer.bytesToNumberLE(bytes)
+            } else {
+                uNum = u
+            }
+            uNum = math.mod(uNum)
+            const denominator = math.mod(Ints.add(uNum, toBigInt(1)))
+            if (Ints.equal(denominator, toBigInt(0)))
+                throw new InvalidPointEncodingError('Point.fromX25519: u = -1 has no ed25519 point')
+            const y = math.mod(Ints.multiply(Ints.subtract(uNum, toBigInt(1)), math.invert(denominator)))
+            const encoded = serializer.numberToBytesPadded(y, B32)
+            if (signBit) encoded[B32 - 1] |= 0x80
+            return Point.fromHex(encoded)
+        }
+
         // Converts to Montgomery; aka x coordinate of curve25519.
-        // We don't have fromX25519, because we don't know sign!
         toX25519(): BIT {
             // curve25519 is birationally equivalent to ed25519
             // x, y: ed25519 coordinates
@@ -540,6 +905,21 @@ export function makePointClass<BIT extends BigIntType>(
             )
         }
 
+        // The u-coordinate as the 32 byte little-endian X25519 public key.
+        toX25519Bytes(): Uint8Array {
+            return serializer.numberToBytesPadded(this.toX25519(), B32)
+        }
+
+        // Both Montgomery coordinates: v = √(-486664)·u / x
+        // https://tools.ietf.org/html/rfc7748#section-4.1
+        toMontgomery(): { u: BIT; v: BIT } {
+            const u = this.toX25519()
+            // (0, -1) maps to the 2-torsion point (0, 0).
+            if (Ints.equal(this.x, toBigInt(0))) return { u, v: toBigInt(0) }
+            const v = math.mod(Ints.multiply(Ints.multiply(CONSTANTS.SQRT_M486664, u), math.invert(this.x)))
+            return { u, v }
+        }
+
         equals(other: Point): boolean {
             return Ints.equal(this.x, other.x) && Ints.equal(this.y, other.y)
         }
@@ -565,7 +945,108 @@ export function makePointClass<BIT extends BigIntType>(
             const aff = prod.toAffine()
             return new Point(aff.x, aff.y)
         }
+
+        // -x² + y² = 1 + dx²y²
+        isOnCurve(): boolean {
+            const x2 = math.toFieldElement(this.x).square()
+            const y2 = math.toFieldElement(this.y).square()
+            return y2.subtract(x2).equals(FieldElement.ONE.add(d.multiply(x2).multiply(y2)))
+        }
+
+        isSmallOrder(): boolean {
+            return ExtendedPointClass.fromAffine(this).isSmallOrder()
+        }
+
+        // Public keys and R of a signature should be checked with this when a torsion component
+        // must be ruled out. fromHex only checks that the point is on the curve.
+        isTorsionFree(): boolean {
+            return ExtendedPointClass.fromAffine(this).isTorsionFree()
+        }
+
+        clearCofactor(): Point {
+            const aff = ExtendedPointClass.fromAffine(this).clearCofactor().toAffine()
+            return new Point(aff.x, aff.y)
+        }
+
+        torsionComponent(): Point {
+            const aff = ExtendedPointClass.fromAffine(this).torsionComponent().toAffine()
+            return new Point(aff.x, aff.y)
+        }
+    }
+}
+
+// Below this many points Straus beats Pippenger; same cut-off as curve25519-dalek.
+const PIPPENGER_THRESHOLD = 190
+
+// Reads `width` bits (at most 24) of a little-endian byte array, starting at bit `pos`.
+function readBits(bytes: Uint8Array, pos: number, width: number): number {
+    let value = 0
+    for (let i = (pos + width - 1) >> 3; i >= pos >> 3; i--) value = value * 256 + (bytes[i] || 0)
+    return (value >>> (pos & 7)) & ((1 << width) - 1)
+}
+
+// Width-w non-adjacent form of a scalar below 2^255: every nonzero digit is odd,
+// lies in (-2^(w-1), 2^(w-1)) and is followed by at least w-1 zeros.
+function wNafDigits(scalar: Uint8Array, w: number): Int8Array {
+    const naf = new Int8Array(256)
+    const width = 1 << w
+    let pos = 0
+    let carry = 0
+    while (pos < 256) {
+        const window = carry + readBits(scalar, pos, w)
+        if ((window & 1) === 0) {
+            pos += 1
+            continue
+        }
+        if (window < width / 2) {
+            carry = 0
+            naf[pos] = window
+        } else {
+            carry = 1
+            naf[pos] = window - width
+        }
+        pos += w
+    }
+    return naf
+}
+
+// Signed radix-2^w digits in [-2^(w-1), 2^(w-1)] such that scalar = Σ digits[i]·2^(w·i).
+function signedDigits(scalar: Uint8Array, w: number, count: number): Int16Array {
+    const digits = new Int16Array(count)
+    const half = 1 << (w - 1)
+    let carry = 0
+    for (let i = 0; i < count; i++) {
+        const d = carry + readBits(scalar, i * w, w)
+        carry = d > half ? 1 : 0
+        digits[i] = d - carry * (1 << w)
     }
+    return digits
+}
+
+const PRECOMPUTES_VERSION = 1
+// Version, window size and the encoded point
+const PRECOMPUTES_HEADER = 2 + B32
+
+// The length of precomputeWindow(W)
+function precomputeCount(W: number): number {
+    return (256 / W + 1) * 2 ** (W - 1)
+}
+
+// The usual point encoding, y with the sign of x in bit 255
+function encodeAffine(x: FieldElement, y: FieldElement): Uint8Array {
+    const bytes = y.toBytes()
+    if (x.isNegative()) bytes[B32 - 1] |= 0x80
+    return bytes
+}
+
+// Projective equality of both coordinates
+function sameAffine(p: { X: FieldElement; Y: FieldElement; Z: FieldElement }, q: typeof p): boolean {
+    return p.X.multiply(q.Z).equals(q.X.multiply(p.Z)) && p.Y.multiply(q.Z).equals(q.Y.multiply(p.Z))
+}
+
+// The identity is (0, 1), i.e. X = 0 and Y = Z in extended coordinates.
+function isIdentity(p: { X: FieldElement; Y: FieldElement; Z: FieldElement }): boolean {
+    return p.X.isZero() && p.Y.equals(p.Z)
 }
 
 function equalBytes(b1: Uint8Array, b2: Uint8Array) {
@@ -0,0 +1,201 @@
+import { CurveType } from './curve'
+import { expandMessageXmd, Hash } from './hash'
+import { BigIntType, Integers } from './integers'
+import { MathFunctions } from './math'
+import { ExtendedPointBase, ExtendedPointStatic } from './points'
+import { B32, bytesToHex, Hex, hexToBytes, IntFactory, SerializationFunctions, Utf8OrBytes } from './serialization'
+import { InvalidArgumentError, InvalidLengthError, InvalidPointEncodingError, InvalidScalarError } from './errors'
+
+export interface RistrettoPointOps<BIT> {
+    toRawBytes(): Uint8Array
+    toHex(): string
+    equals(other: RistrettoPointBase<BIT>): boolean
+    add(other: RistrettoPointBase<BIT>): RistrettoPointBase<BIT>
+    subtract(other: RistrettoPointBase<BIT>): RistrettoPointBase<BIT>
+    negate(): RistrettoPointBase<BIT>
+    multiply(scalar: number | BIT): RistrettoPointBase<BIT>
+    multiplyUnsafe(scalar: BIT): RistrettoPointBase<BIT>
+    _setWindowSize(w: number): void
+}
+
+export interface RistrettoPointData {
+    _WINDOW_SIZE?: number
+}
+
+export type RistrettoPointBase<BIT> = RistrettoPointData & RistrettoPointOps<BIT>
+
+export interface RistrettoPointStatic<BIT> {
+    fromHex(hex: Hex): RistrettoPointBase<BIT>
+    hashToGroup(uniformBytes: Hex): RistrettoPointBase<BIT>
+    multiScalarMul(scalars: (number | BIT)[], points: RistrettoPointBase<BIT>[]): RistrettoPointBase<BIT>
+    precompute(windowSize?: number, point?: RistrettoPointBase<BIT>): RistrettoPointBase<BIT>
+    exportPrecomputes(point?: RistrettoPointBase<BIT>): Uint8Array
+    loadPrecomputes(bytes: Uint8Array, point?: RistrettoPointBase<BIT>): RistrettoPointBase<BIT>
+    pointPrecomputes: WeakMap<RistrettoPointBase<BIT>, ExtendedPointBase<BIT>[]>
+    ZERO: RistrettoPointBase<BIT>
+    BASE: RistrettoPointBase<BIT>
+}
+
+// Elements of the prime order group ristretto255. https://ristretto.group
+// Each element wraps one of the Edwards points in its coset. Only operations that are
+// well defined on the quotient group are exposed, so Edwards and Ristretto semantics can't mix.
+export function makeRistrettoPointClass<BIT extends BigIntType>(
+    CURVE: CurveType<BIT>,
+    Ints: Integers<BIT>,
+    serializer: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>,
+    toBigInt: IntFactory<BIT>,
+    ExtendedPointClass: ExtendedPointStatic<BIT>
+): RistrettoPointStatic<BIT> {
+    return class RistrettoPoint {
+        static BASE = new RistrettoPoint(ExtendedPointClass.BASE)
+        static ZERO = new RistrettoPoint(ExtendedPointClass.ZERO)
+
+        // Stores precomputed values for points, separately from ExtendedPoint.pointPrecomputes.
+        static pointPrecomputes = new WeakMap<RistrettoPoint, ExtendedPointBase<BIT>[]>()
+
+        _WINDOW_SIZE?: number
+
+        constructor(private readonly ep: ExtendedPointBase<BIT>) {}
+
+        // "Private method", don't use it directly.
+        _setWindowSize(windowSize: number) {
+            this._WINDOW_SIZE = windowSize
+            RistrettoPoint.pointPrecomputes.delete(this)
+        }
+
+        static precompute(windowSize = 8, point = RistrettoPoint.BASE): RistrettoPoint {
+            const cached = point === RistrettoPoint.BASE ? point : new RistrettoPoint(point.ep)
+            cached._setWindowSize(windowSize)
+            cached.multiply(toBigInt(1))
+            return cached
+        }
+
+        // Same as Point.exportPrecomputes. The table is of the representative, so it only loads
+        // back into a RistrettoPoint with the same representative, like one from the same bytes.
+        static exportPrecomputes(point = RistrettoPoint.BASE): Uint8Array {
+            const W = point._WINDOW_SIZE
+            if (!W || W === 1)
+                throw new InvalidArgumentError('RistrettoPoint.exportPrecomputes: point has no precomputes')
+            if (!RistrettoPoint.pointPrecomputes.has(point)) point.multiply(toBigInt(1))
+            const precomputes = RistrettoPoint.pointPrecomputes.get(point) as ExtendedPointBase<BIT>[]
+            return ExtendedPointClass.encodePrecomputes(W, precomputes)
+        }
+
+        static loadPrecomputes(bytes: Uint8Array, point = RistrettoPoint.BASE): RistrettoPoint {
+            const { W, precomputes } = ExtendedPointClass.decodePrecomputes(bytes, point.ep)
+            point._setWindowSize(W)
+            RistrettoPoint.pointPrecomputes.set(point, precomputes)
+            return point
+        }
+
+        static fromHex(hex: Hex): RistrettoPoint {
+            const bytes = hex instanceof Uint8Array ? hex : hexToBytes(hex)
+            if (bytes.length !== B32) throw new InvalidPointEncodingError('RistrettoPoint.fromHex: expected 32 bytes')
+            return new RistrettoPoint(ExtendedPointClass.fromRistrettoBytes(bytes))
+        }
+
+        // Maps 64 uniformly random bytes to the group by applying Elligator twice.
+        static hashToGroup(uniformBytes: Hex): RistrettoPoint {
+            const bytes = uniformBytes instanceof Uint8Array ? uniformBytes : hexToBytes(uniformBytes)
+            if (bytes.length !== B32 * 2) throw new InvalidLengthError('RistrettoPoint.hashToGroup: expected 64 bytes')
+            return new RistrettoPoint(ExtendedPointClass.fromRistrettoHash(bytes))
+        }
+
+        // Non-constant-time, see ExtendedPoint.multiScalarMul.
+        static multiScalarMul(scalars: (number | BIT)[], points: RistrettoPoint[]): RistrettoPoint {
+            const eps = points.map((p) => p.ep)
+            return new RistrettoPoint(ExtendedPointClass.multiScalarMul(scalars, eps))
+        }
+
+        toRawBytes(): Uint8Array {
+            return this.ep.toRistrettoBytes()
+        }
+
+        toHex(): string {
+            return bytesToHex(this.toRawBytes())
+        }
+
+        // Two representatives are equal in the group iff x1·y2 = y1·x2 or y1·y2 = x1·x2.
+        // https://ristretto.group/formulas/equality.html
+        equals(other: RistrettoPoint): boolean {
+            const a = this.ep
+            const b = other.ep
+            const one = Ints.equal(math.mod(Ints.multiply(a.x, b.y)), math.mod(Ints.multiply(a.y, b.x)))
+            const two = Ints.equal(math.mod(Ints.multiply(a.y, b.y)), math.mod(Ints.multiply(a.x, b.x)))
+            return one || two
+        }
+
+        add(other: RistrettoPoint): RistrettoPoint {
+            return new RistrettoPoint(this.ep.add(other.ep))
+        }
+
+        subtract(other: RistrettoPoint): RistrettoPoint {
+            return new RistrettoPoint(this.ep.subtract(other.ep))
+        }
+
+        negate(): RistrettoPoint {
+            return new RistrettoPoint(this.ep.negate())
+        }
+
+        // Constant time multiplication with this point's own wNAF precomputes.
+        multiply(scalar: number | BIT): RistrettoPoint {
+            if (!serializer.isValidScalar(scalar))
+                throw new InvalidScalarError('RistrettoPoint#multiply: expected number or bigint')
+            const n = math.mod(typeof scalar === 'number' ? toBigInt(scalar) : scalar, CURVE.n)
+            const W = this._WINDOW_SIZE || 1
+            if (256 % W) {
+                throw new InvalidArgumentError(
+                    'RistrettoPoint#multiply: Invalid precomputation window, must be power of 2'
+                )
+            }
+            let precomputes = RistrettoPoint.pointPrecomputes.get(this)
+            if (!precomputes) {
+                if (W !== 1) {
+                    precomputes = ExtendedPointClass.windowPrecomputes(this.ep, W)
+                    RistrettoPoint.pointPrecomputes.set(this, precomputes)
+                } else {
+                    precomputes = this.ep.precomputeWindow(W)
+                }
+            }
+            const [p] = ExtendedPointClass.wNAFWithPrecomputes(n, W, precomputes)
+            return new RistrettoPoint(p)
+        }
+
+        // Non-constant-time multiplication, for public scalars only.
+        multiplyUnsafe(scalar: BIT): RistrettoPoint {
+            return new RistrettoPoint(this.ep.multiplyUnsafe(scalar))
+        }
+    }
+}
+
+export interface Ristretto255Functions<BIT extends BigIntType> {
+    hashToGroup(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<RistrettoPointBase<BIT>>
+    deriveScalar(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<BIT>
+}
+
+// Domain separated hashing to ristretto255 elements and scalars.
+// Both expand the message to 64 uniform bytes with expand_message_xmd and SHA-512.
+export function makeRistretto255Functions<BIT extends BigIntType>(
+    CURVE: CurveType<BIT>,
+    serializer: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>,
+    RistrettoPointClass: RistrettoPointStatic<BIT>,
+    sha512Impl?: Hash
+): Ristretto255Functions<BIT> {
+    // hash_to_ristretto255: https://www.rfc-editor.org/rfc/rfc9380#appendix-B
+    // followed by element derivation: https://www.rfc-editor.org/rfc/rfc9496#section-4.3.4
+    async function hashToGroup(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<RistrettoPointBase<BIT>> {
+        const uniformBytes = await expandMessageXmd(msg, DST, B32 * 2, sha512Impl)
+        return RistrettoPointClass.hashToGroup(uniformBytes)
+    }
+
+    // 64 uniform bytes as a little-endian integer reduced modulo ℓ.
+    // https://www.rfc-editor.org/rfc/rfc9496#section-4.4
+    async function deriveScalar(msg: Utf8OrBytes, DST: Utf8OrBytes): Promise<BIT> {
+        const uniformBytes = await expandMessageXmd(msg, DST, B32 * 2, sha512Impl)
+        return math.mod(serializer.bytesToNumberLE(uniformBytes), CURVE.n)
+    }
+
+    return { hashToGroup, deriveScalar }
+}
@@ -1,9 +1,26 @@
 import { BigIntType, CurveType, Integers } from '.'
 import { MathFunctions } from './math'
-import { SerializationFunctions } from './serialization'
+import { B32, SerializationFunctions } from './serialization'
+import { randomBytes } from './utils'
+import { InvalidLengthError, NonCanonicalScalarError, NotInvertibleError, RngFailureError } from './errors'
+
+// An integer mod ℓ, the order of the prime subgroup. Made by Scalars, which keeps the value reduced,
+// so a Scalar can't be mixed up with a field element or an unreduced integer.
+export class Scalar<BIT extends BigIntType> {
+    private constructor(readonly value: BIT) {}
+
+    toString(): string {
+        return this.value.toString()
+    }
+}
+
+// The private constructor, for Scalars only. The value must already be below ℓ.
+const ReducedScalar = Scalar as unknown as new <BIT extends BigIntType>(value: BIT) => Scalar<BIT>
 
 export class Scalars<BIT extends BigIntType> {
     private _mod: BIT
+    readonly ZERO: Scalar<BIT>
+    readonly ONE: Scalar<BIT>
     constructor(
         private Ints: Integers<BIT>,
         CURVE: CurveType<BIT>,
@@ -11,6 +28,8 @@ export class Scalars<BIT extends BigIntType> {
         private _math: MathFunctions<BIT>
     ) {
         this._mod = CURVE.n
+        this.ZERO = new ReducedScalar(Ints.BigInt(0))
+        this.ONE = new ReducedScalar(Ints.BigInt(1))
     }
 
     serializeScalar(n: BIT): Uint8Array {
@@ -30,4 +49,94 @@ export class Scalars<BIT extends BigIntType> {
     deserializeNumber(buf: Uint8Array): BIT {
         return this._serializer.bytesToNumberLE(buf)
     }
+
+    // Any integer, reduced mod ℓ
+    create(n: BIT | number): Scalar<BIT> {
+        return new ReducedScalar(this._math.mod(typeof n === 'number' ? this.Ints.BigInt(n) : n, this._mod))
+    }
+
+    // 32 bytes, little-endian
+    toBytes(s: Scalar<BIT>): Uint8Array {
+        return this._serializer.numberToBytesPadded(s.value, B32)
+    }
+
+    // Whether bytes are the canonical 32 byte encoding of a scalar, i.e. below ℓ.
+    isCanonical(bytes: Uint8Array): boolean {
+        return bytes.length === B32 && this.Ints.lessThan(this._serializer.bytesToNumberLE(bytes), this._mod)
+    }
+
+    // Decodes a canonical scalar and rejects everything else, as RFC8032 and RFC9496 require for s.
+    fromCanonicalBytes(bytes: Uint8Array): Scalar<BIT> {
+        if (bytes.length !== B32) throw new InvalidLengthError('Scalars.fromCanonicalBytes: expected 32 bytes')
+        const n = this._serializer.bytesToNumberLE(bytes)
+        if (!this.Ints.lessThan(n, this._mod))
+            throw new NonCanonicalScalarError('Scalars.fromCanonicalBytes: expected scalar < ℓ')
+        return new ReducedScalar(n)
+    }
+
+    // 64 bytes, e.g. a SHA-512 digest, reduced mod ℓ. The result is close enough to uniform to
+    // derive secrets from. https://www.rfc-editor.org/rfc/rfc9496#section-4.4
+    fromWideBytes(bytes: Uint8Array): Scalar<BIT> {
+        if (bytes.length !== 2 * B32) throw new InvalidLengthError('Scalars.fromWideBytes: expected 64 bytes')
+        return this.create(this._serializer.bytesToNumberLE(bytes))
+    }
+
+    // A uniformly random non-zero scalar
+    random(): Scalar<BIT> {
+        let i = 1024
+        while (i--) {
+            const s = this.fromWideBytes(randomBytes(2 * B32))
+            if (!this.isZero(s)) return s
+        }
+        throw new RngFailureError('Scalars.random: no non-zero scalar in 1024 iterations. PRNG is broken')
+    }
+
+    equals(a: Scalar<BIT>, b: Scalar<BIT>): boolean {
+        return this.Ints.equal(a.value, b.value)
+    }
+
+    isZero(s: Scalar<BIT>): boolean {
+        return this.equals(s, this.ZERO)
+    }
+
+    add(a: Scalar<BIT>, b: Scalar<BIT>): Scalar<BIT> {
+        return this.create(this.Ints.add(a.value, b.value))
+    }
+
+    sub(a: Scalar<BIT>, b: Scalar<BIT>): Scalar<BIT> {
+        return this.create(this.Ints.subtract(a.value, b.value))
+    }
+
+    mul(a: Scalar<BIT>, b: Scalar<BIT>): Scalar<BIT> {
+        return this.create(this.Ints.multiply(a.value, b.value))
+    }
+
+    negate(s: Scalar<BIT>): Scalar<BIT> {
+        return this.create(this.Ints.unaryMinus(s.value))
+    }
+
+    invert(s: Scalar<BIT>): Scalar<BIT> {
+        if (this.isZero(s)) throw new NotInvertibleError('Scalars.invert: zero has no inverse')
+        return new ReducedScalar(this._math.invert(s.value, this._mod))
+    }
+
+    // Montgomery's trick: one inversion for the whole batch. Zeros are rejected, like in invert.
+    batchInvert(scalars: Scalar<BIT>[]): Scalar<BIT>[] {
+        if (!scalars.length) return []
+        if (scalars.some((s) => this.isZero(s)))
+            throw new NotInvertibleError('Scalars.batchInvert: zero has no inverse')
+        const prefixes: Scalar<BIT>[] = []
+        let acc = this.ONE
+        for (const s of scalars) {
+            prefixes.push(acc)
+            acc = this.mul(acc, s)
+        }
+        acc = this.invert(acc)
+        const res: Scalar<BIT>[] = new Array(scalars.length)
+        for (let i = scalars.length - 1; i >= 0; i--) {
+            res[i] = this.mul(acc, prefixes[i])
+            acc = this.mul(acc, scalars[i])
+        }
+        return res
+    }
 }
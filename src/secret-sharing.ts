@@ -0,0 +1,370 @@
+import { CurveType } from './curve'
+import { InvalidArgumentError, InvalidPointError, InvalidProofError } from './errors'
+import { Hash, makeSha512ToNumberLE } from './hash'
+import { HashToCurveFunctions } from './hash-to-curve'
+import { BigIntType } from './integers'
+import { MathFunctions } from './math'
+import { ExtendedPointBase, ExtendedPointStatic, PointBase, PointStatic } from './points'
+import { Scalar, Scalars } from './scalars'
+import { SerializationFunctions, utf8ToBytes } from './serialization'
+
+// f(identifier) for the secret polynomial f. The secret itself is f(0).
+export interface SecretShare<BIT extends BigIntType> {
+    identifier: number
+    value: Scalar<BIT>
+}
+
+export interface FeldmanDealing<BIT extends BigIntType> {
+    shares: SecretShare<BIT>[]
+    // aⱼ·B for the coefficients aⱼ of f. The first is the public key of the secret.
+    commitments: ExtendedPointBase<BIT>[]
+}
+
+export interface PedersenDealing<BIT extends BigIntType> {
+    shares: SecretShare<BIT>[]
+    // g(identifier) for a random polynomial g, sent along with each share
+    blindingShares: SecretShare<BIT>[]
+    // aⱼ·B + bⱼ·H. They reveal nothing about the secret, not even its public key.
+    commitments: ExtendedPointBase<BIT>[]
+}
+
+export interface FeldmanFunctions<BIT extends BigIntType> {
+    deal(secret: Scalar<BIT>, threshold: number, total: number): FeldmanDealing<BIT>
+    verifyShare(share: SecretShare<BIT>, commitments: ExtendedPointBase<BIT>[]): boolean
+}
+
+export interface PedersenFunctions<BIT extends BigIntType> {
+    // The second generator H, hashed to the curve so that nobody knows its discrete log to B
+    generator(): Promise<ExtendedPointBase<BIT>>
+    deal(secret: Scalar<BIT>, threshold: number, total: number): Promise<PedersenDealing<BIT>>
+    verifyShare(
+        share: SecretShare<BIT>,
+        blindingShare: SecretShare<BIT>,
+        commitments: ExtendedPointBase<BIT>[]
+    ): Promise<boolean>
+}
+
+// Kept by a participant between the rounds of the DKG
+export interface DkgSecretPackage<BIT extends BigIntType> {
+    identifier: number
+    threshold: number
+    total: number
+    coefficients: Scalar<BIT>[]
+}
+
+// Sent to all participants
+export interface DkgBroadcast<BIT extends BigIntType> {
+    identifier: number
+    commitments: ExtendedPointBase<BIT>[]
+    // A Schnorr proof of knowledge of the secret behind commitments[0], against rogue key attacks
+    proof: { R: ExtendedPointBase<BIT>; z: Scalar<BIT> }
+}
+
+// Sent privately from sender to receiver
+export interface DkgShare<BIT extends BigIntType> {
+    sender: number
+    receiver: number
+    value: Scalar<BIT>
+}
+
+export interface DkgRound1<BIT extends BigIntType> {
+    secretPackage: DkgSecretPackage<BIT>
+    broadcast: DkgBroadcast<BIT>
+    // One for each participant, this one included
+    shares: DkgShare<BIT>[]
+}
+
+export interface DkgResult<BIT extends BigIntType> {
+    secretShare: SecretShare<BIT>
+    publicKeyShare: PointBase<BIT>
+    groupPublicKey: PointBase<BIT>
+    // The sum of all participants' commitments, which every share of the group key can be checked against
+    commitments: ExtendedPointBase<BIT>[]
+}
+
+export interface DkgFunctions<BIT extends BigIntType> {
+    round1(identifier: number, threshold: number, total: number): Promise<DkgRound1<BIT>>
+    // Takes the broadcasts of all participants and the shares sent to this one. Throws InvalidProofError
+    // or InvalidArgumentError naming the participant whose proof or share doesn't check out.
+    round2(
+        secretPackage: DkgSecretPackage<BIT>,
+        broadcasts: DkgBroadcast<BIT>[],
+        shares: DkgShare<BIT>[]
+    ): Promise<DkgResult<BIT>>
+}
+
+export interface SecretSharingFunctions<BIT extends BigIntType> {
+    // Shamir's secret sharing: any threshold of the total shares give the secret back
+    split(secret: Scalar<BIT>, threshold: number, total: number): SecretShare<BIT>[]
+    // Fewer shares than the threshold give a wrong secret, not an error
+    combine(shares: SecretShare<BIT>[]): Scalar<BIT>
+    feldman: FeldmanFunctions<BIT>
+    pedersen: PedersenFunctions<BIT>
+    dkg: DkgFunctions<BIT>
+}
+
+const PEDERSEN_DST = utf8ToBytes('PR-ED25519-V01-CS01-with-edwards25519_XMD:SHA-512_ELL2_RO_')
+const PEDERSEN_MSG = utf8ToBytes('Pedersen generator H')
+const DKG_CONTEXT = utf8ToBytes('PR-ED25519-DKG-v1')
+
+// The x coordinate of a share, which is never 0: f(0) is the secret.
+export function shareIndex<BIT extends BigIntType>(scalars: Scalars<BIT>, identifier: number): Scalar<BIT> {
+    if (!Number.isSafeInteger(identifier) || identifier < 1)
+        throw new InvalidArgumentError('secretSharing: identifiers are positive integers')
+    return scalars.create(identifier)
+}
+
+// Σ coefficients[j]·x^j by Horner's rule
+export function evaluatePolynomial<BIT extends BigIntType>(
+    scalars: Scalars<BIT>,
+    coefficients: Scalar<BIT>[],
+    x: Scalar<BIT>
+): Scalar<BIT> {
+    let value = scalars.ZERO
+    for (let j = coefficients.length - 1; j >= 0; j--) value = scalars.add(scalars.mul(value, x), coefficients[j])
+    return value
+}
+
+// Σ commitments[j]·x^j, the public counterpart of evaluatePolynomial
+export function evaluateCommitment<BIT extends BigIntType>(
+    scalars: Scalars<BIT>,
+    ExtendedPointClass: ExtendedPointStatic<BIT>,
+    commitments: ExtendedPointBase<BIT>[],
+    x: Scalar<BIT>
+): ExtendedPointBase<BIT> {
+    const powers: BIT[] = []
+    let power = scalars.ONE
+    for (let j = 0; j < commitments.length; j++) {
+        powers.push(power.value)
+        power = scalars.mul(power, x)
+    }
+    return ExtendedPointClass.multiScalarMul(powers, commitments)
+}
+
+// λᵢ = Π xⱼ / (xⱼ - xᵢ) over j ≠ i, the Lagrange coefficient of identifiers[index] at 0
+export function lagrangeCoefficient<BIT extends BigIntType>(
+    scalars: Scalars<BIT>,
+    identifiers: number[],
+    index: number
+): Scalar<BIT> {
+    if (new Set(identifiers).size !== identifiers.length)
+        throw new InvalidArgumentError('secretSharing: duplicate identifiers')
+    const xi = shareIndex(scalars, identifiers[index])
+    let numerator = scalars.ONE
+    let denominator = scalars.ONE
+    identifiers.forEach((identifier, j) => {
+        if (j === index) return
+        const xj = shareIndex(scalars, identifier)
+        numerator = scalars.mul(numerator, xj)
+        denominator = scalars.mul(denominator, scalars.sub(xj, xi))
+    })
+    return scalars.mul(numerator, scalars.invert(denominator))
+}
+
+// Shamir's secret sharing over the scalars mod ℓ, with Feldman and Pedersen verifiable secret sharing
+// and Pedersen's distributed key generation: every participant deals a Feldman VSS of its own random
+// secret and the group's secret is their sum, which nobody ever holds.
+// https://link.springer.com/chapter/10.1007/3-540-46416-6_47
+export function makeSecretSharingFunctions<BIT extends BigIntType>(
+    CURVE: CurveType<BIT>,
+    serializer: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>,
+    scalars: Scalars<BIT>,
+    PointClass: PointStatic<BIT>,
+    ExtendedPointClass: ExtendedPointStatic<BIT>,
+    hashToCurve: HashToCurveFunctions<BIT>['hashToCurve'],
+    sha512Impl?: Hash
+): SecretSharingFunctions<BIT> {
+    const BASE = ExtendedPointClass.BASE
+    const sha512ToNumberLE = makeSha512ToNumberLE(serializer, math, CURVE, sha512Impl)
+    let generatorH: Promise<ExtendedPointBase<BIT>> | undefined
+
+    function toPoint(P: ExtendedPointBase<BIT>): PointBase<BIT> {
+        const { x, y } = P.toAffine()
+        return new PointClass(x, y)
+    }
+
+    function samePoint(P: ExtendedPointBase<BIT>, Q: ExtendedPointBase<BIT>): boolean {
+        return toPoint(P).equals(toPoint(Q))
+    }
+
+    function checkThreshold(threshold: number, total: number) {
+        if (!Number.isSafeInteger(threshold) || !Number.isSafeInteger(total))
+            throw new InvalidArgumentError('secretSharing: expected integer threshold and total')
+        if (threshold < 1 || threshold > total)
+            throw new InvalidArgumentError('secretSharing: expected 1 <= threshold <= total')
+    }
+
+    // The secret and threshold - 1 random coefficients
+    function randomPolynomial(secret: Scalar<BIT>, threshold: number): Scalar<BIT>[] {
+        const coefficients = [secret]
+        for (let j = 1; j < threshold; j++) coefficients.push(scalars.random())
+        return coefficients
+    }
+
+    function evaluateAll(coefficients: Scalar<BIT>[], total: number): SecretShare<BIT>[] {
+        const shares: SecretShare<BIT>[] = []
+        for (let identifier = 1; identifier <= total; identifier++) {
+            const value = evaluatePolynomial(scalars, coefficients, shareIndex(scalars, identifier))
+            shares.push({ identifier, value })
+        }
+        return shares
+    }
+
+    // Public multiples of B, zero included, which the secret polynomial's coefficients may be
+    function baseMultiply(s: Scalar<BIT>): ExtendedPointBase<BIT> {
+        return ExtendedPointClass.multiScalarMulConstantTime([s.value], [BASE])
+    }
+
+    function split(secret: Scalar<BIT>, threshold: number, total: number): SecretShare<BIT>[] {
+        checkThreshold(threshold, total)
+        return evaluateAll(randomPolynomial(secret, threshold), total)
+    }
+
+    function combine(shares: SecretShare<BIT>[]): Scalar<BIT> {
+        if (!shares.length) throw new InvalidArgumentError('secretSharing.combine: expected shares')
+        const identifiers = shares.map((s) => s.identifier)
+        return shares.reduce(
+            (secret, share, i) =>
+                scalars.add(secret, scalars.mul(share.value, lagrangeCoefficient(scalars, identifiers, i))),
+            scalars.ZERO
+        )
+    }
+
+    // https://www.cs.umd.edu/~gasarch/TOPICS/secretsharing/feldmanVSS.pdf
+    const feldman: FeldmanFunctions<BIT> = {
+        deal(secret, threshold, total) {
+            checkThreshold(threshold, total)
+            const coefficients = randomPolynomial(secret, threshold)
+            return { shares: evaluateAll(coefficients, total), commitments: coefficients.map(baseMultiply) }
+        },
+        // f(i)·B = Σ Cⱼ·i^j
+        verifyShare(share, commitments) {
+            const expected = evaluateCommitment(
+                scalars,
+                ExtendedPointClass,
+                commitments,
+                shareIndex(scalars, share.identifier)
+            )
+            return samePoint(baseMultiply(share.value), expected)
+        },
+    }
+
+    // https://link.springer.com/chapter/10.1007/3-540-46766-1_9
+    const pedersen: PedersenFunctions<BIT> = {
+        generator() {
+            if (!generatorH) generatorH = hashToCurve(PEDERSEN_MSG, PEDERSEN_DST)
+            return generatorH
+        },
+        async deal(secret, threshold, total) {
+            checkThreshold(threshold, total)
+            const H = await pedersen.generator()
+            const coefficients = randomPolynomial(secret, threshold)
+            const blinding = randomPolynomial(scalars.random(), threshold)
+            const commitments = coefficients.map((a, j) =>
+                ExtendedPointClass.multiScalarMulConstantTime([a.value, blinding[j].value], [BASE, H])
+            )
+            return {
+                shares: evaluateAll(coefficients, total),
+                blindingShares: evaluateAll(blinding, total),
+                commitments,
+            }
+        },
+        // f(i)·B + g(i)·H = Σ Cⱼ·i^j
+        async verifyShare(share, blindingShare, commitments) {
+            if (share.identifier !== blindingShare.identifier)
+                throw new InvalidArgumentError('pedersen.verifyShare: shares of different participants')
+            const H = await pedersen.generator()
+            const expected = evaluateCommitment(
+                scalars,
+                ExtendedPointClass,
+                commitments,
+                shareIndex(scalars, share.identifier)
+            )
+            const actual = ExtendedPointClass.multiScalarMulConstantTime(
+                [share.value.value, blindingShare.value.value],
+                [BASE, H]
+            )
+            return samePoint(actual, expected)
+        },
+    }
+
+    // c = SHA-512(context || i || C₀ || R) mod ℓ, binding the proof to the participant
+    async function proofChallenge(identifier: number, C0: ExtendedPointBase<BIT>, R: ExtendedPointBase<BIT>) {
+        const id = scalars.toBytes(shareIndex(scalars, identifier))
+        return scalars.create(
+            await sha512ToNumberLE(DKG_CONTEXT, id, toPoint(C0).toRawBytes(), toPoint(R).toRawBytes())
+        )
+    }
+
+    async function round1(identifier: number, threshold: number, total: number): Promise<DkgRound1<BIT>> {
+        checkThreshold(threshold, total)
+        if (identifier > total) throw new InvalidArgumentError('dkg.round1: identifier is larger than total')
+        const coefficients = randomPolynomial(scalars.random(), threshold)
+        const commitments = coefficients.map(baseMultiply)
+        const k = scalars.random()
+        const R = baseMultiply(k)
+        const c = await proofChallenge(identifier, commitments[0], R)
+        const z = scalars.add(k, scalars.mul(coefficients[0], c))
+        const shares = evaluateAll(coefficients, total).map((s) => ({
+            sender: identifier,
+            receiver: s.identifier,
+            value: s.value,
+        }))
+        return {
+            secretPackage: { identifier, threshold, total, coefficients },
+            broadcast: { identifier, commitments, proof: { R, z } },
+            shares,
+        }
+    }
+
+    async function round2(
+        secretPackage: DkgSecretPackage<BIT>,
+        broadcasts: DkgBroadcast<BIT>[],
+        shares: DkgShare<BIT>[]
+    ): Promise<DkgResult<BIT>> {
+        const { identifier, threshold, total } = secretPackage
+        if (broadcasts.length !== total)
+            throw new InvalidArgumentError('dkg.round2: expected a broadcast from everyone')
+        let value = scalars.ZERO
+        for (let sender = 1; sender <= total; sender++) {
+            const broadcast = broadcasts.filter((b) => b.identifier === sender)
+            const share = shares.filter((s) => s.sender === sender && s.receiver === identifier)
+            if (broadcast.length !== 1 || share.length !== 1)
+                throw new InvalidArgumentError(
+                    `dkg.round2: expected one broadcast and one share from participant ${sender}`
+                )
+            const { commitments, proof } = broadcast[0]
+            if (commitments.length !== threshold)
+                throw new InvalidArgumentError(`dkg.round2: participant ${sender} committed to the wrong threshold`)
+            if (!commitments.every((C) => C.isTorsionFree()))
+                throw new InvalidPointError(`dkg.round2: participant ${sender} committed to points of mixed order`)
+            // R = z·B - c·C₀
+            const c = await proofChallenge(sender, commitments[0], proof.R)
+            const R = ExtendedPointClass.multiScalarMul(
+                [proof.z.value, scalars.negate(c).value],
+                [BASE, commitments[0]]
+            )
+            if (!samePoint(R, proof.R))
+                throw new InvalidProofError(`dkg.round2: proof of knowledge of participant ${sender} does not verify`)
+            if (!feldman.verifyShare({ identifier, value: share[0].value }, commitments))
+                throw new InvalidArgumentError(
+                    `dkg.round2: share from participant ${sender} does not match its commitments`
+                )
+            value = scalars.add(value, share[0].value)
+        }
+        const commitments = broadcasts[0].commitments.map((_, j) =>
+            broadcasts.slice(1).reduce((sum, b) => sum.add(b.commitments[j]), broadcasts[0].commitments[j])
+        )
+        return {
+            secretShare: { identifier, value },
+            publicKeyShare: toPoint(
+                evaluateCommitment(scalars, ExtendedPointClass, commitments, shareIndex(scalars, identifier))
+            ),
+            groupPublicKey: toPoint(commitments[0]),
+            commitments,
+        }
+    }
+
+    return { split, combine, feldman, pedersen, dkg: { round1, round2 } }
+}
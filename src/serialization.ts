@@ -1,6 +1,9 @@
 import { BigIntType, Integers } from './integers'
+import { InvalidEncodingError, InvalidHexError } from './errors'
 
 export type Hex = Uint8Array | string
+// Unlike Hex, strings here are text and are UTF-8 encoded, as in domain separation tags.
+export type Utf8OrBytes = Uint8Array | string
 export type PrivKey<BIT extends BigIntType> = Hex | BIT | number
 export const B32 = 32
 
@@ -38,17 +41,9 @@ export class SerializationFunctions<BIT extends BigIntType> {
 
     // Little Endian
     bytesToNumberLE(uint8a: Uint8Array): BIT {
-        let value = this.toBigInt(0)
-        for (let i = 0; i < uint8a.length; i++) {
-            value = this.Ints.add(
-                value,
-                this.Ints.leftShift(
-                    this.Ints.BigInt(uint8a[i]),
-                    this.Ints.multiply(this.toBigInt(8), this.Ints.BigInt(i))
-                )
-            )
-        }
-        return value
+        // One parse is much cheaper than shifting and adding a bignum per byte.
+        if (uint8a.length === 0) return this.ZERO
+        return this.Ints.BigInt(`0x${bytesToHex(Uint8Array.from(uint8a).reverse())}`)
     }
 }
 
@@ -75,15 +70,132 @@ export function bytesToHex(uint8a: Uint8Array): string {
     return hex
 }
 
+// Cached for the per-byte loop of hexToBytes, like Math.floor in field.ts.
+const parseInt = Number.parseInt
+const HEX = /^[0-9a-fA-F]*$/
+
 export function hexToBytes(hex: string): Uint8Array {
     if (typeof hex !== 'string') {
-        throw new TypeError('hexToBytes: expected string, got ' + typeof hex)
+        throw new InvalidHexError('hexToBytes: expected string, got ' + typeof hex)
     }
-    if (hex.length % 2) throw new Error('hexToBytes: received invalid unpadded hex')
+    if (hex.length % 2) throw new InvalidHexError('hexToBytes: received invalid unpadded hex')
+    // parseInt would read non-hex characters as 0 or stop early, so check them all first
+    if (!HEX.test(hex)) throw new InvalidHexError('hexToBytes: expected hex characters only')
     const array = new Uint8Array(hex.length / 2)
     for (let i = 0; i < array.length; i++) {
         const j = i * 2
-        array[i] = Number.parseInt(hex.slice(j, j + 2), 16)
+        array[i] = parseInt(hex.slice(j, j + 2), 16)
     }
     return array
 }
+
+export function ensureBytes(hex: Hex): Uint8Array {
+    return hex instanceof Uint8Array ? hex : hexToBytes(hex)
+}
+
+// Encodes text as UTF-8 without relying on TextEncoder, which some platforms lack.
+export function utf8ToBytes(str: string): Uint8Array {
+    const bytes: number[] = []
+    for (let i = 0; i < str.length; i++) {
+        let c = str.charCodeAt(i)
+        if (c >= 0xd800 && c < 0xdc00 && i + 1 < str.length) {
+            const low = str.charCodeAt(i + 1)
+            if (low >= 0xdc00 && low < 0xe000) {
+                c = 0x10000 + ((c - 0xd800) << 10) + (low - 0xdc00)
+                i++
+            }
+        }
+        if (c < 0x80) {
+            bytes.push(c)
+        } else if (c < 0x800) {
+            bytes.push(0xc0 | (c >> 6), 0x80 | (c & 63))
+        } else if (c < 0x10000) {
+            bytes.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 63), 0x80 | (c & 63))
+        } else {
+            bytes.push(0xf0 | (c >> 18), 0x80 | ((c >> 12) & 63), 0x80 | ((c >> 6) & 63), 0x80 | (c & 63))
+        }
+    }
+    return Uint8Array.from(bytes)
+}
+
+// Decodes UTF-8 without relying on TextDecoder. Malformed sequences are rejected.
+export function bytesToUtf8(bytes: Uint8Array): string {
+    let str = ''
+    for (let i = 0; i < bytes.length; ) {
+        const b = bytes[i]
+        const extra =
+            b < 0x80 ? 0 : b >= 0xc2 && b < 0xe0 ? 1 : b >= 0xe0 && b < 0xf0 ? 2 : b >= 0xf0 && b < 0xf5 ? 3 : -1
+        if (extra < 0 || i + extra >= bytes.length) throw new InvalidEncodingError('bytesToUtf8: invalid UTF-8')
+        let c = extra ? b & (0x3f >> extra) : b
+        for (let j = 1; j <= extra; j++) {
+            if ((bytes[i + j] & 0xc0) !== 0x80) throw new InvalidEncodingError('bytesToUtf8: invalid UTF-8')
+            c = (c << 6) | (bytes[i + j] & 0x3f)
+        }
+        // Overlong encodings, surrogates and code points above U+10FFFF
+        if (
+            (extra === 2 && c < 0x800) ||
+            (extra === 3 && (c < 0x10000 || c > 0x10ffff)) ||
+            (c >= 0xd800 && c < 0xe000)
+        ) {
+            throw new InvalidEncodingError('bytesToUtf8: invalid UTF-8')
+        }
+        str += String.fromCodePoint(c)
+        i += extra + 1
+    }
+    return str
+}
+
+export function ensureUtf8OrBytes(data: Utf8OrBytes): Uint8Array {
+    return data instanceof Uint8Array ? data : utf8ToBytes(data)
+}
+
+// Base64 with padding, RFC 4648 section 4. Implemented here since atob and Buffer aren't available everywhere.
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let out = ''
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0)
+        const chars = Math.min(bytes.length - i, 3) + 1
+        for (let j = 0; j < 4; j++) out += j < chars ? BASE64_ALPHABET[(n >> (18 - 6 * j)) & 63] : '='
+    }
+    return out
+}
+
+export function base64ToBytes(str: string): Uint8Array {
+    if (typeof str !== 'string') throw new InvalidEncodingError('base64ToBytes: expected string, got ' + typeof str)
+    const trimmed = str.replace(/=+$/, '')
+    if (str.length % 4 || trimmed.length % 4 === 1 || str.length - trimmed.length > 2) {
+        throw new InvalidEncodingError('base64ToBytes: invalid padding')
+    }
+    const bytes = new Uint8Array(Math.floor((trimmed.length * 3) / 4))
+    let n = 0
+    for (let i = 0; i < trimmed.length; i++) {
+        const v = BASE64_ALPHABET.indexOf(trimmed[i])
+        if (v === -1) throw new InvalidEncodingError('base64ToBytes: invalid character')
+        n = (n << 6) | v
+        if (i % 4 === 3 || i === trimmed.length - 1) {
+            // The last group of 2 or 3 characters carries 4 or 2 padding bits, which must be zero (RFC 4648 section 3.5).
+            const last = i % 4
+            const paddingBits = last === 3 ? 0 : last === 2 ? 2 : 4
+            if (n & ((1 << paddingBits) - 1)) throw new InvalidEncodingError('base64ToBytes: non-zero padding bits')
+            const shifted = n >> paddingBits
+            const count = last === 3 ? 3 : last
+            for (let j = 0; j < count; j++) bytes[(i >> 2) * 3 + j] = (shifted >> (8 * (count - 1 - j))) & 0xff
+            n = 0
+        }
+    }
+    return bytes
+}
+
+// Base64url without padding, RFC 4648 section 5, as used by JOSE.
+export function bytesToBase64Url(bytes: Uint8Array): string {
+    return bytesToBase64(bytes).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+export function base64UrlToBytes(str: string): Uint8Array {
+    if (typeof str !== 'string') throw new InvalidEncodingError('base64UrlToBytes: expected string, got ' + typeof str)
+    if (/[+/=]/.test(str)) throw new InvalidEncodingError('base64UrlToBytes: invalid character')
+    const padded = str.padEnd(str.length + ((4 - (str.length % 4)) % 4), '=')
+    return base64ToBytes(padded.replace(/-/g, '+').replace(/_/g, '/'))
+}
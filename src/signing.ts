@@ -1,11 +1,23 @@
 import { PointBase } from '.'
 import { CurveType, isWithinCurveOrder } from './curve'
-import { Hash, makeSha512ToNumberLE, sha512 } from './hash'
+import { Hash, makeSha512ToNumberLE, makeSha512ToNumberLESync, sha512, sha512Sync } from './hash'
 import { BigIntType, Integers } from './integers'
 import { KeyUtils } from './key-utils'
 import { MathFunctions } from './math'
-import { ExtendedPointStatic, PointStatic } from './points'
-import { SerializationFunctions, IntFactory, Hex, hexToBytes, B32, bytesToHex, PrivKey } from './serialization'
+import { randomBytes } from './utils'
+import { ExtendedPointBase, ExtendedPointStatic, PointStatic } from './points'
+import {
+    SerializationFunctions,
+    IntFactory,
+    Hex,
+    hexToBytes,
+    B32,
+    bytesToHex,
+    PrivKey,
+    concatBytes,
+    ensureBytes,
+} from './serialization'
+import { InvalidArgumentError, InvalidSignatureError, NonCanonicalScalarError } from './errors'
 
 export interface SignatureData<BIT extends BigIntType> {
     r: PointBase<BIT>
@@ -26,17 +38,71 @@ export interface SignatureStatic<BIT extends BigIntType> {
 export type SigType<BIT extends BigIntType> = SignatureBase<BIT> | Hex
 export type PubKey<BIT extends BigIntType> = Hex | PointBase<BIT>
 
+// Which signatures verify accepts:
+// - 'cofactored': canonical encodings and the cofactored equation [8][S]B = [8]R + [8][k]A. The default.
+// - 'cofactorless': canonical encodings and [S]B = R + [k]A.
+// - 'rfc8032-strict': 'cofactorless' that also rejects A and R of small order.
+// - 'zip215': the cofactored equation with non-canonical A and R accepted. https://zips.z.cash/zip-0215
+// All modes require 0 <= S < L.
+export type VerifyMode = 'rfc8032-strict' | 'cofactored' | 'cofactorless' | 'zip215'
+
+export interface VerifyOptions {
+    mode?: VerifyMode
+}
+
+export interface VerifyBatchItem<BIT extends BigIntType> {
+    signature: SigType<BIT>
+    message: Hex
+    publicKey: PubKey<BIT>
+}
+
 export interface SigningFunctions<BIT extends BigIntType> {
     Signature: SignatureStatic<BIT>
     sign: {
         (hash: Uint8Array, privateKey: Hex): Promise<Uint8Array>
         (hash: string, privateKey: Hex): Promise<string>
     }
-    verify: (signature: SigType<BIT>, hash: Hex, publicKey: PubKey<BIT>) => Promise<boolean>
+    verify: (signature: SigType<BIT>, hash: Hex, publicKey: PubKey<BIT>, options?: VerifyOptions) => Promise<boolean>
+    // verify for each item, except that items which can't be decoded are false instead of rejecting the batch
+    verifyBatch: (items: VerifyBatchItem<BIT>[]) => Promise<boolean[]>
+    // Ed25519ctx: RFC8032 5.1 with phflag = 0 and a context of 1 to 255 bytes.
+    signCtx: {
+        (message: Uint8Array, privateKey: Hex, context: Hex): Promise<Uint8Array>
+        (message: string, privateKey: Hex, context: Hex): Promise<string>
+    }
+    verifyCtx: (
+        signature: SigType<BIT>,
+        message: Hex,
+        publicKey: PubKey<BIT>,
+        context: Hex,
+        options?: VerifyOptions
+    ) => Promise<boolean>
+    // Ed25519ph: RFC8032 5.1 with phflag = 1. The message is hashed with SHA-512 before signing.
+    signPh: {
+        (message: Uint8Array, privateKey: Hex, context?: Hex): Promise<Uint8Array>
+        (message: string, privateKey: Hex, context?: Hex): Promise<string>
+    }
+    verifyPh: (
+        signature: SigType<BIT>,
+        message: Hex,
+        publicKey: PubKey<BIT>,
+        context?: Hex,
+        options?: VerifyOptions
+    ) => Promise<boolean>
     getPublicKey: {
         (privateKey: number | Uint8Array | BIT): Promise<Uint8Array>
         (privateKey: string): Promise<string>
     }
+    // Synchronous variants. They need a synchronous Hash passed to makeED and throw otherwise.
+    signSync: {
+        (hash: Uint8Array, privateKey: Hex): Uint8Array
+        (hash: string, privateKey: Hex): string
+    }
+    verifySync: (signature: SigType<BIT>, hash: Hex, publicKey: PubKey<BIT>, options?: VerifyOptions) => boolean
+    getPublicKeySync: {
+        (privateKey: number | Uint8Array | BIT): Uint8Array
+        (privateKey: string): string
+    }
 }
 export function makeSigningFunctions<BIT extends BigIntType>(
     CURVE: CurveType<BIT>,
@@ -54,9 +120,11 @@ export function makeSigningFunctions<BIT extends BigIntType>(
 
         static fromHex(hex: Hex) {
             hex = ensureBytes(hex)
+            if (hex.length !== B32 * 2) throw new InvalidSignatureError('Signature.fromHex: expected 64 bytes')
             const r = PointClass.fromHex(hex.slice(0, 32))
             const s = serializer.bytesToNumberLE(hex.slice(32))
-            if (!isWithinCurveOrder(s, Ints, CURVE)) throw new Error('Signature.fromHex expects s <= CURVE.n')
+            if (!isWithinCurveOrder(s, Ints, CURVE))
+                throw new NonCanonicalScalarError('Signature.fromHex expects s <= CURVE.n')
             return new Signature(r, s)
         }
 
@@ -80,6 +148,7 @@ export function makeSigningFunctions<BIT extends BigIntType>(
     type SigType = Hex | ReturnType<typeof Signature.fromHex>
 
     const sha512ToNumberLE = makeSha512ToNumberLE(serializer, math, CURVE, sha512Impl)
+    const sha512ToNumberLESync = makeSha512ToNumberLESync(serializer, math, CURVE, sha512Impl)
     function getPublicKey(privateKey: Uint8Array | BIT | number): Promise<Uint8Array>
     function getPublicKey(privateKey: string): Promise<string>
     async function getPublicKey(privateKey: PrivKey<BIT>) {
@@ -87,41 +156,262 @@ export function makeSigningFunctions<BIT extends BigIntType>(
         return typeof privateKey === 'string' ? key.toHex() : key.toRawBytes()
     }
 
-    function sign(hash: Uint8Array, privateKey: Hex): Promise<Uint8Array>
-    function sign(hash: string, privateKey: Hex): Promise<string>
-    async function sign(hash: Hex, privateKey: Hex) {
-        const privBytes = await sha512(keyUtils.normalizePrivateKey(privateKey))
+    function getPublicKeySync(privateKey: Uint8Array | BIT | number): Uint8Array
+    function getPublicKeySync(privateKey: string): string
+    function getPublicKeySync(privateKey: PrivKey<BIT>) {
+        const key = PointClass.fromPrivateKeySync(privateKey)
+        return typeof privateKey === 'string' ? key.toHex() : key.toRawBytes()
+    }
+
+    // Signs msg with an optional dom2 prefix. PureEdDSA uses an empty domain.
+    async function signWithDomain(msg: Uint8Array, privateKey: Hex, domain: Uint8Array) {
+        const privBytes = await sha512(keyUtils.normalizePrivateKey(privateKey), sha512Impl)
         const p = keyUtils.encodePrivate(privBytes)
         const P = PointClass.BASE.multiply(p)
-        const msg = ensureBytes(hash)
-        const r = await sha512ToNumberLE(keyUtils.keyPrefix(privBytes), msg)
+        const r = await sha512ToNumberLE(domain, keyUtils.keyPrefix(privBytes), msg)
         const R = PointClass.BASE.multiply(r)
-        const h = await sha512ToNumberLE(R.toRawBytes(), P.toRawBytes(), msg)
+        const h = await sha512ToNumberLE(domain, R.toRawBytes(), P.toRawBytes(), msg)
         const S = math.mod(Ints.add(r, Ints.multiply(h, p)), CURVE.n)
-        const sig = new Signature(R, S)
-        return typeof hash === 'string' ? sig.toHex() : sig.toRawBytes()
+        return new Signature(R, S)
     }
 
-    async function verify(signature: SigType, hash: Hex, publicKey: PubKey): Promise<boolean> {
-        hash = ensureBytes(hash)
+    // Same as signWithDomain, with a synchronous Hash.
+    function signWithDomainSync(msg: Uint8Array, privateKey: Hex, domain: Uint8Array) {
+        const privBytes = sha512Sync(keyUtils.normalizePrivateKey(privateKey), sha512Impl)
+        const p = keyUtils.encodePrivate(privBytes)
+        const P = PointClass.BASE.multiply(p)
+        const r = sha512ToNumberLESync(domain, keyUtils.keyPrefix(privBytes), msg)
+        const R = PointClass.BASE.multiply(r)
+        const h = sha512ToNumberLESync(domain, R.toRawBytes(), P.toRawBytes(), msg)
+        const S = math.mod(Ints.add(r, Ints.multiply(h, p)), CURVE.n)
+        return new Signature(R, S)
+    }
 
-        const pk: typeof PointClass.BASE =
-            publicKey instanceof PointClass.BASE.constructor
-                ? (publicKey as typeof PointClass.BASE)
-                : PointClass.fromHex(publicKey as string)
-        if (!(signature instanceof Signature)) {
-            signature = Signature.fromHex(signature)
+    // Decodes A, R and S with the encoding rules of the policy. The challenge hash covers the
+    // encodings of A and R as given, which only differ from the decoded points under ZIP215.
+    function decodeSignature(signature: SigType, publicKey: PubKey, policy: VerifyPolicy) {
+        let pk: typeof PointClass.BASE
+        let pkBytes: Uint8Array
+        if (publicKey instanceof PointClass.BASE.constructor) {
+            pk = publicKey as typeof PointClass.BASE
+            pkBytes = pk.toRawBytes()
+        } else {
+            pkBytes = ensureBytes(publicKey as Hex)
+            pk = PointClass.fromHex(pkBytes, policy.zip215)
+        }
+        if (signature instanceof Signature) {
+            return { r: signature.r, s: signature.s, rBytes: signature.r.toRawBytes(), pk, pkBytes }
         }
-        const hs = await sha512ToNumberLE(signature.r.toRawBytes(), pk.toRawBytes(), hash)
-        const Ph = ExtendedPointClass.fromAffine(pk).multiplyUnsafe(hs)
-        const Gs = ExtendedPointClass.BASE.multiplyUnsafe(signature.s)
-        const RPh = ExtendedPointClass.fromAffine(signature.r).add(Ph)
-        return RPh.subtract(Gs).multiplyUnsafe(toBigInt(8)).equals(ExtendedPointClass.ZERO)
+        const bytes = ensureBytes(signature as Hex)
+        if (bytes.length !== B32 * 2) throw new InvalidSignatureError('verify: expected 64 bytes of signature')
+        const rBytes = bytes.slice(0, B32)
+        const r = PointClass.fromHex(rBytes, policy.zip215)
+        // RFC8032 5.1.7: S must be in the range 0 <= S < L.
+        const s = serializer.bytesToNumberLE(bytes.slice(B32))
+        if (!Ints.lessThan(s, CURVE.n)) throw new NonCanonicalScalarError('verify: expected S < CURVE.n')
+        return { r, s, rBytes, pk, pkBytes }
+    }
+
+    // The identity is (0, 1), i.e. X = 0 and Y = Z in extended coordinates.
+    function isIdentity(p: ExtendedPointBase<BIT>): boolean {
+        return Ints.equal(math.mod(p.x), toBigInt(0)) && Ints.equal(math.mod(p.y), math.mod(p.z))
+    }
+
+    async function verifyWithDomain(
+        signature: SigType,
+        msg: Uint8Array,
+        publicKey: PubKey,
+        domain: Uint8Array,
+        options?: VerifyOptions
+    ): Promise<boolean> {
+        const policy = verifyPolicy(options)
+        const decoded = decodeSignature(signature, publicKey, policy)
+        const hs = await sha512ToNumberLE(domain, decoded.rBytes, decoded.pkBytes, msg)
+        return verifyEquation(decoded, hs, policy)
     }
 
-    return { Signature, sign, verify, getPublicKey }
+    function verifyWithDomainSync(
+        signature: SigType,
+        msg: Uint8Array,
+        publicKey: PubKey,
+        domain: Uint8Array,
+        options?: VerifyOptions
+    ): boolean {
+        const policy = verifyPolicy(options)
+        const decoded = decodeSignature(signature, publicKey, policy)
+        const hs = sha512ToNumberLESync(domain, decoded.rBytes, decoded.pkBytes, msg)
+        return verifyEquation(decoded, hs, policy)
+    }
+
+    // Checks the decoded signature against the challenge hs = H(R || A || M).
+    function verifyEquation(decoded: ReturnType<typeof decodeSignature>, hs: BIT, policy: VerifyPolicy): boolean {
+        const { r, s, pk } = decoded
+        const A = ExtendedPointClass.fromAffine(pk)
+        const R = ExtendedPointClass.fromAffine(r)
+        if (policy.rejectSmallOrder && (A.isSmallOrder() || R.isSmallOrder())) return false
+        // R + [k]A - [S]B
+        const minusS = math.mod(Ints.unaryMinus(s), CURVE.n)
+        const diff = ExtendedPointClass.multiScalarMul([toBigInt(1), hs, minusS], [R, A, ExtendedPointClass.BASE])
+        // If sig is valid, we're in the torsion subgroup. Multiply by 8 will give zero.
+        return isIdentity(policy.cofactored ? diff.multiplyUnsafe(toBigInt(8)) : diff)
+    }
+
+    // Random 128-bit coefficient for batch verification. Zero would drop an item from the check.
+    function randomCoefficient(): BIT {
+        let z = toBigInt(0)
+        while (Ints.equal(z, toBigInt(0))) z = serializer.bytesToNumberLE(randomBytes(16))
+        return z
+    }
+
+    // Checks all signatures with a single equation using random coefficients zᵢ:
+    // [8](Σzᵢsᵢ)B = [8]ΣzᵢRᵢ + [8]Σ(zᵢhᵢ)Aᵢ
+    // If the combined check fails, every item is verified on its own so the caller
+    // learns which signatures are bad. Items that cannot be decoded are reported as invalid.
+    async function verifyBatch(items: VerifyBatchItem<BIT>[]): Promise<boolean[]> {
+        const policy = verifyPolicy()
+        const decoded = items.map(({ signature, publicKey }) => {
+            try {
+                return decodeSignature(signature, publicKey, policy)
+            } catch (e) {
+                return undefined
+            }
+        })
+        if (decoded.some((d) => d === undefined)) {
+            return Promise.all(
+                items.map(({ signature, message, publicKey }, i) =>
+                    decoded[i] ? verify(signature, message, publicKey) : false
+                )
+            )
+        }
+
+        let sum = toBigInt(0)
+        const scalars: BIT[] = []
+        const points: ExtendedPointBase<BIT>[] = []
+        for (let i = 0; i < items.length; i++) {
+            const { r, s, rBytes, pk, pkBytes } = decoded[i] as ReturnType<typeof decodeSignature>
+            const msg = ensureBytes(items[i].message)
+            const h = await sha512ToNumberLE(rBytes, pkBytes, msg)
+            const z = randomCoefficient()
+            sum = math.mod(Ints.add(sum, Ints.multiply(z, s)), CURVE.n)
+            scalars.push(z, math.mod(Ints.multiply(z, h), CURVE.n))
+            points.push(ExtendedPointClass.fromAffine(r), ExtendedPointClass.fromAffine(pk))
+        }
+        // Σzᵢ·Rᵢ + Σ(zᵢhᵢ)·Aᵢ - (Σzᵢsᵢ)·B
+        scalars.push(math.mod(Ints.unaryMinus(sum), CURVE.n))
+        points.push(ExtendedPointClass.BASE)
+        const combined = ExtendedPointClass.multiScalarMul(scalars, points)
+        if (isIdentity(combined.multiplyUnsafe(toBigInt(8)))) {
+            return items.map(() => true)
+        }
+        return Promise.all(items.map(({ signature, message, publicKey }) => verify(signature, message, publicKey)))
+    }
+
+    function sign(hash: Uint8Array, privateKey: Hex): Promise<Uint8Array>
+    function sign(hash: string, privateKey: Hex): Promise<string>
+    async function sign(hash: Hex, privateKey: Hex) {
+        const sig = await signWithDomain(ensureBytes(hash), privateKey, EMPTY_DOMAIN)
+        return typeof hash === 'string' ? sig.toHex() : sig.toRawBytes()
+    }
+
+    async function verify(signature: SigType, hash: Hex, publicKey: PubKey, options?: VerifyOptions): Promise<boolean> {
+        return verifyWithDomain(signature, ensureBytes(hash), publicKey, EMPTY_DOMAIN, options)
+    }
+
+    function signSync(hash: Uint8Array, privateKey: Hex): Uint8Array
+    function signSync(hash: string, privateKey: Hex): string
+    function signSync(hash: Hex, privateKey: Hex) {
+        const sig = signWithDomainSync(ensureBytes(hash), privateKey, EMPTY_DOMAIN)
+        return typeof hash === 'string' ? sig.toHex() : sig.toRawBytes()
+    }
+
+    function verifySync(signature: SigType, hash: Hex, publicKey: PubKey, options?: VerifyOptions): boolean {
+        return verifyWithDomainSync(signature, ensureBytes(hash), publicKey, EMPTY_DOMAIN, options)
+    }
+
+    function signCtx(message: Uint8Array, privateKey: Hex, context: Hex): Promise<Uint8Array>
+    function signCtx(message: string, privateKey: Hex, context: Hex): Promise<string>
+    async function signCtx(message: Hex, privateKey: Hex, context: Hex) {
+        const sig = await signWithDomain(ensureBytes(message), privateKey, dom2(0, context))
+        return typeof message === 'string' ? sig.toHex() : sig.toRawBytes()
+    }
+
+    async function verifyCtx(
+        signature: SigType,
+        message: Hex,
+        publicKey: PubKey,
+        context: Hex,
+        options?: VerifyOptions
+    ): Promise<boolean> {
+        return verifyWithDomain(signature, ensureBytes(message), publicKey, dom2(0, context), options)
+    }
+
+    function signPh(message: Uint8Array, privateKey: Hex, context?: Hex): Promise<Uint8Array>
+    function signPh(message: string, privateKey: Hex, context?: Hex): Promise<string>
+    async function signPh(message: Hex, privateKey: Hex, context: Hex = EMPTY_DOMAIN) {
+        const prehashed = await sha512(ensureBytes(message), sha512Impl)
+        const sig = await signWithDomain(prehashed, privateKey, dom2(1, context))
+        return typeof message === 'string' ? sig.toHex() : sig.toRawBytes()
+    }
+
+    async function verifyPh(
+        signature: SigType,
+        message: Hex,
+        publicKey: PubKey,
+        context: Hex = EMPTY_DOMAIN,
+        options?: VerifyOptions
+    ): Promise<boolean> {
+        const prehashed = await sha512(ensureBytes(message), sha512Impl)
+        return verifyWithDomain(signature, prehashed, publicKey, dom2(1, context), options)
+    }
+
+    return {
+        Signature,
+        sign,
+        verify,
+        verifyBatch,
+        signCtx,
+        verifyCtx,
+        signPh,
+        verifyPh,
+        getPublicKey,
+        signSync,
+        verifySync,
+        getPublicKeySync,
+    }
+}
+
+const EMPTY_DOMAIN = new Uint8Array(0)
+
+interface VerifyPolicy {
+    // Accept non-canonical encodings of A and R
+    zip215: boolean
+    // Reject A and R of small order
+    rejectSmallOrder: boolean
+    // Multiply the verification equation by the cofactor
+    cofactored: boolean
+}
+
+const VERIFY_POLICIES: Record<VerifyMode, VerifyPolicy> = {
+    'rfc8032-strict': { zip215: false, rejectSmallOrder: true, cofactored: false },
+    cofactored: { zip215: false, rejectSmallOrder: false, cofactored: true },
+    cofactorless: { zip215: false, rejectSmallOrder: false, cofactored: false },
+    zip215: { zip215: true, rejectSmallOrder: false, cofactored: true },
+}
+
+function verifyPolicy(options: VerifyOptions = {}): VerifyPolicy {
+    const mode = options.mode || 'cofactored'
+    if (!Object.prototype.hasOwnProperty.call(VERIFY_POLICIES, mode))
+        throw new InvalidArgumentError(`verify: unknown mode ${mode}`)
+    return VERIFY_POLICIES[mode]
 }
 
-function ensureBytes(hash: Hex): Uint8Array {
-    return hash instanceof Uint8Array ? hash : hexToBytes(hash)
+// dom2(phflag, context) from RFC8032 2:
+// "SigEd25519 no Ed25519 collisions" || octet(phflag) || octet(len(context)) || context
+const DOM2_PREFIX = Uint8Array.from('SigEd25519 no Ed25519 collisions', (c) => c.charCodeAt(0))
+function dom2(phflag: number, context: Hex): Uint8Array {
+    const ctx = ensureBytes(context)
+    if (ctx.length > 255) throw new InvalidArgumentError('dom2: context must be at most 255 bytes')
+    // RFC8032 5.1: "For Ed25519ctx, phflag=0. The context input SHOULD NOT be empty."
+    if (phflag === 0 && !ctx.length) throw new InvalidArgumentError('dom2: Ed25519ctx context must not be empty')
+    return concatBytes(DOM2_PREFIX, Uint8Array.from([phflag, ctx.length]), ctx)
 }
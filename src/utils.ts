@@ -1,8 +1,9 @@
 import { CurveType, randomScalar } from './curve'
 import { BigIntType, Integers } from './integers'
 import { SerializationFunctions } from './serialization'
+import { RngFailureError } from './errors'
 
-const randomBytes = (bytesLength = 32): Uint8Array => {
+export const randomBytes = (bytesLength = 32): Uint8Array => {
     if (typeof self == 'object' && 'crypto' in self) {
         return self.crypto.getRandomValues(new Uint8Array(bytesLength))
     } else if (typeof process === 'object' && 'node' in process.versions) {
@@ -10,7 +11,7 @@ const randomBytes = (bytesLength = 32): Uint8Array => {
         const { randomBytes } = require('crypto')
         return new Uint8Array(randomBytes(bytesLength).buffer)
     } else {
-        throw new Error("The environment doesn't have randomBytes function")
+        throw new RngFailureError("The environment doesn't have randomBytes function")
     }
 }
 
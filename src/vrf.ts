@@ -0,0 +1,157 @@
+import { CurveType } from './curve'
+import { InvalidArgumentError, InvalidSignatureError, NonCanonicalScalarError } from './errors'
+import { Hash, sha512 } from './hash'
+import { HashToCurveFunctions } from './hash-to-curve'
+import { BigIntType, Integers } from './integers'
+import { KeyUtils } from './key-utils'
+import { MathFunctions } from './math'
+import { ExtendedPointBase, ExtendedPointStatic, PointStatic } from './points'
+import { B32, concatBytes, ensureBytes, Hex, PrivKey, SerializationFunctions, utf8ToBytes } from './serialization'
+import { PubKey } from './signing'
+
+export type VrfSuite = 'TAI' | 'ELL2'
+
+export interface VrfVerifyOptions {
+    // Rejects public keys of small order, as ECVRF_validate_key does. Defaults to true.
+    validateKey?: boolean
+}
+
+export interface VrfFunctions<BIT extends BigIntType> {
+    // The 80 byte proof pi that beta = proofToHash(pi) is the output for alpha under the key
+    prove(privateKey: PrivKey<BIT>, alpha: Hex): Promise<Uint8Array>
+    // Rejects malformed public keys and proofs, like verify does with signatures.
+    verify(publicKey: PubKey<BIT>, alpha: Hex, pi: Hex, options?: VrfVerifyOptions): Promise<boolean>
+    // The 64 byte output beta. Only a proof that verifies makes it the output for a key and alpha.
+    proofToHash(pi: Hex): Promise<Uint8Array>
+}
+
+// Challenge length cLen
+const C_LEN = 16
+// Gamma, c and s
+const PROOF_LENGTH = B32 + C_LEN + B32
+const SUITES: Record<VrfSuite, number> = { TAI: 0x03, ELL2: 0x04 }
+const ELL2_H2C_SUITE = 'edwards25519_XMD:SHA-512_ELL2_NU_'
+
+// ECVRF-EDWARDS25519-SHA512-TAI and ECVRF-EDWARDS25519-SHA512-ELL2.
+// https://www.rfc-editor.org/rfc/rfc9381#section-5.5
+// Keys are Ed25519 keys: the secret scalar x and Y = xB are derived as in RFC8032.
+export function makeVrfFunctions<BIT extends BigIntType>(
+    suite: VrfSuite,
+    CURVE: CurveType<BIT>,
+    Ints: Integers<BIT>,
+    serializer: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>,
+    keyUtils: KeyUtils<BIT>,
+    PointClass: PointStatic<BIT>,
+    ExtendedPointClass: ExtendedPointStatic<BIT>,
+    encodeToCurve: HashToCurveFunctions<BIT>['encodeToCurve'],
+    sha512Impl?: Hash
+): VrfFunctions<BIT> {
+    const SUITE = SUITES[suite]
+    // DST = "ECVRF_" || h2c_suite_ID_string || suite_string
+    const ELL2_DST = concatBytes(utf8ToBytes(`ECVRF_${ELL2_H2C_SUITE}`), Uint8Array.of(SUITE))
+
+    // point_to_string
+    function pointToBytes(p: ExtendedPointBase<BIT>): Uint8Array {
+        const { x, y } = p.toAffine()
+        return new PointClass(x, y).toRawBytes()
+    }
+
+    // string_to_point is RFC8032 decoding, which rejects non-canonical encodings.
+    function decodePoint(bytes: Uint8Array): ExtendedPointBase<BIT> {
+        return ExtendedPointClass.fromAffine(PointClass.fromHex(bytes))
+    }
+
+    // ECVRF_encode_to_curve, with the public key as encode_to_curve_salt.
+    // https://www.rfc-editor.org/rfc/rfc9381#section-5.4.1
+    async function hashToPoint(salt: Uint8Array, alpha: Uint8Array): Promise<ExtendedPointBase<BIT>> {
+        if (suite === 'ELL2') return encodeToCurve(concatBytes(salt, alpha), ELL2_DST)
+        // try_and_increment: the first 32 bytes of the hash are tried as an encoded point
+        for (let ctr = 0; ctr < 256; ctr++) {
+            const hash = await sha512(
+                concatBytes(Uint8Array.of(SUITE, 0x01), salt, alpha, Uint8Array.of(ctr, 0x00)),
+                sha512Impl
+            )
+            let H: ExtendedPointBase<BIT>
+            try {
+                H = decodePoint(hash.slice(0, B32))
+            } catch (e) {
+                continue
+            }
+            return H.clearCofactor()
+        }
+        throw new InvalidArgumentError('vrf: no point found for alpha in 256 tries')
+    }
+
+    // ECVRF_challenge_generation over encoded points, truncated to cLen bytes.
+    // https://www.rfc-editor.org/rfc/rfc9381#section-5.4.3
+    async function challenge(...points: Uint8Array[]): Promise<Uint8Array> {
+        const hash = await sha512(concatBytes(Uint8Array.of(SUITE, 0x02), ...points, Uint8Array.of(0x00)), sha512Impl)
+        return hash.slice(0, C_LEN)
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9381#section-5.1
+    async function prove(privateKey: PrivKey<BIT>, alpha: Hex): Promise<Uint8Array> {
+        const privBytes = await sha512(keyUtils.normalizePrivateKey(privateKey), sha512Impl)
+        const x = keyUtils.encodePrivate(privBytes)
+        const pkBytes = PointClass.BASE.multiply(x).toRawBytes()
+        const H = await hashToPoint(pkBytes, ensureBytes(alpha))
+        const hBytes = pointToBytes(H)
+        const gammaBytes = pointToBytes(H.multiply(x))
+        // ECVRF_nonce_generation for edwards25519 is RFC8032's: the key prefix hashed with h_string
+        // https://www.rfc-editor.org/rfc/rfc9381#section-5.4.2.2
+        const kHash = await sha512(concatBytes(keyUtils.keyPrefix(privBytes), hBytes), sha512Impl)
+        const k = math.mod(serializer.bytesToNumberLE(kHash), CURVE.n)
+        const kB = PointClass.BASE.multiply(k).toRawBytes()
+        const kH = pointToBytes(H.multiply(k))
+        const c = await challenge(pkBytes, hBytes, gammaBytes, kB, kH)
+        const s = math.mod(Ints.add(k, Ints.multiply(serializer.bytesToNumberLE(c), x)), CURVE.n)
+        return concatBytes(gammaBytes, c, serializer.numberToBytesPadded(s, B32))
+    }
+
+    // ECVRF_decode_proof. https://www.rfc-editor.org/rfc/rfc9381#section-5.4.4
+    function decodeProof(pi: Hex) {
+        const bytes = ensureBytes(pi)
+        if (bytes.length !== PROOF_LENGTH) throw new InvalidSignatureError('vrf: expected 80 bytes of proof')
+        const gammaBytes = bytes.slice(0, B32)
+        const Gamma = decodePoint(gammaBytes)
+        const c = bytes.slice(B32, B32 + C_LEN)
+        const s = serializer.bytesToNumberLE(bytes.slice(B32 + C_LEN))
+        if (!Ints.lessThan(s, CURVE.n)) throw new NonCanonicalScalarError('vrf: expected s < CURVE.n')
+        return { gammaBytes, Gamma, c, s }
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9381#section-5.3
+    async function verify(
+        publicKey: PubKey<BIT>,
+        alpha: Hex,
+        pi: Hex,
+        { validateKey = true }: VrfVerifyOptions = {}
+    ): Promise<boolean> {
+        const pkBytes =
+            publicKey instanceof PointClass.BASE.constructor
+                ? (publicKey as typeof PointClass.BASE).toRawBytes()
+                : ensureBytes(publicKey as Hex)
+        const Y = decodePoint(pkBytes)
+        if (validateKey && Y.isSmallOrder()) return false
+        const { gammaBytes, Gamma, c, s } = decodeProof(pi)
+        const H = await hashToPoint(pkBytes, ensureBytes(alpha))
+        const cNum = serializer.bytesToNumberLE(c)
+        // U = sB - cY and V = sH - cΓ
+        const U = ExtendedPointClass.multiScalarMul([s, cNum], [ExtendedPointClass.BASE, Y.negate()])
+        const V = ExtendedPointClass.multiScalarMul([s, cNum], [H, Gamma.negate()])
+        const expected = await challenge(pkBytes, pointToBytes(H), gammaBytes, pointToBytes(U), pointToBytes(V))
+        return expected.every((b, i) => b === c[i])
+    }
+
+    // https://www.rfc-editor.org/rfc/rfc9381#section-5.2
+    async function proofToHash(pi: Hex): Promise<Uint8Array> {
+        const { Gamma } = decodeProof(pi)
+        return sha512(
+            concatBytes(Uint8Array.of(SUITE, 0x03), pointToBytes(Gamma.clearCofactor()), Uint8Array.of(0x00)),
+            sha512Impl
+        )
+    }
+
+    return { prove, verify, proofToHash }
+}
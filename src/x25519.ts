@@ -0,0 +1,136 @@
+import { BigIntType, Integers } from './integers'
+import { MathFunctions } from './math'
+import { B32, bytesToHex, ensureBytes, Hex, SerializationFunctions } from './serialization'
+import { InvalidKeyLengthError, InvalidPointError } from './errors'
+
+export interface X25519Functions {
+    scalarMult: {
+        (scalar: Uint8Array, u: Hex): Uint8Array
+        (scalar: string, u: Hex): string
+    }
+    scalarMultBase: {
+        (scalar: Uint8Array): Uint8Array
+        (scalar: string): string
+    }
+    getPublicKey: {
+        (privateKey: Uint8Array): Uint8Array
+        (privateKey: string): string
+    }
+    getSharedSecret: {
+        (privateKey: Uint8Array, publicKey: Hex): Uint8Array
+        (privateKey: string, publicKey: Hex): string
+    }
+}
+
+// X25519 Diffie-Hellman on the Montgomery form of the curve.
+// https://tools.ietf.org/html/rfc7748#section-5
+export function makeX25519Functions<BIT extends BigIntType>(
+    Ints: Integers<BIT>,
+    serializer: SerializationFunctions<BIT>,
+    math: MathFunctions<BIT>
+): X25519Functions {
+    const toBigInt = Ints.BigInt
+    const ZERO = toBigInt(0)
+    const ONE = toBigInt(1)
+    // (A - 2) / 4 where A = 486662 is the Montgomery curve coefficient
+    const A24 = toBigInt(121665)
+    const BASE_U = new Uint8Array(B32)
+    BASE_U[0] = 9
+
+    // Scalars are clamped: cleared cofactor bits, bit 254 set, bit 255 cleared.
+    function decodeScalar(scalar: Uint8Array): Uint8Array {
+        if (scalar.length !== B32) throw new InvalidKeyLengthError('x25519: expected 32 bytes of scalar')
+        const k = Uint8Array.from(scalar)
+        k[0] &= 248
+        k[B32 - 1] &= 127
+        k[B32 - 1] |= 64
+        return k
+    }
+
+    // Bit 255 is ignored and non-canonical values are reduced modulo p.
+    function decodeU(u: Uint8Array): BIT {
+        if (u.length !== B32) throw new InvalidKeyLengthError('x25519: expected 32 bytes of u-coordinate')
+        const masked = Uint8Array.from(u)
+        masked[B32 - 1] &= 127
+        return math.mod(serializer.bytesToNumberLE(masked))
+    }
+
+    // Swaps a and b if swap is 1 without branching on it.
+    function cswap(swap: BIT, a: BIT, b: BIT): [BIT, BIT] {
+        const dummy = Ints.bitwiseAnd(Ints.unaryMinus(swap), Ints.bitwiseXor(a, b))
+        return [Ints.bitwiseXor(a, dummy), Ints.bitwiseXor(b, dummy)]
+    }
+
+    // z^(p-2) = (z^(2^252-3))^8 · z^3, a constant time inversion. Zero maps to zero.
+    function invert(z: BIT): BIT {
+        const z3 = math.mod(Ints.multiply(math.mod(Ints.multiply(z, z)), z))
+        return math.mod(Ints.multiply(math.pow2(math.pow_2_252_3(z), toBigInt(3)), z3))
+    }
+
+    // Montgomery ladder. https://tools.ietf.org/html/rfc7748#section-5
+    function ladder(k: Uint8Array, u: BIT): BIT {
+        const x1 = u
+        let x2 = ONE
+        let z2 = ZERO
+        let x3 = u
+        let z3 = ONE
+        let swap = ZERO
+        for (let t = 254; t >= 0; t--) {
+            const kt = toBigInt((k[t >> 3] >> (t & 7)) & 1)
+            swap = Ints.bitwiseXor(swap, kt)
+            ;[x2, x3] = cswap(swap, x2, x3)
+            ;[z2, z3] = cswap(swap, z2, z3)
+            swap = kt
+
+            // Sums and differences are only reduced after the next multiplication.
+            const A = Ints.add(x2, z2)
+            const AA = math.mod(Ints.multiply(A, A))
+            const B = Ints.subtract(x2, z2)
+            const BB = math.mod(Ints.multiply(B, B))
+            const E = Ints.subtract(AA, BB)
+            const C = Ints.add(x3, z3)
+            const D = Ints.subtract(x3, z3)
+            const DA = math.mod(Ints.multiply(D, A))
+            const CB = math.mod(Ints.multiply(C, B))
+            const DApCB = Ints.add(DA, CB)
+            const DAmCB = Ints.subtract(DA, CB)
+            x3 = math.mod(Ints.multiply(DApCB, DApCB))
+            z3 = math.mod(Ints.multiply(x1, math.mod(Ints.multiply(DAmCB, DAmCB))))
+            x2 = math.mod(Ints.multiply(AA, BB))
+            z2 = math.mod(Ints.multiply(E, Ints.add(AA, Ints.multiply(A24, E))))
+        }
+        ;[x2, x3] = cswap(swap, x2, x3)
+        ;[z2, z3] = cswap(swap, z2, z3)
+        return math.mod(Ints.multiply(x2, invert(z2)))
+    }
+
+    function scalarMultBytes(scalar: Uint8Array, u: Uint8Array): Uint8Array {
+        const result = ladder(decodeScalar(scalar), decodeU(u))
+        return serializer.numberToBytesPadded(result, B32)
+    }
+
+    function scalarMult(scalar: Uint8Array, u: Hex): Uint8Array
+    function scalarMult(scalar: string, u: Hex): string
+    function scalarMult(scalar: Hex, u: Hex) {
+        const result = scalarMultBytes(ensureBytes(scalar), ensureBytes(u))
+        return typeof scalar === 'string' ? bytesToHex(result) : result
+    }
+
+    function scalarMultBase(scalar: Uint8Array): Uint8Array
+    function scalarMultBase(scalar: string): string
+    function scalarMultBase(scalar: Hex) {
+        const result = scalarMultBytes(ensureBytes(scalar), BASE_U)
+        return typeof scalar === 'string' ? bytesToHex(result) : result
+    }
+
+    function getSharedSecret(privateKey: Uint8Array, publicKey: Hex): Uint8Array
+    function getSharedSecret(privateKey: string, publicKey: Hex): string
+    function getSharedSecret(privateKey: Hex, publicKey: Hex) {
+        const shared = scalarMultBytes(ensureBytes(privateKey), ensureBytes(publicKey))
+        // A small order public key forces the result to zero. https://tools.ietf.org/html/rfc7748#section-6.1
+        if (shared.every((b) => b === 0)) throw new InvalidPointError('x25519: shared secret is all zero')
+        return typeof privateKey === 'string' ? bytesToHex(shared) : shared
+    }
+
+    return { scalarMult, scalarMultBase, getPublicKey: scalarMultBase, getSharedSecret }
+}